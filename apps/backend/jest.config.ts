@@ -0,0 +1,22 @@
+/* eslint-disable */
+import { readFileSync } from 'fs';
+
+// Reading the SWC compilation config for the spec files
+const swcJestConfig = JSON.parse(
+  readFileSync(`${__dirname}/.spec.swcrc`, 'utf-8')
+);
+
+// Disable .swcrc look-up by SWC core because we're passing in swcJestConfig ourselves
+swcJestConfig.swcrc = false;
+
+export default {
+  displayName: '@nurse-platform/backend',
+  preset: '../../jest.preset.js',
+  testEnvironment: 'node',
+  // Same pattern as the preset's ts-jest transform, so SWC replaces it rather than running beside it
+  transform: {
+    '^.+\\.(ts|js|html)$': ['@swc/jest', swcJestConfig],
+  },
+  moduleFileExtensions: ['ts', 'js', 'html'],
+  coverageDirectory: 'test-output/jest/coverage',
+};
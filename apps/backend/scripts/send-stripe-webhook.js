@@ -0,0 +1,107 @@
+/**
+ * Local fake of Stripe's webhook sender. Builds an event, signs it with
+ * STRIPE_WEBHOOK_SECRET exactly like Stripe does and posts it to the backend.
+ * Each event is delivered twice to check that redeliveries are ignored.
+ *
+ * Usage:
+ *   node scripts/send-stripe-webhook.js <event-type> <payment-intent-id> [amount]
+ *
+ * Examples:
+ *   node scripts/send-stripe-webhook.js payment_intent.succeeded pi_123 15000
+ *   node scripts/send-stripe-webhook.js payment_intent.payment_failed pi_123
+ *   node scripts/send-stripe-webhook.js charge.dispute.created pi_123 15000
+ *   node scripts/send-stripe-webhook.js charge.dispute.closed pi_123 15000 lost
+ */
+const fetch = require('node-fetch');
+const Stripe = require('stripe');
+require('dotenv').config();
+
+const API_URL = process.env.WEBHOOK_URL || 'http://localhost:3001/api/webhooks/stripe';
+
+function buildObject(type, paymentIntentId, amount, outcome) {
+  const chargeId = `ch_fake_${paymentIntentId}`;
+
+  if (type.startsWith('charge.dispute.')) {
+    return {
+      id: `dp_fake_${paymentIntentId}`,
+      object: 'dispute',
+      amount,
+      charge: chargeId,
+      payment_intent: paymentIntentId,
+      created: Math.floor(Date.now() / 1000),
+      reason: 'product_not_received',
+      status: type === 'charge.dispute.closed' ? (outcome || 'lost') : 'needs_response',
+      evidence_details: { due_by: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60 },
+    };
+  }
+
+  return {
+    id: paymentIntentId,
+    object: 'payment_intent',
+    amount,
+    amount_received: type === 'payment_intent.succeeded' ? amount : 0,
+    currency: 'egp',
+    status: {
+      'payment_intent.succeeded': 'succeeded',
+      'payment_intent.payment_failed': 'requires_payment_method',
+      'payment_intent.amount_capturable_updated': 'requires_capture',
+      'payment_intent.canceled': 'canceled',
+    }[type] || 'processing',
+    latest_charge: { id: chargeId, object: 'charge', receipt_url: `https://pay.stripe.com/receipts/${chargeId}` },
+    payment_method: 'pm_card_visa',
+    cancellation_reason: type === 'payment_intent.canceled' ? 'automatic' : null,
+    last_payment_error: type === 'payment_intent.payment_failed' ? { message: 'Your card was declined.' } : null,
+  };
+}
+
+async function deliver(payload, secret) {
+  const header = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = await fetch(API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': header },
+    body: payload,
+  });
+  return { status: response.status, body: await response.text() };
+}
+
+async function main() {
+  const [type, paymentIntentId, amountArg, outcome] = process.argv.slice(2);
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!type || !paymentIntentId) {
+    console.log('Usage: node scripts/send-stripe-webhook.js <event-type> <payment-intent-id> [amount] [won|lost]');
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const event = {
+    id: `evt_fake_${Date.now()}`,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object: buildObject(type, paymentIntentId, Number(amountArg) || 15000, outcome) },
+  };
+  const payload = JSON.stringify(event);
+
+  console.log(`📨 Sending ${type} (${event.id}) to ${API_URL}`);
+  const first = await deliver(payload, secret);
+  console.log(`1️⃣  ${first.status} ${first.body}`);
+
+  const second = await deliver(payload, secret);
+  console.log(`2️⃣  ${second.status} ${second.body}`);
+
+  if (!second.body.includes('"duplicate":true')) {
+    console.error('❌ Redelivered event was processed again');
+    process.exit(1);
+  }
+  console.log('✅ Redelivery was acknowledged without reprocessing');
+}
+
+main().catch(error => {
+  console.error('❌ Failed to send webhook:', error.message);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Put, Param, Request, Body, UseGuards, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Put, Param, Request, Body, UseGuards, NotFoundException, BadRequestException, ValidationPipe } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -18,6 +18,9 @@ import { User } from '../schemas/user.schema';
 import { PatientRequest } from '../schemas/patient-request.schema';
 import { NurseProfile } from '../schemas/nurse-profile.schema';
 import { EmailService } from '../email/email.service';
+import { Audit } from '../common/decorators/audit.decorator';
+import { AuditTargetType } from '../schemas/audit-event.schema';
+import { RejectNurseDto } from '../dto/nurse-profile-completion.dto';
 
 @ApiTags('Admin')
 @Controller('api/admin')
@@ -73,6 +76,7 @@ export class AdminController {
   }
 
   @Post('verify-nurse/:nurseId')
+  @Audit({ action: 'nurse.verify', targetType: AuditTargetType.NURSE, targetParam: 'nurseId' })
   @ApiOperation({
     summary: 'Verify a nurse (Admin only)',
     description: 'Approve a nurse for the platform'
@@ -118,9 +122,10 @@ export class AdminController {
   }
 
   @Post('reject-nurse/:nurseId')
+  @Audit({ action: 'nurse.reject', targetType: AuditTargetType.NURSE, targetParam: 'nurseId' })
   @ApiOperation({
     summary: 'Reject a nurse (Admin only)',
-    description: 'Reject a nurse application'
+    description: 'Reject a nurse application, or request changes to specific fields and documents by sending feedback'
   })
   @ApiParam({
     name: 'nurseId',
@@ -137,11 +142,15 @@ export class AdminController {
   @ApiForbiddenResponse({
     description: 'Only admins can reject nurses'
   })
-  async rejectNurse(@Param('nurseId') nurseId: string, @Body() body: { rejectionReason?: string }, @Request() req: any) {
+  async rejectNurse(
+    @Param('nurseId') nurseId: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) body: RejectNurseDto,
+    @Request() req: any
+  ) {
     try {
       // For now, create a mock admin user since we removed auth
       const mockAdmin = { role: 'admin', _id: 'admin-id' };
-      const result = await this.nursesService.rejectNurse(nurseId, mockAdmin as any, body.rejectionReason);
+      const result = await this.nursesService.rejectNurse(nurseId, mockAdmin as any, body.rejectionReason, body.feedback);
 
       // Get nurse details for email
       const nurse = await this.userModel.findById(nurseId).exec();
@@ -687,6 +696,7 @@ export class AdminController {
   }
 
   @Put('nurse-notes/:nurseId')
+  @Audit({ action: 'nurse.notes.update', targetType: AuditTargetType.NURSE, targetParam: 'nurseId' })
   @ApiOperation({
     summary: 'Update nurse admin notes (Admin only)',
     description: 'Update internal admin notes for a nurse'
@@ -1,13 +1,28 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, Get } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Controller, Post, Body, HttpCode, HttpStatus, HttpException, Get, Delete, Param, Request, Res, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiProduces, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { AiChatService } from './ai-chat.service';
+import { ChatSessionsService } from './chat-sessions.service';
+import { AiUsageService } from './ai-usage.service';
+import { TriageService } from './triage.service';
 import { ChatMessageDto } from './dto/chat-message.dto';
 import { ChatResponseDto } from './dto/chat-response.dto';
+import { CreateChatSessionDto } from './dto/chat-session.dto';
+import { TriageRequestDto } from './dto/triage.dto';
+import { CreateRequestDto } from '../dto/request.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { UserRole } from '../schemas/user.schema';
 
 @ApiTags('AI Chat')
 @Controller('ai-chat')
 export class AiChatController {
-  constructor(private readonly aiChatService: AiChatService) {}
+  constructor(
+    private readonly aiChatService: AiChatService,
+    private readonly chatSessionsService: ChatSessionsService,
+    private readonly aiUsageService: AiUsageService,
+    private readonly triageService: TriageService,
+  ) {}
 
   @Post('message')
   @HttpCode(HttpStatus.OK)
@@ -22,14 +37,27 @@ export class AiChatController {
     description: 'Invalid message format or empty message',
   })
   @ApiResponse({
-    status: HttpStatus.INTERNAL_SERVER_ERROR,
-    description: 'Error processing message or connecting to OpenAI',
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many messages in the last minute, or the AI service is rate limiting us',
   })
-  async sendMessage(@Body() chatMessageDto: ChatMessageDto): Promise<ChatResponseDto> {
-    const aiResponse = await this.aiChatService.generateResponse(chatMessageDto.message);
+  @ApiResponse({
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    description: 'The AI service is unavailable and the mock fallback is switched off',
+  })
+  async sendMessage(@Body() chatMessageDto: ChatMessageDto, @Request() req: any): Promise<ChatResponseDto> {
+    const aiResponse = await this.aiChatService.generateResponse(chatMessageDto.message, `ip:${req.ip}`);
     return { response: aiResponse };
   }
 
+  @Post('message/stream')
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Same as POST message, but streams the response as Server-Sent Events' })
+  async streamMessage(@Body() chatMessageDto: ChatMessageDto, @Request() req: any, @Res() res: Response) {
+    await this.streamEvents(res, async onDelta => ({
+      response: await this.aiChatService.generateResponse(chatMessageDto.message, `ip:${req.ip}`, onDelta),
+    }));
+  }
+
   @Get('test')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Test endpoint for the AI chat module' })
@@ -37,11 +65,147 @@ export class AiChatController {
     status: HttpStatus.OK,
     description: 'Test endpoint working',
   })
-  async testEndpoint(): Promise<{ status: string; apiKey: boolean }> {
+  async testEndpoint(): Promise<{ status: string; apiKey: boolean; provider: string }> {
     const apiKey = !!this.aiChatService['configService'].get<string>('OPENAI_API_KEY');
     return { 
       status: 'working',
-      apiKey: apiKey
+      apiKey: apiKey,
+      provider: this.aiChatService.getProvider().name
+    };
+  }
+
+  @Get('usage')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Today's assistant token usage and limits for the current user" })
+  async getUsage(@Request() req: any) {
+    return this.aiUsageService.getUsage(String(req.user._id));
+  }
+
+  @Post('triage')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.PATIENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Suggest request details (service type, urgency, duration, specialization) from a free-text description' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Suggested draft for the patient to review; emergencies come with an escalation message',
+  })
+  async triage(@Body() triageRequestDto: TriageRequestDto, @Request() req: any) {
+    return this.triageService.triage(triageRequestDto.description, req.user);
+  }
+
+  @Post('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start a conversation with the assistant that remembers earlier messages' })
+  async createSession(@Body() createChatSessionDto: CreateChatSessionDto, @Request() req: any) {
+    return this.chatSessionsService.createSession(req.user, createChatSessionDto.title);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List the current user's conversations, most recent first" })
+  async getSessions(@Request() req: any) {
+    return this.chatSessionsService.getSessions(req.user);
+  }
+
+  @Get('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a conversation with its messages and any draft request' })
+  async getSession(@Param('id') id: string, @Request() req: any) {
+    return this.chatSessionsService.getSession(id, req.user);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a conversation' })
+  async deleteSession(@Param('id') id: string, @Request() req: any) {
+    return this.chatSessionsService.deleteSession(id, req.user);
+  }
+
+  @Post('sessions/:id/messages')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a message in a conversation; the assistant may look up the user\'s own records to answer' })
+  async sendSessionMessage(@Param('id') id: string, @Body() chatMessageDto: ChatMessageDto, @Request() req: any) {
+    return this.chatSessionsService.sendMessage(id, req.user, chatMessageDto.message);
+  }
+
+  @Post('sessions/:id/messages/stream')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Same as POST sessions/:id/messages, but streams the answer as Server-Sent Events' })
+  async streamSessionMessage(
+    @Param('id') id: string,
+    @Body() chatMessageDto: ChatMessageDto,
+    @Request() req: any,
+    @Res() res: Response
+  ) {
+    await this.streamEvents(res, async onDelta => {
+      const result = await this.chatSessionsService.sendMessage(id, req.user, chatMessageDto.message, onDelta);
+      return result.data;
+    });
+  }
+
+  @Post('sessions/:id/draft/confirm')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Submit the request the assistant drafted, as reviewed by the patient' })
+  async confirmDraft(@Param('id') id: string, @Body() createRequestDto: CreateRequestDto, @Request() req: any) {
+    return this.chatSessionsService.confirmDraft(id, req.user, createRequestDto);
+  }
+
+  @Post('sessions/:id/draft/discard')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Throw away the request the assistant drafted' })
+  async discardDraft(@Param('id') id: string, @Request() req: any) {
+    return this.chatSessionsService.discardDraft(id, req.user);
+  }
+
+  /**
+   * Server-Sent Events over POST, since EventSource cannot send a body.
+   * `delta` events carry text as it is generated, a line at a time once
+   * output moderation has passed it, then one `done` event has the full
+   * result, which replaces the streamed text when moderation refused the
+   * reply, or one `error` event. Errors before the first event
+   * (limits, unknown session) are ordinary HTTP errors.
+   */
+  private async streamEvents(res: Response, run: (onDelta: (content: string) => void) => Promise<unknown>) {
+    const send = (event: string, data: unknown) => {
+      if (!res.headersSent) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        // Stop reverse proxies from buffering the stream
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
     };
+
+    try {
+      const result = await run(content => send('delta', { content }));
+      send('done', result);
+    } catch (error: any) {
+      if (!res.headersSent) {
+        throw error;
+      }
+      const status = error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+      const body: any = error instanceof HttpException ? error.getResponse() : null;
+      send('error', {
+        statusCode: status,
+        message: (typeof body === 'object' && body?.message) || error?.message || 'Failed to generate AI response',
+      });
+    }
+    res.end();
   }
 }
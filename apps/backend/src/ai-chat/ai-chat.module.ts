@@ -1,12 +1,59 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { AiChatController } from './ai-chat.controller';
+import { ModerationController } from './moderation.controller';
 import { AiChatService } from './ai-chat.service';
+import { ChatSessionsService } from './chat-sessions.service';
+import { AssistantToolsService } from './assistant-tools.service';
+import { AiUsageService } from './ai-usage.service';
+import { TriageService } from './triage.service';
+import { ModerationService } from './moderation.service';
+import { LLM_PROVIDERS, LlmProvider } from './providers/llm-provider.interface';
+import { OpenAiLlmProvider } from './providers/openai-llm.provider';
+import { LocalLlmProvider } from './providers/local-llm.provider';
+import { MockLlmProvider } from './providers/mock-llm.provider';
+import { ChatSession, ChatSessionSchema } from '../schemas/chat-session.schema';
+import { AiUsage, AiUsageSchema } from '../schemas/ai-usage.schema';
+import { ModerationRule, ModerationRuleSchema } from '../schemas/moderation-rule.schema';
+import { ModerationFlag, ModerationFlagSchema } from '../schemas/moderation-flag.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { Application, ApplicationSchema } from '../schemas/application.schema';
+import { Payment, PaymentSchema } from '../schemas/payment.schema';
+import { RequestsModule } from '../requests/requests.module';
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [AiChatController],
-  providers: [AiChatService],
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: ChatSession.name, schema: ChatSessionSchema },
+      { name: AiUsage.name, schema: AiUsageSchema },
+      { name: ModerationRule.name, schema: ModerationRuleSchema },
+      { name: ModerationFlag.name, schema: ModerationFlagSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+      { name: Application.name, schema: ApplicationSchema },
+      { name: Payment.name, schema: PaymentSchema },
+    ]),
+    RequestsModule,
+  ],
+  controllers: [AiChatController, ModerationController],
+  providers: [
+    AiChatService,
+    ChatSessionsService,
+    AssistantToolsService,
+    AiUsageService,
+    TriageService,
+    ModerationService,
+    OpenAiLlmProvider,
+    LocalLlmProvider,
+    MockLlmProvider,
+    // Add new providers here; AiChatService picks one by AI_CHAT_PROVIDER
+    {
+      provide: LLM_PROVIDERS,
+      useFactory: (...providers: LlmProvider[]) => providers,
+      inject: [OpenAiLlmProvider, LocalLlmProvider, MockLlmProvider],
+    },
+  ],
   exports: [AiChatService],
 })
 export class AiChatModule {}
@@ -0,0 +1,64 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AiChatService } from './ai-chat.service';
+import { AiUsageService } from './ai-usage.service';
+import { ModerationService } from './moderation.service';
+import { LlmProvider, LlmProviderError, LlmProviderName, LlmStreamChunk } from './providers/llm-provider.interface';
+import { MockLlmProvider } from './providers/mock-llm.provider';
+
+// A model that streams the given words and then drops the connection
+const failingProvider = (words: string[]): LlmProvider => ({
+  name: LlmProviderName.OPENAI,
+  isEnabled: () => true,
+  complete: async () => {
+    throw new LlmProviderError('connection reset', 'unavailable');
+  },
+  stream: async function* (): AsyncIterable<LlmStreamChunk> {
+    for (const word of words) {
+      yield { type: 'delta', content: word };
+    }
+    throw new LlmProviderError('connection reset', 'unavailable');
+  },
+});
+
+describe('AiChatService', () => {
+  const createService = (provider: LlmProvider, settings: Record<string, string> = {}) => new AiChatService(
+    { get: (key: string) => settings[key] } as unknown as ConfigService,
+    [provider, new MockLlmProvider()],
+    { recordUsage: jest.fn() } as unknown as AiUsageService,
+    {} as ModerationService,
+  );
+
+  const messages = [{ role: 'user' as const, content: 'How does payment work?' }];
+
+  describe('complete', () => {
+    it('falls back to the mock when the model fails before sending any text', async () => {
+      const deltas: string[] = [];
+      const completion = await createService(failingProvider([])).complete(messages, [], { onDelta: content => deltas.push(content) });
+
+      expect(completion.content).not.toBe('');
+      expect(deltas.join('')).toBe(completion.content);
+    });
+
+    it('does not stream the mock answer after a partial reply', async () => {
+      const deltas: string[] = [];
+      const service = createService(failingProvider(['Payments ', 'are ']));
+
+      await expect(service.complete(messages, [], { onDelta: content => deltas.push(content) }))
+        .rejects.toThrow(ServiceUnavailableException);
+      expect(deltas).toEqual(['Payments ', 'are ']);
+    });
+
+    it('falls back for replies that are not streamed', async () => {
+      const completion = await createService(failingProvider(['Payments '])).complete(messages, []);
+
+      expect(completion.content).not.toBe('');
+    });
+
+    it('fails when the fallback is switched off', async () => {
+      const service = createService(failingProvider([]), { AI_CHAT_FALLBACK_TO_MOCK: 'false' });
+
+      await expect(service.complete(messages, [])).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AiUsage, AiUsageDocument } from '../schemas/ai-usage.schema';
+import { LlmProviderName, LlmUsage } from './providers/llm-provider.interface';
+
+const MINUTE_MS = 60 * 1000;
+
+// Past this many tracked callers, idle ones are dropped so guest IPs cannot grow the map forever
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Per-user limits for the assistant: a message rate per minute, kept in
+ * memory, and a daily token budget, kept in the database so it survives
+ * restarts. Guests have no account, so they are limited by IP and only
+ * the rate limit applies to them.
+ */
+@Injectable()
+export class AiUsageService {
+  // Send times of recent messages, per user id or guest IP
+  private readonly recentMessages = new Map<string, number[]>();
+
+  constructor(
+    @InjectModel(AiUsage.name) private aiUsageModel: Model<AiUsageDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Counts one message against the caller's limits, or throws 429 when a
+   * limit is reached. Call once per user message, before any model call.
+   */
+  async assertWithinLimits(clientKey: string, userId?: string): Promise<void> {
+    const now = Date.now();
+    const recent = (this.recentMessages.get(clientKey) || []).filter(sentAt => now - sentAt < MINUTE_MS);
+    if (recent.length >= this.getMessagesPerMinute()) {
+      const retryAfter = Math.ceil((MINUTE_MS - (now - recent[0])) / 1000);
+      throw new HttpException(
+        { message: `You are sending messages too quickly. Try again in ${retryAfter} seconds.`, retryAfter },
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    if (userId) {
+      const usage = await this.aiUsageModel.findOne({ userId: new Types.ObjectId(userId), day: this.today() }).lean().exec();
+      if (usage && usage.totalTokens >= this.getDailyTokenLimit()) {
+        throw new HttpException(
+          { message: 'You have reached today\'s assistant limit. It resets at midnight UTC.', retryAfter: this.secondsUntilTomorrow() },
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+      await this.aiUsageModel.updateOne(
+        { userId: new Types.ObjectId(userId), day: this.today() },
+        { $inc: { messages: 1 } },
+        { upsert: true }
+      );
+    }
+
+    recent.push(now);
+    this.recentMessages.set(clientKey, recent);
+    if (this.recentMessages.size > MAX_TRACKED_CLIENTS) {
+      this.dropIdleClients(now);
+    }
+  }
+
+  async recordUsage(userId: string | undefined, provider: LlmProviderName, usage: LlmUsage): Promise<void> {
+    if (!userId) {
+      return;
+    }
+
+    await this.aiUsageModel.updateOne(
+      { userId: new Types.ObjectId(userId), day: this.today() },
+      {
+        $inc: {
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
+          [`tokensByProvider.${provider}`]: usage.totalTokens,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  async getUsage(userId: string) {
+    const usage = await this.aiUsageModel.findOne({ userId: new Types.ObjectId(userId), day: this.today() }).lean().exec();
+    const dailyTokenLimit = this.getDailyTokenLimit();
+    const totalTokens = usage?.totalTokens || 0;
+
+    return {
+      success: true,
+      message: 'Assistant usage retrieved successfully',
+      data: {
+        day: this.today(),
+        messages: usage?.messages || 0,
+        promptTokens: usage?.promptTokens || 0,
+        completionTokens: usage?.completionTokens || 0,
+        totalTokens,
+        dailyTokenLimit,
+        remainingTokens: Math.max(0, dailyTokenLimit - totalTokens),
+        messagesPerMinute: this.getMessagesPerMinute(),
+      },
+    };
+  }
+
+  private dropIdleClients(now: number) {
+    for (const [key, sentTimes] of this.recentMessages) {
+      if (now - sentTimes[sentTimes.length - 1] >= MINUTE_MS) {
+        this.recentMessages.delete(key);
+      }
+    }
+  }
+
+  private getMessagesPerMinute(): number {
+    return Number(this.configService.get<string>('AI_CHAT_MESSAGES_PER_MINUTE')) || 10;
+  }
+
+  private getDailyTokenLimit(): number {
+    return Number(this.configService.get<string>('AI_CHAT_DAILY_TOKEN_LIMIT')) || 50000;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private secondsUntilTomorrow(): number {
+    const tomorrow = new Date();
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    return Math.ceil((tomorrow.getTime() - Date.now()) / 1000);
+  }
+}
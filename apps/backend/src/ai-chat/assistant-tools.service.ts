@@ -0,0 +1,309 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { PatientRequest, PatientRequestDocument, RequestStatus, ServiceType } from '../schemas/patient-request.schema';
+import { Application, ApplicationDocument, ApplicationStatus } from '../schemas/application.schema';
+import { Payment, PaymentDocument } from '../schemas/payment.schema';
+import { UserDocument, UserRole } from '../schemas/user.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import { CreateRequestDto } from '../dto/request.dto';
+import { AssistantTool, AssistantToolCall } from './assistant.interface';
+import { suggestServiceType } from './service-type-suggestion';
+
+// How many records a lookup tool hands to the model; enough to answer, small enough to keep prompts short
+const LOOKUP_LIMIT = 10;
+
+// Fields the assistant may put on a draft; location and contact details come from the user's profile
+const DRAFT_FIELDS = [
+  'title',
+  'description',
+  'serviceType',
+  'scheduledDate',
+  'estimatedDuration',
+  'urgencyLevel',
+  'requiredSpecialization',
+  'specialRequirements',
+  'budget',
+  'address',
+  'notes',
+] as const;
+
+const TOOLS: Record<string, AssistantTool> = {
+  get_my_requests: {
+    name: 'get_my_requests',
+    description: "Lists the user's own nursing requests (as a patient) or the visits assigned to them (as a nurse), newest first.",
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: Object.values(RequestStatus), description: 'Only requests in this status' },
+      },
+    },
+  },
+  get_my_applications: {
+    name: 'get_my_applications',
+    description: 'Lists nurse applications: the ones the nurse sent, or the ones a patient received on their requests.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: Object.values(ApplicationStatus), description: 'Only applications in this status' },
+      },
+    },
+  },
+  get_my_payments: {
+    name: 'get_my_payments',
+    description: 'Lists the payments the user made (patient) or received (nurse), newest first.',
+    parameters: { type: 'object', properties: {} },
+  },
+  suggest_service_type: {
+    name: 'suggest_service_type',
+    description: 'Suggests which service type fits a description of the care the patient needs.',
+    parameters: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', description: 'What the patient needs, in their own words' },
+      },
+      required: ['description'],
+    },
+  },
+  draft_request: {
+    name: 'draft_request',
+    description:
+      'Prepares (does not submit) a nursing request for the patient to review and confirm. Call again with more fields to update the draft.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short title, 5 to 100 characters' },
+        description: { type: 'string', description: 'The care needed, 10 to 1000 characters' },
+        serviceType: { type: 'string', enum: Object.values(ServiceType) },
+        scheduledDate: { type: 'string', description: 'ISO 8601 date and time of the visit' },
+        estimatedDuration: { type: 'number', description: 'Hours, 1 to 24' },
+        urgencyLevel: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+        requiredSpecialization: { type: 'string', enum: Object.values(SpecializationType), description: 'Only when a general nurse is not enough' },
+        specialRequirements: { type: 'string' },
+        budget: { type: 'number' },
+        address: { type: 'string', description: 'Only if different from the address on the profile' },
+        notes: { type: 'string' },
+      },
+      required: ['description'],
+    },
+  },
+};
+
+// The tools each role may call
+const ROLE_TOOLS: Record<string, string[]> = {
+  [UserRole.PATIENT]: ['get_my_requests', 'get_my_applications', 'get_my_payments', 'suggest_service_type', 'draft_request'],
+  [UserRole.NURSE]: ['get_my_requests', 'get_my_applications', 'get_my_payments'],
+};
+
+export interface ToolDraft {
+  fields: Record<string, any>;
+  missingFields: string[];
+}
+
+export interface ToolResult {
+  // Sent back to the model as the tool message
+  output: Record<string, any>;
+  // Set when the tool created or changed the request draft
+  draft?: ToolDraft;
+}
+
+/**
+ * The functions the chat assistant can call. Every lookup is scoped to the
+ * user in the conversation, so the model never sees anyone else's records.
+ */
+@Injectable()
+export class AssistantToolsService {
+  private readonly logger = new Logger(AssistantToolsService.name);
+
+  constructor(
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+  ) {}
+
+  getTools(user: UserDocument): AssistantTool[] {
+    return (ROLE_TOOLS[user.role as string] || []).map(name => TOOLS[name]);
+  }
+
+  async execute(call: AssistantToolCall, user: UserDocument, currentDraft?: ToolDraft): Promise<ToolResult> {
+    if (!(ROLE_TOOLS[user.role as string] || []).includes(call.name)) {
+      return { output: { error: `The tool "${call.name}" is not available to this user` } };
+    }
+
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch (error) {
+      return { output: { error: 'The tool arguments were not valid JSON' } };
+    }
+
+    try {
+      switch (call.name) {
+        case 'get_my_requests':
+          return { output: await this.getMyRequests(user, args.status) };
+        case 'get_my_applications':
+          return { output: await this.getMyApplications(user, args.status) };
+        case 'get_my_payments':
+          return { output: await this.getMyPayments(user) };
+        case 'suggest_service_type':
+          return { output: { ...suggestServiceType(String(args.description || '')) } };
+        case 'draft_request':
+          return await this.draftRequest(user, args, currentDraft);
+        default:
+          return { output: { error: `Unknown tool "${call.name}"` } };
+      }
+    } catch (error: any) {
+      this.logger.error(`Assistant tool ${call.name} failed: ${error?.message || 'Unknown error'}`);
+      return { output: { error: 'The lookup failed, please try again later' } };
+    }
+  }
+
+  private async getMyRequests(user: UserDocument, status?: string) {
+    const query: any = user.role === UserRole.NURSE ? { nurseId: user._id } : { patientId: user._id };
+    if (status && Object.values(RequestStatus).includes(status as RequestStatus)) {
+      query.status = status;
+    }
+
+    const requests = await this.requestModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(LOOKUP_LIMIT)
+      .select('title serviceType status scheduledDate estimatedDuration urgencyLevel budget paymentStatus address')
+      .lean()
+      .exec();
+
+    return {
+      count: requests.length,
+      requests: requests.map(request => ({
+        id: String(request._id),
+        title: request.title,
+        serviceType: request.serviceType,
+        status: request.status,
+        scheduledDate: request.scheduledDate,
+        estimatedDuration: request.estimatedDuration,
+        urgencyLevel: request.urgencyLevel,
+        budget: request.budget,
+        paymentStatus: request.paymentStatus,
+        address: request.address,
+      })),
+    };
+  }
+
+  private async getMyApplications(user: UserDocument, status?: string) {
+    const query: any = {};
+    if (user.role === UserRole.NURSE) {
+      query.nurseId = user._id;
+    } else {
+      const requestIds = await this.requestModel.find({ patientId: user._id }).distinct('_id');
+      query.requestId = { $in: requestIds };
+    }
+    if (status && Object.values(ApplicationStatus).includes(status as ApplicationStatus)) {
+      query.status = status;
+    }
+
+    const applications = await this.applicationModel
+      .find(query)
+      .populate('requestId', 'title status scheduledDate')
+      .populate('nurseId', 'name')
+      .sort({ createdAt: -1 })
+      .limit(LOOKUP_LIMIT)
+      .lean()
+      .exec();
+
+    return {
+      count: applications.length,
+      applications: applications.map(application => {
+        const request = application.requestId as any;
+        const nurse = application.nurseId as any;
+        return {
+          id: String(application._id),
+          status: application.status,
+          price: application.price,
+          estimatedTime: application.estimatedTime,
+          createdAt: application.createdAt,
+          request: request ? { id: String(request._id), title: request.title, status: request.status, scheduledDate: request.scheduledDate } : null,
+          // Patients need to know who applied; nurses already know it was them
+          ...(user.role !== UserRole.NURSE && nurse ? { nurseName: nurse.name } : {}),
+        };
+      }),
+    };
+  }
+
+  private async getMyPayments(user: UserDocument) {
+    const query = user.role === UserRole.NURSE ? { nurseId: user._id } : { patientId: user._id };
+
+    const payments = await this.paymentModel
+      .find(query)
+      .populate('requestId', 'title')
+      .sort({ createdAt: -1 })
+      .limit(LOOKUP_LIMIT)
+      .select('amount currency status paymentMethod paymentProvider requestId createdAt')
+      .lean()
+      .exec();
+
+    return {
+      count: payments.length,
+      payments: payments.map((payment: any) => ({
+        id: String(payment._id),
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        paymentMethod: payment.paymentMethod,
+        requestTitle: payment.requestId?.title,
+        createdAt: payment.createdAt,
+      })),
+    };
+  }
+
+  // Merges the new fields into the current draft and reports what is still missing or invalid
+  private async draftRequest(user: UserDocument, args: Record<string, any>, currentDraft?: ToolDraft): Promise<ToolResult> {
+    const fields: Record<string, any> = { ...(currentDraft?.fields || {}) };
+    for (const key of DRAFT_FIELDS) {
+      if (args[key] !== undefined && args[key] !== null && args[key] !== '') {
+        fields[key] = args[key];
+      }
+    }
+
+    if (!fields.serviceType && fields.description) {
+      fields.serviceType = suggestServiceType(fields.description).serviceType;
+    }
+    if (!fields.title && fields.serviceType) {
+      fields.title = `${String(fields.serviceType).replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase())} needed`;
+    }
+    if (!fields.address && user.address) {
+      fields.address = user.address;
+    }
+    if (!fields.coordinates && user.location?.coordinates?.length === 2) {
+      fields.coordinates = [...user.location.coordinates];
+    }
+    if (!fields.contactPhone && user.phone) {
+      fields.contactPhone = user.phone;
+    }
+    if (fields.scheduledDate && !isNaN(Date.parse(fields.scheduledDate))) {
+      fields.scheduledDate = new Date(fields.scheduledDate).toISOString();
+    }
+
+    const errors = await validate(plainToInstance(CreateRequestDto, fields));
+    const missingFields = errors.map(error => error.property);
+    for (const error of errors) {
+      // Drop values that would make the final submission fail, so the patient fills them in again
+      if (fields[error.property] !== undefined) {
+        delete fields[error.property];
+      }
+    }
+
+    const draft = { fields, missingFields };
+    return {
+      draft,
+      output: {
+        draft: fields,
+        missingFields,
+        note: missingFields.length > 0
+          ? 'Ask the patient for the missing fields. Nothing has been submitted.'
+          : 'The draft is complete. Ask the patient to review and confirm it in the chat; nothing has been submitted yet.',
+      },
+    };
+  }
+}
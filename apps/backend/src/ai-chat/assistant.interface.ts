@@ -0,0 +1,31 @@
+export interface AssistantToolCall {
+  id: string;
+  name: string;
+  // JSON encoded arguments, as produced by the model
+  arguments: string;
+}
+
+export interface AssistantMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: AssistantToolCall[];
+  // Tool turns only: the call this message answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// What the model said back: either text for the user, or functions it wants run first
+export interface AssistantReply {
+  content: string;
+  toolCalls: AssistantToolCall[];
+}
+
+/**
+ * A platform function the assistant may call. `parameters` is the JSON schema
+ * of the arguments, in the shape OpenAI function calling expects.
+ */
+export interface AssistantTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
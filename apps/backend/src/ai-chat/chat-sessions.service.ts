@@ -0,0 +1,304 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ChatSession, ChatSessionDocument, ChatRole, ChatTurn, RequestDraftStatus } from '../schemas/chat-session.schema';
+import { UserDocument, UserRole } from '../schemas/user.schema';
+import { CreateRequestDto } from '../dto/request.dto';
+import { RequestsService } from '../requests/requests.service';
+import { AiChatService, SYSTEM_PROMPT } from './ai-chat.service';
+import { AiUsageService } from './ai-usage.service';
+import { ModerationContext, ModerationService } from './moderation.service';
+import { AssistantToolsService } from './assistant-tools.service';
+import { createModeratedStream } from './moderation-rules';
+import { AssistantMessage } from './assistant.interface';
+
+// How many stored turns are replayed to the model on every message
+const CONTEXT_TURNS = 20;
+
+// Tool call rounds allowed per user message, so a confused model cannot loop forever
+const MAX_TOOL_ROUNDS = 3;
+
+const DEFAULT_TITLE = 'New conversation';
+
+@Injectable()
+export class ChatSessionsService {
+  private readonly logger = new Logger(ChatSessionsService.name);
+
+  constructor(
+    @InjectModel(ChatSession.name) private chatSessionModel: Model<ChatSessionDocument>,
+    private aiChatService: AiChatService,
+    private assistantToolsService: AssistantToolsService,
+    private aiUsageService: AiUsageService,
+    private moderationService: ModerationService,
+    private requestsService: RequestsService,
+  ) {}
+
+  async createSession(user: UserDocument, title?: string) {
+    const session = await this.chatSessionModel.create({
+      userId: user._id,
+      title: title?.trim() || DEFAULT_TITLE,
+    });
+
+    return {
+      success: true,
+      message: 'Conversation started',
+      data: this.toSessionView(session),
+    };
+  }
+
+  async getSessions(user: UserDocument) {
+    const sessions = await this.chatSessionModel
+      .find({ userId: user._id })
+      .sort({ lastMessageAt: -1 })
+      .select('title lastMessageAt createdAt requestDraft.status')
+      .lean()
+      .exec();
+
+    return {
+      success: true,
+      message: 'Conversations retrieved successfully',
+      data: sessions.map(session => ({
+        id: String(session._id),
+        title: session.title,
+        lastMessageAt: session.lastMessageAt,
+        hasPendingDraft: session.requestDraft?.status === RequestDraftStatus.PENDING,
+      })),
+    };
+  }
+
+  async getSession(sessionId: string, user: UserDocument) {
+    const session = await this.findOwnSession(sessionId, user);
+    return {
+      success: true,
+      message: 'Conversation retrieved successfully',
+      data: this.toSessionView(session),
+    };
+  }
+
+  async deleteSession(sessionId: string, user: UserDocument) {
+    const session = await this.findOwnSession(sessionId, user);
+    await session.deleteOne();
+    return {
+      success: true,
+      message: 'Conversation deleted',
+    };
+  }
+
+  /**
+   * Adds the user's message, lets the model call tools until it has an answer,
+   * and stores every turn so the next message has the whole conversation.
+   * With `onDelta` the answer is also handed out as it is generated, a line
+   * at a time once moderation has checked it.
+   * Messages that moderation stops are answered without the model.
+   */
+  async sendMessage(sessionId: string, user: UserDocument, message: string, onDelta?: (content: string) => void) {
+    if (!message.trim()) {
+      throw new BadRequestException('Message cannot be empty');
+    }
+
+    const session = await this.findOwnSession(sessionId, user);
+    const moderationContext: ModerationContext = { userId: String(user._id), sessionId: String(session._id) };
+    const moderated = await this.moderationService.moderateInput(message.trim(), moderationContext);
+    if (!moderated.reply) {
+      await this.aiUsageService.assertWithinLimits(String(user._id), String(user._id));
+    }
+
+    session.messages.push({ role: ChatRole.USER, content: moderated.text, createdAt: new Date() } as ChatTurn);
+    if (session.title === DEFAULT_TITLE) {
+      session.title = moderated.text.substring(0, 60);
+    }
+
+    let reply: string;
+    if (moderated.reply) {
+      onDelta?.(moderated.reply);
+      reply = moderated.reply;
+    } else {
+      // Nothing reaches the client before output moderation has seen it
+      const stream = onDelta ? createModeratedStream(onDelta) : undefined;
+      reply = await this.moderationService.moderateOutput(
+        (await this.answer(session, user, stream?.push)) || 'Sorry, I could not generate a response. Please try again.',
+        moderationContext,
+        message
+      );
+      stream?.flush(reply);
+    }
+
+    session.messages.push({
+      role: ChatRole.ASSISTANT,
+      content: reply,
+      createdAt: new Date(),
+    } as ChatTurn);
+    session.lastMessageAt = new Date();
+    session.markModified('requestDraft');
+    await session.save();
+
+    return {
+      success: true,
+      message: 'Message processed successfully',
+      data: this.toSessionView(session),
+    };
+  }
+
+  // Submits the draft the assistant prepared, with whatever the patient changed or filled in
+  async confirmDraft(sessionId: string, user: UserDocument, createRequestDto: CreateRequestDto) {
+    const session = await this.findOwnSession(sessionId, user);
+    if (session.requestDraft?.status !== RequestDraftStatus.PENDING) {
+      throw new BadRequestException('This conversation has no draft request waiting for confirmation');
+    }
+
+    const request = await this.requestsService.createRequest(createRequestDto, user);
+
+    session.requestDraft.status = RequestDraftStatus.CONFIRMED;
+    session.requestDraft.requestId = request.id as Types.ObjectId;
+    session.requestDraft.updatedAt = new Date();
+    session.markModified('requestDraft');
+    session.messages.push({
+      role: ChatRole.ASSISTANT,
+      content: `Your request "${request.title}" has been submitted. Nurses nearby can now apply to it.`,
+      createdAt: new Date(),
+    } as ChatTurn);
+    session.lastMessageAt = new Date();
+    await session.save();
+
+    this.logger.log(`Chat session ${sessionId} turned its draft into request ${request.id}`);
+
+    return {
+      success: true,
+      message: 'Request created successfully',
+      data: {
+        request,
+        session: this.toSessionView(session),
+      },
+    };
+  }
+
+  async discardDraft(sessionId: string, user: UserDocument) {
+    const session = await this.findOwnSession(sessionId, user);
+    if (session.requestDraft?.status !== RequestDraftStatus.PENDING) {
+      throw new BadRequestException('This conversation has no draft request waiting for confirmation');
+    }
+
+    session.requestDraft.status = RequestDraftStatus.DISCARDED;
+    session.requestDraft.updatedAt = new Date();
+    session.markModified('requestDraft');
+    await session.save();
+
+    return {
+      success: true,
+      message: 'Draft discarded',
+      data: this.toSessionView(session),
+    };
+  }
+
+  // Runs the model, and the tools it asks for, until it answers in text
+  private async answer(session: ChatSessionDocument, user: UserDocument, onDelta?: (content: string) => void): Promise<string> {
+    const tools = this.assistantToolsService.getTools(user);
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // On the last round the model has to answer with what it already has
+      const answer = await this.aiChatService.complete(
+        this.buildContext(session, user),
+        round < MAX_TOOL_ROUNDS ? tools : [],
+        { userId: String(user._id), onDelta }
+      );
+
+      if (answer.toolCalls.length === 0) {
+        return answer.content;
+      }
+
+      session.messages.push({
+        role: ChatRole.ASSISTANT,
+        content: answer.content,
+        toolCalls: answer.toolCalls,
+        createdAt: new Date(),
+      } as ChatTurn);
+
+      for (const call of answer.toolCalls) {
+        const currentDraft = session.requestDraft?.status === RequestDraftStatus.PENDING ? session.requestDraft : undefined;
+        const result = await this.assistantToolsService.execute(call, user, currentDraft);
+
+        if (result.draft) {
+          session.requestDraft = {
+            fields: result.draft.fields,
+            missingFields: result.draft.missingFields,
+            status: RequestDraftStatus.PENDING,
+            updatedAt: new Date(),
+          };
+        }
+
+        session.messages.push({
+          role: ChatRole.TOOL,
+          content: JSON.stringify(result.output),
+          toolCallId: call.id,
+          toolName: call.name,
+          createdAt: new Date(),
+        } as ChatTurn);
+      }
+    }
+    return '';
+  }
+
+  private async findOwnSession(sessionId: string, user: UserDocument): Promise<ChatSessionDocument> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    const session = await this.chatSessionModel.findOne({ _id: sessionId, userId: user._id }).exec();
+    if (!session) {
+      throw new NotFoundException('Conversation not found');
+    }
+    return session;
+  }
+
+  private buildContext(session: ChatSessionDocument, user: UserDocument): AssistantMessage[] {
+    // Start the window on a user turn, so tool results are never replayed without the call that asked for them
+    let recent = session.messages.slice(-CONTEXT_TURNS);
+    const firstUserTurn = recent.findIndex(turn => turn.role === ChatRole.USER);
+    recent = firstUserTurn > 0 ? recent.slice(firstUserTurn) : recent;
+
+    return [
+      { role: 'system', content: this.systemPrompt(user) },
+      ...recent.map(turn => ({
+        role: turn.role,
+        content: turn.content,
+        toolCalls: turn.toolCalls,
+        toolCallId: turn.toolCallId,
+        toolName: turn.toolName,
+      })),
+    ];
+  }
+
+  private systemPrompt(user: UserDocument): string {
+    const lines = [
+      SYSTEM_PROMPT,
+      `You are talking to ${user.name || 'a user'}, who is a ${user.role} on the platform. Today is ${new Date().toISOString().slice(0, 10)}.`,
+      "Use the tools to look up the user's own requests, applications and payments instead of guessing. Never make up records.",
+    ];
+    if (user.role === UserRole.PATIENT) {
+      lines.push(
+        'When the patient wants to book care, use draft_request to prepare a request. It is only submitted after the patient confirms it in the chat window, so never say it was submitted.'
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private toSessionView(session: ChatSessionDocument) {
+    return {
+      id: String(session._id),
+      title: session.title,
+      lastMessageAt: session.lastMessageAt,
+      // Tool turns are plumbing; the user only sees the conversation
+      messages: session.messages
+        .filter(turn => turn.role !== ChatRole.TOOL && turn.content)
+        .map(turn => ({ role: turn.role, content: turn.content, createdAt: turn.createdAt })),
+      requestDraft: session.requestDraft
+        ? {
+            fields: session.requestDraft.fields,
+            missingFields: session.requestDraft.missingFields,
+            status: session.requestDraft.status,
+            requestId: session.requestDraft.requestId ? String(session.requestDraft.requestId) : undefined,
+          }
+        : null,
+    };
+  }
+}
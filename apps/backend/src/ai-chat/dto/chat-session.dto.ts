@@ -0,0 +1,13 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateChatSessionDto {
+  @ApiPropertyOptional({
+    description: 'Title of the conversation; defaults to the start of the first message',
+    example: 'Care for my father after surgery',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TriageRequestDto {
+  @ApiProperty({
+    description: 'What the patient needs, in their own words, in English or Arabic',
+    example: 'My mother had hip surgery last week and needs her dressing changed. She uses a wheelchair.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10)
+  @MaxLength(1000)
+  description!: string;
+}
@@ -0,0 +1,75 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, Request, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ModerationService } from './moderation.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { Audit } from '../common/decorators/audit.decorator';
+import { UserRole } from '../schemas/user.schema';
+import { AuditTargetType } from '../schemas/audit-event.schema';
+import { CreateModerationRuleDto, ReviewModerationFlagDto, UpdateModerationRuleDto } from '../dto/moderation.dto';
+
+@ApiTags('AI Chat')
+@Controller('ai-chat/moderation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  @Get('flags')
+  @ApiOperation({ summary: 'List assistant messages that moderation stopped or changed, newest first (admin only)' })
+  @ApiResponse({ status: 200, description: 'Flagged conversations retrieved successfully' })
+  async getFlags(
+    @Query('reviewed') reviewed?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    return this.moderationService.getFlags(
+      reviewed === 'true',
+      Math.max(1, Number(page) || 1),
+      Math.min(100, Math.max(1, Number(limit) || 20))
+    );
+  }
+
+  @Patch('flags/:id/review')
+  @ApiOperation({ summary: 'Mark a flagged conversation as reviewed (admin only)' })
+  @ApiResponse({ status: 200, description: 'Flagged conversation reviewed' })
+  @ApiResponse({ status: 404, description: 'Flagged conversation not found' })
+  async reviewFlag(@Param('id') flagId: string, @Body() reviewModerationFlagDto: ReviewModerationFlagDto, @Request() req: any) {
+    return this.moderationService.reviewFlag(flagId, reviewModerationFlagDto, req.user);
+  }
+
+  @Get('rules')
+  @ApiOperation({ summary: 'List admin moderation rules and the built-in phrase lists (admin only)' })
+  @ApiResponse({ status: 200, description: 'Moderation rules retrieved successfully' })
+  async getRules() {
+    return this.moderationService.getRules();
+  }
+
+  @Post('rules')
+  @Audit({ action: 'moderation_rule.create', targetType: AuditTargetType.MODERATION_RULE })
+  @ApiOperation({ summary: 'Add a blocklist or emergency phrase, in English or Arabic (admin only)' })
+  @ApiResponse({ status: 201, description: 'Moderation rule created successfully' })
+  @ApiResponse({ status: 400, description: 'The phrase is already a rule of that kind' })
+  async createRule(@Body() createModerationRuleDto: CreateModerationRuleDto, @Request() req: any) {
+    return this.moderationService.createRule(createModerationRuleDto, req.user);
+  }
+
+  @Patch('rules/:id')
+  @Audit({ action: 'moderation_rule.update', targetType: AuditTargetType.MODERATION_RULE, targetParam: 'id' })
+  @ApiOperation({ summary: 'Turn a moderation rule on or off (admin only)' })
+  @ApiResponse({ status: 200, description: 'Moderation rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Moderation rule not found' })
+  async updateRule(@Param('id') ruleId: string, @Body() updateModerationRuleDto: UpdateModerationRuleDto, @Request() req: any) {
+    return this.moderationService.updateRule(ruleId, updateModerationRuleDto, req.user);
+  }
+
+  @Delete('rules/:id')
+  @Audit({ action: 'moderation_rule.delete', targetType: AuditTargetType.MODERATION_RULE, targetParam: 'id' })
+  @ApiOperation({ summary: 'Delete a moderation rule (admin only)' })
+  @ApiResponse({ status: 200, description: 'Moderation rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Moderation rule not found' })
+  async deleteRule(@Param('id') ruleId: string) {
+    return this.moderationService.deleteRule(ruleId);
+  }
+}
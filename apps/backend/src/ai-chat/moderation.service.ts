@@ -0,0 +1,293 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ModerationRule, ModerationRuleDocument, ModerationRuleKind } from '../schemas/moderation-rule.schema';
+import { ModerationCategory, ModerationFlag, ModerationFlagDocument, ModerationStage } from '../schemas/moderation-flag.schema';
+import { UserDocument } from '../schemas/user.schema';
+import { CreateModerationRuleDto, ReviewModerationFlagDto, UpdateModerationRuleDto } from '../dto/moderation.dto';
+import {
+  DEFAULT_BLOCKLIST,
+  DEFAULT_EMERGENCY_PHRASES,
+  emergencyReply,
+  findMedicalAdviceInReply,
+  findMedicalAdviceRequest,
+  findPhrases,
+  findPromptInjection,
+  redactPersonalData,
+  refusalReply,
+} from './moderation-rules';
+
+// Admin rules are re-read at most this often; changes made on this instance apply at once
+const RULES_CACHE_MS = 60 * 1000;
+
+export interface ModerationContext {
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface InputModeration {
+  // The message as it may be sent to the model and stored, with personal data removed
+  text: string;
+  // Set when the model must not see the message; this is the assistant's answer instead
+  reply?: string;
+}
+
+interface PhraseRules {
+  blocklist: string[];
+  emergency: string[];
+  loadedAt: number;
+}
+
+/**
+ * Checks every assistant message on the way in and every answer on the way
+ * out. Emergencies get the emergency numbers, abuse, prompt injection and
+ * requests for a diagnosis or a dose are refused, and phone numbers and
+ * emails never reach the model or the stored conversation. Whatever was
+ * stopped or replaced is logged for admins to review.
+ */
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+  private rules: PhraseRules | null = null;
+
+  constructor(
+    @InjectModel(ModerationRule.name) private moderationRuleModel: Model<ModerationRuleDocument>,
+    @InjectModel(ModerationFlag.name) private moderationFlagModel: Model<ModerationFlagDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  async moderateInput(message: string, context: ModerationContext): Promise<InputModeration> {
+    const text = redactPersonalData(message);
+    const rules = await this.getPhraseRules();
+
+    const matches: Partial<Record<ModerationCategory, string[]>> = {
+      [ModerationCategory.EMERGENCY]: findPhrases(text, rules.emergency),
+      [ModerationCategory.BLOCKED_CONTENT]: findPhrases(text, rules.blocklist),
+      [ModerationCategory.PROMPT_INJECTION]: findPromptInjection(text),
+      [ModerationCategory.MEDICAL_ADVICE]: findMedicalAdviceRequest(text),
+    };
+    const categories = (Object.keys(matches) as ModerationCategory[]).filter(category => matches[category]!.length > 0);
+    if (categories.length === 0) {
+      return { text };
+    }
+
+    // An emergency outranks everything else in the same message
+    const reply = categories.includes(ModerationCategory.EMERGENCY)
+      ? emergencyReply(text, this.getEmergencyNumber(), this.configService.get<string>('MENTAL_HEALTH_HOTLINE'))
+      : refusalReply(categories[0], text);
+
+    await this.logFlag(ModerationStage.INPUT, categories, categories.flatMap(category => matches[category]!), text, reply, context);
+    return { text, reply };
+  }
+
+  // Returns the answer as the user may see it
+  async moderateOutput(reply: string, context: ModerationContext, userMessage: string): Promise<string> {
+    const text = redactPersonalData(reply);
+    const medicalAdvice = findMedicalAdviceInReply(text);
+    if (medicalAdvice.length === 0) {
+      return text;
+    }
+
+    // Answer in the user's language, which the model's reply may not be in
+    const refusal = refusalReply(ModerationCategory.MEDICAL_ADVICE, userMessage);
+    await this.logFlag(ModerationStage.OUTPUT, [ModerationCategory.MEDICAL_ADVICE], medicalAdvice, text, refusal, context);
+    return refusal;
+  }
+
+  async getFlags(reviewed = false, page = 1, limit = 20) {
+    const query = { reviewedAt: { $exists: reviewed } };
+
+    const [flags, total] = await Promise.all([
+      this.moderationFlagModel
+        .find(query)
+        .populate('userId', 'name email role')
+        .populate('reviewedBy', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.moderationFlagModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      success: true,
+      message: 'Flagged conversations retrieved successfully',
+      data: {
+        flags: flags.map(flag => ({
+          id: String(flag._id),
+          user: flag.userId ? {
+            id: String((flag.userId as any)._id),
+            name: (flag.userId as any).name,
+            email: (flag.userId as any).email,
+            role: (flag.userId as any).role,
+          } : null,
+          sessionId: flag.sessionId ? String(flag.sessionId) : undefined,
+          stage: flag.stage,
+          categories: flag.categories,
+          matches: flag.matches,
+          excerpt: flag.excerpt,
+          reply: flag.reply,
+          createdAt: flag.createdAt,
+          reviewedAt: flag.reviewedAt,
+          reviewedBy: flag.reviewedBy ? (flag.reviewedBy as any).name : undefined,
+          reviewNote: flag.reviewNote,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  async reviewFlag(flagId: string, reviewModerationFlagDto: ReviewModerationFlagDto, adminUser: UserDocument) {
+    const flag = Types.ObjectId.isValid(flagId) ? await this.moderationFlagModel.findById(flagId).exec() : null;
+    if (!flag) {
+      throw new NotFoundException('Flagged conversation not found');
+    }
+    if (flag.reviewedAt) {
+      throw new BadRequestException('This conversation was already reviewed');
+    }
+
+    flag.reviewedAt = new Date();
+    flag.reviewedBy = new Types.ObjectId(String(adminUser._id));
+    flag.reviewNote = reviewModerationFlagDto.note;
+    await flag.save();
+
+    return {
+      success: true,
+      message: 'Flagged conversation reviewed',
+      data: {
+        id: String(flag._id),
+        reviewedAt: flag.reviewedAt,
+        reviewNote: flag.reviewNote,
+      },
+    };
+  }
+
+  async getRules() {
+    const rules = await this.moderationRuleModel.find().sort({ kind: 1, phrase: 1 }).exec();
+
+    return {
+      success: true,
+      message: 'Moderation rules retrieved successfully',
+      data: {
+        rules,
+        defaults: {
+          [ModerationRuleKind.BLOCKLIST]: DEFAULT_BLOCKLIST,
+          [ModerationRuleKind.EMERGENCY]: DEFAULT_EMERGENCY_PHRASES,
+        },
+      },
+    };
+  }
+
+  async createRule(createModerationRuleDto: CreateModerationRuleDto, adminUser: UserDocument) {
+    const phrase = createModerationRuleDto.phrase.trim().toLowerCase();
+    const existing = await this.moderationRuleModel.findOne({ kind: createModerationRuleDto.kind, phrase }).exec();
+    if (existing) {
+      throw new BadRequestException('This phrase is already a rule of that kind');
+    }
+
+    const rule = await this.moderationRuleModel.create({
+      ...createModerationRuleDto,
+      phrase,
+      updatedBy: new Types.ObjectId(String(adminUser._id)),
+    });
+    this.rules = null;
+
+    this.logger.log(`Moderation ${rule.kind} rule "${rule.phrase}" created by ${adminUser._id}`);
+
+    return {
+      success: true,
+      message: 'Moderation rule created successfully',
+      data: rule,
+    };
+  }
+
+  async updateRule(ruleId: string, updateModerationRuleDto: UpdateModerationRuleDto, adminUser: UserDocument) {
+    const rule = await this.moderationRuleModel.findById(ruleId).exec();
+    if (!rule) {
+      throw new NotFoundException('Moderation rule not found');
+    }
+
+    if (updateModerationRuleDto.isActive !== undefined) rule.isActive = updateModerationRuleDto.isActive;
+    rule.updatedBy = new Types.ObjectId(String(adminUser._id));
+    await rule.save();
+    this.rules = null;
+
+    return {
+      success: true,
+      message: 'Moderation rule updated successfully',
+      data: rule,
+    };
+  }
+
+  async deleteRule(ruleId: string) {
+    const rule = await this.moderationRuleModel.findByIdAndDelete(ruleId).exec();
+    if (!rule) {
+      throw new NotFoundException('Moderation rule not found');
+    }
+    this.rules = null;
+
+    return {
+      success: true,
+      message: 'Moderation rule deleted successfully',
+    };
+  }
+
+  getEmergencyNumber(): string {
+    return this.configService.get<string>('EMERGENCY_PHONE_NUMBER') || '123';
+  }
+
+  private async getPhraseRules(): Promise<PhraseRules> {
+    if (this.rules && Date.now() - this.rules.loadedAt < RULES_CACHE_MS) {
+      return this.rules;
+    }
+
+    let custom: Array<Pick<ModerationRule, 'kind' | 'phrase'>> = [];
+    try {
+      custom = await this.moderationRuleModel.find({ isActive: true }).select('kind phrase').lean().exec();
+    } catch (error) {
+      // Don't fail the message if admin rules cannot be loaded; the built-in lists still apply
+      this.logger.error('Failed to load moderation rules:', error);
+    }
+
+    const phrasesOf = (kind: ModerationRuleKind) => custom.filter(rule => rule.kind === kind).map(rule => rule.phrase);
+    this.rules = {
+      blocklist: [...DEFAULT_BLOCKLIST, ...phrasesOf(ModerationRuleKind.BLOCKLIST)],
+      emergency: [...DEFAULT_EMERGENCY_PHRASES, ...phrasesOf(ModerationRuleKind.EMERGENCY)],
+      loadedAt: Date.now(),
+    };
+    return this.rules;
+  }
+
+  private async logFlag(
+    stage: ModerationStage,
+    categories: ModerationCategory[],
+    matches: string[],
+    excerpt: string,
+    reply: string,
+    context: ModerationContext
+  ) {
+    this.logger.warn(`Assistant ${stage} flagged as ${categories.join(', ')}${context.userId ? ` for user ${context.userId}` : ''}`);
+
+    try {
+      await this.moderationFlagModel.create({
+        userId: context.userId ? new Types.ObjectId(context.userId) : undefined,
+        sessionId: context.sessionId ? new Types.ObjectId(context.sessionId) : undefined,
+        stage,
+        categories,
+        matches: Array.from(new Set(matches)),
+        excerpt: excerpt.substring(0, 2000),
+        reply: reply.substring(0, 2000),
+      });
+    } catch (error) {
+      // Don't fail the reply if the flag cannot be saved
+      this.logger.error('Failed to log moderation flag:', error);
+    }
+  }
+}
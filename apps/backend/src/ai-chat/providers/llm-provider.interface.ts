@@ -0,0 +1,65 @@
+import { AssistantMessage, AssistantReply, AssistantTool } from '../assistant.interface';
+
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
+
+export enum LlmProviderName {
+  OPENAI = 'openai',
+  // Any server that speaks the OpenAI chat completions API, e.g. Ollama or llama.cpp
+  LOCAL = 'local',
+  // Scripted answers without a model; deterministic, for tests and offline development
+  MOCK = 'mock',
+}
+
+export interface LlmCompletionOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion extends AssistantReply {
+  usage: LlmUsage;
+}
+
+// Streams hand out text as it is generated and finish with the whole completion
+export type LlmStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; completion: LlmCompletion };
+
+export type LlmErrorReason = 'rate_limited' | 'quota_exceeded' | 'unavailable';
+
+// Thrown by providers so callers can react to the cause without knowing the vendor's error shapes
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly reason: LlmErrorReason) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * Contract for the language models behind the assistant. AiChatService owns
+ * prompts, fallbacks and usage limits; providers only turn messages into a
+ * reply with whatever model they talk to.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  // False when the provider is not configured in this environment
+  isEnabled(): boolean;
+
+  complete(messages: AssistantMessage[], tools: AssistantTool[], options: LlmCompletionOptions): Promise<LlmCompletion>;
+
+  stream(messages: AssistantMessage[], tools: AssistantTool[], options: LlmCompletionOptions): AsyncIterable<LlmStreamChunk>;
+
+  // Cheap call for the health check; only providers with a remote side implement it
+  checkHealth?(): Promise<void>;
+}
+
+// Rough count for providers that do not report usage: about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { LlmProviderName } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+
+/**
+ * A model served on our own hardware through an OpenAI-compatible endpoint,
+ * such as Ollama (http://localhost:11434/v1) or the llama.cpp server
+ * (http://localhost:8080/v1). Nothing leaves the network it runs in.
+ */
+@Injectable()
+export class LocalLlmProvider extends OpenAiCompatibleProvider {
+  readonly name = LlmProviderName.LOCAL;
+
+  constructor(private configService: ConfigService) {
+    super();
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.configService.get<string>('LOCAL_LLM_BASE_URL'));
+  }
+
+  protected getModel(): string {
+    return this.configService.get<string>('LOCAL_LLM_MODEL') || 'llama3.1';
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      baseURL: this.configService.get<string>('LOCAL_LLM_BASE_URL'),
+      // Local servers ignore the key, but the client refuses to start without one
+      apiKey: this.configService.get<string>('LOCAL_LLM_API_KEY') || 'local',
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { AssistantMessage, AssistantTool } from '../assistant.interface';
+import { LlmStreamChunk } from './llm-provider.interface';
+import { MockLlmProvider } from './mock-llm.provider';
+
+const tool = (name: string): AssistantTool => ({ name, description: name, parameters: { type: 'object', properties: {} } });
+
+const ALL_TOOLS = ['draft_request', 'suggest_service_type', 'get_my_applications', 'get_my_payments', 'get_my_requests'].map(tool);
+
+const OPTIONS = { temperature: 0, maxTokens: 500 };
+
+describe('MockLlmProvider', () => {
+  let provider: MockLlmProvider;
+
+  beforeEach(() => {
+    provider = new MockLlmProvider();
+  });
+
+  describe('tool calls', () => {
+    it('drafts a request with the user message as the description', async () => {
+      const messages: AssistantMessage[] = [
+        { role: 'system', content: 'You are the assistant.' },
+        { role: 'user', content: 'I need a nurse for my mother after surgery' },
+      ];
+
+      const completion = await provider.complete(messages, ALL_TOOLS);
+
+      expect(completion.content).toBe('');
+      expect(completion.toolCalls).toEqual([{
+        id: 'mock_2',
+        name: 'draft_request',
+        arguments: JSON.stringify({ description: 'I need a nurse for my mother after surgery' }),
+      }]);
+    });
+
+    it('looks up the user\'s own records without arguments', async () => {
+      const completion = await provider.complete([{ role: 'user', content: 'Has my refund come through?' }], ALL_TOOLS);
+
+      expect(completion.toolCalls).toEqual([{ id: 'mock_1', name: 'get_my_payments', arguments: '{}' }]);
+    });
+
+    it('recognizes Arabic requests', async () => {
+      const completion = await provider.complete([{ role: 'user', content: 'أريد أن أرى طلباتي' }], ALL_TOOLS);
+
+      expect(completion.toolCalls.map(call => call.name)).toEqual(['get_my_requests']);
+    });
+
+    it('only calls tools it was offered', async () => {
+      const completion = await provider.complete([{ role: 'user', content: 'I need a nurse' }], [tool('get_my_requests')]);
+
+      expect(completion.toolCalls).toEqual([]);
+      expect(completion.content).not.toBe('');
+    });
+
+    it('answers the same conversation the same way', async () => {
+      const messages: AssistantMessage[] = [{ role: 'user', content: 'What services do you offer?' }];
+
+      expect(await provider.complete(messages, ALL_TOOLS)).toEqual(await provider.complete(messages, ALL_TOOLS));
+    });
+  });
+
+  describe('tool results', () => {
+    const afterToolCall = (userMessage: string, toolName: string, output: any): AssistantMessage[] => [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'mock_1', name: toolName, arguments: '{}' }] },
+      { role: 'tool', content: JSON.stringify(output), toolCallId: 'mock_1', toolName },
+    ];
+
+    it('lists the records a tool returned', async () => {
+      const completion = await provider.complete(afterToolCall('Show my requests', 'get_my_requests', {
+        count: 1,
+        requests: [{ title: 'Wound dressing', status: 'pending', scheduledDate: '2025-01-15T09:00:00.000Z' }],
+      }), ALL_TOOLS);
+
+      expect(completion.toolCalls).toEqual([]);
+      expect(completion.content).toBe('Here are your latest requests:\n• Wound dressing — pending (2025-01-15)');
+    });
+
+    it('asks for the fields a draft is still missing', async () => {
+      const completion = await provider.complete(afterToolCall('Book a nurse', 'draft_request', {
+        draft: { title: 'Home care needed' },
+        missingFields: ['address', 'scheduledDate'],
+      }), ALL_TOOLS);
+
+      expect(completion.content).toContain('I still need: address, scheduledDate');
+    });
+
+    it('passes tool errors on to the user in their language', async () => {
+      const completion = await provider.complete(afterToolCall('احجز ممرض', 'draft_request', { error: 'Only patients can book visits' }), ALL_TOOLS);
+
+      expect(completion.content).toBe('عذراً، لم أتمكن من ذلك: Only patients can book visits.');
+    });
+
+    it('describes every result of a turn with several tool calls', async () => {
+      const messages: AssistantMessage[] = [
+        { role: 'user', content: 'My requests and payments' },
+        { role: 'tool', content: JSON.stringify({ count: 0 }), toolCallId: 'a', toolName: 'get_my_requests' },
+        { role: 'tool', content: JSON.stringify({ count: 0 }), toolCallId: 'b', toolName: 'get_my_payments' },
+      ];
+
+      expect((await provider.complete(messages, ALL_TOOLS)).content)
+        .toBe("You don't have any requests yet.\n\nYou don't have any payments yet.");
+    });
+  });
+
+  describe('stream', () => {
+    it('streams the scripted answer and finishes with the whole completion', async () => {
+      const messages: AssistantMessage[] = [{ role: 'user', content: 'How does payment work?' }];
+      const chunks: LlmStreamChunk[] = [];
+      for await (const chunk of provider.stream(messages, [], OPTIONS)) {
+        chunks.push(chunk);
+      }
+
+      const last = chunks[chunks.length - 1];
+      const deltas = chunks.filter((chunk): chunk is Extract<LlmStreamChunk, { type: 'delta' }> => chunk.type === 'delta');
+
+      expect(last.type).toBe('done');
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.map(chunk => chunk.content).join('')).toBe(last.type === 'done' ? last.completion.content : '');
+    });
+
+    it('streams a tool call without any text', async () => {
+      const chunks: LlmStreamChunk[] = [];
+      for await (const chunk of provider.stream([{ role: 'user', content: 'Show my applications' }], ALL_TOOLS, OPTIONS)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].type === 'done' && chunks[0].completion.toolCalls[0].name).toBe('get_my_applications');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { AssistantMessage, AssistantReply, AssistantTool, AssistantToolCall } from '../assistant.interface';
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderName,
+  LlmStreamChunk,
+  estimateTokens,
+} from './llm-provider.interface';
+import { getSmartMockResponse } from './mock-responses';
+
+// Phrases that make the mock call a tool, checked in this order
+const TOOL_INTENTS: Array<{ tool: string; phrases: string[]; passMessage?: boolean }> = [
+  {
+    tool: 'draft_request',
+    phrases: ['book a nurse', 'book a visit', 'create a request', 'new request', 'need a nurse', 'draft', 'احجز', 'حجز ممرض', 'أحتاج ممرض', 'طلب جديد'],
+    passMessage: true,
+  },
+  {
+    tool: 'suggest_service_type',
+    phrases: ['which service', 'what service', 'service type', 'أي خدمة', 'نوع الخدمة'],
+    passMessage: true,
+  },
+  { tool: 'get_my_applications', phrases: ['application', 'applied', 'offers', 'طلبات التقديم', 'العروض'] },
+  { tool: 'get_my_payments', phrases: ['payment', 'paid', 'refund', 'invoice', 'دفع', 'مدفوعات', 'استرداد', 'فاتورة'] },
+  { tool: 'get_my_requests', phrases: ['my request', 'my visit', 'my booking', 'requests', 'طلباتي', 'زياراتي', 'حجوزاتي'] },
+];
+
+/**
+ * Deterministic stand-in for the language model. It picks tools by keyword
+ * and turns tool results into plain sentences, so the assistant keeps working
+ * without a model and produces the same answer for the same conversation,
+ * which is what tests and local development need.
+ */
+@Injectable()
+export class MockLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.MOCK;
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async complete(messages: AssistantMessage[], tools: AssistantTool[]): Promise<LlmCompletion> {
+    const reply = this.reply(messages, tools);
+    const promptTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(reply.content + reply.toolCalls.map(call => call.name + call.arguments).join(''));
+    return { ...reply, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+  }
+
+  // Hands the scripted answer out word by word, the way a model would stream it
+  async *stream(messages: AssistantMessage[], tools: AssistantTool[]): AsyncIterable<LlmStreamChunk> {
+    const completion = await this.complete(messages, tools);
+    for (const word of completion.content.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', content: word };
+    }
+    yield { type: 'done', completion };
+  }
+
+  private reply(messages: AssistantMessage[], tools: AssistantTool[]): AssistantReply {
+    const last = messages[messages.length - 1];
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const isArabic = /[\u0600-\u06FF]/.test(lastUserMessage);
+
+    if (last?.role === 'tool') {
+      const toolMessages: AssistantMessage[] = [];
+      for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+        toolMessages.unshift(messages[i]);
+      }
+      return {
+        content: toolMessages.map(message => this.describeToolResult(message, isArabic)).join('\n\n'),
+        toolCalls: [],
+      };
+    }
+
+    const available = new Set(tools.map(tool => tool.name));
+    const lowerMessage = lastUserMessage.toLowerCase();
+    const intent = TOOL_INTENTS.find(
+      entry => available.has(entry.tool) && entry.phrases.some(phrase => lowerMessage.includes(phrase))
+    );
+
+    if (intent) {
+      const call: AssistantToolCall = {
+        id: `mock_${messages.length}`,
+        name: intent.tool,
+        arguments: JSON.stringify(intent.passMessage ? { description: lastUserMessage } : {}),
+      };
+      return { content: '', toolCalls: [call] };
+    }
+
+    return { content: getSmartMockResponse(lastUserMessage), toolCalls: [] };
+  }
+
+  private describeToolResult(message: AssistantMessage, isArabic: boolean): string {
+    const say = (english: string, arabic: string) => (isArabic ? arabic : english);
+
+    let output: any;
+    try {
+      output = JSON.parse(message.content);
+    } catch (error) {
+      output = {};
+    }
+
+    if (output.error) {
+      return say(`Sorry, I couldn't do that: ${output.error}.`, `عذراً، لم أتمكن من ذلك: ${output.error}.`);
+    }
+
+    switch (message.toolName) {
+      case 'get_my_requests':
+        if (!output.count) {
+          return say("You don't have any requests yet.", 'ليس لديك أي طلبات حتى الآن.');
+        }
+        return [
+          say('Here are your latest requests:', 'هذه أحدث طلباتك:'),
+          ...output.requests.map((request: any) =>
+            `• ${request.title} — ${request.status} (${String(request.scheduledDate).slice(0, 10)})`
+          ),
+        ].join('\n');
+
+      case 'get_my_applications':
+        if (!output.count) {
+          return say('There are no applications yet.', 'لا توجد طلبات تقديم حتى الآن.');
+        }
+        return [
+          say('Here are the latest applications:', 'هذه أحدث طلبات التقديم:'),
+          ...output.applications.map((application: any) =>
+            `• ${application.request?.title || '—'}${application.nurseName ? ` — ${application.nurseName}` : ''} — ${application.price} — ${application.status}`
+          ),
+        ].join('\n');
+
+      case 'get_my_payments':
+        if (!output.count) {
+          return say("You don't have any payments yet.", 'ليس لديك أي مدفوعات حتى الآن.');
+        }
+        return [
+          say('Here are your latest payments:', 'هذه أحدث مدفوعاتك:'),
+          ...output.payments.map((payment: any) =>
+            `• ${payment.amount} ${payment.currency || ''} — ${payment.status}${payment.requestTitle ? ` — ${payment.requestTitle}` : ''}`
+          ),
+        ].join('\n');
+
+      case 'suggest_service_type': {
+        const label = String(output.serviceType).replace(/_/g, ' ');
+        const alternatives = (output.alternatives || []).map((type: string) => type.replace(/_/g, ' ')).join(', ');
+        return say(
+          `That sounds like ${label}.${alternatives ? ` It could also be: ${alternatives}.` : ''}`,
+          `يبدو أن الخدمة المناسبة هي ${label}.${alternatives ? ` وقد تكون أيضاً: ${alternatives}.` : ''}`
+        );
+      }
+
+      case 'draft_request': {
+        const missing = (output.missingFields || []).join(', ');
+        return missing
+          ? say(
+              `I've started a draft request "${output.draft?.title || ''}". I still need: ${missing}. You can fill them in below before confirming.`,
+              `بدأت مسودة طلب "${output.draft?.title || ''}". ما زلت بحاجة إلى: ${missing}. يمكنك إكمالها أدناه قبل التأكيد.`
+            )
+          : say(
+              `I've prepared the request "${output.draft?.title}". Review it below and confirm to submit it.`,
+              `جهزت الطلب "${output.draft?.title}". راجعه أدناه وقم بالتأكيد لإرساله.`
+            );
+      }
+
+      default:
+        return say('Done.', 'تم.');
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import OpenAI from 'openai';
+import { AssistantMessage, AssistantTool, AssistantToolCall } from '../assistant.interface';
+import {
+  LlmCompletion,
+  LlmCompletionOptions,
+  LlmProvider,
+  LlmProviderError,
+  LlmProviderName,
+  LlmStreamChunk,
+  LlmUsage,
+  estimateTokens,
+} from './llm-provider.interface';
+
+/**
+ * Shared client code for every server that speaks the OpenAI chat
+ * completions API. Subclasses only say where the server is and which model
+ * to ask for.
+ */
+export abstract class OpenAiCompatibleProvider implements LlmProvider {
+  abstract readonly name: LlmProviderName;
+
+  private client?: OpenAI;
+
+  abstract isEnabled(): boolean;
+
+  protected abstract getModel(): string;
+
+  protected abstract createClient(): OpenAI;
+
+  async complete(messages: AssistantMessage[], tools: AssistantTool[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+    try {
+      const response = await this.getClient().chat.completions.create({
+        ...this.buildRequest(messages, tools, options),
+        stream: false,
+      });
+
+      const reply = response.choices[0]?.message;
+      const content = reply?.content?.trim() || '';
+      const toolCalls = (reply?.tool_calls || []).map((call: OpenAI.Chat.ChatCompletionMessageToolCall) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
+
+      return {
+        content,
+        toolCalls,
+        usage: response.usage
+          ? this.toUsage(response.usage)
+          : this.estimateUsage(messages, content, toolCalls),
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *stream(messages: AssistantMessage[], tools: AssistantTool[], options: LlmCompletionOptions): AsyncIterable<LlmStreamChunk> {
+    let content = '';
+    let usage: LlmUsage | null = null;
+    // Tool calls arrive in pieces, keyed by their position in the reply
+    const calls = new Map<number, AssistantToolCall>();
+
+    try {
+      const stream = await this.getClient().chat.completions.create({
+        ...this.buildRequest(messages, tools, options),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = this.toUsage(chunk.usage);
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          content += delta.content;
+          yield { type: 'delta', content: delta.content };
+        }
+
+        for (const part of delta?.tool_calls || []) {
+          const call = calls.get(part.index) || { id: '', name: '', arguments: '' };
+          call.id = part.id || call.id;
+          call.name += part.function?.name || '';
+          call.arguments += part.function?.arguments || '';
+          calls.set(part.index, call);
+        }
+      }
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    const toolCalls = [...calls.values()];
+    yield {
+      type: 'done',
+      completion: {
+        content: content.trim(),
+        toolCalls,
+        usage: usage || this.estimateUsage(messages, content, toolCalls),
+      },
+    };
+  }
+
+  async checkHealth(): Promise<void> {
+    await this.getClient().models.list();
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = this.createClient();
+    }
+    return this.client;
+  }
+
+  private buildRequest(messages: AssistantMessage[], tools: AssistantTool[], options: LlmCompletionOptions) {
+    return {
+      model: this.getModel(),
+      messages: messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+        if (message.role === 'tool') {
+          return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+        }
+        if (message.role === 'assistant') {
+          return {
+            role: 'assistant',
+            content: message.content || null,
+            ...(message.toolCalls?.length && {
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }),
+          };
+        }
+        return { role: message.role, content: message.content };
+      }),
+      ...(tools.length > 0 && {
+        tools: tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    };
+  }
+
+  private toUsage(usage: OpenAI.CompletionUsage): LlmUsage {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  // Local servers often leave usage out, so count roughly instead of recording nothing
+  private estimateUsage(messages: AssistantMessage[], content: string, toolCalls: AssistantToolCall[]): LlmUsage {
+    const promptTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(content + toolCalls.map(call => call.name + call.arguments).join(''));
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private toProviderError(error: any): LlmProviderError {
+    if (error instanceof LlmProviderError) {
+      return error;
+    }
+    const message = error?.message || 'Unknown error';
+    if (error?.code === 'insufficient_quota' || error?.type === 'insufficient_quota') {
+      return new LlmProviderError(message, 'quota_exceeded');
+    }
+    if (error?.status === 429) {
+      return new LlmProviderError(message, 'rate_limited');
+    }
+    return new LlmProviderError(message, 'unavailable');
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { LlmProviderName } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+
+// Hosted OpenAI models
+@Injectable()
+export class OpenAiLlmProvider extends OpenAiCompatibleProvider {
+  readonly name = LlmProviderName.OPENAI;
+
+  constructor(private configService: ConfigService) {
+    super();
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.configService.get<string>('OPENAI_API_KEY'));
+  }
+
+  protected getModel(): string {
+    return this.configService.get<string>('OPENAI_MODEL') || 'gpt-3.5-turbo';
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({ apiKey: this.configService.get<string>('OPENAI_API_KEY') });
+  }
+}
@@ -0,0 +1,72 @@
+import { ServiceType } from '../schemas/patient-request.schema';
+
+export interface ServiceTypeSuggestion {
+  serviceType: ServiceType;
+  // The words in the text that pointed to this service type
+  matchedKeywords: string[];
+  alternatives: ServiceType[];
+}
+
+// English and Arabic phrases that point to each service type, most specific types first
+const SERVICE_TYPE_KEYWORDS: Array<{ serviceType: ServiceType; keywords: string[] }> = [
+  {
+    serviceType: ServiceType.POST_SURGICAL_CARE,
+    keywords: ['surgery', 'surgical', 'operation', 'stitches', 'sutures', 'post-op', 'جراحة', 'عملية', 'غرز'],
+  },
+  {
+    serviceType: ServiceType.WOUND_CARE,
+    keywords: ['wound', 'dressing', 'bandage', 'ulcer', 'bedsore', 'burn', 'جرح', 'جروح', 'ضماد', 'قرحة', 'حرق'],
+  },
+  {
+    serviceType: ServiceType.PEDIATRIC_CARE,
+    keywords: ['child', 'baby', 'infant', 'newborn', 'kid', 'pediatric', 'طفل', 'رضيع', 'مولود', 'أطفال'],
+  },
+  {
+    serviceType: ServiceType.ELDERLY_CARE,
+    keywords: ['elderly', 'grandmother', 'grandfather', 'senior', 'old age', 'dementia', 'alzheimer', 'مسن', 'كبار السن', 'جدتي', 'جدي', 'زهايمر'],
+  },
+  {
+    serviceType: ServiceType.MEDICATION_ADMINISTRATION,
+    keywords: ['injection', 'medication', 'medicine', 'iv ', 'drip', 'insulin shot', 'حقنة', 'حقن', 'دواء', 'أدوية', 'محلول'],
+  },
+  {
+    serviceType: ServiceType.CHRONIC_DISEASE_MANAGEMENT,
+    keywords: ['diabetes', 'diabetic', 'hypertension', 'chronic', 'copd', 'kidney', 'heart failure', 'سكري', 'سكر', 'ضغط', 'مزمن', 'كلى'],
+  },
+  {
+    serviceType: ServiceType.VITAL_SIGNS_MONITORING,
+    keywords: ['blood pressure', 'vital signs', 'temperature', 'oxygen', 'pulse', 'monitor', 'العلامات الحيوية', 'حرارة', 'أكسجين', 'نبض', 'متابعة'],
+  },
+  {
+    serviceType: ServiceType.HOME_CARE,
+    keywords: ['home care', 'bathing', 'daily care', 'bedridden', 'companion', 'رعاية منزلية', 'استحمام', 'طريح الفراش', 'مرافق'],
+  },
+];
+
+/**
+ * Picks the service type whose keywords appear most often in a free-text
+ * description. Falls back to home care when nothing matches, since that is
+ * the broadest service nurses offer.
+ */
+export function suggestServiceType(text: string): ServiceTypeSuggestion {
+  const lowerText = ` ${text.toLowerCase()} `;
+
+  const scored = SERVICE_TYPE_KEYWORDS
+    .map(({ serviceType, keywords }) => ({
+      serviceType,
+      matchedKeywords: keywords.filter(keyword => lowerText.includes(keyword)),
+    }))
+    .filter(entry => entry.matchedKeywords.length > 0)
+    // Stable sort keeps the more specific types first on ties
+    .sort((a, b) => b.matchedKeywords.length - a.matchedKeywords.length);
+
+  if (scored.length === 0) {
+    return { serviceType: ServiceType.HOME_CARE, matchedKeywords: [], alternatives: [] };
+  }
+
+  return {
+    serviceType: scored[0].serviceType,
+    matchedKeywords: scored[0].matchedKeywords.map(keyword => keyword.trim()),
+    alternatives: scored.slice(1, 3).map(entry => entry.serviceType),
+  };
+}
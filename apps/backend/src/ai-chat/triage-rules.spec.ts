@@ -0,0 +1,87 @@
+import { ServiceType } from '../schemas/patient-request.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import { findRedFlags, isArabicText, triageByRules } from './triage-rules';
+
+describe('triage rules', () => {
+  describe('findRedFlags', () => {
+    it('finds emergency signs in English and Arabic', () => {
+      expect(findRedFlags('My father has CHEST PAIN and cannot breathe')).toEqual(['chest_pain', 'breathing_difficulty']);
+      expect(findRedFlags('والدي فاقد الوعي')).toEqual(['unconscious']);
+    });
+
+    it('finds nothing in routine requests', () => {
+      expect(findRedFlags('Please change the dressing on my leg')).toEqual([]);
+    });
+  });
+
+  describe('isArabicText', () => {
+    it('detects Arabic script', () => {
+      expect(isArabicText('أحتاج ممرضة')).toBe(true);
+      expect(isArabicText('I need a nurse')).toBe(false);
+    });
+  });
+
+  describe('triageByRules', () => {
+    it('forces critical urgency and an escalation message for emergencies', () => {
+      const result = triageByRules('My mother had a seizure and is not waking up', '123');
+
+      expect(result.draft.urgencyLevel).toBe('critical');
+      expect(result.redFlags).toEqual(['unconscious', 'seizure']);
+      expect(result.escalationMessage).toContain('Call 123');
+      expect(result.source).toBe('rules');
+    });
+
+    it('answers Arabic descriptions in Arabic', () => {
+      const result = triageByRules('جدي يعاني من ألم في الصدر', '123');
+
+      expect(result.draft.urgencyLevel).toBe('critical');
+      expect(result.escalationMessage).toContain('123');
+      expect(isArabicText(result.escalationMessage!)).toBe(true);
+      expect(isArabicText(result.draft.title)).toBe(true);
+    });
+
+    it('drafts a wound care visit from a routine description', () => {
+      const { draft, redFlags, escalationMessage } = triageByRules(
+        'I need someone to change the wound dressing, no rush. She is allergic to latex.',
+        '123'
+      );
+
+      expect(redFlags).toEqual([]);
+      expect(escalationMessage).toBeUndefined();
+      expect(draft).toEqual({
+        title: 'Wound care needed',
+        description: 'I need someone to change the wound dressing, no rush. She is allergic to latex.',
+        serviceType: ServiceType.WOUND_CARE,
+        urgencyLevel: 'low',
+        estimatedDuration: 1,
+        requiredSpecialization: SpecializationType.GENERAL,
+        specialRequirements: 'She is allergic to latex.',
+      });
+    });
+
+    it('raises urgency for worsening symptoms', () => {
+      expect(triageByRules('The wound is infected and getting worse', '123').draft.urgencyLevel).toBe('high');
+    });
+
+    it('takes the visit length and specialization from the description', () => {
+      const { draft } = triageByRules('Overnight care for my father after chemo', '123');
+
+      expect(draft.estimatedDuration).toBe(12);
+      expect(draft.requiredSpecialization).toBe(SpecializationType.ONCOLOGY);
+    });
+
+    it('defaults to home care with the service specialization', () => {
+      expect(triageByRules('Please help', '123').draft).toMatchObject({
+        serviceType: ServiceType.HOME_CARE,
+        urgencyLevel: 'medium',
+        estimatedDuration: 4,
+        requiredSpecialization: SpecializationType.GENERAL,
+      });
+      expect(triageByRules('Care for my newborn baby', '123').draft.requiredSpecialization).toBe(SpecializationType.PEDIATRIC);
+    });
+
+    it('leaves out special requirements when none are mentioned', () => {
+      expect(triageByRules('Blood pressure check', '123').draft.specialRequirements).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { ServiceType } from '../schemas/patient-request.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import { suggestServiceType } from './service-type-suggestion';
+
+export type UrgencyLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export const URGENCY_LEVELS: UrgencyLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export interface TriageDraft {
+  title: string;
+  description: string;
+  serviceType: ServiceType;
+  urgencyLevel: UrgencyLevel;
+  estimatedDuration: number;
+  requiredSpecialization: SpecializationType;
+  specialRequirements?: string;
+}
+
+export interface TriageResult {
+  draft: TriageDraft;
+  // Emergency signs found in the description
+  redFlags: string[];
+  // Set for emergencies: tells the patient to call an ambulance instead of waiting for a nurse
+  escalationMessage?: string;
+  source: 'model' | 'rules';
+}
+
+// Signs that need an ambulance, not a home visit, in English and Arabic
+export const RED_FLAGS: Array<{ flag: string; phrases: string[] }> = [
+  { flag: 'chest_pain', phrases: ['chest pain', 'chest tightness', 'pressure in my chest', 'ألم في الصدر', 'ألم بالصدر', 'ضيق في الصدر'] },
+  {
+    flag: 'breathing_difficulty',
+    phrases: ["can't breathe", 'cannot breathe', 'difficulty breathing', 'struggling to breathe', 'choking', 'لا أستطيع التنفس', 'لا يستطيع التنفس', 'صعوبة في التنفس', 'اختناق'],
+  },
+  { flag: 'unconscious', phrases: ['unconscious', 'unresponsive', 'passed out', 'not waking up', 'فاقد الوعي', 'فقدان الوعي', 'لا يستجيب', 'مغمى عليه'] },
+  { flag: 'severe_bleeding', phrases: ['severe bleeding', 'bleeding heavily', "won't stop bleeding", 'نزيف حاد', 'نزيف شديد', 'نزيف لا يتوقف'] },
+  { flag: 'stroke_signs', phrases: ['stroke', 'face drooping', 'slurred speech', 'sudden weakness', 'جلطة', 'سكتة دماغية', 'ارتخاء الوجه', 'ثقل في الكلام'] },
+  { flag: 'seizure', phrases: ['seizure', 'convulsion', 'fitting', 'تشنج', 'تشنجات', 'نوبة صرع'] },
+  { flag: 'self_harm', phrases: ['suicide', 'kill myself', 'overdose', 'انتحار', 'أقتل نفسي', 'جرعة زائدة'] },
+  { flag: 'severe_allergic_reaction', phrases: ['anaphylaxis', 'throat swelling', 'swollen tongue', 'تورم الحلق', 'تورم اللسان', 'حساسية شديدة'] },
+];
+
+const HIGH_URGENCY_PHRASES = [
+  'high fever', 'severe', 'getting worse', 'infected', 'pus', 'fell', 'urgent', 'asap', 'today',
+  'حرارة عالية', 'شديد', 'يزداد سوءاً', 'التهاب', 'صديد', 'سقط', 'عاجل', 'اليوم',
+];
+
+const LOW_URGENCY_PHRASES = [
+  'routine', 'check-up', 'checkup', 'next week', 'no rush', 'whenever',
+  'روتيني', 'فحص دوري', 'الأسبوع القادم', 'غير مستعجل',
+];
+
+// Typical visit length in hours for each service
+const DEFAULT_DURATION: Record<ServiceType, number> = {
+  [ServiceType.HOME_CARE]: 4,
+  [ServiceType.MEDICATION_ADMINISTRATION]: 1,
+  [ServiceType.WOUND_CARE]: 1,
+  [ServiceType.VITAL_SIGNS_MONITORING]: 1,
+  [ServiceType.POST_SURGICAL_CARE]: 3,
+  [ServiceType.ELDERLY_CARE]: 6,
+  [ServiceType.PEDIATRIC_CARE]: 4,
+  [ServiceType.CHRONIC_DISEASE_MANAGEMENT]: 2,
+};
+
+const DURATION_PHRASES: Array<{ hours: number; phrases: string[] }> = [
+  { hours: 12, phrases: ['overnight', 'night shift', 'all night', 'طوال الليل', 'مبيت', 'ليلة كاملة'] },
+  { hours: 8, phrases: ['full day', 'all day', 'whole day', 'يوم كامل', 'طوال اليوم'] },
+];
+
+const SERVICE_SPECIALIZATION: Partial<Record<ServiceType, SpecializationType>> = {
+  [ServiceType.POST_SURGICAL_CARE]: SpecializationType.SURGICAL,
+  [ServiceType.PEDIATRIC_CARE]: SpecializationType.PEDIATRIC,
+  [ServiceType.ELDERLY_CARE]: SpecializationType.GERIATRIC,
+};
+
+// Conditions that call for a specialist whatever the service type
+const SPECIALIZATION_PHRASES: Array<{ specialization: SpecializationType; phrases: string[] }> = [
+  { specialization: SpecializationType.ONCOLOGY, phrases: ['cancer', 'chemo', 'tumor', 'سرطان', 'كيماوي', 'ورم'] },
+  { specialization: SpecializationType.ICU, phrases: ['ventilator', 'tracheostomy', 'intensive care', 'icu', 'تنفس صناعي', 'جهاز تنفس', 'عناية مركزة'] },
+  { specialization: SpecializationType.PSYCHIATRIC, phrases: ['psychiatric', 'depression', 'schizophrenia', 'mental health', 'نفسي', 'اكتئاب', 'فصام'] },
+];
+
+// Sentences worth passing to the nurse as special requirements
+const REQUIREMENT_PHRASES = [
+  'allerg', 'wheelchair', 'bedridden', 'hearing', 'female nurse', 'male nurse', 'speaks',
+  'حساسية', 'كرسي متحرك', 'طريح الفراش', 'ممرضة', 'ممرض رجل', 'يتحدث',
+];
+
+const SERVICE_TITLES: Record<ServiceType, { en: string; ar: string }> = {
+  [ServiceType.HOME_CARE]: { en: 'Home care needed', ar: 'مطلوب رعاية منزلية' },
+  [ServiceType.MEDICATION_ADMINISTRATION]: { en: 'Medication administration needed', ar: 'مطلوب إعطاء أدوية' },
+  [ServiceType.WOUND_CARE]: { en: 'Wound care needed', ar: 'مطلوب رعاية جروح' },
+  [ServiceType.VITAL_SIGNS_MONITORING]: { en: 'Vital signs monitoring needed', ar: 'مطلوب متابعة العلامات الحيوية' },
+  [ServiceType.POST_SURGICAL_CARE]: { en: 'Post-surgical care needed', ar: 'مطلوب رعاية بعد العملية' },
+  [ServiceType.ELDERLY_CARE]: { en: 'Elderly care needed', ar: 'مطلوب رعاية كبار السن' },
+  [ServiceType.PEDIATRIC_CARE]: { en: 'Pediatric care needed', ar: 'مطلوب رعاية أطفال' },
+  [ServiceType.CHRONIC_DISEASE_MANAGEMENT]: { en: 'Chronic disease care needed', ar: 'مطلوب متابعة مرض مزمن' },
+};
+
+export function isArabicText(text: string): boolean {
+  return /[؀-ۿ]/.test(text);
+}
+
+export function findRedFlags(text: string): string[] {
+  const lowerText = text.toLowerCase();
+  return RED_FLAGS
+    .filter(({ phrases }) => phrases.some(phrase => lowerText.includes(phrase)))
+    .map(({ flag }) => flag);
+}
+
+export function escalationMessage(text: string, emergencyNumber: string): string {
+  return isArabicText(text)
+    ? `بعض ما وصفته قد يكون حالة طارئة. اتصل بالإسعاف على ${emergencyNumber} فوراً أو توجه إلى أقرب قسم طوارئ. زيارة التمريض المنزلي ليست بديلاً عن الرعاية الطارئة.`
+    : `Some of what you described can be a medical emergency. Call ${emergencyNumber} for an ambulance now, or go to the nearest emergency department. A home nursing visit is not a substitute for emergency care.`;
+}
+
+export function defaultSpecialization(serviceType: ServiceType): SpecializationType {
+  return SERVICE_SPECIALIZATION[serviceType] || SpecializationType.GENERAL;
+}
+
+/**
+ * Keyword based triage, used when no language model is configured or the
+ * model's answer cannot be used. Red flags always force critical urgency.
+ */
+export function triageByRules(description: string, emergencyNumber: string): TriageResult {
+  const text = description.trim();
+  const lowerText = text.toLowerCase();
+  const has = (phrases: string[]) => phrases.some(phrase => lowerText.includes(phrase));
+
+  const { serviceType } = suggestServiceType(text);
+  const redFlags = findRedFlags(text);
+
+  let urgencyLevel: UrgencyLevel = 'medium';
+  if (redFlags.length > 0) {
+    urgencyLevel = 'critical';
+  } else if (has(HIGH_URGENCY_PHRASES)) {
+    urgencyLevel = 'high';
+  } else if (has(LOW_URGENCY_PHRASES)) {
+    urgencyLevel = 'low';
+  }
+
+  const estimatedDuration = DURATION_PHRASES.find(entry => has(entry.phrases))?.hours ?? DEFAULT_DURATION[serviceType];
+
+  const requiredSpecialization = SPECIALIZATION_PHRASES.find(entry => has(entry.phrases))?.specialization
+    ?? defaultSpecialization(serviceType);
+
+  const specialRequirements = text
+    .split(/(?<=[.!?؟\n])\s*/)
+    .filter(sentence => REQUIREMENT_PHRASES.some(phrase => sentence.toLowerCase().includes(phrase)))
+    .join(' ')
+    .substring(0, 500);
+
+  return {
+    draft: {
+      title: SERVICE_TITLES[serviceType][isArabicText(text) ? 'ar' : 'en'],
+      description: text.substring(0, 1000),
+      serviceType,
+      urgencyLevel,
+      estimatedDuration,
+      requiredSpecialization,
+      ...(specialRequirements && { specialRequirements }),
+    },
+    redFlags,
+    ...(redFlags.length > 0 && { escalationMessage: escalationMessage(text, emergencyNumber) }),
+    source: 'rules',
+  };
+}
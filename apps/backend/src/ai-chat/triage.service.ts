@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserDocument } from '../schemas/user.schema';
+import { ServiceType } from '../schemas/patient-request.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import { AiChatService } from './ai-chat.service';
+import { AiUsageService } from './ai-usage.service';
+import { LlmProviderName } from './providers/llm-provider.interface';
+import { TriageDraft, TriageResult, URGENCY_LEVELS, UrgencyLevel, escalationMessage, triageByRules } from './triage-rules';
+
+const TRIAGE_PROMPT = [
+  'You turn a patient\'s description of the home nursing care they need into a structured request.',
+  'Answer with a single JSON object and nothing else, with these keys:',
+  `"title" (short, in the patient's language), "serviceType" (one of ${Object.values(ServiceType).join(', ')}),`,
+  `"urgencyLevel" (one of ${URGENCY_LEVELS.join(', ')}), "estimatedDuration" (hours of the visit, 1 to 24),`,
+  `"requiredSpecialization" (one of ${Object.values(SpecializationType).join(', ')}),`,
+  '"specialRequirements" (allergies, mobility, language or other needs the nurse must know, or an empty string).',
+  'Do not diagnose and do not suggest medication. Use critical urgency for anything that needs an ambulance.',
+].join('\n');
+
+/**
+ * Turns a free-text description into a request draft the patient reviews
+ * before submitting. The model does the reading when one is configured;
+ * otherwise, or when its answer is unusable, keyword rules fill the draft.
+ * Emergency signs are always checked by the rules, whatever the model says.
+ */
+@Injectable()
+export class TriageService {
+  private readonly logger = new Logger(TriageService.name);
+
+  constructor(
+    private configService: ConfigService,
+    private aiChatService: AiChatService,
+    private aiUsageService: AiUsageService,
+  ) {}
+
+  async triage(description: string, user: UserDocument) {
+    const rules = triageByRules(description, this.emergencyNumber());
+
+    let result = rules;
+    if (this.aiChatService.getProvider().name !== LlmProviderName.MOCK) {
+      result = (await this.triageWithModel(description, user, rules)) || rules;
+    }
+
+    return {
+      success: true,
+      message: result.escalationMessage
+        ? 'This may be an emergency. Please call an ambulance before booking a nurse.'
+        : 'Request details suggested. Review them before submitting.',
+      data: {
+        ...result,
+        emergency: Boolean(result.escalationMessage),
+      },
+    };
+  }
+
+  private async triageWithModel(description: string, user: UserDocument, rules: TriageResult): Promise<TriageResult | null> {
+    try {
+      // Over the limit means no model call, but the patient still gets the rule based draft
+      await this.aiUsageService.assertWithinLimits(String(user._id), String(user._id));
+
+      const completion = await this.aiChatService.complete(
+        [
+          { role: 'system', content: TRIAGE_PROMPT },
+          { role: 'user', content: description },
+        ],
+        [],
+        { userId: String(user._id) }
+      );
+
+      const parsed = this.parseDraft(completion.content, rules.draft);
+      if (!parsed) {
+        this.logger.warn('Triage model answer was not usable JSON, using rules instead');
+        return null;
+      }
+
+      // The model can miss an emergency; the rules' red flags always win
+      if (rules.redFlags.length > 0) {
+        parsed.urgencyLevel = 'critical';
+      }
+
+      return {
+        draft: parsed,
+        redFlags: rules.redFlags,
+        ...(parsed.urgencyLevel === 'critical' && { escalationMessage: escalationMessage(description, this.emergencyNumber()) }),
+        source: 'model',
+      };
+    } catch (error) {
+      this.logger.warn(`Triage fell back to rules: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  // Keeps the model's values that are valid and takes the rest from the rule based draft
+  private parseDraft(content: string, fallback: TriageDraft): TriageDraft | null {
+    const json = content.match(/\{[\s\S]*\}/);
+    if (!json) {
+      return null;
+    }
+
+    let answer: any;
+    try {
+      answer = JSON.parse(json[0]);
+    } catch {
+      return null;
+    }
+    if (!answer || typeof answer !== 'object') {
+      return null;
+    }
+
+    const oneOf = <T>(value: unknown, allowed: T[], otherwise: T): T =>
+      allowed.includes(value as T) ? (value as T) : otherwise;
+    const duration = Number(answer.estimatedDuration);
+    const specialRequirements = typeof answer.specialRequirements === 'string'
+      ? answer.specialRequirements.trim().substring(0, 500)
+      : fallback.specialRequirements;
+
+    return {
+      title: typeof answer.title === 'string' && answer.title.trim() ? answer.title.trim().substring(0, 100) : fallback.title,
+      description: fallback.description,
+      serviceType: oneOf(answer.serviceType, Object.values(ServiceType), fallback.serviceType),
+      urgencyLevel: oneOf<UrgencyLevel>(answer.urgencyLevel, URGENCY_LEVELS, fallback.urgencyLevel),
+      estimatedDuration: duration >= 1 && duration <= 24 ? Math.round(duration) : fallback.estimatedDuration,
+      requiredSpecialization: oneOf(answer.requiredSpecialization, Object.values(SpecializationType), fallback.requiredSpecialization),
+      ...(specialRequirements && { specialRequirements }),
+    };
+  }
+
+  private emergencyNumber(): string {
+    return this.configService.get<string>('EMERGENCY_PHONE_NUMBER') || '123';
+  }
+}
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from '../auth/auth.module';
@@ -19,9 +20,18 @@ import { EmailModule } from '../email/email.module';
 import { configValidationSchema } from '../config/config.validation';
 import { GlobalExceptionFilter } from '../common/filters/global-exception.filter';
 import { ResponseInterceptor } from '../common/interceptors/response.interceptor';
+import { MetricsInterceptor } from '../common/interceptors/metrics.interceptor';
+import { AuditInterceptor } from '../common/interceptors/audit.interceptor';
 import { AiChatModule } from '../ai-chat/ai-chat.module';
 import { PaymentsModule } from '../payments/payments.module';
 import { UploadsModule } from '../uploads/uploads.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { SearchModule } from '../search/search.module';
+import { CarePlansModule } from '../care-plans/care-plans.module';
+import { VisitReportsModule } from '../visit-reports/visit-reports.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { HealthModule } from '../health/health.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
   imports: [
@@ -42,6 +52,7 @@ import { UploadsModule } from '../uploads/uploads.module';
       }),
       inject: [ConfigService],
     }),
+    ScheduleModule.forRoot(),
     AuthModule,
     NursesModule,
     RequestsModule,
@@ -57,6 +68,13 @@ import { UploadsModule } from '../uploads/uploads.module';
     EmailModule,
     AiChatModule,
     PaymentsModule,
+    MessagingModule,
+    SearchModule,
+    CarePlansModule,
+    VisitReportsModule,
+    LedgerModule,
+    HealthModule,
+    AuditModule,
   ],
   controllers: [AppController],
   providers: [
@@ -65,6 +83,14 @@ import { UploadsModule } from '../uploads/uploads.module';
       provide: APP_FILTER,
       useClass: GlobalExceptionFilter,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: MetricsInterceptor,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: ResponseInterceptor,
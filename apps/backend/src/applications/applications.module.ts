@@ -6,6 +6,9 @@ import { Application, ApplicationSchema } from '../schemas/application.schema';
 import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
 import { User, UserSchema } from '../schemas/user.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { NursesModule } from '../nurses/nurses.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
   imports: [
@@ -14,7 +17,10 @@ import { NotificationsModule } from '../notifications/notifications.module';
       { name: PatientRequest.name, schema: PatientRequestSchema },
       { name: User.name, schema: UserSchema }
     ]),
-    NotificationsModule
+    NotificationsModule,
+    MessagingModule,
+    NursesModule,
+    PaymentsModule
   ],
   controllers: [ApplicationsController],
   providers: [ApplicationsService],
@@ -6,6 +6,9 @@ import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schema
 import { User, UserDocument, UserRole } from '../schemas/user.schema';
 import { CreateApplicationDto, UpdateApplicationStatusDto } from '../dto/application.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { MessagingService } from '../messaging/messaging.service';
+import { NurseAvailabilityService } from '../nurses/nurse-availability.service';
+import { PaymentsService } from '../payments/payments.service';
 
 @Injectable()
 export class ApplicationsService {
@@ -14,6 +17,9 @@ export class ApplicationsService {
     @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private notificationsService: NotificationsService,
+    private messagingService: MessagingService,
+    private nurseAvailabilityService: NurseAvailabilityService,
+    private paymentsService: PaymentsService,
   ) {}
 
   /**
@@ -57,6 +63,14 @@ export class ApplicationsService {
       throw new BadRequestException('You have already applied to this request');
     }
 
+    // Check the nurse is actually free for the visit they are offering
+    const visitStart = new Date(request.scheduledDate);
+    const visitEnd = new Date(visitStart.getTime() + createApplicationDto.estimatedTime * 60 * 60 * 1000);
+    const conflict = await this.nurseAvailabilityService.findConflict(String(nurseUser._id), visitStart, visitEnd);
+    if (conflict) {
+      throw new BadRequestException(conflict);
+    }
+
     // Create the application
     const application = await this.applicationModel.create({
       requestId: new Types.ObjectId(createApplicationDto.requestId),
@@ -163,6 +177,10 @@ export class ApplicationsService {
           estimatedDuration: request.estimatedDuration,
           budget: request.budget,
           status: request.status,
+          checkIn: request.checkIn,
+          checkOut: request.checkOut,
+          timeOnSiteMinutes: request.timeOnSiteMinutes,
+          paymentProvider: request.paymentProvider,
           patient: {
             id: request.patientId._id,
             name: request.patientId.name,
@@ -192,6 +210,19 @@ export class ApplicationsService {
 
     // If accepting an application
     if (updateDto.status === ApplicationStatus.ACCEPTED) {
+      // The nurse may have been booked elsewhere since they applied
+      const visitStart = new Date(request.scheduledDate);
+      const visitEnd = new Date(visitStart.getTime() + application.estimatedTime * 60 * 60 * 1000);
+      const conflict = await this.nurseAvailabilityService.findConflict(
+        String(application.nurseId),
+        visitStart,
+        visitEnd,
+        String(request._id)
+      );
+      if (conflict) {
+        throw new BadRequestException('This nurse is no longer available at the scheduled time');
+      }
+
       // Update the request to assign the nurse and change status to in_progress
       await this.requestModel.findByIdAndUpdate(request._id, {
         nurseId: application.nurseId,
@@ -242,6 +273,31 @@ export class ApplicationsService {
       // Don't fail the status update if notification fails
     }
 
+    // Hold the offered price on the patient's card until the visit is confirmed
+    if (updateDto.status === ApplicationStatus.ACCEPTED) {
+      try {
+        await this.paymentsService.authorizeForApplication(String(request._id), String(application._id));
+      } catch (paymentError) {
+        console.error('Failed to create payment hold for accepted application:', paymentError);
+        // Don't fail the status update if the hold cannot be created; the patient can authorize later
+      }
+    }
+
+    // Open the patient–nurse chat once an offer is accepted
+    if (updateDto.status === ApplicationStatus.ACCEPTED) {
+      try {
+        await this.messagingService.openConversationForRequest({
+          _id: request._id,
+          patientId: request.patientId,
+          nurseId: application.nurseId,
+          title: request.title
+        });
+      } catch (conversationError) {
+        console.error('Failed to open conversation for accepted application:', conversationError);
+        // Don't fail the status update if the conversation cannot be opened
+      }
+    }
+
     return {
       id: application._id,
       status: application.status,
@@ -0,0 +1,37 @@
+import { Controller, Get, Query, Res, UseGuards, ValidationPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { AuditService } from './audit.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { UserRole } from '../schemas/user.schema';
+import { AuditEventQueryDto, AuditExportQueryDto } from '../dto/audit.dto';
+
+@ApiTags('Audit')
+@Controller('api/audit-events')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List audit events, newest first (admin only)' })
+  @ApiResponse({ status: 200, description: 'Audit events retrieved successfully' })
+  async getEvents(@Query(new ValidationPipe({ transform: true })) query: AuditEventQueryDto) {
+    return this.auditService.getEvents(query);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Download matching audit events as CSV or JSON (admin only)' })
+  @ApiResponse({ status: 200, description: 'Audit log file' })
+  async exportEvents(
+    @Query(new ValidationPipe({ transform: true })) query: AuditExportQueryDto,
+    @Res() res: Response
+  ) {
+    const file = await this.auditService.exportEvents(query, query.format || 'csv');
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.end(file.content);
+  }
+}
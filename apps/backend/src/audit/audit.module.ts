@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuditEvent, AuditEventSchema } from '../schemas/audit-event.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { Payment, PaymentSchema } from '../schemas/payment.schema';
+import { Wallet, WalletSchema } from '../schemas/wallet.schema';
+import { Withdrawal, WithdrawalSchema } from '../schemas/withdrawal.schema';
+import { CancellationPolicy, CancellationPolicySchema } from '../schemas/cancellation-policy.schema';
+import { ModerationRule, ModerationRuleSchema } from '../schemas/moderation-rule.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditEvent.name, schema: AuditEventSchema },
+      { name: User.name, schema: UserSchema },
+      { name: NurseProfile.name, schema: NurseProfileSchema },
+      { name: Payment.name, schema: PaymentSchema },
+      { name: Wallet.name, schema: WalletSchema },
+      { name: Withdrawal.name, schema: WithdrawalSchema },
+      { name: CancellationPolicy.name, schema: CancellationPolicySchema },
+      { name: ModerationRule.name, schema: ModerationRuleSchema },
+    ]),
+  ],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,140 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { AuditService } from './audit.service';
+import { AuditEvent, AuditOutcome, AuditTargetType } from '../schemas/audit-event.schema';
+import { User, UserRole } from '../schemas/user.schema';
+import { NurseProfile } from '../schemas/nurse-profile.schema';
+import { Payment } from '../schemas/payment.schema';
+import { Wallet } from '../schemas/wallet.schema';
+import { Withdrawal } from '../schemas/withdrawal.schema';
+import { CancellationPolicy } from '../schemas/cancellation-policy.schema';
+import { ModerationRule } from '../schemas/moderation-rule.schema';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  sort: () => query(value),
+  skip: () => query(value),
+  limit: () => query(value),
+  lean: () => query(value),
+  exec: async () => value,
+});
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let auditEventModel: { create: jest.Mock; find: jest.Mock };
+  let userModel: { findById: jest.Mock };
+
+  const admin = { _id: new Types.ObjectId(), name: 'Admin', role: UserRole.ADMIN };
+  const created = () => auditEventModel.create.mock.calls[0][0];
+
+  beforeEach(async () => {
+    auditEventModel = { create: jest.fn().mockResolvedValue(undefined), find: jest.fn().mockReturnValue(query([])) };
+    userModel = { findById: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: getModelToken(AuditEvent.name), useValue: auditEventModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        ...[NurseProfile, Payment, Wallet, Withdrawal, CancellationPolicy, ModerationRule]
+          .map(model => ({ provide: getModelToken(model.name), useValue: {} })),
+      ],
+    }).compile();
+
+    service = moduleRef.get(AuditService);
+  });
+
+  describe('record', () => {
+    it('stores the changed fields as dotted paths', async () => {
+      await service.record({
+        actor: admin,
+        action: 'user.suspend',
+        targetType: AuditTargetType.USER,
+        targetId: 'u1',
+        before: { status: 'active', suspension: { until: null }, updatedAt: '2026-01-01' },
+        after: { status: 'suspended', suspension: { until: '2026-02-01' }, updatedAt: '2026-01-02' },
+      });
+
+      expect(created()).toEqual(expect.objectContaining({
+        actorId: admin._id,
+        actorRole: UserRole.ADMIN,
+        outcome: AuditOutcome.SUCCESS,
+        changes: [
+          { path: 'status', before: 'active', after: 'suspended' },
+          { path: 'suspension.until', before: null, after: '2026-02-01' },
+        ],
+      }));
+    });
+
+    it('keeps secrets out of snapshots and payloads', async () => {
+      await service.record({
+        actor: admin,
+        action: 'user.update',
+        targetType: AuditTargetType.USER,
+        before: { password: 'old-hash' },
+        after: { password: 'new-hash', wallet: { payoutDetails: { iban: 'EG00' } } },
+        payload: { newPassword: 'hunter2', reason: 'support ticket' },
+      });
+
+      expect(created().after).toEqual({ password: '[redacted]', wallet: { payoutDetails: '[redacted]' } });
+      expect(created().payload).toEqual({ newPassword: '[redacted]', reason: 'support ticket' });
+      expect(JSON.stringify(created())).not.toContain('hunter2');
+    });
+
+    it('never fails the action it describes', async () => {
+      auditEventModel.create.mockRejectedValue(new Error('database unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(service.record({ action: 'user.delete', targetType: AuditTargetType.USER })).resolves.toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('snapshot', () => {
+    it('returns the target as plain JSON', async () => {
+      const id = new Types.ObjectId();
+      userModel.findById.mockReturnValue(query({ _id: id, createdAt: new Date('2026-01-01T00:00:00Z') }));
+
+      await expect(service.snapshot(AuditTargetType.USER, String(id)))
+        .resolves.toEqual({ _id: String(id), createdAt: '2026-01-01T00:00:00.000Z' });
+    });
+
+    it('skips ids that cannot name a record', async () => {
+      await expect(service.snapshot(AuditTargetType.USER, 'not-an-id')).resolves.toBeNull();
+      expect(userModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportEvents', () => {
+    it('writes the changes into one CSV cell and defuses formulas', async () => {
+      auditEventModel.find.mockReturnValue(query([{
+        createdAt: new Date('2026-03-01T10:00:00Z'),
+        actorName: '=HYPERLINK("http://evil")',
+        action: 'user.status',
+        targetType: AuditTargetType.USER,
+        targetId: 'u1',
+        outcome: AuditOutcome.SUCCESS,
+        changes: [{ path: 'status', before: 'active', after: 'inactive' }],
+      }]));
+
+      const file = await service.exportEvents({} as any, 'csv');
+      const [, row] = file.content.split('\n');
+
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+      expect(row).toContain('"status: ""active"" -> ""inactive"""');
+    });
+
+    it('filters by actor, action and time range', async () => {
+      await service.exportEvents({ actorId: String(admin._id), action: 'user.suspend', from: '2026-01-01', to: '2026-02-01' } as any, 'json');
+
+      expect(auditEventModel.find).toHaveBeenCalledWith({
+        actorId: admin._id,
+        action: 'user.suspend',
+        createdAt: { $gte: new Date('2026-01-01'), $lt: new Date('2026-02-01') },
+      });
+    });
+  });
+});
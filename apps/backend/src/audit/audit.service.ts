@@ -0,0 +1,282 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types, isValidObjectId } from 'mongoose';
+import {
+  AuditEvent,
+  AuditEventDocument,
+  AuditChange,
+  AuditOutcome,
+  AuditTargetType
+} from '../schemas/audit-event.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
+import { Payment, PaymentDocument } from '../schemas/payment.schema';
+import { Wallet, WalletDocument } from '../schemas/wallet.schema';
+import { Withdrawal, WithdrawalDocument } from '../schemas/withdrawal.schema';
+import { CancellationPolicy, CancellationPolicyDocument } from '../schemas/cancellation-policy.schema';
+import { ModerationRule, ModerationRuleDocument } from '../schemas/moderation-rule.schema';
+import { AuditEventQueryDto } from '../dto/audit.dto';
+
+export interface RecordAuditEventInput {
+  actor?: { _id?: unknown; name?: string; role?: string } | null;
+  action: string;
+  targetType: AuditTargetType;
+  targetId?: string;
+  outcome?: AuditOutcome;
+  error?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  payload?: Record<string, any>;
+  request?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Keys whose values never reach the log, at any depth
+const SECRET_KEY = /password|token|secret|otp|payoutDetails/i;
+
+// Bookkeeping fields that change on every save and would only add noise to diffs
+const IGNORED_KEYS = new Set(['updatedAt', 'lastUpdated', '__v']);
+
+const EXPORT_LIMIT = 10000;
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditEvent.name) private auditEventModel: Model<AuditEventDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
+    @InjectModel(Withdrawal.name) private withdrawalModel: Model<WithdrawalDocument>,
+    @InjectModel(CancellationPolicy.name) private cancellationPolicyModel: Model<CancellationPolicyDocument>,
+    @InjectModel(ModerationRule.name) private moderationRuleModel: Model<ModerationRuleDocument>,
+  ) {}
+
+  /**
+   * Appends an event. Never throws: a failed audit write is logged rather
+   * than undoing or failing the action it describes.
+   */
+  async record(input: RecordAuditEventInput): Promise<void> {
+    try {
+      const before = input.before ? this.redact(input.before) : undefined;
+      const after = input.after ? this.redact(input.after) : undefined;
+
+      await this.auditEventModel.create({
+        actorId: input.actor?._id && isValidObjectId(input.actor._id) ? new Types.ObjectId(String(input.actor._id)) : undefined,
+        actorName: input.actor?.name,
+        actorRole: input.actor?.role,
+        action: input.action,
+        targetType: input.targetType,
+        targetId: input.targetId,
+        outcome: input.outcome ?? AuditOutcome.SUCCESS,
+        error: input.error,
+        before,
+        after,
+        changes: this.diff(before, after),
+        payload: input.payload && Object.keys(input.payload).length ? this.redact(input.payload) : undefined,
+        request: input.request,
+        ip: input.ip,
+        userAgent: input.userAgent,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write audit event "${input.action}" for ${input.targetType} ${input.targetId}:`, error);
+    }
+  }
+
+  /**
+   * Current state of a target as a plain object, or null when it does not
+   * exist (yet, or any more).
+   */
+  async snapshot(targetType: AuditTargetType, targetId?: string): Promise<Record<string, any> | null> {
+    if (!targetId || !isValidObjectId(targetId)) {
+      return null;
+    }
+
+    try {
+      switch (targetType) {
+        case AuditTargetType.USER:
+          return this.toPlain(await this.userModel.findById(targetId).lean().exec());
+        case AuditTargetType.NURSE: {
+          const [user, profile] = await Promise.all([
+            this.userModel.findById(targetId).lean().exec(),
+            this.nurseProfileModel.findOne({ userId: targetId }).lean().exec(),
+          ]);
+          return user ? this.toPlain({ user, profile }) : null;
+        }
+        case AuditTargetType.PAYMENT:
+          return this.toPlain(await this.paymentModel.findById(targetId).lean().exec());
+        case AuditTargetType.WALLET:
+          return this.toPlain(await this.walletModel.findOne({ userId: targetId }).lean().exec());
+        case AuditTargetType.WITHDRAWAL:
+          return this.toPlain(await this.withdrawalModel.findById(targetId).lean().exec());
+        case AuditTargetType.CANCELLATION_POLICY:
+          return this.toPlain(await this.cancellationPolicyModel.findById(targetId).lean().exec());
+        case AuditTargetType.MODERATION_RULE:
+          return this.toPlain(await this.moderationRuleModel.findById(targetId).lean().exec());
+        default:
+          return null;
+      }
+    } catch (error) {
+      this.logger.warn(`Could not snapshot ${targetType} ${targetId}: ${(error as Error)?.message}`);
+      return null;
+    }
+  }
+
+  async getEvents(query: AuditEventQueryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+    const filter = this.buildFilter(query);
+
+    const [events, total, actions] = await Promise.all([
+      this.auditEventModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.auditEventModel.countDocuments(filter).exec(),
+      this.auditEventModel.distinct('action').exec(),
+    ]);
+
+    return {
+      success: true,
+      message: 'Audit events retrieved successfully',
+      data: {
+        events,
+        actions: actions.sort(),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  /**
+   * The newest matching events (up to 10,000) as a CSV or JSON file.
+   */
+  async exportEvents(query: AuditEventQueryDto, format: 'csv' | 'json') {
+    const events = await this.auditEventModel
+      .find(this.buildFilter(query))
+      .sort({ createdAt: -1 })
+      .limit(EXPORT_LIMIT)
+      .lean()
+      .exec();
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      return {
+        filename: `audit-log-${stamp}.json`,
+        contentType: 'application/json',
+        content: JSON.stringify(events, null, 2),
+      };
+    }
+
+    const header = ['time', 'actor', 'actor role', 'actor id', 'action', 'target type', 'target id', 'outcome', 'error', 'changes', 'request', 'ip', 'user agent'];
+    const rows = events.map(event => [
+      event.createdAt?.toISOString(),
+      event.actorName,
+      event.actorRole,
+      event.actorId ? String(event.actorId) : '',
+      event.action,
+      event.targetType,
+      event.targetId,
+      event.outcome,
+      event.error,
+      (event.changes || [])
+        .map(change => `${change.path}: ${JSON.stringify(change.before ?? null)} -> ${JSON.stringify(change.after ?? null)}`)
+        .join('; '),
+      event.request,
+      event.ip,
+      event.userAgent,
+    ]);
+
+    return {
+      filename: `audit-log-${stamp}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: [header, ...rows].map(row => row.map(value => this.csvCell(value)).join(',')).join('\n'),
+    };
+  }
+
+  private buildFilter(query: AuditEventQueryDto): FilterQuery<AuditEventDocument> {
+    const filter: FilterQuery<AuditEventDocument> = {};
+
+    if (query.actorId) filter.actorId = new Types.ObjectId(query.actorId);
+    if (query.action) filter.action = query.action;
+    if (query.targetType) filter.targetType = query.targetType;
+    if (query.targetId) filter.targetId = query.targetId;
+    if (query.outcome) filter.outcome = query.outcome;
+    if (query.from || query.to) {
+      filter.createdAt = {};
+      if (query.from) filter.createdAt.$gte = new Date(query.from);
+      if (query.to) filter.createdAt.$lt = new Date(query.to);
+    }
+
+    return filter;
+  }
+
+  // Leaf-level differences as dotted paths; arrays are compared whole
+  private diff(before?: Record<string, any>, after?: Record<string, any>, prefix = ''): AuditChange[] {
+    if (!before && !after) {
+      return [];
+    }
+
+    const changes: AuditChange[] = [];
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    for (const key of keys) {
+      if (IGNORED_KEYS.has(key)) {
+        continue;
+      }
+
+      const path = prefix ? `${prefix}.${key}` : key;
+      const from = before?.[key];
+      const to = after?.[key];
+
+      if (this.isObject(from) && this.isObject(to)) {
+        changes.push(...this.diff(from, to, path));
+      } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ path, before: from, after: to });
+      }
+    }
+
+    return changes;
+  }
+
+  // ObjectIds and dates become strings so snapshots compare and store as plain JSON
+  private toPlain(value: unknown): Record<string, any> | null {
+    return value ? JSON.parse(JSON.stringify(value)) : null;
+  }
+
+  private redact(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+    if (!this.isObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) ? '[redacted]' : this.redact(item)]),
+    );
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private csvCell(value: unknown): string {
+    let text = value === undefined || value === null ? '' : String(value);
+    // Keep spreadsheet apps from evaluating cells as formulas
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
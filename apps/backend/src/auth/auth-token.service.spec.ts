@@ -0,0 +1,77 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { AuthTokenService } from './auth-token.service';
+import { AuthToken, AuthTokenPurpose } from '../schemas/auth-token.schema';
+
+describe('AuthTokenService', () => {
+  let service: AuthTokenService;
+  let jwtService: JwtService;
+  let authTokenModel: { create: jest.Mock; deleteMany: jest.Mock; findOneAndUpdate: jest.Mock };
+
+  const userId = String(new Types.ObjectId());
+
+  beforeEach(async () => {
+    // Unused tokens by jti; redeeming one removes it, as the usedAt check-and-set would
+    const unused = new Set<string>();
+
+    authTokenModel = {
+      create: jest.fn().mockImplementation(async (data: any) => unused.add(data.jti)),
+      deleteMany: jest.fn().mockReturnValue({ exec: async () => unused.clear() }),
+      findOneAndUpdate: jest.fn().mockImplementation((filter: any) => ({
+        exec: async () => (unused.delete(filter.jti) ? { jti: filter.jti } : null),
+      })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuthTokenService,
+        {
+          provide: JwtService,
+          useValue: new JwtService({ secret: 'test-secret', signOptions: { issuer: 'nurse-platform', audience: 'nurse-platform-users' } }),
+        },
+        { provide: getModelToken(AuthToken.name), useValue: authTokenModel },
+      ],
+    }).compile();
+
+    service = moduleRef.get(AuthTokenService);
+    jwtService = moduleRef.get(JwtService);
+  });
+
+  it('redeems a token once for the user it was issued to', async () => {
+    const token = await service.issue(userId, AuthTokenPurpose.EMAIL_VERIFICATION);
+
+    await expect(service.consume(token, AuthTokenPurpose.EMAIL_VERIFICATION)).resolves.toBe(userId);
+    await expect(service.consume(token, AuthTokenPurpose.EMAIL_VERIFICATION)).rejects.toThrow('already been used');
+  });
+
+  it('only keeps the most recent link of each kind valid', async () => {
+    const first = await service.issue(userId, AuthTokenPurpose.PASSWORD_RESET);
+    const second = await service.issue(userId, AuthTokenPurpose.PASSWORD_RESET);
+
+    await expect(service.consume(first, AuthTokenPurpose.PASSWORD_RESET)).rejects.toThrow('already been used');
+    await expect(service.consume(second, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBe(userId);
+  });
+
+  it('does not accept a verification link as a password reset link', async () => {
+    const token = await service.issue(userId, AuthTokenPurpose.EMAIL_VERIFICATION);
+
+    await expect(service.consume(token, AuthTokenPurpose.PASSWORD_RESET)).rejects.toThrow('This link is invalid');
+  });
+
+  it('does not accept access tokens', async () => {
+    const accessToken = jwtService.sign({ sub: userId, role: 'patient' });
+
+    await expect(service.consume(accessToken, AuthTokenPurpose.PASSWORD_RESET)).rejects.toThrow('This link is invalid');
+  });
+
+  it('tells the user when a link has expired', async () => {
+    const expired = jwtService.sign(
+      { sub: userId, purpose: AuthTokenPurpose.PASSWORD_RESET },
+      { audience: 'nurse-platform-password-reset', expiresIn: -60, jwtid: 'expired' },
+    );
+
+    await expect(service.consume(expired, AuthTokenPurpose.PASSWORD_RESET)).rejects.toThrow('expired');
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { AuthToken, AuthTokenDocument, AuthTokenPurpose } from '../schemas/auth-token.schema';
+
+export const AUTH_TOKEN_TTL_SECONDS: Record<AuthTokenPurpose, number> = {
+  [AuthTokenPurpose.EMAIL_VERIFICATION]: 24 * 60 * 60,
+  [AuthTokenPurpose.PASSWORD_RESET]: 60 * 60,
+};
+
+interface AuthTokenPayload {
+  sub: string;
+  purpose: AuthTokenPurpose;
+  jti: string;
+}
+
+/**
+ * Issues and redeems signed, expiring, single-use tokens for email links.
+ * Each purpose gets its own JWT audience, so these tokens are never accepted
+ * as access tokens and cannot be swapped between flows.
+ */
+@Injectable()
+export class AuthTokenService {
+  constructor(
+    @InjectModel(AuthToken.name) private authTokenModel: Model<AuthTokenDocument>,
+    private jwtService: JwtService,
+  ) {}
+
+  async issue(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+    // Only the most recent link of each kind stays valid
+    await this.revokeAll(userId, purpose);
+
+    const jti = randomUUID();
+    const expiresIn = AUTH_TOKEN_TTL_SECONDS[purpose];
+
+    await this.authTokenModel.create({
+      userId,
+      purpose,
+      jti,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    });
+
+    return this.jwtService.sign(
+      { sub: userId, purpose },
+      { audience: this.audienceFor(purpose), expiresIn, jwtid: jti },
+    );
+  }
+
+  /**
+   * Verifies the token and marks it as used. Returns the user ID it was issued to.
+   */
+  async consume(token: string, purpose: AuthTokenPurpose): Promise<string> {
+    let payload: AuthTokenPayload;
+
+    try {
+      payload = this.jwtService.verify<AuthTokenPayload>(token, {
+        audience: this.audienceFor(purpose),
+        issuer: 'nurse-platform',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TokenExpiredError') {
+        throw new BadRequestException('This link has expired. Please request a new one.');
+      }
+      throw new BadRequestException('This link is invalid');
+    }
+
+    // Atomic check-and-set so the same token can't be redeemed twice
+    const record = await this.authTokenModel.findOneAndUpdate(
+      { jti: payload.jti, purpose, usedAt: { $exists: false } },
+      { usedAt: new Date() },
+    ).exec();
+
+    if (!record) {
+      throw new BadRequestException('This link has already been used or is no longer valid');
+    }
+
+    return payload.sub;
+  }
+
+  async revokeAll(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    await this.authTokenModel.deleteMany({ userId, purpose, usedAt: { $exists: false } }).exec();
+  }
+
+  async lastIssuedAt(userId: string, purpose: AuthTokenPurpose): Promise<Date | undefined> {
+    const latest = await this.authTokenModel
+      .findOne({ userId, purpose })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return latest?.createdAt;
+  }
+
+  private audienceFor(purpose: AuthTokenPurpose): string {
+    return `nurse-platform-${purpose.replace(/_/g, '-')}`;
+  }
+}
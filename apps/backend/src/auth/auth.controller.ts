@@ -1,6 +1,16 @@
-import { Controller, Post, Get, Put, Body, ValidationPipe, HttpCode, HttpStatus, UseGuards, Request } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, ValidationPipe, HttpCode, HttpStatus, UseGuards, Request } from '@nestjs/common';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto, AuthResponseDto } from '../dto/auth.dto';
+import {
+  RegisterDto,
+  LoginDto,
+  AuthResponseDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  RefreshTokenDto,
+} from '../dto/auth.dto';
+import { ClientInfo } from './session.service';
 import { JwtAuthGuard } from './jwt-auth.guard';
 
 @Controller('api/auth')
@@ -14,8 +24,64 @@ export class AuthController {
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body(ValidationPipe) loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async login(@Body(ValidationPipe) loginDto: LoginDto, @Request() req: any): Promise<AuthResponseDto> {
+    return this.authService.login(loginDto, this.clientInfo(req));
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body(ValidationPipe) refreshDto: RefreshTokenDto, @Request() req: any): Promise<AuthResponseDto> {
+    return this.authService.refresh(refreshDto.refreshToken, this.clientInfo(req));
+  }
+
+  // Works with an expired access token: the refresh token identifies the session
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body(ValidationPipe) logoutDto: RefreshTokenDto) {
+    return this.authService.logout(logoutDto.refreshToken);
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  async logoutAllDevices(@Request() req: any) {
+    return this.authService.logoutAllDevices(req.user.id);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  async getSessions(@Request() req: any) {
+    return this.authService.getSessions(req.user.id, req.user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  async revokeSession(@Param('id') sessionId: string, @Request() req: any) {
+    return this.authService.revokeSession(req.user.id, sessionId);
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body(ValidationPipe) verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(@Body(ValidationPipe) resendDto: ResendVerificationDto) {
+    return this.authService.resendVerification(resendDto.email);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body(ValidationPipe) forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body(ValidationPipe) resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
   }
 
   @Get('profile')
@@ -29,4 +95,11 @@ export class AuthController {
   async updateProfile(@Body(ValidationPipe) updateData: any, @Request() req: any) {
     return this.authService.updateProfile(req.user, updateData);
   }
+
+  private clientInfo(req: any): ClientInfo {
+    return {
+      userAgent: req.headers?.['user-agent'],
+      ipAddress: req.ip,
+    };
+  }
 }
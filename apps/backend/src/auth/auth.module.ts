@@ -6,8 +6,12 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
+import { AuthTokenService } from './auth-token.service';
+import { SessionService } from './session.service';
 import { User, UserSchema } from '../schemas/user.schema';
 import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { AuthToken, AuthTokenSchema } from '../schemas/auth-token.schema';
+import { Session, SessionSchema } from '../schemas/session.schema';
 import { EmailModule } from '../email/email.module';
 
 @Module({
@@ -18,7 +22,7 @@ import { EmailModule } from '../email/email.module';
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET') || 'nurse-platform-super-secret-jwt-key-2024',
         signOptions: {
-          expiresIn: '24h',
+          expiresIn: configService.get<string>('JWT_ACCESS_EXPIRES_IN') || '15m',
           issuer: 'nurse-platform',
           audience: 'nurse-platform-users',
         },
@@ -28,11 +32,13 @@ import { EmailModule } from '../email/email.module';
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: NurseProfile.name, schema: NurseProfileSchema },
+      { name: AuthToken.name, schema: AuthTokenSchema },
+      { name: Session.name, schema: SessionSchema },
     ]),
     EmailModule,
   ],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, AuthTokenService, SessionService, JwtStrategy],
   controllers: [AuthController],
-  exports: [AuthService, JwtModule],
+  exports: [AuthService, JwtModule, JwtStrategy],
 })
 export class AuthModule {}
@@ -0,0 +1,172 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as bcrypt from 'bcryptjs';
+import { AuthService } from './auth.service';
+import { AuthTokenService } from './auth-token.service';
+import { SessionService } from './session.service';
+import { User, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile } from '../schemas/nurse-profile.schema';
+import { AuthTokenPurpose } from '../schemas/auth-token.schema';
+import { SessionRevokeReason } from '../schemas/session.schema';
+import { EmailService } from '../email/email.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let userModel: { findOne: jest.Mock; findById: jest.Mock };
+  let authTokenService: { issue: jest.Mock; consume: jest.Mock; revokeAll: jest.Mock; lastIssuedAt: jest.Mock };
+  let sessionService: Record<string, jest.Mock>;
+  let emailService: { sendVerificationEmail: jest.Mock; sendPasswordResetEmail: jest.Mock };
+
+  const password = 'correct horse battery';
+  let passwordHash: string;
+
+  const userDoc = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    name: 'Test Patient',
+    email: 'patient@example.com',
+    role: UserRole.PATIENT,
+    status: UserStatus.VERIFIED,
+    emailVerified: true,
+    password: passwordHash,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeAll(async () => {
+    passwordHash = await bcrypt.hash(password, 4);
+  });
+
+  beforeEach(async () => {
+    userModel = { findOne: jest.fn(), findById: jest.fn() };
+    authTokenService = {
+      issue: jest.fn().mockResolvedValue('emailed-token'),
+      consume: jest.fn(),
+      revokeAll: jest.fn().mockResolvedValue(undefined),
+      lastIssuedAt: jest.fn().mockResolvedValue(undefined),
+    };
+    sessionService = {
+      create: jest.fn().mockResolvedValue({ sessionId: 'session-1', refreshToken: 'refresh-1' }),
+      rotate: jest.fn(),
+      revokeByToken: jest.fn().mockResolvedValue(undefined),
+      revokeAll: jest.fn().mockResolvedValue(2),
+    };
+    emailService = {
+      sendVerificationEmail: jest.fn().mockResolvedValue(undefined),
+      sendPasswordResetEmail: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(NurseProfile.name), useValue: {} },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test-secret' }) },
+        { provide: EmailService, useValue: emailService },
+        { provide: AuthTokenService, useValue: authTokenService },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(AuthService);
+  });
+
+  describe('login', () => {
+    it('waits for the email address to be verified', async () => {
+      userModel.findOne.mockReturnValue({ exec: async () => userDoc({ emailVerified: false }) });
+
+      await expect(service.login({ email: 'patient@example.com', password })).rejects.toBeInstanceOf(ForbiddenException);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('checks the password before revealing anything about the account', async () => {
+      userModel.findOne.mockReturnValue({ exec: async () => userDoc({ emailVerified: false }) });
+
+      await expect(service.login({ email: 'patient@example.com', password: 'wrong' })).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('opens a session for a verified account', async () => {
+      userModel.findOne.mockReturnValue({ exec: async () => userDoc() });
+
+      const result = await service.login({ email: 'patient@example.com', password });
+
+      expect(result.refresh_token).toBe('refresh-1');
+      expect(result.access_token).toEqual(expect.any(String));
+    });
+  });
+
+  describe('refresh', () => {
+    it('returns the rotated refresh token with a new access token', async () => {
+      const user = userDoc();
+      sessionService.rotate.mockResolvedValue({ userId: String(user._id), sessionId: 'session-1', refreshToken: 'refresh-2' });
+      userModel.findById.mockReturnValue({ exec: async () => user });
+
+      const result = await service.refresh('refresh-1');
+
+      expect(result.refresh_token).toBe('refresh-2');
+      expect(result.access_token).toEqual(expect.any(String));
+    });
+
+    it('ends the session of a user suspended since the last refresh', async () => {
+      sessionService.rotate.mockResolvedValue({ userId: 'user-1', sessionId: 'session-1', refreshToken: 'refresh-2' });
+      userModel.findById.mockReturnValue({ exec: async () => userDoc({ status: UserStatus.SUSPENDED }) });
+
+      await expect(service.refresh('refresh-1')).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(sessionService.revokeByToken).toHaveBeenCalledWith('refresh-2');
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('marks the address of the token\'s user as verified', async () => {
+      const user = userDoc({ emailVerified: false });
+      authTokenService.consume.mockResolvedValue(String(user._id));
+      userModel.findById.mockReturnValue({ exec: async () => user });
+
+      await service.verifyEmail('emailed-token');
+
+      expect(authTokenService.consume).toHaveBeenCalledWith('emailed-token', AuthTokenPurpose.EMAIL_VERIFICATION);
+      expect(user.emailVerified).toBe(true);
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('gives the same answer for unknown addresses without sending anything', async () => {
+      userModel.findOne.mockReturnValue({ exec: async () => userDoc() });
+      const known = await service.forgotPassword('patient@example.com');
+
+      userModel.findOne.mockReturnValue({ exec: async () => null });
+      const unknown = await service.forgotPassword('nobody@example.com');
+
+      expect(unknown).toEqual(known);
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send another link within a minute of the last one', async () => {
+      userModel.findOne.mockReturnValue({ exec: async () => userDoc() });
+      authTokenService.lastIssuedAt.mockResolvedValue(new Date(Date.now() - 10 * 1000));
+
+      await service.forgotPassword('patient@example.com');
+
+      expect(authTokenService.issue).not.toHaveBeenCalled();
+      expect(emailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('stores the new password and signs the user out everywhere', async () => {
+      const user = userDoc();
+      authTokenService.consume.mockResolvedValue(String(user._id));
+      userModel.findById.mockReturnValue({ exec: async () => user });
+
+      await service.resetPassword('emailed-token', 'a brand new password');
+
+      await expect(bcrypt.compare('a brand new password', user.password)).resolves.toBe(true);
+      expect(user.passwordChangedAt).toBeInstanceOf(Date);
+      expect(authTokenService.revokeAll).toHaveBeenCalledWith(String(user._id), AuthTokenPurpose.PASSWORD_RESET);
+      expect(sessionService.revokeAll).toHaveBeenCalledWith(String(user._id), SessionRevokeReason.PASSWORD_RESET);
+    });
+  });
+});
@@ -1,12 +1,19 @@
-import { Injectable, ConflictException, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { Injectable, ConflictException, UnauthorizedException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcryptjs';
-import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
 import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
 import { RegisterDto, LoginDto, AuthResponseDto } from '../dto/auth.dto';
 import { EmailService } from '../email/email.service';
+import { AuthTokenPurpose } from '../schemas/auth-token.schema';
+import { AuthTokenService, AUTH_TOKEN_TTL_SECONDS } from './auth-token.service';
+import { SessionService, ClientInfo } from './session.service';
+import { SessionRevokeReason } from '../schemas/session.schema';
+
+// Minimum gap between two emailed links of the same kind for one user
+const EMAIL_LINK_COOLDOWN_MS = 60 * 1000;
 
 @Injectable()
 export class AuthService {
@@ -15,6 +22,8 @@ export class AuthService {
     @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
     private jwtService: JwtService,
     private emailService: EmailService,
+    private authTokenService: AuthTokenService,
+    private sessionService: SessionService,
   ) {}
 
   async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
@@ -35,6 +44,7 @@ export class AuthService {
       email,
       password: hashedPassword,
       role,
+      emailVerified: false,
       location: {
         type: 'Point',
         coordinates: coordinates, // [longitude, latitude]
@@ -74,12 +84,17 @@ export class AuthService {
       }
     }
 
-    // Generate JWT token
-    const payload = { email: savedUser.email, sub: savedUser._id, role: savedUser.role };
-    const access_token = this.jwtService.sign(payload);
+    try {
+      await this.sendVerificationLink(savedUser);
+    } catch (error) {
+      // The user can request a new link from the login page
+      console.error('Failed to send verification email:', error);
+    }
 
+    // No access token until the email address is verified
     return {
-      access_token,
+      message: 'Registration successful. Please check your email to verify your account.',
+      requiresEmailVerification: true,
       user: {
         id: savedUser._id.toString(),
         name: savedUser.name,
@@ -90,7 +105,7 @@ export class AuthService {
     };
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(loginDto: LoginDto, client: ClientInfo = {}): Promise<AuthResponseDto> {
     const { email, password } = loginDto;
 
     // Find user by email
@@ -105,12 +120,19 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Generate JWT token
-    const payload = { email: user.email, sub: user._id, role: user.role };
-    const access_token = this.jwtService.sign(payload);
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException('Account is suspended');
+    }
+
+    if (user.emailVerified === false) {
+      throw new ForbiddenException('Please verify your email address before logging in');
+    }
+
+    const { sessionId, refreshToken } = await this.sessionService.create(String(user._id), client);
 
     return {
-      access_token,
+      access_token: this.signAccessToken(user, sessionId),
+      refresh_token: refreshToken,
       user: {
         id: user._id.toString(),
         name: user.name,
@@ -121,6 +143,136 @@ export class AuthService {
     };
   }
 
+  async refresh(refreshToken: string, client: ClientInfo = {}): Promise<AuthResponseDto> {
+    const rotated = await this.sessionService.rotate(refreshToken, client);
+    const user = await this.userModel.findById(rotated.userId).exec();
+
+    if (!user || user.status === UserStatus.SUSPENDED || user.status === UserStatus.REJECTED) {
+      await this.sessionService.revokeByToken(rotated.refreshToken);
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    return {
+      access_token: this.signAccessToken(user, rotated.sessionId),
+      refresh_token: rotated.refreshToken,
+    };
+  }
+
+  async logout(refreshToken: string) {
+    await this.sessionService.revokeByToken(refreshToken);
+    return { message: 'Logged out successfully' };
+  }
+
+  async logoutAllDevices(userId: string) {
+    const revoked = await this.sessionService.revokeAll(userId, SessionRevokeReason.LOGOUT_ALL);
+    return {
+      message: 'Signed out of all devices',
+      revokedSessions: revoked,
+    };
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionService.listActive(userId);
+
+    return sessions.map(session => ({
+      id: String(session._id),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: String(session._id) === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    await this.sessionService.revokeForUser(userId, sessionId);
+    return { message: 'Session revoked' };
+  }
+
+  async verifyEmail(token: string) {
+    const userId = await this.authTokenService.consume(token, AuthTokenPurpose.EMAIL_VERIFICATION);
+    const user = await this.userModel.findById(userId).exec();
+
+    if (!user) {
+      throw new BadRequestException('This link is invalid');
+    }
+
+    if (user.emailVerified !== true) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    return {
+      message: 'Email verified successfully. You can now log in.',
+      email: user.email,
+    };
+  }
+
+  async resendVerification(email: string) {
+    const user = await this.userModel.findOne({ email }).exec();
+
+    // Same answer whether or not the account exists, so emails can't be probed
+    if (user && user.emailVerified === false && await this.canSendLink(user, AuthTokenPurpose.EMAIL_VERIFICATION)) {
+      await this.sendVerificationLink(user);
+    }
+
+    return {
+      message: 'If this email belongs to an unverified account, a new verification link has been sent.',
+    };
+  }
+
+  async forgotPassword(email: string) {
+    const user = await this.userModel.findOne({ email }).exec();
+
+    if (user && await this.canSendLink(user, AuthTokenPurpose.PASSWORD_RESET)) {
+      const token = await this.authTokenService.issue(String(user._id), AuthTokenPurpose.PASSWORD_RESET);
+
+      try {
+        await this.emailService.sendPasswordResetEmail(
+          email,
+          user.name || '',
+          token,
+          AUTH_TOKEN_TTL_SECONDS[AuthTokenPurpose.PASSWORD_RESET] / 60,
+        );
+      } catch (error) {
+        // Don't reveal delivery problems to the caller
+        console.error('Failed to send password reset email:', error);
+      }
+    }
+
+    return {
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    };
+  }
+
+  async resetPassword(token: string, password: string) {
+    const userId = await this.authTokenService.consume(token, AuthTokenPurpose.PASSWORD_RESET);
+    const user = await this.userModel.findById(userId).exec();
+
+    if (!user) {
+      throw new BadRequestException('This link is invalid');
+    }
+
+    user.password = await bcrypt.hash(password, 12);
+    user.passwordChangedAt = new Date();
+
+    // Following the emailed link proves ownership of the address
+    if (user.emailVerified === false) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+
+    await user.save();
+    await this.authTokenService.revokeAll(userId, AuthTokenPurpose.PASSWORD_RESET);
+    await this.sessionService.revokeAll(userId, SessionRevokeReason.PASSWORD_RESET);
+
+    return {
+      message: 'Password reset successfully. You can now log in with your new password.',
+    };
+  }
+
   async validateUser(email: string, password: string): Promise<any> {
     const user = await this.userModel.findOne({ email }).exec();
     if (user && await bcrypt.compare(password, user.password)) {
@@ -215,4 +367,28 @@ export class AuthService {
       user: updatedUser,
     };
   }
+
+  // Short-lived; the `sid` claim ties it to a revocable session
+  private signAccessToken(user: UserDocument, sessionId: string): string {
+    const payload = { email: user.email, sub: user._id, role: user.role, sid: sessionId };
+    return this.jwtService.sign(payload);
+  }
+
+  /**
+   * Sends a fresh verification link after the email address of an account
+   * changed somewhere other than registration.
+   */
+  async sendEmailVerification(user: UserDocument): Promise<void> {
+    await this.sendVerificationLink(user);
+  }
+
+  private async sendVerificationLink(user: UserDocument): Promise<void> {
+    const token = await this.authTokenService.issue(String(user._id), AuthTokenPurpose.EMAIL_VERIFICATION);
+    await this.emailService.sendVerificationEmail(user.email || '', user.name || '', token);
+  }
+
+  private async canSendLink(user: UserDocument, purpose: AuthTokenPurpose): Promise<boolean> {
+    const lastIssuedAt = await this.authTokenService.lastIssuedAt(String(user._id), purpose);
+    return !lastIssuedAt || Date.now() - lastIssuedAt.getTime() >= EMAIL_LINK_COOLDOWN_MS;
+  }
 }
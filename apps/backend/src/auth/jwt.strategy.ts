@@ -3,12 +3,14 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { User, UserDocument } from '../schemas/user.schema';
+import { User, UserDocument, UserStatus } from '../schemas/user.schema';
+import { SessionService } from './session.service';
 
 export interface JwtPayload {
   sub: string;
   email: string;
   role: string;
+  sid?: string;
   iat?: number;
   exp?: number;
   iss?: string;
@@ -19,6 +21,7 @@ export interface JwtPayload {
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private sessionService: SessionService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -47,6 +50,21 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Account has been rejected');
     }
 
+    // Resetting the password signs the user out everywhere
+    if (user.passwordChangedAt && payload.iat && payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+      throw new UnauthorizedException('Session expired, please log in again');
+    }
+
+    // Logging out or signing out all devices must take effect before the access token expires
+    if (payload.sid && !(await this.sessionService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Tokens issued before a suspension stop working immediately
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException('Account is suspended');
+    }
+
     // Always return a plain object with all required fields for downstream guards/controllers
     // Include both id and _id for compatibility with different parts of the system
     const result = {
@@ -55,6 +73,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       role: user.role,
       email: user.email,
       status: user.status,
+      sessionId: payload.sid,
     };
 
     console.log('🎯 JWT Strategy returning user object:', result);
@@ -0,0 +1,118 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SessionService } from './session.service';
+import { Session, SessionRevokeReason } from '../schemas/session.schema';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let stored: any;
+  let sessionModel: { create: jest.Mock; findById: jest.Mock; findOneAndUpdate: jest.Mock; updateOne: jest.Mock };
+
+  const userId = String(new Types.ObjectId());
+
+  beforeEach(async () => {
+    stored = undefined;
+
+    // Single-session stand-in that applies the conditions rotate() relies on
+    sessionModel = {
+      create: jest.fn().mockImplementation(async (data: any) => {
+        stored = { _id: new Types.ObjectId(), previousTokenHashes: [], ...data };
+        return stored;
+      }),
+      findById: jest.fn().mockImplementation(() => ({ exec: async () => stored && { ...stored } })),
+      findOneAndUpdate: jest.fn().mockImplementation((filter: any, update: any) => ({
+        exec: async () => {
+          if (stored.tokenHash !== filter.tokenHash || stored.revokedAt) {
+            return null;
+          }
+          stored.previousTokenHashes = [...stored.previousTokenHashes, ...update.$push.previousTokenHashes.$each];
+          Object.assign(stored, update.$set);
+          return { ...stored };
+        },
+      })),
+      updateOne: jest.fn().mockImplementation((filter: any, update: any) => ({
+        exec: async () => {
+          if (stored.revokedAt || (filter.tokenHash && filter.tokenHash !== stored.tokenHash)) {
+            return { matchedCount: 0 };
+          }
+          Object.assign(stored, update);
+          return { matchedCount: 1 };
+        },
+      })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getModelToken(Session.name), useValue: sessionModel },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(SessionService);
+  });
+
+  it('only stores a hash of the refresh token', async () => {
+    const { refreshToken } = await service.create(userId, { userAgent: 'Firefox' });
+
+    expect(refreshToken.startsWith(`${stored._id}.`)).toBe(true);
+    expect(stored.tokenHash).not.toContain(refreshToken.split('.')[1]);
+    expect(stored.userAgent).toBe('Firefox');
+  });
+
+  it('hands out a new refresh token on every rotation', async () => {
+    const { refreshToken } = await service.create(userId, {});
+
+    const rotated = await service.rotate(refreshToken, { userAgent: 'Safari' });
+
+    expect(rotated.userId).toBe(userId);
+    expect(rotated.sessionId).toBe(String(stored._id));
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(stored.userAgent).toBe('Safari');
+    await expect(service.rotate(rotated.refreshToken, {})).resolves.toBeDefined();
+  });
+
+  it('revokes the whole session when a rotated-out token is used again', async () => {
+    const { refreshToken } = await service.create(userId, {});
+    const rotated = await service.rotate(refreshToken, {});
+
+    await expect(service.rotate(refreshToken, {})).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(stored.revokedReason).toBe(SessionRevokeReason.TOKEN_REUSE);
+    // The thief and the legitimate holder are both signed out
+    await expect(service.rotate(rotated.refreshToken, {})).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('rejects an unknown secret without revoking the session', async () => {
+    const { sessionId } = await service.create(userId, {});
+
+    await expect(service.rotate(`${sessionId}.not-the-secret`, {})).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(stored.revokedAt).toBeUndefined();
+  });
+
+  it('rejects expired sessions', async () => {
+    const { refreshToken } = await service.create(userId, {});
+    stored.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.rotate(refreshToken, {})).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('rejects malformed refresh tokens before touching the database', async () => {
+    await expect(service.rotate('garbage', {})).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(sessionModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('ends the session on logout', async () => {
+    const { refreshToken } = await service.create(userId, {});
+
+    await service.revokeByToken(refreshToken);
+
+    expect(stored.revokedReason).toBe(SessionRevokeReason.LOGOUT);
+    await expect(service.rotate(refreshToken, {})).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
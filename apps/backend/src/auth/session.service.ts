@@ -0,0 +1,176 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Session, SessionDocument, SessionRevokeReason } from '../schemas/session.schema';
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Enough history to catch a replayed token without letting the document grow unbounded
+const MAX_PREVIOUS_HASHES = 20;
+
+/**
+ * Server-side sessions backing rotating refresh tokens.
+ * A refresh token has the form `<sessionId>.<secret>`; presenting a secret that
+ * was already rotated out revokes the whole session.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  async create(userId: string, client: ClientInfo): Promise<{ sessionId: string; refreshToken: string }> {
+    const secret = this.generateSecret();
+
+    const session = await this.sessionModel.create({
+      userId: new Types.ObjectId(userId),
+      tokenHash: this.hash(secret),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: this.expiryFromNow(),
+    });
+
+    const sessionId = String(session._id);
+    return { sessionId, refreshToken: `${sessionId}.${secret}` };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one. Returns the session's user ID.
+   */
+  async rotate(refreshToken: string, client: ClientInfo): Promise<{ userId: string; sessionId: string; refreshToken: string }> {
+    const { sessionId, secret } = this.parse(refreshToken);
+    const session = await this.sessionModel.findById(sessionId).exec();
+
+    if (!session || session.revokedAt || (session.expiresAt && session.expiresAt < new Date())) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const presentedHash = this.hash(secret);
+    const nextSecret = this.generateSecret();
+
+    // Conditional update so two concurrent refreshes can't both succeed
+    const rotated = await this.sessionModel.findOneAndUpdate(
+      { _id: session._id, tokenHash: presentedHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          tokenHash: this.hash(nextSecret),
+          lastUsedAt: new Date(),
+          expiresAt: this.expiryFromNow(),
+          ...(client.userAgent && { userAgent: client.userAgent }),
+          ...(client.ipAddress && { ipAddress: client.ipAddress }),
+        },
+        $push: { previousTokenHashes: { $each: [presentedHash], $slice: -MAX_PREVIOUS_HASHES } },
+      },
+      { new: true },
+    ).exec();
+
+    if (!rotated) {
+      if (session.previousTokenHashes?.includes(presentedHash)) {
+        // An old token came back: assume it was stolen and end the session for everyone holding it
+        this.logger.warn(`Refresh token reuse detected for session ${sessionId}, revoking it`);
+        await this.revokeById(sessionId, SessionRevokeReason.TOKEN_REUSE);
+      }
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return {
+      userId: String(rotated.userId),
+      sessionId,
+      refreshToken: `${sessionId}.${nextSecret}`,
+    };
+  }
+
+  async revokeByToken(refreshToken: string): Promise<void> {
+    const { sessionId, secret } = this.parse(refreshToken);
+
+    await this.sessionModel.updateOne(
+      { _id: sessionId, tokenHash: this.hash(secret), revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: SessionRevokeReason.LOGOUT },
+    ).exec();
+  }
+
+  async revokeForUser(userId: string, sessionId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const result = await this.sessionModel.updateOne(
+      { _id: sessionId, userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: SessionRevokeReason.REVOKED },
+    ).exec();
+
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  async revokeAll(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      { userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason },
+    ).exec();
+
+    return result.modifiedCount;
+  }
+
+  async listActive(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({ userId: new Types.ObjectId(userId), revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .select('-tokenHash -previousTokenHashes')
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const count = await this.sessionModel.countDocuments({
+      _id: sessionId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).exec();
+
+    return count > 0;
+  }
+
+  private async revokeById(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await this.sessionModel.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason },
+    ).exec();
+  }
+
+  private parse(refreshToken: string): { sessionId: string; secret: string } {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return { sessionId, secret };
+  }
+
+  private generateSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private expiryFromNow(): Date {
+    const days = Number(this.configService.get('REFRESH_TOKEN_TTL_DAYS')) || 30;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+}
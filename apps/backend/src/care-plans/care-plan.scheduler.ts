@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CarePlansService } from './care-plans.service';
+
+@Injectable()
+export class CarePlanScheduler {
+  private readonly logger = new Logger(CarePlanScheduler.name);
+
+  constructor(private readonly carePlansService: CarePlansService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateDueVisits() {
+    try {
+      const created = await this.carePlansService.generateDueVisits();
+      if (created > 0) {
+        this.logger.log(`Scheduled ${created} care plan visit(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to generate care plan visits', error);
+    }
+  }
+}
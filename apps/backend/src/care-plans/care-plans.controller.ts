@@ -0,0 +1,80 @@
+import { Controller, Post, Get, Patch, Delete, Body, Param, Query, UseGuards, Request, ValidationPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { CarePlansService } from './care-plans.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CreateCarePlanDto, UpdateCarePlanDto, SkipVisitDto } from '../dto/care-plan.dto';
+
+@ApiTags('Care Plans')
+@ApiBearerAuth('JWT-auth')
+@Controller('api/care-plans')
+@UseGuards(JwtAuthGuard)
+export class CarePlansController {
+  constructor(private readonly carePlansService: CarePlansService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a recurring care plan and schedule its first visits' })
+  async createCarePlan(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) createCarePlanDto: CreateCarePlanDto,
+    @Request() req: any
+  ) {
+    return this.carePlansService.createCarePlan(createCarePlanDto, req.user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List care plans of the current user' })
+  async getCarePlans(@Request() req: any) {
+    return this.carePlansService.getCarePlans(req.user);
+  }
+
+  @Get('calendar')
+  @ApiOperation({ summary: 'Scheduled visits of the current user between two dates' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date, defaults to now' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date, defaults to 31 days after from' })
+  async getCalendar(@Request() req: any, @Query('from') from?: string, @Query('to') to?: string) {
+    return this.carePlansService.getCalendar(req.user, from, to);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a care plan with its upcoming visits' })
+  async getCarePlanById(@Param('id') planId: string, @Request() req: any) {
+    return this.carePlansService.getCarePlanById(planId, req.user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit a care plan; only upcoming visits are changed' })
+  async updateCarePlan(
+    @Param('id') planId: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) updateCarePlanDto: UpdateCarePlanDto,
+    @Request() req: any
+  ) {
+    return this.carePlansService.updateCarePlan(planId, updateCarePlanDto, req.user);
+  }
+
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause a care plan and cancel its upcoming visits' })
+  async pauseCarePlan(@Param('id') planId: string, @Request() req: any) {
+    return this.carePlansService.pauseCarePlan(planId, req.user);
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({ summary: 'Resume a paused care plan' })
+  async resumeCarePlan(@Param('id') planId: string, @Request() req: any) {
+    return this.carePlansService.resumeCarePlan(planId, req.user);
+  }
+
+  @Post(':id/skip')
+  @ApiOperation({ summary: 'Skip a single upcoming visit' })
+  async skipVisit(
+    @Param('id') planId: string,
+    @Body(ValidationPipe) skipVisitDto: SkipVisitDto,
+    @Request() req: any
+  ) {
+    return this.carePlansService.skipVisit(planId, skipVisitDto.date, req.user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'End a care plan and cancel its upcoming visits' })
+  async endCarePlan(@Param('id') planId: string, @Request() req: any) {
+    return this.carePlansService.endCarePlan(planId, req.user);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CarePlansController } from './care-plans.controller';
+import { CarePlansService } from './care-plans.service';
+import { CarePlanScheduler } from './care-plan.scheduler';
+import { CarePlan, CarePlanSchema } from '../schemas/care-plan.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { Application, ApplicationSchema } from '../schemas/application.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CarePlan.name, schema: CarePlanSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+      { name: Application.name, schema: ApplicationSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    NotificationsModule,
+    PaymentsModule,
+  ],
+  controllers: [CarePlansController],
+  providers: [CarePlansService, CarePlanScheduler],
+  exports: [CarePlansService],
+})
+export class CarePlansModule {}
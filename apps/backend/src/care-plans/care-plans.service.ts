@@ -0,0 +1,552 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CarePlan, CarePlanDocument, CarePlanStatus } from '../schemas/care-plan.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { Application, ApplicationDocument, ApplicationStatus } from '../schemas/application.schema';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { CreateCarePlanDto, UpdateCarePlanDto } from '../dto/care-plan.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  RecurrenceFrequency,
+  addDays,
+  dateInTimeZone,
+  isValidTimeZone,
+  occurrencesBetween,
+  parseRRule,
+  zonedDateTimeToUtc,
+} from './recurrence';
+
+// Longest window the calendar endpoint will return in one call
+const MAX_CALENDAR_DAYS = 92;
+
+@Injectable()
+export class CarePlansService {
+  constructor(
+    @InjectModel(CarePlan.name) private carePlanModel: Model<CarePlanDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private notificationsService: NotificationsService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Helper method to safely compare ObjectIds
+   */
+  private compareObjectIds(id1: any, id2: any): boolean {
+    if (!id1 || !id2) return false;
+    return id1.toString() === id2.toString();
+  }
+
+  async createCarePlan(createCarePlanDto: CreateCarePlanDto, user: any) {
+    if (user.role !== UserRole.PATIENT) {
+      throw new ForbiddenException('Only patients can create care plans');
+    }
+
+    const { coordinates, preferredNurseId, ...planData } = createCarePlanDto;
+    const timezone = planData.timezone || 'Africa/Cairo';
+
+    this.validateSchedule({ ...planData, timezone });
+
+    if (planData.startDate < dateInTimeZone(new Date(), timezone)) {
+      throw new BadRequestException('Start date cannot be in the past');
+    }
+
+    if (preferredNurseId) {
+      await this.ensureNurseExists(preferredNurseId);
+    }
+
+    const plan = await this.carePlanModel.create({
+      ...planData,
+      timezone,
+      patientId: new Types.ObjectId(user.id),
+      preferredNurseId: preferredNurseId ? new Types.ObjectId(preferredNurseId) : undefined,
+      location: { type: 'Point', coordinates },
+    });
+
+    await this.generateVisits(plan);
+
+    return this.formatCarePlan(plan, await this.getUpcomingVisits(plan));
+  }
+
+  async getCarePlans(user: any) {
+    const query: any = {};
+
+    if (user.role === UserRole.PATIENT) {
+      query.patientId = new Types.ObjectId(user.id);
+    } else if (user.role === UserRole.NURSE) {
+      query.preferredNurseId = new Types.ObjectId(user.id);
+    }
+
+    const plans = await this.carePlanModel
+      .find(query)
+      .sort({ status: 1, createdAt: -1 })
+      .exec();
+
+    return plans.map(plan => this.formatCarePlan(plan));
+  }
+
+  async getCarePlanById(planId: string, user: any) {
+    const plan = await this.findPlan(planId);
+
+    const canView = user.role === UserRole.ADMIN
+      || this.compareObjectIds(plan.patientId, user.id)
+      || this.compareObjectIds(plan.preferredNurseId, user.id);
+
+    if (!canView) {
+      throw new ForbiddenException('You do not have access to this care plan');
+    }
+
+    return this.formatCarePlan(plan, await this.getUpcomingVisits(plan));
+  }
+
+  async updateCarePlan(planId: string, updateCarePlanDto: UpdateCarePlanDto, user: any) {
+    const plan = await this.findOwnedPlan(planId, user);
+
+    if (plan.status === CarePlanStatus.ENDED) {
+      throw new BadRequestException('Ended care plans cannot be changed');
+    }
+
+    const { coordinates, preferredNurseId, ...changes } = updateCarePlanDto;
+
+    this.validateSchedule({
+      recurrence: changes.recurrence ?? plan.recurrence,
+      startDate: plan.startDate,
+      endDate: changes.endDate ?? plan.endDate,
+      timezone: changes.timezone ?? plan.timezone,
+    });
+
+    if (preferredNurseId) {
+      await this.ensureNurseExists(preferredNurseId);
+      plan.preferredNurseId = new Types.ObjectId(preferredNurseId);
+    }
+
+    if (coordinates) {
+      plan.location = { type: 'Point', coordinates };
+    }
+
+    plan.set(changes);
+    await plan.save();
+
+    if (plan.status === CarePlanStatus.ACTIVE) {
+      await this.rebuildFutureVisits(plan);
+    }
+
+    return this.formatCarePlan(plan, await this.getUpcomingVisits(plan));
+  }
+
+  async pauseCarePlan(planId: string, user: any) {
+    const plan = await this.findOwnedPlan(planId, user);
+
+    if (plan.status !== CarePlanStatus.ACTIVE) {
+      throw new BadRequestException('Only active care plans can be paused');
+    }
+
+    plan.status = CarePlanStatus.PAUSED;
+    plan.pausedAt = new Date();
+    await plan.save();
+
+    const cancelled = await this.cancelFutureVisits(plan, 'Care plan paused');
+
+    return {
+      message: 'Care plan paused',
+      cancelledVisits: cancelled,
+      carePlan: this.formatCarePlan(plan),
+    };
+  }
+
+  async resumeCarePlan(planId: string, user: any) {
+    const plan = await this.findOwnedPlan(planId, user);
+
+    if (plan.status !== CarePlanStatus.PAUSED) {
+      throw new BadRequestException('Only paused care plans can be resumed');
+    }
+
+    plan.status = CarePlanStatus.ACTIVE;
+    plan.pausedAt = undefined;
+    await plan.save();
+
+    await this.rebuildFutureVisits(plan);
+
+    return this.formatCarePlan(plan, await this.getUpcomingVisits(plan));
+  }
+
+  async skipVisit(planId: string, date: string, user: any) {
+    const plan = await this.findOwnedPlan(planId, user);
+
+    if (plan.status === CarePlanStatus.ENDED) {
+      throw new BadRequestException('Ended care plans cannot be changed');
+    }
+
+    if (date < dateInTimeZone(new Date(), plan.timezone)) {
+      throw new BadRequestException('Past visits cannot be skipped');
+    }
+
+    const isOccurrence = occurrencesBetween(plan.recurrence, plan.startDate, date, date, plan.endDate).length > 0;
+    if (!isOccurrence) {
+      throw new BadRequestException(`The care plan has no visit on ${date}`);
+    }
+
+    if (!plan.skippedDates.includes(date)) {
+      plan.skippedDates.push(date);
+      await plan.save();
+    }
+
+    const cancelled = await this.cancelFutureVisits(plan, 'Visit skipped by patient', [date]);
+
+    return {
+      message: `Visit on ${date} skipped`,
+      cancelledVisits: cancelled,
+      carePlan: this.formatCarePlan(plan),
+    };
+  }
+
+  async endCarePlan(planId: string, user: any) {
+    const plan = await this.findOwnedPlan(planId, user);
+
+    if (plan.status === CarePlanStatus.ENDED) {
+      throw new BadRequestException('Care plan has already ended');
+    }
+
+    plan.status = CarePlanStatus.ENDED;
+    plan.endedAt = new Date();
+    await plan.save();
+
+    const cancelled = await this.cancelFutureVisits(plan, 'Care plan ended');
+
+    return {
+      message: 'Care plan ended',
+      cancelledVisits: cancelled,
+      carePlan: this.formatCarePlan(plan),
+    };
+  }
+
+  /**
+   * Visits of the current user between two dates, for the bookings calendar.
+   * Includes one-off requests as well as care plan visits.
+   */
+  async getCalendar(user: any, from?: string, to?: string) {
+    const start = from ? new Date(from) : new Date();
+    const end = to ? new Date(to) : new Date(start.getTime() + 31 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      throw new BadRequestException('Invalid calendar range');
+    }
+
+    if (end.getTime() - start.getTime() > MAX_CALENDAR_DAYS * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(`Calendar range cannot exceed ${MAX_CALENDAR_DAYS} days`);
+    }
+
+    const query: any = { scheduledDate: { $gte: start, $lte: end } };
+
+    if (user.role === UserRole.PATIENT) {
+      query.patientId = new Types.ObjectId(user.id);
+    } else if (user.role === UserRole.NURSE) {
+      query.nurseId = new Types.ObjectId(user.id);
+    }
+
+    const visits = await this.requestModel
+      .find(query)
+      .sort({ scheduledDate: 1 })
+      .populate('nurseId', 'name')
+      .populate('patientId', 'name')
+      .exec();
+
+    return visits.map(visit => ({
+      id: visit._id,
+      title: visit.title,
+      serviceType: visit.serviceType,
+      status: visit.status,
+      scheduledDate: visit.scheduledDate,
+      estimatedDuration: visit.estimatedDuration,
+      address: visit.address,
+      carePlanId: visit.carePlanId,
+      occurrenceDate: visit.occurrenceDate,
+      nurse: visit.nurseId ? { id: (visit.nurseId as any)._id, name: (visit.nurseId as any).name } : null,
+      patient: visit.patientId ? { id: (visit.patientId as any)._id, name: (visit.patientId as any).name } : null,
+    }));
+  }
+
+  /**
+   * Rolls every active plan's visit window forward. Called by CarePlanScheduler.
+   */
+  async generateDueVisits(): Promise<number> {
+    const plans = await this.carePlanModel.find({ status: CarePlanStatus.ACTIVE }).exec();
+    let created = 0;
+
+    for (const plan of plans) {
+      try {
+        created += await this.generateVisits(plan);
+      } catch (error) {
+        console.error(`Failed to generate visits for care plan ${plan._id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  private async generateVisits(plan: CarePlanDocument): Promise<number> {
+    const now = new Date();
+    const today = dateInTimeZone(now, plan.timezone);
+    const horizon = addDays(today, plan.lookaheadDays);
+
+    let from = plan.generatedUntil ? addDays(plan.generatedUntil, 1) : plan.startDate;
+    if (from < today) from = today;
+    if (from > horizon) return 0;
+
+    const dates = occurrencesBetween(plan.recurrence, plan.startDate, from, horizon, plan.endDate)
+      .filter(date => !plan.skippedDates.includes(date));
+
+    // Dates that already have a live visit, e.g. accepted visits kept across an edit
+    const existing = await this.requestModel.find({
+      carePlanId: plan._id,
+      occurrenceDate: { $in: dates },
+      status: { $ne: RequestStatus.CANCELLED },
+    }).select('occurrenceDate').exec();
+    const taken = new Set(existing.map(visit => visit.occurrenceDate));
+
+    const visits = dates
+      .filter(date => !taken.has(date))
+      .map(date => this.buildVisit(plan, date))
+      .filter(visit => visit.scheduledDate > now);
+
+    if (visits.length > 0) {
+      await this.requestModel.insertMany(visits);
+    }
+
+    plan.generatedUntil = horizon;
+    await plan.save();
+
+    if (visits.length > 0 && plan.preferredNurseId) {
+      try {
+        await this.notificationsService.notifyCarePlanVisitsScheduled(
+          String(plan.preferredNurseId),
+          String(plan._id),
+          plan.title,
+          visits.length
+        );
+      } catch (error) {
+        console.error('Failed to notify preferred nurse:', error);
+        // Don't fail visit generation if notification fails
+      }
+    }
+
+    return visits.length;
+  }
+
+  /**
+   * Applies the plan's current settings to upcoming visits. Visits a nurse has
+   * already accepted keep their agreed details; they are only cancelled if the
+   * new schedule drops their date.
+   */
+  private async rebuildFutureVisits(plan: CarePlanDocument) {
+    const today = dateInTimeZone(new Date(), plan.timezone);
+    const horizon = addDays(today, plan.lookaheadDays);
+    const scheduled = new Set(
+      occurrencesBetween(plan.recurrence, plan.startDate, today, horizon, plan.endDate)
+        .filter(date => !plan.skippedDates.includes(date))
+    );
+
+    const upcoming = await this.requestModel.find({
+      carePlanId: plan._id,
+      scheduledDate: { $gt: new Date() },
+      status: { $in: [RequestStatus.PENDING, RequestStatus.ACCEPTED] },
+    }).exec();
+
+    const dropped = upcoming
+      .filter(visit => !scheduled.has(visit.occurrenceDate || ''))
+      .map(visit => visit.occurrenceDate || '');
+    await this.cancelFutureVisits(plan, 'Removed from the care plan schedule', dropped);
+
+    for (const visit of upcoming) {
+      if (visit.status === RequestStatus.PENDING && scheduled.has(visit.occurrenceDate || '')) {
+        visit.set(this.buildVisit(plan, visit.occurrenceDate!));
+        await visit.save();
+      }
+    }
+
+    // Regenerate from today so new dates in the window are filled in
+    plan.generatedUntil = addDays(today, -1);
+    await this.generateVisits(plan);
+  }
+
+  private async cancelFutureVisits(plan: CarePlanDocument, reason: string, onlyDates?: string[]): Promise<number> {
+    if (onlyDates && onlyDates.length === 0) {
+      return 0;
+    }
+
+    const query: any = {
+      carePlanId: plan._id,
+      scheduledDate: { $gt: new Date() },
+      status: { $in: [RequestStatus.PENDING, RequestStatus.ACCEPTED] },
+    };
+    if (onlyDates) {
+      query.occurrenceDate = { $in: onlyDates };
+    }
+
+    const visits = await this.requestModel.find(query).exec();
+    if (visits.length === 0) {
+      return 0;
+    }
+
+    const visitIds = visits.map(visit => visit._id);
+
+    await this.requestModel.updateMany(
+      { _id: { $in: visitIds } },
+      { status: RequestStatus.CANCELLED, cancelledAt: new Date(), cancellationReason: reason }
+    ).exec();
+
+    await this.applicationModel.updateMany(
+      { requestId: { $in: visitIds }, status: { $ne: ApplicationStatus.REJECTED } },
+      { status: ApplicationStatus.REJECTED }
+    ).exec();
+
+    for (const visit of visits.filter(v => v.nurseId)) {
+      try {
+        await this.paymentsService.releaseForRequest(String(visit._id), reason);
+      } catch (error) {
+        console.error('Failed to release payment hold for cancelled visit:', error);
+        // Don't fail the plan change if the hold cannot be released
+      }
+
+      try {
+        await this.notificationsService.notifyRequestCancelled(
+          String(visit.nurseId),
+          String(visit._id),
+          visit.title,
+          reason
+        );
+      } catch (error) {
+        console.error('Failed to send visit cancellation notification:', error);
+        // Don't fail the plan change if notification fails
+      }
+    }
+
+    return visits.length;
+  }
+
+  private buildVisit(plan: CarePlanDocument, date: string) {
+    return {
+      patientId: plan.patientId,
+      carePlanId: plan._id,
+      occurrenceDate: date,
+      title: plan.title,
+      description: plan.description,
+      serviceType: plan.serviceType,
+      location: plan.location,
+      address: plan.address,
+      scheduledDate: zonedDateTimeToUtc(date, plan.visitTime, plan.timezone),
+      estimatedDuration: plan.estimatedDuration,
+      urgencyLevel: plan.urgencyLevel || 'medium',
+      specialRequirements: plan.specialRequirements,
+      budget: plan.budget,
+      contactPhone: plan.contactPhone,
+      notes: plan.notes,
+    };
+  }
+
+  private validateSchedule(schedule: {
+    recurrence: { frequency: RecurrenceFrequency; rrule?: string };
+    startDate: string;
+    endDate?: string;
+    timezone: string;
+  }) {
+    if (!isValidTimeZone(schedule.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${schedule.timezone}`);
+    }
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      throw new BadRequestException('End date must be on or after the start date');
+    }
+
+    if (schedule.recurrence.frequency === RecurrenceFrequency.CUSTOM) {
+      try {
+        parseRRule(schedule.recurrence.rrule || '');
+      } catch (error) {
+        throw new BadRequestException(error instanceof Error ? error.message : 'Invalid RRULE');
+      }
+    }
+  }
+
+  private async ensureNurseExists(nurseId: string) {
+    const nurse = await this.userModel.findOne({ _id: nurseId, role: UserRole.NURSE }).select('_id').exec();
+    if (!nurse) {
+      throw new BadRequestException('Preferred nurse not found');
+    }
+  }
+
+  private async findPlan(planId: string): Promise<CarePlanDocument> {
+    if (!Types.ObjectId.isValid(planId)) {
+      throw new NotFoundException('Care plan not found');
+    }
+
+    const plan = await this.carePlanModel.findById(planId).exec();
+    if (!plan) {
+      throw new NotFoundException('Care plan not found');
+    }
+
+    return plan;
+  }
+
+  private async findOwnedPlan(planId: string, user: any): Promise<CarePlanDocument> {
+    const plan = await this.findPlan(planId);
+
+    if (!this.compareObjectIds(plan.patientId, user.id)) {
+      throw new ForbiddenException('You can only manage your own care plans');
+    }
+
+    return plan;
+  }
+
+  private async getUpcomingVisits(plan: CarePlanDocument) {
+    return this.requestModel
+      .find({ carePlanId: plan._id, scheduledDate: { $gte: new Date() } })
+      .sort({ scheduledDate: 1 })
+      .limit(30)
+      .populate('nurseId', 'name')
+      .select('title status scheduledDate occurrenceDate estimatedDuration nurseId')
+      .exec();
+  }
+
+  private formatCarePlan(plan: CarePlanDocument, upcomingVisits?: PatientRequestDocument[]) {
+    return {
+      id: plan._id,
+      title: plan.title,
+      description: plan.description,
+      serviceType: plan.serviceType,
+      status: plan.status,
+      recurrence: plan.recurrence,
+      startDate: plan.startDate,
+      endDate: plan.endDate,
+      visitTime: plan.visitTime,
+      timezone: plan.timezone,
+      estimatedDuration: plan.estimatedDuration,
+      location: plan.location,
+      address: plan.address,
+      preferredNurseId: plan.preferredNurseId,
+      urgencyLevel: plan.urgencyLevel,
+      specialRequirements: plan.specialRequirements,
+      budget: plan.budget,
+      contactPhone: plan.contactPhone,
+      notes: plan.notes,
+      lookaheadDays: plan.lookaheadDays,
+      skippedDates: plan.skippedDates,
+      generatedUntil: plan.generatedUntil,
+      pausedAt: plan.pausedAt,
+      endedAt: plan.endedAt,
+      createdAt: plan.createdAt,
+      ...(upcomingVisits && {
+        upcomingVisits: upcomingVisits.map(visit => ({
+          id: visit._id,
+          status: visit.status,
+          scheduledDate: visit.scheduledDate,
+          occurrenceDate: visit.occurrenceDate,
+          estimatedDuration: visit.estimatedDuration,
+          nurse: visit.nurseId ? { id: (visit.nurseId as any)._id, name: (visit.nurseId as any).name } : null,
+        })),
+      }),
+    };
+  }
+}
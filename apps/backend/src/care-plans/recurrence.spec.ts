@@ -0,0 +1,110 @@
+import {
+  RecurrenceFrequency,
+  addDays,
+  dateInTimeZone,
+  isValidTimeZone,
+  occurrencesBetween,
+  parseRRule,
+  zonedDateTimeToUtc,
+} from './recurrence';
+
+describe('parseRRule', () => {
+  it('parses the supported fields', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=6;UNTIL=20250331T000000Z')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [1, 3, 5],
+      count: 6,
+      until: '2025-03-31',
+    });
+  });
+
+  it('defaults the interval to 1 and accepts lower case', () => {
+    expect(parseRRule('freq=daily')).toEqual({ freq: 'DAILY', interval: 1 });
+  });
+
+  it.each([
+    ['FREQ=MONTHLY', 'RRULE FREQ must be DAILY or WEEKLY'],
+    ['FREQ=DAILY;BYHOUR=9', 'Unsupported RRULE field BYHOUR'],
+    ['FREQ=DAILY;INTERVAL=0', 'RRULE INTERVAL must be a positive integer'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Unsupported RRULE BYDAY value XX'],
+    ['FREQ=DAILY;COUNT=-1', 'RRULE COUNT must be a positive integer'],
+    ['FREQ=DAILY;UNTIL=soon', 'RRULE UNTIL must start with YYYYMMDD'],
+    ['FREQ=DAILY;INTERVAL', 'Malformed RRULE part "INTERVAL"'],
+  ])('rejects %s', (rrule, message) => {
+    expect(() => parseRRule(rrule)).toThrow(message);
+  });
+});
+
+describe('occurrencesBetween', () => {
+  // 2025-01-06 is a Monday
+  const startDate = '2025-01-06';
+
+  it('repeats daily rules every day', () => {
+    expect(occurrencesBetween({ frequency: RecurrenceFrequency.DAILY }, startDate, '2025-01-06', '2025-01-09'))
+      .toEqual(['2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09']);
+  });
+
+  it('skips weekends for weekday rules', () => {
+    expect(occurrencesBetween({ frequency: RecurrenceFrequency.WEEKDAYS }, startDate, '2025-01-10', '2025-01-14'))
+      .toEqual(['2025-01-10', '2025-01-13', '2025-01-14']);
+  });
+
+  it('counts weekly intervals from the week the plan starts', () => {
+    const rule = { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH' };
+    expect(occurrencesBetween(rule, startDate, '2025-01-06', '2025-01-31'))
+      .toEqual(['2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23']);
+  });
+
+  it('uses the start weekday when a weekly rule has no BYDAY', () => {
+    const rule = { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=WEEKLY' };
+    expect(occurrencesBetween(rule, '2025-01-08', '2025-01-01', '2025-01-31'))
+      .toEqual(['2025-01-08', '2025-01-15', '2025-01-22', '2025-01-29']);
+  });
+
+  it('counts COUNT from the plan start, not from the requested range', () => {
+    const rule = { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=DAILY;INTERVAL=3;COUNT=4' };
+    expect(occurrencesBetween(rule, startDate, '2025-01-10', '2025-02-28')).toEqual(['2025-01-12', '2025-01-15']);
+  });
+
+  it('stops at UNTIL or the plan end date, whichever comes first', () => {
+    const rule = { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=DAILY;UNTIL=20250110' };
+    expect(occurrencesBetween(rule, startDate, startDate, '2025-01-31', '2025-01-08'))
+      .toEqual(['2025-01-06', '2025-01-07', '2025-01-08']);
+    expect(occurrencesBetween(rule, startDate, '2025-01-09', '2025-01-31')).toEqual(['2025-01-09', '2025-01-10']);
+  });
+
+  it('returns nothing before the plan starts', () => {
+    expect(occurrencesBetween({ frequency: RecurrenceFrequency.DAILY }, startDate, '2024-12-01', '2025-01-05')).toEqual([]);
+  });
+});
+
+describe('time zones', () => {
+  it('converts wall-clock times to UTC', () => {
+    expect(zonedDateTimeToUtc('2025-01-15', '09:30', 'Africa/Cairo').toISOString()).toBe('2025-01-15T07:30:00.000Z');
+    expect(zonedDateTimeToUtc('2025-01-15', '09:30', 'UTC').toISOString()).toBe('2025-01-15T09:30:00.000Z');
+  });
+
+  it('follows daylight saving time changes', () => {
+    expect(zonedDateTimeToUtc('2025-03-29', '10:00', 'Europe/London').toISOString()).toBe('2025-03-29T10:00:00.000Z');
+    expect(zonedDateTimeToUtc('2025-03-31', '10:00', 'Europe/London').toISOString()).toBe('2025-03-31T09:00:00.000Z');
+  });
+
+  it('gives the calendar date of an instant in the zone', () => {
+    const instant = new Date('2025-01-15T23:30:00Z');
+    expect(dateInTimeZone(instant, 'UTC')).toBe('2025-01-15');
+    expect(dateInTimeZone(instant, 'Africa/Cairo')).toBe('2025-01-16');
+  });
+
+  it('recognizes IANA time zones', () => {
+    expect(isValidTimeZone('Africa/Cairo')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2024-12-30', 3)).toBe('2025-01-02');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
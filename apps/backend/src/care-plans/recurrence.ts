@@ -0,0 +1,209 @@
+// Calendar maths for care plan schedules. Dates are plain 'YYYY-MM-DD' strings
+// in the plan's time zone; conversion to instants happens only in zonedDateTimeToUtc.
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKDAYS = 'weekdays',
+  CUSTOM = 'custom',
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  rrule?: string;
+}
+
+interface ParsedRRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay?: number[]; // 0 = Sunday … 6 = Saturday
+  count?: number;
+  until?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parses the subset of RFC 5545 RRULE we support:
+ * FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, COUNT and UNTIL.
+ * Throws an Error with a readable message for anything else.
+ */
+export function parseRRule(rrule: string): ParsedRRule {
+  const parts = rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new Error(`Malformed RRULE part "${part}"`);
+    }
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    throw new Error('RRULE FREQ must be DAILY or WEEKLY');
+  }
+
+  for (const key of fields.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Unsupported RRULE field ${key}`);
+    }
+  }
+
+  const parsed: ParsedRRule = { freq, interval: 1 };
+
+  if (fields.has('INTERVAL')) {
+    parsed.interval = Number(fields.get('INTERVAL'));
+    if (!Number.isInteger(parsed.interval) || parsed.interval < 1) {
+      throw new Error('RRULE INTERVAL must be a positive integer');
+    }
+  }
+
+  if (fields.has('BYDAY')) {
+    parsed.byDay = fields.get('BYDAY')!.split(',').map(code => {
+      const day = WEEKDAY_CODES.indexOf(code);
+      if (day === -1) {
+        throw new Error(`Unsupported RRULE BYDAY value ${code}`);
+      }
+      return day;
+    });
+  }
+
+  if (fields.has('COUNT')) {
+    parsed.count = Number(fields.get('COUNT'));
+    if (!Number.isInteger(parsed.count) || parsed.count < 1) {
+      throw new Error('RRULE COUNT must be a positive integer');
+    }
+  }
+
+  if (fields.has('UNTIL')) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(fields.get('UNTIL')!);
+    if (!match) {
+      throw new Error('RRULE UNTIL must start with YYYYMMDD');
+    }
+    parsed.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return parsed;
+}
+
+/**
+ * Returns the occurrence dates of a rule between `from` and `to` (inclusive),
+ * counting from `startDate` so INTERVAL and COUNT line up with the plan start.
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  startDate: string,
+  from: string,
+  to: string,
+  endDate?: string,
+): string[] {
+  const parsed: ParsedRRule = rule.frequency === RecurrenceFrequency.DAILY
+    ? { freq: 'DAILY', interval: 1 }
+    : rule.frequency === RecurrenceFrequency.WEEKDAYS
+      ? { freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5] }
+      : parseRRule(rule.rrule || '');
+
+  const start = toDayNumber(startDate);
+  const last = Math.min(
+    toDayNumber(to),
+    endDate ? toDayNumber(endDate) : Infinity,
+    parsed.until ? toDayNumber(parsed.until) : Infinity,
+  );
+  const first = toDayNumber(from);
+  const byDay = parsed.byDay ?? [weekday(start)];
+  const startWeek = weekStart(start);
+
+  const dates: string[] = [];
+  let seen = 0;
+
+  for (let day = start; day <= last; day++) {
+    const matches = parsed.freq === 'DAILY'
+      ? (day - start) % parsed.interval === 0
+      : byDay.includes(weekday(day)) && ((weekStart(day) - startWeek) / 7) % parsed.interval === 0;
+
+    if (!matches) continue;
+
+    seen++;
+    if (parsed.count && seen > parsed.count) break;
+    if (day >= first) dates.push(fromDayNumber(day));
+  }
+
+  return dates;
+}
+
+/**
+ * Converts a wall-clock date and time in an IANA time zone to a UTC instant.
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Apply the zone offset, then re-check it in case the first guess crossed a DST change
+  let instant = wallClock - timeZoneOffset(wallClock, timeZone);
+  instant = wallClock - timeZoneOffset(instant, timeZone);
+  return new Date(instant);
+}
+
+/**
+ * The calendar date of an instant in the given time zone.
+ */
+export function dateInTimeZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  return (day + 4) % 7;
+}
+
+function weekStart(day: number): number {
+  // Weeks start on Monday, as in RRULE's default WKST
+  return day - ((weekday(day) + 6) % 7);
+}
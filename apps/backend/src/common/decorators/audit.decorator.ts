@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuditTargetType } from '../../schemas/audit-event.schema';
+
+export const AUDIT_KEY = 'audit';
+
+export interface AuditOptions {
+  // Dotted name of the action, e.g. 'user.suspend'
+  action: string;
+  targetType: AuditTargetType;
+  // Route param or body field holding the target id; with neither, the
+  // id of the created record is read from the response
+  targetParam?: string;
+  targetBody?: string;
+}
+
+/**
+ * Records the handler's calls in the audit log, with the target's state
+ * before and after the call. Written by AuditInterceptor.
+ */
+export const Audit = (options: AuditOptions) => SetMetadata(AUDIT_KEY, options);
@@ -0,0 +1,90 @@
+import { Reflector } from '@nestjs/core';
+import { CallHandler, ExecutionContext, NotFoundException } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditOptions } from '../decorators/audit.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { AuditOutcome, AuditTargetType } from '../../schemas/audit-event.schema';
+
+describe('AuditInterceptor', () => {
+  let auditService: { snapshot: jest.Mock; record: jest.Mock };
+  let options: AuditOptions | undefined;
+  let interceptor: AuditInterceptor;
+
+  const admin = { _id: 'admin-1', name: 'Admin', role: 'admin' };
+
+  const context = (params: Record<string, string> = {}, body: Record<string, any> = {}) => ({
+    getType: () => 'http',
+    getHandler: () => undefined,
+    switchToHttp: () => ({
+      getRequest: () => ({
+        user: admin,
+        method: 'PATCH',
+        originalUrl: '/api/admin/users/u1/suspend',
+        params,
+        body,
+        ip: '10.0.0.1',
+        get: () => 'jest',
+      }),
+    }),
+  }) as unknown as ExecutionContext;
+
+  const handler = (result: any): CallHandler => ({ handle: () => of(result) });
+
+  beforeEach(() => {
+    options = { action: 'user.suspend', targetType: AuditTargetType.USER, targetParam: 'id' };
+    auditService = {
+      snapshot: jest.fn().mockResolvedValueOnce({ status: 'active' }).mockResolvedValueOnce({ status: 'suspended' }),
+      record: jest.fn().mockResolvedValue(undefined),
+    };
+    const reflector = { get: () => options } as unknown as Reflector;
+    interceptor = new AuditInterceptor(reflector, auditService as unknown as AuditService);
+  });
+
+  it('records who changed what before the response goes out', async () => {
+    const result = await lastValueFrom(interceptor.intercept(context({ id: 'u1' }, { reason: 'Fraud' }), handler({ success: true })));
+
+    expect(result).toEqual({ success: true });
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      actor: admin,
+      action: 'user.suspend',
+      targetId: 'u1',
+      before: { status: 'active' },
+      after: { status: 'suspended' },
+      payload: { reason: 'Fraud' },
+      request: 'PATCH /api/admin/users/u1/suspend',
+      ip: '10.0.0.1',
+      userAgent: 'jest',
+    }));
+  });
+
+  it('records failed attempts and passes the error on', async () => {
+    const failing: CallHandler = { handle: () => throwError(() => new NotFoundException('User not found')) };
+
+    await expect(lastValueFrom(interceptor.intercept(context({ id: 'u1' }), failing))).rejects.toBeInstanceOf(NotFoundException);
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      outcome: AuditOutcome.FAILURE,
+      error: 'User not found',
+      before: { status: 'active' },
+    }));
+  });
+
+  it('takes the target of a create from the response', async () => {
+    options = { action: 'cancellation_policy.create', targetType: AuditTargetType.CANCELLATION_POLICY };
+
+    await lastValueFrom(interceptor.intercept(context(), handler({ success: true, data: { _id: 'p1' } })));
+
+    expect(auditService.snapshot).toHaveBeenLastCalledWith(AuditTargetType.CANCELLATION_POLICY, 'p1');
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ targetId: 'p1' }));
+  });
+
+  it('leaves handlers without @Audit alone', async () => {
+    options = undefined;
+
+    await lastValueFrom(interceptor.intercept(context({ id: 'u1' }), handler({ success: true })));
+
+    expect(auditService.snapshot).not.toHaveBeenCalled();
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+});
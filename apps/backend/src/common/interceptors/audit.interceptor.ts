@@ -0,0 +1,74 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { Request } from 'express';
+import { AUDIT_KEY, AuditOptions } from '../decorators/audit.decorator';
+import { AuditService } from '../../audit/audit.service';
+import { AuditOutcome } from '../../schemas/audit-event.schema';
+
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const options = this.reflector.get<AuditOptions | undefined>(AUDIT_KEY, context.getHandler());
+    if (!options || context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { user?: any }>();
+    const paramTargetId: string | undefined = options.targetParam
+      ? request.params[options.targetParam]
+      : options.targetBody ? request.body?.[options.targetBody] : undefined;
+    const base = {
+      actor: request.user,
+      action: options.action,
+      targetType: options.targetType,
+      payload: request.body,
+      request: `${request.method} ${request.originalUrl}`,
+      ip: request.ip,
+      userAgent: request.get('User-Agent'),
+    };
+
+    // The event is written before the response goes out, so a returned success is always on record
+    return from(this.auditService.snapshot(options.targetType, paramTargetId)).pipe(
+      mergeMap(before => next.handle().pipe(
+        mergeMap(async result => {
+          const targetId = paramTargetId ?? this.createdId(result);
+          await this.auditService.record({
+            ...base,
+            targetId,
+            before,
+            after: await this.auditService.snapshot(options.targetType, targetId),
+          });
+          return result;
+        }),
+        catchError(async error => {
+          await this.auditService.record({
+            ...base,
+            targetId: paramTargetId,
+            outcome: AuditOutcome.FAILURE,
+            error: error?.message || 'Unknown error',
+            before,
+          });
+          throw error;
+        }),
+      )),
+    );
+  }
+
+  // Services answer create calls with `{ data: document }`
+  private createdId(result: any): string | undefined {
+    const id = result?.data?._id ?? result?._id;
+    return id ? String(id) : undefined;
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  HttpException,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Request, Response } from 'express';
+import { MetricsService } from '../../health/metrics.service';
+
+// Probes and scrapes would otherwise dominate the numbers
+const IGNORED_PATHS = ['/health', '/metrics'];
+
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const ctx = context.switchToHttp();
+    const request = ctx.getRequest<Request>();
+    const response = ctx.getResponse<Response>();
+    // Route template rather than the URL, so ids do not create a series each
+    const route: string = request.route?.path || 'unknown';
+
+    if (IGNORED_PATHS.some(path => route === path || route.startsWith(`${path}/`))) {
+      return next.handle();
+    }
+
+    const startTime = process.hrtime.bigint();
+    const record = (statusCode: number) => {
+      const durationSeconds = Number(process.hrtime.bigint() - startTime) / 1e9;
+      this.metricsService.recordRequest(request.method, route, statusCode, durationSeconds);
+    };
+
+    return next.handle().pipe(
+      tap({
+        complete: () => record(response.statusCode),
+        error: (error) => record(error instanceof HttpException ? error.getStatus() : 500),
+      }),
+    );
+  }
+}
@@ -6,6 +6,8 @@ export const configValidationSchema = Joi.object({
 
   // JWT
   JWT_SECRET: Joi.string().min(32).required().description('JWT secret key'),
+  JWT_ACCESS_EXPIRES_IN: Joi.string().default('15m').description('Lifetime of access tokens (e.g. 15m, 1h)'),
+  REFRESH_TOKEN_TTL_DAYS: Joi.number().integer().min(1).default(30).description('Lifetime of refresh tokens in days'),
 
   // Server
   PORT: Joi.number().port().default(3001).description('Server port'),
@@ -22,6 +24,25 @@ export const configValidationSchema = Joi.object({
   MAIL_USER: Joi.string().email().required().description('SMTP username/email'),
   MAIL_PASSWORD: Joi.string().required().description('SMTP password'),
 
+  // Visit verification
+  VISIT_GEOFENCE_RADIUS_METERS: Joi.number().integer().min(10).default(200).description('How far from the visit address a check-in may be'),
+  VISIT_LATE_CHECK_IN_MINUTES: Joi.number().integer().min(0).default(15).description('Grace period before a check-in counts as late'),
+
+  // Payments
+  PLATFORM_FEE_PERCENT: Joi.number().min(0).max(100).default(10).description('Share of each visit payment kept by the platform'),
+  PAYMENT_AUTO_CONFIRM_HOURS: Joi.number().integer().min(1).max(144).default(48).description('Hours after the nurse completes a visit before payment is captured without the patient confirming'),
+  PAYOUT_CLEARING_DAYS: Joi.number().integer().min(0).max(90).default(7).description('Days a captured visit payment stays pending before the nurse can withdraw it'),
+  MIN_WITHDRAWAL_AMOUNT: Joi.number().integer().min(1).default(10000).description('Smallest withdrawal a nurse can request, in piastres'),
+
+  // Invoices
+  INVOICE_ISSUER_NAME: Joi.string().default('Nurse Platform').description('Company name printed on invoices and statements'),
+  INVOICE_ISSUER_TAX_ID: Joi.string().allow('').optional().description('Tax registration number printed on invoices'),
+
+  // Health checks and metrics
+  HEALTH_CHECK_TIMEOUT_MS: Joi.number().integer().min(100).default(3000).description('How long a dependency health check may take before it counts as down'),
+  HEALTH_MIN_FREE_DISK_MB: Joi.number().integer().min(0).default(1024).description('Free space on the uploads disk below which the disk check fails'),
+  METRICS_TOKEN: Joi.string().allow('').optional().description('Bearer token required on /metrics; leave empty to expose it without one'),
+
   // Optional configurations
   LOG_LEVEL: Joi.string()
     .valid('error', 'warn', 'info', 'debug', 'verbose')
@@ -32,11 +53,24 @@ export const configValidationSchema = Joi.object({
 export interface ConfigVariables {
   MONGODB_URI: string;
   JWT_SECRET: string;
+  JWT_ACCESS_EXPIRES_IN: string;
+  REFRESH_TOKEN_TTL_DAYS: number;
   PORT: number;
   NODE_ENV: 'development' | 'production' | 'test';
   FRONTEND_URL: string;
   MAIL_HOST: string;
   MAIL_USER: string;
   MAIL_PASSWORD: string;
+  VISIT_GEOFENCE_RADIUS_METERS: number;
+  VISIT_LATE_CHECK_IN_MINUTES: number;
+  PLATFORM_FEE_PERCENT: number;
+  PAYMENT_AUTO_CONFIRM_HOURS: number;
+  PAYOUT_CLEARING_DAYS: number;
+  MIN_WITHDRAWAL_AMOUNT: number;
+  INVOICE_ISSUER_NAME: string;
+  INVOICE_ISSUER_TAX_ID?: string;
+  HEALTH_CHECK_TIMEOUT_MS: number;
+  HEALTH_MIN_FREE_DISK_MB: number;
+  METRICS_TOKEN?: string;
   LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug' | 'verbose';
 }
@@ -314,6 +314,75 @@ export class NurseProfileCompletionController {
     };
   }
 
+  @Get('requested-changes')
+  @ApiOperation({ summary: 'Get the items an admin asked to fix before resubmission' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Requested changes retrieved successfully'
+  })
+  async getRequestedChanges(@Request() req: any): Promise<{
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: any;
+  }> {
+    if (req.user.role !== 'nurse') {
+      throw new ForbiddenException('Only nurses can view requested changes');
+    }
+
+    const changes = await this.profileCompletionService.getRequestedChanges(req.user.id);
+
+    return {
+      success: true,
+      statusCode: HttpStatus.OK,
+      message: 'Requested changes retrieved successfully',
+      data: changes,
+    };
+  }
+
+  @Post('resubmit')
+  @UseInterceptors(FileFieldsInterceptor([
+    { name: 'licenseDocument', maxCount: 1 },
+    { name: 'backgroundCheckDocument', maxCount: 1 },
+    { name: 'resumeDocument', maxCount: 1 },
+    { name: 'additionalDocuments', maxCount: 5 },
+  ], {
+    storage: createDocumentStorage(),
+    fileFilter: documentFileFilter,
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB per file
+    }
+  }))
+  @ApiOperation({ summary: 'Resubmit the profile with the flagged items fixed, creating a new version' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Profile resubmitted successfully'
+  })
+  async resubmitProfile(
+    @Request() req: any,
+    @Body() body: any,
+    @UploadedFiles() files: { [fieldname: string]: Express.Multer.File[] }
+  ): Promise<{
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: any;
+  }> {
+    if (req.user.role !== 'nurse') {
+      throw new ForbiddenException('Only nurses can resubmit profile');
+    }
+
+    const result = await this.profileCompletionService.resubmitProfile(req.user.id, body || {}, files || {});
+
+    return {
+      success: true,
+      statusCode: HttpStatus.OK,
+      message: 'Profile resubmitted for review successfully',
+      data: result,
+    };
+  }
+
   @Get('can-access/:stepNumber')
   @ApiOperation({ summary: 'Check if user can access a specific step' })
   @ApiResponse({ 
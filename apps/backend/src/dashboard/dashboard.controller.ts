@@ -131,6 +131,7 @@ export class DashboardController {
     summary: 'Get system health status',
     description: 'Get system health and performance metrics (Admin only)'
   })
+  @ApiQuery({ name: 'refresh', required: false, type: Boolean, description: 'Re-run the dependency checks instead of reusing a recent result' })
   @ApiResponse({
     status: 200,
     description: 'System health retrieved successfully'
@@ -138,8 +139,8 @@ export class DashboardController {
   @ApiUnauthorizedResponse({
     description: 'Invalid or missing JWT token'
   })
-  async getSystemHealth(@Request() req: any) {
-    return this.dashboardService.getSystemHealth();
+  async getSystemHealth(@Request() req: any, @Query('refresh') refresh?: string) {
+    return this.dashboardService.getSystemHealth(refresh === 'true');
   }
 
   @Get('admin/user-analytics')
@@ -5,6 +5,7 @@ import { DashboardService } from './dashboard.service';
 import { User, UserSchema } from '../schemas/user.schema';
 import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
 import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { HealthModule } from '../health/health.module';
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schem
       { name: PatientRequest.name, schema: PatientRequestSchema },
       { name: NurseProfile.name, schema: NurseProfileSchema },
     ]),
+    HealthModule,
   ],
   controllers: [DashboardController],
   providers: [DashboardService],
@@ -4,6 +4,8 @@ import { Model } from 'mongoose';
 import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
 import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
 import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
+import { HealthService } from '../health/health.service';
+import { MetricsService } from '../health/metrics.service';
 
 @Injectable()
 export class DashboardService {
@@ -11,6 +13,8 @@ export class DashboardService {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
     @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    private healthService: HealthService,
+    private metricsService: MetricsService,
   ) {}
 
   async getDashboardOverview(user: UserDocument) {
@@ -380,18 +384,16 @@ export class DashboardService {
     return unreadOnly ? notifications.filter(n => !n.read) : notifications;
   }
 
-  async getSystemHealth() {
+  async getSystemHealth(refresh = false) {
     const memoryUsage = process.memoryUsage();
     const uptime = process.uptime();
-
-    // Get database connection status
-    const dbStats = {
-      connected: true, // TODO: Check actual DB connection
-      responseTime: 0, // TODO: Measure DB response time
-    };
+    const report = await this.healthService.checkAll(refresh);
+    const database = report.checks.find(check => check.name === 'database');
+    const totals = this.metricsService.getTotals();
 
     return {
-      status: 'healthy',
+      status: report.status,
+      checkedAt: report.checkedAt,
       uptime: {
         seconds: uptime,
         formatted: this.formatUptime(uptime),
@@ -401,10 +403,18 @@ export class DashboardService {
         total: Math.round(memoryUsage.heapTotal / 1024 / 1024),
         external: Math.round(memoryUsage.external / 1024 / 1024),
       },
-      database: dbStats,
+      database: {
+        connected: database?.status === 'up',
+        responseTime: database?.responseTime ?? 0,
+      },
+      checks: report.checks,
       api: {
-        status: 'operational',
-        responseTime: 0, // TODO: Calculate average response time
+        status: totals.errorRate > 0.05 ? 'degraded' : 'operational',
+        responseTime: totals.averageMs,
+        requests: totals.requests,
+        serverErrors: totals.serverErrors,
+        errorRate: totals.errorRate,
+        routes: this.metricsService.getRouteSummaries(),
       }
     };
   }
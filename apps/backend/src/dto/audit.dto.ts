@@ -0,0 +1,65 @@
+import { IsString, IsEnum, IsIn, IsMongoId, IsOptional, IsDateString, IsNumber, Min, Max, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditOutcome, AuditTargetType } from '../schemas/audit-event.schema';
+
+export class AuditEventQueryDto {
+  @ApiPropertyOptional({ description: 'Only events performed by this user', example: '507f1f77bcf86cd799439012' })
+  @IsOptional()
+  @IsMongoId()
+  actorId?: string;
+
+  @ApiPropertyOptional({ description: 'Only this action', example: 'user.suspend' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @ApiPropertyOptional({ description: 'Only events on this kind of record', enum: AuditTargetType })
+  @IsOptional()
+  @IsEnum(AuditTargetType)
+  targetType?: AuditTargetType;
+
+  @ApiPropertyOptional({ description: 'Only events on this record', example: '507f1f77bcf86cd799439011' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  targetId?: string;
+
+  @ApiPropertyOptional({ description: 'Only successful or failed actions', enum: AuditOutcome })
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  outcome?: AuditOutcome;
+
+  @ApiPropertyOptional({ description: 'Events at or after this time', example: '2024-01-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Events before this time', example: '2024-02-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Events per page', example: 50, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class AuditExportQueryDto extends AuditEventQueryDto {
+  @ApiPropertyOptional({ description: 'File format', enum: ['csv', 'json'], default: 'csv' })
+  @IsOptional()
+  @IsIn(['csv', 'json'])
+  format?: 'csv' | 'json';
+}
@@ -80,8 +80,40 @@ export class LoginDto {
   password!: string;
 }
 
+export class VerifyEmailDto {
+  @IsString()
+  token!: string;
+}
+
+export class ResendVerificationDto {
+  @IsEmail()
+  email!: string;
+}
+
+export class ForgotPasswordDto {
+  @IsEmail()
+  email!: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  token!: string;
+
+  @IsString()
+  @MinLength(6)
+  password!: string;
+}
+
+export class RefreshTokenDto {
+  @IsString()
+  refreshToken!: string;
+}
+
 export class AuthResponseDto {
   access_token?: string;
+  refresh_token?: string;
+  message?: string;
+  requiresEmailVerification?: boolean;
   user?: {
     id: string;
     name: string;
@@ -0,0 +1,71 @@
+import {
+  IsString,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+  Matches,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class WorkingHoursDto {
+  @ApiProperty({ description: 'Day of the week, 0 = Sunday … 6 = Saturday', example: 1, minimum: 0, maximum: 6 })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek!: number;
+
+  @ApiProperty({ description: 'Start of the shift (HH:mm)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'Start time must be in HH:mm format' })
+  startTime!: string;
+
+  @ApiProperty({ description: 'End of the shift (HH:mm)', example: '17:00' })
+  @Matches(TIME_PATTERN, { message: 'End time must be in HH:mm format' })
+  endTime!: string;
+}
+
+export class UpdateAvailabilityDto {
+  @ApiPropertyOptional({ description: 'Weekly working hours. An empty list means no restriction.', type: [WorkingHoursDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(28, { message: 'Too many working hour blocks' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkingHoursDto)
+  workingHours?: WorkingHoursDto[];
+
+  @ApiPropertyOptional({ description: 'Free minutes kept between visits', example: 30, minimum: 0, maximum: 240 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  bufferMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'IANA time zone of the working hours', example: 'Africa/Cairo' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
+
+export class CreateTimeOffDto {
+  @ApiProperty({ description: 'Start of the time off (ISO 8601)', example: '2024-12-24T00:00:00Z' })
+  @IsDateString({}, { message: 'Start must be a valid ISO 8601 date' })
+  startsAt!: string;
+
+  @ApiProperty({ description: 'End of the time off (ISO 8601)', example: '2024-12-27T00:00:00Z' })
+  @IsDateString({}, { message: 'End must be a valid ISO 8601 date' })
+  endsAt!: string;
+
+  @ApiPropertyOptional({ description: 'Reason, only visible to the nurse', example: 'Holiday' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
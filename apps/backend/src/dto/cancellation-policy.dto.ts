@@ -0,0 +1,100 @@
+import {
+  IsString,
+  IsNumber,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../schemas/user.schema';
+
+const URGENCY_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+export class CancellationTierDto {
+  @ApiProperty({ description: 'Applies when the request is cancelled at least this many hours before the visit', example: 24, minimum: 0 })
+  @IsNumber()
+  @Min(0)
+  @Max(720)
+  minHoursBefore!: number;
+
+  @ApiProperty({ description: 'Percentage of the paid amount refunded to the patient', example: 50, minimum: 0, maximum: 100 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  refundPercent!: number;
+
+  @ApiProperty({ description: 'Percentage of the paid amount the assigned nurse keeps as compensation', example: 40, minimum: 0, maximum: 100 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  nurseCompensationPercent!: number;
+}
+
+export class CreateCancellationPolicyDto {
+  @ApiProperty({ description: 'Name shown to admins', example: 'Standard patient cancellation' })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ description: 'Who cancels the request', enum: [UserRole.PATIENT, UserRole.ADMIN], example: UserRole.PATIENT })
+  @IsIn([UserRole.PATIENT, UserRole.ADMIN], { message: 'Policies apply to cancellations by a patient or an admin' })
+  cancelledBy!: UserRole;
+
+  @ApiPropertyOptional({ description: 'Urgency levels the policy is limited to; leave empty for all', example: ['critical'] })
+  @IsOptional()
+  @IsArray()
+  @IsIn(URGENCY_LEVELS, { each: true })
+  urgencyLevels?: string[];
+
+  @ApiProperty({ description: 'Refund tiers by notice given before the visit', type: [CancellationTierDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => CancellationTierDto)
+  tiers!: CancellationTierDto[];
+
+  @ApiPropertyOptional({ description: 'Whether the policy is applied', example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCancellationPolicyDto {
+  @ApiPropertyOptional({ description: 'Name shown to admins', example: 'Standard patient cancellation' })
+  @IsOptional()
+  @IsString()
+  @MinLength(3)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Urgency levels the policy is limited to; leave empty for all', example: ['critical'] })
+  @IsOptional()
+  @IsArray()
+  @IsIn(URGENCY_LEVELS, { each: true })
+  urgencyLevels?: string[];
+
+  @ApiPropertyOptional({ description: 'Refund tiers by notice given before the visit', type: [CancellationTierDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => CancellationTierDto)
+  tiers?: CancellationTierDto[];
+
+  @ApiPropertyOptional({ description: 'Whether the policy is applied', example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,252 @@
+import {
+  IsString,
+  IsEnum,
+  IsArray,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsMongoId,
+  MinLength,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+  Matches,
+  ValidateIf,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ServiceType } from '../schemas/patient-request.schema';
+import { RecurrenceFrequency } from '../care-plans/recurrence';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class RecurrenceRuleDto {
+  @ApiProperty({
+    description: 'How often visits happen',
+    enum: RecurrenceFrequency,
+    example: RecurrenceFrequency.WEEKDAYS,
+  })
+  @IsEnum(RecurrenceFrequency, { message: 'Frequency must be daily, weekdays or custom' })
+  frequency!: RecurrenceFrequency;
+
+  @ApiPropertyOptional({
+    description: 'RRULE for custom schedules. Supports FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, COUNT and UNTIL.',
+    example: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  })
+  @ValidateIf((o) => o.frequency === RecurrenceFrequency.CUSTOM)
+  @IsString({ message: 'A custom schedule needs an RRULE' })
+  @MaxLength(200)
+  rrule?: string;
+}
+
+export class CreateCarePlanDto {
+  @ApiProperty({ description: 'Title of the care plan', example: 'Daily elderly care for my father' })
+  @IsString()
+  @MinLength(5, { message: 'Title must be at least 5 characters long' })
+  @MaxLength(100, { message: 'Title must not exceed 100 characters' })
+  title!: string;
+
+  @ApiProperty({ description: 'Care needed at every visit', example: 'Help with bathing, meals and medication' })
+  @IsString()
+  @MinLength(10, { message: 'Description must be at least 10 characters long' })
+  @MaxLength(1000, { message: 'Description must not exceed 1000 characters' })
+  description!: string;
+
+  @ApiProperty({ description: 'Type of nursing service required', enum: ServiceType, example: ServiceType.ELDERLY_CARE })
+  @IsEnum(ServiceType, { message: 'Invalid service type' })
+  serviceType!: ServiceType;
+
+  @ApiProperty({ description: 'Recurrence rule', type: RecurrenceRuleDto })
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  recurrence!: RecurrenceRuleDto;
+
+  @ApiProperty({ description: 'First day of the plan (YYYY-MM-DD)', example: '2024-12-01' })
+  @Matches(DATE_PATTERN, { message: 'Start date must be in YYYY-MM-DD format' })
+  startDate!: string;
+
+  @ApiPropertyOptional({ description: 'Last day of the plan (YYYY-MM-DD). Omit for an open-ended plan.', example: '2025-02-28' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'End date must be in YYYY-MM-DD format' })
+  endDate?: string;
+
+  @ApiProperty({ description: 'Local start time of each visit (HH:mm)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'Visit time must be in HH:mm format' })
+  visitTime!: string;
+
+  @ApiPropertyOptional({ description: 'IANA time zone of the visit time', example: 'Africa/Cairo' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiProperty({ description: 'Duration of each visit in hours', example: 3, minimum: 1, maximum: 24 })
+  @IsNumber({}, { message: 'Estimated duration must be a valid number' })
+  @Min(1, { message: 'Estimated duration must be at least 1 hour' })
+  @Max(24, { message: 'Estimated duration cannot exceed 24 hours' })
+  estimatedDuration!: number;
+
+  @ApiProperty({ description: 'Coordinates [longitude, latitude] of the visit location', example: [31.233, 30.033], type: [Number] })
+  @IsArray({ message: 'Coordinates must be an array' })
+  @ArrayMinSize(2, { message: 'Coordinates must contain exactly 2 values [longitude, latitude]' })
+  @ArrayMaxSize(2, { message: 'Coordinates must contain exactly 2 values [longitude, latitude]' })
+  @IsNumber({}, { each: true, message: 'Each coordinate must be a valid number' })
+  coordinates!: [number, number];
+
+  @ApiProperty({ description: 'Address of the visits', example: '123 Main St, Apt 4B, Cairo, Egypt' })
+  @IsString()
+  @MinLength(10, { message: 'Address must be at least 10 characters long' })
+  @MaxLength(255, { message: 'Address must not exceed 255 characters' })
+  address!: string;
+
+  @ApiPropertyOptional({ description: 'Nurse who should be offered every visit first', example: '507f1f77bcf86cd799439011' })
+  @IsOptional()
+  @IsMongoId({ message: 'Preferred nurse must be a valid ID' })
+  preferredNurseId?: string;
+
+  @ApiPropertyOptional({ description: 'Urgency level of the visits', enum: ['low', 'medium', 'high', 'critical'] })
+  @IsOptional()
+  @IsEnum(['low', 'medium', 'high', 'critical'], { message: 'Urgency level must be low, medium, high, or critical' })
+  urgencyLevel?: string;
+
+  @ApiPropertyOptional({ description: 'Special requirements or instructions' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Special requirements must not exceed 500 characters' })
+  specialRequirements?: string;
+
+  @ApiPropertyOptional({ description: 'Budget per visit in local currency', example: 200 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Budget must be a valid number' })
+  @Min(0, { message: 'Budget cannot be negative' })
+  budget?: number;
+
+  @ApiPropertyOptional({ description: 'Contact phone number for the visits' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(15, { message: 'Phone number must not exceed 15 digits' })
+  contactPhone?: string;
+
+  @ApiPropertyOptional({ description: 'Additional notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Notes must not exceed 500 characters' })
+  notes?: string;
+
+  @ApiPropertyOptional({ description: 'How many days ahead visits are created', example: 14, minimum: 1, maximum: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  lookaheadDays?: number;
+}
+
+// Changes only apply to visits that haven't been accepted by a nurse yet
+export class UpdateCarePlanDto {
+  @ApiPropertyOptional({ description: 'Title of the care plan' })
+  @IsOptional()
+  @IsString()
+  @MinLength(5, { message: 'Title must be at least 5 characters long' })
+  @MaxLength(100, { message: 'Title must not exceed 100 characters' })
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Care needed at every visit' })
+  @IsOptional()
+  @IsString()
+  @MinLength(10, { message: 'Description must be at least 10 characters long' })
+  @MaxLength(1000, { message: 'Description must not exceed 1000 characters' })
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Recurrence rule', type: RecurrenceRuleDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  recurrence?: RecurrenceRuleDto;
+
+  @ApiPropertyOptional({ description: 'Last day of the plan (YYYY-MM-DD)' })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'End date must be in YYYY-MM-DD format' })
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Local start time of each visit (HH:mm)' })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'Visit time must be in HH:mm format' })
+  visitTime?: string;
+
+  @ApiPropertyOptional({ description: 'IANA time zone of the visit time' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Duration of each visit in hours', minimum: 1, maximum: 24 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Estimated duration must be a valid number' })
+  @Min(1, { message: 'Estimated duration must be at least 1 hour' })
+  @Max(24, { message: 'Estimated duration cannot exceed 24 hours' })
+  estimatedDuration?: number;
+
+  @ApiPropertyOptional({ description: 'Coordinates [longitude, latitude] of the visit location', type: [Number] })
+  @IsOptional()
+  @IsArray({ message: 'Coordinates must be an array' })
+  @ArrayMinSize(2, { message: 'Coordinates must contain exactly 2 values [longitude, latitude]' })
+  @ArrayMaxSize(2, { message: 'Coordinates must contain exactly 2 values [longitude, latitude]' })
+  @IsNumber({}, { each: true, message: 'Each coordinate must be a valid number' })
+  coordinates?: [number, number];
+
+  @ApiPropertyOptional({ description: 'Address of the visits' })
+  @IsOptional()
+  @IsString()
+  @MinLength(10, { message: 'Address must be at least 10 characters long' })
+  @MaxLength(255, { message: 'Address must not exceed 255 characters' })
+  address?: string;
+
+  @ApiPropertyOptional({ description: 'Nurse who should be offered every visit first' })
+  @IsOptional()
+  @IsMongoId({ message: 'Preferred nurse must be a valid ID' })
+  preferredNurseId?: string;
+
+  @ApiPropertyOptional({ description: 'Urgency level of the visits', enum: ['low', 'medium', 'high', 'critical'] })
+  @IsOptional()
+  @IsEnum(['low', 'medium', 'high', 'critical'], { message: 'Urgency level must be low, medium, high, or critical' })
+  urgencyLevel?: string;
+
+  @ApiPropertyOptional({ description: 'Special requirements or instructions' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Special requirements must not exceed 500 characters' })
+  specialRequirements?: string;
+
+  @ApiPropertyOptional({ description: 'Budget per visit in local currency' })
+  @IsOptional()
+  @IsNumber({}, { message: 'Budget must be a valid number' })
+  @Min(0, { message: 'Budget cannot be negative' })
+  budget?: number;
+
+  @ApiPropertyOptional({ description: 'Contact phone number for the visits' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(15, { message: 'Phone number must not exceed 15 digits' })
+  contactPhone?: string;
+
+  @ApiPropertyOptional({ description: 'Additional notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Notes must not exceed 500 characters' })
+  notes?: string;
+
+  @ApiPropertyOptional({ description: 'How many days ahead visits are created', minimum: 1, maximum: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  lookaheadDays?: number;
+}
+
+export class SkipVisitDto {
+  @ApiProperty({ description: 'Occurrence date to skip (YYYY-MM-DD)', example: '2024-12-25' })
+  @Matches(DATE_PATTERN, { message: 'Date must be in YYYY-MM-DD format' })
+  date!: string;
+}
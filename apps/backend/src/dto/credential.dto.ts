@@ -0,0 +1,46 @@
+import { IsString, IsEnum, IsInt, IsOptional, IsDateString, IsNotEmpty, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CredentialRenewalStatus, CredentialType } from '../schemas/nurse-profile.schema';
+
+// Multipart form fields sent with the renewed document
+export class SubmitCredentialRenewalDto {
+  @ApiProperty({ description: 'Which credential is being renewed', enum: CredentialType })
+  @IsEnum(CredentialType)
+  credential!: CredentialType;
+
+  @ApiProperty({ description: 'Expiry date printed on the renewed document', example: '2027-06-30' })
+  @IsDateString()
+  expirationDate!: string;
+
+  @ApiPropertyOptional({ description: 'New license number, if it changed with the renewal', example: 'RN-123456' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  licenseNumber?: string;
+}
+
+export class RejectCredentialRenewalDto {
+  @ApiProperty({ description: 'Why the renewed document was not accepted', example: 'The document is unreadable' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class CredentialRenewalQueryDto {
+  @ApiPropertyOptional({ description: 'Renewals in this state', enum: CredentialRenewalStatus, default: CredentialRenewalStatus.PENDING })
+  @IsOptional()
+  @IsEnum(CredentialRenewalStatus)
+  status?: CredentialRenewalStatus;
+}
+
+export class CredentialExpiryQueryDto {
+  @ApiPropertyOptional({ description: 'Report credentials expiring within this many days (expired ones are always included)', example: 60, default: 60 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
@@ -0,0 +1,89 @@
+import { IsString, IsEnum, IsInt, IsOptional, IsMongoId, Min, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PayoutMethod } from '../schemas/withdrawal.schema';
+
+export class CreateWithdrawalDto {
+  @ApiProperty({
+    description: 'Amount to withdraw in smallest currency unit (piastres)',
+    example: 50000,
+    minimum: 1
+  })
+  @IsInt()
+  @Min(1)
+  amount!: number;
+
+  @ApiProperty({
+    description: 'Where the money should be sent',
+    enum: PayoutMethod,
+    example: PayoutMethod.BANK_TRANSFER
+  })
+  @IsEnum(PayoutMethod, { message: 'Payout method must be bank_transfer or mobile_wallet' })
+  payoutMethod!: PayoutMethod;
+
+  @ApiProperty({
+    description: 'IBAN / account number, or the mobile wallet phone number',
+    example: 'EG380019000500000000263180002'
+  })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(200)
+  payoutDetails!: string;
+
+  @ApiPropertyOptional({
+    description: 'Note for the finance team',
+    example: 'Please send to my CIB account'
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string;
+}
+
+export class ApproveWithdrawalDto {
+  @ApiPropertyOptional({
+    description: 'Reference of the bank or wallet transfer that paid the withdrawal',
+    example: 'TRX-20240115-0042'
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  payoutReference?: string;
+}
+
+export class RejectWithdrawalDto {
+  @ApiProperty({
+    description: 'Why the withdrawal was rejected, shown to the nurse',
+    example: 'The IBAN does not match the name on the account'
+  })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class CreateBonusDto {
+  @ApiProperty({
+    description: 'Nurse receiving the bonus',
+    example: '507f1f77bcf86cd799439012'
+  })
+  @IsMongoId()
+  nurseId!: string;
+
+  @ApiProperty({
+    description: 'Bonus amount in smallest currency unit (piastres)',
+    example: 20000,
+    minimum: 1
+  })
+  @IsInt()
+  @Min(1)
+  amount!: number;
+
+  @ApiProperty({
+    description: 'Reason for the bonus, shown in the nurse ledger',
+    example: 'Top-rated nurse of the month'
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(200)
+  description!: string;
+}
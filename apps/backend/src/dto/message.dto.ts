@@ -0,0 +1,115 @@
+import {
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsObject,
+  IsBoolean,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MessageType } from '../schemas/message.schema';
+
+export class MessageLocationDto {
+  @ApiProperty({ description: 'Latitude of the shared location', example: 30.033333 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude of the shared location', example: 31.233334 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude!: number;
+
+  @ApiPropertyOptional({ description: 'Human readable address', example: '15 Tahrir St, Cairo' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  address?: string;
+}
+
+export class SendMessageDto {
+  @ApiPropertyOptional({
+    description: 'Type of message',
+    enum: MessageType,
+    default: MessageType.TEXT,
+  })
+  @IsOptional()
+  @IsEnum(MessageType, { message: 'Invalid message type' })
+  type?: MessageType;
+
+  @ApiPropertyOptional({
+    description: 'Message text (required for text messages, optional caption otherwise)',
+    example: 'I will arrive around 10 AM.',
+    maxLength: 2000,
+  })
+  @ValidateIf(o => !o.type || o.type === MessageType.TEXT)
+  @IsString()
+  @MaxLength(2000, { message: 'Message must not exceed 2000 characters' })
+  content?: string;
+
+  @ApiPropertyOptional({
+    description: 'Uploaded attachment URL (required for image and file messages)',
+    example: '/uploads/request-attachments/attachments-1700000000000-123456789.jpg',
+  })
+  @ValidateIf(o => o.type === MessageType.IMAGE || o.type === MessageType.FILE)
+  @IsString()
+  attachmentUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attachment metadata',
+    example: { filename: 'lab-results.pdf', size: 1024000, mimeType: 'application/pdf' },
+  })
+  @IsOptional()
+  @IsObject()
+  attachmentMetadata?: {
+    filename: string;
+    size: number;
+    mimeType: string;
+  };
+
+  @ApiPropertyOptional({
+    description: 'Shared location (required for location messages)',
+    type: MessageLocationDto,
+  })
+  @ValidateIf(o => o.type === MessageType.LOCATION)
+  @ValidateNested()
+  @Type(() => MessageLocationDto)
+  location?: MessageLocationDto;
+}
+
+export class GetMessagesQueryDto {
+  @ApiPropertyOptional({
+    description: 'Return messages created before this timestamp (cursor for older pages)',
+    example: '2024-01-15T10:30:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  before?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of messages to return',
+    example: 30,
+    default: 30,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ArchiveConversationDto {
+  @ApiProperty({ description: 'Whether the conversation should be archived', example: true })
+  @IsBoolean()
+  archived!: boolean;
+}
@@ -0,0 +1,38 @@
+import { IsString, IsBoolean, IsEnum, IsOptional, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ModerationLanguage, ModerationRuleKind } from '../schemas/moderation-rule.schema';
+
+export class CreateModerationRuleDto {
+  @ApiProperty({ description: 'Blocklist phrases are refused; emergency phrases get the emergency numbers', enum: ModerationRuleKind })
+  @IsEnum(ModerationRuleKind)
+  kind!: ModerationRuleKind;
+
+  @ApiProperty({ description: 'Word or phrase to match, in any case', example: 'نزيف من الأذن' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  phrase!: string;
+
+  @ApiProperty({ description: 'Language of the phrase', enum: ModerationLanguage })
+  @IsEnum(ModerationLanguage)
+  language!: ModerationLanguage;
+}
+
+export class UpdateModerationRuleDto {
+  @ApiPropertyOptional({ description: 'Whether the phrase is matched', example: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ReviewModerationFlagDto {
+  @ApiPropertyOptional({
+    description: 'Outcome of the review',
+    example: 'Patient was asking about a prescription; called them back',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Review note must not exceed 500 characters' })
+  note?: string;
+}
@@ -0,0 +1,85 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsObject, IsOptional, IsString, Matches, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class QuietHoursDto {
+  @ApiPropertyOptional({
+    description: 'Whether quiet hours are active',
+    example: true
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Start of quiet hours (24h, HH:mm)',
+    example: '22:00'
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'start must be a time in HH:mm format' })
+  start?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of quiet hours (24h, HH:mm). May be earlier than start to span midnight.',
+    example: '07:00'
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'end must be a time in HH:mm format' })
+  end?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone the quiet hours are expressed in',
+    example: 'Africa/Cairo'
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({
+    description: 'Master switch for email notifications',
+    example: true
+  })
+  @IsOptional()
+  @IsBoolean()
+  emailNotifications?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Master switch for in-app notifications',
+    example: true
+  })
+  @IsOptional()
+  @IsBoolean()
+  pushNotifications?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Master switch for SMS notifications',
+    example: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  smsNotifications?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Per notification type settings. A boolean toggles every channel for that type, an object toggles channels individually.',
+    example: {
+      request_accepted: { inApp: true, email: true, sms: true },
+      review_received: false
+    }
+  })
+  @IsOptional()
+  @IsObject()
+  notificationTypes?: Record<string, boolean | { inApp?: boolean; email?: boolean; sms?: boolean }>;
+
+  @ApiPropertyOptional({
+    description: 'Quiet hours during which email and SMS are held back',
+    type: QuietHoursDto
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto;
+}
@@ -1,6 +1,9 @@
-import { IsString, IsEmail, IsOptional, IsDateString, IsArray, IsBoolean, IsEnum } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsEmail, IsOptional, IsDateString, IsArray, IsBoolean, IsEnum, IsIn, IsNotEmpty, MaxLength, ArrayMaxSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ProfileCompletionStatus } from '../schemas/nurse-profile.schema';
+import { REVIEWABLE_PROFILE_FIELDS } from '../schemas/profile-submission.schema';
+import type { ReviewableProfileField } from '../schemas/profile-submission.schema';
 
 // Step 1: Basic Information DTO
 export class Step1BasicInfoDto {
@@ -227,3 +230,35 @@ export class AdminReviewDto {
   @IsString()
   rejectionReason?: string;
 }
+
+// Feedback on one field or document, shown to the nurse as something to fix
+export class SubmissionFeedbackDto {
+  @ApiProperty({ description: 'Flagged profile field or document', enum: REVIEWABLE_PROFILE_FIELDS, example: 'licenseDocument' })
+  @IsIn(REVIEWABLE_PROFILE_FIELDS)
+  field!: ReviewableProfileField;
+
+  @ApiProperty({ description: 'What the nurse needs to fix', example: 'License scan is unreadable' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  message!: string;
+}
+
+export class RejectNurseDto {
+  @ApiPropertyOptional({ description: 'Overall reason, sent to the nurse', example: 'Some documents need to be re-uploaded' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  rejectionReason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Per-field feedback. When given, the nurse can fix just these items and resubmit; without it the rejection is final.',
+    type: [SubmissionFeedbackDto]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(REVIEWABLE_PROFILE_FIELDS.length)
+  @ValidateNested({ each: true })
+  @Type(() => SubmissionFeedbackDto)
+  feedback?: SubmissionFeedbackDto[];
+}
@@ -1,6 +1,6 @@
-import { IsString, IsNumber, IsEnum, IsOptional, IsObject, Min, IsUUID } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
-import { PaymentMethod, PaymentType } from '../schemas/payment.schema';
+import { IsString, IsNumber, IsEnum, IsOptional, IsObject, Min, IsUUID, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod, PaymentType, DisputeResolution, PaymentProviderName } from '../schemas/payment.schema';
 
 export class CreatePaymentIntentDto {
   @ApiProperty({
@@ -36,6 +36,15 @@ export class CreatePaymentIntentDto {
   @IsEnum(PaymentMethod)
   paymentMethod!: PaymentMethod;
 
+  @ApiPropertyOptional({
+    description: 'Payment provider to use (defaults to the one chosen for the request)',
+    enum: PaymentProviderName,
+    example: PaymentProviderName.STRIPE
+  })
+  @IsEnum(PaymentProviderName)
+  @IsOptional()
+  provider?: PaymentProviderName;
+
   @ApiProperty({
     description: 'Payment description',
     example: 'Payment for wound care service'
@@ -69,6 +78,17 @@ export class ConfirmPaymentDto {
   requestId!: string;
 }
 
+export class AuthorizePaymentDto {
+  @ApiPropertyOptional({
+    description: 'Switch the request to this payment provider before authorizing',
+    enum: PaymentProviderName,
+    example: PaymentProviderName.WALLET
+  })
+  @IsEnum(PaymentProviderName)
+  @IsOptional()
+  provider?: PaymentProviderName;
+}
+
 export class RefundPaymentDto {
   @ApiProperty({
     description: 'Reason for refund',
@@ -88,6 +108,66 @@ export class RefundPaymentDto {
   amount?: number;
 }
 
+export class OpenDisputeDto {
+  @ApiProperty({
+    description: 'What went wrong with the visit',
+    example: 'The nurse left after 20 minutes instead of the agreed 2 hours'
+  })
+  @IsString()
+  @MinLength(10, { message: 'Please describe the problem in at least 10 characters' })
+  @MaxLength(1000)
+  reason!: string;
+}
+
+export class ResolveDisputeDto {
+  @ApiProperty({
+    description: 'Capture the full hold, capture part of it, or release it back to the patient',
+    enum: DisputeResolution,
+    example: DisputeResolution.PARTIAL_CAPTURE
+  })
+  @IsEnum(DisputeResolution)
+  resolution!: DisputeResolution;
+
+  @ApiPropertyOptional({
+    description: 'Amount to capture in smallest currency unit, required for partial capture',
+    example: 7500,
+    minimum: 1
+  })
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Note explaining the decision, shown to both parties',
+    example: 'Visit was cut short; nurse is paid for the time spent'
+  })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
+
+export class CreditWalletDto {
+  @ApiProperty({
+    description: 'Amount to add in smallest currency unit',
+    example: 50000,
+    minimum: 1
+  })
+  @IsNumber()
+  @Min(1)
+  amount!: number;
+
+  @ApiProperty({
+    description: 'Why the wallet is credited, shown to the patient',
+    example: 'Top-up paid at the front desk'
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(500)
+  description!: string;
+}
+
 export class PaymentWebhookDto {
   @ApiProperty({
     description: 'Stripe event type',
@@ -1,6 +1,7 @@
 import {
   IsString,
   IsEnum,
+  IsBoolean,
   IsArray,
   IsNumber,
   IsOptional,
@@ -12,12 +13,14 @@ import {
   Min,
   Max,
   IsPhoneNumber,
+  IsMongoId,
   Matches,
   ValidateIf
 } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ServiceType, RequestStatus } from '../schemas/patient-request.schema';
+import { PaymentProviderName } from '../schemas/payment.schema';
 import { SpecializationType } from '../schemas/nurse-profile.schema';
 
 export class CreateRequestDto {
@@ -128,6 +131,28 @@ export class CreateRequestDto {
   @MaxLength(500, { message: 'Special requirements must not exceed 500 characters' })
   specialRequirements?: string;
 
+  @ApiPropertyOptional({
+    description: 'Specialization the nurse should have',
+    enum: SpecializationType,
+    example: SpecializationType.SURGICAL,
+  })
+  @IsOptional()
+  @IsEnum(SpecializationType, { message: 'Invalid specialization type' })
+  requiredSpecialization?: SpecializationType;
+
+  @ApiPropertyOptional({
+    description: 'Languages the patient would like the nurse to speak',
+    example: ['Arabic', 'English'],
+    type: [String],
+    maxItems: 5,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Preferred languages must be an array' })
+  @ArrayMaxSize(5, { message: 'At most 5 preferred languages can be given' })
+  @IsString({ each: true })
+  @MaxLength(30, { each: true, message: 'Each language must not exceed 30 characters' })
+  preferredLanguages?: string[];
+
   @ApiPropertyOptional({
     description: 'Budget for the service in local currency',
     example: 200,
@@ -187,6 +212,15 @@ export class CreateRequestDto {
     url: string;
     size: number;
   }>;
+
+  @ApiPropertyOptional({
+    description: 'How the patient will pay for the visit',
+    enum: PaymentProviderName,
+    example: PaymentProviderName.CASH,
+  })
+  @IsOptional()
+  @IsEnum(PaymentProviderName, { message: 'Invalid payment provider' })
+  paymentProvider?: PaymentProviderName;
 }
 
 export class UpdateRequestStatusDto {
@@ -209,6 +243,61 @@ export class UpdateRequestStatusDto {
   cancellationReason?: string;
 }
 
+export class VisitLocationDto {
+  @ApiProperty({
+    description: 'Current latitude of the nurse',
+    example: 30.033,
+    minimum: -90,
+    maximum: 90,
+  })
+  @IsNumber({}, { message: 'Latitude must be a valid number' })
+  @Min(-90, { message: 'Latitude must be between -90 and 90' })
+  @Max(90, { message: 'Latitude must be between -90 and 90' })
+  latitude!: number;
+
+  @ApiProperty({
+    description: 'Current longitude of the nurse',
+    example: 31.233,
+    minimum: -180,
+    maximum: 180,
+  })
+  @IsNumber({}, { message: 'Longitude must be a valid number' })
+  @Min(-180, { message: 'Longitude must be between -180 and 180' })
+  @Max(180, { message: 'Longitude must be between -180 and 180' })
+  longitude!: number;
+
+  @ApiPropertyOptional({
+    description: 'GPS accuracy reported by the device, in meters',
+    example: 12,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Accuracy must be a valid number' })
+  @Min(0, { message: 'Accuracy cannot be negative' })
+  accuracy?: number;
+}
+
+export class CheckOutDto extends VisitLocationDto {
+  @ApiPropertyOptional({
+    description: 'Set when the nurse collected a cash payment at the visit',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  cashCollected?: boolean;
+}
+
+export class ReviewVisitFlagsDto {
+  @ApiPropertyOptional({
+    description: 'Outcome of the review',
+    example: 'Nurse called ahead; traffic on the ring road',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Review note must not exceed 500 characters' })
+  note?: string;
+}
+
 export class UpdateRequestDto {
   @ApiPropertyOptional({
     description: 'Request title',
@@ -307,6 +396,19 @@ export class UpdateRequestDto {
   @MaxLength(500, { message: 'Special requirements must not exceed 500 characters' })
   specialRequirements?: string;
 
+  @ApiPropertyOptional({
+    description: 'Languages the patient would like the nurse to speak',
+    example: ['Arabic', 'English'],
+    type: [String],
+    maxItems: 5,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Preferred languages must be an array' })
+  @ArrayMaxSize(5, { message: 'At most 5 preferred languages can be given' })
+  @IsString({ each: true })
+  @MaxLength(30, { each: true, message: 'Each language must not exceed 30 characters' })
+  preferredLanguages?: string[];
+
   @ApiPropertyOptional({
     description: 'Budget for the service in EGP',
     example: 200,
@@ -393,6 +495,56 @@ export class GetNearbyNursesDto {
   @IsArray()
   @IsEnum(SpecializationType, { each: true, message: 'Invalid specialization type' })
   specializations?: SpecializationType[];
+
+  @ApiPropertyOptional({
+    description: 'Only return nurses free at this time (ISO 8601 format)',
+    example: '2024-12-25T10:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Invalid date format. Use ISO 8601 format (YYYY-MM-DDTHH:mm:ssZ)' })
+  availableAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Length of the visit in hours, used with availableAt',
+    example: 2,
+    default: 1,
+    minimum: 1,
+    maximum: 24,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value ? parseFloat(value) : undefined)
+  @IsNumber({}, { message: 'Duration must be a valid number' })
+  @Min(1, { message: 'Duration must be at least 1 hour' })
+  @Max(24, { message: 'Duration cannot exceed 24 hours' })
+  duration?: number;
+}
+
+export class InviteNursesDto {
+  @ApiPropertyOptional({
+    description: 'Nurses to invite, picked from the request matches. When omitted, the best matches are invited',
+    example: ['507f1f77bcf86cd799439011'],
+    type: [String],
+    maxItems: 10,
+  })
+  @IsOptional()
+  @IsArray({ message: 'Nurse IDs must be an array' })
+  @ArrayMinSize(1, { message: 'Select at least one nurse to invite' })
+  @ArrayMaxSize(10, { message: 'At most 10 nurses can be invited at once' })
+  @IsMongoId({ each: true, message: 'Each nurse ID must be a valid ID' })
+  nurseIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'How many of the best matches to invite when no nurses are picked',
+    example: 5,
+    default: 5,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Limit must be a valid number' })
+  @Min(1, { message: 'Invite at least one nurse' })
+  @Max(10, { message: 'At most 10 nurses can be invited at once' })
+  limit?: number;
 }
 
 export class RequestResponseDto {
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, IsEmail, IsEnum, IsNumber, IsArray, IsBoolean, Matches } from 'class-validator';
+import { IsOptional, IsString, IsEmail, IsEnum, IsArray, IsBoolean, Matches, IsNotEmpty, MaxLength, IsInt, Min, Max } from 'class-validator';
 import { UserRole, UserStatus } from '../schemas/user.schema';
 
 export class UserListDto {
@@ -294,13 +294,18 @@ export class SuspendUserDto {
     example: 'Policy violation'
   })
   @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
   reason: string;
 
   @ApiProperty({
-    description: 'Suspension duration in days',
-    example: 30
+    description: 'Suspension duration in days. Omit for an indefinite suspension.',
+    example: 30,
+    required: false
   })
   @IsOptional()
-  @IsNumber()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
   duration?: number;
 }
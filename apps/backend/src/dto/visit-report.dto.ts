@@ -0,0 +1,143 @@
+import {
+  IsString,
+  IsNumber,
+  IsArray,
+  IsOptional,
+  IsMongoId,
+  IsDateString,
+  MinLength,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Ranges are deliberately wide: they catch typos, not clinical abnormalities
+export class VitalsDto {
+  @ApiPropertyOptional({ description: 'Systolic blood pressure (mmHg)', example: 120 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Systolic pressure must be a number' })
+  @Min(40)
+  @Max(300)
+  systolic?: number;
+
+  @ApiPropertyOptional({ description: 'Diastolic blood pressure (mmHg)', example: 80 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Diastolic pressure must be a number' })
+  @Min(20)
+  @Max(200)
+  diastolic?: number;
+
+  @ApiPropertyOptional({ description: 'Heart rate (beats per minute)', example: 72 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Heart rate must be a number' })
+  @Min(20)
+  @Max(250)
+  heartRate?: number;
+
+  @ApiPropertyOptional({ description: 'Body temperature (°C)', example: 36.8 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Temperature must be a number' })
+  @Min(30)
+  @Max(45)
+  temperature?: number;
+
+  @ApiPropertyOptional({ description: 'Oxygen saturation (%)', example: 98 })
+  @IsOptional()
+  @IsNumber({}, { message: 'SpO2 must be a number' })
+  @Min(50)
+  @Max(100)
+  spo2?: number;
+
+  @ApiPropertyOptional({ description: 'Blood glucose (mg/dL)', example: 110 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Glucose must be a number' })
+  @Min(20)
+  @Max(800)
+  glucose?: number;
+}
+
+export class MedicationGivenDto {
+  @ApiProperty({ description: 'Medication name', example: 'Paracetamol' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ description: 'Dose with unit', example: '500 mg' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  dose!: string;
+
+  @ApiPropertyOptional({ description: 'Route of administration', example: 'oral' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  route?: string;
+
+  @ApiProperty({ description: 'When the dose was given (ISO 8601)', example: '2024-12-25T10:30:00Z' })
+  @IsDateString({}, { message: 'Please provide a valid date in ISO 8601 format' })
+  givenAt!: string;
+}
+
+export class CreateVisitReportDto {
+  @ApiProperty({ description: 'Request (visit) the report belongs to', example: '507f1f77bcf86cd799439011' })
+  @IsMongoId({ message: 'Invalid request ID' })
+  requestId!: string;
+
+  @ApiPropertyOptional({ description: 'When the observations were taken, defaults to now', example: '2024-12-25T10:00:00Z' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Please provide a valid date in ISO 8601 format' })
+  recordedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Vital signs', type: VitalsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VitalsDto)
+  vitals?: VitalsDto;
+
+  @ApiPropertyOptional({ description: 'Medications given during the visit', type: [MedicationGivenDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => MedicationGivenDto)
+  medications?: MedicationGivenDto[];
+
+  @ApiPropertyOptional({ description: 'Free-text clinical notes', example: 'Dressing changed, wound edges healing well.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000, { message: 'Notes must not exceed 5000 characters' })
+  notes?: string;
+}
+
+export class UpdateVisitReportDto {
+  @ApiPropertyOptional({ description: 'When the observations were taken' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Please provide a valid date in ISO 8601 format' })
+  recordedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Vital signs', type: VitalsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VitalsDto)
+  vitals?: VitalsDto;
+
+  @ApiPropertyOptional({ description: 'Medications given during the visit', type: [MedicationGivenDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => MedicationGivenDto)
+  medications?: MedicationGivenDto[];
+
+  @ApiPropertyOptional({ description: 'Free-text clinical notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000, { message: 'Notes must not exceed 5000 characters' })
+  notes?: string;
+}
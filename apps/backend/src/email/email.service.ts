@@ -11,6 +11,14 @@ export class EmailService {
     private readonly configService: ConfigService,
   ) {}
 
+  // Connects and authenticates against the SMTP server without sending anything
+  async checkHealth(): Promise<void> {
+    const verified = await this.mailerService.verifyAllTransporters();
+    if (!verified) {
+      throw new Error('SMTP transport could not be verified');
+    }
+  }
+
   async sendVerificationEmail(email: string, name: string, token: string): Promise<void> {
     const frontendUrl = this.configService.get<string>('FRONTEND_URL');
     const verificationUrl = `${frontendUrl}/auth/verify-email?token=${token}`;
@@ -35,6 +43,31 @@ export class EmailService {
     }
   }
 
+  async sendPasswordResetEmail(email: string, name: string, token: string, expiresInMinutes: number): Promise<void> {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+    const resetUrl = `${frontendUrl}/auth/reset-password?token=${token}`;
+
+    try {
+      await this.mailerService.sendMail({
+        to: email,
+        subject: 'Reset Your Password - Nurse Platform',
+        template: 'password-reset',
+        context: {
+          name,
+          email,
+          resetUrl,
+          expiresInMinutes,
+          frontendUrl,
+        },
+      });
+
+      this.logger.log(`Password reset email sent to ${email}`);
+    } catch (error) {
+      this.logger.error(`Failed to send password reset email to ${email}:`, error);
+      throw new Error('Failed to send password reset email');
+    }
+  }
+
   async sendWelcomeEmail(email: string, name: string): Promise<void> {
     try {
       await this.mailerService.sendMail({
@@ -96,4 +129,67 @@ export class EmailService {
       throw new Error('Failed to send rejection email');
     }
   }
+
+  async sendPaymentReceiptEmail(
+    email: string,
+    name: string,
+    receipt: { requestId: string; requestTitle: string; amount: number; currency: string; paidAt: Date; receiptUrl?: string; invoiceNumber?: string },
+    attachments: Array<{ filename: string; content: Buffer }> = [],
+  ): Promise<void> {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+
+    try {
+      await this.mailerService.sendMail({
+        to: email,
+        subject: 'Payment Receipt - Nurse Platform',
+        template: 'payment-receipt',
+        context: {
+          name,
+          email,
+          requestTitle: receipt.requestTitle,
+          amount: (receipt.amount / 100).toFixed(2),
+          currency: receipt.currency.toUpperCase(),
+          paidAt: receipt.paidAt.toUTCString(),
+          receiptUrl: receipt.receiptUrl || '',
+          invoiceNumber: receipt.invoiceNumber || '',
+          requestUrl: `${frontendUrl}/requests/${receipt.requestId}`,
+        },
+        attachments,
+      });
+
+      this.logger.log(`Payment receipt sent to ${email}`);
+    } catch (error) {
+      this.logger.error(`Failed to send payment receipt to ${email}:`, error);
+      throw new Error('Failed to send payment receipt');
+    }
+  }
+
+  async sendNotificationEmail(
+    email: string,
+    name: string,
+    notification: { title: string; message: string; actionUrl?: string },
+  ): Promise<void> {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+
+    try {
+      await this.mailerService.sendMail({
+        to: email,
+        subject: `${notification.title} - Nurse Platform`,
+        template: 'notification',
+        context: {
+          name,
+          email,
+          title: notification.title,
+          message: notification.message,
+          actionUrl: notification.actionUrl ? `${frontendUrl}${notification.actionUrl}` : '',
+          preferencesUrl: `${frontendUrl}/settings`,
+        },
+      });
+
+      this.logger.log(`Notification email "${notification.title}" sent to ${email}`);
+    } catch (error) {
+      this.logger.error(`Failed to send notification email to ${email}:`, error);
+      throw new Error('Failed to send notification email');
+    }
+  }
 }
@@ -0,0 +1,63 @@
+import { Controller, Get, Headers, Res, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { HealthService } from './health.service';
+import { MetricsService } from './metrics.service';
+
+// Unauthenticated probes for the orchestrator and the metrics scraper
+@ApiTags('Health')
+@Controller()
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    private readonly metricsService: MetricsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('health')
+  @ApiOperation({
+    summary: 'Liveness probe',
+    description: 'Answers as long as the process can handle requests'
+  })
+  @ApiResponse({ status: 200, description: 'The API process is alive' })
+  getLiveness() {
+    return {
+      status: 'ok',
+      uptime: Math.round(process.uptime()),
+    };
+  }
+
+  @Get('health/ready')
+  @ApiOperation({
+    summary: 'Readiness probe',
+    description: 'Pings MongoDB; fails while the API cannot serve requests'
+  })
+  @ApiResponse({ status: 200, description: 'Ready to serve traffic' })
+  @ApiResponse({ status: 503, description: 'A critical dependency is down' })
+  async getReadiness(@Res({ passthrough: true }) res: Response) {
+    const report = await this.healthService.checkReadiness();
+    if (report.status === 'unhealthy') {
+      res.status(503);
+    }
+    return report;
+  }
+
+  @Get('metrics')
+  @ApiOperation({
+    summary: 'Prometheus metrics',
+    description: 'Request latency histograms, status counts, process and dependency health gauges'
+  })
+  @ApiHeader({ name: 'Authorization', required: false, description: 'Bearer METRICS_TOKEN, when one is configured' })
+  @ApiResponse({ status: 200, description: 'Metrics in the Prometheus text format' })
+  @ApiResponse({ status: 401, description: 'Missing or wrong metrics token' })
+  getMetrics(@Headers('authorization') authorization: string | undefined, @Res() res: Response) {
+    const token = this.configService.get<string>('METRICS_TOKEN');
+    if (token && authorization !== `Bearer ${token}`) {
+      throw new UnauthorizedException('Invalid metrics token');
+    }
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.end(this.metricsService.renderPrometheus(this.healthService.getHealthGauges()));
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { MetricsService } from './metrics.service';
+import { EmailModule } from '../email/email.module';
+import { AiChatModule } from '../ai-chat/ai-chat.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    EmailModule,
+    AiChatModule,
+    PaymentsModule,
+  ],
+  controllers: [HealthController],
+  providers: [HealthService, MetricsService],
+  exports: [HealthService, MetricsService],
+})
+export class HealthModule {}
@@ -0,0 +1,132 @@
+import { Test } from '@nestjs/testing';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HealthService } from './health.service';
+import { EmailService } from '../email/email.service';
+import { AiChatService } from '../ai-chat/ai-chat.service';
+import { PAYMENT_PROVIDERS } from '../payments/providers/payment-provider.interface';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  let connection: { readyState: number; host: string; name: string; db: any };
+  let config: Record<string, number>;
+  let ping: jest.Mock;
+  let emailService: { checkHealth: jest.Mock };
+  let stripe: { name: string; isEnabled: jest.Mock; checkHealth: jest.Mock };
+  let workDir: string;
+
+  const check = (report: { checks: { name: string }[] }, name: string) =>
+    report.checks.find(result => result.name === name);
+
+  beforeAll(() => {
+    // The disk check looks at the uploads folder of the working directory
+    workDir = mkdtempSync(join(tmpdir(), 'health-'));
+    mkdirSync(join(workDir, 'uploads'));
+  });
+
+  afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+  beforeEach(async () => {
+    jest.spyOn(process, 'cwd').mockReturnValue(workDir);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    ping = jest.fn().mockResolvedValue({ ok: 1 });
+    connection = { readyState: 1, host: 'localhost', name: 'nurse-platform', db: { admin: () => ({ ping }) } };
+    config = { HEALTH_MIN_FREE_DISK_MB: 0, HEALTH_CHECK_TIMEOUT_MS: 50 };
+    emailService = { checkHealth: jest.fn().mockResolvedValue(undefined) };
+    stripe = { name: 'stripe', isEnabled: jest.fn().mockReturnValue(true), checkHealth: jest.fn().mockResolvedValue(undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        { provide: getConnectionToken(), useValue: connection },
+        { provide: PAYMENT_PROVIDERS, useValue: [stripe, { name: 'cash', isEnabled: () => true }] },
+        { provide: ConfigService, useValue: { get: (key: string, fallback: number) => config[key] ?? fallback } },
+        { provide: EmailService, useValue: emailService },
+        { provide: AiChatService, useValue: { getProvider: () => ({ name: 'mock' }) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HealthService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports healthy when every dependency answers', async () => {
+    const report = await service.checkAll();
+
+    expect(report.status).toBe('healthy');
+    expect(report.checks.map(result => result.name)).toEqual(['database', 'disk', 'email', 'payments:stripe', 'ai:mock']);
+    expect(ping).toHaveBeenCalled();
+  });
+
+  it('is not ready without the database', async () => {
+    connection.readyState = 0;
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('unhealthy');
+    expect(check(report, 'database')).toEqual(expect.objectContaining({ status: 'down', error: 'MongoDB is disconnected' }));
+  });
+
+  it('only degrades the report when a non-critical dependency is down', async () => {
+    emailService.checkHealth.mockRejectedValue(new Error('SMTP login failed'));
+
+    const report = await service.checkAll();
+
+    expect(report.status).toBe('degraded');
+    expect(check(report, 'email')).toEqual(expect.objectContaining({ status: 'down', critical: false, error: 'SMTP login failed' }));
+  });
+
+  it('gives up on checks that hang', async () => {
+    stripe.checkHealth.mockReturnValue(new Promise(() => undefined));
+
+    const report = await service.checkAll();
+
+    expect(check(report, 'payments:stripe')).toEqual(expect.objectContaining({ status: 'down', error: 'Timed out after 50ms' }));
+  });
+
+  it('flags the uploads disk when it runs low on space', async () => {
+    config.HEALTH_MIN_FREE_DISK_MB = Number.MAX_SAFE_INTEGER;
+
+    const report = await service.checkAll();
+
+    expect(check(report, 'disk')).toEqual(expect.objectContaining({
+      status: 'down',
+      details: expect.objectContaining({ path: join(workDir, 'uploads') }),
+    }));
+  });
+
+  it('does not call providers that are switched off', async () => {
+    stripe.isEnabled.mockReturnValue(false);
+
+    const report = await service.checkAll();
+
+    expect(check(report, 'payments:stripe')!).toEqual(expect.objectContaining({ status: 'disabled' }));
+    expect(stripe.checkHealth).not.toHaveBeenCalled();
+  });
+
+  it('reuses a recent report unless forced', async () => {
+    await service.checkAll();
+    await service.checkAll();
+    expect(emailService.checkHealth).toHaveBeenCalledTimes(1);
+
+    await service.checkAll(true);
+    expect(emailService.checkHealth).toHaveBeenCalledTimes(2);
+  });
+
+  it('exposes the last report as gauges, leaving out disabled checks', async () => {
+    expect(service.getHealthGauges()).toEqual([]);
+    emailService.checkHealth.mockRejectedValue(new Error('SMTP login failed'));
+
+    await service.checkAll();
+    const [up] = service.getHealthGauges();
+
+    expect(up.samples).toContainEqual({ labels: { check: 'email' }, value: 0 });
+    expect(up.samples).toContainEqual({ labels: { check: 'database' }, value: 1 });
+    expect(up.samples.some(sample => sample.labels?.check === 'ai:mock')).toBe(false);
+  });
+});
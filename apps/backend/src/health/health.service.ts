@@ -0,0 +1,183 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
+import { statfs } from 'fs/promises';
+import { join } from 'path';
+import { EmailService } from '../email/email.service';
+import { AiChatService } from '../ai-chat/ai-chat.service';
+import { PAYMENT_PROVIDERS, PaymentProvider } from '../payments/providers/payment-provider.interface';
+import { MetricGauge } from './metrics.service';
+
+export type HealthCheckStatus = 'up' | 'down' | 'disabled';
+
+export interface HealthCheckResult {
+  name: string;
+  status: HealthCheckStatus;
+  // Readiness fails when a critical check is down; other checks only degrade the report
+  critical: boolean;
+  responseTime?: number;
+  details?: Record<string, any>;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  checkedAt: Date;
+  checks: HealthCheckResult[];
+}
+
+// Full reports call Stripe, OpenAI and SMTP, so dashboard refreshes reuse a recent one
+const REPORT_CACHE_MS = 30 * 1000;
+
+const MONGO_STATES = ['disconnected', 'connected', 'connecting', 'disconnecting'];
+
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private lastReport?: HealthReport;
+
+  constructor(
+    @InjectConnection() private connection: Connection,
+    @Inject(PAYMENT_PROVIDERS) private paymentProviders: PaymentProvider[],
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private aiChatService: AiChatService,
+  ) {}
+
+  /**
+   * Readiness only depends on what the API cannot serve requests without.
+   */
+  async checkReadiness(): Promise<HealthReport> {
+    const checks = [await this.checkDatabase()];
+    return this.toReport(checks);
+  }
+
+  /**
+   * Every dependency, for the admin dashboard and the metrics endpoint.
+   */
+  async checkAll(force = false): Promise<HealthReport> {
+    if (!force && this.lastReport && Date.now() - this.lastReport.checkedAt.getTime() < REPORT_CACHE_MS) {
+      return this.lastReport;
+    }
+
+    const llm = this.aiChatService.getProvider();
+    const checks = await Promise.all([
+      this.checkDatabase(),
+      this.checkDisk(),
+      this.run('email', false, () => this.emailService.checkHealth()),
+      ...this.paymentProviders
+        .filter(provider => provider.checkHealth)
+        .map(provider => provider.isEnabled()
+          ? this.run(`payments:${provider.name}`, false, () => provider.checkHealth!())
+          : this.disabled(`payments:${provider.name}`)),
+      // The mock provider has nothing remote to check
+      llm.checkHealth
+        ? this.run(`ai:${llm.name}`, false, () => llm.checkHealth!())
+        : this.disabled(`ai:${llm.name}`),
+    ]);
+
+    this.lastReport = this.toReport(checks);
+    return this.lastReport;
+  }
+
+  // Results of the last full check as gauges; scrapes never trigger outbound calls
+  getHealthGauges(): MetricGauge[] {
+    if (!this.lastReport) {
+      return [];
+    }
+
+    const checks = this.lastReport.checks.filter(check => check.status !== 'disabled');
+    return [
+      {
+        name: 'health_check_up',
+        help: 'Whether the dependency passed its last health check.',
+        samples: checks.map(check => ({ labels: { check: check.name }, value: check.status === 'up' ? 1 : 0 })),
+      },
+      {
+        name: 'health_check_duration_seconds',
+        help: 'How long the last health check of the dependency took.',
+        samples: checks
+          .filter(check => check.responseTime !== undefined)
+          .map(check => ({ labels: { check: check.name }, value: check.responseTime! / 1000 })),
+      },
+    ];
+  }
+
+  private checkDatabase(): Promise<HealthCheckResult> {
+    return this.run('database', true, async () => {
+      if (this.connection.readyState !== 1 || !this.connection.db) {
+        throw new Error(`MongoDB is ${MONGO_STATES[this.connection.readyState] || 'unavailable'}`);
+      }
+      await this.connection.db.admin().ping();
+      return { host: this.connection.host, name: this.connection.name };
+    });
+  }
+
+  private checkDisk(): Promise<HealthCheckResult> {
+    return this.run('disk', false, async () => {
+      const uploadsPath = join(process.cwd(), 'uploads');
+      const stats = await statfs(uploadsPath);
+      const freeMb = Math.floor((stats.bavail * stats.bsize) / 1024 / 1024);
+      const totalMb = Math.floor((stats.blocks * stats.bsize) / 1024 / 1024);
+      const minFreeMb = this.configService.get<number>('HEALTH_MIN_FREE_DISK_MB', 1024);
+
+      const details = {
+        path: uploadsPath,
+        freeMb,
+        totalMb,
+        freePercent: totalMb ? Math.round((freeMb / totalMb) * 1000) / 10 : 0,
+      };
+      if (freeMb < minFreeMb) {
+        throw Object.assign(new Error(`Only ${freeMb} MB free for uploads`), { details });
+      }
+      return details;
+    });
+  }
+
+  private async run(
+    name: string,
+    critical: boolean,
+    check: () => Promise<Record<string, any> | void>,
+  ): Promise<HealthCheckResult> {
+    const timeoutMs = this.configService.get<number>('HEALTH_CHECK_TIMEOUT_MS', 3000);
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const details = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+        }),
+      ]);
+
+      return { name, status: 'up', critical, responseTime: Date.now() - startTime, details: details || undefined };
+    } catch (error: any) {
+      this.logger.warn(`Health check "${name}" failed: ${error?.message || error}`);
+      return {
+        name,
+        status: 'down',
+        critical,
+        responseTime: Date.now() - startTime,
+        details: error?.details,
+        error: error?.message || 'Check failed',
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async disabled(name: string): Promise<HealthCheckResult> {
+    return { name, status: 'disabled', critical: false, details: { reason: 'Not configured' } };
+  }
+
+  private toReport(checks: HealthCheckResult[]): HealthReport {
+    const down = checks.filter(check => check.status === 'down');
+    return {
+      status: down.some(check => check.critical) ? 'unhealthy' : down.length ? 'degraded' : 'healthy',
+      checkedAt: new Date(),
+      checks,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('summarizes latency and errors per route', () => {
+    service.recordRequest('GET', '/api/requests/:id', 200, 0.02);
+    service.recordRequest('GET', '/api/requests/:id', 404, 0.004);
+    service.recordRequest('GET', '/api/requests/:id', 500, 0.3);
+    service.recordRequest('GET', '/api/requests/:id', 200, 0.04);
+    service.recordRequest('POST', '/api/auth/login', 200, 0.2);
+
+    const [requests, login] = service.getRouteSummaries();
+
+    expect(requests).toEqual(expect.objectContaining({
+      method: 'GET',
+      route: '/api/requests/:id',
+      count: 4,
+      clientErrors: 1,
+      serverErrors: 1,
+      errorRate: 0.25,
+      averageMs: 91,
+      p95Ms: 300,
+    }));
+    expect(login.count).toBe(1);
+    expect(service.getTotals()).toEqual({ requests: 5, serverErrors: 1, errorRate: 0.2, averageMs: 113 });
+  });
+
+  it('never reports a percentile above the slowest request', () => {
+    service.recordRequest('GET', '/api/nurses', 200, 0.12);
+
+    expect(service.getRouteSummaries()[0].p95Ms).toBe(120);
+  });
+
+  it('counts requests slower than every bucket under +Inf', () => {
+    service.recordRequest('GET', '/api/search', 200, 30);
+
+    const { buckets } = service.getRouteSummaries()[0];
+
+    expect(buckets[buckets.length - 1]).toEqual({ le: '+Inf', count: 1 });
+  });
+
+  it('renders cumulative Prometheus histograms', () => {
+    service.recordRequest('GET', '/api/nurses', 200, 0.003);
+    service.recordRequest('GET', '/api/nurses', 200, 0.2);
+
+    const text = service.renderPrometheus();
+
+    expect(text).toContain('http_requests_total{method="GET",route="/api/nurses",status="200"} 2');
+    expect(text).toContain('http_request_duration_seconds_bucket{method="GET",route="/api/nurses",le="0.005"} 1');
+    expect(text).toContain('http_request_duration_seconds_bucket{method="GET",route="/api/nurses",le="0.1"} 1');
+    expect(text).toContain('http_request_duration_seconds_bucket{method="GET",route="/api/nurses",le="0.25"} 2');
+    expect(text).toContain('http_request_duration_seconds_bucket{method="GET",route="/api/nurses",le="+Inf"} 2');
+    expect(text).toContain('http_request_duration_seconds_count{method="GET",route="/api/nurses"} 2');
+  });
+
+  it('appends extra gauges and escapes their labels', () => {
+    const text = service.renderPrometheus([
+      { name: 'health_check_up', help: 'Whether the dependency passed its last health check.', samples: [{ labels: { check: 'say "hi"' }, value: 1 }] },
+    ]);
+
+    expect(text).toContain('# TYPE health_check_up gauge');
+    expect(text).toContain('health_check_up{check="say \\"hi\\""} 1');
+  });
+});
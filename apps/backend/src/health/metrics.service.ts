@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+
+// Upper bounds in seconds, as in the Prometheus client defaults
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface RouteMetrics {
+  method: string;
+  route: string;
+  // Per-bucket counts; the extra last slot is +Inf
+  buckets: number[];
+  count: number;
+  sumSeconds: number;
+  maxSeconds: number;
+  statuses: Map<number, number>;
+}
+
+export interface RouteSummary {
+  method: string;
+  route: string;
+  count: number;
+  clientErrors: number;
+  serverErrors: number;
+  errorRate: number;
+  averageMs: number;
+  p95Ms: number;
+  buckets: { le: string; count: number }[];
+}
+
+export interface MetricGauge {
+  name: string;
+  help: string;
+  samples: { labels?: Record<string, string>; value: number }[];
+}
+
+/**
+ * In-memory request latency histograms and status counts per route, kept
+ * since the process started. Routes are keyed by their template
+ * (`/api/requests/:id`) so ids never end up in metric labels.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly routes = new Map<string, RouteMetrics>();
+
+  recordRequest(method: string, route: string, statusCode: number, durationSeconds: number): void {
+    const key = `${method} ${route}`;
+    let metrics = this.routes.get(key);
+    if (!metrics) {
+      metrics = {
+        method,
+        route,
+        buckets: new Array(DURATION_BUCKETS.length + 1).fill(0),
+        count: 0,
+        sumSeconds: 0,
+        maxSeconds: 0,
+        statuses: new Map(),
+      };
+      this.routes.set(key, metrics);
+    }
+
+    const bucket = DURATION_BUCKETS.findIndex(bound => durationSeconds <= bound);
+    metrics.buckets[bucket === -1 ? DURATION_BUCKETS.length : bucket]++;
+    metrics.count++;
+    metrics.sumSeconds += durationSeconds;
+    metrics.maxSeconds = Math.max(metrics.maxSeconds, durationSeconds);
+    metrics.statuses.set(statusCode, (metrics.statuses.get(statusCode) || 0) + 1);
+  }
+
+  getRouteSummaries(): RouteSummary[] {
+    return [...this.routes.values()]
+      .map(metrics => {
+        let clientErrors = 0;
+        let serverErrors = 0;
+        for (const [status, count] of metrics.statuses) {
+          if (status >= 500) serverErrors += count;
+          else if (status >= 400) clientErrors += count;
+        }
+
+        return {
+          method: metrics.method,
+          route: metrics.route,
+          count: metrics.count,
+          clientErrors,
+          serverErrors,
+          errorRate: metrics.count ? serverErrors / metrics.count : 0,
+          averageMs: metrics.count ? Math.round((metrics.sumSeconds / metrics.count) * 1000) : 0,
+          p95Ms: Math.round(this.percentile(metrics, 0.95) * 1000),
+          buckets: metrics.buckets.map((count, index) => ({
+            le: index < DURATION_BUCKETS.length ? String(DURATION_BUCKETS[index]) : '+Inf',
+            count,
+          })),
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  getTotals() {
+    let count = 0;
+    let serverErrors = 0;
+    let sumSeconds = 0;
+    for (const metrics of this.routes.values()) {
+      count += metrics.count;
+      sumSeconds += metrics.sumSeconds;
+      for (const [status, statusCount] of metrics.statuses) {
+        if (status >= 500) serverErrors += statusCount;
+      }
+    }
+
+    return {
+      requests: count,
+      serverErrors,
+      errorRate: count ? serverErrors / count : 0,
+      averageMs: count ? Math.round((sumSeconds / count) * 1000) : 0,
+    };
+  }
+
+  /**
+   * Prometheus text exposition of the request metrics, process metrics and
+   * any extra gauges passed in (e.g. the latest health check results).
+   */
+  renderPrometheus(extraGauges: MetricGauge[] = []): string {
+    const lines: string[] = [];
+    const routes = [...this.routes.values()];
+
+    lines.push('# HELP http_requests_total Handled HTTP requests by route and status code.');
+    lines.push('# TYPE http_requests_total counter');
+    for (const metrics of routes) {
+      for (const [status, count] of metrics.statuses) {
+        lines.push(`http_requests_total${this.labels({ method: metrics.method, route: metrics.route, status: String(status) })} ${count}`);
+      }
+    }
+
+    lines.push('# HELP http_request_duration_seconds Time spent handling HTTP requests.');
+    lines.push('# TYPE http_request_duration_seconds histogram');
+    for (const metrics of routes) {
+      const base = { method: metrics.method, route: metrics.route };
+      let cumulative = 0;
+      metrics.buckets.forEach((count, index) => {
+        cumulative += count;
+        const le = index < DURATION_BUCKETS.length ? String(DURATION_BUCKETS[index]) : '+Inf';
+        lines.push(`http_request_duration_seconds_bucket${this.labels({ ...base, le })} ${cumulative}`);
+      });
+      lines.push(`http_request_duration_seconds_sum${this.labels(base)} ${metrics.sumSeconds}`);
+      lines.push(`http_request_duration_seconds_count${this.labels(base)} ${metrics.count}`);
+    }
+
+    const memory = process.memoryUsage();
+    const gauges: MetricGauge[] = [
+      { name: 'process_resident_memory_bytes', help: 'Resident memory size in bytes.', samples: [{ value: memory.rss }] },
+      { name: 'nodejs_heap_used_bytes', help: 'V8 heap in use in bytes.', samples: [{ value: memory.heapUsed }] },
+      { name: 'nodejs_heap_total_bytes', help: 'V8 heap size in bytes.', samples: [{ value: memory.heapTotal }] },
+      { name: 'process_uptime_seconds', help: 'Seconds since the process started.', samples: [{ value: process.uptime() }] },
+      ...extraGauges,
+    ];
+
+    for (const gauge of gauges) {
+      lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+      lines.push(`# TYPE ${gauge.name} gauge`);
+      for (const sample of gauge.samples) {
+        lines.push(`${gauge.name}${sample.labels ? this.labels(sample.labels) : ''} ${sample.value}`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  // Upper bound of the bucket holding the given share of requests
+  private percentile(metrics: RouteMetrics, share: number): number {
+    const target = metrics.count * share;
+    let cumulative = 0;
+    for (let index = 0; index < DURATION_BUCKETS.length; index++) {
+      cumulative += metrics.buckets[index];
+      if (cumulative >= target) {
+        return Math.min(DURATION_BUCKETS[index], metrics.maxSeconds);
+      }
+    }
+    return metrics.maxSeconds;
+  }
+
+  private labels(labels: Record<string, string>): string {
+    const pairs = Object.entries(labels).map(
+      ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    );
+    return `{${pairs.join(',')}}`;
+  }
+}
@@ -0,0 +1,392 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import PDFDocument from 'pdfkit';
+import { InvoiceDocument } from '../schemas/invoice.schema';
+import { PaymentProviderName } from '../schemas/payment.schema';
+import { ServiceType } from '../schemas/patient-request.schema';
+
+export type InvoiceLanguage = 'en' | 'ar';
+
+// Copied next to the bundle by the webpack assets option
+const FONTS_DIR = join(__dirname, 'assets', 'fonts');
+
+const PAGE_MARGIN = 50;
+const CONTENT_WIDTH = 495; // A4 width minus both margins
+const ARABIC = /[؀-ۿ]/;
+
+const LABELS: Record<InvoiceLanguage, Record<string, string>> = {
+  en: {
+    title: 'Invoice & Receipt',
+    invoiceNumber: 'Invoice number',
+    issuedAt: 'Issue date',
+    paidAt: 'Paid on',
+    taxId: 'Tax ID',
+    patient: 'Patient',
+    nurse: 'Nurse',
+    service: 'Service',
+    serviceType: 'Service type',
+    visitDate: 'Visit date',
+    duration: 'Duration',
+    paymentMethod: 'Payment method',
+    nursingService: 'Nursing service',
+    platformFee: 'Platform fee',
+    total: 'Total paid',
+    refunded: 'Refunded',
+    netPaid: 'Net paid',
+    minutes: 'min',
+    currencyNote: 'All amounts are in Egyptian pounds (EGP).',
+    receiptNote: 'This document is both the invoice and the receipt of payment for the visit above.',
+    statementTitle: 'Annual payment statement',
+    year: 'Year',
+    generatedAt: 'Generated on',
+    noPayments: 'No payments in this year.',
+    totals: 'Totals',
+    fee: 'Fee',
+    amount: 'Total',
+  },
+  ar: {
+    title: 'فاتورة وإيصال دفع',
+    invoiceNumber: 'رقم الفاتورة',
+    issuedAt: 'تاريخ الإصدار',
+    paidAt: 'تاريخ الدفع',
+    taxId: 'الرقم الضريبي',
+    patient: 'المريض',
+    nurse: 'الممرض',
+    service: 'الخدمة',
+    serviceType: 'نوع الخدمة',
+    visitDate: 'تاريخ الزيارة',
+    duration: 'المدة',
+    paymentMethod: 'طريقة الدفع',
+    nursingService: 'أجر خدمة التمريض',
+    platformFee: 'رسوم المنصة',
+    total: 'الإجمالي المدفوع',
+    refunded: 'المبلغ المسترد',
+    netPaid: 'صافي المدفوع',
+    minutes: 'دقيقة',
+    currencyNote: 'جميع المبالغ بالجنيه المصري',
+    receiptNote: 'هذا المستند فاتورة وإيصال باستلام قيمة الزيارة الموضحة أعلاه',
+    statementTitle: 'كشف المدفوعات السنوي',
+    year: 'السنة',
+    generatedAt: 'تاريخ الإنشاء',
+    noPayments: 'لا توجد مدفوعات في هذه السنة',
+    totals: 'الإجمالي',
+    fee: 'الرسوم',
+    amount: 'الإجمالي',
+  },
+};
+
+const SERVICE_TYPE_LABELS: Record<InvoiceLanguage, Record<ServiceType, string>> = {
+  en: {
+    [ServiceType.HOME_CARE]: 'Home care',
+    [ServiceType.MEDICATION_ADMINISTRATION]: 'Medication administration',
+    [ServiceType.WOUND_CARE]: 'Wound care',
+    [ServiceType.VITAL_SIGNS_MONITORING]: 'Vital signs monitoring',
+    [ServiceType.POST_SURGICAL_CARE]: 'Post-surgical care',
+    [ServiceType.ELDERLY_CARE]: 'Elderly care',
+    [ServiceType.PEDIATRIC_CARE]: 'Pediatric care',
+    [ServiceType.CHRONIC_DISEASE_MANAGEMENT]: 'Chronic disease management',
+  },
+  ar: {
+    [ServiceType.HOME_CARE]: 'رعاية منزلية',
+    [ServiceType.MEDICATION_ADMINISTRATION]: 'إعطاء الأدوية',
+    [ServiceType.WOUND_CARE]: 'رعاية الجروح',
+    [ServiceType.VITAL_SIGNS_MONITORING]: 'متابعة العلامات الحيوية',
+    [ServiceType.POST_SURGICAL_CARE]: 'رعاية ما بعد الجراحة',
+    [ServiceType.ELDERLY_CARE]: 'رعاية المسنين',
+    [ServiceType.PEDIATRIC_CARE]: 'رعاية الأطفال',
+    [ServiceType.CHRONIC_DISEASE_MANAGEMENT]: 'إدارة الأمراض المزمنة',
+  },
+};
+
+const PROVIDER_LABELS: Record<InvoiceLanguage, Record<PaymentProviderName, string>> = {
+  en: {
+    [PaymentProviderName.STRIPE]: 'Card',
+    [PaymentProviderName.CASH]: 'Cash on visit',
+    [PaymentProviderName.WALLET]: 'Wallet',
+  },
+  ar: {
+    [PaymentProviderName.STRIPE]: 'بطاقة',
+    [PaymentProviderName.CASH]: 'نقدا عند الزيارة',
+    [PaymentProviderName.WALLET]: 'المحفظة',
+  },
+};
+
+interface Column {
+  text: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Draws invoices and statements with pdfkit. pdfkit shapes Arabic glyphs but
+ * does not reorder words, so Arabic text is laid out word by word from the
+ * right and every label, value and amount gets its own cell.
+ */
+@Injectable()
+export class InvoicePdfRenderer {
+  constructor(private configService: ConfigService) {}
+
+  renderInvoice(invoice: InvoiceDocument, lang: InvoiceLanguage): Promise<Buffer> {
+    return this.render(`${LABELS[lang].title} ${invoice.number}`, (doc) => {
+      this.drawInvoice(doc, invoice, lang);
+    });
+  }
+
+  // Summary table of the year followed by every invoice on its own page
+  renderStatement(invoices: InvoiceDocument[], patientName: string, year: number, lang: InvoiceLanguage): Promise<Buffer> {
+    const labels = LABELS[lang];
+
+    return this.render(`${labels.statementTitle} ${year}`, (doc) => {
+      let y = this.drawHeader(doc, labels.statementTitle, lang);
+      y = this.drawRows(doc, lang, y, [
+        [labels.year, String(year)],
+        [labels.patient, patientName],
+        [labels.generatedAt, this.formatDate(new Date())],
+      ]);
+      y += 20;
+
+      if (!invoices.length) {
+        this.cell(doc, labels.noPayments, PAGE_MARGIN, y, CONTENT_WIDTH, lang === 'ar' ? 'right' : 'left');
+        return;
+      }
+
+      const header = (top: number) => {
+        doc.font('bold').fontSize(9);
+        this.drawColumns(doc, lang, top, this.statementColumns(lang, [
+          labels.invoiceNumber, labels.paidAt, labels.service, labels.nurse, labels.fee, labels.amount,
+        ]));
+        doc.font('regular');
+        return top + 18;
+      };
+
+      y = header(y);
+      let totalPaid = 0;
+      let totalFees = 0;
+      let totalRefunded = 0;
+
+      for (const invoice of invoices) {
+        if (y > doc.page.height - PAGE_MARGIN - 40) {
+          doc.addPage();
+          y = header(PAGE_MARGIN);
+        }
+
+        doc.fontSize(9);
+        this.drawColumns(doc, lang, y, this.statementColumns(lang, [
+          invoice.number,
+          this.formatDate(invoice.paidAt),
+          invoice.requestTitle,
+          invoice.nurseName || '-',
+          this.formatAmount(invoice.platformFee, invoice.currency),
+          this.formatAmount(invoice.amount, invoice.currency),
+        ]));
+        y += 16;
+
+        totalPaid += invoice.amount;
+        totalFees += invoice.platformFee;
+        totalRefunded += invoice.refundedAmount || 0;
+      }
+
+      const currency = invoices[0].currency;
+      doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + CONTENT_WIDTH, y).strokeColor('#cccccc').stroke();
+      y += 10;
+      doc.fontSize(11);
+      y = this.drawAmounts(doc, lang, y, [
+        [labels.platformFee, this.formatAmount(totalFees, currency)],
+        [labels.total, this.formatAmount(totalPaid, currency), true],
+        ...(totalRefunded > 0
+          ? [
+            [labels.refunded, `- ${this.formatAmount(totalRefunded, currency)}`],
+            [labels.netPaid, this.formatAmount(totalPaid - totalRefunded, currency), true],
+          ] as Array<[string, string, boolean?]>
+          : []),
+      ]);
+      this.drawFooter(doc, lang, y + 20);
+
+      for (const invoice of invoices) {
+        doc.addPage();
+        this.drawInvoice(doc, invoice, lang);
+      }
+    });
+  }
+
+  private drawInvoice(doc: PDFKit.PDFDocument, invoice: InvoiceDocument, lang: InvoiceLanguage) {
+    const labels = LABELS[lang];
+    const taxId = this.configService.get<string>('INVOICE_ISSUER_TAX_ID');
+
+    let y = this.drawHeader(doc, labels.title, lang);
+    y = this.drawRows(doc, lang, y, [
+      [labels.invoiceNumber, invoice.number],
+      [labels.issuedAt, this.formatDate(invoice.issuedAt)],
+      [labels.paidAt, this.formatDate(invoice.paidAt)],
+      ...(taxId ? [[labels.taxId, taxId]] : []),
+    ]);
+    y += 14;
+    y = this.drawRows(doc, lang, y, [
+      [labels.patient, invoice.patientName],
+      [labels.nurse, invoice.nurseName || '-'],
+      [labels.service, invoice.requestTitle],
+      [labels.serviceType, SERVICE_TYPE_LABELS[lang][invoice.serviceType] || invoice.serviceType],
+      [labels.visitDate, invoice.visitDate ? this.formatDate(invoice.visitDate) : '-'],
+      [labels.duration, invoice.durationMinutes ? `${invoice.durationMinutes} ${labels.minutes}` : '-'],
+      [labels.paymentMethod, PROVIDER_LABELS[lang][invoice.paymentProvider] || invoice.paymentProvider],
+    ]);
+
+    y += 14;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + CONTENT_WIDTH, y).strokeColor('#cccccc').stroke();
+    y += 12;
+
+    const refunded = invoice.refundedAmount || 0;
+    doc.fontSize(11);
+    y = this.drawAmounts(doc, lang, y, [
+      [labels.nursingService, this.formatAmount(invoice.amount - invoice.platformFee, invoice.currency)],
+      [labels.platformFee, this.formatAmount(invoice.platformFee, invoice.currency)],
+      [labels.total, this.formatAmount(invoice.amount, invoice.currency), true],
+      ...(refunded > 0
+        ? [
+          [labels.refunded, `- ${this.formatAmount(refunded, invoice.currency)}`],
+          [labels.netPaid, this.formatAmount(invoice.amount - refunded, invoice.currency), true],
+        ] as Array<[string, string, boolean?]>
+        : []),
+    ]);
+
+    this.drawFooter(doc, lang, y + 24);
+  }
+
+  private drawHeader(doc: PDFKit.PDFDocument, title: string, lang: InvoiceLanguage): number {
+    const align = lang === 'ar' ? 'right' : 'left';
+    const issuer = this.configService.get<string>('INVOICE_ISSUER_NAME') || 'Nurse Platform';
+
+    doc.font('bold').fontSize(18).fillColor('#2c5aa0');
+    this.cell(doc, issuer, PAGE_MARGIN, PAGE_MARGIN, CONTENT_WIDTH, align);
+    doc.fontSize(14).fillColor('#333333');
+    this.cell(doc, title, PAGE_MARGIN, PAGE_MARGIN + 28, CONTENT_WIDTH, align);
+    doc.font('regular').fontSize(10);
+
+    return PAGE_MARGIN + 64;
+  }
+
+  // Label/value pairs; Arabic puts the label on the right
+  private drawRows(doc: PDFKit.PDFDocument, lang: InvoiceLanguage, y: number, rows: string[][]): number {
+    const labelWidth = 150;
+    const valueWidth = CONTENT_WIDTH - labelWidth - 10;
+
+    doc.fontSize(10);
+    for (const [label, value] of rows) {
+      if (lang === 'ar') {
+        doc.fillColor('#666666');
+        this.cell(doc, label, PAGE_MARGIN + valueWidth + 10, y, labelWidth, 'right');
+        doc.fillColor('#333333');
+        this.cell(doc, value, PAGE_MARGIN, y, valueWidth, 'right');
+      } else {
+        doc.fillColor('#666666');
+        this.cell(doc, label, PAGE_MARGIN, y, labelWidth, 'left');
+        doc.fillColor('#333333');
+        this.cell(doc, value, PAGE_MARGIN + labelWidth + 10, y, valueWidth, 'left');
+      }
+      y += 18;
+    }
+
+    return y;
+  }
+
+  // Amount lines with the figures lined up on the far side from the labels
+  private drawAmounts(doc: PDFKit.PDFDocument, lang: InvoiceLanguage, y: number, rows: Array<[string, string, boolean?]>): number {
+    const amountWidth = 140;
+    const labelWidth = CONTENT_WIDTH - amountWidth - 10;
+
+    for (const [label, amount, bold] of rows) {
+      doc.font(bold ? 'bold' : 'regular');
+      if (lang === 'ar') {
+        this.cell(doc, label, PAGE_MARGIN + amountWidth + 10, y, labelWidth, 'right');
+        this.cell(doc, amount, PAGE_MARGIN, y, amountWidth, 'left');
+      } else {
+        this.cell(doc, label, PAGE_MARGIN, y, labelWidth, 'left');
+        this.cell(doc, amount, PAGE_MARGIN + labelWidth + 10, y, amountWidth, 'right');
+      }
+      y += 20;
+    }
+    doc.font('regular');
+
+    return y;
+  }
+
+  private drawFooter(doc: PDFKit.PDFDocument, lang: InvoiceLanguage, y: number) {
+    const labels = LABELS[lang];
+    const align = lang === 'ar' ? 'right' : 'left';
+
+    doc.font('regular').fontSize(8).fillColor('#666666');
+    this.cell(doc, labels.currencyNote, PAGE_MARGIN, y, CONTENT_WIDTH, align);
+    this.cell(doc, labels.receiptNote, PAGE_MARGIN, y + 12, CONTENT_WIDTH, align);
+    doc.fillColor('#333333');
+  }
+
+  private statementColumns(lang: InvoiceLanguage, values: string[]): Column[] {
+    const widths = [90, 65, 130, 85, 55, 70];
+    const columns = values.map((text, index) => ({
+      text,
+      width: widths[index],
+      align: (index >= 4 || lang === 'ar' ? 'right' : 'left') as Column['align'],
+    }));
+
+    return lang === 'ar' ? columns.reverse() : columns;
+  }
+
+  private drawColumns(doc: PDFKit.PDFDocument, lang: InvoiceLanguage, y: number, columns: Column[]) {
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      this.cell(doc, column.text, x, y, column.width - 6, column.align);
+      x += column.width;
+    }
+  }
+
+  // Single-line text cell; cuts the text short instead of wrapping
+  private cell(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number, align: 'left' | 'right' = 'left') {
+    let value = text;
+    while (value.length > 1 && doc.widthOfString(value) > width) {
+      value = `${value.slice(0, -2).trimEnd()}…`;
+    }
+
+    if (!ARABIC.test(value)) {
+      doc.text(value, x, y, { width, align, lineBreak: false });
+      return;
+    }
+
+    const space = doc.widthOfString(' ');
+    const words = value.split(/\s+/).filter(Boolean);
+    const lineWidth = words.reduce((sum, word) => sum + doc.widthOfString(word), 0) + space * (words.length - 1);
+    let right = align === 'right' ? x + width : x + lineWidth;
+
+    for (const word of words) {
+      const wordWidth = doc.widthOfString(word);
+      doc.text(word, right - wordWidth, y, { lineBreak: false });
+      right -= wordWidth + space;
+    }
+  }
+
+  private render(title: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: title } });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.registerFont('regular', join(FONTS_DIR, 'DejaVuSans.ttf'));
+      doc.registerFont('bold', join(FONTS_DIR, 'DejaVuSans-Bold.ttf'));
+      doc.font('regular');
+
+      draw(doc);
+      doc.end();
+    });
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().slice(0, 10);
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    return `${currency.toUpperCase()} ${(amount / 100).toFixed(2)}`;
+  }
+}
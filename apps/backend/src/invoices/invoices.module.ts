@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule } from '@nestjs/config';
+import { InvoicesService } from './invoices.service';
+import { InvoicePdfRenderer } from './invoice-pdf.renderer';
+import { Invoice, InvoiceSchema, InvoiceCounter, InvoiceCounterSchema } from '../schemas/invoice.schema';
+import { Payment, PaymentSchema } from '../schemas/payment.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: InvoiceCounter.name, schema: InvoiceCounterSchema },
+      { name: Payment.name, schema: PaymentSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    EmailModule,
+  ],
+  providers: [InvoicesService, InvoicePdfRenderer],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
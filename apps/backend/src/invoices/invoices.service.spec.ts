@@ -0,0 +1,202 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { InvoicesService } from './invoices.service';
+import { InvoicePdfRenderer } from './invoice-pdf.renderer';
+import { Invoice, InvoiceCounter } from '../schemas/invoice.schema';
+import { Payment, PaymentStatus, PaymentType } from '../schemas/payment.schema';
+import { PatientRequest, ServiceType } from '../schemas/patient-request.schema';
+import { User, UserRole } from '../schemas/user.schema';
+import { EmailService } from '../email/email.service';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  sort: () => query(value),
+  exec: async () => value,
+});
+
+describe('InvoicesService', () => {
+  let service: InvoicesService;
+  let invoiceModel: { findOne: jest.Mock; create: jest.Mock; findOneAndUpdate: jest.Mock; updateOne: jest.Mock; find: jest.Mock };
+  let invoiceCounterModel: { findOneAndUpdate: jest.Mock };
+  let paymentModel: { findById: jest.Mock; find: jest.Mock };
+  let emailService: { sendPaymentReceiptEmail: jest.Mock };
+  let renderer: { renderInvoice: jest.Mock; renderStatement: jest.Mock };
+
+  const patient = { _id: new Types.ObjectId(), name: 'Sara', email: 'sara@example.com', role: UserRole.PATIENT };
+  const nurse = { _id: new Types.ObjectId(), name: 'Nurse Mona', role: UserRole.NURSE };
+
+  const visit = {
+    _id: new Types.ObjectId(),
+    title: 'Wound dressing',
+    serviceType: ServiceType.WOUND_CARE,
+    scheduledDate: new Date('2026-03-02T09:00:00Z'),
+    timeOnSiteMinutes: 50,
+  };
+
+  const payment = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    requestId: visit._id,
+    patientId: patient._id,
+    nurseId: nurse._id,
+    paymentType: PaymentType.SERVICE_PAYMENT,
+    status: PaymentStatus.COMPLETED,
+    amount: 500,
+    platformFee: 50,
+    currency: 'egp',
+    processedAt: new Date('2026-03-02T11:00:00Z'),
+    ...fields,
+  });
+
+  const invoiceDoc = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    number: 'INV-2026-000001',
+    paidAt: new Date('2026-03-02T11:00:00Z'),
+    save: jest.fn().mockImplementation(function (this: any) { return Promise.resolve(this); }),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    invoiceModel = {
+      findOne: jest.fn().mockReturnValue(query(null)),
+      create: jest.fn().mockImplementation(async (data: any) => invoiceDoc(data)),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockReturnValue(query(undefined)),
+      find: jest.fn().mockReturnValue(query([])),
+    };
+    invoiceCounterModel = { findOneAndUpdate: jest.fn().mockReturnValue(query({ seq: 7 })) };
+    paymentModel = { findById: jest.fn(), find: jest.fn().mockReturnValue(query([])) };
+    emailService = { sendPaymentReceiptEmail: jest.fn().mockResolvedValue(undefined) };
+    renderer = {
+      renderInvoice: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+      renderStatement: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+    };
+
+    const users = [patient, nurse];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InvoicesService,
+        { provide: getModelToken(Invoice.name), useValue: invoiceModel },
+        { provide: getModelToken(InvoiceCounter.name), useValue: invoiceCounterModel },
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: getModelToken(PatientRequest.name), useValue: { findById: () => query(visit) } },
+        { provide: getModelToken(User.name), useValue: { findById: (id: any) => query(users.find((u) => String(u._id) === String(id))) } },
+        { provide: EmailService, useValue: emailService },
+        { provide: InvoicePdfRenderer, useValue: renderer },
+      ],
+    }).compile();
+
+    service = moduleRef.get(InvoicesService);
+  });
+
+  describe('issueForPayment', () => {
+    it('numbers the invoice per year and keeps a copy of the visit details', async () => {
+      const invoice = await service.issueForPayment(payment());
+
+      expect(invoiceCounterModel.findOneAndUpdate).toHaveBeenCalledWith({ year: 2026 }, { $inc: { seq: 1 } }, expect.objectContaining({ upsert: true }));
+      expect(invoice).toEqual(expect.objectContaining({
+        number: 'INV-2026-000007',
+        patientName: 'Sara',
+        nurseName: 'Nurse Mona',
+        serviceType: ServiceType.WOUND_CARE,
+        visitDate: visit.scheduledDate,
+        durationMinutes: 50,
+        amount: 500,
+        platformFee: 50,
+      }));
+    });
+
+    it('returns the invoice already issued for the payment', async () => {
+      const existing = invoiceDoc();
+      invoiceModel.findOne.mockReturnValue(query(existing));
+
+      await expect(service.issueForPayment(payment())).resolves.toBe(existing);
+      expect(invoiceCounterModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('shows a later refund on the invoice without renumbering it', async () => {
+      const existing = invoiceDoc();
+      invoiceModel.findOne.mockReturnValue(query(existing));
+      const refundedAt = new Date();
+
+      const invoice = await service.issueForPayment(payment({ status: PaymentStatus.REFUNDED, refundAmount: 200, refundedAt }));
+
+      expect(invoice.number).toBe('INV-2026-000001');
+      expect(invoice.refundedAmount).toBe(200);
+      expect(invoice.refundedAt).toBe(refundedAt);
+      expect(existing.save).toHaveBeenCalled();
+    });
+
+    it('does not invoice payments that have not completed', async () => {
+      await expect(service.issueForPayment(payment({ status: PaymentStatus.PENDING }))).rejects.toBeInstanceOf(BadRequestException);
+      expect(invoiceModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendReceipt', () => {
+    it('emails the English and Arabic invoice to the patient', async () => {
+      invoiceModel.findOneAndUpdate.mockImplementation((filter: any) => query(invoiceDoc({ _id: filter._id, number: 'INV-2026-000007' })));
+
+      await service.sendReceipt(payment(), 'Wound dressing');
+
+      expect(emailService.sendPaymentReceiptEmail).toHaveBeenCalledWith(
+        'sara@example.com',
+        'Sara',
+        expect.objectContaining({ invoiceNumber: 'INV-2026-000007', amount: 500 }),
+        [expect.objectContaining({ filename: 'INV-2026-000007.pdf' }), expect.objectContaining({ filename: 'INV-2026-000007-ar.pdf' })],
+      );
+    });
+
+    it('does not email a receipt that was already sent', async () => {
+      invoiceModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      await service.sendReceipt(payment(), 'Wound dressing');
+
+      expect(emailService.sendPaymentReceiptEmail).not.toHaveBeenCalled();
+    });
+
+    it('lets a later completion retry a receipt that failed to send', async () => {
+      const claimed = invoiceDoc();
+      invoiceModel.findOneAndUpdate.mockReturnValue(query(claimed));
+      emailService.sendPaymentReceiptEmail.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(service.sendReceipt(payment(), 'Wound dressing')).rejects.toThrow('SMTP down');
+
+      expect(invoiceModel.updateOne).toHaveBeenCalledWith({ _id: claimed._id }, { $unset: { emailedAt: 1 } });
+    });
+  });
+
+  describe('getInvoicePdf', () => {
+    it('lets only the patient, the nurse and admins download the invoice', async () => {
+      paymentModel.findById.mockReturnValue(query(payment()));
+
+      await expect(service.getInvoicePdf('id', { _id: new Types.ObjectId(), role: UserRole.PATIENT } as any, 'en'))
+        .rejects.toBeInstanceOf(ForbiddenException);
+
+      await expect(service.getInvoicePdf('id', nurse as any, 'ar')).resolves.toEqual({
+        filename: 'INV-2026-000007-ar.pdf',
+        content: expect.any(Buffer),
+      });
+    });
+  });
+
+  describe('getYearlyStatement', () => {
+    it('invoices the year\'s payments before building the statement', async () => {
+      paymentModel.find.mockReturnValue(query([payment()]));
+
+      const statement = await service.getYearlyStatement(patient as any, 2026, 'en');
+
+      expect(invoiceModel.create).toHaveBeenCalledTimes(1);
+      expect(statement.filename).toBe('statement-2026.pdf');
+      expect(renderer.renderStatement).toHaveBeenCalledWith([], 'Sara', 2026, 'en');
+    });
+
+    it('refuses years that have not started', async () => {
+      await expect(service.getYearlyStatement(patient as any, new Date().getUTCFullYear() + 1, 'en'))
+        .rejects.toThrow('Invalid statement year');
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Invoice, InvoiceDocument, InvoiceCounter, InvoiceCounterDocument } from '../schemas/invoice.schema';
+import { Payment, PaymentDocument, PaymentStatus, PaymentType } from '../schemas/payment.schema';
+import { PatientRequest, PatientRequestDocument } from '../schemas/patient-request.schema';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { EmailService } from '../email/email.service';
+import { InvoicePdfRenderer, InvoiceLanguage } from './invoice-pdf.renderer';
+
+export interface InvoiceFile {
+  filename: string;
+  content: Buffer;
+}
+
+const INVOICED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+/**
+ * Numbers and renders the platform's own invoices. An invoice is issued once
+ * per completed visit payment and keeps a copy of the visit details, so the
+ * PDF can be produced again at any time with the same contents.
+ */
+@Injectable()
+export class InvoicesService {
+  private readonly logger = new Logger(InvoicesService.name);
+
+  constructor(
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(InvoiceCounter.name) private invoiceCounterModel: Model<InvoiceCounterDocument>,
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private emailService: EmailService,
+    private invoicePdfRenderer: InvoicePdfRenderer,
+  ) {}
+
+  /**
+   * Returns the invoice of a completed payment, issuing it on first call.
+   */
+  async issueForPayment(payment: PaymentDocument): Promise<InvoiceDocument> {
+    const existing = await this.invoiceModel.findOne({ paymentId: payment._id }).exec();
+    if (existing) {
+      return this.syncRefund(existing, payment);
+    }
+
+    if (payment.paymentType !== PaymentType.SERVICE_PAYMENT || !INVOICED_STATUSES.includes(payment.status!)) {
+      throw new BadRequestException('Invoices are only issued for completed visit payments');
+    }
+
+    const [request, patient, nurse] = await Promise.all([
+      this.requestModel.findById(payment.requestId).exec(),
+      this.userModel.findById(payment.patientId).select('name').exec(),
+      payment.nurseId ? this.userModel.findById(payment.nurseId).select('name').exec() : null,
+    ]);
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const issuedAt = new Date();
+    const paidAt = payment.processedAt || issuedAt;
+
+    try {
+      const invoice = await this.invoiceModel.create({
+        number: await this.nextNumber(paidAt.getUTCFullYear()),
+        paymentId: payment._id,
+        patientId: payment.patientId,
+        nurseId: payment.nurseId,
+        requestId: payment.requestId,
+        issuedAt,
+        paidAt,
+        patientName: patient?.name || 'Patient',
+        nurseName: nurse?.name,
+        requestTitle: request.title,
+        serviceType: request.serviceType,
+        visitDate: request.checkIn?.at || request.scheduledDate,
+        durationMinutes: request.timeOnSiteMinutes || (request.estimatedDuration ? Math.round(request.estimatedDuration * 60) : undefined),
+        amount: payment.amount ?? 0,
+        platformFee: payment.platformFee ?? 0,
+        currency: payment.currency || 'egp',
+        paymentProvider: payment.paymentProvider,
+      });
+
+      this.logger.log(`Invoice ${invoice.number} issued for payment ${payment._id}`);
+
+      return this.syncRefund(invoice, payment);
+    } catch (error: any) {
+      // Issued concurrently by another completion path
+      if (error?.code === 11000) {
+        const invoice = await this.invoiceModel.findOne({ paymentId: payment._id }).exec();
+        if (invoice) {
+          return invoice;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Emails the receipt with the English and Arabic invoice attached. Sent at
+   * most once per invoice.
+   */
+  async sendReceipt(payment: PaymentDocument, requestTitle: string): Promise<void> {
+    const invoice = await this.issueForPayment(payment);
+
+    const claimed = await this.invoiceModel.findOneAndUpdate(
+      { _id: invoice._id, emailedAt: { $exists: false } },
+      { $set: { emailedAt: new Date() } },
+      { new: true },
+    ).exec();
+    if (!claimed) {
+      return;
+    }
+
+    const patient = await this.userModel.findById(payment.patientId).select('name email').exec();
+    if (!patient?.email) {
+      return;
+    }
+
+    try {
+      const [english, arabic] = await Promise.all([
+        this.invoicePdfRenderer.renderInvoice(claimed, 'en'),
+        this.invoicePdfRenderer.renderInvoice(claimed, 'ar'),
+      ]);
+
+      await this.emailService.sendPaymentReceiptEmail(patient.email, patient.name || 'there', {
+        requestId: String(payment.requestId),
+        requestTitle,
+        amount: payment.amount ?? 0,
+        currency: payment.currency || 'egp',
+        paidAt: claimed.paidAt,
+        receiptUrl: payment.metadata?.stripeReceiptUrl,
+        invoiceNumber: claimed.number,
+      }, [
+        { filename: `${claimed.number}.pdf`, content: english },
+        { filename: `${claimed.number}-ar.pdf`, content: arabic },
+      ]);
+    } catch (error) {
+      // Let a later completion retry the email
+      await this.invoiceModel.updateOne({ _id: claimed._id }, { $unset: { emailedAt: 1 } }).exec();
+      throw error;
+    }
+  }
+
+  async getInvoicePdf(paymentId: string, user: UserDocument, lang: InvoiceLanguage): Promise<InvoiceFile> {
+    const payment = await this.paymentModel.findById(paymentId).exec();
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const canView =
+      user.role === UserRole.ADMIN ||
+      String(payment.patientId) === String(user._id) ||
+      String(payment.nurseId) === String(user._id);
+
+    if (!canView) {
+      throw new ForbiddenException('You do not have permission to view this invoice');
+    }
+
+    const invoice = await this.issueForPayment(payment);
+
+    return {
+      filename: lang === 'ar' ? `${invoice.number}-ar.pdf` : `${invoice.number}.pdf`,
+      content: await this.invoicePdfRenderer.renderInvoice(invoice, lang),
+    };
+  }
+
+  /**
+   * All invoices of a patient paid in a calendar year, in one PDF for
+   * insurance claims. Payments completed before invoicing existed get their
+   * invoice issued here.
+   */
+  async getYearlyStatement(user: UserDocument, year: number, lang: InvoiceLanguage): Promise<InvoiceFile> {
+    if (!Number.isInteger(year) || year < 2000 || year > new Date().getUTCFullYear()) {
+      throw new BadRequestException('Invalid statement year');
+    }
+
+    const patientId = new Types.ObjectId(String(user._id));
+    const from = new Date(Date.UTC(year, 0, 1));
+    const to = new Date(Date.UTC(year + 1, 0, 1));
+
+    const payments = await this.paymentModel.find({
+      patientId,
+      paymentType: PaymentType.SERVICE_PAYMENT,
+      status: { $in: INVOICED_STATUSES },
+      processedAt: { $gte: from, $lt: to },
+    }).exec();
+
+    for (const payment of payments) {
+      await this.issueForPayment(payment);
+    }
+
+    const invoices = await this.invoiceModel
+      .find({ patientId, paidAt: { $gte: from, $lt: to } })
+      .sort({ paidAt: 1 })
+      .exec();
+
+    return {
+      filename: lang === 'ar' ? `statement-${year}-ar.pdf` : `statement-${year}.pdf`,
+      content: await this.invoicePdfRenderer.renderStatement(invoices, user.name || 'Patient', year, lang),
+    };
+  }
+
+  // Refunds happen after the invoice is issued; the document shows them without renumbering
+  private async syncRefund(invoice: InvoiceDocument, payment: PaymentDocument): Promise<InvoiceDocument> {
+    const refundedAmount = payment.status === PaymentStatus.REFUNDED ? payment.refundAmount ?? payment.amount ?? 0 : 0;
+    if (refundedAmount === (invoice.refundedAmount || 0)) {
+      return invoice;
+    }
+
+    invoice.refundedAmount = refundedAmount;
+    invoice.refundedAt = payment.refundedAt;
+    return invoice.save();
+  }
+
+  private async nextNumber(year: number): Promise<string> {
+    const counter = await this.invoiceCounterModel.findOneAndUpdate(
+      { year },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true },
+    ).exec();
+
+    return `INV-${year}-${String(counter!.seq).padStart(6, '0')}`;
+  }
+}
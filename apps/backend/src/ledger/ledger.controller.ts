@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ValidationPipe
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { LedgerService } from './ledger.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { UserRole } from '../schemas/user.schema';
+import { WithdrawalStatus } from '../schemas/withdrawal.schema';
+import { CreateWithdrawalDto, ApproveWithdrawalDto, RejectWithdrawalDto, CreateBonusDto } from '../dto/ledger.dto';
+import { Audit } from '../common/decorators/audit.decorator';
+import { AuditTargetType } from '../schemas/audit-event.schema';
+
+@ApiTags('Ledger')
+@Controller('api/ledger')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('balance')
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Get the available and pending balance of the authenticated nurse' })
+  @ApiResponse({ status: 200, description: 'Balance retrieved successfully' })
+  async getBalance(@Request() req: any) {
+    return {
+      success: true,
+      message: 'Balance retrieved successfully',
+      data: await this.ledgerService.getBalance(String(req.user._id)),
+    };
+  }
+
+  @Get('entries')
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Get the earnings ledger of the authenticated nurse' })
+  @ApiResponse({ status: 200, description: 'Ledger retrieved successfully' })
+  async getEntries(
+    @Request() req: any,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+    return this.ledgerService.getNurseLedger(String(req.user._id), pageNum, limitNum);
+  }
+
+  @Get('statements/:year/:month')
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Get the monthly earnings statement of the authenticated nurse' })
+  @ApiResponse({ status: 200, description: 'Monthly statement retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid statement period' })
+  async getMonthlyStatement(
+    @Param('year') year: string,
+    @Param('month') month: string,
+    @Request() req: any
+  ) {
+    return this.ledgerService.getMonthlyStatement(String(req.user._id), parseInt(year, 10), parseInt(month, 10));
+  }
+
+  @Post('withdrawals')
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Request a withdrawal of available earnings' })
+  @ApiResponse({ status: 201, description: 'Withdrawal requested successfully' })
+  @ApiResponse({ status: 400, description: 'Amount exceeds the available balance or a withdrawal is already pending' })
+  async requestWithdrawal(
+    @Body(ValidationPipe) createWithdrawalDto: CreateWithdrawalDto,
+    @Request() req: any
+  ) {
+    return this.ledgerService.requestWithdrawal(createWithdrawalDto, req.user);
+  }
+
+  @Get('withdrawals')
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Get the withdrawals of the authenticated nurse' })
+  @ApiResponse({ status: 200, description: 'Withdrawals retrieved successfully' })
+  async getWithdrawals(
+    @Request() req: any,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+    return this.ledgerService.getWithdrawalsForNurse(String(req.user._id), pageNum, limitNum);
+  }
+
+  @Get('admin/withdrawals')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List withdrawal requests (admin only)' })
+  @ApiQuery({ name: 'status', required: false, enum: WithdrawalStatus })
+  @ApiResponse({ status: 200, description: 'Withdrawals retrieved successfully' })
+  async getWithdrawalsForAdmin(
+    @Query('status') status?: WithdrawalStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+    return this.ledgerService.getWithdrawalsForAdmin(status, pageNum, limitNum);
+  }
+
+  @Post('admin/withdrawals/:id/approve')
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'withdrawal.approve', targetType: AuditTargetType.WITHDRAWAL, targetParam: 'id' })
+  @ApiOperation({ summary: 'Mark a withdrawal as paid out (admin only)' })
+  @ApiResponse({ status: 201, description: 'Withdrawal marked as paid' })
+  @ApiResponse({ status: 400, description: 'Withdrawal is not pending' })
+  @ApiResponse({ status: 404, description: 'Withdrawal not found' })
+  async approveWithdrawal(
+    @Param('id') withdrawalId: string,
+    @Body(ValidationPipe) approveWithdrawalDto: ApproveWithdrawalDto,
+    @Request() req: any
+  ) {
+    return this.ledgerService.approveWithdrawal(withdrawalId, approveWithdrawalDto, req.user);
+  }
+
+  @Post('admin/withdrawals/:id/reject')
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'withdrawal.reject', targetType: AuditTargetType.WITHDRAWAL, targetParam: 'id' })
+  @ApiOperation({ summary: 'Reject a withdrawal and return the amount to the nurse balance (admin only)' })
+  @ApiResponse({ status: 201, description: 'Withdrawal rejected' })
+  @ApiResponse({ status: 400, description: 'Withdrawal is not pending' })
+  @ApiResponse({ status: 404, description: 'Withdrawal not found' })
+  async rejectWithdrawal(
+    @Param('id') withdrawalId: string,
+    @Body(ValidationPipe) rejectWithdrawalDto: RejectWithdrawalDto,
+    @Request() req: any
+  ) {
+    return this.ledgerService.rejectWithdrawal(withdrawalId, rejectWithdrawalDto, req.user);
+  }
+
+  @Post('admin/bonuses')
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'nurse.bonus.grant', targetType: AuditTargetType.NURSE, targetBody: 'nurseId' })
+  @ApiOperation({ summary: 'Credit a bonus to a nurse (admin only)' })
+  @ApiResponse({ status: 201, description: 'Bonus granted successfully' })
+  @ApiResponse({ status: 404, description: 'Nurse not found' })
+  async grantBonus(
+    @Body(ValidationPipe) createBonusDto: CreateBonusDto,
+    @Request() req: any
+  ) {
+    return this.ledgerService.grantBonus(createBonusDto, req.user);
+  }
+
+  @Get('admin/trial-balance')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get debit and credit totals per ledger account (admin only)' })
+  @ApiResponse({ status: 200, description: 'Trial balance retrieved successfully' })
+  async getTrialBalance() {
+    return this.ledgerService.getTrialBalance();
+  }
+}
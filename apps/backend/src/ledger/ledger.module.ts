@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule } from '@nestjs/config';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+import { LedgerScheduler } from './ledger.scheduler';
+import { LedgerEntry, LedgerEntrySchema } from '../schemas/ledger-entry.schema';
+import { Withdrawal, WithdrawalSchema } from '../schemas/withdrawal.schema';
+import { Payment, PaymentSchema } from '../schemas/payment.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: LedgerEntry.name, schema: LedgerEntrySchema },
+      { name: Withdrawal.name, schema: WithdrawalSchema },
+      { name: Payment.name, schema: PaymentSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    NotificationsModule,
+  ],
+  controllers: [LedgerController],
+  providers: [LedgerService, LedgerScheduler],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LedgerService } from './ledger.service';
+
+@Injectable()
+export class LedgerScheduler {
+  private readonly logger = new Logger(LedgerScheduler.name);
+
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async recordMissingServicePayments() {
+    try {
+      const recorded = await this.ledgerService.recordMissingServicePayments();
+      if (recorded > 0) {
+        this.logger.log(`Booked ${recorded} payment(s) missing from the ledger`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to reconcile payments with the ledger', error);
+    }
+  }
+}
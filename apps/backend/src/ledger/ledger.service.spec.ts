@@ -0,0 +1,141 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { LedgerService } from './ledger.service';
+import { LedgerEntry, LedgerAccount, LedgerDirection } from '../schemas/ledger-entry.schema';
+import { Withdrawal, PayoutMethod } from '../schemas/withdrawal.schema';
+import { Payment, PaymentDocument, PaymentType } from '../schemas/payment.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let ledgerEntryModel: { exists: jest.Mock; insertMany: jest.Mock };
+  let withdrawalModel: { exists: jest.Mock; create: jest.Mock };
+
+  const payment = (overrides: Record<string, any> = {}) => ({
+    _id: new Types.ObjectId(),
+    nurseId: new Types.ObjectId(),
+    requestId: new Types.ObjectId(),
+    amount: 50000,
+    platformFee: 7500,
+    currency: 'EGP',
+    paymentType: PaymentType.SERVICE_PAYMENT,
+    processedAt: new Date('2025-01-15T10:00:00Z'),
+    ...overrides,
+  }) as unknown as PaymentDocument;
+
+  beforeEach(async () => {
+    ledgerEntryModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      insertMany: jest.fn().mockResolvedValue([]),
+    };
+    withdrawalModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockImplementation(async (data: any) => ({ _id: new Types.ObjectId(), ...data })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: getModelToken(LedgerEntry.name), useValue: ledgerEntryModel },
+        { provide: getModelToken(Withdrawal.name), useValue: withdrawalModel },
+        { provide: getModelToken(Payment.name), useValue: {} },
+        // No admins to notify
+        { provide: getModelToken(User.name), useValue: { find: () => ({ select: () => ({ exec: async () => [] }) }) } },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: NotificationsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(LedgerService);
+  });
+
+  describe('recordServicePayment', () => {
+    it('splits the payment between the nurse and the platform fee', async () => {
+      const captured = payment();
+
+      await expect(service.recordServicePayment(captured)).resolves.toBe(true);
+
+      const [lines] = ledgerEntryModel.insertMany.mock.calls[0];
+      expect(lines.map((line: any) => [line.account, line.direction, line.amount])).toEqual([
+        [LedgerAccount.PATIENT_FUNDS, LedgerDirection.DEBIT, 50000],
+        [LedgerAccount.NURSE_EARNINGS, LedgerDirection.CREDIT, 42500],
+        [LedgerAccount.PLATFORM_REVENUE, LedgerDirection.CREDIT, 7500],
+      ]);
+      expect(lines.every((line: any) => line.transactionId === `payment:${captured._id}:capture`)).toBe(true);
+      expect(lines[0].currency).toBe('egp');
+      // Nurse earnings clear after the default 7 days
+      expect(lines[1].availableAt).toEqual(new Date('2025-01-22T10:00:00Z'));
+    });
+
+    it('leaves out zero lines', async () => {
+      await service.recordServicePayment(payment({ platformFee: 0 }));
+
+      const [lines] = ledgerEntryModel.insertMany.mock.calls[0];
+      expect(lines.map((line: any) => line.account)).toEqual([LedgerAccount.PATIENT_FUNDS, LedgerAccount.NURSE_EARNINGS]);
+    });
+
+    it('does not book the same payment twice', async () => {
+      ledgerEntryModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.recordServicePayment(payment())).resolves.toBe(false);
+      expect(ledgerEntryModel.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent post to the unique index as already booked', async () => {
+      ledgerEntryModel.insertMany.mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+      await expect(service.recordServicePayment(payment())).resolves.toBe(false);
+    });
+
+    it('passes other database errors on', async () => {
+      ledgerEntryModel.insertMany.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.recordServicePayment(payment())).rejects.toThrow('connection lost');
+    });
+
+    it('ignores payments that are not for a visit', async () => {
+      await expect(service.recordServicePayment(payment({ paymentType: PaymentType.BONUS }))).resolves.toBe(false);
+      await expect(service.recordServicePayment(payment({ nurseId: undefined }))).resolves.toBe(false);
+      expect(ledgerEntryModel.exists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestWithdrawal', () => {
+    const nurse = { _id: new Types.ObjectId(), name: 'Mona' } as unknown as UserDocument;
+    const request = { amount: 20000, payoutMethod: PayoutMethod.BANK_TRANSFER, payoutDetails: 'EG38 0019 0005' };
+
+    beforeEach(() => {
+      jest.spyOn(service, 'getBalance').mockResolvedValue({ available: 50000 } as any);
+    });
+
+    it('reserves the amount under the withdrawal', async () => {
+      const result = await service.requestWithdrawal(request, nurse);
+
+      const [lines] = ledgerEntryModel.insertMany.mock.calls[0];
+      expect(lines.every((line: any) => line.transactionId === `withdrawal:${result.data._id}:request`)).toBe(true);
+      expect(lines.map((line: any) => [line.account, line.direction, line.amount])).toEqual([
+        [LedgerAccount.NURSE_EARNINGS, LedgerDirection.DEBIT, 20000],
+        [LedgerAccount.NURSE_WITHDRAWALS, LedgerDirection.CREDIT, 20000],
+      ]);
+    });
+
+    it('refuses a second withdrawal while one is pending', async () => {
+      withdrawalModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.requestWithdrawal(request, nurse)).rejects.toThrow(BadRequestException);
+      expect(withdrawalModel.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses the loser of two concurrent requests without reserving anything', async () => {
+      withdrawalModel.create.mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+      await expect(service.requestWithdrawal(request, nurse))
+        .rejects.toThrow('You already have a withdrawal waiting for approval');
+      expect(ledgerEntryModel.insertMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,648 @@
+import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  LedgerEntry,
+  LedgerEntryDocument,
+  LedgerAccount,
+  LedgerDirection
+} from '../schemas/ledger-entry.schema';
+import { Withdrawal, WithdrawalDocument, WithdrawalStatus } from '../schemas/withdrawal.schema';
+import { Payment, PaymentDocument, PaymentStatus, PaymentType, PaymentProviderName } from '../schemas/payment.schema';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { CreateWithdrawalDto, ApproveWithdrawalDto, RejectWithdrawalDto, CreateBonusDto } from '../dto/ledger.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+
+interface LedgerLine {
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount: number;
+  entryType: PaymentType;
+  availableAt?: Date;
+}
+
+interface TransactionContext {
+  description: string;
+  currency?: string;
+  nurseId?: Types.ObjectId;
+  paymentId?: Types.ObjectId;
+  requestId?: Types.ObjectId;
+  withdrawalId?: Types.ObjectId;
+  postedBy?: Types.ObjectId;
+}
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectModel(LedgerEntry.name) private ledgerEntryModel: Model<LedgerEntryDocument>,
+    @InjectModel(Withdrawal.name) private withdrawalModel: Model<WithdrawalDocument>,
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private configService: ConfigService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Books a captured visit payment: the patient's money is split between the
+   * nurse (pending until the clearing period ends) and the platform fee.
+   */
+  async recordServicePayment(payment: PaymentDocument): Promise<boolean> {
+    if (!payment.nurseId || !payment.amount || payment.paymentType !== PaymentType.SERVICE_PAYMENT) {
+      return false;
+    }
+
+    const platformFee = Math.min(payment.platformFee ?? 0, payment.amount);
+    const nurseShare = payment.amount - platformFee;
+    const processedAt = payment.processedAt || new Date();
+
+    return this.post(`payment:${payment._id}:capture`, [
+      { account: LedgerAccount.PATIENT_FUNDS, direction: LedgerDirection.DEBIT, amount: payment.amount, entryType: PaymentType.SERVICE_PAYMENT },
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.CREDIT, amount: nurseShare, entryType: PaymentType.SERVICE_PAYMENT, availableAt: this.clearedAt(processedAt) },
+      { account: LedgerAccount.PLATFORM_REVENUE, direction: LedgerDirection.CREDIT, amount: platformFee, entryType: PaymentType.PLATFORM_FEE },
+    ], {
+      description: payment.description || 'Visit payment',
+      currency: payment.currency,
+      nurseId: payment.nurseId,
+      paymentId: payment._id as Types.ObjectId,
+      requestId: payment.requestId,
+    });
+  }
+
+  /**
+   * Reverses a refund out of the nurse's earnings and the platform fee in the
+   * same proportion the original payment was split, unless `nurseKeeps` says
+   * how much the nurse still earns (e.g. compensation for a late cancellation).
+   */
+  async recordRefund(payment: PaymentDocument, refundAmount?: number, nurseKeeps?: number): Promise<boolean> {
+    return this.reverse(payment, 'refund', refundAmount,
+      payment.refundReason ? `Refund: ${payment.refundReason}` : 'Refund to patient', nurseKeeps);
+  }
+
+  // A lost chargeback takes the money back just like a refund does
+  async recordChargeback(payment: PaymentDocument, amount?: number): Promise<boolean> {
+    return this.reverse(payment, 'chargeback', amount, 'Chargeback lost');
+  }
+
+  /**
+   * Books a visit the patient paid in cash. The visit is booked like any
+   * other payment, and the cash the nurse already holds counts as paid out
+   * to them, which leaves the platform fee owed out of their earnings.
+   */
+  async recordCashCollection(payment: PaymentDocument): Promise<boolean> {
+    await this.recordServicePayment(payment);
+
+    const capture = await this.ledgerEntryModel.findOne({
+      transactionId: `payment:${payment._id}:capture`,
+      account: LedgerAccount.NURSE_EARNINGS,
+    }).exec();
+
+    if (!capture || !payment.amount) {
+      return false;
+    }
+
+    return this.post(`payment:${payment._id}:cash`, [
+      // Clears together with the visit earnings, so only the fee is ever deducted from the balance
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.DEBIT, amount: payment.amount, entryType: PaymentType.CASH_COLLECTION, availableAt: capture.availableAt },
+      { account: LedgerAccount.PAYOUTS, direction: LedgerDirection.CREDIT, amount: payment.amount, entryType: PaymentType.CASH_COLLECTION },
+    ], {
+      description: 'Collected in cash at the visit',
+      currency: payment.currency,
+      nurseId: payment.nurseId,
+      paymentId: payment._id as Types.ObjectId,
+      requestId: payment.requestId,
+    });
+  }
+
+  /**
+   * Books completed visit payments the ledger has not seen yet, e.g. payments
+   * captured before the ledger existed or whose posting failed.
+   */
+  async recordMissingServicePayments(): Promise<number> {
+    const booked = await this.ledgerEntryModel.distinct('paymentId', {
+      entryType: PaymentType.SERVICE_PAYMENT,
+      paymentId: { $exists: true },
+    });
+
+    const payments = await this.paymentModel.find({
+      _id: { $nin: booked },
+      paymentType: PaymentType.SERVICE_PAYMENT,
+      status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+      nurseId: { $exists: true },
+    }).exec();
+
+    let recorded = 0;
+    for (const payment of payments) {
+      if (await this.recordServicePayment(payment)) {
+        recorded++;
+      }
+      if (payment.paymentProvider === PaymentProviderName.CASH) {
+        await this.recordCashCollection(payment);
+      }
+      if (payment.status === PaymentStatus.REFUNDED && payment.refundAmount) {
+        await this.recordRefund(payment, payment.refundAmount, payment.metadata?.nurseKeeps);
+      }
+    }
+
+    return recorded;
+  }
+
+  async grantBonus(createBonusDto: CreateBonusDto, adminUser: UserDocument) {
+    const nurse = await this.userModel.findOne({ _id: createBonusDto.nurseId, role: UserRole.NURSE }).exec();
+    if (!nurse) {
+      throw new NotFoundException('Nurse not found');
+    }
+
+    const transactionId = `bonus:${new Types.ObjectId()}`;
+    await this.post(transactionId, [
+      { account: LedgerAccount.PLATFORM_EXPENSES, direction: LedgerDirection.DEBIT, amount: createBonusDto.amount, entryType: PaymentType.BONUS },
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.CREDIT, amount: createBonusDto.amount, entryType: PaymentType.BONUS },
+    ], {
+      description: createBonusDto.description,
+      nurseId: nurse._id as Types.ObjectId,
+      postedBy: new Types.ObjectId(String(adminUser._id)),
+    });
+
+    this.logger.log(`Bonus of ${createBonusDto.amount} granted to nurse ${nurse._id} by ${adminUser._id}`);
+
+    return {
+      success: true,
+      message: 'Bonus granted successfully',
+      data: {
+        transactionId,
+        nurseId: nurse._id,
+        amount: createBonusDto.amount,
+      },
+    };
+  }
+
+  async getBalance(nurseId: string) {
+    const now = new Date();
+    const [earnings] = await this.ledgerEntryModel.aggregate([
+      { $match: { nurseId: new Types.ObjectId(nurseId), account: LedgerAccount.NURSE_EARNINGS } },
+      {
+        $project: {
+          signed: { $cond: [{ $eq: ['$direction', LedgerDirection.CREDIT] }, '$amount', { $multiply: ['$amount', -1] }] },
+          cleared: { $lte: ['$availableAt', now] },
+          earned: {
+            $cond: [
+              { $and: [{ $eq: ['$direction', LedgerDirection.CREDIT] }, { $in: ['$entryType', [PaymentType.SERVICE_PAYMENT, PaymentType.BONUS]] }] },
+              '$amount',
+              0,
+            ],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          available: { $sum: { $cond: ['$cleared', '$signed', 0] } },
+          pending: { $sum: { $cond: ['$cleared', 0, '$signed'] } },
+          lifetimeEarnings: { $sum: '$earned' },
+        },
+      },
+    ]);
+
+    const [withdrawing, paidOut] = await Promise.all([
+      this.accountBalance(nurseId, LedgerAccount.NURSE_WITHDRAWALS, LedgerDirection.CREDIT),
+      this.accountBalance(nurseId, LedgerAccount.PAYOUTS, LedgerDirection.CREDIT),
+    ]);
+
+    return {
+      currency: 'egp',
+      available: earnings?.available ?? 0,
+      pending: earnings?.pending ?? 0,
+      inWithdrawal: withdrawing,
+      paidOut,
+      lifetimeEarnings: earnings?.lifetimeEarnings ?? 0,
+      minWithdrawal: this.minWithdrawal(),
+      clearingDays: this.clearingDays(),
+    };
+  }
+
+  async getNurseLedger(nurseId: string, page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+    const query = { nurseId: new Types.ObjectId(nurseId), account: LedgerAccount.NURSE_EARNINGS };
+
+    const [entries, total] = await Promise.all([
+      this.ledgerEntryModel
+        .find(query)
+        .populate('requestId', 'title serviceType')
+        .sort({ postedAt: -1, line: 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.ledgerEntryModel.countDocuments(query),
+    ]);
+
+    return {
+      success: true,
+      message: 'Ledger retrieved successfully',
+      data: {
+        entries: entries.map(entry => this.toNurseEntry(entry)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  /**
+   * Earnings statement for one calendar month (UTC): opening balance, what
+   * moved during the month by type, and the closing balance.
+   */
+  async getMonthlyStatement(nurseId: string, year: number, month: number) {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new BadRequestException('Invalid statement period');
+    }
+
+    const start = new Date(Date.UTC(year, month - 1, 1));
+    const end = new Date(Date.UTC(year, month, 1));
+    const nurseObjectId = new Types.ObjectId(nurseId);
+
+    const [opening, entries, platformFees] = await Promise.all([
+      this.accountBalance(nurseId, LedgerAccount.NURSE_EARNINGS, LedgerDirection.CREDIT, { postedAt: { $lt: start } }),
+      this.ledgerEntryModel
+        .find({ nurseId: nurseObjectId, account: LedgerAccount.NURSE_EARNINGS, postedAt: { $gte: start, $lt: end } })
+        .populate('requestId', 'title serviceType')
+        .sort({ postedAt: 1, line: 1 })
+        .exec(),
+      this.accountBalance(nurseId, LedgerAccount.PLATFORM_REVENUE, LedgerDirection.CREDIT, { postedAt: { $gte: start, $lt: end } }),
+    ]);
+
+    const lines = entries.map(entry => this.toNurseEntry(entry));
+    const totals = { visitEarnings: 0, bonuses: 0, refunds: 0, withdrawals: 0 };
+    for (const line of lines) {
+      if (line.entryType === PaymentType.SERVICE_PAYMENT) totals.visitEarnings += line.amount;
+      else if (line.entryType === PaymentType.BONUS) totals.bonuses += line.amount;
+      else if (line.entryType === PaymentType.REFUND) totals.refunds += line.amount;
+      else if (line.entryType === PaymentType.WITHDRAWAL) totals.withdrawals += line.amount;
+    }
+    const net = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+      success: true,
+      message: 'Monthly statement retrieved successfully',
+      data: {
+        period: { year, month, start, end },
+        currency: 'egp',
+        openingBalance: opening,
+        ...totals,
+        platformFees,
+        closingBalance: opening + net,
+        entries: lines,
+      },
+    };
+  }
+
+  async requestWithdrawal(createWithdrawalDto: CreateWithdrawalDto, user: UserDocument) {
+    const { amount, payoutMethod, payoutDetails, note } = createWithdrawalDto;
+
+    if (amount < this.minWithdrawal()) {
+      throw new BadRequestException(`The minimum withdrawal is EGP ${(this.minWithdrawal() / 100).toFixed(2)}`);
+    }
+
+    // One withdrawal at a time keeps concurrent requests from overdrawing the balance;
+    // the unique index on pending withdrawals settles requests that pass this check together
+    const open = await this.withdrawalModel.exists({ nurseId: user._id, status: WithdrawalStatus.PENDING });
+    if (open) {
+      throw new BadRequestException('You already have a withdrawal waiting for approval');
+    }
+
+    const balance = await this.getBalance(String(user._id));
+    if (amount > balance.available) {
+      throw new BadRequestException(`You can withdraw at most EGP ${(balance.available / 100).toFixed(2)}`);
+    }
+
+    let withdrawal: WithdrawalDocument;
+    try {
+      withdrawal = await this.withdrawalModel.create({
+        nurseId: user._id,
+        amount,
+        payoutMethod,
+        payoutDetails,
+        note,
+      });
+    } catch (error: any) {
+      // A concurrent request created the pending withdrawal first
+      if (error?.code === 11000) {
+        throw new BadRequestException('You already have a withdrawal waiting for approval');
+      }
+      throw error;
+    }
+
+    // Reserve the amount so it is no longer available while the admin reviews it
+    await this.post(`withdrawal:${withdrawal._id}:request`, [
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.DEBIT, amount, entryType: PaymentType.WITHDRAWAL },
+      { account: LedgerAccount.NURSE_WITHDRAWALS, direction: LedgerDirection.CREDIT, amount, entryType: PaymentType.WITHDRAWAL },
+    ], {
+      description: 'Withdrawal requested',
+      nurseId: new Types.ObjectId(String(user._id)),
+      withdrawalId: withdrawal._id as Types.ObjectId,
+    });
+
+    this.logger.log(`Withdrawal ${withdrawal._id} of ${amount} requested by nurse ${user._id}`);
+
+    try {
+      const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+      await Promise.all(admins.map(admin => this.notificationsService.notifyWithdrawalRequested(
+        String(admin._id), String(withdrawal._id), user.name || 'A nurse', amount
+      )));
+    } catch (notificationError) {
+      console.error('Failed to send withdrawal request notifications:', notificationError);
+      // Don't fail the withdrawal request if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Withdrawal requested successfully',
+      data: withdrawal,
+    };
+  }
+
+  async getWithdrawalsForNurse(nurseId: string, page = 1, limit = 20) {
+    return this.listWithdrawals({ nurseId: new Types.ObjectId(nurseId) }, page, limit);
+  }
+
+  async getWithdrawalsForAdmin(status?: WithdrawalStatus, page = 1, limit = 20) {
+    return this.listWithdrawals(status ? { status } : {}, page, limit);
+  }
+
+  async approveWithdrawal(withdrawalId: string, approveWithdrawalDto: ApproveWithdrawalDto, adminUser: UserDocument) {
+    const withdrawal = await this.findPendingWithdrawal(withdrawalId);
+
+    withdrawal.status = WithdrawalStatus.PAID;
+    withdrawal.reviewedBy = new Types.ObjectId(String(adminUser._id));
+    withdrawal.reviewedAt = new Date();
+    withdrawal.payoutReference = approveWithdrawalDto.payoutReference;
+    await withdrawal.save();
+
+    await this.post(`withdrawal:${withdrawal._id}:paid`, [
+      { account: LedgerAccount.NURSE_WITHDRAWALS, direction: LedgerDirection.DEBIT, amount: withdrawal.amount, entryType: PaymentType.WITHDRAWAL },
+      { account: LedgerAccount.PAYOUTS, direction: LedgerDirection.CREDIT, amount: withdrawal.amount, entryType: PaymentType.WITHDRAWAL },
+    ], {
+      description: approveWithdrawalDto.payoutReference ? `Withdrawal paid (${approveWithdrawalDto.payoutReference})` : 'Withdrawal paid',
+      nurseId: withdrawal.nurseId,
+      withdrawalId: withdrawal._id as Types.ObjectId,
+      postedBy: withdrawal.reviewedBy,
+    });
+
+    this.logger.log(`Withdrawal ${withdrawal._id} paid by ${adminUser._id}`);
+
+    try {
+      await this.notificationsService.notifyWithdrawalProcessed(
+        String(withdrawal.nurseId), String(withdrawal._id), withdrawal.amount, true
+      );
+    } catch (notificationError) {
+      console.error('Failed to send withdrawal notification:', notificationError);
+      // Don't fail the approval if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Withdrawal marked as paid',
+      data: withdrawal,
+    };
+  }
+
+  async rejectWithdrawal(withdrawalId: string, rejectWithdrawalDto: RejectWithdrawalDto, adminUser: UserDocument) {
+    const withdrawal = await this.findPendingWithdrawal(withdrawalId);
+
+    withdrawal.status = WithdrawalStatus.REJECTED;
+    withdrawal.reviewedBy = new Types.ObjectId(String(adminUser._id));
+    withdrawal.reviewedAt = new Date();
+    withdrawal.rejectionReason = rejectWithdrawalDto.reason;
+    await withdrawal.save();
+
+    // Give the reserved amount back to the nurse's available balance
+    await this.post(`withdrawal:${withdrawal._id}:rejected`, [
+      { account: LedgerAccount.NURSE_WITHDRAWALS, direction: LedgerDirection.DEBIT, amount: withdrawal.amount, entryType: PaymentType.WITHDRAWAL },
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.CREDIT, amount: withdrawal.amount, entryType: PaymentType.WITHDRAWAL },
+    ], {
+      description: 'Withdrawal rejected',
+      nurseId: withdrawal.nurseId,
+      withdrawalId: withdrawal._id as Types.ObjectId,
+      postedBy: withdrawal.reviewedBy,
+    });
+
+    this.logger.log(`Withdrawal ${withdrawal._id} rejected by ${adminUser._id}`);
+
+    try {
+      await this.notificationsService.notifyWithdrawalProcessed(
+        String(withdrawal.nurseId), String(withdrawal._id), withdrawal.amount, false, rejectWithdrawalDto.reason
+      );
+    } catch (notificationError) {
+      console.error('Failed to send withdrawal notification:', notificationError);
+      // Don't fail the rejection if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Withdrawal rejected',
+      data: withdrawal,
+    };
+  }
+
+  /**
+   * Platform-wide balance per account. Debits and credits must match; a
+   * non-zero difference means a transaction was written partially.
+   */
+  async getTrialBalance() {
+    const rows = await this.ledgerEntryModel.aggregate([
+      {
+        $group: {
+          _id: '$account',
+          debits: { $sum: { $cond: [{ $eq: ['$direction', LedgerDirection.DEBIT] }, '$amount', 0] } },
+          credits: { $sum: { $cond: [{ $eq: ['$direction', LedgerDirection.CREDIT] }, '$amount', 0] } },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    const totalDebits = rows.reduce((sum, row) => sum + row.debits, 0);
+    const totalCredits = rows.reduce((sum, row) => sum + row.credits, 0);
+
+    return {
+      success: true,
+      message: 'Trial balance retrieved successfully',
+      data: {
+        accounts: rows.map(row => ({ account: row._id, debits: row.debits, credits: row.credits })),
+        totalDebits,
+        totalCredits,
+        balanced: totalDebits === totalCredits,
+      },
+    };
+  }
+
+  private async reverse(payment: PaymentDocument, kind: 'refund' | 'chargeback', requestedAmount: number | undefined, description: string, nurseKeeps?: number): Promise<boolean> {
+    const capture = await this.ledgerEntryModel.findOne({
+      transactionId: `payment:${payment._id}:capture`,
+      account: LedgerAccount.NURSE_EARNINGS,
+    }).exec();
+
+    // Nothing was booked for this payment, so there is nothing to reverse
+    if (!capture || !payment.amount) {
+      return false;
+    }
+
+    const amount = Math.min(requestedAmount ?? payment.amount, payment.amount);
+    const nurseShare = nurseKeeps === undefined
+      ? Math.round(amount * capture.amount / payment.amount)
+      : Math.min(Math.max(capture.amount - nurseKeeps, 0), amount);
+
+    return this.post(`payment:${payment._id}:${kind}`, [
+      // Reversing a payment that is still clearing reduces the pending balance, not the available one
+      { account: LedgerAccount.NURSE_EARNINGS, direction: LedgerDirection.DEBIT, amount: nurseShare, entryType: PaymentType.REFUND, availableAt: capture.availableAt },
+      { account: LedgerAccount.PLATFORM_REVENUE, direction: LedgerDirection.DEBIT, amount: amount - nurseShare, entryType: PaymentType.REFUND },
+      { account: LedgerAccount.PATIENT_FUNDS, direction: LedgerDirection.CREDIT, amount, entryType: PaymentType.REFUND },
+    ], {
+      description,
+      currency: payment.currency,
+      nurseId: payment.nurseId,
+      paymentId: payment._id as Types.ObjectId,
+      requestId: payment.requestId,
+    });
+  }
+
+  /**
+   * Writes a balanced transaction. Posting the same transactionId again is a
+   * no-op, so callers can retry safely; returns false when nothing was written.
+   */
+  private async post(transactionId: string, lines: LedgerLine[], context: TransactionContext): Promise<boolean> {
+    const nonZero = lines.filter(line => line.amount > 0);
+    const debits = nonZero.filter(line => line.direction === LedgerDirection.DEBIT).reduce((sum, line) => sum + line.amount, 0);
+    const credits = nonZero.filter(line => line.direction === LedgerDirection.CREDIT).reduce((sum, line) => sum + line.amount, 0);
+
+    if (debits !== credits) {
+      throw new Error(`Unbalanced ledger transaction ${transactionId}: debits ${debits}, credits ${credits}`);
+    }
+
+    if (nonZero.length === 0 || await this.ledgerEntryModel.exists({ transactionId })) {
+      return false;
+    }
+
+    const postedAt = new Date();
+    try {
+      await this.ledgerEntryModel.insertMany(nonZero.map((line, index) => ({
+        transactionId,
+        line: index + 1,
+        account: line.account,
+        direction: line.direction,
+        amount: line.amount,
+        currency: (context.currency || 'egp').toLowerCase(),
+        entryType: line.entryType,
+        nurseId: context.nurseId,
+        paymentId: context.paymentId,
+        requestId: context.requestId,
+        withdrawalId: context.withdrawalId,
+        description: context.description,
+        availableAt: line.availableAt || postedAt,
+        postedAt,
+        postedBy: context.postedBy,
+      })));
+    } catch (error: any) {
+      // A concurrent post of the same transaction won the unique index
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async accountBalance(nurseId: string, account: LedgerAccount, normalSide: LedgerDirection, extra: Record<string, any> = {}): Promise<number> {
+    const [row] = await this.ledgerEntryModel.aggregate([
+      { $match: { nurseId: new Types.ObjectId(nurseId), account, ...extra } },
+      {
+        $group: {
+          _id: null,
+          balance: { $sum: { $cond: [{ $eq: ['$direction', normalSide] }, '$amount', { $multiply: ['$amount', -1] }] } },
+        },
+      },
+    ]);
+
+    return row?.balance ?? 0;
+  }
+
+  private async listWithdrawals(query: Record<string, any>, page: number, limit: number) {
+    const skip = (page - 1) * limit;
+
+    const [withdrawals, total] = await Promise.all([
+      this.withdrawalModel
+        .find(query)
+        .populate('nurseId', 'name email phone')
+        .populate('reviewedBy', 'name')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.withdrawalModel.countDocuments(query),
+    ]);
+
+    return {
+      success: true,
+      message: 'Withdrawals retrieved successfully',
+      data: {
+        withdrawals,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  private async findPendingWithdrawal(withdrawalId: string): Promise<WithdrawalDocument> {
+    const withdrawal = await this.withdrawalModel.findById(withdrawalId).exec();
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    if (withdrawal.status !== WithdrawalStatus.PENDING) {
+      throw new BadRequestException(`This withdrawal is already ${withdrawal.status}`);
+    }
+
+    return withdrawal;
+  }
+
+  // Nurse-facing view of an earnings line: credits positive, debits negative
+  private toNurseEntry(entry: LedgerEntryDocument) {
+    const request = entry.requestId as any;
+
+    return {
+      id: entry._id,
+      transactionId: entry.transactionId,
+      entryType: entry.entryType,
+      description: entry.description,
+      amount: entry.direction === LedgerDirection.CREDIT ? entry.amount : -entry.amount,
+      currency: entry.currency,
+      postedAt: entry.postedAt,
+      availableAt: entry.availableAt,
+      pending: entry.availableAt > new Date(),
+      request: request?.title ? { id: request._id, title: request.title, serviceType: request.serviceType } : null,
+      paymentId: entry.paymentId,
+      withdrawalId: entry.withdrawalId,
+    };
+  }
+
+  private clearedAt(from: Date): Date {
+    return new Date(from.getTime() + this.clearingDays() * 24 * 60 * 60 * 1000);
+  }
+
+  private clearingDays(): number {
+    const days = Number(this.configService.get('PAYOUT_CLEARING_DAYS'));
+    return Number.isFinite(days) ? days : 7;
+  }
+
+  private minWithdrawal(): number {
+    return Number(this.configService.get('MIN_WITHDRAWAL_AMOUNT')) || 10000;
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ValidationPipe,
+  HttpStatus
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse
+} from '@nestjs/swagger';
+import { MessagingService } from './messaging.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SendMessageDto, GetMessagesQueryDto, ArchiveConversationDto } from '../dto/message.dto';
+
+@ApiTags('Messaging')
+@Controller('api/messaging')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@ApiUnauthorizedResponse({ description: 'Invalid or missing JWT token' })
+export class MessagingController {
+  constructor(private readonly messagingService: MessagingService) {}
+
+  @Get('conversations')
+  @ApiOperation({
+    summary: 'List conversations',
+    description: 'List the conversations of the authenticated user, most recent first'
+  })
+  @ApiQuery({
+    name: 'archived',
+    description: 'List archived conversations instead of active ones',
+    required: false,
+    example: false
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Conversations retrieved successfully' })
+  async getConversations(@Request() req: any, @Query('archived') archived?: string) {
+    return this.messagingService.getConversations(req.user, { archived: archived === 'true' });
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get the total number of unread messages' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Unread count retrieved successfully' })
+  async getUnreadCount(@Request() req: any) {
+    return this.messagingService.getUnreadCount(req.user);
+  }
+
+  @Get('conversations/request/:requestId')
+  @ApiOperation({ summary: 'Get the conversation opened for a request' })
+  @ApiParam({ name: 'requestId', description: 'Request ID', example: '507f1f77bcf86cd799439013' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Conversation retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'No conversation has been opened for this request' })
+  @ApiForbiddenResponse({ description: 'Not a participant in this conversation' })
+  async getConversationByRequest(@Param('requestId') requestId: string, @Request() req: any) {
+    return this.messagingService.getConversationByRequest(requestId, req.user);
+  }
+
+  @Get('conversations/:id')
+  @ApiOperation({ summary: 'Get a conversation' })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Conversation retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Conversation not found' })
+  @ApiForbiddenResponse({ description: 'Not a participant in this conversation' })
+  async getConversation(@Param('id') conversationId: string, @Request() req: any) {
+    return this.messagingService.getConversationById(conversationId, req.user);
+  }
+
+  @Get('conversations/:id/messages')
+  @ApiOperation({
+    summary: 'Page through messages',
+    description: 'Returns messages oldest-first. Pass the returned nextCursor as `before` to load older messages.'
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Messages retrieved successfully' })
+  @ApiNotFoundResponse({ description: 'Conversation not found' })
+  @ApiForbiddenResponse({ description: 'Not a participant in this conversation' })
+  async getMessages(
+    @Param('id') conversationId: string,
+    @Query(new ValidationPipe({ transform: true })) query: GetMessagesQueryDto,
+    @Request() req: any
+  ) {
+    return this.messagingService.getMessages(conversationId, query, req.user);
+  }
+
+  @Post('conversations/:id/messages')
+  @ApiOperation({
+    summary: 'Send a message',
+    description: 'Send a text, image, file or location message. Upload attachments first and pass their URL.'
+  })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Message sent successfully' })
+  @ApiNotFoundResponse({ description: 'Conversation not found' })
+  @ApiForbiddenResponse({ description: 'Not a participant in this conversation' })
+  async sendMessage(
+    @Param('id') conversationId: string,
+    @Body(ValidationPipe) sendMessageDto: SendMessageDto,
+    @Request() req: any
+  ) {
+    return this.messagingService.sendMessage(conversationId, sendMessageDto, req.user);
+  }
+
+  @Patch('conversations/:id/delivered')
+  @ApiOperation({ summary: 'Mark incoming messages as delivered' })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Messages marked as delivered' })
+  async markDelivered(@Param('id') conversationId: string, @Request() req: any) {
+    return this.messagingService.markDelivered(conversationId, req.user);
+  }
+
+  @Patch('conversations/:id/read')
+  @ApiOperation({ summary: 'Mark incoming messages as read' })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Messages marked as read' })
+  async markRead(@Param('id') conversationId: string, @Request() req: any) {
+    return this.messagingService.markRead(conversationId, req.user);
+  }
+
+  @Patch('conversations/:id/archive')
+  @ApiOperation({ summary: 'Archive or restore a conversation for the authenticated user' })
+  @ApiParam({ name: 'id', description: 'Conversation ID', example: '507f1f77bcf86cd799439011' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Conversation archive flag updated' })
+  async setArchived(
+    @Param('id') conversationId: string,
+    @Body(ValidationPipe) archiveDto: ArchiveConversationDto,
+    @Request() req: any
+  ) {
+    return this.messagingService.setArchived(conversationId, archiveDto.archived, req.user);
+  }
+}
@@ -0,0 +1,103 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { MessagingGateway } from './messaging.gateway';
+import { JwtStrategy } from '../auth/jwt.strategy';
+import { SessionService } from '../auth/session.service';
+import { User, UserStatus } from '../schemas/user.schema';
+
+const SECRET = 'nurse-platform-super-secret-jwt-key-2024';
+
+describe('MessagingGateway', () => {
+  let gateway: MessagingGateway;
+  let jwtService: JwtService;
+  let userModel: { findById: jest.Mock };
+  let sessionService: { isActive: jest.Mock };
+
+  const userId = String(new Types.ObjectId());
+  const user = { _id: userId, email: 'nurse@example.com', role: 'nurse', status: UserStatus.VERIFIED };
+
+  const accessToken = (claims: Record<string, any> = {}) =>
+    jwtService.sign(
+      { sub: userId, email: user.email, role: user.role, sid: 'session-1', ...claims },
+      { secret: SECRET, issuer: 'nurse-platform', audience: 'nurse-platform-users' },
+    );
+
+  const connect = async (token: string) => {
+    const client: any = {
+      handshake: { auth: { token }, headers: {} },
+      data: {},
+      join: jest.fn(),
+      disconnect: jest.fn(),
+    };
+    await gateway.handleConnection(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    userModel = { findById: jest.fn().mockReturnValue({ exec: async () => user }) };
+    sessionService = { isActive: jest.fn().mockResolvedValue(true) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MessagingGateway,
+        JwtStrategy,
+        { provide: JwtService, useValue: new JwtService({ secret: SECRET }) },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    gateway = moduleRef.get(MessagingGateway);
+    jwtService = moduleRef.get(JwtService);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('joins the user room for a valid access token', async () => {
+    const client = await connect(accessToken());
+
+    expect(client.join).toHaveBeenCalledWith(`user:${userId}`);
+    expect(client.data.userId).toBe(userId);
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens issued for another audience, such as password reset links', async () => {
+    const resetToken = jwtService.sign(
+      { sub: userId, purpose: 'password_reset' },
+      { secret: SECRET, issuer: 'nurse-platform', audience: 'nurse-platform-password-reset' },
+    );
+
+    const client = await connect(resetToken);
+
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('rejects tokens whose session has been revoked', async () => {
+    sessionService.isActive.mockResolvedValue(false);
+
+    const client = await connect(accessToken());
+
+    expect(sessionService.isActive).toHaveBeenCalledWith('session-1');
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('rejects suspended users', async () => {
+    userModel.findById.mockReturnValue({ exec: async () => ({ ...user, status: UserStatus.SUSPENDED }) });
+
+    const client = await connect(accessToken());
+
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('disconnects clients that send no token', async () => {
+    const client = await connect('');
+
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  OnGatewayConnection,
+  OnGatewayDisconnect
+} from '@nestjs/websockets';
+import type { Server, Socket } from 'socket.io';
+import { JwtPayload, JwtStrategy } from '../auth/jwt.strategy';
+
+/**
+ * Pushes chat events to connected clients.
+ * Clients authenticate with the same JWT used for the REST API (handshake `auth.token`
+ * or an `Authorization: Bearer` header) and are joined to a private room per user.
+ * The token goes through the same audience, session and suspension checks as the REST guard.
+ * Sending and reading messages goes through the REST endpoints; this gateway only emits.
+ */
+@WebSocketGateway({
+  namespace: '/messaging',
+  cors: { origin: true, credentials: true },
+})
+export class MessagingGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  private readonly logger = new Logger(MessagingGateway.name);
+
+  @WebSocketServer()
+  server!: Server;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly jwtStrategy: JwtStrategy,
+  ) {}
+
+  async handleConnection(client: Socket) {
+    const token = this.extractToken(client);
+    if (!token) {
+      client.disconnect(true);
+      return;
+    }
+
+    try {
+      // Email-verification and password-reset tokens share the secret but not the audience
+      const payload = this.jwtService.verify<JwtPayload>(token, {
+        audience: 'nurse-platform-users',
+        issuer: 'nurse-platform',
+      });
+      await this.jwtStrategy.validate(payload);
+      client.data.userId = payload.sub;
+      client.join(this.userRoom(payload.sub));
+      this.logger.log(`Messaging client connected for user ${payload.sub}`);
+    } catch (error) {
+      this.logger.warn(`Rejected messaging connection: ${(error as Error).message}`);
+      client.disconnect(true);
+    }
+  }
+
+  handleDisconnect(client: Socket) {
+    if (client.data.userId) {
+      this.logger.log(`Messaging client disconnected for user ${client.data.userId}`);
+    }
+  }
+
+  emitNewMessage(recipientIds: string[], payload: Record<string, any>) {
+    this.emitToUsers(recipientIds, 'message:new', payload);
+  }
+
+  emitMessagesDelivered(recipientIds: string[], payload: Record<string, any>) {
+    this.emitToUsers(recipientIds, 'message:delivered', payload);
+  }
+
+  emitMessagesRead(recipientIds: string[], payload: Record<string, any>) {
+    this.emitToUsers(recipientIds, 'message:read', payload);
+  }
+
+  emitConversationOpened(recipientIds: string[], payload: Record<string, any>) {
+    this.emitToUsers(recipientIds, 'conversation:opened', payload);
+  }
+
+  private emitToUsers(userIds: string[], event: string, payload: Record<string, any>) {
+    // The server is only available once the gateway has been bound to the HTTP adapter
+    if (!this.server) return;
+
+    userIds.forEach(userId => {
+      this.server.to(this.userRoom(userId)).emit(event, payload);
+    });
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private extractToken(client: Socket): string | undefined {
+    const authToken = client.handshake.auth?.token;
+    if (typeof authToken === 'string' && authToken) {
+      return authToken.replace(/^Bearer\s+/i, '');
+    }
+
+    const header = client.handshake.headers?.authorization;
+    if (typeof header === 'string' && header.startsWith('Bearer ')) {
+      return header.slice(7);
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MessagingController } from './messaging.controller';
+import { MessagingService } from './messaging.service';
+import { MessagingGateway } from './messaging.gateway';
+import { Message, MessageSchema, Conversation, ConversationSchema } from '../schemas/message.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Message.name, schema: MessageSchema },
+      { name: Conversation.name, schema: ConversationSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [MessagingController],
+  providers: [MessagingService, MessagingGateway],
+  exports: [MessagingService],
+})
+export class MessagingModule {}
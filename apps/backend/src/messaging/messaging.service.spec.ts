@@ -0,0 +1,130 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { MessagingService } from './messaging.service';
+import { MessagingGateway } from './messaging.gateway';
+import { Conversation, Message, MessageStatus, MessageType } from '../schemas/message.schema';
+import { PatientRequest } from '../schemas/patient-request.schema';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  populate: () => query(value),
+  sort: () => query(value),
+  limit: () => query(value),
+  exec: async () => value,
+});
+
+describe('MessagingService', () => {
+  let service: MessagingService;
+  let conversationModel: { findById: jest.Mock; findOne: jest.Mock; updateOne: jest.Mock };
+  let messageModel: { find: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  let requestModel: { findById: jest.Mock };
+  let gateway: { emitNewMessage: jest.Mock; emitMessagesRead: jest.Mock };
+
+  const patient: any = { _id: new Types.ObjectId() };
+  const nurse: any = { _id: new Types.ObjectId() };
+  const stranger: any = { _id: new Types.ObjectId() };
+
+  const conversation: any = {
+    _id: new Types.ObjectId(),
+    patientId: patient._id,
+    nurseId: nurse._id,
+    unreadCountPatient: 2,
+    unreadCountNurse: 0,
+  };
+
+  beforeEach(async () => {
+    conversationModel = { findById: jest.fn(), findOne: jest.fn(), updateOne: jest.fn() };
+    messageModel = { find: jest.fn(), create: jest.fn(), updateMany: jest.fn() };
+    requestModel = { findById: jest.fn() };
+    gateway = { emitNewMessage: jest.fn(), emitMessagesRead: jest.fn() };
+    conversationModel.findById.mockReturnValue(query(conversation));
+    conversationModel.updateOne.mockReturnValue(query({ modifiedCount: 1 }));
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MessagingService,
+        { provide: getModelToken(Conversation.name), useValue: conversationModel },
+        { provide: getModelToken(Message.name), useValue: messageModel },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: MessagingGateway, useValue: gateway },
+      ],
+    }).compile();
+
+    service = moduleRef.get(MessagingService);
+  });
+
+  describe('malformed conversation ids', () => {
+    it('answers 404 when fetching a conversation', async () => {
+      await expect(service.getConversationById('not-an-id', patient)).rejects.toBeInstanceOf(NotFoundException);
+      expect(conversationModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 when reading or sending messages', async () => {
+      await expect(service.getMessages('not-an-id', {}, patient)).rejects.toBeInstanceOf(NotFoundException);
+      await expect(service.sendMessage('not-an-id', { content: 'Hello' } as any, patient)).rejects.toBeInstanceOf(NotFoundException);
+      expect(conversationModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('still answers 404 for a well-formed id that matches nothing', async () => {
+      conversationModel.findById.mockReturnValue(query(null));
+
+      await expect(service.getConversationById(String(new Types.ObjectId()), patient)).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('access rules', () => {
+    it('keeps users who are not part of the conversation out', async () => {
+      await expect(service.getConversationById(String(conversation._id), stranger)).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(service.getMessages(String(conversation._id), {}, stranger)).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(service.sendMessage(String(conversation._id), { content: 'Hi' } as any, stranger)).rejects.toBeInstanceOf(ForbiddenException);
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses system messages sent by users', async () => {
+      await expect(
+        service.sendMessage(String(conversation._id), { type: MessageType.SYSTEM, content: 'Visit cancelled' } as any, patient)
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('refuses empty text messages', async () => {
+      await expect(service.sendMessage(String(conversation._id), { content: '   ' } as any, patient)).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('counts a message as unread for the recipient and pushes it to both participants', async () => {
+      messageModel.create.mockImplementation(async (data: any) => ({ _id: new Types.ObjectId(), createdAt: new Date(), ...data }));
+
+      const message = await service.sendMessage(String(conversation._id), { content: ' On my way ' } as any, nurse);
+
+      expect(message.content).toBe('On my way');
+      expect(message.status).toBe(MessageStatus.SENT);
+      expect(conversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: conversation._id },
+        expect.objectContaining({ $inc: { unreadCountPatient: 1 } }),
+      );
+      expect(gateway.emitNewMessage).toHaveBeenCalledWith([String(patient._id), String(nurse._id)], message);
+    });
+
+    it('only marks the other participant\'s messages as read and clears the reader\'s counter', async () => {
+      messageModel.updateMany.mockReturnValue(query({ modifiedCount: 2 }));
+
+      await service.markRead(String(conversation._id), patient);
+
+      expect(messageModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ conversationId: conversation._id, senderId: { $ne: patient._id } }),
+        expect.anything(),
+      );
+      expect(conversationModel.updateOne).toHaveBeenCalledWith({ _id: conversation._id }, { $set: { unreadCountPatient: 0 } });
+      expect(gateway.emitMessagesRead).toHaveBeenCalledWith([String(nurse._id)], expect.anything());
+    });
+
+    it('has no conversation for a request that no nurse has accepted yet', async () => {
+      requestModel.findById.mockReturnValue(query({ patientId: patient._id, nurseId: undefined }));
+
+      await expect(service.getConversationByRequest(String(new Types.ObjectId()), patient)).rejects.toBeInstanceOf(NotFoundException);
+      expect(conversationModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Conversation,
+  ConversationDocument,
+  Message,
+  MessageDocument,
+  MessageStatus,
+  MessageType
+} from '../schemas/message.schema';
+import { PatientRequest, PatientRequestDocument } from '../schemas/patient-request.schema';
+import { UserDocument } from '../schemas/user.schema';
+import { SendMessageDto, GetMessagesQueryDto } from '../dto/message.dto';
+import { MessagingGateway } from './messaging.gateway';
+
+type Participant = 'patient' | 'nurse';
+
+@Injectable()
+export class MessagingService {
+  private readonly logger = new Logger(MessagingService.name);
+
+  constructor(
+    @InjectModel(Conversation.name) private conversationModel: Model<ConversationDocument>,
+    @InjectModel(Message.name) private messageModel: Model<MessageDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    private messagingGateway: MessagingGateway,
+  ) {}
+
+  /**
+   * Helper method to safely compare ObjectIds
+   * Handles cases where IDs might be strings or ObjectId instances
+   */
+  private compareObjectIds(id1: any, id2: any): boolean {
+    if (!id1 || !id2) return false;
+    return id1.toString() === id2.toString();
+  }
+
+  private toObjectId(id: any): Types.ObjectId {
+    return new Types.ObjectId(id.toString());
+  }
+
+  /**
+   * Open (or re-open) the patient–nurse conversation for an accepted request.
+   * There is a single conversation per patient/nurse pair, so a later request
+   * between the same two users re-points the existing conversation; earlier
+   * requests still find it through getConversationByRequest.
+   */
+  async openConversationForRequest(request: {
+    _id: any;
+    patientId: any;
+    nurseId: any;
+    title?: string;
+  }) {
+    const patientId = this.toObjectId(request.patientId);
+    const nurseId = this.toObjectId(request.nurseId);
+
+    const conversation = await this.conversationModel.findOneAndUpdate(
+      { patientId, nurseId },
+      {
+        $set: {
+          requestId: request._id,
+          title: request.title,
+          archivedByPatient: false,
+          archivedByNurse: false,
+        },
+        $setOnInsert: { patientId, nurseId },
+      },
+      { new: true, upsert: true }
+    ).exec();
+
+    const systemMessage = await this.messageModel.create({
+      conversationId: conversation._id,
+      type: MessageType.SYSTEM,
+      content: `Offer accepted for "${request.title || 'your request'}". You can now chat here.`,
+    });
+
+    conversation.lastMessageId = systemMessage._id as Types.ObjectId;
+    conversation.lastMessageAt = systemMessage.createdAt || new Date();
+    await conversation.save();
+
+    this.messagingGateway.emitConversationOpened(
+      [patientId.toString(), nurseId.toString()],
+      {
+        conversationId: conversation._id,
+        requestId: request._id,
+        title: conversation.title,
+      }
+    );
+
+    return conversation;
+  }
+
+  async getConversations(user: UserDocument, options: { archived?: boolean } = {}) {
+    const userId = this.toObjectId(user._id);
+    const archived = options.archived === true;
+
+    const conversations = await this.conversationModel
+      .find({
+        $or: [
+          { patientId: userId, archivedByPatient: archived },
+          { nurseId: userId, archivedByNurse: archived },
+        ],
+      })
+      .populate('patientId', 'name profileImage')
+      .populate('nurseId', 'name profileImage')
+      .populate('requestId', 'title status scheduledDate')
+      .populate('lastMessageId')
+      .sort({ lastMessageAt: -1 })
+      .exec();
+
+    return conversations.map(conversation => this.formatConversation(conversation, user));
+  }
+
+  async getConversationById(conversationId: string, user: UserDocument) {
+    const conversation = !Types.ObjectId.isValid(conversationId) ? null : await this.conversationModel
+      .findById(conversationId)
+      .populate('patientId', 'name profileImage')
+      .populate('nurseId', 'name profileImage')
+      .populate('requestId', 'title status scheduledDate')
+      .populate('lastMessageId')
+      .exec();
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    this.getParticipant(conversation, user);
+    return this.formatConversation(conversation, user);
+  }
+
+  /**
+   * The conversation between the patient and nurse of a request. It is looked
+   * up by the pair rather than by requestId, which only points at the latest
+   * request between them.
+   */
+  async getConversationByRequest(requestId: string, user: UserDocument) {
+    const request = Types.ObjectId.isValid(requestId)
+      ? await this.requestModel.findById(requestId).select('patientId nurseId').exec()
+      : null;
+
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const conversation = !request.nurseId ? null : await this.conversationModel
+      .findOne({ patientId: request.patientId, nurseId: request.nurseId })
+      .populate('patientId', 'name profileImage')
+      .populate('nurseId', 'name profileImage')
+      .populate('requestId', 'title status scheduledDate')
+      .populate('lastMessageId')
+      .exec();
+
+    if (!conversation) {
+      throw new NotFoundException('No conversation has been opened for this request yet');
+    }
+
+    this.getParticipant(conversation, user);
+    return this.formatConversation(conversation, user);
+  }
+
+  async getMessages(conversationId: string, query: GetMessagesQueryDto, user: UserDocument) {
+    const conversation = await this.findConversationForUser(conversationId, user);
+    const limit = query.limit || 30;
+
+    const filter: any = { conversationId: conversation._id };
+    if (query.before) {
+      filter.createdAt = { $lt: new Date(query.before) };
+    }
+
+    // Fetch one extra message to know whether an older page exists
+    const messages = await this.messageModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = messages.length > limit;
+    const page = messages.slice(0, limit).reverse();
+
+    return {
+      messages: page.map(message => this.formatMessage(message)),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && page.length > 0 ? page[0].createdAt : null,
+      },
+    };
+  }
+
+  async sendMessage(conversationId: string, sendMessageDto: SendMessageDto, user: UserDocument) {
+    const conversation = await this.findConversationForUser(conversationId, user);
+    const participant = this.getParticipant(conversation, user);
+    const type = sendMessageDto.type || MessageType.TEXT;
+
+    if (type === MessageType.SYSTEM) {
+      throw new BadRequestException('System messages cannot be sent by users');
+    }
+
+    const content = sendMessageDto.content?.trim() || this.getDefaultContent(type, sendMessageDto);
+    if (!content) {
+      throw new BadRequestException('Message content cannot be empty');
+    }
+
+    const message = await this.messageModel.create({
+      conversationId: conversation._id,
+      senderId: this.toObjectId(user._id),
+      type,
+      content,
+      attachmentUrl: sendMessageDto.attachmentUrl,
+      attachmentMetadata: sendMessageDto.attachmentMetadata,
+      location: sendMessageDto.location,
+      status: MessageStatus.SENT,
+    });
+
+    // Bump the recipient's unread counter and un-archive for both sides
+    const unreadField = participant === 'patient' ? 'unreadCountNurse' : 'unreadCountPatient';
+    await this.conversationModel.updateOne(
+      { _id: conversation._id },
+      {
+        $set: {
+          lastMessageId: message._id,
+          lastMessageAt: message.createdAt || new Date(),
+          archivedByPatient: false,
+          archivedByNurse: false,
+        },
+        $inc: { [unreadField]: 1 },
+      }
+    ).exec();
+
+    const formatted = this.formatMessage(message);
+    this.messagingGateway.emitNewMessage(
+      [conversation.patientId!.toString(), conversation.nurseId!.toString()],
+      formatted
+    );
+
+    this.logger.log(`Message ${message._id} sent in conversation ${conversation._id}`);
+
+    return formatted;
+  }
+
+  async markDelivered(conversationId: string, user: UserDocument) {
+    const conversation = await this.findConversationForUser(conversationId, user);
+    const deliveredAt = new Date();
+
+    const result = await this.messageModel.updateMany(
+      {
+        conversationId: conversation._id,
+        senderId: { $ne: this.toObjectId(user._id) },
+        status: MessageStatus.SENT,
+      },
+      { status: MessageStatus.DELIVERED, deliveredAt }
+    ).exec();
+
+    if (result.modifiedCount > 0) {
+      this.messagingGateway.emitMessagesDelivered(
+        [this.getOtherParticipantId(conversation, user)],
+        { conversationId: conversation._id, deliveredAt }
+      );
+    }
+
+    return { conversationId: conversation._id, modifiedCount: result.modifiedCount, deliveredAt };
+  }
+
+  async markRead(conversationId: string, user: UserDocument) {
+    const conversation = await this.findConversationForUser(conversationId, user);
+    const participant = this.getParticipant(conversation, user);
+    const readAt = new Date();
+
+    const result = await this.messageModel.updateMany(
+      {
+        conversationId: conversation._id,
+        senderId: { $ne: this.toObjectId(user._id) },
+        status: { $ne: MessageStatus.READ },
+      },
+      {
+        $set: { status: MessageStatus.READ, readAt },
+        // Messages read without a delivery receipt count as delivered at read time
+        $min: { deliveredAt: readAt },
+      }
+    ).exec();
+
+    const unreadField = participant === 'patient' ? 'unreadCountPatient' : 'unreadCountNurse';
+    await this.conversationModel.updateOne(
+      { _id: conversation._id },
+      { $set: { [unreadField]: 0 } }
+    ).exec();
+
+    if (result.modifiedCount > 0) {
+      this.messagingGateway.emitMessagesRead(
+        [this.getOtherParticipantId(conversation, user)],
+        { conversationId: conversation._id, readerId: user._id, readAt }
+      );
+    }
+
+    return { conversationId: conversation._id, modifiedCount: result.modifiedCount, readAt };
+  }
+
+  async setArchived(conversationId: string, archived: boolean, user: UserDocument) {
+    const conversation = await this.findConversationForUser(conversationId, user);
+    const participant = this.getParticipant(conversation, user);
+
+    if (participant === 'patient') {
+      conversation.archivedByPatient = archived;
+    } else {
+      conversation.archivedByNurse = archived;
+    }
+    await conversation.save();
+
+    return {
+      message: archived ? 'Conversation archived' : 'Conversation restored',
+      conversationId: conversation._id,
+      archived,
+    };
+  }
+
+  async getUnreadCount(user: UserDocument) {
+    const userId = this.toObjectId(user._id);
+    const [result] = await this.conversationModel.aggregate([
+      { $match: { $or: [{ patientId: userId }, { nurseId: userId }] } },
+      {
+        $group: {
+          _id: null,
+          unreadCount: {
+            $sum: { $cond: [{ $eq: ['$patientId', userId] }, '$unreadCountPatient', '$unreadCountNurse'] },
+          },
+        },
+      },
+    ]).exec();
+
+    return { unreadCount: result?.unreadCount || 0 };
+  }
+
+  private async findConversationForUser(conversationId: string, user: UserDocument) {
+    const conversation = Types.ObjectId.isValid(conversationId)
+      ? await this.conversationModel.findById(conversationId).exec()
+      : null;
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    this.getParticipant(conversation, user);
+    return conversation;
+  }
+
+  private getParticipant(conversation: ConversationDocument, user: UserDocument): Participant {
+    const patientId = (conversation.patientId as any)?._id || conversation.patientId;
+    const nurseId = (conversation.nurseId as any)?._id || conversation.nurseId;
+
+    if (this.compareObjectIds(patientId, user._id)) return 'patient';
+    if (this.compareObjectIds(nurseId, user._id)) return 'nurse';
+
+    throw new ForbiddenException('You are not a participant in this conversation');
+  }
+
+  private getOtherParticipantId(conversation: ConversationDocument, user: UserDocument): string {
+    return this.getParticipant(conversation, user) === 'patient'
+      ? conversation.nurseId!.toString()
+      : conversation.patientId!.toString();
+  }
+
+  private getDefaultContent(type: MessageType, dto: SendMessageDto): string {
+    switch (type) {
+      case MessageType.IMAGE:
+        return '📷 Image';
+      case MessageType.FILE:
+        return `📎 ${dto.attachmentMetadata?.filename || 'File'}`;
+      case MessageType.LOCATION:
+        return `📍 ${dto.location?.address || 'Shared location'}`;
+      default:
+        return '';
+    }
+  }
+
+  private formatConversation(conversation: ConversationDocument, user: UserDocument) {
+    const participant = this.getParticipant(conversation, user);
+    const patient = conversation.patientId as any;
+    const nurse = conversation.nurseId as any;
+    const request = conversation.requestId as any;
+    const lastMessage = conversation.lastMessageId as any;
+    const other = participant === 'patient' ? nurse : patient;
+
+    return {
+      id: conversation._id,
+      title: conversation.title,
+      request: request?._id ? {
+        id: request._id,
+        title: request.title,
+        status: request.status,
+        scheduledDate: request.scheduledDate,
+      } : null,
+      otherParticipant: other?._id ? {
+        id: other._id,
+        name: other.name,
+        profileImage: other.profileImage,
+        role: participant === 'patient' ? 'nurse' : 'patient',
+      } : null,
+      lastMessage: lastMessage?._id ? this.formatMessage(lastMessage) : null,
+      lastMessageAt: conversation.lastMessageAt,
+      unreadCount: participant === 'patient' ? conversation.unreadCountPatient : conversation.unreadCountNurse,
+      archived: participant === 'patient' ? conversation.archivedByPatient : conversation.archivedByNurse,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  private formatMessage(message: MessageDocument) {
+    return {
+      id: message._id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      type: message.type,
+      content: message.content,
+      attachmentUrl: message.attachmentUrl,
+      attachmentMetadata: message.attachmentMetadata,
+      location: message.location,
+      status: message.status,
+      deliveredAt: message.deliveredAt,
+      readAt: message.readAt,
+      createdAt: message.createdAt,
+    };
+  }
+}
@@ -30,6 +30,7 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard, Roles } from '../auth/roles.guard';
 import { UserRole } from '../schemas/user.schema';
 import { NotificationType, NotificationPriority } from '../schemas/notification.schema';
+import { UpdateNotificationPreferencesDto } from '../dto/notification-preferences.dto';
 
 @ApiTags('Notifications')
 @Controller('api/notifications')
@@ -162,6 +163,22 @@ export class NotificationsController {
     return this.notificationsService.markAllAsRead(req.user._id);
   }
 
+  @Delete('clear-all')
+  @ApiOperation({
+    summary: 'Clear all notifications',
+    description: 'Delete all notifications for the authenticated user'
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'All notifications cleared successfully'
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or missing JWT token'
+  })
+  async clearAllNotifications(@Request() req: any) {
+    return this.notificationsService.clearAllNotifications(req.user._id);
+  }
+
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete notification',
@@ -189,22 +206,6 @@ export class NotificationsController {
     return this.notificationsService.deleteNotification(notificationId, req.user._id);
   }
 
-  @Delete('clear-all')
-  @ApiOperation({
-    summary: 'Clear all notifications',
-    description: 'Delete all notifications for the authenticated user'
-  })
-  @ApiResponse({
-    status: HttpStatus.OK,
-    description: 'All notifications cleared successfully'
-  })
-  @ApiUnauthorizedResponse({
-    description: 'Invalid or missing JWT token'
-  })
-  async clearAllNotifications(@Request() req: any) {
-    return this.notificationsService.clearAllNotifications(req.user._id);
-  }
-
   // Admin endpoints
   @Post('broadcast')
   @UseGuards(RolesGuard)
@@ -307,27 +308,9 @@ export class NotificationsController {
   @Patch('preferences')
   @ApiOperation({
     summary: 'Update notification preferences',
-    description: 'Update notification preferences for the authenticated user'
-  })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        emailNotifications: { type: 'boolean', example: true },
-        pushNotifications: { type: 'boolean', example: true },
-        smsNotifications: { type: 'boolean', example: false },
-        notificationTypes: {
-          type: 'object',
-          properties: {
-            request_created: { type: 'boolean', example: true },
-            request_accepted: { type: 'boolean', example: true },
-            request_completed: { type: 'boolean', example: true },
-            review_received: { type: 'boolean', example: true }
-          }
-        }
-      }
-    }
+    description: 'Update channel switches, per-type channel toggles and quiet hours for the authenticated user'
   })
+  @ApiBody({ type: UpdateNotificationPreferencesDto })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Notification preferences updated successfully'
@@ -335,8 +318,11 @@ export class NotificationsController {
   @ApiUnauthorizedResponse({
     description: 'Invalid or missing JWT token'
   })
+  @ApiBadRequestResponse({
+    description: 'Unknown notification type, invalid time or unknown timezone'
+  })
   async updateNotificationPreferences(
-    @Body() preferences: any,
+    @Body() preferences: UpdateNotificationPreferencesDto,
     @Request() req: any
   ) {
     return this.notificationsService.updateNotificationPreferences(req.user._id, preferences);
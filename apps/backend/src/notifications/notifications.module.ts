@@ -2,18 +2,32 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
+import { NotificationsScheduler } from './notifications.scheduler';
 import { Notification, NotificationSchema } from '../schemas/notification.schema';
+import { NotificationPreference, NotificationPreferenceSchema } from '../schemas/notification-preference.schema';
+import { PendingDelivery, PendingDeliverySchema } from '../schemas/pending-delivery.schema';
 import { User, UserSchema } from '../schemas/user.schema';
+import { EmailModule } from '../email/email.module';
+import { SMS_PROVIDER } from './sms/sms-provider.interface';
+import { LocalSmsProvider } from './sms/local-sms.provider';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Notification.name, schema: NotificationSchema },
+      { name: NotificationPreference.name, schema: NotificationPreferenceSchema },
+      { name: PendingDelivery.name, schema: PendingDeliverySchema },
       { name: User.name, schema: UserSchema },
     ]),
+    EmailModule,
   ],
   controllers: [NotificationsController],
-  providers: [NotificationsService],
+  providers: [
+    NotificationsService,
+    NotificationsScheduler,
+    // Swap LocalSmsProvider for a real gateway implementation in production
+    { provide: SMS_PROVIDER, useClass: LocalSmsProvider },
+  ],
   exports: [NotificationsService], // Export the service so other modules can use it
 })
 export class NotificationsModule {}
@@ -0,0 +1,23 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationsService } from './notifications.service';
+
+@Injectable()
+export class NotificationsScheduler {
+  private readonly logger = new Logger(NotificationsScheduler.name);
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  // Quiet hours are set to the minute; ten minutes late is close enough for a held-back email or SMS
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async sendDeferredDeliveries() {
+    try {
+      const sent = await this.notificationsService.sendDeferredDeliveries();
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} notification(s) held back during quiet hours`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send notifications held back during quiet hours', error);
+    }
+  }
+}
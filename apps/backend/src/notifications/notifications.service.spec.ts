@@ -0,0 +1,165 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { NotificationsService } from './notifications.service';
+import { SMS_PROVIDER } from './sms/sms-provider.interface';
+import { Notification, NotificationPriority, NotificationType } from '../schemas/notification.schema';
+import { NotificationPreference } from '../schemas/notification-preference.schema';
+import { PendingDelivery } from '../schemas/pending-delivery.schema';
+import { User } from '../schemas/user.schema';
+import { EmailService } from '../email/email.service';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  sort: () => query(value),
+  limit: () => query(value),
+  lean: () => query(value),
+  exec: async () => value,
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 'HH:mm' in UTC, so quiet hours can be placed around the time the test runs
+const utcTime = (instant: Date) => instant.toISOString().substring(11, 16);
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let preferenceModel: { findOne: jest.Mock; find: jest.Mock };
+  let pendingDeliveryModel: { create: jest.Mock; find: jest.Mock; deleteOne: jest.Mock };
+  let emailService: { sendNotificationEmail: jest.Mock };
+  let smsProvider: { sendSms: jest.Mock };
+
+  const userId = new Types.ObjectId();
+  const now = new Date();
+  const preferences = {
+    userId,
+    smsEnabled: true,
+    quietHours: {
+      enabled: true,
+      start: utcTime(new Date(now.getTime() - HOUR_MS)),
+      end: utcTime(new Date(now.getTime() + HOUR_MS)),
+      timezone: 'UTC',
+    },
+  };
+
+  const accepted = {
+    userId: String(userId),
+    type: NotificationType.REQUEST_ACCEPTED,
+    title: 'Offer accepted',
+    message: 'Your offer for "Wound dressing" was accepted',
+  };
+
+  // Lets the fire-and-forget external delivery finish
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(async () => {
+    const notificationModel = jest.fn().mockImplementation((data: any) => ({
+      save: async () => ({ _id: new Types.ObjectId(), ...data }),
+    }));
+    preferenceModel = {
+      findOne: jest.fn().mockReturnValue(query(preferences)),
+      find: jest.fn().mockReturnValue(query([preferences])),
+    };
+    pendingDeliveryModel = {
+      create: jest.fn().mockResolvedValue({}),
+      find: jest.fn().mockReturnValue(query([])),
+      deleteOne: jest.fn().mockReturnValue(query({ deletedCount: 1 })),
+    };
+    emailService = { sendNotificationEmail: jest.fn().mockResolvedValue(undefined) };
+    smsProvider = { sendSms: jest.fn().mockResolvedValue(undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: getModelToken(Notification.name), useValue: notificationModel },
+        { provide: getModelToken(NotificationPreference.name), useValue: preferenceModel },
+        { provide: getModelToken(PendingDelivery.name), useValue: pendingDeliveryModel },
+        {
+          provide: getModelToken(User.name),
+          useValue: { findById: () => query({ name: 'Sara', email: 'sara@example.com', phone: '+201001234567' }) },
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: SMS_PROVIDER, useValue: smsProvider },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NotificationsService);
+  });
+
+  describe('dispatch during quiet hours', () => {
+    it('saves the in-app notification and holds email and SMS back', async () => {
+      const notification = await service.dispatch(accepted);
+      await flushPromises();
+
+      expect(notification).toMatchObject({ title: 'Offer accepted' });
+      expect(emailService.sendNotificationEmail).not.toHaveBeenCalled();
+      expect(smsProvider.sendSms).not.toHaveBeenCalled();
+      expect(pendingDeliveryModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: accepted.userId,
+        notificationId: notification!._id,
+        type: NotificationType.REQUEST_ACCEPTED,
+        title: 'Offer accepted',
+        email: true,
+        sms: true,
+      }));
+    });
+
+    it('sends urgent notifications straight away', async () => {
+      await service.dispatch({ ...accepted, priority: NotificationPriority.URGENT });
+      await flushPromises();
+
+      expect(pendingDeliveryModel.create).not.toHaveBeenCalled();
+      expect(emailService.sendNotificationEmail).toHaveBeenCalledWith('sara@example.com', 'Sara', expect.objectContaining({ title: 'Offer accepted' }));
+      expect(smsProvider.sendSms).toHaveBeenCalledWith({ to: '+201001234567', body: 'Offer accepted: Your offer for "Wound dressing" was accepted' });
+    });
+
+    it('sends straight away outside quiet hours', async () => {
+      preferenceModel.findOne.mockReturnValue(query({ ...preferences, quietHours: { ...preferences.quietHours, enabled: false } }));
+
+      await service.dispatch(accepted);
+      await flushPromises();
+
+      expect(pendingDeliveryModel.create).not.toHaveBeenCalled();
+      expect(emailService.sendNotificationEmail).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendDeferredDeliveries', () => {
+    const deferred = {
+      _id: new Types.ObjectId(),
+      userId,
+      type: NotificationType.REQUEST_ACCEPTED,
+      title: 'Offer accepted',
+      message: 'Your offer for "Wound dressing" was accepted',
+      email: true,
+      sms: false,
+    };
+
+    beforeEach(() => {
+      pendingDeliveryModel.find.mockReturnValue(query([deferred]));
+    });
+
+    it('keeps holding deliveries while the quiet hours last', async () => {
+      await expect(service.sendDeferredDeliveries(now)).resolves.toBe(0);
+
+      expect(pendingDeliveryModel.deleteOne).not.toHaveBeenCalled();
+      expect(emailService.sendNotificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('sends them on the channels chosen at dispatch once the quiet hours are over', async () => {
+      await expect(service.sendDeferredDeliveries(new Date(now.getTime() + 2 * HOUR_MS))).resolves.toBe(1);
+
+      expect(pendingDeliveryModel.deleteOne).toHaveBeenCalledWith({ _id: deferred._id });
+      expect(emailService.sendNotificationEmail).toHaveBeenCalledWith('sara@example.com', 'Sara', expect.objectContaining({ title: 'Offer accepted' }));
+      expect(smsProvider.sendSms).not.toHaveBeenCalled();
+    });
+
+    it('does not send a delivery another run already claimed', async () => {
+      pendingDeliveryModel.deleteOne.mockReturnValue(query({ deletedCount: 0 }));
+
+      await expect(service.sendDeferredDeliveries(new Date(now.getTime() + 2 * HOUR_MS))).resolves.toBe(0);
+      expect(emailService.sendNotificationEmail).not.toHaveBeenCalled();
+    });
+  });
+});
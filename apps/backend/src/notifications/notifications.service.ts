@@ -1,8 +1,19 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Inject, Logger, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Notification, NotificationDocument, NotificationType, NotificationPriority } from '../schemas/notification.schema';
+import {
+  NotificationPreference,
+  NotificationPreferenceDocument,
+  ChannelToggles,
+  QuietHours
+} from '../schemas/notification-preference.schema';
+import { PendingDelivery, PendingDeliveryDocument } from '../schemas/pending-delivery.schema';
 import { User, UserDocument } from '../schemas/user.schema';
+import { UpdateNotificationPreferencesDto } from '../dto/notification-preferences.dto';
+import { EmailService } from '../email/email.service';
+import { SMS_PROVIDER } from './sms/sms-provider.interface';
+import type { SmsProvider } from './sms/sms-provider.interface';
 
 export interface CreateNotificationDto {
   userId: string;
@@ -17,19 +28,169 @@ export interface CreateNotificationDto {
   expiresAt?: Date;
 }
 
+// Channels used for a notification type until the user overrides them
+const DEFAULT_CHANNELS: Record<NotificationType, ChannelToggles> = {
+  [NotificationType.NURSE_APPROVED]: { inApp: true, email: true, sms: true },
+  [NotificationType.NURSE_REJECTED]: { inApp: true, email: true, sms: false },
+  [NotificationType.NURSE_VERIFIED]: { inApp: true, email: true, sms: false },
+  [NotificationType.CREDENTIAL_EXPIRING]: { inApp: true, email: true, sms: false },
+  [NotificationType.CREDENTIAL_EXPIRED]: { inApp: true, email: true, sms: true },
+  [NotificationType.CREDENTIAL_RENEWAL_SUBMITTED]: { inApp: true, email: false, sms: false },
+  [NotificationType.CREDENTIAL_RENEWAL_REVIEWED]: { inApp: true, email: true, sms: false },
+  [NotificationType.REQUEST_CREATED]: { inApp: true, email: false, sms: false },
+  [NotificationType.REQUEST_APPLICATION]: { inApp: true, email: true, sms: false },
+  [NotificationType.REQUEST_INVITATION]: { inApp: true, email: true, sms: false },
+  [NotificationType.REQUEST_ACCEPTED]: { inApp: true, email: true, sms: true },
+  [NotificationType.REQUEST_REJECTED]: { inApp: true, email: false, sms: false },
+  [NotificationType.REQUEST_COMPLETED]: { inApp: true, email: true, sms: false },
+  [NotificationType.REQUEST_CANCELLED]: { inApp: true, email: true, sms: true },
+  [NotificationType.REQUEST_REOPENED]: { inApp: true, email: true, sms: false },
+  [NotificationType.VISIT_CHECKED_IN]: { inApp: true, email: false, sms: true },
+  [NotificationType.VISIT_CHECKED_OUT]: { inApp: true, email: false, sms: false },
+  [NotificationType.VISIT_FLAGGED]: { inApp: true, email: true, sms: false },
+  [NotificationType.REVIEW_RECEIVED]: { inApp: true, email: false, sms: false },
+  [NotificationType.PAYMENT_RECEIVED]: { inApp: true, email: true, sms: false },
+  [NotificationType.PAYMENT_FAILED]: { inApp: true, email: true, sms: false },
+  [NotificationType.PAYMENT_DISPUTED]: { inApp: true, email: true, sms: false },
+  [NotificationType.PAYMENT_DISPUTE_RESOLVED]: { inApp: true, email: true, sms: false },
+  [NotificationType.WITHDRAWAL_REQUESTED]: { inApp: true, email: false, sms: false },
+  [NotificationType.WITHDRAWAL_PROCESSED]: { inApp: true, email: true, sms: false },
+  [NotificationType.ACCOUNT_SUSPENDED]: { inApp: true, email: true, sms: false },
+  [NotificationType.ACCOUNT_REACTIVATED]: { inApp: true, email: true, sms: false },
+  [NotificationType.SYSTEM_ANNOUNCEMENT]: { inApp: true, email: true, sms: false },
+  [NotificationType.REMINDER]: { inApp: true, email: true, sms: true },
+};
+
+// Deferred deliveries looked at per scheduler run, oldest first
+const DEFERRED_BATCH_SIZE = 500;
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  timezone: 'Africa/Cairo',
+};
+
 @Injectable()
 export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
   constructor(
     @InjectModel(Notification.name) private notificationModel: Model<NotificationDocument>,
+    @InjectModel(NotificationPreference.name) private preferenceModel: Model<NotificationPreferenceDocument>,
+    @InjectModel(PendingDelivery.name) private pendingDeliveryModel: Model<PendingDeliveryDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private emailService: EmailService,
+    @Inject(SMS_PROVIDER) private smsProvider: SmsProvider,
   ) {}
 
+  /**
+   * Single entry point for every notification. Stores the in-app notification
+   * and fans out to email/SMS according to the recipient's preferences.
+   * Email and SMS are held back during quiet hours unless the notification is
+   * urgent, and sent by sendDeferredDeliveries once the quiet hours are over.
+   * Returns null when the user has turned in-app notifications off for this type.
+   */
+  async dispatch(createNotificationDto: CreateNotificationDto): Promise<NotificationDocument | null> {
+    const preferences = await this.preferenceModel
+      .findOne({ userId: createNotificationDto.userId })
+      .lean()
+      .exec();
+    const channels = this.resolveChannels(preferences, createNotificationDto.type);
+
+    const notification = channels.inApp
+      ? await this.createNotification(createNotificationDto)
+      : null;
+
+    const isUrgent = createNotificationDto.priority === NotificationPriority.URGENT;
+    const deferred = !isUrgent && this.isWithinQuietHours(preferences?.quietHours);
+
+    if ((channels.email || channels.sms) && deferred) {
+      try {
+        await this.pendingDeliveryModel.create({
+          userId: createNotificationDto.userId,
+          notificationId: notification?._id,
+          type: createNotificationDto.type,
+          title: createNotificationDto.title,
+          message: createNotificationDto.message,
+          actionUrl: createNotificationDto.actionUrl,
+          email: channels.email,
+          sms: channels.sms,
+        });
+      } catch (error) {
+        // Don't fail the caller if the delivery cannot be held back; the in-app notification is saved
+        this.logger.error(`Failed to defer notification delivery to user ${createNotificationDto.userId}:`, error);
+      }
+    } else if (channels.email || channels.sms) {
+      // Don't hold up the caller (or fail it) on external delivery
+      this.deliverExternally(createNotificationDto, channels).catch(error =>
+        this.logger.error(`Failed to deliver notification to user ${createNotificationDto.userId}:`, error)
+      );
+    }
+
+    return notification;
+  }
+
+  /**
+   * Sends the email and SMS held back during quiet hours to every recipient
+   * whose quiet hours are now over. Returns how many were sent.
+   */
+  async sendDeferredDeliveries(now: Date = new Date()): Promise<number> {
+    const pending = await this.pendingDeliveryModel
+      .find()
+      .sort({ createdAt: 1 })
+      .limit(DEFERRED_BATCH_SIZE)
+      .exec();
+
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const preferences = await this.preferenceModel
+      .find({ userId: { $in: [...new Set(pending.map(delivery => String(delivery.userId)))] } })
+      .lean()
+      .exec();
+    const quietHoursByUser = new Map(preferences.map(preference => [String(preference.userId), preference.quietHours]));
+
+    let sent = 0;
+    for (const delivery of pending) {
+      const userId = String(delivery.userId);
+      if (this.isWithinQuietHours(quietHoursByUser.get(userId), now)) {
+        continue;
+      }
+
+      // Claim the delivery first, so a concurrent run cannot send it twice
+      const { deletedCount } = await this.pendingDeliveryModel.deleteOne({ _id: delivery._id }).exec();
+      if (deletedCount !== 1) {
+        continue;
+      }
+
+      try {
+        await this.deliverExternally(
+          { userId, type: delivery.type, title: delivery.title, message: delivery.message, actionUrl: delivery.actionUrl },
+          { inApp: false, email: delivery.email, sms: delivery.sms }
+        );
+        sent++;
+      } catch (error) {
+        this.logger.error(`Failed to deliver deferred notification to user ${userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
   // Create a new notification
   async createNotification(createNotificationDto: CreateNotificationDto): Promise<NotificationDocument> {
     const notification = new this.notificationModel(createNotificationDto);
     return await notification.save();
   }
 
+  // Delete all notifications for a user
+  async clearAllNotifications(userId: string): Promise<{ deletedCount: number }> {
+    const result = await this.notificationModel.deleteMany({ userId }).exec();
+    return { deletedCount: result.deletedCount };
+  }
+
   // Get notifications for a user
   async getUserNotifications(
     userId: string,
@@ -108,8 +269,8 @@ export class NotificationsService {
   }
 
   // Specific notification creators for different events
-  async notifyNurseApproved(nurseId: string): Promise<NotificationDocument> {
-    return await this.createNotification({
+  async notifyNurseApproved(nurseId: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
       userId: nurseId,
       type: NotificationType.NURSE_APPROVED,
       title: '🎉 Application Approved!',
@@ -120,8 +281,8 @@ export class NotificationsService {
     });
   }
 
-  async notifyNurseRejected(nurseId: string, reason?: string): Promise<NotificationDocument> {
-    return await this.createNotification({
+  async notifyNurseRejected(nurseId: string, reason?: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
       userId: nurseId,
       type: NotificationType.NURSE_REJECTED,
       title: '❌ Application Rejected',
@@ -134,8 +295,74 @@ export class NotificationsService {
     });
   }
 
-  async notifyRequestApplication(patientId: string, nurseId: string, nurseName: string, requestId: string, requestTitle: string): Promise<NotificationDocument> {
-    return await this.createNotification({
+  async notifyNurseChangesRequested(nurseId: string, itemCount: number, reason?: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.NURSE_REJECTED,
+      title: '✏️ Changes Requested',
+      message: `Your application needs changes to ${itemCount} item${itemCount === 1 ? '' : 's'} before it can be approved.${reason ? ` ${reason}` : ''} Fix them and resubmit.`,
+      priority: NotificationPriority.HIGH,
+      actionUrl: '/account-rejected',
+      data: { changesRequested: true, itemCount, reason }
+    });
+  }
+
+  async notifyCredentialExpiring(nurseId: string, credential: string, expiresAt: Date, daysLeft: number): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.CREDENTIAL_EXPIRING,
+      title: '⏳ Credential Expiring Soon',
+      message: `Your ${credential} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${expiresAt.toDateString()}). Upload the renewed document to stay bookable.`,
+      priority: daysLeft <= 7 ? NotificationPriority.HIGH : NotificationPriority.MEDIUM,
+      actionUrl: '/profile',
+      data: { credential, expiresAt, daysLeft }
+    });
+  }
+
+  async notifyCredentialExpired(userId: string, credential: string, nurseName: string, forAdmin: boolean): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId,
+      type: NotificationType.CREDENTIAL_EXPIRED,
+      title: forAdmin ? '🚫 Nurse License Expired' : '🚫 License Expired',
+      message: forAdmin
+        ? `${nurseName}'s ${credential} has expired. They are hidden from patients until a renewal is approved.`
+        : `Your ${credential} has expired and you are no longer visible to patients. Upload the renewed document to get back on the platform.`,
+      priority: NotificationPriority.URGENT,
+      actionUrl: forAdmin ? '/admin/credentials' : '/profile',
+      data: { credential }
+    });
+  }
+
+  async notifyCredentialRenewalSubmitted(adminId: string, nurseId: string, nurseName: string, credential: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: adminId,
+      type: NotificationType.CREDENTIAL_RENEWAL_SUBMITTED,
+      title: '📄 Credential Renewal Submitted',
+      message: `${nurseName} uploaded a renewed ${credential} for review`,
+      priority: NotificationPriority.MEDIUM,
+      relatedEntityId: nurseId,
+      relatedEntityType: 'user',
+      actionUrl: '/admin/credentials',
+      data: { credential }
+    });
+  }
+
+  async notifyCredentialRenewalReviewed(nurseId: string, credential: string, approved: boolean, reason?: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.CREDENTIAL_RENEWAL_REVIEWED,
+      title: approved ? '✅ Renewal Approved' : '❌ Renewal Rejected',
+      message: approved
+        ? `Your renewed ${credential} has been approved.`
+        : `Your renewed ${credential} was not accepted.${reason ? ` Reason: ${reason}` : ''} Please upload a new document.`,
+      priority: NotificationPriority.HIGH,
+      actionUrl: '/profile',
+      data: { credential, approved, reason }
+    });
+  }
+
+  async notifyRequestApplication(patientId: string, nurseId: string, nurseName: string, requestId: string, requestTitle: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
       userId: patientId,
       type: NotificationType.REQUEST_APPLICATION,
       title: '👩‍⚕️ New Application Received',
@@ -148,8 +375,22 @@ export class NotificationsService {
     });
   }
 
-  async notifyRequestAccepted(nurseId: string, patientName: string, requestId: string, requestTitle: string): Promise<NotificationDocument> {
-    return await this.createNotification({
+  async notifyRequestInvitation(nurseId: string, patientName: string, requestId: string, requestTitle: string, scheduledDate: Date): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.REQUEST_INVITATION,
+      title: '📨 You Were Invited to a Request',
+      message: `${patientName} invited you to apply for "${requestTitle}" on ${scheduledDate.toDateString()}. You are one of the best matches for this visit.`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/requests/${requestId}`,
+      data: { patientName, requestTitle, scheduledDate }
+    });
+  }
+
+  async notifyRequestAccepted(nurseId: string, patientName: string, requestId: string, requestTitle: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
       userId: nurseId,
       type: NotificationType.REQUEST_ACCEPTED,
       title: '✅ Request Accepted',
@@ -162,8 +403,8 @@ export class NotificationsService {
     });
   }
 
-  async notifyRequestRejected(nurseId: string, patientName: string, requestId: string, requestTitle: string): Promise<NotificationDocument> {
-    return await this.createNotification({
+  async notifyRequestRejected(nurseId: string, patientName: string, requestId: string, requestTitle: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
       userId: nurseId,
       type: NotificationType.REQUEST_REJECTED,
       title: '❌ Application Declined',
@@ -176,11 +417,11 @@ export class NotificationsService {
     });
   }
 
-  async notifyRequestCompleted(userId: string, requestId: string, requestTitle: string, isPatient: boolean): Promise<NotificationDocument> {
+  async notifyRequestCompleted(userId: string, requestId: string, requestTitle: string, isPatient: boolean): Promise<NotificationDocument | null> {
     const role = isPatient ? 'patient' : 'nurse';
     const otherRole = isPatient ? 'nurse' : 'patient';
     
-    return await this.createNotification({
+    return await this.dispatch({
       userId,
       type: NotificationType.REQUEST_COMPLETED,
       title: '🎯 Request Completed',
@@ -193,10 +434,10 @@ export class NotificationsService {
     });
   }
 
-  async notifyReviewReceived(userId: string, reviewerName: string, rating: number, requestTitle: string): Promise<NotificationDocument> {
+  async notifyReviewReceived(userId: string, reviewerName: string, rating: number, requestTitle: string): Promise<NotificationDocument | null> {
     const stars = '⭐'.repeat(rating);
     
-    return await this.createNotification({
+    return await this.dispatch({
       userId,
       type: NotificationType.REVIEW_RECEIVED,
       title: '⭐ New Review Received',
@@ -207,8 +448,209 @@ export class NotificationsService {
     });
   }
 
+  async notifyRequestCancelled(userId: string, requestId: string, requestTitle: string, reason: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId,
+      type: NotificationType.REQUEST_CANCELLED,
+      title: '🚫 Request Cancelled',
+      message: `The request "${requestTitle}" has been cancelled. Reason: ${reason}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: '/requests',
+      data: { requestTitle, reason }
+    });
+  }
+
+  async notifyRequestReopened(patientId: string, requestId: string, requestTitle: string, reason: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: patientId,
+      type: NotificationType.REQUEST_REOPENED,
+      title: '🔄 Request Reopened',
+      message: `Your assigned nurse is no longer available for "${requestTitle}" (${reason}). The request is open again so other nurses can apply.`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/requests/${requestId}`,
+      data: { requestTitle, reason }
+    });
+  }
+
+  async notifyCarePlanVisitsScheduled(nurseId: string, carePlanId: string, planTitle: string, visitCount: number): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.REQUEST_CREATED,
+      title: '📅 New Care Plan Visits',
+      message: `${visitCount} new visit${visitCount === 1 ? '' : 's'} from the care plan "${planTitle}" ${visitCount === 1 ? 'is' : 'are'} open. You were requested as the preferred nurse.`,
+      priority: NotificationPriority.MEDIUM,
+      relatedEntityId: carePlanId,
+      relatedEntityType: 'care_plan',
+      actionUrl: '/requests',
+      data: { planTitle, visitCount }
+    });
+  }
+
+  async notifyVisitCheckedIn(patientId: string, nurseName: string, requestId: string, requestTitle: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: patientId,
+      type: NotificationType.VISIT_CHECKED_IN,
+      title: '📍 Nurse Arrived',
+      message: `${nurseName} has checked in for "${requestTitle}"`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/requests/${requestId}`,
+      data: { nurseName, requestTitle }
+    });
+  }
+
+  async notifyVisitCheckedOut(patientId: string, requestId: string, requestTitle: string, timeOnSiteMinutes: number): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: patientId,
+      type: NotificationType.VISIT_CHECKED_OUT,
+      title: 'Visit Finished',
+      message: `Your nurse checked out of "${requestTitle}" after ${timeOnSiteMinutes} minutes on site`,
+      priority: NotificationPriority.MEDIUM,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/requests/${requestId}`,
+      data: { requestTitle, timeOnSiteMinutes }
+    });
+  }
+
+  async notifyVisitFlagged(adminId: string, requestId: string, requestTitle: string, flags: string[]): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: adminId,
+      type: NotificationType.VISIT_FLAGGED,
+      title: '🚩 Visit Needs Review',
+      message: `"${requestTitle}" was flagged: ${flags.map(flag => flag.replace(/_/g, ' ')).join(', ')}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: '/admin/flagged-visits',
+      data: { flags }
+    });
+  }
+
+  async notifyPaymentReceived(nurseId: string, requestId: string, requestTitle: string, netAmount: number): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.PAYMENT_RECEIVED,
+      title: '💰 Payment Received',
+      message: `The patient's payment for "${requestTitle}" went through. EGP ${(netAmount / 100).toFixed(2)} was added to your earnings.`,
+      priority: NotificationPriority.MEDIUM,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: '/payments',
+      data: { netAmount }
+    });
+  }
+
+  async notifyPaymentFailed(patientId: string, requestId: string, requestTitle: string, reason: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: patientId,
+      type: NotificationType.PAYMENT_FAILED,
+      title: '❌ Payment Failed',
+      message: `Your payment for "${requestTitle}" did not go through: ${reason}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/payment/${requestId}`,
+      data: { reason }
+    });
+  }
+
+  async notifyPaymentDisputed(userId: string, requestId: string, requestTitle: string, reason: string, forAdmin: boolean): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId,
+      type: NotificationType.PAYMENT_DISPUTED,
+      title: '⚠️ Payment On Hold',
+      message: `Payment for "${requestTitle}" is on hold because of a dispute: ${reason}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: forAdmin ? '/admin/payment-disputes' : `/requests/${requestId}`,
+      data: { reason }
+    });
+  }
+
+  async notifyPaymentDisputeResolved(userId: string, requestId: string, requestTitle: string, resolution: string, note?: string): Promise<NotificationDocument | null> {
+    const outcome = resolution === 'release'
+      ? 'the held funds were released to the patient'
+      : resolution === 'partial_capture'
+        ? 'part of the payment was released to the nurse'
+        : 'the payment was released to the nurse';
+
+    return await this.dispatch({
+      userId,
+      type: NotificationType.PAYMENT_DISPUTE_RESOLVED,
+      title: '⚖️ Dispute Resolved',
+      message: `The dispute on "${requestTitle}" was resolved: ${outcome}.${note ? ` ${note}` : ''}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: requestId,
+      relatedEntityType: 'request',
+      actionUrl: `/requests/${requestId}`,
+      data: { resolution, note }
+    });
+  }
+
+  async notifyWithdrawalRequested(adminId: string, withdrawalId: string, nurseName: string, amount: number): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: adminId,
+      type: NotificationType.WITHDRAWAL_REQUESTED,
+      title: '🏦 Withdrawal Requested',
+      message: `${nurseName} requested a withdrawal of EGP ${(amount / 100).toFixed(2)}`,
+      priority: NotificationPriority.MEDIUM,
+      relatedEntityId: withdrawalId,
+      relatedEntityType: 'withdrawal',
+      actionUrl: '/admin/withdrawals',
+      data: { amount }
+    });
+  }
+
+  async notifyWithdrawalProcessed(nurseId: string, withdrawalId: string, amount: number, approved: boolean, reason?: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId: nurseId,
+      type: NotificationType.WITHDRAWAL_PROCESSED,
+      title: approved ? '💸 Withdrawal Paid' : '↩️ Withdrawal Rejected',
+      message: approved
+        ? `Your withdrawal of EGP ${(amount / 100).toFixed(2)} has been paid out.`
+        : `Your withdrawal of EGP ${(amount / 100).toFixed(2)} was rejected and returned to your balance.${reason ? ` Reason: ${reason}` : ''}`,
+      priority: NotificationPriority.HIGH,
+      relatedEntityId: withdrawalId,
+      relatedEntityType: 'withdrawal',
+      actionUrl: '/payments',
+      data: { amount, approved, reason }
+    });
+  }
+
+  async notifyAccountSuspended(userId: string, reason: string, endsAt?: Date): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId,
+      type: NotificationType.ACCOUNT_SUSPENDED,
+      title: '⛔ Account Suspended',
+      message: endsAt
+        ? `Your account has been suspended until ${endsAt.toUTCString()}. Reason: ${reason}`
+        : `Your account has been suspended until further notice. Reason: ${reason}`,
+      priority: NotificationPriority.URGENT,
+      data: { reason, endsAt }
+    });
+  }
+
+  async notifyAccountReactivated(userId: string): Promise<NotificationDocument | null> {
+    return await this.dispatch({
+      userId,
+      type: NotificationType.ACCOUNT_REACTIVATED,
+      title: '✅ Account Reactivated',
+      message: 'Your account suspension has ended. You can use the platform again.',
+      priority: NotificationPriority.HIGH,
+      actionUrl: '/dashboard',
+      data: { reactivated: true }
+    });
+  }
+
   async notifySystemAnnouncement(userIds: string[], title: string, message: string, actionUrl?: string): Promise<NotificationDocument[]> {
-    const notifications = userIds.map(userId => ({
+    const notifications = await Promise.all(userIds.map(userId => this.dispatch({
       userId,
       type: NotificationType.SYSTEM_ANNOUNCEMENT,
       title,
@@ -216,9 +658,9 @@ export class NotificationsService {
       priority: NotificationPriority.MEDIUM,
       actionUrl,
       data: { isSystemAnnouncement: true }
-    }));
+    })));
 
-    return await this.notificationModel.insertMany(notifications);
+    return notifications.filter((notification): notification is NotificationDocument => notification !== null);
   }
 
   // Clean up old notifications (can be called by a cron job)
@@ -233,4 +675,219 @@ export class NotificationsService {
 
     return { deletedCount: result.deletedCount };
   }
+
+  // Preferences
+  async getNotificationPreferences(userId: string) {
+    const preferences = await this.preferenceModel.findOne({ userId }).lean().exec();
+
+    const notificationTypes = Object.values(NotificationType).reduce((types, type) => {
+      types[type] = this.resolveTypeToggles(preferences, type);
+      return types;
+    }, {} as Record<string, ChannelToggles>);
+
+    return {
+      emailNotifications: preferences?.emailEnabled ?? true,
+      pushNotifications: preferences?.inAppEnabled ?? true,
+      smsNotifications: preferences?.smsEnabled ?? false,
+      notificationTypes,
+      quietHours: { ...DEFAULT_QUIET_HOURS, ...(preferences?.quietHours || {}) },
+      updatedAt: preferences?.updatedAt,
+    };
+  }
+
+  async updateNotificationPreferences(userId: string, updateDto: UpdateNotificationPreferencesDto) {
+    const update: Record<string, any> = {};
+
+    if (updateDto.emailNotifications !== undefined) update.emailEnabled = updateDto.emailNotifications;
+    if (updateDto.pushNotifications !== undefined) update.inAppEnabled = updateDto.pushNotifications;
+    if (updateDto.smsNotifications !== undefined) update.smsEnabled = updateDto.smsNotifications;
+
+    if (updateDto.notificationTypes) {
+      const knownTypes = Object.values(NotificationType) as string[];
+
+      for (const [type, value] of Object.entries(updateDto.notificationTypes)) {
+        if (!knownTypes.includes(type)) {
+          throw new BadRequestException(`Unknown notification type: ${type}`);
+        }
+
+        if (typeof value === 'boolean') {
+          update[`types.${type}`] = { inApp: value, email: value, sms: value };
+          continue;
+        }
+
+        if (!value || typeof value !== 'object') {
+          throw new BadRequestException(`Invalid settings for notification type: ${type}`);
+        }
+
+        for (const channel of ['inApp', 'email', 'sms'] as const) {
+          if (value[channel] === undefined) continue;
+          if (typeof value[channel] !== 'boolean') {
+            throw new BadRequestException(`${type}.${channel} must be a boolean`);
+          }
+          update[`types.${type}.${channel}`] = value[channel];
+        }
+      }
+    }
+
+    if (updateDto.quietHours) {
+      const { enabled, start, end, timezone } = updateDto.quietHours;
+
+      if (timezone !== undefined && !this.isValidTimezone(timezone)) {
+        throw new BadRequestException(`Unknown timezone: ${timezone}`);
+      }
+
+      if (enabled !== undefined) update['quietHours.enabled'] = enabled;
+      if (start !== undefined) update['quietHours.start'] = start;
+      if (end !== undefined) update['quietHours.end'] = end;
+      if (timezone !== undefined) update['quietHours.timezone'] = timezone;
+    }
+
+    await this.preferenceModel.findOneAndUpdate(
+      { userId },
+      { $set: update, $setOnInsert: { userId } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).exec();
+
+    return this.getNotificationPreferences(userId);
+  }
+
+  // Admin statistics
+  async getNotificationStats() {
+    const lastWeek = new Date();
+    lastWeek.setDate(lastWeek.getDate() - 7);
+
+    const [total, unread, createdLastWeek, byType, byPriority, emailOptOuts, smsOptIns] = await Promise.all([
+      this.notificationModel.countDocuments().exec(),
+      this.notificationModel.countDocuments({ isRead: false }).exec(),
+      this.notificationModel.countDocuments({ createdAt: { $gte: lastWeek } }).exec(),
+      this.notificationModel.aggregate([
+        { $group: { _id: '$type', count: { $sum: 1 }, unread: { $sum: { $cond: ['$isRead', 0, 1] } } } },
+        { $sort: { count: -1 } },
+      ]).exec(),
+      this.notificationModel.aggregate([
+        { $group: { _id: '$priority', count: { $sum: 1 } } },
+      ]).exec(),
+      this.preferenceModel.countDocuments({ emailEnabled: false }).exec(),
+      this.preferenceModel.countDocuments({ smsEnabled: true }).exec(),
+    ]);
+
+    return {
+      total,
+      unread,
+      read: total - unread,
+      readRate: total > 0 ? Math.round(((total - unread) / total) * 100) : 0,
+      createdLastWeek,
+      byType: byType.map(entry => ({ type: entry._id, count: entry.count, unread: entry.unread })),
+      byPriority: byPriority.reduce((acc, entry) => {
+        acc[entry._id] = entry.count;
+        return acc;
+      }, {} as Record<string, number>),
+      preferences: {
+        emailOptOuts,
+        smsOptIns,
+      },
+    };
+  }
+
+  private resolveTypeToggles(
+    preferences: Partial<NotificationPreference> | null,
+    type: NotificationType
+  ): ChannelToggles {
+    return {
+      ...DEFAULT_CHANNELS[type],
+      ...(preferences?.types?.[type] || {}),
+    };
+  }
+
+  // A channel is used only when both its master switch and the per-type toggle are on
+  private resolveChannels(
+    preferences: Partial<NotificationPreference> | null,
+    type: NotificationType
+  ): ChannelToggles {
+    const toggles = this.resolveTypeToggles(preferences, type);
+
+    return {
+      inApp: (preferences?.inAppEnabled ?? true) && toggles.inApp,
+      email: (preferences?.emailEnabled ?? true) && toggles.email,
+      sms: (preferences?.smsEnabled ?? false) && toggles.sms,
+    };
+  }
+
+  private async deliverExternally(createNotificationDto: CreateNotificationDto, channels: ChannelToggles) {
+    const user = await this.userModel
+      .findById(createNotificationDto.userId)
+      .select('name email phone')
+      .lean()
+      .exec();
+
+    if (!user) {
+      return;
+    }
+
+    const deliveries: Promise<void>[] = [];
+
+    if (channels.email && user.email) {
+      deliveries.push(this.emailService.sendNotificationEmail(user.email, user.name || '', {
+        title: createNotificationDto.title,
+        message: createNotificationDto.message,
+        actionUrl: createNotificationDto.actionUrl,
+      }));
+    }
+
+    if (channels.sms && user.phone) {
+      deliveries.push(this.smsProvider.sendSms({
+        to: user.phone,
+        body: `${createNotificationDto.title}: ${createNotificationDto.message}`,
+      }));
+    }
+
+    const results = await Promise.allSettled(deliveries);
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .forEach(result => this.logger.error(
+        `Notification delivery to user ${createNotificationDto.userId} failed:`,
+        result.reason
+      ));
+  }
+
+  private isWithinQuietHours(quietHours?: Partial<QuietHours>, now: Date = new Date()): boolean {
+    const settings = { ...DEFAULT_QUIET_HOURS, ...(quietHours || {}) };
+    if (!settings.enabled) {
+      return false;
+    }
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const localTime = new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_QUIET_HOURS.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now);
+
+    const current = toMinutes(localTime);
+    const start = toMinutes(settings.start);
+    const end = toMinutes(settings.end);
+
+    if (start === end) {
+      return false;
+    }
+
+    // Quiet hours may wrap around midnight (e.g. 22:00 - 07:00)
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
@@ -0,0 +1,12 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SmsMessage, SmsProvider } from './sms-provider.interface';
+
+// Development stub: logs messages instead of sending them
+@Injectable()
+export class LocalSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(LocalSmsProvider.name);
+
+  async sendSms(message: SmsMessage): Promise<void> {
+    this.logger.log(`[SMS to ${message.to}] ${message.body}`);
+  }
+}
@@ -0,0 +1,14 @@
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+/**
+ * Contract for outbound SMS gateways. Bind a real implementation to the
+ * SMS_PROVIDER token in NotificationsModule to send actual text messages.
+ */
+export interface SmsProvider {
+  sendSms(message: SmsMessage): Promise<void>;
+}
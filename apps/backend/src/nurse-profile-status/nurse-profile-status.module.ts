@@ -7,6 +7,7 @@ import { NurseProfileCompletionController } from '../controllers/nurse-profile-c
 import { User, UserSchema } from '../schemas/user.schema';
 import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
 import { ProfileSubmission, ProfileSubmissionSchema } from '../schemas/profile-submission.schema';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
@@ -15,6 +16,7 @@ import { ProfileSubmission, ProfileSubmissionSchema } from '../schemas/profile-s
       { name: NurseProfile.name, schema: NurseProfileSchema },
       { name: ProfileSubmission.name, schema: ProfileSubmissionSchema },
     ]),
+    AuthModule,
   ],
   providers: [
     NurseProfileStatusService,
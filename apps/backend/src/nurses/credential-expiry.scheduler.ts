@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NurseCredentialsService } from './nurse-credentials.service';
+
+@Injectable()
+export class CredentialExpiryScheduler {
+  private readonly logger = new Logger(CredentialExpiryScheduler.name);
+
+  constructor(private readonly nurseCredentialsService: NurseCredentialsService) {}
+
+  // Hourly, so a lapsed license is acted on soon after midnight rather than a day late
+  @Cron(CronExpression.EVERY_HOUR)
+  async checkCredentialExpiry() {
+    try {
+      const deactivated = await this.nurseCredentialsService.deactivateExpiredLicenses();
+      if (deactivated > 0) {
+        this.logger.log(`Deactivated ${deactivated} nurse(s) whose license expired`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to deactivate nurses with expired licenses', error);
+    }
+
+    try {
+      const reminded = await this.nurseCredentialsService.sendExpiryReminders();
+      if (reminded > 0) {
+        this.logger.log(`Sent ${reminded} credential expiry reminder(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send credential expiry reminders', error);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { NurseAvailabilityService } from './nurse-availability.service';
+import { NurseProfile } from '../schemas/nurse-profile.schema';
+import { PatientRequest } from '../schemas/patient-request.schema';
+import { Application } from '../schemas/application.schema';
+import { UserRole } from '../schemas/user.schema';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  exec: async () => value,
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('NurseAvailabilityService', () => {
+  let service: NurseAvailabilityService;
+  let nurseProfileModel: { findOne: jest.Mock };
+  let requestModel: { find: jest.Mock };
+  let applicationModel: { find: jest.Mock };
+
+  const nurseId = String(new Types.ObjectId());
+  // A Monday
+  const monday9am = new Date('2026-03-02T09:00:00Z');
+
+  const profileDoc = (fields: Record<string, any> = {}): any => ({
+    userId: new Types.ObjectId(nurseId),
+    availabilityTimezone: 'UTC',
+    workingHours: [{ dayOfWeek: 1, startTime: '08:00', endTime: '16:00' }],
+    timeOff: [],
+    bufferMinutes: 30,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  const bookedRequest = (start: Date, estimatedDuration = 2) => ({
+    _id: new Types.ObjectId(),
+    nurseId: new Types.ObjectId(nurseId),
+    title: 'Wound dressing',
+    scheduledDate: start,
+    estimatedDuration,
+  });
+
+  beforeEach(async () => {
+    nurseProfileModel = { findOne: jest.fn() };
+    requestModel = { find: jest.fn().mockReturnValue(query([])) };
+    applicationModel = { find: jest.fn().mockReturnValue(query([])) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NurseAvailabilityService,
+        { provide: getModelToken(NurseProfile.name), useValue: nurseProfileModel },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: getModelToken(Application.name), useValue: applicationModel },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NurseAvailabilityService);
+  });
+
+  describe('isWithinWorkingHours', () => {
+    it('accepts visits that fit inside a working block', () => {
+      expect(service.isWithinWorkingHours(profileDoc(), monday9am, new Date(monday9am.getTime() + 2 * HOUR_MS))).toBe(true);
+    });
+
+    it('rejects visits that run past the end of the block or fall on another day', () => {
+      const profile = profileDoc();
+      const late = new Date('2026-03-02T15:00:00Z');
+      const tuesday = new Date('2026-03-03T09:00:00Z');
+
+      expect(service.isWithinWorkingHours(profile, late, new Date(late.getTime() + 2 * HOUR_MS))).toBe(false);
+      expect(service.isWithinWorkingHours(profile, tuesday, new Date(tuesday.getTime() + HOUR_MS))).toBe(false);
+    });
+
+    it('reads the working hours in the nurse\'s timezone', () => {
+      // 07:00 UTC is 09:00 in Cairo in March
+      const profile = profileDoc({ availabilityTimezone: 'Africa/Cairo' });
+      const start = new Date('2026-03-02T07:00:00Z');
+
+      expect(service.isWithinWorkingHours(profile, start, new Date(start.getTime() + HOUR_MS))).toBe(true);
+    });
+
+    it('treats nurses without working hours as always available', () => {
+      const profile = profileDoc({ workingHours: [] });
+      const midnight = new Date('2026-03-08T00:00:00Z');
+
+      expect(service.isWithinWorkingHours(profile, midnight, new Date(midnight.getTime() + HOUR_MS))).toBe(true);
+    });
+  });
+
+  describe('findConflict', () => {
+    it('reports visits during time off', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc({
+        timeOff: [{ startsAt: new Date('2026-03-02T00:00:00Z'), endsAt: new Date('2026-03-03T00:00:00Z') }],
+      })));
+
+      await expect(service.findConflict(nurseId, monday9am, new Date(monday9am.getTime() + HOUR_MS)))
+        .resolves.toBe('The visit falls within your time off');
+    });
+
+    it('keeps the buffer free between two visits', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+      // Ends at 08:45, inside the 30 minute buffer before a 09:00 visit
+      requestModel.find.mockReturnValue(query([bookedRequest(new Date('2026-03-02T06:45:00Z'))]));
+
+      const conflict = await service.findConflict(nurseId, monday9am, new Date(monday9am.getTime() + HOUR_MS));
+
+      expect(conflict).toContain('Wound dressing');
+    });
+
+    it('allows a visit that starts once the buffer has passed', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+      requestModel.find.mockReturnValue(query([bookedRequest(new Date('2026-03-02T06:30:00Z'))]));
+
+      await expect(service.findConflict(nurseId, monday9am, new Date(monday9am.getTime() + HOUR_MS))).resolves.toBeNull();
+    });
+
+    it('ignores the request that is being rescheduled', async () => {
+      const existing = bookedRequest(monday9am);
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+      requestModel.find.mockReturnValue(query([existing]));
+
+      await expect(service.findConflict(nurseId, monday9am, new Date(monday9am.getTime() + HOUR_MS), String(existing._id)))
+        .resolves.toBeNull();
+    });
+  });
+
+  describe('getBookedVisits', () => {
+    it('uses the duration quoted in the accepted offer', async () => {
+      const request = bookedRequest(monday9am, 1);
+      requestModel.find.mockReturnValue(query([request]));
+      applicationModel.find.mockReturnValue(query([{ requestId: request._id, estimatedTime: 3 }]));
+
+      const [visit] = await service.getBookedVisits([nurseId], monday9am, new Date(monday9am.getTime() + 8 * HOUR_MS));
+
+      expect(visit.end).toEqual(new Date(monday9am.getTime() + 3 * HOUR_MS));
+    });
+  });
+
+  describe('updateAvailability', () => {
+    const nurse = { id: nurseId, role: UserRole.NURSE };
+
+    it('refuses overlapping blocks on the same day', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+
+      await expect(service.updateAvailability(nurse, {
+        workingHours: [
+          { dayOfWeek: 1, startTime: '08:00', endTime: '12:00' },
+          { dayOfWeek: 1, startTime: '11:00', endTime: '15:00' },
+        ],
+      })).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('refuses unknown timezones', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+
+      await expect(service.updateAvailability(nurse, { timezone: 'Mars/Olympus' })).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
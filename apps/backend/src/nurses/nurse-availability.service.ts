@@ -0,0 +1,321 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { UserRole } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { Application, ApplicationDocument, ApplicationStatus } from '../schemas/application.schema';
+import { UpdateAvailabilityDto, CreateTimeOffDto } from '../dto/availability.dto';
+import { isValidTimeZone } from '../care-plans/recurrence';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_BUFFER_MINUTES = 30;
+
+// Requests a nurse is committed to
+const BOOKED_STATUSES = [RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS];
+
+export interface BookedVisit {
+  requestId: string;
+  nurseId: string;
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+@Injectable()
+export class NurseAvailabilityService {
+  constructor(
+    @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
+  ) {}
+
+  async getAvailability(user: any) {
+    const profile = await this.findOwnProfile(user);
+    return this.formatAvailability(profile);
+  }
+
+  async updateAvailability(user: any, updateAvailabilityDto: UpdateAvailabilityDto) {
+    const profile = await this.findOwnProfile(user);
+    const { workingHours, bufferMinutes, timezone } = updateAvailabilityDto;
+
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        throw new BadRequestException(`Unknown timezone: ${timezone}`);
+      }
+      profile.availabilityTimezone = timezone;
+    }
+
+    if (workingHours !== undefined) {
+      for (const block of workingHours) {
+        if (block.startTime >= block.endTime) {
+          throw new BadRequestException('Working hours must end after they start');
+        }
+      }
+
+      // Blocks on the same day must not overlap each other
+      const sorted = [...workingHours].sort((a, b) =>
+        a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime)
+      );
+      for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].dayOfWeek === sorted[i - 1].dayOfWeek && sorted[i].startTime < sorted[i - 1].endTime) {
+          throw new BadRequestException('Working hours on the same day cannot overlap');
+        }
+      }
+
+      profile.workingHours = sorted;
+    }
+
+    if (bufferMinutes !== undefined) {
+      profile.bufferMinutes = bufferMinutes;
+    }
+
+    await profile.save();
+
+    return this.formatAvailability(profile);
+  }
+
+  async addTimeOff(user: any, createTimeOffDto: CreateTimeOffDto) {
+    const profile = await this.findOwnProfile(user);
+    const startsAt = new Date(createTimeOffDto.startsAt);
+    const endsAt = new Date(createTimeOffDto.endsAt);
+
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('Time off must end after it starts');
+    }
+
+    if (endsAt <= new Date()) {
+      throw new BadRequestException('Time off cannot be entirely in the past');
+    }
+
+    // Booked visits are not cancelled automatically; the nurse has to sort those out first
+    const booked = await this.getBookedVisits([String(user.id)], startsAt, endsAt);
+    if (booked.length > 0) {
+      throw new BadRequestException(
+        `You have ${booked.length} accepted visit(s) during this time off, starting with "${booked[0].title}"`
+      );
+    }
+
+    profile.timeOff = [
+      ...(profile.timeOff || []).filter(block => block.endsAt > new Date()),
+      { startsAt, endsAt, reason: createTimeOffDto.reason },
+    ];
+    await profile.save();
+
+    return this.formatAvailability(profile);
+  }
+
+  async removeTimeOff(user: any, timeOffId: string) {
+    const profile = await this.findOwnProfile(user);
+    const remaining = (profile.timeOff || []).filter(block => String(block._id) !== timeOffId);
+
+    if (remaining.length === (profile.timeOff || []).length) {
+      throw new NotFoundException('Time off not found');
+    }
+
+    profile.timeOff = remaining;
+    await profile.save();
+
+    return this.formatAvailability(profile);
+  }
+
+  /**
+   * Returns a human-readable reason why the nurse cannot take a visit in the
+   * given window, or null if they can. Working hours are not enforced here so
+   * nurses can still choose to take visits outside their usual schedule.
+   */
+  async findConflict(nurseId: string, start: Date, end: Date, excludeRequestId?: string): Promise<string | null> {
+    const profile = await this.nurseProfileModel.findOne({ userId: new Types.ObjectId(nurseId) }).exec();
+
+    if (profile && this.overlapsTimeOff(profile, start, end)) {
+      return 'The visit falls within your time off';
+    }
+
+    const bufferMs = this.bufferMs(profile);
+    const booked = (await this.getBookedVisits([nurseId], new Date(start.getTime() - bufferMs), new Date(end.getTime() + bufferMs)))
+      .filter(visit => visit.requestId !== excludeRequestId);
+
+    if (booked.length > 0) {
+      return `The visit overlaps your accepted visit "${booked[0].title}" at ${booked[0].start.toISOString()}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Narrows nurse profiles down to those free for the whole window: inside
+   * their working hours, outside time off, and clear of booked visits.
+   */
+  async filterAvailable<T extends NurseProfileDocument>(profiles: T[], start: Date, end: Date): Promise<T[]> {
+    const candidates = profiles.filter(profile =>
+      this.isWithinWorkingHours(profile, start, end) && !this.overlapsTimeOff(profile, start, end)
+    );
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const maxBufferMs = Math.max(...candidates.map(profile => this.bufferMs(profile)));
+    const booked = await this.getBookedVisits(
+      candidates.map(profile => this.profileUserId(profile)),
+      new Date(start.getTime() - maxBufferMs),
+      new Date(end.getTime() + maxBufferMs)
+    );
+
+    return candidates.filter(profile => {
+      const nurseId = this.profileUserId(profile);
+      const bufferMs = this.bufferMs(profile);
+      return !booked.some(visit =>
+        visit.nurseId === nurseId
+        && visit.start.getTime() < end.getTime() + bufferMs
+        && visit.end.getTime() > start.getTime() - bufferMs
+      );
+    });
+  }
+
+  /**
+   * The opposite view of filterAvailable: one nurse checked against many
+   * visit windows, with a single lookup of their booked visits.
+   */
+  async filterFreeWindows<W extends { start: Date; end: Date }>(profile: NurseProfileDocument, windows: W[]): Promise<W[]> {
+    const candidates = windows.filter(window =>
+      this.isWithinWorkingHours(profile, window.start, window.end) && !this.overlapsTimeOff(profile, window.start, window.end)
+    );
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const bufferMs = this.bufferMs(profile);
+    const booked = await this.getBookedVisits(
+      [this.profileUserId(profile)],
+      new Date(Math.min(...candidates.map(window => window.start.getTime())) - bufferMs),
+      new Date(Math.max(...candidates.map(window => window.end.getTime())) + bufferMs)
+    );
+
+    return candidates.filter(window => !booked.some(visit =>
+      visit.start.getTime() < window.end.getTime() + bufferMs
+      && visit.end.getTime() > window.start.getTime() - bufferMs
+    ));
+  }
+
+  isWithinWorkingHours(profile: NurseProfileDocument, start: Date, end: Date): boolean {
+    const blocks = profile.workingHours || [];
+    if (blocks.length === 0) {
+      return true;
+    }
+
+    const { dayOfWeek, minutes } = localDayAndMinutes(start, profile.availabilityTimezone || 'Africa/Cairo');
+    const endMinutes = minutes + (end.getTime() - start.getTime()) / 60000;
+
+    return blocks.some(block =>
+      block.dayOfWeek === dayOfWeek
+      && toMinutes(block.startTime) <= minutes
+      && endMinutes <= toMinutes(block.endTime)
+    );
+  }
+
+  overlapsTimeOff(profile: NurseProfileDocument, start: Date, end: Date): boolean {
+    return (profile.timeOff || []).some(block => block.startsAt < end && block.endsAt > start);
+  }
+
+  /**
+   * Accepted visits of the given nurses that overlap the window. A visit lasts
+   * the time the nurse quoted in their accepted offer, falling back to the
+   * patient's estimate.
+   */
+  async getBookedVisits(nurseIds: string[], from: Date, to: Date): Promise<BookedVisit[]> {
+    // Visits are at most 24 hours long, so anything starting earlier than that cannot overlap
+    const requests = await this.requestModel.find({
+      nurseId: { $in: nurseIds.map(id => new Types.ObjectId(id)) },
+      status: { $in: BOOKED_STATUSES },
+      scheduledDate: { $gt: new Date(from.getTime() - 24 * HOUR_MS), $lt: to },
+    }).select('nurseId title scheduledDate estimatedDuration').exec();
+
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const acceptedOffers = await this.applicationModel.find({
+      requestId: { $in: requests.map(request => request._id) },
+      status: ApplicationStatus.ACCEPTED,
+    }).select('requestId estimatedTime').exec();
+    const quotedHours = new Map(acceptedOffers.map(offer => [String(offer.requestId), offer.estimatedTime]));
+
+    return requests
+      .map(request => {
+        const start = new Date(request.scheduledDate);
+        const hours = quotedHours.get(String(request._id)) || request.estimatedDuration || 1;
+        return {
+          requestId: String(request._id),
+          nurseId: String(request.nurseId),
+          title: request.title,
+          start,
+          end: new Date(start.getTime() + hours * HOUR_MS),
+        };
+      })
+      .filter(visit => visit.start < to && visit.end > from)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private async findOwnProfile(user: any): Promise<NurseProfileDocument> {
+    if (user.role !== UserRole.NURSE) {
+      throw new ForbiddenException('Only nurses can manage availability');
+    }
+
+    const profile = await this.nurseProfileModel.findOne({ userId: new Types.ObjectId(user.id) }).exec();
+    if (!profile) {
+      throw new NotFoundException('Nurse profile not found');
+    }
+
+    return profile;
+  }
+
+  private bufferMs(profile: NurseProfileDocument | null): number {
+    return (profile?.bufferMinutes ?? DEFAULT_BUFFER_MINUTES) * 60 * 1000;
+  }
+
+  private profileUserId(profile: NurseProfileDocument): string {
+    // userId may or may not be populated
+    const userId: any = profile.userId;
+    return String(userId?._id ?? userId);
+  }
+
+  private formatAvailability(profile: NurseProfileDocument) {
+    return {
+      isAvailable: profile.isAvailable,
+      workingHours: profile.workingHours || [],
+      timeOff: (profile.timeOff || [])
+        .filter(block => block.endsAt > new Date())
+        .map(block => ({
+          id: block._id,
+          startsAt: block.startsAt,
+          endsAt: block.endsAt,
+          reason: block.reason,
+        })),
+      bufferMinutes: profile.bufferMinutes ?? DEFAULT_BUFFER_MINUTES,
+      timezone: profile.availabilityTimezone || 'Africa/Cairo',
+    };
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localDayAndMinutes(instant: Date, timeZone: string): { dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const value = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return {
+    dayOfWeek: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(value('weekday')),
+    minutes: Number(value('hour')) * 60 + Number(value('minute')),
+  };
+}
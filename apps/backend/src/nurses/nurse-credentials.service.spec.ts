@@ -0,0 +1,223 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { NurseCredentialsService } from './nurse-credentials.service';
+import { User } from '../schemas/user.schema';
+import { CredentialRenewalStatus, CredentialType, NurseProfile } from '../schemas/nurse-profile.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  populate: () => query(value),
+  exec: async () => value,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('NurseCredentialsService', () => {
+  let service: NurseCredentialsService;
+  let nurseProfileModel: { find: jest.Mock; findOne: jest.Mock };
+  let notificationsService: Record<string, jest.Mock>;
+
+  const nurse = { _id: new Types.ObjectId(), name: 'Nurse Mona' };
+  const admin = { _id: new Types.ObjectId() };
+
+  const inDays = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+  // Stand-in for a loaded profile; reports expiryReminders as modified once reassigned
+  const profileDoc = (fields: Record<string, any> = {}): any => {
+    const profile: any = {
+      userId: nurse._id,
+      isAvailable: true,
+      expiryReminders: [],
+      credentialRenewals: [],
+      save: jest.fn().mockResolvedValue(undefined),
+      ...fields,
+    };
+    const reminders = profile.expiryReminders;
+    profile.isModified = (path: string) => path === 'expiryReminders' && profile.expiryReminders !== reminders;
+    return profile;
+  };
+
+  beforeEach(async () => {
+    nurseProfileModel = { find: jest.fn(), findOne: jest.fn() };
+    notificationsService = {
+      notifyCredentialExpiring: jest.fn().mockResolvedValue(null),
+      notifyCredentialExpired: jest.fn().mockResolvedValue(null),
+      notifyCredentialRenewalSubmitted: jest.fn().mockResolvedValue(null),
+      notifyCredentialRenewalReviewed: jest.fn().mockResolvedValue(null),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NurseCredentialsService,
+        { provide: getModelToken(User.name), useValue: { find: () => query([admin]) } },
+        { provide: getModelToken(NurseProfile.name), useValue: nurseProfileModel },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NurseCredentialsService);
+  });
+
+  describe('sendExpiryReminders', () => {
+    it('sends the reminder for the closest window the credential has entered', async () => {
+      const profile = profileDoc({ licenseExpirationDate: inDays(20) });
+      nurseProfileModel.find.mockReturnValue(query([profile]));
+
+      await expect(service.sendExpiryReminders()).resolves.toBe(1);
+
+      expect(notificationsService.notifyCredentialExpiring).toHaveBeenCalledWith(String(nurse._id), 'nursing license', profile.licenseExpirationDate, 20);
+      expect(profile.expiryReminders).toEqual([expect.objectContaining({ credential: CredentialType.LICENSE, daysBefore: 30 })]);
+      expect(profile.save).toHaveBeenCalled();
+    });
+
+    it('does not repeat a reminder on the next run', async () => {
+      const expiresAt = inDays(20);
+      const profile = profileDoc({
+        licenseExpirationDate: expiresAt,
+        expiryReminders: [{ credential: CredentialType.LICENSE, daysBefore: 30, expiresAt, sentAt: new Date() }],
+      });
+      nurseProfileModel.find.mockReturnValue(query([profile]));
+
+      await expect(service.sendExpiryReminders()).resolves.toBe(0);
+
+      expect(notificationsService.notifyCredentialExpiring).not.toHaveBeenCalled();
+      expect(profile.save).not.toHaveBeenCalled();
+    });
+
+    it('sends the 7-day reminder after the 30-day one', async () => {
+      const expiresAt = inDays(6);
+      const profile = profileDoc({
+        certificationExpirationDate: expiresAt,
+        expiryReminders: [{ credential: CredentialType.CERTIFICATION, daysBefore: 30, expiresAt, sentAt: new Date() }],
+      });
+      nurseProfileModel.find.mockReturnValue(query([profile]));
+
+      await expect(service.sendExpiryReminders()).resolves.toBe(1);
+
+      expect(notificationsService.notifyCredentialExpiring).toHaveBeenCalledWith(String(nurse._id), 'certification', expiresAt, 6);
+      expect(profile.expiryReminders[1]).toEqual(expect.objectContaining({ daysBefore: 7 }));
+    });
+
+    it('records a reminder whose notification failed so it is not resent every run', async () => {
+      const profile = profileDoc({ licenseExpirationDate: inDays(50) });
+      nurseProfileModel.find.mockReturnValue(query([profile]));
+      notificationsService.notifyCredentialExpiring.mockRejectedValue(new Error('SMS gateway down'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(service.sendExpiryReminders()).resolves.toBe(1);
+
+      expect(profile.expiryReminders).toEqual([expect.objectContaining({ daysBefore: 60 })]);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('deactivateExpiredLicenses', () => {
+    it('takes nurses with a lapsed license off the marketplace and tells them and the admins', async () => {
+      const profile = profileDoc({ userId: nurse, licenseExpirationDate: inDays(-1) });
+      nurseProfileModel.find.mockReturnValue(query([profile]));
+
+      await expect(service.deactivateExpiredLicenses()).resolves.toBe(1);
+
+      expect(nurseProfileModel.find).toHaveBeenCalledWith({ licenseExpirationDate: { $lte: expect.any(Date) }, licenseExpiredAt: null });
+      expect(profile.isAvailable).toBe(false);
+      expect(profile.licenseExpiredAt).toEqual(expect.any(Date));
+      expect(notificationsService.notifyCredentialExpired).toHaveBeenCalledWith(String(nurse._id), 'nursing license', 'Nurse Mona', false);
+      expect(notificationsService.notifyCredentialExpired).toHaveBeenCalledWith(String(admin._id), 'nursing license', 'Nurse Mona', true);
+    });
+  });
+
+  describe('renewals', () => {
+    const file = { filename: 'license-2027.pdf', originalname: 'license.pdf', mimetype: 'application/pdf', size: 1024 } as Express.Multer.File;
+
+    it('queues a renewed document for admin review', async () => {
+      const profile = profileDoc({ licenseExpirationDate: inDays(5) });
+      nurseProfileModel.findOne.mockReturnValue(query(profile));
+
+      await service.submitRenewal(nurse, { credential: CredentialType.LICENSE, expirationDate: inDays(365).toISOString(), licenseNumber: 'EG-2027' }, file);
+
+      expect(profile.credentialRenewals).toEqual([expect.objectContaining({
+        credential: CredentialType.LICENSE,
+        status: CredentialRenewalStatus.PENDING,
+        licenseNumber: 'EG-2027',
+        document: expect.objectContaining({ fileUrl: '/uploads/nurse-documents/license-2027.pdf' }),
+      })]);
+      expect(notificationsService.notifyCredentialRenewalSubmitted).toHaveBeenCalledWith(String(admin._id), String(nurse._id), 'Nurse Mona', 'nursing license');
+    });
+
+    it('refuses a document that has already expired', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc()));
+
+      await expect(service.submitRenewal(nurse, { credential: CredentialType.LICENSE, expirationDate: inDays(-1).toISOString() }, file))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('allows one pending renewal per credential', async () => {
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc({
+        credentialRenewals: [{ credential: CredentialType.LICENSE, status: CredentialRenewalStatus.PENDING }],
+      })));
+
+      await expect(service.submitRenewal(nurse, { credential: CredentialType.LICENSE, expirationDate: inDays(365).toISOString() }, file))
+        .rejects.toThrow('A nursing license renewal is already waiting for review');
+    });
+
+    it('puts a deactivated nurse back on the marketplace once the renewal is approved', async () => {
+      const renewalId = new Types.ObjectId();
+      const expirationDate = inDays(365);
+      const profile = profileDoc({
+        isAvailable: false,
+        licenseExpiredAt: inDays(-3),
+        licenseExpirationDate: inDays(-4),
+        expiryReminders: [{ credential: CredentialType.LICENSE, daysBefore: 7 }, { credential: CredentialType.CERTIFICATION, daysBefore: 30 }],
+        credentialRenewals: [{
+          _id: renewalId,
+          credential: CredentialType.LICENSE,
+          status: CredentialRenewalStatus.PENDING,
+          expirationDate,
+          licenseNumber: 'EG-2027',
+          document: { fileName: 'license-2027.pdf' },
+        }],
+      });
+      nurseProfileModel.findOne.mockReturnValue(query(profile));
+
+      await service.approveRenewal(String(nurse._id), String(renewalId), admin);
+
+      expect(profile.licenseExpirationDate).toBe(expirationDate);
+      expect(profile.licenseNumber).toBe('EG-2027');
+      expect(profile.isAvailable).toBe(true);
+      expect(profile.licenseExpiredAt).toBeUndefined();
+      expect(profile.expiryReminders).toEqual([{ credential: CredentialType.CERTIFICATION, daysBefore: 30 }]);
+      expect(notificationsService.notifyCredentialRenewalReviewed).toHaveBeenCalledWith(String(nurse._id), 'nursing license', true);
+    });
+
+    it('does not review a renewal twice', async () => {
+      const renewalId = new Types.ObjectId();
+      nurseProfileModel.findOne.mockReturnValue(query(profileDoc({
+        credentialRenewals: [{ _id: renewalId, credential: CredentialType.LICENSE, status: CredentialRenewalStatus.REJECTED }],
+      })));
+
+      await expect(service.approveRenewal(String(nurse._id), String(renewalId), admin))
+        .rejects.toThrow('Renewal has already been rejected');
+    });
+  });
+
+  describe('getUpcomingExpirations', () => {
+    it('lists lapsed and soon-expiring credentials, soonest first', async () => {
+      nurseProfileModel.find.mockReturnValue(query([
+        profileDoc({ userId: nurse, licenseExpirationDate: inDays(25), certificationExpirationDate: inDays(400) }),
+        profileDoc({ userId: { _id: new Types.ObjectId(), name: 'Nurse Hala' }, certificationExpirationDate: inDays(-2) }),
+      ]));
+
+      const { data } = await service.getUpcomingExpirations(60);
+
+      expect(data.expirations.map(item => [item.nurse.name, item.credential, item.expired])).toEqual([
+        ['Nurse Hala', CredentialType.CERTIFICATION, true],
+        ['Nurse Mona', CredentialType.LICENSE, false],
+      ]);
+      expect(data.summary).toEqual({ expired: 1, within7Days: 0, within30Days: 1, total: 2 });
+    });
+  });
+});
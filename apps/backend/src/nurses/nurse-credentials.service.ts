@@ -0,0 +1,414 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import {
+  NurseProfile,
+  NurseProfileDocument,
+  CredentialType,
+  CredentialRenewalStatus,
+  DocumentUpload,
+} from '../schemas/nurse-profile.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SubmitCredentialRenewalDto } from '../dto/credential.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 60;
+
+// Reminders go out when a credential is this many days from expiring
+export const EXPIRY_REMINDER_DAYS = [60, 30, 7];
+
+export const CREDENTIAL_DOCUMENTS_DIR = 'nurse-documents';
+
+const CREDENTIAL_LABELS: Record<CredentialType, string> = {
+  [CredentialType.LICENSE]: 'nursing license',
+  [CredentialType.CERTIFICATION]: 'certification',
+};
+
+// Profile field holding each credential's expiry date
+const EXPIRY_FIELDS: Record<CredentialType, 'licenseExpirationDate' | 'certificationExpirationDate'> = {
+  [CredentialType.LICENSE]: 'licenseExpirationDate',
+  [CredentialType.CERTIFICATION]: 'certificationExpirationDate',
+};
+
+@Injectable()
+export class NurseCredentialsService {
+  private readonly logger = new Logger(NurseCredentialsService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  async getOwnCredentials(user: any) {
+    const profile = await this.findProfile(String(user._id));
+    return this.formatCredentials(profile);
+  }
+
+  async submitRenewal(user: any, submitRenewalDto: SubmitCredentialRenewalDto, file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('Upload the renewed document');
+    }
+
+    const profile = await this.findProfile(String(user._id));
+    const expirationDate = new Date(submitRenewalDto.expirationDate);
+    if (expirationDate.getTime() <= Date.now()) {
+      throw new BadRequestException('The renewed document must expire in the future');
+    }
+
+    const pending = profile.credentialRenewals?.find(
+      renewal => renewal.credential === submitRenewalDto.credential && renewal.status === CredentialRenewalStatus.PENDING
+    );
+    if (pending) {
+      throw new BadRequestException(`A ${CREDENTIAL_LABELS[submitRenewalDto.credential]} renewal is already waiting for review`);
+    }
+
+    const document: DocumentUpload = {
+      fileName: file.filename,
+      originalName: file.originalname,
+      fileUrl: `/uploads/${CREDENTIAL_DOCUMENTS_DIR}/${file.filename}`,
+      fileType: file.mimetype,
+      fileSize: file.size,
+      documentType: submitRenewalDto.credential,
+      uploadedAt: new Date(),
+    };
+
+    profile.credentialRenewals = [
+      ...(profile.credentialRenewals || []),
+      {
+        credential: submitRenewalDto.credential,
+        document,
+        expirationDate,
+        licenseNumber: submitRenewalDto.credential === CredentialType.LICENSE ? submitRenewalDto.licenseNumber : undefined,
+        status: CredentialRenewalStatus.PENDING,
+        submittedAt: new Date(),
+      },
+    ];
+    await profile.save();
+
+    try {
+      const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+      await Promise.all(admins.map(admin => this.notificationsService.notifyCredentialRenewalSubmitted(
+        String(admin._id), String(user._id), user.name || 'A nurse', CREDENTIAL_LABELS[submitRenewalDto.credential]
+      )));
+    } catch (notificationError) {
+      console.error('Failed to send credential renewal notifications:', notificationError);
+      // Don't fail the submission if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Renewal submitted for review',
+      data: this.formatCredentials(profile),
+    };
+  }
+
+  async getRenewals(status = CredentialRenewalStatus.PENDING) {
+    const profiles = await this.nurseProfileModel
+      .find({ 'credentialRenewals.status': status })
+      .populate('userId', 'name email phone status')
+      .exec();
+
+    const renewals = profiles.flatMap(profile => (profile.credentialRenewals || [])
+      .filter(renewal => renewal.status === status)
+      .map(renewal => ({
+        id: String(renewal._id),
+        nurse: this.formatNurse(profile),
+        credential: renewal.credential,
+        document: renewal.document,
+        expirationDate: renewal.expirationDate,
+        licenseNumber: renewal.licenseNumber,
+        status: renewal.status,
+        submittedAt: renewal.submittedAt,
+        reviewedAt: renewal.reviewedAt,
+        rejectionReason: renewal.rejectionReason,
+        currentExpirationDate: profile[EXPIRY_FIELDS[renewal.credential]],
+        licenseExpiredAt: profile.licenseExpiredAt,
+      }))
+    );
+
+    // Oldest first, so the queue is worked in the order nurses submitted
+    renewals.sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+
+    return {
+      success: true,
+      message: 'Credential renewals retrieved successfully',
+      data: renewals,
+    };
+  }
+
+  async approveRenewal(nurseId: string, renewalId: string, adminUser: any) {
+    const profile = await this.findProfile(nurseId);
+    const renewal = this.findPendingRenewal(profile, renewalId);
+
+    renewal.status = CredentialRenewalStatus.APPROVED;
+    renewal.reviewedAt = new Date();
+    renewal.reviewedBy = new Types.ObjectId(String(adminUser._id));
+
+    if (renewal.credential === CredentialType.LICENSE) {
+      profile.licenseExpirationDate = renewal.expirationDate;
+      profile.licenseDocument = renewal.document;
+      if (renewal.licenseNumber) {
+        profile.licenseNumber = renewal.licenseNumber;
+      }
+
+      // Put the nurse back on the marketplace if the lapsed license took them off it
+      if (profile.licenseExpiredAt) {
+        profile.licenseExpiredAt = undefined;
+        profile.isAvailable = true;
+      }
+    } else {
+      profile.certificationExpirationDate = renewal.expirationDate;
+      profile.additionalDocuments = [...(profile.additionalDocuments || []), renewal.document];
+    }
+
+    // Reminders for the old expiry date no longer apply
+    profile.expiryReminders = (profile.expiryReminders || []).filter(reminder => reminder.credential !== renewal.credential);
+    await profile.save();
+
+    try {
+      await this.notificationsService.notifyCredentialRenewalReviewed(nurseId, CREDENTIAL_LABELS[renewal.credential], true);
+    } catch (notificationError) {
+      console.error('Failed to send credential renewal approval notification:', notificationError);
+      // Don't fail the approval if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Renewal approved',
+      data: this.formatCredentials(profile),
+    };
+  }
+
+  async rejectRenewal(nurseId: string, renewalId: string, reason: string, adminUser: any) {
+    const profile = await this.findProfile(nurseId);
+    const renewal = this.findPendingRenewal(profile, renewalId);
+
+    renewal.status = CredentialRenewalStatus.REJECTED;
+    renewal.reviewedAt = new Date();
+    renewal.reviewedBy = new Types.ObjectId(String(adminUser._id));
+    renewal.rejectionReason = reason;
+    await profile.save();
+
+    try {
+      await this.notificationsService.notifyCredentialRenewalReviewed(nurseId, CREDENTIAL_LABELS[renewal.credential], false, reason);
+    } catch (notificationError) {
+      console.error('Failed to send credential renewal rejection notification:', notificationError);
+      // Don't fail the rejection if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Renewal rejected',
+      data: this.formatCredentials(profile),
+    };
+  }
+
+  // Credentials already expired or expiring within `days`, soonest first
+  async getUpcomingExpirations(days = DEFAULT_REPORT_DAYS) {
+    const now = Date.now();
+    const horizon = new Date(now + days * DAY_MS);
+
+    const profiles = await this.nurseProfileModel
+      .find({
+        $or: [
+          { licenseExpirationDate: { $lte: horizon } },
+          { certificationExpirationDate: { $lte: horizon } },
+        ],
+      })
+      .populate('userId', 'name email phone status')
+      .exec();
+
+    const expirations = profiles.flatMap(profile => Object.values(CredentialType)
+      .filter(credential => {
+        const expiresAt = profile[EXPIRY_FIELDS[credential]];
+        return expiresAt && expiresAt.getTime() <= horizon.getTime();
+      })
+      .map(credential => {
+        const expiresAt = profile[EXPIRY_FIELDS[credential]] as Date;
+        return {
+          nurse: this.formatNurse(profile),
+          credential,
+          expiresAt,
+          daysLeft: this.daysUntil(expiresAt, now),
+          expired: expiresAt.getTime() <= now,
+          isAvailable: profile.isAvailable !== false,
+          renewalPending: (profile.credentialRenewals || []).some(
+            renewal => renewal.credential === credential && renewal.status === CredentialRenewalStatus.PENDING
+          ),
+        };
+      })
+    );
+
+    expirations.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+
+    return {
+      success: true,
+      message: 'Upcoming credential expirations retrieved successfully',
+      data: {
+        days,
+        expirations,
+        summary: {
+          expired: expirations.filter(item => item.expired).length,
+          within7Days: expirations.filter(item => !item.expired && item.daysLeft <= 7).length,
+          within30Days: expirations.filter(item => !item.expired && item.daysLeft <= 30).length,
+          total: expirations.length,
+        },
+      },
+    };
+  }
+
+  /**
+   * Sends the reminder for the closest window each credential has entered.
+   * A nurse first seen at 20 days out gets the 30-day reminder only, then the
+   * 7-day one later. Returns the number of reminders sent.
+   */
+  async sendExpiryReminders(): Promise<number> {
+    const now = Date.now();
+    const horizon = new Date(now + Math.max(...EXPIRY_REMINDER_DAYS) * DAY_MS);
+    const upcoming = { $gt: new Date(now), $lte: horizon };
+
+    const profiles = await this.nurseProfileModel
+      .find({ $or: [{ licenseExpirationDate: upcoming }, { certificationExpirationDate: upcoming }] })
+      .exec();
+
+    let sent = 0;
+    for (const profile of profiles) {
+      for (const credential of Object.values(CredentialType)) {
+        const expiresAt = profile[EXPIRY_FIELDS[credential]];
+        if (!expiresAt || expiresAt.getTime() <= now || expiresAt.getTime() > horizon.getTime()) {
+          continue;
+        }
+
+        const daysLeft = this.daysUntil(expiresAt, now);
+        const window = Math.min(...EXPIRY_REMINDER_DAYS.filter(daysBefore => daysLeft <= daysBefore));
+        const alreadySent = (profile.expiryReminders || []).some(reminder =>
+          reminder.credential === credential
+          && reminder.daysBefore === window
+          && reminder.expiresAt.getTime() === expiresAt.getTime()
+        );
+        if (alreadySent) {
+          continue;
+        }
+
+        try {
+          await this.notificationsService.notifyCredentialExpiring(
+            String(profile.userId), CREDENTIAL_LABELS[credential], expiresAt, daysLeft
+          );
+        } catch (notificationError) {
+          console.error('Failed to send credential expiry reminder:', notificationError);
+          // Recorded anyway, so a failing channel doesn't resend the reminder every run
+        }
+
+        profile.expiryReminders = [
+          ...(profile.expiryReminders || []),
+          { credential, daysBefore: window, expiresAt, sentAt: new Date() },
+        ];
+        sent++;
+      }
+
+      if (profile.isModified('expiryReminders')) {
+        await profile.save();
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Takes nurses whose license has expired off the marketplace: they are marked
+   * unavailable and hidden from nearby and search results until an admin approves
+   * a renewal. Returns the number of nurses deactivated.
+   */
+  async deactivateExpiredLicenses(): Promise<number> {
+    const profiles = await this.nurseProfileModel
+      .find({ licenseExpirationDate: { $lte: new Date() }, licenseExpiredAt: null })
+      .populate('userId', 'name')
+      .exec();
+    if (profiles.length === 0) {
+      return 0;
+    }
+
+    const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+
+    for (const profile of profiles) {
+      const nurse = profile.userId as any;
+      profile.isAvailable = false;
+      profile.licenseExpiredAt = new Date();
+      await profile.save();
+
+      this.logger.log(`License of nurse ${nurse._id} expired; removed from the marketplace`);
+
+      try {
+        const label = CREDENTIAL_LABELS[CredentialType.LICENSE];
+        await this.notificationsService.notifyCredentialExpired(String(nurse._id), label, nurse.name, false);
+        await Promise.all(admins.map(admin => this.notificationsService.notifyCredentialExpired(
+          String(admin._id), label, nurse.name || 'A nurse', true
+        )));
+      } catch (notificationError) {
+        console.error('Failed to send license expiry notifications:', notificationError);
+        // Don't fail the deactivation if notification fails
+      }
+    }
+
+    return profiles.length;
+  }
+
+  private async findProfile(nurseId: string): Promise<NurseProfileDocument> {
+    const profile = await this.nurseProfileModel.findOne({ userId: nurseId }).exec();
+    if (!profile) {
+      throw new NotFoundException('Nurse profile not found');
+    }
+    return profile;
+  }
+
+  private findPendingRenewal(profile: NurseProfileDocument, renewalId: string) {
+    const renewal = profile.credentialRenewals?.find(item => String(item._id) === renewalId);
+    if (!renewal) {
+      throw new NotFoundException('Renewal not found');
+    }
+    if (renewal.status !== CredentialRenewalStatus.PENDING) {
+      throw new BadRequestException(`Renewal has already been ${renewal.status}`);
+    }
+    return renewal;
+  }
+
+  // Whole days left, counting a partial day as one
+  private daysUntil(date: Date, now: number): number {
+    return Math.ceil((date.getTime() - now) / DAY_MS);
+  }
+
+  private formatNurse(profile: NurseProfileDocument) {
+    const nurse = profile.userId as any;
+    return {
+      id: String(nurse?._id ?? nurse),
+      name: nurse?.name,
+      email: nurse?.email,
+      phone: nurse?.phone,
+      status: nurse?.status,
+    };
+  }
+
+  private formatCredentials(profile: NurseProfileDocument) {
+    const now = Date.now();
+    const describe = (credential: CredentialType) => {
+      const expiresAt = profile[EXPIRY_FIELDS[credential]];
+      const renewals = (profile.credentialRenewals || []).filter(renewal => renewal.credential === credential);
+      return {
+        expiresAt,
+        daysLeft: expiresAt ? this.daysUntil(expiresAt, now) : null,
+        expired: expiresAt ? expiresAt.getTime() <= now : false,
+        pendingRenewal: renewals.find(renewal => renewal.status === CredentialRenewalStatus.PENDING) || null,
+        lastRenewal: renewals[renewals.length - 1] || null,
+      };
+    };
+
+    return {
+      license: { number: profile.licenseNumber, document: profile.licenseDocument, ...describe(CredentialType.LICENSE) },
+      certification: { name: profile.certificationName, ...describe(CredentialType.CERTIFICATION) },
+      licenseExpiredAt: profile.licenseExpiredAt,
+      isAvailable: profile.isAvailable !== false,
+    };
+  }
+}
@@ -1,13 +1,25 @@
-import { Controller, Get, Patch, Param, Query, UseGuards, Request, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Patch, Put, Post, Delete, Body, Param, Query, UseGuards, UseInterceptors, UploadedFile, Request, ValidationPipe } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { NursesService } from './nurses.service';
+import { NurseAvailabilityService } from './nurse-availability.service';
+import { NurseCredentialsService, CREDENTIAL_DOCUMENTS_DIR } from './nurse-credentials.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard, Roles } from '../auth/roles.guard';
 import { UserRole } from '../schemas/user.schema';
 import { GetNearbyNursesDto } from '../dto/request.dto';
+import { UpdateAvailabilityDto, CreateTimeOffDto } from '../dto/availability.dto';
+import { SubmitCredentialRenewalDto, RejectCredentialRenewalDto, CredentialRenewalQueryDto, CredentialExpiryQueryDto } from '../dto/credential.dto';
+import { createStorage, documentFileFilter } from '../uploads/upload-storage';
+import { Audit } from '../common/decorators/audit.decorator';
+import { AuditTargetType } from '../schemas/audit-event.schema';
 
 @Controller('api/nurses')
 export class NursesController {
-  constructor(private readonly nursesService: NursesService) {}
+  constructor(
+    private readonly nursesService: NursesService,
+    private readonly nurseAvailabilityService: NurseAvailabilityService,
+    private readonly nurseCredentialsService: NurseCredentialsService,
+  ) {}
 
   @Get('nearby')
   async getNearbyNurses(@Query(new ValidationPipe({ transform: true })) getNearbyNursesDto: GetNearbyNursesDto) {
@@ -18,8 +30,105 @@ export class NursesController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.NURSE)
   async getAvailability(@Request() req: any) {
-    // This is just to ensure the route exists for GET requests
-    return { isAvailable: req.user.isAvailable || false };
+    return this.nurseAvailabilityService.getAvailability(req.user);
+  }
+
+  @Put('availability/schedule')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.NURSE)
+  async updateAvailability(
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) updateAvailabilityDto: UpdateAvailabilityDto,
+    @Request() req: any
+  ) {
+    return this.nurseAvailabilityService.updateAvailability(req.user, updateAvailabilityDto);
+  }
+
+  @Post('availability/time-off')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.NURSE)
+  async addTimeOff(
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) createTimeOffDto: CreateTimeOffDto,
+    @Request() req: any
+  ) {
+    return this.nurseAvailabilityService.addTimeOff(req.user, createTimeOffDto);
+  }
+
+  @Delete('availability/time-off/:timeOffId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.NURSE)
+  async removeTimeOff(@Param('timeOffId') timeOffId: string, @Request() req: any) {
+    return this.nurseAvailabilityService.removeTimeOff(req.user, timeOffId);
+  }
+
+  @Get('credentials')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.NURSE)
+  async getOwnCredentials(@Request() req: any) {
+    return this.nurseCredentialsService.getOwnCredentials(req.user);
+  }
+
+  @Post('credentials/renewals')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.NURSE)
+  @UseInterceptors(FileInterceptor('document', {
+    storage: createStorage(CREDENTIAL_DOCUMENTS_DIR),
+    fileFilter: documentFileFilter,
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB
+    }
+  }))
+  async submitCredentialRenewal(
+    @UploadedFile() file: Express.Multer.File,
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) submitRenewalDto: SubmitCredentialRenewalDto,
+    @Request() req: any
+  ) {
+    return this.nurseCredentialsService.submitRenewal(req.user, submitRenewalDto, file);
+  }
+
+  @Get('credentials/renewals')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getCredentialRenewals(@Query(new ValidationPipe({ transform: true })) query: CredentialRenewalQueryDto) {
+    return this.nurseCredentialsService.getRenewals(query.status);
+  }
+
+  @Get('credentials/expiring')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getUpcomingExpirations(@Query(new ValidationPipe({ transform: true })) query: CredentialExpiryQueryDto) {
+    return this.nurseCredentialsService.getUpcomingExpirations(query.days);
+  }
+
+  @Patch(':nurseId/credentials/renewals/:renewalId/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'nurse.credential_renewal.approve', targetType: AuditTargetType.NURSE, targetParam: 'nurseId' })
+  async approveCredentialRenewal(
+    @Param('nurseId') nurseId: string,
+    @Param('renewalId') renewalId: string,
+    @Request() req: any
+  ) {
+    return this.nurseCredentialsService.approveRenewal(nurseId, renewalId, req.user);
+  }
+
+  @Patch(':nurseId/credentials/renewals/:renewalId/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'nurse.credential_renewal.reject', targetType: AuditTargetType.NURSE, targetParam: 'nurseId' })
+  async rejectCredentialRenewal(
+    @Param('nurseId') nurseId: string,
+    @Param('renewalId') renewalId: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) rejectRenewalDto: RejectCredentialRenewalDto,
+    @Request() req: any
+  ) {
+    return this.nurseCredentialsService.rejectRenewal(nurseId, renewalId, rejectRenewalDto.reason, req.user);
+  }
+
+  @Get(':id/submissions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getSubmissionHistory(@Param('id') nurseId: string) {
+    return this.nursesService.getSubmissionHistory(nurseId);
   }
 
   @Get(':id/stats')
@@ -39,6 +148,7 @@ export class NursesController {
   @Patch(':id/verify')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'nurse.verify', targetType: AuditTargetType.NURSE, targetParam: 'id' })
   async verifyNurse(@Param('id') nurseId: string, @Request() req : any) {
     return this.nursesService.verifyNurse(nurseId, req.user);
   }
@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { NursesService } from './nurses.service';
 import { NursesController } from './nurses.controller';
+import { NurseAvailabilityService } from './nurse-availability.service';
+import { NurseCredentialsService } from './nurse-credentials.service';
+import { CredentialExpiryScheduler } from './credential-expiry.scheduler';
 import { User, UserSchema } from '../schemas/user.schema';
 import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
 import { ProfileSubmission, ProfileSubmissionSchema } from '../schemas/profile-submission.schema';
@@ -22,8 +25,8 @@ import { NotificationsModule } from '../notifications/notifications.module';
     ]),
     NotificationsModule,
   ],
-  providers: [NursesService],
+  providers: [NursesService, NurseAvailabilityService, NurseCredentialsService, CredentialExpiryScheduler],
   controllers: [NursesController],
-  exports: [NursesService],
+  exports: [NursesService, NurseAvailabilityService],
 })
 export class NursesModule {}
@@ -0,0 +1,83 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { NursesService } from './nurses.service';
+import { NurseAvailabilityService } from './nurse-availability.service';
+import { User, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile, ProfileCompletionStatus } from '../schemas/nurse-profile.schema';
+import { AdminAction, ProfileSubmission, SubmissionStatus } from '../schemas/profile-submission.schema';
+import { PatientRequest } from '../schemas/patient-request.schema';
+import { Application } from '../schemas/application.schema';
+import { Review } from '../schemas/review.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('NursesService', () => {
+  let service: NursesService;
+  let nurse: any;
+  let nurseProfile: any;
+  let submission: any;
+  let notificationsService: { notifyNurseRejected: jest.Mock; notifyNurseChangesRequested: jest.Mock };
+
+  const admin: any = { _id: new Types.ObjectId(), role: UserRole.ADMIN };
+  const feedback = [{ field: 'licenseDocument', message: 'License scan unreadable' }] as any[];
+
+  beforeEach(async () => {
+    nurse = { _id: new Types.ObjectId(), role: UserRole.NURSE, status: UserStatus.PENDING, save: jest.fn().mockResolvedValue(undefined) };
+    nurseProfile = { save: jest.fn().mockResolvedValue(undefined) };
+    submission = { status: SubmissionStatus.PENDING, actionHistory: [], save: jest.fn().mockResolvedValue(undefined) };
+    notificationsService = {
+      notifyNurseRejected: jest.fn().mockResolvedValue(undefined),
+      notifyNurseChangesRequested: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NursesService,
+        { provide: getModelToken(User.name), useValue: { findById: () => ({ exec: async () => nurse }) } },
+        { provide: getModelToken(NurseProfile.name), useValue: { findOne: () => ({ exec: async () => nurseProfile }) } },
+        { provide: getModelToken(ProfileSubmission.name), useValue: { findOne: () => ({ sort: () => ({ exec: async () => submission }) }) } },
+        { provide: getModelToken(PatientRequest.name), useValue: {} },
+        { provide: getModelToken(Application.name), useValue: {} },
+        { provide: getModelToken(Review.name), useValue: {} },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: NurseAvailabilityService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NursesService);
+  });
+
+  describe('rejectNurse', () => {
+    it('asks for changes when the admin flags items, keeping the account pending', async () => {
+      const result = await service.rejectNurse(String(nurse._id), admin, 'Fix the flagged items', feedback);
+
+      expect(result.message).toBe('Changes requested from the nurse');
+      expect(nurse.status).toBe(UserStatus.PENDING);
+      expect(nurseProfile.completionStatus).toBe(ProfileCompletionStatus.REJECTED);
+      expect(submission).toEqual(expect.objectContaining({
+        status: SubmissionStatus.REQUIRES_CHANGES,
+        feedback,
+        reviewedBy: admin._id,
+      }));
+      expect(submission.actionHistory).toEqual([expect.objectContaining({ action: AdminAction.REQUESTED_CHANGES })]);
+      expect(notificationsService.notifyNurseChangesRequested).toHaveBeenCalledWith(String(nurse._id), 1, 'Fix the flagged items');
+    });
+
+    it('rejects for good without feedback', async () => {
+      await service.rejectNurse(String(nurse._id), admin, 'Not licensed in Egypt');
+
+      expect(nurse.status).toBe(UserStatus.REJECTED);
+      expect(submission.status).toBe(SubmissionStatus.REJECTED);
+      expect(notificationsService.notifyNurseRejected).toHaveBeenCalledWith(String(nurse._id), 'Not licensed in Egypt');
+      expect(notificationsService.notifyNurseChangesRequested).not.toHaveBeenCalled();
+    });
+
+    it('still rejects a nurse with no submission awaiting review', async () => {
+      submission = null;
+
+      await expect(service.rejectNurse(String(nurse._id), admin, 'Not licensed in Egypt')).resolves.toEqual(
+        expect.objectContaining({ message: 'Nurse application rejected successfully' }),
+      );
+    });
+  });
+});
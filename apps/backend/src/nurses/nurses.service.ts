@@ -1,13 +1,21 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
 import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
-import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
+import { NurseProfile, NurseProfileDocument, ProfileCompletionStatus } from '../schemas/nurse-profile.schema';
+import {
+  ProfileSubmission,
+  ProfileSubmissionDocument,
+  SubmissionStatus,
+  AdminAction,
+  SubmissionFeedback,
+} from '../schemas/profile-submission.schema';
 import { PatientRequest, PatientRequestDocument } from '../schemas/patient-request.schema';
 import { NotificationsService } from '../notifications/notifications.service';
 import { Application, ApplicationDocument } from '../schemas/application.schema';
 import { Review, ReviewDocument } from '../schemas/review.schema';
 import { GetNearbyNursesDto } from '../dto/request.dto';
+import { NurseAvailabilityService } from './nurse-availability.service';
 
 @Injectable()
 export class NursesService {
@@ -17,11 +25,13 @@ export class NursesService {
     @InjectModel(PatientRequest.name) private patientRequestModel: Model<PatientRequestDocument>,
     @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
     @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
+    @InjectModel(ProfileSubmission.name) private profileSubmissionModel: Model<ProfileSubmissionDocument>,
     private notificationsService: NotificationsService,
+    private nurseAvailabilityService: NurseAvailabilityService,
   ) {}
 
   async getNearbyNurses(getNearbyNursesDto: GetNearbyNursesDto) {
-    const { latitude, longitude, radius = 10, specializations } = getNearbyNursesDto;
+    const { latitude, longitude, radius = 10, specializations, availableAt, duration = 1 } = getNearbyNursesDto;
 
     // Build query for location
     const locationQuery: any = {
@@ -46,17 +56,24 @@ export class NursesService {
 
     // Get nurse profiles with specialization filter if provided
     const nurseIds = nurses.map(nurse => nurse._id);
-    let nurseProfileQuery: any = { userId: { $in: nurseIds }, isAvailable: true };
+    let nurseProfileQuery: any = { userId: { $in: nurseIds }, isAvailable: true, licenseExpiredAt: null };
 
     if (specializations && specializations.length > 0) {
       nurseProfileQuery.specializations = { $in: specializations };
     }
 
-    const nurseProfiles = await this.nurseProfileModel
+    let nurseProfiles = await this.nurseProfileModel
       .find(nurseProfileQuery)
       .populate('userId', '-password')
       .exec();
 
+    // Keep only nurses whose calendar is free for the requested visit
+    if (availableAt) {
+      const start = new Date(availableAt);
+      const end = new Date(start.getTime() + duration * 60 * 60 * 1000);
+      nurseProfiles = await this.nurseAvailabilityService.filterAvailable(nurseProfiles, start, end);
+    }
+
     // Combine user and profile data
     const result = nurseProfiles.map(profile => ({
       id: profile.userId._id,
@@ -111,6 +128,7 @@ export class NursesService {
         nurseProfile.verifiedBy = adminUser._id;
         await nurseProfile.save();
       }
+      await this.recordSubmissionReview(nurseId, adminUser, SubmissionStatus.APPROVED, AdminAction.APPROVED);
     } catch (profileError) {
       console.error('Error updating nurse profile during verification:', profileError);
       // Don't fail the verification if profile update fails
@@ -153,7 +171,12 @@ export class NursesService {
       profileMap.set(profile.userId.toString(), profile);
     });
 
-    const result = pendingNurses.map(nurse => {
+    // Nurses asked to fix their profile come back to the queue when they resubmit
+    const awaitingReview = pendingNurses.filter(
+      nurse => profileMap.get(String(nurse._id))?.completionStatus !== ProfileCompletionStatus.REJECTED
+    );
+
+    const result = awaitingReview.map(nurse => {
       const profile = profileMap.get(nurse._id.toString());
 
       return {
@@ -256,7 +279,12 @@ export class NursesService {
     };
   }
 
-  async rejectNurse(nurseId: string, adminUser: UserDocument, rejectionReason?: string) {
+  /**
+   * Rejects a nurse application. With per-field feedback this is a request for
+   * changes: the account stays pending and the nurse can fix the flagged items
+   * and resubmit. Without feedback the rejection is final.
+   */
+  async rejectNurse(nurseId: string, adminUser: UserDocument, rejectionReason?: string, feedback: SubmissionFeedback[] = []) {
     // Check if admin has permission
     if (adminUser.role !== UserRole.ADMIN) {
       throw new ForbiddenException('Only admins can reject nurses');
@@ -272,8 +300,10 @@ export class NursesService {
       throw new ForbiddenException('User is not a nurse');
     }
 
-    // Update nurse status to rejected
-    nurse.status = UserStatus.REJECTED;
+    const changesRequested = feedback.length > 0;
+
+    // A final rejection locks the account; a request for changes keeps it pending
+    nurse.status = changesRequested ? UserStatus.PENDING : UserStatus.REJECTED;
     await nurse.save();
 
     // Update nurse profile with rejection details
@@ -283,8 +313,17 @@ export class NursesService {
         nurseProfile.rejectedAt = new Date();
         nurseProfile.rejectedBy = adminUser._id;
         nurseProfile.rejectionReason = rejectionReason || 'No reason provided';
+        nurseProfile.completionStatus = ProfileCompletionStatus.REJECTED;
         await nurseProfile.save();
       }
+      await this.recordSubmissionReview(
+        nurseId,
+        adminUser,
+        changesRequested ? SubmissionStatus.REQUIRES_CHANGES : SubmissionStatus.REJECTED,
+        changesRequested ? AdminAction.REQUESTED_CHANGES : AdminAction.REJECTED,
+        rejectionReason,
+        feedback,
+      );
     } catch (profileError) {
       console.error('Error updating nurse profile during rejection:', profileError);
       // Don't fail the rejection if profile update fails
@@ -293,24 +332,88 @@ export class NursesService {
 
     // Send notification to nurse
     try {
-      await this.notificationsService.notifyNurseRejected(nurseId, rejectionReason);
+      if (changesRequested) {
+        await this.notificationsService.notifyNurseChangesRequested(nurseId, feedback.length, rejectionReason);
+      } else {
+        await this.notificationsService.notifyNurseRejected(nurseId, rejectionReason);
+      }
     } catch (notificationError) {
       console.error('Failed to send nurse rejection notification:', notificationError);
       // Don't fail the rejection if notification fails
     }
 
     return {
-      message: 'Nurse application rejected successfully',
+      message: changesRequested ? 'Changes requested from the nurse' : 'Nurse application rejected successfully',
       nurse: {
         id: nurse._id,
         name: nurse.name,
         email: nurse.email,
         status: nurse.status,
         rejectionReason: rejectionReason,
+        feedback,
       },
     };
   }
 
+  // Every submitted version of a nurse's profile, newest first
+  async getSubmissionHistory(nurseId: string) {
+    const submissions = await this.profileSubmissionModel
+      .find({ userId: nurseId })
+      .sort({ version: -1, submittedAt: -1 })
+      .populate('reviewedBy', 'name email')
+      .lean()
+      .exec();
+
+    return {
+      success: true,
+      message: 'Profile submissions retrieved successfully',
+      data: submissions.map(submission => ({
+        id: String(submission._id),
+        version: submission.version,
+        status: submission.status,
+        submittedAt: submission.submittedAt,
+        reviewedAt: submission.reviewedAt,
+        reviewedBy: submission.reviewedBy,
+        rejectionReason: submission.rejectionReason,
+        feedback: submission.feedback || [],
+        changedFields: submission.changedFields || [],
+        snapshot: submission.snapshot || {},
+      })),
+    };
+  }
+
+  // Writes the admin's decision on the submission awaiting review, if there is one
+  private async recordSubmissionReview(
+    nurseId: string,
+    adminUser: UserDocument,
+    status: SubmissionStatus,
+    action: AdminAction,
+    reason?: string,
+    feedback: SubmissionFeedback[] = [],
+  ) {
+    const submission = await this.profileSubmissionModel
+      .findOne({ userId: nurseId, status: { $in: [SubmissionStatus.PENDING, SubmissionStatus.UNDER_REVIEW] } })
+      .sort({ version: -1, submittedAt: -1 })
+      .exec();
+    if (!submission) {
+      return;
+    }
+
+    submission.status = status;
+    submission.reviewedAt = new Date();
+    submission.rejectionReason = reason;
+    submission.feedback = feedback;
+
+    // The admin panel may act without a signed-in admin, so only log real users
+    if (isValidObjectId(adminUser._id)) {
+      const adminId = new Types.ObjectId(String(adminUser._id));
+      submission.reviewedBy = adminId;
+      submission.actionHistory.push({ adminId, action, reason, timestamp: new Date() });
+    }
+
+    await submission.save();
+  }
+
   async toggleAvailability(user: UserDocument) {
     if (user.role !== UserRole.NURSE) {
       throw new ForbiddenException('Only nurses can toggle availability');
@@ -321,6 +424,10 @@ export class NursesService {
       throw new NotFoundException('Nurse profile not found');
     }
 
+    if (!nurseProfile.isAvailable && nurseProfile.licenseExpiredAt) {
+      throw new BadRequestException('Your license has expired. Upload a renewed license to become available again.');
+    }
+
     nurseProfile.isAvailable = !nurseProfile.isAvailable;
     await nurseProfile.save();
 
@@ -0,0 +1,127 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { CancellationPolicy } from '../schemas/cancellation-policy.schema';
+import { UserRole } from '../schemas/user.schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('CancellationPolicyService', () => {
+  let service: CancellationPolicyService;
+  let cancellationPolicyModel: { find: jest.Mock; create: jest.Mock };
+
+  // Policies stored by admins, returned for any lookup
+  const stored = (policies: any[]) =>
+    cancellationPolicyModel.find.mockReturnValue({ sort: () => ({ exec: async () => policies }) });
+
+  const request = (hoursAhead: number, fields: Record<string, any> = {}): any => ({
+    scheduledDate: new Date(Date.now() + hoursAhead * HOUR_MS),
+    nurseId: new Types.ObjectId(),
+    urgencyLevel: 'medium',
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    cancellationPolicyModel = { find: jest.fn(), create: jest.fn().mockImplementation(async (data: any) => data) };
+    stored([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CancellationPolicyService,
+        { provide: getModelToken(CancellationPolicy.name), useValue: cancellationPolicyModel },
+      ],
+    }).compile();
+
+    service = moduleRef.get(CancellationPolicyService);
+  });
+
+  describe('quote', () => {
+    it('refunds patients in full when they cancel a day ahead', async () => {
+      const quote = await service.quote(request(30), UserRole.PATIENT, 500, 'egp');
+
+      expect(quote).toEqual(expect.objectContaining({ refundAmount: 500, nurseCompensation: 0, platformAmount: 0 }));
+    });
+
+    it('splits a late patient cancellation between the patient, the nurse and the platform', async () => {
+      const quote = await service.quote(request(5), UserRole.PATIENT, 500, 'egp');
+
+      expect(quote).toEqual(expect.objectContaining({
+        policy: 'Default patient cancellation',
+        refundAmount: 250,
+        nurseCompensation: 200,
+        platformAmount: 50,
+      }));
+    });
+
+    it('falls to the shortest-notice tier after the visit time has passed', async () => {
+      const quote = await service.quote(request(-1), UserRole.PATIENT, 500, 'egp');
+
+      expect(quote.refundPercent).toBe(0);
+      expect(quote.nurseCompensation).toBe(400);
+    });
+
+    it('does not compensate a nurse when none was assigned', async () => {
+      const quote = await service.quote(request(5, { nurseId: undefined }), UserRole.PATIENT, 500, 'egp');
+
+      expect(quote.nurseCompensation).toBe(0);
+      expect(quote.platformAmount).toBe(250);
+    });
+
+    it('refunds everything when an admin cancels', async () => {
+      const quote = await service.quote(request(1), UserRole.ADMIN, 500, 'egp');
+
+      expect(quote.refundAmount).toBe(500);
+    });
+
+    it('prefers a policy for the request\'s urgency over one for all levels', async () => {
+      stored([
+        { _id: new Types.ObjectId(), name: 'All levels', urgencyLevels: [], tiers: [{ minHoursBefore: 0, refundPercent: 10, nurseCompensationPercent: 0 }] },
+        { _id: new Types.ObjectId(), name: 'Emergencies', urgencyLevels: ['critical'], tiers: [{ minHoursBefore: 0, refundPercent: 90, nurseCompensationPercent: 0 }] },
+      ]);
+
+      await expect(service.quote(request(5, { urgencyLevel: 'critical' }), UserRole.PATIENT, 500, 'egp'))
+        .resolves.toEqual(expect.objectContaining({ policy: 'Emergencies', refundAmount: 450 }));
+      await expect(service.quote(request(5), UserRole.PATIENT, 500, 'egp'))
+        .resolves.toEqual(expect.objectContaining({ policy: 'All levels', refundAmount: 50 }));
+    });
+  });
+
+  describe('createPolicy', () => {
+    const admin: any = { _id: new Types.ObjectId() };
+
+    it('stores tiers from the longest notice to the shortest', async () => {
+      const result = await service.createPolicy({
+        name: 'Weekend',
+        cancelledBy: UserRole.PATIENT,
+        tiers: [
+          { minHoursBefore: 0, refundPercent: 0, nurseCompensationPercent: 50 },
+          { minHoursBefore: 48, refundPercent: 100, nurseCompensationPercent: 0 },
+        ],
+      } as any, admin);
+
+      expect(result.data.tiers.map((tier: any) => tier.minHoursBefore)).toEqual([48, 0]);
+    });
+
+    it('refuses tiers that give away more than was paid', async () => {
+      await expect(service.createPolicy({
+        name: 'Generous',
+        cancelledBy: UserRole.PATIENT,
+        tiers: [{ minHoursBefore: 0, refundPercent: 80, nurseCompensationPercent: 40 }],
+      } as any, admin)).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('refuses two tiers with the same notice period', async () => {
+      await expect(service.createPolicy({
+        name: 'Ambiguous',
+        cancelledBy: UserRole.PATIENT,
+        tiers: [
+          { minHoursBefore: 24, refundPercent: 100, nurseCompensationPercent: 0 },
+          { minHoursBefore: 24, refundPercent: 50, nurseCompensationPercent: 0 },
+        ],
+      } as any, admin)).rejects.toThrow('Each tier needs a different notice period');
+      expect(cancellationPolicyModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  CancellationPolicy,
+  CancellationPolicyDocument,
+  CancellationTier
+} from '../schemas/cancellation-policy.schema';
+import { PatientRequestDocument } from '../schemas/patient-request.schema';
+import { UserDocument, UserRole } from '../schemas/user.schema';
+import { CreateCancellationPolicyDto, UpdateCancellationPolicyDto } from '../dto/cancellation-policy.dto';
+
+export interface CancellationQuote {
+  policy: string;
+  policyId?: string;
+  cancelledBy: UserRole;
+  hoursBeforeVisit: number;
+  refundPercent: number;
+  nurseCompensationPercent: number;
+  // Money held or paid for the visit; the three shares below add up to it
+  paidAmount: number;
+  refundAmount: number;
+  nurseCompensation: number;
+  platformAmount: number;
+  currency: string;
+}
+
+type PolicyRules = Pick<CancellationPolicy, 'name' | 'cancelledBy' | 'urgencyLevels' | 'tiers'>;
+
+// Applied when admins have not configured a policy for the case
+const DEFAULT_POLICIES: PolicyRules[] = [
+  {
+    name: 'Default patient cancellation',
+    cancelledBy: UserRole.PATIENT,
+    urgencyLevels: [],
+    tiers: [
+      { minHoursBefore: 24, refundPercent: 100, nurseCompensationPercent: 0 },
+      { minHoursBefore: 2, refundPercent: 50, nurseCompensationPercent: 40 },
+      { minHoursBefore: 0, refundPercent: 0, nurseCompensationPercent: 80 },
+    ],
+  },
+  {
+    name: 'Default admin cancellation',
+    cancelledBy: UserRole.ADMIN,
+    urgencyLevels: [],
+    tiers: [
+      { minHoursBefore: 0, refundPercent: 100, nurseCompensationPercent: 0 },
+    ],
+  },
+];
+
+/**
+ * Admin-configured rules for how much of a visit payment is refunded when a
+ * request is cancelled. A policy matches on who cancels and, optionally, the
+ * urgency of the request; its tiers pick the split by the notice given.
+ */
+@Injectable()
+export class CancellationPolicyService {
+  private readonly logger = new Logger(CancellationPolicyService.name);
+
+  constructor(
+    @InjectModel(CancellationPolicy.name) private cancellationPolicyModel: Model<CancellationPolicyDocument>,
+  ) {}
+
+  async getPolicies() {
+    const policies = await this.cancellationPolicyModel
+      .find()
+      .sort({ cancelledBy: 1, updatedAt: -1 })
+      .exec();
+
+    return {
+      success: true,
+      message: 'Cancellation policies retrieved successfully',
+      data: {
+        policies,
+        defaults: DEFAULT_POLICIES,
+      },
+    };
+  }
+
+  async createPolicy(createPolicyDto: CreateCancellationPolicyDto, adminUser: UserDocument) {
+    const policy = await this.cancellationPolicyModel.create({
+      ...createPolicyDto,
+      tiers: this.normalizeTiers(createPolicyDto.tiers),
+      updatedBy: new Types.ObjectId(String(adminUser._id)),
+    });
+
+    this.logger.log(`Cancellation policy "${policy.name}" created by ${adminUser._id}`);
+
+    return {
+      success: true,
+      message: 'Cancellation policy created successfully',
+      data: policy,
+    };
+  }
+
+  async updatePolicy(policyId: string, updatePolicyDto: UpdateCancellationPolicyDto, adminUser: UserDocument) {
+    const policy = await this.cancellationPolicyModel.findById(policyId).exec();
+    if (!policy) {
+      throw new NotFoundException('Cancellation policy not found');
+    }
+
+    if (updatePolicyDto.name !== undefined) policy.name = updatePolicyDto.name;
+    if (updatePolicyDto.urgencyLevels !== undefined) policy.urgencyLevels = updatePolicyDto.urgencyLevels;
+    if (updatePolicyDto.isActive !== undefined) policy.isActive = updatePolicyDto.isActive;
+    if (updatePolicyDto.tiers !== undefined) policy.tiers = this.normalizeTiers(updatePolicyDto.tiers);
+    policy.updatedBy = new Types.ObjectId(String(adminUser._id));
+    await policy.save();
+
+    return {
+      success: true,
+      message: 'Cancellation policy updated successfully',
+      data: policy,
+    };
+  }
+
+  async deletePolicy(policyId: string) {
+    const policy = await this.cancellationPolicyModel.findByIdAndDelete(policyId).exec();
+    if (!policy) {
+      throw new NotFoundException('Cancellation policy not found');
+    }
+
+    return {
+      success: true,
+      message: 'Cancellation policy deleted successfully',
+    };
+  }
+
+  /**
+   * Splits `paidAmount` between the patient, the assigned nurse and the
+   * platform for a cancellation made now by `cancelledBy`.
+   */
+  async quote(request: PatientRequestDocument, cancelledBy: UserRole, paidAmount: number, currency: string): Promise<CancellationQuote> {
+    const policy = await this.findPolicy(cancelledBy, request.urgencyLevel);
+    const hoursBeforeVisit = (new Date(request.scheduledDate).getTime() - Date.now()) / (60 * 60 * 1000);
+
+    // Tiers are sorted by notice; cancelling after the visit time falls to the last one
+    const tier = policy.tiers.find(candidate => hoursBeforeVisit >= candidate.minHoursBefore)
+      ?? policy.tiers[policy.tiers.length - 1];
+
+    const refundAmount = Math.round(paidAmount * tier.refundPercent / 100);
+    // Without an assigned nurse there is nobody to compensate
+    const nurseCompensation = request.nurseId
+      ? Math.min(Math.round(paidAmount * tier.nurseCompensationPercent / 100), paidAmount - refundAmount)
+      : 0;
+
+    return {
+      policy: policy.name,
+      policyId: '_id' in policy ? String(policy._id) : undefined,
+      cancelledBy,
+      hoursBeforeVisit: Math.round(hoursBeforeVisit * 10) / 10,
+      refundPercent: tier.refundPercent,
+      nurseCompensationPercent: request.nurseId ? tier.nurseCompensationPercent : 0,
+      paidAmount,
+      refundAmount,
+      nurseCompensation,
+      platformAmount: paidAmount - refundAmount - nurseCompensation,
+      currency,
+    };
+  }
+
+  // A policy for the exact urgency level wins over one that applies to all levels
+  private async findPolicy(cancelledBy: UserRole, urgencyLevel?: string): Promise<PolicyRules | CancellationPolicyDocument> {
+    const policies = await this.cancellationPolicyModel
+      .find({ cancelledBy, isActive: true })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    const specific = policies.find(policy => urgencyLevel && policy.urgencyLevels.includes(urgencyLevel));
+    const general = policies.find(policy => policy.urgencyLevels.length === 0);
+
+    return specific
+      ?? general
+      ?? DEFAULT_POLICIES.find(policy => policy.cancelledBy === cancelledBy)
+      ?? DEFAULT_POLICIES[DEFAULT_POLICIES.length - 1];
+  }
+
+  private normalizeTiers(tiers: CancellationTier[]): CancellationTier[] {
+    for (const tier of tiers) {
+      if (tier.refundPercent + tier.nurseCompensationPercent > 100) {
+        throw new BadRequestException('Refund and nurse compensation cannot add up to more than 100%');
+      }
+    }
+
+    const sorted = [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+    if (new Set(sorted.map(tier => tier.minHoursBefore)).size !== sorted.length) {
+      throw new BadRequestException('Each tier needs a different notice period');
+    }
+
+    return sorted;
+  }
+}
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PaymentsService } from './payments.service';
+
+@Injectable()
+export class EscrowScheduler {
+  private readonly logger = new Logger(EscrowScheduler.name);
+
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async processAutoConfirmations() {
+    try {
+      const { autoConfirmed, captured } = await this.paymentsService.processAutoConfirmations();
+      if (autoConfirmed > 0 || captured > 0) {
+        this.logger.log(`Auto-confirmed ${autoConfirmed} visit(s), captured ${captured} payment(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to process escrow auto-confirmations', error);
+    }
+  }
+}
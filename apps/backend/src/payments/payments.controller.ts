@@ -10,24 +10,158 @@ import {
   ValidationPipe,
   Headers,
   RawBodyRequest,
-  Req
+  Req,
+  Res,
+  ParseIntPipe,
+  Patch,
+  Delete
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { PaymentsService } from './payments.service';
+import { InvoicesService, InvoiceFile } from '../invoices/invoices.service';
+import type { InvoiceLanguage } from '../invoices/invoice-pdf.renderer';
+import { WalletService } from './wallet.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { LedgerService } from '../ledger/ledger.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { UserRole } from '../schemas/user.schema';
 import { 
   CreatePaymentIntentDto, 
   ConfirmPaymentDto, 
   RefundPaymentDto, 
-  PaymentResponseDto 
+  PaymentResponseDto,
+  OpenDisputeDto,
+  ResolveDisputeDto,
+  AuthorizePaymentDto,
+  CreditWalletDto
 } from '../dto/payment.dto';
+import { CreateCancellationPolicyDto, UpdateCancellationPolicyDto } from '../dto/cancellation-policy.dto';
+import { Audit } from '../common/decorators/audit.decorator';
+import { AuditTargetType } from '../schemas/audit-event.schema';
 
 @ApiTags('Payments')
 @Controller('api/payments')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT-auth')
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly ledgerService: LedgerService,
+    private readonly walletService: WalletService,
+    private readonly invoicesService: InvoicesService,
+    private readonly cancellationPolicyService: CancellationPolicyService,
+  ) {}
+
+  @Get('providers')
+  @ApiOperation({ summary: 'List the payment providers a patient can choose for a request' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Payment providers retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  getProviders() {
+    return this.paymentsService.getAvailableProviders();
+  }
+
+  @Get('wallet')
+  @ApiOperation({ summary: 'Get the in-app wallet balance and transactions of the authenticated user' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Wallet retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  async getWallet(
+    @Request() req: any,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+    return this.walletService.getWallet(String(req.user._id), pageNum, limitNum);
+  }
+
+  @Post('admin/wallets/:userId/credit')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'wallet.credit', targetType: AuditTargetType.WALLET, targetParam: 'userId' })
+  @ApiOperation({ summary: 'Add money to a patient wallet, e.g. for a top-up paid offline (admin only)' })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Wallet credited successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 404, description: 'Patient not found' })
+  async creditWallet(
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) creditWalletDto: CreditWalletDto,
+    @Request() req: any
+  ) {
+    return this.walletService.creditByAdmin(userId, creditWalletDto, req.user);
+  }
+
+  @Get('admin/cancellation-policies')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List cancellation policies and the built-in defaults (admin only)' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Cancellation policies retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  async getCancellationPolicies() {
+    return this.cancellationPolicyService.getPolicies();
+  }
+
+  @Post('admin/cancellation-policies')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'cancellation_policy.create', targetType: AuditTargetType.CANCELLATION_POLICY })
+  @ApiOperation({ summary: 'Create a cancellation policy (admin only)' })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Cancellation policy created successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'Invalid tiers' })
+  async createCancellationPolicy(
+    @Body(ValidationPipe) createPolicyDto: CreateCancellationPolicyDto,
+    @Request() req: any
+  ) {
+    return this.cancellationPolicyService.createPolicy(createPolicyDto, req.user);
+  }
+
+  @Patch('admin/cancellation-policies/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'cancellation_policy.update', targetType: AuditTargetType.CANCELLATION_POLICY, targetParam: 'id' })
+  @ApiOperation({ summary: 'Update a cancellation policy (admin only)' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Cancellation policy updated successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'Invalid tiers' })
+  @ApiResponse({ status: 404, description: 'Cancellation policy not found' })
+  async updateCancellationPolicy(
+    @Param('id') policyId: string,
+    @Body(ValidationPipe) updatePolicyDto: UpdateCancellationPolicyDto,
+    @Request() req: any
+  ) {
+    return this.cancellationPolicyService.updatePolicy(policyId, updatePolicyDto, req.user);
+  }
+
+  @Delete('admin/cancellation-policies/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'cancellation_policy.delete', targetType: AuditTargetType.CANCELLATION_POLICY, targetParam: 'id' })
+  @ApiOperation({ summary: 'Delete a cancellation policy (admin only)' })
+  @ApiResponse({ status: 200, description: 'Cancellation policy deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Cancellation policy not found' })
+  async deleteCancellationPolicy(@Param('id') policyId: string) {
+    return this.cancellationPolicyService.deletePolicy(policyId);
+  }
 
   @Post('create-payment-intent')
   @ApiOperation({ summary: 'Create a payment intent for a service request' })
@@ -62,6 +196,128 @@ export class PaymentsController {
     return this.paymentsService.confirmPayment(confirmPaymentDto, req.user);
   }
 
+  @Get('requests/:requestId')
+  @ApiOperation({ summary: 'Get the escrow state of the payment for a request' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Request payment retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Request not found' })
+  async getPaymentForRequest(
+    @Param('requestId') requestId: string,
+    @Request() req: any
+  ) {
+    return this.paymentsService.getPaymentForRequest(requestId, req.user);
+  }
+
+  @Post('requests/:requestId/authorize')
+  @ApiOperation({ summary: 'Get (or create) the escrow hold the patient has to authorize for an accepted request' })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Payment authorization retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'Request has no accepted offer' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getAuthorization(
+    @Param('requestId') requestId: string,
+    @Body(ValidationPipe) authorizePaymentDto: AuthorizePaymentDto,
+    @Request() req: any
+  ) {
+    return this.paymentsService.getAuthorization(requestId, req.user, authorizePaymentDto);
+  }
+
+  @Post('requests/:requestId/cash-collected')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.NURSE)
+  @ApiOperation({ summary: 'Confirm that the cash payment for a visit was collected (assigned nurse only)' })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Cash collection recorded successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'No pending cash payment for this request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async confirmCashCollection(
+    @Param('requestId') requestId: string,
+    @Request() req: any
+  ) {
+    return this.paymentsService.confirmCashCollection(requestId, req.user);
+  }
+
+  @Get('requests/:requestId/cancellation-quote')
+  @ApiOperation({ summary: 'Preview the refund and nurse compensation if the request were cancelled now' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Cancellation quote calculated successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Request not found' })
+  async getCancellationQuote(
+    @Param('requestId') requestId: string,
+    @Request() req: any
+  ) {
+    return this.paymentsService.getCancellationQuote(requestId, req.user);
+  }
+
+  @Post('requests/:requestId/dispute')
+  @ApiOperation({ summary: 'Dispute a visit and freeze capture of its held payment' })
+  @ApiResponse({ 
+    status: 201, 
+    description: 'Dispute opened successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'No held payment or dispute already open' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async openDispute(
+    @Param('requestId') requestId: string,
+    @Body(ValidationPipe) openDisputeDto: OpenDisputeDto,
+    @Request() req: any
+  ) {
+    return this.paymentsService.openDispute(requestId, openDisputeDto, req.user);
+  }
+
+  @Get('disputes')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List payments with an open dispute (admin only)' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Open disputes retrieved successfully',
+    type: PaymentResponseDto 
+  })
+  async getOpenDisputes(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? parseInt(limit, 10) : 20;
+    return this.paymentsService.getOpenDisputes(pageNum, limitNum);
+  }
+
+  @Post('disputes/:id/resolve')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Audit({ action: 'payment.dispute.resolve', targetType: AuditTargetType.PAYMENT, targetParam: 'id' })
+  @ApiOperation({ summary: 'Resolve a dispute by capturing, partially capturing or releasing the hold (admin only)' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Dispute resolved successfully',
+    type: PaymentResponseDto 
+  })
+  @ApiResponse({ status: 400, description: 'No open dispute or invalid amount' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async resolveDispute(
+    @Param('id') paymentId: string,
+    @Body(ValidationPipe) resolveDisputeDto: ResolveDisputeDto,
+    @Request() req: any
+  ) {
+    return this.paymentsService.resolveDispute(paymentId, resolveDisputeDto, req.user);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get payment history for the authenticated user' })
   @ApiResponse({ 
@@ -79,6 +335,40 @@ export class PaymentsController {
     return this.paymentsService.getPaymentHistory(req.user, pageNum, limitNum);
   }
 
+  @Get('statements/:year')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.PATIENT)
+  @ApiOperation({ summary: 'Download all invoices paid in a year as one PDF statement, e.g. for insurance claims' })
+  @ApiQuery({ name: 'lang', required: false, enum: ['en', 'ar'], description: 'Statement language' })
+  @ApiResponse({ status: 200, description: 'PDF statement' })
+  @ApiResponse({ status: 400, description: 'Invalid statement year' })
+  async getYearlyStatement(
+    @Param('year', ParseIntPipe) year: number,
+    @Request() req: any,
+    @Res() res: Response,
+    @Query('lang') lang?: string
+  ) {
+    const file = await this.invoicesService.getYearlyStatement(req.user, year, this.invoiceLanguage(lang));
+    this.sendPdf(res, file);
+  }
+
+  @Get(':id/invoice')
+  @ApiOperation({ summary: 'Download the invoice and receipt of a completed payment as a PDF' })
+  @ApiQuery({ name: 'lang', required: false, enum: ['en', 'ar'], description: 'Invoice language' })
+  @ApiResponse({ status: 200, description: 'PDF invoice' })
+  @ApiResponse({ status: 400, description: 'Payment is not completed' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async getInvoice(
+    @Param('id') paymentId: string,
+    @Request() req: any,
+    @Res() res: Response,
+    @Query('lang') lang?: string
+  ) {
+    const file = await this.invoicesService.getInvoicePdf(paymentId, req.user, this.invoiceLanguage(lang));
+    this.sendPdf(res, file);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get payment details by ID' })
   @ApiResponse({ 
@@ -96,6 +386,7 @@ export class PaymentsController {
   }
 
   @Post('refund/:id')
+  @Audit({ action: 'payment.refund', targetType: AuditTargetType.PAYMENT, targetParam: 'id' })
   @ApiOperation({ summary: 'Process a refund for a payment' })
   @ApiResponse({ 
     status: 200, 
@@ -142,16 +433,33 @@ export class PaymentsController {
     type: PaymentResponseDto 
   })
   async getNurseEarnings(@Request() req: any) {
-    // This would be implemented to show nurse-specific earnings
+    const nurseId = String(req.user._id);
+    const now = new Date();
+    const [balance, statement] = await Promise.all([
+      this.ledgerService.getBalance(nurseId),
+      this.ledgerService.getMonthlyStatement(nurseId, now.getUTCFullYear(), now.getUTCMonth() + 1),
+    ]);
+
     return {
       success: true,
       message: 'Nurse earnings retrieved successfully',
       data: {
-        totalEarnings: 0,
-        thisMonthEarnings: 0,
-        pendingPayouts: 0,
-        // Add more earnings data as needed
+        totalEarnings: balance.lifetimeEarnings,
+        thisMonthEarnings: statement.data.visitEarnings + statement.data.bonuses,
+        pendingPayouts: balance.inWithdrawal,
+        ...balance,
       },
     };
   }
+
+  private invoiceLanguage(lang?: string): InvoiceLanguage {
+    return lang === 'ar' ? 'ar' : 'en';
+  }
+
+  private sendPdf(res: Response, file: InvoiceFile) {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('Content-Length', file.content.length);
+    res.end(file.content);
+  }
 }
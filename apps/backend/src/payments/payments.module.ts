@@ -4,9 +4,24 @@ import { ConfigModule } from '@nestjs/config';
 import { PaymentsController } from './payments.controller';
 import { WebhookController } from './webhook.controller';
 import { PaymentsService } from './payments.service';
+import { StripeWebhookService } from './stripe-webhook.service';
+import { EscrowScheduler } from './escrow.scheduler';
+import { WalletService } from './wallet.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { PAYMENT_PROVIDERS, PaymentProvider } from './providers/payment-provider.interface';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { CashPaymentProvider } from './providers/cash-payment.provider';
+import { WalletPaymentProvider } from './providers/wallet-payment.provider';
 import { Payment, PaymentSchema } from '../schemas/payment.schema';
 import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { Application, ApplicationSchema } from '../schemas/application.schema';
 import { User, UserSchema } from '../schemas/user.schema';
+import { WebhookEvent, WebhookEventSchema } from '../schemas/webhook-event.schema';
+import { Wallet, WalletSchema, WalletTransaction, WalletTransactionSchema } from '../schemas/wallet.schema';
+import { CancellationPolicy, CancellationPolicySchema } from '../schemas/cancellation-policy.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { InvoicesModule } from '../invoices/invoices.module';
 
 @Module({
   imports: [
@@ -14,11 +29,34 @@ import { User, UserSchema } from '../schemas/user.schema';
     MongooseModule.forFeature([
       { name: Payment.name, schema: PaymentSchema },
       { name: PatientRequest.name, schema: PatientRequestSchema },
+      { name: Application.name, schema: ApplicationSchema },
       { name: User.name, schema: UserSchema },
+      { name: WebhookEvent.name, schema: WebhookEventSchema },
+      { name: Wallet.name, schema: WalletSchema },
+      { name: WalletTransaction.name, schema: WalletTransactionSchema },
+      { name: CancellationPolicy.name, schema: CancellationPolicySchema },
     ]),
+    NotificationsModule,
+    LedgerModule,
+    InvoicesModule,
   ],
   controllers: [PaymentsController, WebhookController],
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  providers: [
+    PaymentsService,
+    StripeWebhookService,
+    EscrowScheduler,
+    WalletService,
+    CancellationPolicyService,
+    StripePaymentProvider,
+    CashPaymentProvider,
+    WalletPaymentProvider,
+    // Add new providers here; PaymentsService picks one by the name stored on the request
+    {
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (...providers: PaymentProvider[]) => providers,
+      inject: [StripePaymentProvider, CashPaymentProvider, WalletPaymentProvider],
+    },
+  ],
+  exports: [PaymentsService, PAYMENT_PROVIDERS],
 })
 export class PaymentsModule {}
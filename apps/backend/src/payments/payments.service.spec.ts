@@ -0,0 +1,303 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PaymentsService } from './payments.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { PAYMENT_PROVIDERS } from './providers/payment-provider.interface';
+import { DisputeStatus, Payment, PaymentProviderName, PaymentStatus } from '../schemas/payment.schema';
+import { PatientRequest, RequestStatus } from '../schemas/patient-request.schema';
+import { Application } from '../schemas/application.schema';
+import { User, UserRole } from '../schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { InvoicesService } from '../invoices/invoices.service';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let paymentModel: { findOne: jest.Mock; find: jest.Mock; exists: jest.Mock; updateOne: jest.Mock; findOneAndUpdate: jest.Mock };
+  let requestModel: { find: jest.Mock; findById: jest.Mock };
+  let provider: { name: PaymentProviderName; isEnabled: () => boolean; confirm: jest.Mock; capture: jest.Mock; cancel: jest.Mock; refund: jest.Mock };
+  let ledgerService: { recordServicePayment: jest.Mock; recordRefund: jest.Mock };
+  let cancellationPolicyService: { quote: jest.Mock };
+
+  const patient: any = { _id: new Types.ObjectId() };
+  const requestId = String(new Types.ObjectId());
+
+  // Stand-in for a loaded payment document
+  const paymentDoc = (fields: Record<string, any>): any => ({
+    _id: new Types.ObjectId(),
+    requestId: new Types.ObjectId(requestId),
+    patientId: patient._id,
+    externalTransactionId: 'pi_123',
+    paymentProvider: PaymentProviderName.STRIPE,
+    amount: 500,
+    platformFee: 50,
+    netAmount: 450,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    paymentModel = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      exists: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn().mockReturnValue({ exec: async () => ({ modifiedCount: 1 }) }),
+      findOneAndUpdate: jest.fn(),
+    };
+    provider = {
+      name: PaymentProviderName.STRIPE,
+      isEnabled: () => true,
+      confirm: jest.fn(),
+      capture: jest.fn().mockResolvedValue(undefined),
+      cancel: jest.fn().mockResolvedValue(undefined),
+      refund: jest.fn().mockResolvedValue({ refundId: 're_1' }),
+    };
+    requestModel = { find: jest.fn(), findById: jest.fn() };
+    ledgerService = {
+      recordServicePayment: jest.fn().mockResolvedValue(undefined),
+      recordRefund: jest.fn().mockResolvedValue(undefined),
+    };
+    cancellationPolicyService = { quote: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: getModelToken(Application.name), useValue: {} },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: NotificationsService, useValue: { notifyRequestCompleted: jest.fn().mockResolvedValue(undefined) } },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: InvoicesService, useValue: {} },
+        { provide: CancellationPolicyService, useValue: cancellationPolicyService },
+        { provide: PAYMENT_PROVIDERS, useValue: [provider] },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentsService);
+  });
+
+  describe('confirmPayment', () => {
+    const confirm = () => service.confirmPayment({ paymentIntentId: 'pi_123', requestId } as any, patient);
+
+    it('authorizes a pending payment through the provider', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.PENDING });
+      paymentModel.findOne.mockResolvedValue(payment);
+      provider.confirm.mockResolvedValue({ externalTransactionId: 'pi_123', status: PaymentStatus.AUTHORIZED });
+
+      const result = await confirm();
+
+      expect(result.data.status).toBe(PaymentStatus.AUTHORIZED);
+      expect(payment.save).toHaveBeenCalled();
+      expect(paymentModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('does not call the provider again for a payment that is already authorized', async () => {
+      paymentModel.findOne.mockResolvedValue(paymentDoc({ status: PaymentStatus.AUTHORIZED }));
+
+      const result = await confirm();
+
+      expect(result.data.status).toBe(PaymentStatus.AUTHORIZED);
+      expect(provider.confirm).not.toHaveBeenCalled();
+    });
+
+    it('refuses payments that are no longer pending', async () => {
+      paymentModel.findOne.mockResolvedValue(paymentDoc({ status: PaymentStatus.REFUNDED }));
+
+      await expect(confirm()).rejects.toBeInstanceOf(BadRequestException);
+      expect(provider.confirm).not.toHaveBeenCalled();
+    });
+
+    it('marks the payment as failed only while it is still pending', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.PENDING });
+      paymentModel.findOne.mockResolvedValue(payment);
+      provider.confirm.mockRejectedValue(new Error('card declined'));
+
+      await expect(confirm()).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(paymentModel.updateOne).toHaveBeenCalledWith(
+        { _id: payment._id, status: PaymentStatus.PENDING },
+        expect.objectContaining({ status: PaymentStatus.FAILED, failureReason: 'card declined' }),
+      );
+      expect(payment.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('captureForRequest', () => {
+    let payment: any;
+
+    beforeEach(() => {
+      payment = paymentDoc({ status: PaymentStatus.AUTHORIZED });
+      paymentModel.findOne.mockReturnValue({ exec: async () => payment });
+    });
+
+    it('claims the hold before capturing it', async () => {
+      paymentModel.findOneAndUpdate.mockReturnValue({ exec: async () => ({ ...payment, status: PaymentStatus.CAPTURING }) });
+
+      const result = await service.captureForRequest(requestId);
+
+      expect(paymentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: payment._id, status: PaymentStatus.AUTHORIZED },
+        { $set: { status: PaymentStatus.CAPTURING } },
+      );
+      expect(provider.capture).toHaveBeenCalledWith(payment, undefined);
+      expect(result?.status).toBe(PaymentStatus.COMPLETED);
+      expect(ledgerService.recordServicePayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the provider alone when another capture already claimed the hold', async () => {
+      paymentModel.findOneAndUpdate.mockReturnValue({ exec: async () => null });
+
+      const result = await service.captureForRequest(requestId);
+
+      expect(result).toBeNull();
+      expect(provider.capture).not.toHaveBeenCalled();
+      expect(payment.save).not.toHaveBeenCalled();
+      expect(ledgerService.recordServicePayment).not.toHaveBeenCalled();
+    });
+
+    it('hands the hold back when the provider capture fails', async () => {
+      paymentModel.findOneAndUpdate.mockReturnValue({ exec: async () => ({ ...payment, status: PaymentStatus.CAPTURING }) });
+      provider.capture.mockRejectedValue(new Error('provider unavailable'));
+
+      await expect(service.captureForRequest(requestId)).rejects.toThrow('provider unavailable');
+
+      expect(paymentModel.updateOne).toHaveBeenCalledWith(
+        { _id: payment._id, status: PaymentStatus.CAPTURING },
+        { $set: { status: PaymentStatus.AUTHORIZED } },
+      );
+      expect(payment.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('escrow', () => {
+    // Claims always succeed unless a test says otherwise
+    beforeEach(() => {
+      paymentModel.findOneAndUpdate.mockReturnValue({ exec: async () => ({ status: PaymentStatus.CAPTURING }) });
+    });
+
+    it('keeps the hold while a dispute is open', async () => {
+      paymentModel.findOne.mockReturnValue({
+        exec: async () => paymentDoc({ status: PaymentStatus.AUTHORIZED, dispute: { status: DisputeStatus.OPEN } }),
+      });
+
+      await expect(service.captureForRequest(requestId)).resolves.toBeNull();
+
+      expect(paymentModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(provider.capture).not.toHaveBeenCalled();
+    });
+
+    it('gives the held funds back when the request is cancelled', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.AUTHORIZED });
+      paymentModel.find.mockReturnValue({ exec: async () => [payment] });
+
+      await expect(service.releaseForRequest(requestId, 'Patient cancelled')).resolves.toBe(1);
+
+      expect(provider.cancel).toHaveBeenCalledWith(payment);
+      expect(payment.status).toBe(PaymentStatus.CANCELLED);
+      expect(payment.releaseReason).toBe('Patient cancelled');
+    });
+
+    it('confirms visits the patient left unconfirmed past the timeout and captures their hold', async () => {
+      const overdue: any = {
+        _id: new Types.ObjectId(requestId),
+        status: RequestStatus.IN_PROGRESS,
+        nurseCompleted: true,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      const payment = paymentDoc({ status: PaymentStatus.AUTHORIZED });
+      requestModel.find.mockReturnValue({ exec: async () => [overdue] });
+      paymentModel.find.mockReturnValue({ exec: async () => [payment] });
+      requestModel.findById.mockReturnValue({ exec: async () => overdue });
+
+      await expect(service.processAutoConfirmations()).resolves.toEqual({ autoConfirmed: 1, captured: 1 });
+
+      expect(overdue.status).toBe(RequestStatus.COMPLETED);
+      expect(overdue.completionAutoConfirmed).toBe(true);
+      expect(provider.capture).toHaveBeenCalledWith(payment, undefined);
+    });
+
+    it('leaves holds alone until the visit is confirmed', async () => {
+      requestModel.find.mockReturnValue({ exec: async () => [] });
+      paymentModel.find.mockReturnValue({ exec: async () => [paymentDoc({ status: PaymentStatus.AUTHORIZED })] });
+      requestModel.findById.mockReturnValue({
+        exec: async () => ({ status: RequestStatus.IN_PROGRESS, nurseCompleted: true }),
+      });
+
+      await expect(service.processAutoConfirmations()).resolves.toEqual({ autoConfirmed: 0, captured: 0 });
+      expect(provider.capture).not.toHaveBeenCalled();
+    });
+
+    it('does not auto-confirm a visit under dispute', async () => {
+      const overdue: any = { _id: new Types.ObjectId(), status: RequestStatus.IN_PROGRESS, save: jest.fn() };
+      requestModel.find.mockReturnValue({ exec: async () => [overdue] });
+      paymentModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+      paymentModel.find.mockReturnValue({ exec: async () => [] });
+
+      await expect(service.processAutoConfirmations()).resolves.toEqual({ autoConfirmed: 0, captured: 0 });
+      expect(overdue.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleCancellation', () => {
+    // Patient cancelled late: half back, 40% to the nurse, the rest to the platform
+    const quote = { policy: 'Default patient cancellation', paidAmount: 500, refundAmount: 250, nurseCompensation: 200, platformAmount: 50 };
+
+    const settleable = (payment: any) => {
+      requestModel.findById.mockReturnValue({ exec: async () => ({ _id: new Types.ObjectId(requestId) }) });
+      paymentModel.findOne.mockReturnValue({ sort: () => ({ exec: async () => payment }) });
+    };
+
+    beforeEach(() => {
+      cancellationPolicyService.quote.mockResolvedValue(quote);
+      paymentModel.findOneAndUpdate.mockReturnValue({ exec: async () => ({ status: PaymentStatus.CAPTURING }) });
+    });
+
+    it('captures only the part of a hold the patient does not get back', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.AUTHORIZED });
+      settleable(payment);
+
+      await expect(service.settleCancellation(requestId, UserRole.PATIENT, 'Plans changed')).resolves.toBe(quote);
+
+      expect(provider.capture).toHaveBeenCalledWith(payment, 250);
+      expect(payment.platformFee).toBe(50);
+      expect(provider.refund).not.toHaveBeenCalled();
+    });
+
+    it('releases a hold that is refunded in full', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.AUTHORIZED });
+      settleable(payment);
+      cancellationPolicyService.quote.mockResolvedValue({ ...quote, refundAmount: 500, nurseCompensation: 0, platformAmount: 0 });
+
+      await service.settleCancellation(requestId, UserRole.PATIENT, 'Plans changed');
+
+      expect(provider.cancel).toHaveBeenCalledWith(payment);
+      expect(provider.capture).not.toHaveBeenCalled();
+    });
+
+    it('refunds part of a completed payment and books what the nurse keeps', async () => {
+      const payment = paymentDoc({ status: PaymentStatus.COMPLETED });
+      settleable(payment);
+
+      await service.settleCancellation(requestId, UserRole.PATIENT, 'Plans changed');
+
+      expect(provider.refund).toHaveBeenCalledWith(payment, 250, 'Cancellation: Plans changed');
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+      expect(ledgerService.recordRefund).toHaveBeenCalledWith(payment, 250, 200);
+    });
+
+    it('leaves a disputed payment to the dispute', async () => {
+      settleable(paymentDoc({ status: PaymentStatus.AUTHORIZED, dispute: { status: DisputeStatus.OPEN } }));
+
+      await expect(service.settleCancellation(requestId, UserRole.PATIENT, 'Plans changed')).resolves.toBeNull();
+
+      expect(cancellationPolicyService.quote).not.toHaveBeenCalled();
+      expect(provider.capture).not.toHaveBeenCalled();
+      expect(provider.refund).not.toHaveBeenCalled();
+    });
+  });
+});
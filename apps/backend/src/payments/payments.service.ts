@@ -1,32 +1,71 @@
-import { Injectable, BadRequestException, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { Injectable, Inject, BadRequestException, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
-import Stripe from 'stripe';
-import { Payment, PaymentDocument, PaymentStatus, PaymentMethod, PaymentType } from '../schemas/payment.schema';
-import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import {
+  Payment,
+  PaymentDocument,
+  PaymentStatus,
+  PaymentProviderName,
+  PaymentType,
+  DisputeStatus,
+  DisputeSource,
+  DisputeResolution
+} from '../schemas/payment.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus, RequestPaymentStatus } from '../schemas/patient-request.schema';
+import { Application, ApplicationDocument, ApplicationStatus } from '../schemas/application.schema';
 import { User, UserDocument, UserRole } from '../schemas/user.schema';
-import { CreatePaymentIntentDto, ConfirmPaymentDto, RefundPaymentDto } from '../dto/payment.dto';
+import {
+  CreatePaymentIntentDto,
+  ConfirmPaymentDto,
+  RefundPaymentDto,
+  OpenDisputeDto,
+  ResolveDisputeDto,
+  AuthorizePaymentDto
+} from '../dto/payment.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { PAYMENT_PROVIDERS, PaymentProvider } from './providers/payment-provider.interface';
+import { CancellationPolicyService, CancellationQuote } from './cancellation-policy.service';
+
+// Payments that still hold (or are about to hold) the patient's funds
+const OPEN_HOLD_STATUSES = [PaymentStatus.PENDING, PaymentStatus.PROCESSING, PaymentStatus.AUTHORIZED];
+
+// Request payment state mirrored from payments whose provider has no webhooks
+const REQUEST_PAYMENT_STATUSES: Partial<Record<PaymentStatus, RequestPaymentStatus>> = {
+  [PaymentStatus.AUTHORIZED]: RequestPaymentStatus.AUTHORIZED,
+  [PaymentStatus.COMPLETED]: RequestPaymentStatus.PAID,
+  [PaymentStatus.CANCELLED]: RequestPaymentStatus.UNPAID,
+  [PaymentStatus.REFUNDED]: RequestPaymentStatus.REFUNDED,
+};
 
 @Injectable()
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
-  private stripe: Stripe;
 
   constructor(
     @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
     @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private configService: ConfigService,
-  ) {
-    const stripeSecretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
-    if (!stripeSecretKey) {
-      throw new Error('STRIPE_SECRET_KEY is not configured');
-    }
-    
-    this.stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2024-06-20',
-    });
+    private notificationsService: NotificationsService,
+    private ledgerService: LedgerService,
+    private invoicesService: InvoicesService,
+    private cancellationPolicyService: CancellationPolicyService,
+    @Inject(PAYMENT_PROVIDERS) private paymentProviders: PaymentProvider[],
+  ) {}
+
+  // Providers the patient can choose from in this environment
+  getAvailableProviders() {
+    return {
+      success: true,
+      message: 'Payment providers retrieved successfully',
+      data: this.paymentProviders
+        .filter(provider => provider.isEnabled())
+        .map(provider => ({ name: provider.name, paymentMethod: provider.paymentMethod })),
+    };
   }
 
   async createPaymentIntent(createPaymentIntentDto: CreatePaymentIntentDto, user: UserDocument) {
@@ -56,24 +95,25 @@ export class PaymentsService {
     // Check if payment already exists for this request
     const existingPayment = await this.paymentModel.findOne({ 
       requestId, 
-      status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PROCESSING] } 
+      status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PROCESSING, PaymentStatus.AUTHORIZED, PaymentStatus.CAPTURING] } 
     });
 
     if (existingPayment) {
       throw new BadRequestException('Payment already exists for this request');
     }
 
+    const provider = this.providerFor(createPaymentIntentDto.provider ?? request.paymentProvider);
+
     try {
-      // Calculate platform fee (10% of the amount)
-      const platformFee = Math.round(amount * 0.1);
+      const platformFee = this.platformFeeFor(amount);
       const netAmount = amount - platformFee;
 
-      // Create Stripe Payment Intent
-      const paymentIntent = await this.stripe.paymentIntents.create({
+      const providerPayment = await provider.create({
         amount,
         currency: currency.toLowerCase(),
-        payment_method_types: ['card'],
         description: description || `Payment for nursing service - Request ${requestId}`,
+        patientId: String(user._id),
+        holdFunds: false,
         metadata: {
           requestId,
           patientId: user._id.toString(),
@@ -90,31 +130,33 @@ export class PaymentsService {
         requestId,
         amount,
         currency: currency.toLowerCase(),
-        status: PaymentStatus.PENDING,
-        paymentMethod,
+        status: providerPayment.status,
+        // The card brand is only known for card payments; other providers have a fixed method
+        paymentMethod: provider.name === PaymentProviderName.STRIPE ? paymentMethod : provider.paymentMethod,
         paymentType: PaymentType.SERVICE_PAYMENT,
-        externalTransactionId: paymentIntent.id,
-        paymentProvider: 'stripe',
+        externalTransactionId: providerPayment.externalTransactionId,
+        paymentProvider: provider.name,
         platformFee,
         netAmount,
         description,
         metadata: {
-          stripePaymentIntentId: paymentIntent.id,
+          ...providerPayment.metadata,
           ...metadata,
         },
       });
 
       await payment.save();
 
-      this.logger.log(`Payment intent created: ${paymentIntent.id} for request: ${requestId}`);
+      this.logger.log(`Payment intent created: ${providerPayment.externalTransactionId} (${provider.name}) for request: ${requestId}`);
 
       return {
         success: true,
         message: 'Payment intent created successfully',
         data: {
           paymentId: payment._id,
-          clientSecret: paymentIntent.client_secret,
-          paymentIntentId: paymentIntent.id,
+          provider: provider.name,
+          clientSecret: providerPayment.clientSecret ?? null,
+          paymentIntentId: providerPayment.externalTransactionId,
           amount,
           currency,
           platformFee,
@@ -141,15 +183,55 @@ export class PaymentsService {
       throw new NotFoundException('Payment not found');
     }
 
+    if (payment.paymentProvider === PaymentProviderName.CASH) {
+      throw new BadRequestException('Cash payments are confirmed by the nurse when they collect the money');
+    }
+
+    // A retried confirmation must not reach the provider again
+    if (payment.status === PaymentStatus.AUTHORIZED || payment.status === PaymentStatus.COMPLETED) {
+      return {
+        success: true,
+        message: 'Payment already confirmed',
+        data: {
+          paymentId: payment._id,
+          status: payment.status,
+          amount: payment.amount,
+        },
+      };
+    }
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw new BadRequestException(`Payment cannot be confirmed. Status: ${payment.status}`);
+    }
+
     try {
-      // Retrieve the payment intent from Stripe
-      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+      const providerPayment = await this.providerFor(payment.paymentProvider).confirm(payment);
+
+      if (providerPayment.status === PaymentStatus.AUTHORIZED) {
+        // Escrow hold: funds are reserved and captured once the visit is confirmed
+        payment.status = PaymentStatus.AUTHORIZED;
+        payment.authorizedAt = payment.authorizedAt || new Date();
+        await payment.save();
+        await this.syncRequestPaymentStatus(payment);
 
-      if (paymentIntent.status === 'succeeded') {
+        this.logger.log(`Payment authorized: ${paymentIntentId} for request: ${requestId}`);
+
+        return {
+          success: true,
+          message: 'Payment authorized successfully',
+          data: {
+            paymentId: payment._id,
+            status: payment.status,
+            amount: payment.amount,
+          },
+        };
+      } else if (providerPayment.status === PaymentStatus.COMPLETED) {
         // Update payment status
         payment.status = PaymentStatus.COMPLETED;
         payment.processedAt = new Date();
         await payment.save();
+        await this.bookPayment(payment);
+        await this.syncRequestPaymentStatus(payment);
 
         this.logger.log(`Payment confirmed: ${paymentIntentId} for request: ${requestId}`);
 
@@ -163,18 +245,20 @@ export class PaymentsService {
           },
         };
       } else {
-        throw new BadRequestException(`Payment not successful. Status: ${paymentIntent.status}`);
+        throw new BadRequestException(`Payment not successful. Status: ${providerPayment.status}`);
       }
     } catch (error) {
       this.logger.error('Failed to confirm payment:', error);
-      
-      // Update payment status to failed
-      payment.status = PaymentStatus.FAILED;
-      payment.failedAt = new Date();
-      payment.failureReason = error.message;
-      await payment.save();
 
-      throw new BadRequestException('Failed to confirm payment');
+      // Only a payment that is still pending is marked as failed; an error after the
+      // provider authorized or charged it must not lose track of the money
+      await this.paymentModel.updateOne(
+        { _id: payment._id, status: PaymentStatus.PENDING },
+        { status: PaymentStatus.FAILED, failedAt: new Date(), failureReason: error.message },
+      ).exec();
+
+      // Provider refusals (e.g. an insufficient wallet balance) are worth showing to the patient
+      throw error instanceof BadRequestException ? error : new BadRequestException('Failed to confirm payment');
     }
   }
 
@@ -266,35 +350,17 @@ export class PaymentsService {
       throw new BadRequestException('Only completed payments can be refunded');
     }
 
-    const refundAmount = refundDto.amount || payment.amount;
+    const refundAmount = refundDto.amount || payment.amount!;
 
     try {
-      // Create refund in Stripe
-      const refund = await this.stripe.refunds.create({
-        payment_intent: payment.externalTransactionId,
-        amount: refundAmount,
-        reason: 'requested_by_customer',
-        metadata: {
-          paymentId: payment._id.toString(),
-          reason: refundDto.reason,
-        },
-      });
-
-      // Update payment record
-      payment.status = PaymentStatus.REFUNDED;
-      payment.refundedAt = new Date();
-      payment.refundAmount = refundAmount;
-      payment.refundReason = refundDto.reason;
-      await payment.save();
-
-      this.logger.log(`Payment refunded: ${payment._id} - Amount: ${refundAmount}`);
+      const refund = await this.applyRefund(payment, refundAmount, refundDto.reason);
 
       return {
         success: true,
         message: 'Payment refunded successfully',
         data: {
           paymentId: payment._id,
-          refundId: refund.id,
+          refundId: refund.refundId,
           refundAmount,
           status: payment.status,
         },
@@ -304,4 +370,745 @@ export class PaymentsService {
       throw new BadRequestException('Failed to process refund');
     }
   }
+
+  /**
+   * Opens an escrow hold for an accepted offer with the provider the patient
+   * chose for the request. Card holds stay pending until the patient confirms
+   * their card; Stripe keeps authorized funds for up to seven days, after
+   * which the intent is cancelled and the patient has to authorize again.
+   * Cash payments stay pending until the nurse collects them.
+   */
+  async authorizeForApplication(requestId: string, applicationId: string): Promise<PaymentDocument> {
+    const request = await this.requestModel.findById(requestId).exec();
+    const application = await this.applicationModel.findById(applicationId).exec();
+    if (!request || !application) {
+      throw new NotFoundException('Request or application not found');
+    }
+
+    const provider = this.providerFor(request.paymentProvider);
+
+    const existing = await this.paymentModel.findOne({
+      requestId: new Types.ObjectId(requestId),
+      status: { $in: OPEN_HOLD_STATUSES },
+    }).exec();
+
+    if (existing && String(existing.applicationId) === applicationId && existing.paymentProvider === provider.name) {
+      return existing;
+    }
+
+    // A different offer was accepted since (e.g. the request was reopened), or the patient switched providers
+    if (existing) {
+      await this.release(existing, String(existing.applicationId) === applicationId ? 'Payment method changed' : 'Another offer was accepted');
+    }
+
+    const amount = Math.round(application.price * 100);
+    const currency = (this.configService.get<string>('STRIPE_CURRENCY') || 'egp').toLowerCase();
+    const platformFee = this.platformFeeFor(amount);
+
+    const providerPayment = await provider.create({
+      amount,
+      currency,
+      description: `Payment for nursing service - Request ${requestId}`,
+      patientId: String(request.patientId),
+      holdFunds: true,
+      metadata: {
+        requestId,
+        applicationId,
+        patientId: String(request.patientId),
+        nurseId: String(application.nurseId),
+        platformFee: platformFee.toString(),
+      },
+    });
+
+    const payment = await this.paymentModel.create({
+      patientId: request.patientId,
+      nurseId: application.nurseId,
+      requestId: request._id,
+      applicationId: application._id,
+      amount,
+      currency,
+      status: providerPayment.status,
+      paymentMethod: provider.paymentMethod,
+      paymentType: PaymentType.SERVICE_PAYMENT,
+      externalTransactionId: providerPayment.externalTransactionId,
+      paymentProvider: provider.name,
+      platformFee,
+      netAmount: amount - platformFee,
+      description: `Payment for ${request.title}`,
+      metadata: providerPayment.metadata,
+    });
+
+    this.logger.log(`Escrow hold created: ${providerPayment.externalTransactionId} (${provider.name}) for request: ${requestId}`);
+
+    return payment;
+  }
+
+  /**
+   * Returns what the patient needs to authorize the hold for their accepted
+   * request, creating the hold if it could not be created at accept time.
+   * Passing a provider switches the request to it while nothing is held yet.
+   */
+  async getAuthorization(requestId: string, user: UserDocument, authorizePaymentDto: AuthorizePaymentDto = {}) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    if (user.role !== UserRole.PATIENT || request.patientId.toString() !== String(user._id)) {
+      throw new ForbiddenException('You can only pay for your own requests');
+    }
+
+    if (request.status !== RequestStatus.ACCEPTED && request.status !== RequestStatus.IN_PROGRESS) {
+      throw new BadRequestException('Only requests with an accepted offer can be authorized');
+    }
+
+    const application = await this.applicationModel.findOne({
+      requestId: request._id,
+      status: ApplicationStatus.ACCEPTED,
+    }).exec();
+    if (!application) {
+      throw new BadRequestException('This request has no accepted offer');
+    }
+
+    const { provider } = authorizePaymentDto;
+    if (provider && provider !== request.paymentProvider) {
+      this.providerFor(provider);
+
+      const held = await this.paymentModel.exists({
+        requestId: request._id,
+        status: { $in: [PaymentStatus.AUTHORIZED, PaymentStatus.COMPLETED] },
+      });
+      if (held) {
+        throw new BadRequestException('The payment for this request is already authorized and can no longer be switched');
+      }
+
+      request.paymentProvider = provider;
+      await request.save();
+    }
+
+    const payment = await this.authorizeForApplication(String(request._id), String(application._id));
+    const clientSecret = payment.status === PaymentStatus.PENDING
+      ? await this.providerFor(payment.paymentProvider).getClientSecret(payment)
+      : null;
+
+    return {
+      success: true,
+      message: 'Payment authorization retrieved successfully',
+      data: {
+        paymentId: payment._id,
+        provider: payment.paymentProvider,
+        paymentIntentId: payment.externalTransactionId,
+        clientSecret,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        platformFee: payment.platformFee,
+        netAmount: payment.netAmount,
+        dispute: payment.dispute,
+      },
+    };
+  }
+
+  // Latest payment of a request, for showing its escrow state to the participants
+  async getPaymentForRequest(requestId: string, user: UserDocument) {
+    const request = await this.requestModel.findById(requestId).select('patientId nurseId').exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const canView =
+      user.role === UserRole.ADMIN ||
+      request.patientId?.toString() === String(user._id) ||
+      request.nurseId?.toString() === String(user._id);
+
+    if (!canView) {
+      throw new ForbiddenException('You do not have permission to view this payment');
+    }
+
+    const payment = await this.paymentModel
+      .findOne({ requestId: request._id })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return {
+      success: true,
+      message: 'Request payment retrieved successfully',
+      data: payment ? {
+        paymentId: payment._id,
+        provider: payment.paymentProvider,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        platformFee: payment.platformFee,
+        netAmount: payment.netAmount,
+        authorizedAt: payment.authorizedAt,
+        processedAt: payment.processedAt,
+        releasedAt: payment.releasedAt,
+        releaseReason: payment.releaseReason,
+        dispute: payment.dispute,
+        autoConfirmHours: this.autoConfirmHours(),
+      } : null,
+    };
+  }
+
+  /**
+   * Captures the hold for a request once the visit is confirmed. Returns null
+   * when there is nothing to capture or a dispute is freezing the funds.
+   */
+  async captureForRequest(requestId: string): Promise<PaymentDocument | null> {
+    const payment = await this.paymentModel.findOne({
+      requestId: new Types.ObjectId(requestId),
+      status: PaymentStatus.AUTHORIZED,
+    }).exec();
+
+    if (!payment) {
+      return null;
+    }
+
+    if (payment.dispute?.status === DisputeStatus.OPEN) {
+      this.logger.log(`Capture for request ${requestId} frozen by an open dispute`);
+      return null;
+    }
+
+    return this.capture(payment);
+  }
+
+  /**
+   * Releases any hold on a request back to the patient, e.g. on cancellation.
+   */
+  async releaseForRequest(requestId: string, reason: string): Promise<number> {
+    const payments = await this.paymentModel.find({
+      requestId: new Types.ObjectId(requestId),
+      status: { $in: OPEN_HOLD_STATUSES },
+    }).exec();
+
+    for (const payment of payments) {
+      await this.release(payment, reason);
+    }
+
+    return payments.length;
+  }
+
+  async getCancellationQuote(requestId: string, user: UserDocument) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const isPatient = request.patientId?.toString() === String(user._id);
+    if (!isPatient && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the patient or an admin can cancel this request');
+    }
+
+    const payment = await this.findSettleablePayment(requestId);
+    const charged = payment?.status === PaymentStatus.AUTHORIZED || payment?.status === PaymentStatus.COMPLETED;
+
+    return {
+      success: true,
+      message: 'Cancellation quote calculated successfully',
+      data: await this.cancellationPolicyService.quote(
+        request, user.role!, charged ? payment!.amount ?? 0 : 0, payment?.currency || 'egp'
+      ),
+    };
+  }
+
+  /**
+   * Applies the cancellation policy to the money of a cancelled request:
+   * held funds are partly captured for the nurse's compensation and the rest
+   * released; money already paid is partly refunded. Payments under an open
+   * dispute are left for the admin who resolves it.
+   */
+  async settleCancellation(requestId: string, cancelledBy: UserRole, reason: string): Promise<CancellationQuote | null> {
+    const request = await this.requestModel.findById(requestId).exec();
+    const payment = await this.findSettleablePayment(requestId);
+    if (!request || !payment) {
+      return null;
+    }
+
+    if (payment.dispute?.status === DisputeStatus.OPEN) {
+      this.logger.warn(`Payment ${payment._id} is disputed; cancellation of request ${requestId} leaves it to the dispute`);
+      return null;
+    }
+
+    if (payment.status !== PaymentStatus.AUTHORIZED && payment.status !== PaymentStatus.COMPLETED) {
+      // Nothing was charged yet
+      await this.releaseForRequest(requestId, reason);
+      return null;
+    }
+
+    const quote = await this.cancellationPolicyService.quote(request, cancelledBy, payment.amount ?? 0, payment.currency || 'egp');
+    const retained = quote.paidAmount - quote.refundAmount;
+
+    if (payment.status === PaymentStatus.AUTHORIZED) {
+      if (retained > 0) {
+        await this.capture(payment, retained, quote.platformAmount);
+      } else {
+        await this.release(payment, reason);
+      }
+    } else if (quote.refundAmount > 0) {
+      await this.applyRefund(payment, quote.refundAmount, `Cancellation: ${reason}`, quote.nurseCompensation);
+    }
+
+    this.logger.log(
+      `Cancellation of request ${requestId} settled with "${quote.policy}": refund ${quote.refundAmount}, nurse ${quote.nurseCompensation}`
+    );
+
+    return quote;
+  }
+
+  /**
+   * Records that the assigned nurse collected a cash payment at the visit.
+   * The nurse now holds the money, so the ledger counts it as paid out to them.
+   */
+  async confirmCashCollection(requestId: string, user: UserDocument) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    if (user.role !== UserRole.NURSE || request.nurseId?.toString() !== String(user._id)) {
+      throw new ForbiddenException('Only the assigned nurse can confirm cash collection');
+    }
+
+    const payment = await this.paymentModel.findOne({
+      requestId: request._id,
+      paymentProvider: PaymentProviderName.CASH,
+      status: PaymentStatus.PENDING,
+    }).exec();
+    if (!payment) {
+      throw new BadRequestException('There is no cash payment to collect for this request');
+    }
+
+    payment.status = PaymentStatus.COMPLETED;
+    payment.processedAt = new Date();
+    payment.metadata = { ...payment.metadata, collectedBy: String(user._id) };
+    await payment.save();
+
+    try {
+      await this.ledgerService.recordCashCollection(payment);
+    } catch (ledgerError) {
+      this.logger.error(`Failed to book cash payment ${payment._id} in the ledger:`, ledgerError);
+      // Don't fail the collection if the ledger posting fails; the reconciliation retries it
+    }
+    await this.syncRequestPaymentStatus(payment);
+
+    this.logger.log(`Cash payment collected: ${payment._id} for request: ${requestId}`);
+
+    return {
+      success: true,
+      message: 'Cash collection recorded successfully',
+      data: {
+        paymentId: payment._id,
+        status: payment.status,
+        amount: payment.amount,
+        netAmount: payment.netAmount,
+      },
+    };
+  }
+
+  async openDispute(requestId: string, openDisputeDto: OpenDisputeDto, user: UserDocument) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const isPatient = request.patientId?.toString() === String(user._id);
+    const isNurse = request.nurseId?.toString() === String(user._id);
+    if (!isPatient && !isNurse) {
+      throw new ForbiddenException('Only the patient or the assigned nurse can dispute this payment');
+    }
+
+    const payment = await this.paymentModel.findOne({
+      requestId: request._id,
+      status: PaymentStatus.AUTHORIZED,
+    }).exec();
+    if (!payment) {
+      throw new BadRequestException('There is no held payment to dispute for this request');
+    }
+
+    if (payment.dispute?.status === DisputeStatus.OPEN) {
+      throw new BadRequestException('A dispute is already open for this payment');
+    }
+
+    payment.dispute = {
+      status: DisputeStatus.OPEN,
+      source: DisputeSource.IN_APP,
+      openedBy: new Types.ObjectId(String(user._id)),
+      openedAt: new Date(),
+      reason: openDisputeDto.reason,
+    };
+    await payment.save();
+
+    this.logger.log(`Dispute opened on payment ${payment._id} by ${user._id}`);
+
+    try {
+      const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+      const otherPartyId = isPatient ? request.nurseId : request.patientId;
+      await Promise.all([
+        ...admins.map(admin => this.notificationsService.notifyPaymentDisputed(
+          String(admin._id), String(request._id), request.title, openDisputeDto.reason, true
+        )),
+        ...(otherPartyId ? [this.notificationsService.notifyPaymentDisputed(
+          String(otherPartyId), String(request._id), request.title, openDisputeDto.reason, false
+        )] : []),
+      ]);
+    } catch (notificationError) {
+      console.error('Failed to send dispute notifications:', notificationError);
+      // Don't fail the dispute if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Dispute opened; the payment is on hold until an admin resolves it',
+      data: {
+        paymentId: payment._id,
+        status: payment.status,
+        dispute: payment.dispute,
+      },
+    };
+  }
+
+  async getOpenDisputes(page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+    const query = { 'dispute.status': DisputeStatus.OPEN };
+
+    const [payments, total] = await Promise.all([
+      this.paymentModel
+        .find(query)
+        .populate('patientId', 'name email phone')
+        .populate('nurseId', 'name email phone')
+        .populate('requestId', 'title serviceType scheduledDate nurseCompleted patientCompleted')
+        .populate('dispute.openedBy', 'name role')
+        .sort({ 'dispute.openedAt': 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.paymentModel.countDocuments(query),
+    ]);
+
+    return {
+      success: true,
+      message: 'Open disputes retrieved successfully',
+      data: {
+        payments,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  async resolveDispute(paymentId: string, resolveDisputeDto: ResolveDisputeDto, adminUser: UserDocument) {
+    const payment = await this.paymentModel.findById(paymentId).exec();
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    if (payment.dispute?.status !== DisputeStatus.OPEN) {
+      throw new BadRequestException('This payment has no open dispute');
+    }
+
+    if (payment.dispute.source === DisputeSource.CHARGEBACK) {
+      throw new BadRequestException('Chargebacks are decided by the card issuer; respond to them from the Stripe dashboard');
+    }
+
+    const { resolution, amount, note } = resolveDisputeDto;
+
+    if (resolution === DisputeResolution.PARTIAL_CAPTURE && (!amount || amount >= (payment.amount ?? 0))) {
+      throw new BadRequestException('Partial capture needs an amount below the held amount');
+    }
+
+    // Close the dispute first so the capture below is no longer frozen
+    payment.dispute = {
+      ...payment.dispute,
+      status: DisputeStatus.RESOLVED,
+      resolvedBy: new Types.ObjectId(String(adminUser._id)),
+      resolvedAt: new Date(),
+      resolution,
+      resolutionNote: note,
+    };
+
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+      // The hold lapsed or was released meanwhile; only record the decision
+      await payment.save();
+    } else if (resolution === DisputeResolution.RELEASE) {
+      await this.release(payment, note || 'Dispute resolved in favour of the patient');
+    } else if (!(await this.capture(payment, resolution === DisputeResolution.PARTIAL_CAPTURE ? amount : undefined))) {
+      throw new BadRequestException('This payment is already being captured');
+    }
+
+    try {
+      const request = await this.requestModel.findById(payment.requestId).select('title').exec();
+      const title = request?.title || 'your visit';
+      await Promise.all([payment.patientId, payment.nurseId]
+        .filter(Boolean)
+        .map(userId => this.notificationsService.notifyPaymentDisputeResolved(
+          String(userId), String(payment.requestId), title, resolution, note
+        )));
+    } catch (notificationError) {
+      console.error('Failed to send dispute resolution notifications:', notificationError);
+      // Don't fail the resolution if notification fails
+    }
+
+    return {
+      success: true,
+      message: 'Dispute resolved successfully',
+      data: {
+        paymentId: payment._id,
+        status: payment.status,
+        amount: payment.amount,
+        dispute: payment.dispute,
+      },
+    };
+  }
+
+  /**
+   * Confirms visits the nurse finished but the patient never confirmed within
+   * the timeout, then captures every hold whose visit is confirmed. Captures
+   * that failed earlier are retried here as well.
+   */
+  async processAutoConfirmations() {
+    const cutoff = new Date(Date.now() - this.autoConfirmHours() * 60 * 60 * 1000);
+    let autoConfirmed = 0;
+    let captured = 0;
+
+    const overdue = await this.requestModel.find({
+      status: RequestStatus.IN_PROGRESS,
+      nurseCompleted: true,
+      patientCompleted: { $ne: true },
+      nurseCompletedAt: { $lte: cutoff },
+    }).exec();
+
+    for (const request of overdue) {
+      const disputed = await this.paymentModel.exists({
+        requestId: request._id,
+        'dispute.status': DisputeStatus.OPEN,
+      });
+      if (disputed) {
+        continue;
+      }
+
+      request.patientCompleted = true;
+      request.patientCompletedAt = new Date();
+      request.completionAutoConfirmed = true;
+      request.status = RequestStatus.COMPLETED;
+      request.completedAt = new Date();
+      await request.save();
+      autoConfirmed++;
+
+      try {
+        await Promise.all([
+          this.notificationsService.notifyRequestCompleted(String(request.patientId), String(request._id), request.title, true),
+          this.notificationsService.notifyRequestCompleted(String(request.nurseId), String(request._id), request.title, false),
+        ]);
+      } catch (notificationError) {
+        console.error('Failed to send auto-confirmation notifications:', notificationError);
+        // Don't fail the auto-confirmation if notification fails
+      }
+    }
+
+    const held = await this.paymentModel.find({
+      status: PaymentStatus.AUTHORIZED,
+      'dispute.status': { $ne: DisputeStatus.OPEN },
+    }).exec();
+
+    for (const payment of held) {
+      const request = await this.requestModel.findById(payment.requestId).exec();
+      const confirmed = request?.status === RequestStatus.COMPLETED
+        && ((request.patientCompleted && request.nurseCompleted) || (request.completedAt && request.completedAt <= cutoff));
+
+      if (!confirmed) {
+        continue;
+      }
+
+      try {
+        if (await this.capture(payment)) {
+          captured++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to capture payment ${payment._id}:`, error);
+      }
+    }
+
+    return { autoConfirmed, captured };
+  }
+
+  /**
+   * Captures a hold. The payment is claimed first so that concurrent confirmations
+   * cannot charge it twice; returns null when another capture got there first.
+   */
+  private async capture(payment: PaymentDocument, amountToCapture?: number, platformFee?: number): Promise<PaymentDocument | null> {
+    const claimed = await this.paymentModel.findOneAndUpdate(
+      { _id: payment._id, status: PaymentStatus.AUTHORIZED },
+      { $set: { status: PaymentStatus.CAPTURING } },
+    ).exec();
+
+    if (!claimed) {
+      this.logger.log(`Payment ${payment._id} is no longer held; skipping capture`);
+      return null;
+    }
+
+    try {
+      await this.providerFor(payment.paymentProvider).capture(payment, amountToCapture);
+    } catch (error) {
+      // Hand the hold back so the next run can retry the capture
+      await this.paymentModel.updateOne(
+        { _id: payment._id, status: PaymentStatus.CAPTURING },
+        { $set: { status: PaymentStatus.AUTHORIZED } },
+      ).exec();
+      throw error;
+    }
+
+    if (amountToCapture) {
+      // The uncaptured remainder goes back to the patient automatically
+      payment.metadata = { ...payment.metadata, authorizedAmount: payment.amount };
+      payment.amount = amountToCapture;
+      payment.platformFee = platformFee ?? this.platformFeeFor(amountToCapture);
+      payment.netAmount = amountToCapture - payment.platformFee;
+    }
+
+    payment.status = PaymentStatus.COMPLETED;
+    payment.processedAt = new Date();
+    await payment.save();
+    await this.bookPayment(payment);
+    await this.syncRequestPaymentStatus(payment);
+
+    this.logger.log(`Payment captured: ${payment.externalTransactionId} - Amount: ${payment.amount}`);
+
+    return payment;
+  }
+
+  private async release(payment: PaymentDocument, reason: string): Promise<PaymentDocument> {
+    await this.providerFor(payment.paymentProvider).cancel(payment);
+
+    payment.status = PaymentStatus.CANCELLED;
+    payment.releasedAt = new Date();
+    payment.releaseReason = reason;
+
+    if (payment.dispute?.status === DisputeStatus.OPEN) {
+      payment.dispute = {
+        ...payment.dispute,
+        status: DisputeStatus.RESOLVED,
+        resolvedAt: new Date(),
+        resolution: DisputeResolution.RELEASE,
+        resolutionNote: reason,
+      };
+    }
+
+    await payment.save();
+    await this.syncRequestPaymentStatus(payment);
+
+    this.logger.log(`Payment hold released: ${payment.externalTransactionId} - ${reason}`);
+
+    return payment;
+  }
+
+  /**
+   * Gives money of a completed payment back to the patient. `nurseKeeps` is
+   * the part of the nurse's share that survives the refund; without it the
+   * nurse and the platform give back in proportion.
+   */
+  private async applyRefund(payment: PaymentDocument, refundAmount: number, reason: string, nurseKeeps?: number) {
+    const refund = await this.providerFor(payment.paymentProvider).refund(payment, refundAmount, reason);
+
+    payment.status = PaymentStatus.REFUNDED;
+    payment.refundedAt = new Date();
+    payment.refundAmount = refundAmount;
+    payment.refundReason = reason;
+    if (nurseKeeps !== undefined) {
+      // Kept for the ledger reconciliation in case the posting below fails
+      payment.metadata = { ...payment.metadata, nurseKeeps };
+    }
+    await payment.save();
+
+    try {
+      await this.ledgerService.recordRefund(payment, refundAmount, nurseKeeps);
+    } catch (ledgerError) {
+      this.logger.error(`Failed to book refund of payment ${payment._id} in the ledger:`, ledgerError);
+      // Don't fail the refund if the ledger posting fails; the money already went back
+    }
+    await this.syncRequestPaymentStatus(payment);
+
+    this.logger.log(`Payment refunded: ${payment._id} - Amount: ${refundAmount}`);
+
+    return refund;
+  }
+
+  // The hourly ledger reconciliation retries anything that fails here
+  private async bookPayment(payment: PaymentDocument) {
+    try {
+      await this.ledgerService.recordServicePayment(payment);
+    } catch (ledgerError) {
+      this.logger.error(`Failed to book payment ${payment._id} in the ledger:`, ledgerError);
+      // Don't fail the payment if the ledger posting fails
+    }
+  }
+
+  // The visit payment a cancellation acts on: an open hold or a completed payment
+  private async findSettleablePayment(requestId: string): Promise<PaymentDocument | null> {
+    return this.paymentModel.findOne({
+      requestId: new Types.ObjectId(requestId),
+      paymentType: PaymentType.SERVICE_PAYMENT,
+      status: { $in: [...OPEN_HOLD_STATUSES, PaymentStatus.COMPLETED] },
+    }).sort({ createdAt: -1 }).exec();
+  }
+
+  // Payments recorded before providers existed were all made through Stripe
+  private providerFor(name: PaymentProviderName = PaymentProviderName.STRIPE): PaymentProvider {
+    const provider = this.paymentProviders.find(candidate => candidate.name === name);
+    if (!provider || !provider.isEnabled()) {
+      throw new BadRequestException(`Payments with ${name} are not available`);
+    }
+    return provider;
+  }
+
+  /**
+   * Stripe reports payment outcomes on the request through its webhooks; the
+   * other providers settle synchronously, so their outcome is mirrored here.
+   */
+  private async syncRequestPaymentStatus(payment: PaymentDocument) {
+    const paymentStatus = payment.status && REQUEST_PAYMENT_STATUSES[payment.status];
+    if (payment.paymentProvider === PaymentProviderName.STRIPE || !paymentStatus || !payment.requestId) {
+      return;
+    }
+
+    // A released hold must not overwrite a payment that already went through
+    const filter: Record<string, any> = { _id: payment.requestId };
+    if (paymentStatus === RequestPaymentStatus.UNPAID) {
+      filter.paymentStatus = { $nin: [RequestPaymentStatus.PAID, RequestPaymentStatus.REFUNDED, RequestPaymentStatus.DISPUTED] };
+    }
+
+    const request = await this.requestModel.findOneAndUpdate(
+      filter,
+      { $set: { paymentStatus, ...(paymentStatus === RequestPaymentStatus.PAID ? { paidAt: payment.processedAt } : {}) } },
+      { new: true },
+    ).exec();
+
+    if (paymentStatus === RequestPaymentStatus.PAID) {
+      try {
+        if (payment.nurseId) {
+          await this.notificationsService.notifyPaymentReceived(
+            String(payment.nurseId), String(payment.requestId), request?.title || 'your visit', payment.netAmount ?? 0
+          );
+        }
+
+        await this.invoicesService.sendReceipt(payment, request?.title || 'your visit');
+      } catch (notificationError) {
+        console.error('Failed to send payment confirmation:', notificationError);
+        // Don't fail the payment if notification fails
+      }
+    }
+  }
+
+  private platformFeeFor(amount: number): number {
+    const percent = Number(this.configService.get('PLATFORM_FEE_PERCENT'));
+    return Math.round(amount * (Number.isFinite(percent) ? percent : 10) / 100);
+  }
+
+  private autoConfirmHours(): number {
+    return Number(this.configService.get('PAYMENT_AUTO_CONFIRM_HOURS')) || 48;
+  }
 }
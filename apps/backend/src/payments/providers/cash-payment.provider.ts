@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PaymentDocument, PaymentMethod, PaymentProviderName, PaymentStatus } from '../../schemas/payment.schema';
+import { PaymentProvider, ProviderPayment, ProviderRefund } from './payment-provider.interface';
+import { WalletService } from '../wallet.service';
+
+/**
+ * Cash on visit. Nothing is held up front; the payment stays pending until
+ * the nurse confirms at check-out that they collected the money.
+ */
+@Injectable()
+export class CashPaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.CASH;
+  readonly paymentMethod = PaymentMethod.CASH;
+
+  constructor(private walletService: WalletService) {}
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async create(): Promise<ProviderPayment> {
+    return {
+      externalTransactionId: `cash_${new Types.ObjectId()}`,
+      status: PaymentStatus.PENDING,
+      clientSecret: null,
+      metadata: { collectAtVisit: true },
+    };
+  }
+
+  async confirm(payment: PaymentDocument): Promise<ProviderPayment> {
+    // Only the nurse can confirm a cash payment, by collecting it
+    return {
+      externalTransactionId: payment.externalTransactionId!,
+      status: payment.status ?? PaymentStatus.PENDING,
+    };
+  }
+
+  async getClientSecret(): Promise<string | null> {
+    return null;
+  }
+
+  async capture(): Promise<void> {
+    // The money already changed hands at the visit
+  }
+
+  async cancel(): Promise<void> {
+    // Nothing was collected, so there is nothing to give back
+  }
+
+  // Cash cannot be handed back remotely, so refunds go to the patient's wallet
+  async refund(payment: PaymentDocument, amount: number, reason: string): Promise<ProviderRefund> {
+    const refundId = `cash:${payment.externalTransactionId}:refund`;
+    await this.walletService.credit(
+      String(payment.patientId),
+      refundId,
+      amount,
+      payment._id as Types.ObjectId,
+      reason ? `Refund: ${reason}` : 'Refund of a cash payment'
+    );
+
+    return { refundId };
+  }
+}
@@ -0,0 +1,59 @@
+import { PaymentDocument, PaymentMethod, PaymentProviderName, PaymentStatus } from '../../schemas/payment.schema';
+
+export const PAYMENT_PROVIDERS = 'PAYMENT_PROVIDERS';
+
+export interface CreateProviderPaymentInput {
+  amount: number;
+  currency: string;
+  description: string;
+  patientId: string;
+  // Hold the funds until the visit is confirmed instead of charging right away
+  holdFunds: boolean;
+  metadata: Record<string, string>;
+}
+
+export interface ProviderPayment {
+  externalTransactionId: string;
+  status: PaymentStatus;
+  // Secret the browser needs to finish the payment, for providers with a client-side step
+  clientSecret?: string | null;
+  metadata?: Record<string, any>;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+}
+
+/**
+ * Contract for the services that move visit money. PaymentsService owns the
+ * Payment records and escrow rules; providers only talk to wherever the money
+ * actually lives (a card processor, the nurse's hand, the in-app wallet).
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  readonly paymentMethod: PaymentMethod;
+
+  // False when the provider is not configured in this environment
+  isEnabled(): boolean;
+
+  create(payment: CreateProviderPaymentInput): Promise<ProviderPayment>;
+
+  // Current state after the patient acted on the payment (e.g. confirmed their card)
+  confirm(payment: PaymentDocument): Promise<ProviderPayment>;
+
+  // Client secret for a payment that still waits on the patient, if the provider has one
+  getClientSecret(payment: PaymentDocument): Promise<string | null>;
+
+  capture(payment: PaymentDocument, amountToCapture?: number): Promise<void>;
+
+  // Gives held funds back without charging them
+  cancel(payment: PaymentDocument): Promise<void>;
+
+  refund(payment: PaymentDocument, amount: number, reason: string): Promise<ProviderRefund>;
+
+  // Cheap authenticated call for the health check; only providers with a remote side implement it
+  checkHealth?(): Promise<void>;
+
+  // Verifies and parses a webhook delivery; only providers that send webhooks implement it
+  verifyWebhook?(payload: Buffer | string, signature: string): unknown;
+}
@@ -0,0 +1,123 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import { PaymentDocument, PaymentMethod, PaymentProviderName, PaymentStatus } from '../../schemas/payment.schema';
+import { CreateProviderPaymentInput, PaymentProvider, ProviderPayment, ProviderRefund } from './payment-provider.interface';
+
+const INTENT_STATUSES: Partial<Record<Stripe.PaymentIntent.Status, PaymentStatus>> = {
+  requires_capture: PaymentStatus.AUTHORIZED,
+  succeeded: PaymentStatus.COMPLETED,
+  processing: PaymentStatus.PROCESSING,
+  canceled: PaymentStatus.CANCELLED,
+};
+
+// Card payments through Stripe Payment Intents
+@Injectable()
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.STRIPE;
+  readonly paymentMethod = PaymentMethod.CREDIT_CARD;
+
+  private readonly logger = new Logger(StripePaymentProvider.name);
+  private client?: Stripe;
+
+  constructor(private configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    return Boolean(this.configService.get<string>('STRIPE_SECRET_KEY'));
+  }
+
+  async create(payment: CreateProviderPaymentInput): Promise<ProviderPayment> {
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: payment.amount,
+      currency: payment.currency,
+      capture_method: payment.holdFunds ? 'manual' : 'automatic',
+      payment_method_types: ['card'],
+      description: payment.description,
+      metadata: payment.metadata,
+    });
+
+    return {
+      externalTransactionId: paymentIntent.id,
+      status: PaymentStatus.PENDING,
+      clientSecret: paymentIntent.client_secret,
+      metadata: { stripePaymentIntentId: paymentIntent.id },
+    };
+  }
+
+  async confirm(payment: PaymentDocument): Promise<ProviderPayment> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(payment.externalTransactionId!);
+
+    return {
+      externalTransactionId: paymentIntent.id,
+      status: INTENT_STATUSES[paymentIntent.status] ?? PaymentStatus.PENDING,
+      clientSecret: paymentIntent.client_secret,
+    };
+  }
+
+  async getClientSecret(payment: PaymentDocument): Promise<string | null> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(payment.externalTransactionId!);
+    return paymentIntent.client_secret;
+  }
+
+  async capture(payment: PaymentDocument, amountToCapture?: number): Promise<void> {
+    await this.stripe.paymentIntents.capture(
+      payment.externalTransactionId!,
+      amountToCapture ? { amount_to_capture: amountToCapture } : undefined
+    );
+  }
+
+  async cancel(payment: PaymentDocument): Promise<void> {
+    await this.stripe.paymentIntents.cancel(payment.externalTransactionId!);
+  }
+
+  async refund(payment: PaymentDocument, amount: number, reason: string): Promise<ProviderRefund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: payment.externalTransactionId,
+      amount,
+      reason: 'requested_by_customer',
+      metadata: {
+        paymentId: String(payment._id),
+        reason,
+      },
+    });
+
+    return { refundId: refund.id };
+  }
+
+  // Webhook payloads only carry the charge id; the receipt link needs the charge itself
+  async getLatestCharge(paymentIntentId: string): Promise<Stripe.Charge | null> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    return typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+  }
+
+  async checkHealth(): Promise<void> {
+    await this.stripe.balance.retrieve();
+  }
+
+  verifyWebhook(payload: Buffer | string, signature: string): Stripe.Event {
+    const webhookSecret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET');
+    if (!webhookSecret) {
+      this.logger.error('Stripe webhook secret is not configured');
+      throw new BadRequestException('Webhook secret not configured');
+    }
+
+    return this.stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  }
+
+  // Created on first use so the API boots without Stripe keys when other providers are used
+  private get stripe(): Stripe {
+    if (!this.client) {
+      const stripeSecretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
+      if (!stripeSecretKey) {
+        throw new BadRequestException('Card payments are not available: STRIPE_SECRET_KEY is not configured');
+      }
+
+      // The API version the installed stripe SDK is typed against
+      this.client = new Stripe(stripeSecretKey, {
+        apiVersion: '2023-10-16',
+      });
+    }
+
+    return this.client;
+  }
+}
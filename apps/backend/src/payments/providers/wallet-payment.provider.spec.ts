@@ -0,0 +1,94 @@
+import { Types } from 'mongoose';
+import { WalletPaymentProvider } from './wallet-payment.provider';
+import { CashPaymentProvider } from './cash-payment.provider';
+import { PaymentStatus } from '../../schemas/payment.schema';
+import { WalletService } from '../wallet.service';
+
+describe('in-app payment providers', () => {
+  let walletService: Record<'hold' | 'pay' | 'captureHold' | 'releaseHold' | 'credit', jest.Mock>;
+
+  const payment = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    patientId: new Types.ObjectId(),
+    externalTransactionId: 'wallet_1',
+    amount: 500,
+    status: PaymentStatus.PENDING,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    walletService = {
+      hold: jest.fn().mockResolvedValue(true),
+      pay: jest.fn().mockResolvedValue(true),
+      captureHold: jest.fn().mockResolvedValue(true),
+      releaseHold: jest.fn().mockResolvedValue(true),
+      credit: jest.fn().mockResolvedValue(true),
+    };
+  });
+
+  describe('WalletPaymentProvider', () => {
+    let provider: WalletPaymentProvider;
+
+    beforeEach(() => {
+      provider = new WalletPaymentProvider(walletService as unknown as WalletService);
+    });
+
+    it('reserves the amount for escrow payments', async () => {
+      const held = payment({ metadata: { walletHold: true } });
+
+      await expect(provider.confirm(held)).resolves.toEqual({ externalTransactionId: 'wallet_1', status: PaymentStatus.AUTHORIZED });
+      expect(walletService.hold).toHaveBeenCalledWith(String(held.patientId), 'wallet_1:hold', 500, held._id);
+      expect(walletService.pay).not.toHaveBeenCalled();
+    });
+
+    it('spends the amount right away for payments without a hold', async () => {
+      await expect(provider.confirm(payment())).resolves.toEqual({ externalTransactionId: 'wallet_1', status: PaymentStatus.COMPLETED });
+      expect(walletService.pay).toHaveBeenCalled();
+    });
+
+    it('does not move money again for a payment that is no longer pending', async () => {
+      await expect(provider.confirm(payment({ status: PaymentStatus.AUTHORIZED }))).resolves.toEqual(
+        { externalTransactionId: 'wallet_1', status: PaymentStatus.AUTHORIZED },
+      );
+      expect(walletService.hold).not.toHaveBeenCalled();
+      expect(walletService.pay).not.toHaveBeenCalled();
+    });
+
+    it('captures part of the hold when asked to', async () => {
+      const held = payment({ status: PaymentStatus.AUTHORIZED });
+
+      await provider.capture(held, 200);
+
+      expect(walletService.captureHold).toHaveBeenCalledWith(String(held.patientId), 'wallet_1:capture', 500, 200, held._id);
+    });
+
+    it('has nothing to release for a payment that was never reserved', async () => {
+      await provider.cancel(payment());
+
+      expect(walletService.releaseHold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CashPaymentProvider', () => {
+    let provider: CashPaymentProvider;
+
+    beforeEach(() => {
+      provider = new CashPaymentProvider(walletService as unknown as WalletService);
+    });
+
+    it('leaves the payment pending until the nurse collects it', async () => {
+      const created = await provider.create();
+
+      expect(created.status).toBe(PaymentStatus.PENDING);
+      await expect(provider.confirm(payment({ externalTransactionId: created.externalTransactionId })))
+        .resolves.toEqual({ externalTransactionId: created.externalTransactionId, status: PaymentStatus.PENDING });
+    });
+
+    it('refunds cash to the patient\'s wallet', async () => {
+      const paid = payment({ externalTransactionId: 'cash_1', status: PaymentStatus.COMPLETED });
+
+      await expect(provider.refund(paid, 200, 'Late arrival')).resolves.toEqual({ refundId: 'cash:cash_1:refund' });
+      expect(walletService.credit).toHaveBeenCalledWith(String(paid.patientId), 'cash:cash_1:refund', 200, paid._id, 'Refund: Late arrival');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PaymentDocument, PaymentMethod, PaymentProviderName, PaymentStatus } from '../../schemas/payment.schema';
+import { CreateProviderPaymentInput, PaymentProvider, ProviderPayment, ProviderRefund } from './payment-provider.interface';
+import { WalletService } from '../wallet.service';
+
+/**
+ * Pays from the patient's in-app wallet. Confirming the payment reserves the
+ * amount (or spends it right away for payments without a hold); capture and
+ * cancel settle the reservation.
+ */
+@Injectable()
+export class WalletPaymentProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.WALLET;
+  readonly paymentMethod = PaymentMethod.WALLET;
+
+  constructor(private walletService: WalletService) {}
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async create(payment: CreateProviderPaymentInput): Promise<ProviderPayment> {
+    return {
+      externalTransactionId: `wallet_${new Types.ObjectId()}`,
+      status: PaymentStatus.PENDING,
+      clientSecret: null,
+      metadata: { walletHold: payment.holdFunds },
+    };
+  }
+
+  async confirm(payment: PaymentDocument): Promise<ProviderPayment> {
+    const externalTransactionId = payment.externalTransactionId!;
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      return { externalTransactionId, status: payment.status! };
+    }
+
+    if (payment.metadata?.walletHold) {
+      await this.walletService.hold(String(payment.patientId), `${externalTransactionId}:hold`, payment.amount!, payment._id as Types.ObjectId);
+      return { externalTransactionId, status: PaymentStatus.AUTHORIZED };
+    }
+
+    await this.walletService.pay(String(payment.patientId), `${externalTransactionId}:pay`, payment.amount!, payment._id as Types.ObjectId);
+    return { externalTransactionId, status: PaymentStatus.COMPLETED };
+  }
+
+  async getClientSecret(): Promise<string | null> {
+    return null;
+  }
+
+  async capture(payment: PaymentDocument, amountToCapture?: number): Promise<void> {
+    await this.walletService.captureHold(
+      String(payment.patientId),
+      `${payment.externalTransactionId}:capture`,
+      payment.amount!,
+      amountToCapture ?? payment.amount!,
+      payment._id as Types.ObjectId
+    );
+  }
+
+  async cancel(payment: PaymentDocument): Promise<void> {
+    // Pending wallet payments never reserved anything
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+      return;
+    }
+
+    await this.walletService.releaseHold(
+      String(payment.patientId),
+      `${payment.externalTransactionId}:release`,
+      payment.amount!,
+      payment._id as Types.ObjectId
+    );
+  }
+
+  async refund(payment: PaymentDocument, amount: number, reason: string): Promise<ProviderRefund> {
+    const refundId = `${payment.externalTransactionId}:refund`;
+    await this.walletService.credit(
+      String(payment.patientId),
+      refundId,
+      amount,
+      payment._id as Types.ObjectId,
+      reason ? `Refund: ${reason}` : 'Refund to wallet'
+    );
+
+    return { refundId };
+  }
+}
@@ -0,0 +1,194 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import Stripe from 'stripe';
+import { StripeWebhookService } from './stripe-webhook.service';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { DisputeSource, DisputeStatus, Payment, PaymentStatus } from '../schemas/payment.schema';
+import { PatientRequest, RequestPaymentStatus } from '../schemas/patient-request.schema';
+import { User } from '../schemas/user.schema';
+import { WebhookEvent } from '../schemas/webhook-event.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('StripeWebhookService', () => {
+  let service: StripeWebhookService;
+  let paymentModel: { findOne: jest.Mock };
+  let requestModel: { findOneAndUpdate: jest.Mock; findById: jest.Mock };
+  let webhookEventModel: { create: jest.Mock; deleteOne: jest.Mock };
+  let notificationsService: Record<string, jest.Mock>;
+  let ledgerService: { recordServicePayment: jest.Mock; recordChargeback: jest.Mock };
+  let payment: any;
+
+  const admin = { _id: new Types.ObjectId() };
+
+  const event = (type: string, object: Record<string, any>, id = `evt_${type}`): Stripe.Event =>
+    ({ id, type, data: { object } }) as unknown as Stripe.Event;
+
+  const intent = (fields: Record<string, any> = {}) => ({ id: 'pi_123', latest_charge: null, ...fields });
+
+  const dispute = (fields: Record<string, any> = {}) => ({
+    id: 'dp_1',
+    charge: 'ch_1',
+    payment_intent: 'pi_123',
+    amount: 500,
+    reason: 'product_not_received',
+    status: 'needs_response',
+    created: 1767225600,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    payment = {
+      _id: new Types.ObjectId(),
+      requestId: new Types.ObjectId(),
+      patientId: new Types.ObjectId(),
+      nurseId: new Types.ObjectId(),
+      status: PaymentStatus.PENDING,
+      netAmount: 450,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    paymentModel = { findOne: jest.fn().mockReturnValue({ exec: async () => payment }) };
+    requestModel = {
+      findOneAndUpdate: jest.fn().mockReturnValue({ exec: async () => ({ title: 'Wound dressing' }) }),
+      findById: jest.fn(),
+    };
+
+    // Event ids already stored, as the unique index would reject them
+    const processed = new Set<string>();
+    webhookEventModel = {
+      create: jest.fn().mockImplementation(async (data: any) => {
+        if (processed.has(data.eventId)) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        processed.add(data.eventId);
+      }),
+      deleteOne: jest.fn().mockImplementation((filter: any) => ({ exec: async () => processed.delete(filter.eventId) })),
+    };
+    notificationsService = {
+      notifyPaymentReceived: jest.fn().mockResolvedValue(undefined),
+      notifyPaymentFailed: jest.fn().mockResolvedValue(undefined),
+      notifyPaymentDisputed: jest.fn().mockResolvedValue(undefined),
+      notifyPaymentDisputeResolved: jest.fn().mockResolvedValue(undefined),
+    };
+    ledgerService = {
+      recordServicePayment: jest.fn().mockResolvedValue(undefined),
+      recordChargeback: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StripeWebhookService,
+        { provide: getModelToken(Payment.name), useValue: paymentModel },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: getModelToken(User.name), useValue: { find: () => ({ select: () => ({ exec: async () => [admin] }) }) } },
+        { provide: getModelToken(WebhookEvent.name), useValue: webhookEventModel },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: InvoicesService, useValue: { sendReceipt: jest.fn().mockResolvedValue(undefined) } },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: StripePaymentProvider, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(StripeWebhookService);
+  });
+
+  describe('idempotency', () => {
+    it('runs the side effects of a redelivered event only once', async () => {
+      const succeeded = event('payment_intent.succeeded', intent());
+
+      await expect(service.processEvent(succeeded)).resolves.toBe(true);
+      await expect(service.processEvent(succeeded)).resolves.toBe(false);
+
+      expect(ledgerService.recordServicePayment).toHaveBeenCalledTimes(1);
+      expect(notificationsService.notifyPaymentReceived).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets Stripe retry an event whose handler failed', async () => {
+      const succeeded = event('payment_intent.succeeded', intent());
+      payment.save.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(service.processEvent(succeeded)).rejects.toThrow('database unavailable');
+      await expect(service.processEvent(succeeded)).resolves.toBe(true);
+
+      expect(ledgerService.recordServicePayment).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('payment events', () => {
+    it('marks the payment and its request as paid and tells the nurse', async () => {
+      await service.processEvent(event('payment_intent.succeeded', intent()));
+
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+      expect(requestModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: payment.requestId },
+        { $set: { paymentStatus: RequestPaymentStatus.PAID, paidAt: payment.processedAt } },
+        { new: true },
+      );
+      expect(notificationsService.notifyPaymentReceived).toHaveBeenCalledWith(
+        String(payment.nurseId), String(payment.requestId), 'Wound dressing', 450,
+      );
+    });
+
+    it('ignores a late success for a payment that was already refunded', async () => {
+      payment.status = PaymentStatus.REFUNDED;
+
+      await service.processEvent(event('payment_intent.succeeded', intent()));
+
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+      expect(ledgerService.recordServicePayment).not.toHaveBeenCalled();
+    });
+
+    it('ignores a failed attempt for a payment that already went through', async () => {
+      payment.status = PaymentStatus.COMPLETED;
+
+      await service.processEvent(event('payment_intent.payment_failed', intent()));
+
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+      expect(notificationsService.notifyPaymentFailed).not.toHaveBeenCalled();
+    });
+
+    it('tells the patient why a payment failed', async () => {
+      await service.processEvent(event('payment_intent.payment_failed', intent({ last_payment_error: { message: 'Card declined' } })));
+
+      expect(payment.status).toBe(PaymentStatus.FAILED);
+      expect(notificationsService.notifyPaymentFailed).toHaveBeenCalledWith(
+        String(payment.patientId), String(payment.requestId), 'Wound dressing', 'Card declined',
+      );
+    });
+  });
+
+  describe('chargebacks', () => {
+    it('opens a dispute case for the admins', async () => {
+      payment.status = PaymentStatus.COMPLETED;
+
+      await service.processEvent(event('charge.dispute.created', dispute()));
+
+      expect(payment.dispute).toEqual(expect.objectContaining({
+        status: DisputeStatus.OPEN,
+        source: DisputeSource.CHARGEBACK,
+        externalDisputeId: 'dp_1',
+      }));
+      expect(requestModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: payment.requestId },
+        { $set: { paymentStatus: RequestPaymentStatus.DISPUTED } },
+        { new: true },
+      );
+      expect(notificationsService.notifyPaymentDisputed).toHaveBeenCalledWith(
+        String(admin._id), String(payment.requestId), 'Wound dressing', expect.stringContaining('product not received'), true,
+      );
+    });
+
+    it('reverses the payment in the ledger when the chargeback is lost', async () => {
+      payment.status = PaymentStatus.COMPLETED;
+      payment.dispute = { status: DisputeStatus.OPEN, externalDisputeId: 'dp_1' };
+
+      await service.processEvent(event('charge.dispute.closed', dispute({ status: 'lost' })));
+
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+      expect(payment.dispute.status).toBe(DisputeStatus.RESOLVED);
+      expect(ledgerService.recordChargeback).toHaveBeenCalledWith(payment, 500);
+    });
+  });
+});
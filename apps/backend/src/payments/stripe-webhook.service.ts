@@ -0,0 +1,404 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import Stripe from 'stripe';
+import {
+  Payment,
+  PaymentDocument,
+  PaymentStatus,
+  DisputeStatus,
+  DisputeSource,
+  DisputeResolution
+} from '../schemas/payment.schema';
+import { PatientRequest, PatientRequestDocument, RequestPaymentStatus } from '../schemas/patient-request.schema';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { WebhookEvent, WebhookEventDocument } from '../schemas/webhook-event.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+
+const PROCESSED_EVENT_TTL_DAYS = 30;
+
+/**
+ * Applies verified Stripe events to payments, their requests and the ledger.
+ * Each event id is claimed before it is handled, so Stripe redeliveries are
+ * acknowledged without running the side effects again.
+ */
+@Injectable()
+export class StripeWebhookService {
+  private readonly logger = new Logger(StripeWebhookService.name);
+
+  constructor(
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(WebhookEvent.name) private webhookEventModel: Model<WebhookEventDocument>,
+    private notificationsService: NotificationsService,
+    private invoicesService: InvoicesService,
+    private ledgerService: LedgerService,
+    private stripePaymentProvider: StripePaymentProvider,
+  ) {}
+
+  /**
+   * Handles an event once. Returns false when the event was already processed.
+   */
+  async processEvent(event: Stripe.Event): Promise<boolean> {
+    if (!(await this.claim(event))) {
+      this.logger.log(`Skipping already processed Stripe event ${event.id}`);
+      return false;
+    }
+
+    try {
+      await this.handle(event);
+    } catch (error) {
+      // Let Stripe's retry run the handler again
+      await this.webhookEventModel.deleteOne({ provider: 'stripe', eventId: event.id }).exec();
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async handle(event: Stripe.Event) {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
+
+      case 'payment_intent.payment_failed':
+        return this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+
+      case 'payment_intent.amount_capturable_updated':
+        return this.handlePaymentAuthorized(event.data.object as Stripe.PaymentIntent);
+
+      case 'payment_intent.canceled':
+        return this.handlePaymentCanceled(event.data.object as Stripe.PaymentIntent);
+
+      case 'charge.dispute.created':
+        return this.handleChargeDisputeCreated(event.data.object as Stripe.Dispute);
+
+      case 'charge.dispute.updated':
+        return this.handleChargeDisputeUpdated(event.data.object as Stripe.Dispute);
+
+      case 'charge.dispute.closed':
+        return this.handleChargeDisputeClosed(event.data.object as Stripe.Dispute);
+
+      default:
+        this.logger.log(`Unhandled event type: ${event.type}`);
+    }
+  }
+
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+    this.logger.log(`Payment succeeded: ${paymentIntent.id}`);
+
+    const payment = await this.findByIntent(paymentIntent.id);
+    if (!payment) {
+      return;
+    }
+
+    // Stripe does not deliver events in order; a late success must not undo a refund or a release
+    if (payment.status === PaymentStatus.REFUNDED || payment.status === PaymentStatus.CANCELLED) {
+      this.logger.warn(`Ignoring success of payment ${payment._id}, which is already ${payment.status}`);
+      return;
+    }
+
+    const charge = await this.getLatestCharge(paymentIntent);
+
+    payment.status = PaymentStatus.COMPLETED;
+    payment.processedAt = payment.processedAt || new Date();
+    payment.metadata = {
+      ...payment.metadata,
+      stripeChargeId: charge?.id ?? paymentIntent.latest_charge,
+      stripePaymentMethod: paymentIntent.payment_method,
+      stripeReceiptUrl: charge?.receipt_url ?? payment.metadata?.stripeReceiptUrl,
+    };
+    await payment.save();
+
+    this.logger.log(`Payment ${payment._id} marked as completed`);
+
+    await this.ledgerService.recordServicePayment(payment);
+    // An open chargeback keeps the request marked as disputed
+    const request = payment.dispute?.status === DisputeStatus.OPEN
+      ? await this.requestModel.findById(payment.requestId).select('title').exec()
+      : await this.updateRequestPaymentStatus(payment, RequestPaymentStatus.PAID, { paidAt: payment.processedAt });
+    const title = request?.title || 'your visit';
+
+    try {
+      if (payment.nurseId) {
+        await this.notificationsService.notifyPaymentReceived(
+          String(payment.nurseId), String(payment.requestId), title, payment.netAmount ?? 0
+        );
+      }
+
+      await this.invoicesService.sendReceipt(payment, title);
+    } catch (notificationError) {
+      console.error('Failed to send payment confirmation:', notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+    this.logger.log(`Payment failed: ${paymentIntent.id}`);
+
+    const payment = await this.findByIntent(paymentIntent.id);
+    if (!payment) {
+      return;
+    }
+
+    // A failed attempt that arrives after the payment went through, or was settled, changes nothing
+    if (payment.status === PaymentStatus.COMPLETED || payment.status === PaymentStatus.REFUNDED || payment.status === PaymentStatus.CANCELLED) {
+      this.logger.warn(`Ignoring failure of payment ${payment._id}, which is already ${payment.status}`);
+      return;
+    }
+
+    const reason = paymentIntent.last_payment_error?.message || 'Payment failed';
+    payment.status = PaymentStatus.FAILED;
+    payment.failedAt = new Date();
+    payment.failureReason = reason;
+    await payment.save();
+
+    this.logger.log(`Payment ${payment._id} marked as failed`);
+
+    const request = await this.updateRequestPaymentStatus(payment, RequestPaymentStatus.FAILED);
+
+    try {
+      await this.notificationsService.notifyPaymentFailed(
+        String(payment.patientId), String(payment.requestId), request?.title || 'your visit', reason
+      );
+    } catch (notificationError) {
+      console.error('Failed to send payment failure notification:', notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  // Escrow hold confirmed by the patient; capture happens once the visit is confirmed
+  private async handlePaymentAuthorized(paymentIntent: Stripe.PaymentIntent) {
+    this.logger.log(`Payment authorized: ${paymentIntent.id}`);
+
+    const payment = await this.findByIntent(paymentIntent.id);
+    if (!payment) {
+      return;
+    }
+
+    if (payment.status !== PaymentStatus.PENDING && payment.status !== PaymentStatus.PROCESSING) {
+      return;
+    }
+
+    payment.status = PaymentStatus.AUTHORIZED;
+    payment.authorizedAt = new Date();
+    await payment.save();
+
+    this.logger.log(`Payment ${payment._id} marked as authorized`);
+
+    await this.updateRequestPaymentStatus(payment, RequestPaymentStatus.AUTHORIZED);
+  }
+
+  // Holds we released ourselves are already cancelled; this catches holds that expired at Stripe
+  private async handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
+    this.logger.log(`Payment canceled: ${paymentIntent.id}`);
+
+    const payment = await this.paymentModel.findOne({ externalTransactionId: paymentIntent.id }).exec();
+    if (!payment) {
+      return;
+    }
+
+    if (payment.status !== PaymentStatus.CANCELLED) {
+      payment.status = PaymentStatus.CANCELLED;
+      payment.releasedAt = new Date();
+      payment.releaseReason = paymentIntent.cancellation_reason || 'Authorization expired';
+      await payment.save();
+
+      this.logger.log(`Payment ${payment._id} marked as cancelled`);
+    }
+
+    await this.updateRequestPaymentStatus(payment, RequestPaymentStatus.UNPAID);
+  }
+
+  /**
+   * A chargeback opens a dispute case on the payment so admins can gather
+   * evidence. The outcome is decided by the card issuer and arrives with
+   * charge.dispute.closed.
+   */
+  private async handleChargeDisputeCreated(dispute: Stripe.Dispute) {
+    this.logger.log(`Charge dispute created: ${dispute.id} for charge: ${dispute.charge}`);
+
+    const payment = await this.findByDispute(dispute);
+    if (!payment) {
+      return;
+    }
+
+    payment.dispute = {
+      status: DisputeStatus.OPEN,
+      source: DisputeSource.CHARGEBACK,
+      openedAt: new Date(dispute.created * 1000),
+      reason: `Chargeback filed by the card holder (${dispute.reason.replace(/_/g, ' ')})`,
+      externalDisputeId: dispute.id,
+      providerStatus: dispute.status,
+      disputedAmount: dispute.amount,
+      evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : undefined,
+    };
+    await payment.save();
+
+    this.logger.log(`Dispute case opened on payment ${payment._id}`);
+
+    const request = await this.updateRequestPaymentStatus(payment, RequestPaymentStatus.DISPUTED);
+    const title = request?.title || 'a visit';
+
+    try {
+      const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+      await Promise.all([
+        ...admins.map(admin => this.notificationsService.notifyPaymentDisputed(
+          String(admin._id), String(payment.requestId), title, payment.dispute!.reason, true
+        )),
+        ...(payment.nurseId ? [this.notificationsService.notifyPaymentDisputed(
+          String(payment.nurseId), String(payment.requestId), title, payment.dispute!.reason, false
+        )] : []),
+      ]);
+    } catch (notificationError) {
+      console.error('Failed to send chargeback notifications:', notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  private async handleChargeDisputeUpdated(dispute: Stripe.Dispute) {
+    const payment = await this.findByDispute(dispute);
+    if (!payment?.dispute || payment.dispute.externalDisputeId !== dispute.id) {
+      return;
+    }
+
+    payment.dispute = { ...payment.dispute, providerStatus: dispute.status, disputedAmount: dispute.amount };
+    await payment.save();
+  }
+
+  private async handleChargeDisputeClosed(dispute: Stripe.Dispute) {
+    this.logger.log(`Charge dispute closed: ${dispute.id} (${dispute.status})`);
+
+    const payment = await this.findByDispute(dispute);
+    if (!payment?.dispute || payment.dispute.externalDisputeId !== dispute.id) {
+      return;
+    }
+
+    const lost = dispute.status === 'lost';
+    const note = lost
+      ? 'The card issuer sided with the card holder and the payment was reversed.'
+      : 'The card issuer sided with the platform and the payment stands.';
+
+    payment.dispute = {
+      ...payment.dispute,
+      status: DisputeStatus.RESOLVED,
+      providerStatus: dispute.status,
+      resolvedAt: new Date(),
+      resolution: lost ? DisputeResolution.RELEASE : DisputeResolution.CAPTURE,
+      resolutionNote: note,
+    };
+
+    if (lost) {
+      payment.status = PaymentStatus.REFUNDED;
+      payment.refundedAt = new Date();
+      payment.refundAmount = dispute.amount;
+      payment.refundReason = 'Chargeback lost';
+    }
+    await payment.save();
+
+    if (lost) {
+      await this.ledgerService.recordChargeback(payment, dispute.amount);
+    }
+
+    const request = await this.updateRequestPaymentStatus(payment, lost ? RequestPaymentStatus.REFUNDED : RequestPaymentStatus.PAID);
+    const title = request?.title || 'your visit';
+
+    try {
+      await Promise.all([payment.patientId, payment.nurseId]
+        .filter(Boolean)
+        .map(userId => this.notificationsService.notifyPaymentDisputeResolved(
+          String(userId), String(payment.requestId), title, payment.dispute!.resolution!, note
+        )));
+    } catch (notificationError) {
+      console.error('Failed to send chargeback outcome notifications:', notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  private async claim(event: Stripe.Event): Promise<boolean> {
+    try {
+      await this.webhookEventModel.create({
+        provider: 'stripe',
+        eventId: event.id,
+        type: event.type,
+        expiresAt: new Date(Date.now() + PROCESSED_EVENT_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async findByIntent(paymentIntentId: string): Promise<PaymentDocument | null> {
+    const payment = await this.paymentModel.findOne({ externalTransactionId: paymentIntentId }).exec();
+    if (!payment) {
+      this.logger.warn(`Payment not found for PaymentIntent: ${paymentIntentId}`);
+    }
+    return payment;
+  }
+
+  private async getLatestCharge(paymentIntent: Stripe.PaymentIntent): Promise<Stripe.Charge | null> {
+    if (typeof paymentIntent.latest_charge === 'object') {
+      return paymentIntent.latest_charge;
+    }
+    if (!paymentIntent.latest_charge) {
+      return null;
+    }
+
+    try {
+      return await this.stripePaymentProvider.getLatestCharge(paymentIntent.id);
+    } catch (error) {
+      // Don't fail the webhook if the receipt link cannot be fetched; the charge id is enough to reconcile
+      this.logger.error(`Failed to retrieve the charge of payment intent ${paymentIntent.id}:`, error);
+      return null;
+    }
+  }
+
+  private async findByDispute(dispute: Stripe.Dispute): Promise<PaymentDocument | null> {
+    const paymentIntentId = typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+    const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+
+    const payment = await this.paymentModel.findOne({
+      $or: [
+        ...(paymentIntentId ? [{ externalTransactionId: paymentIntentId }] : []),
+        { 'metadata.stripeChargeId': chargeId },
+      ],
+    }).exec();
+
+    if (!payment) {
+      this.logger.warn(`Payment not found for disputed charge: ${chargeId}`);
+    }
+    return payment;
+  }
+
+  private async updateRequestPaymentStatus(
+    payment: PaymentDocument,
+    paymentStatus: RequestPaymentStatus,
+    extra: Partial<Pick<PatientRequest, 'paidAt'>> = {},
+  ): Promise<PatientRequestDocument | null> {
+    if (!payment.requestId) {
+      return null;
+    }
+
+    // A released hold must not overwrite a payment that already went through
+    const filter: Record<string, any> = { _id: payment.requestId };
+    if (paymentStatus === RequestPaymentStatus.UNPAID) {
+      filter.paymentStatus = { $nin: [RequestPaymentStatus.PAID, RequestPaymentStatus.REFUNDED, RequestPaymentStatus.DISPUTED] };
+    }
+
+    const request = await this.requestModel.findOneAndUpdate(
+      filter,
+      { $set: { paymentStatus, ...extra } },
+      { new: true },
+    ).exec();
+
+    return request || this.requestModel.findById(payment.requestId).select('title').exec();
+  }
+}
@@ -0,0 +1,100 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WalletService } from './wallet.service';
+import { Wallet, WalletTransaction } from '../schemas/wallet.schema';
+import { User } from '../schemas/user.schema';
+
+describe('WalletService', () => {
+  let service: WalletService;
+  let wallet: { balance: number; held: number };
+  let references: Set<string>;
+
+  const userId = String(new Types.ObjectId());
+
+  beforeEach(async () => {
+    wallet = { balance: 0, held: 0 };
+    references = new Set();
+
+    // Applies the $gte guards and $inc of the wallet updates to a single wallet
+    const walletModel = {
+      findOneAndUpdate: jest.fn().mockImplementation((filter: any, update: any) => ({
+        exec: async () => {
+          const guards = Object.entries(filter).filter(([field]) => field !== 'userId') as [keyof typeof wallet, any][];
+          if (guards.some(([field, condition]) => wallet[field] < condition.$gte)) {
+            return null;
+          }
+          Object.entries(update.$inc).forEach(([field, amount]) => {
+            wallet[field as keyof typeof wallet] += amount as number;
+          });
+          return { ...wallet };
+        },
+      })),
+    };
+    const walletTransactionModel = {
+      create: jest.fn().mockImplementation(async (data: any) => {
+        if (references.has(data.reference)) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        references.add(data.reference);
+      }),
+      deleteOne: jest.fn().mockImplementation((filter: any) => ({ exec: async () => references.delete(filter.reference) })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        WalletService,
+        { provide: getModelToken(Wallet.name), useValue: walletModel },
+        { provide: getModelToken(WalletTransaction.name), useValue: walletTransactionModel },
+        { provide: getModelToken(User.name), useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(WalletService);
+  });
+
+  it('moves money once per reference, however often a step is retried', async () => {
+    await expect(service.credit(userId, 'topup-1', 1000)).resolves.toBe(true);
+    await expect(service.credit(userId, 'topup-1', 1000)).resolves.toBe(false);
+
+    expect(wallet.balance).toBe(1000);
+  });
+
+  it('reserves funds for a hold and spends only the captured part', async () => {
+    await service.credit(userId, 'topup-1', 1000);
+
+    await service.hold(userId, 'wallet_1:hold', 600);
+    expect(wallet).toEqual({ balance: 400, held: 600 });
+
+    await service.captureHold(userId, 'wallet_1:capture', 600, 450);
+    expect(wallet).toEqual({ balance: 550, held: 0 });
+  });
+
+  it('gives a released hold back to the balance', async () => {
+    await service.credit(userId, 'topup-1', 1000);
+    await service.hold(userId, 'wallet_1:hold', 600);
+
+    await service.releaseHold(userId, 'wallet_1:release', 600);
+
+    expect(wallet).toEqual({ balance: 1000, held: 0 });
+  });
+
+  it('refuses holds above the balance and frees the reference for a later attempt', async () => {
+    await service.credit(userId, 'topup-1', 100);
+
+    await expect(service.hold(userId, 'wallet_1:hold', 600)).rejects.toThrow('Insufficient wallet balance');
+    expect(wallet).toEqual({ balance: 100, held: 0 });
+
+    await service.credit(userId, 'topup-2', 500);
+    await expect(service.hold(userId, 'wallet_1:hold', 600)).resolves.toBe(true);
+  });
+
+  it('refuses to capture more than is held', async () => {
+    await service.credit(userId, 'topup-1', 1000);
+    await service.hold(userId, 'wallet_1:hold', 300);
+
+    await expect(service.captureHold(userId, 'wallet_1:capture', 600, 600)).rejects.toBeInstanceOf(BadRequestException);
+    expect(wallet).toEqual({ balance: 700, held: 300 });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Wallet,
+  WalletDocument,
+  WalletTransaction,
+  WalletTransactionDocument,
+  WalletTransactionType
+} from '../schemas/wallet.schema';
+import { User, UserDocument, UserRole } from '../schemas/user.schema';
+import { CreditWalletDto } from '../dto/payment.dto';
+
+interface WalletMovement {
+  type: WalletTransactionType;
+  amount: number;
+  paymentId?: Types.ObjectId;
+  description?: string;
+  createdBy?: Types.ObjectId;
+}
+
+/**
+ * Patient wallet balances. Every movement is recorded under a deterministic
+ * reference first, so retrying a capture or refund never moves money twice.
+ */
+@Injectable()
+export class WalletService {
+  private readonly logger = new Logger(WalletService.name);
+
+  constructor(
+    @InjectModel(Wallet.name) private walletModel: Model<WalletDocument>,
+    @InjectModel(WalletTransaction.name) private walletTransactionModel: Model<WalletTransactionDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  async getWallet(userId: string, page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+    const query = { userId: new Types.ObjectId(userId) };
+
+    const [wallet, transactions, total] = await Promise.all([
+      this.walletModel.findOne(query).exec(),
+      this.walletTransactionModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.walletTransactionModel.countDocuments(query),
+    ]);
+
+    return {
+      success: true,
+      message: 'Wallet retrieved successfully',
+      data: {
+        balance: wallet?.balance ?? 0,
+        held: wallet?.held ?? 0,
+        currency: wallet?.currency ?? 'egp',
+        transactions,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    };
+  }
+
+  async creditByAdmin(userId: string, creditWalletDto: CreditWalletDto, adminUser: UserDocument) {
+    const patient = await this.userModel.findOne({ _id: userId, role: UserRole.PATIENT }).exec();
+    if (!patient) {
+      throw new NotFoundException('Patient not found');
+    }
+
+    await this.apply(String(patient._id), `credit:${new Types.ObjectId()}`, {
+      type: WalletTransactionType.CREDIT,
+      amount: creditWalletDto.amount,
+      description: creditWalletDto.description,
+      createdBy: new Types.ObjectId(String(adminUser._id)),
+    });
+
+    this.logger.log(`Wallet of ${patient._id} credited with ${creditWalletDto.amount} by ${adminUser._id}`);
+
+    return this.getWallet(String(patient._id));
+  }
+
+  async credit(userId: string, reference: string, amount: number, paymentId?: Types.ObjectId, description?: string): Promise<boolean> {
+    return this.apply(userId, reference, { type: WalletTransactionType.REFUND, amount, paymentId, description });
+  }
+
+  async hold(userId: string, reference: string, amount: number, paymentId?: Types.ObjectId): Promise<boolean> {
+    return this.apply(userId, reference, { type: WalletTransactionType.HOLD, amount, paymentId, description: 'Reserved for a visit' });
+  }
+
+  async pay(userId: string, reference: string, amount: number, paymentId?: Types.ObjectId): Promise<boolean> {
+    return this.apply(userId, reference, { type: WalletTransactionType.PAYMENT, amount, paymentId, description: 'Visit payment' });
+  }
+
+  /**
+   * Settles a hold: the captured part is spent and the rest goes back to the
+   * balance.
+   */
+  async captureHold(userId: string, reference: string, heldAmount: number, capturedAmount: number, paymentId?: Types.ObjectId): Promise<boolean> {
+    const captured = await this.apply(userId, reference, {
+      type: WalletTransactionType.CAPTURE,
+      amount: capturedAmount,
+      paymentId,
+      description: 'Visit payment',
+    });
+
+    if (heldAmount > capturedAmount) {
+      await this.releaseHold(userId, `${reference}:remainder`, heldAmount - capturedAmount, paymentId);
+    }
+
+    return captured;
+  }
+
+  async releaseHold(userId: string, reference: string, amount: number, paymentId?: Types.ObjectId): Promise<boolean> {
+    return this.apply(userId, reference, { type: WalletTransactionType.RELEASE, amount, paymentId, description: 'Reservation released' });
+  }
+
+  // Claims the reference, then moves the money; the claim is dropped again if the move is refused
+  private async apply(userId: string, reference: string, movement: WalletMovement): Promise<boolean> {
+    try {
+      await this.walletTransactionModel.create({
+        userId: new Types.ObjectId(userId),
+        reference,
+        ...movement,
+      });
+    } catch (error: any) {
+      // Already applied
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+
+    const owner = new Types.ObjectId(userId);
+    const { amount } = movement;
+    let updated: WalletDocument | null = null;
+
+    switch (movement.type) {
+      case WalletTransactionType.CREDIT:
+      case WalletTransactionType.REFUND:
+        updated = await this.walletModel.findOneAndUpdate(
+          { userId: owner },
+          { $inc: { balance: amount } },
+          { new: true, upsert: true, setDefaultsOnInsert: true }
+        ).exec();
+        break;
+      case WalletTransactionType.HOLD:
+        updated = await this.walletModel.findOneAndUpdate(
+          { userId: owner, balance: { $gte: amount } },
+          { $inc: { balance: -amount, held: amount } },
+          { new: true }
+        ).exec();
+        break;
+      case WalletTransactionType.PAYMENT:
+        updated = await this.walletModel.findOneAndUpdate(
+          { userId: owner, balance: { $gte: amount } },
+          { $inc: { balance: -amount } },
+          { new: true }
+        ).exec();
+        break;
+      case WalletTransactionType.CAPTURE:
+        updated = await this.walletModel.findOneAndUpdate(
+          { userId: owner, held: { $gte: amount } },
+          { $inc: { held: -amount } },
+          { new: true }
+        ).exec();
+        break;
+      case WalletTransactionType.RELEASE:
+        updated = await this.walletModel.findOneAndUpdate(
+          { userId: owner, held: { $gte: amount } },
+          { $inc: { balance: amount, held: -amount } },
+          { new: true }
+        ).exec();
+        break;
+    }
+
+    if (!updated) {
+      await this.walletTransactionModel.deleteOne({ reference }).exec();
+      throw new BadRequestException(
+        movement.type === WalletTransactionType.HOLD || movement.type === WalletTransactionType.PAYMENT
+          ? 'Insufficient wallet balance'
+          : 'Wallet has no matching reserved funds'
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,149 @@
+import { ServiceType } from '../schemas/patient-request.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import {
+  budgetFit,
+  distanceFit,
+  distanceInKm,
+  languageFit,
+  ratingFit,
+  scoreMatch,
+  specializationFit,
+} from './matching-rules';
+
+describe('matching rules', () => {
+  describe('distanceFit', () => {
+    it('falls linearly to zero at the maximum distance', () => {
+      expect(distanceFit(0, 30)).toBe(1);
+      expect(distanceFit(15, 30)).toBe(0.5);
+      expect(distanceFit(45, 30)).toBe(0);
+    });
+
+    it('does not apply without a location', () => {
+      expect(distanceFit(null, 30)).toBeNull();
+    });
+  });
+
+  describe('specializationFit', () => {
+    const surgicalRequest = { serviceType: ServiceType.POST_SURGICAL_CARE };
+
+    it('takes the specialization from the service type when none is required', () => {
+      expect(specializationFit(surgicalRequest, [SpecializationType.SURGICAL])).toBe(1);
+    });
+
+    it('ranks general nurses below specialists and others last', () => {
+      expect(specializationFit(surgicalRequest, [SpecializationType.GENERAL])).toBe(0.4);
+      expect(specializationFit(surgicalRequest, [SpecializationType.PEDIATRIC])).toBe(0);
+      expect(specializationFit(surgicalRequest)).toBe(0);
+    });
+
+    it('prefers the required specialization over the service default', () => {
+      const request = { serviceType: ServiceType.POST_SURGICAL_CARE, requiredSpecialization: SpecializationType.ONCOLOGY };
+      expect(specializationFit(request, [SpecializationType.SURGICAL])).toBe(0);
+      expect(specializationFit(request, [SpecializationType.ONCOLOGY])).toBe(1);
+    });
+
+    it('does not apply to visits any nurse can do', () => {
+      expect(specializationFit({ serviceType: ServiceType.WOUND_CARE }, [SpecializationType.SURGICAL])).toBeNull();
+    });
+  });
+
+  describe('ratingFit', () => {
+    it('pulls nurses without reviews to the prior rating', () => {
+      expect(ratingFit()).toBeCloseTo(0.7);
+    });
+
+    it('does not let a single 5-star review beat many 4.8s', () => {
+      expect(ratingFit(5, 1)).toBeLessThan(ratingFit(4.8, 50));
+    });
+  });
+
+  describe('budgetFit', () => {
+    const request = { serviceType: ServiceType.HOME_CARE, budget: 400, estimatedDuration: 3 };
+
+    it('fits fully when the whole visit is within budget', () => {
+      expect(budgetFit(request, 100)).toBe(1);
+    });
+
+    it('falls with how far the visit goes over budget', () => {
+      expect(budgetFit(request, 150)).toBeCloseTo(0.875);
+      expect(budgetFit(request, 300)).toBe(0);
+    });
+
+    it('counts one hour when the duration is unknown', () => {
+      expect(budgetFit({ serviceType: ServiceType.HOME_CARE, budget: 100 }, 100)).toBe(1);
+    });
+
+    it('does not apply without a budget or a rate', () => {
+      expect(budgetFit({ serviceType: ServiceType.HOME_CARE }, 100)).toBeNull();
+      expect(budgetFit(request)).toBeNull();
+    });
+  });
+
+  describe('languageFit', () => {
+    it('matches any preferred language, ignoring case and spaces', () => {
+      expect(languageFit(['Arabic', 'French'], ['english', ' arabic '])).toBe(1);
+      expect(languageFit(['French'], ['English', 'Arabic'])).toBe(0);
+    });
+
+    it('does not apply without preferred languages', () => {
+      expect(languageFit([], ['English'])).toBeNull();
+    });
+  });
+
+  describe('scoreMatch', () => {
+    it('averages only the criteria that apply', () => {
+      const { score, breakdown } = scoreMatch(
+        { serviceType: ServiceType.HOME_CARE },
+        { rating: 5, totalReviews: 5 },
+        null,
+        true,
+        30
+      );
+
+      expect(breakdown).toEqual({
+        distance: null,
+        specialization: null,
+        rating: 0.85,
+        budget: null,
+        language: null,
+        availability: 1,
+      });
+      // (0.15 * 0.85 + 0.1 * 1) / (0.15 + 0.1)
+      expect(score).toBe(91);
+    });
+
+    it('ranks a nearby, available specialist above a distant, busy general nurse', () => {
+      const request = {
+        serviceType: ServiceType.POST_SURGICAL_CARE,
+        budget: 600,
+        estimatedDuration: 3,
+        preferredLanguages: ['Arabic'],
+      };
+      const specialist = scoreMatch(
+        request,
+        { specializations: [SpecializationType.SURGICAL], rating: 4.5, totalReviews: 20, hourlyRate: 150, languages: ['Arabic'] },
+        2,
+        true,
+        30
+      );
+      const generalist = scoreMatch(
+        request,
+        { specializations: [SpecializationType.GENERAL], rating: 4.5, totalReviews: 20, hourlyRate: 250, languages: ['English'] },
+        25,
+        false,
+        30
+      );
+
+      expect(specialist.score).toBeGreaterThan(generalist.score);
+      expect(specialist.score).toBeLessThanOrEqual(100);
+      expect(generalist.score).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('distanceInKm', () => {
+    it('measures great-circle distances between [longitude, latitude] points', () => {
+      expect(distanceInKm([31.2357, 30.0444], [31.2357, 30.0444])).toBe(0);
+      expect(distanceInKm([31, 30], [31, 31])).toBeCloseTo(111.19, 1);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { ServiceType } from '../schemas/patient-request.schema';
+import { SpecializationType } from '../schemas/nurse-profile.schema';
+import { defaultSpecialization } from '../ai-chat/triage-rules';
+
+export type MatchCriterion = 'distance' | 'specialization' | 'rating' | 'budget' | 'language' | 'availability';
+
+// How much each criterion counts towards the score; criteria that do not apply are left out
+export const MATCH_WEIGHTS: Record<MatchCriterion, number> = {
+  distance: 0.25,
+  specialization: 0.25,
+  rating: 0.15,
+  budget: 0.15,
+  language: 0.1,
+  availability: 0.1,
+};
+
+// Nurses with few reviews are pulled towards this rating, so one 5-star review does not beat fifty 4.8s
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEWS = 5;
+
+// A general nurse can take a specialized visit, but ranks below a specialist
+const GENERAL_NURSE_FIT = 0.4;
+
+export interface MatchRequest {
+  serviceType: ServiceType;
+  requiredSpecialization?: SpecializationType;
+  estimatedDuration?: number;
+  budget?: number;
+  preferredLanguages?: string[];
+}
+
+export interface MatchNurse {
+  specializations?: SpecializationType[];
+  rating?: number;
+  totalReviews?: number;
+  hourlyRate?: number;
+  languages?: string[];
+}
+
+export interface MatchScore {
+  score: number; // 0-100
+  breakdown: Record<MatchCriterion, number | null>; // 0-1 per criterion, null when it does not apply
+}
+
+export function distanceFit(distanceKm: number | null, maxDistanceKm: number): number | null {
+  if (distanceKm === null) {
+    return null;
+  }
+  return Math.max(0, 1 - distanceKm / maxDistanceKm);
+}
+
+export function specializationFit(request: MatchRequest, specializations: SpecializationType[] = []): number | null {
+  const required = request.requiredSpecialization || defaultSpecialization(request.serviceType);
+  if (required === SpecializationType.GENERAL) {
+    return null;
+  }
+  if (specializations.includes(required)) {
+    return 1;
+  }
+  return specializations.includes(SpecializationType.GENERAL) ? GENERAL_NURSE_FIT : 0;
+}
+
+export function ratingFit(rating = 0, totalReviews = 0): number {
+  const weighted = (rating * totalReviews + PRIOR_RATING * PRIOR_REVIEWS) / (totalReviews + PRIOR_REVIEWS);
+  return weighted / 5;
+}
+
+// The nurse's hourly rate over the whole visit against the patient's budget
+export function budgetFit(request: MatchRequest, hourlyRate?: number): number | null {
+  if (!request.budget || !hourlyRate) {
+    return null;
+  }
+  const cost = hourlyRate * (request.estimatedDuration || 1);
+  if (cost <= request.budget) {
+    return 1;
+  }
+  return Math.max(0, 1 - (cost - request.budget) / request.budget);
+}
+
+export function languageFit(preferredLanguages: string[] = [], languages: string[] = []): number | null {
+  if (preferredLanguages.length === 0) {
+    return null;
+  }
+  const spoken = new Set(languages.map(language => language.trim().toLowerCase()));
+  return preferredLanguages.some(language => spoken.has(language.trim().toLowerCase())) ? 1 : 0;
+}
+
+/**
+ * Weighted score of how well a nurse suits a request. Distance is in
+ * kilometers and null when either side has no location; available means
+ * the nurse's calendar is free for the visit.
+ */
+export function scoreMatch(
+  request: MatchRequest,
+  nurse: MatchNurse,
+  distanceKm: number | null,
+  available: boolean,
+  maxDistanceKm: number
+): MatchScore {
+  const breakdown: Record<MatchCriterion, number | null> = {
+    distance: distanceFit(distanceKm, maxDistanceKm),
+    specialization: specializationFit(request, nurse.specializations),
+    rating: ratingFit(nurse.rating, nurse.totalReviews),
+    budget: budgetFit(request, nurse.hourlyRate),
+    language: languageFit(request.preferredLanguages, nurse.languages),
+    availability: available ? 1 : 0,
+  };
+
+  let total = 0;
+  let weights = 0;
+  for (const criterion of Object.keys(MATCH_WEIGHTS) as MatchCriterion[]) {
+    const fit = breakdown[criterion];
+    if (fit === null) {
+      continue;
+    }
+    total += MATCH_WEIGHTS[criterion] * fit;
+    weights += MATCH_WEIGHTS[criterion];
+    breakdown[criterion] = Math.round(fit * 100) / 100;
+  }
+
+  return {
+    score: weights > 0 ? Math.round((total / weights) * 100) : 0,
+    breakdown,
+  };
+}
+
+/**
+ * Great-circle distance between two [longitude, latitude] points, in kilometers
+ */
+export function distanceInKm(from: [number, number], to: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const [lon1, lat1] = from;
+  const [lon2, lat2] = to;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,319 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
+import { Application, ApplicationDocument } from '../schemas/application.schema';
+import { InviteNursesDto } from '../dto/request.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NurseAvailabilityService } from '../nurses/nurse-availability.service';
+import { MatchScore, distanceInKm, scoreMatch } from './matching-rules';
+
+const HOUR_MS = 60 * 60 * 1000;
+const EARTH_RADIUS_KM = 6378.1;
+
+const DEFAULT_INVITE_COUNT = 5;
+
+// Patients cannot invite every nurse in town to one visit
+const MAX_INVITATIONS_PER_REQUEST = 20;
+
+// Nearest nurses scored for a request, and soonest requests scored for a nurse's feed
+const MAX_CANDIDATES = 200;
+
+export interface NurseMatch extends MatchScore {
+  nurse: {
+    id: string;
+    name?: string;
+    profileImage?: string;
+    address?: string;
+    specializations: string[];
+    yearsOfExperience?: number;
+    rating: number;
+    totalReviews: number;
+    completedJobs: number;
+    hourlyRate?: number;
+    languages: string[];
+  };
+  distanceKm: number | null;
+  available: boolean;
+}
+
+/**
+ * Ranks verified nurses for a pending request and pending requests for a
+ * nurse, using the weights in matching-rules. Patients can invite their best
+ * matches to apply instead of waiting for nurses to find the request.
+ */
+@Injectable()
+export class MatchingService {
+  private readonly logger = new Logger(MatchingService.name);
+
+  constructor(
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
+    private notificationsService: NotificationsService,
+    private nurseAvailabilityService: NurseAvailabilityService,
+    private configService: ConfigService,
+  ) {}
+
+  async getMatches(requestId: string, user: UserDocument, limit = 10) {
+    const request = await this.findOwnPendingRequest(requestId, user);
+    const matches = await this.rankNurses(request);
+    const invited = this.invitedNurseIds(request);
+
+    return {
+      success: true,
+      message: 'Matching nurses retrieved successfully',
+      data: {
+        matches: matches.slice(0, limit).map(match => ({ ...match, invited: invited.has(match.nurse.id) })),
+        invitedCount: invited.size,
+        maxInvitations: MAX_INVITATIONS_PER_REQUEST,
+      },
+    };
+  }
+
+  async inviteNurses(requestId: string, inviteNursesDto: InviteNursesDto, user: UserDocument) {
+    const request = await this.findOwnPendingRequest(requestId, user);
+    const invited = this.invitedNurseIds(request);
+    const matches = await this.rankNurses(request);
+
+    let picked: NurseMatch[];
+    if (inviteNursesDto.nurseIds) {
+      const byId = new Map(matches.map(match => [match.nurse.id, match]));
+      if (inviteNursesDto.nurseIds.some(nurseId => !byId.has(nurseId))) {
+        throw new BadRequestException('Only nurses matched to this request can be invited');
+      }
+      picked = Array.from(new Set(inviteNursesDto.nurseIds))
+        .filter(nurseId => !invited.has(nurseId))
+        .map(nurseId => byId.get(nurseId)!);
+    } else {
+      picked = matches
+        .filter(match => !invited.has(match.nurse.id))
+        .slice(0, inviteNursesDto.limit || DEFAULT_INVITE_COUNT);
+    }
+
+    if (picked.length === 0) {
+      throw new BadRequestException('There are no matching nurses left to invite');
+    }
+
+    if (invited.size + picked.length > MAX_INVITATIONS_PER_REQUEST) {
+      throw new BadRequestException(
+        `A request can invite at most ${MAX_INVITATIONS_PER_REQUEST} nurses; ${MAX_INVITATIONS_PER_REQUEST - invited.size} invitation(s) left`
+      );
+    }
+
+    const invitedAt = new Date();
+    request.invitations = [
+      ...(request.invitations || []),
+      ...picked.map(match => ({ nurseId: new Types.ObjectId(match.nurse.id), invitedAt, matchScore: match.score })),
+    ];
+    await request.save();
+
+    for (const match of picked) {
+      try {
+        await this.notificationsService.notifyRequestInvitation(
+          match.nurse.id,
+          user.name || 'A patient',
+          String(request._id),
+          request.title,
+          request.scheduledDate
+        );
+      } catch (error) {
+        // Don't fail the invitation if a nurse cannot be notified; they still see it in their feed
+        this.logger.error(`Failed to notify nurse ${match.nurse.id} of an invitation to request ${request._id}:`, error);
+      }
+    }
+
+    return {
+      success: true,
+      message: `${picked.length} nurse${picked.length === 1 ? '' : 's'} invited`,
+      data: {
+        invited: picked.map(match => ({ id: match.nurse.id, name: match.nurse.name, score: match.score })),
+        invitedCount: request.invitations.length,
+      },
+    };
+  }
+
+  /**
+   * Pending requests a nurse is suited for, best first. Requests the nurse
+   * was invited to come first and are shown wherever they are; requests the
+   * nurse already applied to are left out.
+   */
+  async getRecommendedRequests(user: UserDocument, limit = 20) {
+    if (user.role !== UserRole.NURSE) {
+      throw new ForbiddenException('Only nurses have recommended requests');
+    }
+
+    const nurseId = new Types.ObjectId(String(user._id));
+    const [profile, nurse, appliedRequestIds] = await Promise.all([
+      this.nurseProfileModel.findOne({ userId: nurseId }).exec(),
+      this.userModel.findById(nurseId).select('location').lean().exec(),
+      this.applicationModel.distinct('requestId', { nurseId }).exec(),
+    ]);
+
+    if (!profile) {
+      throw new NotFoundException('Nurse profile not found');
+    }
+
+    const maxDistanceKm = this.maxDistanceKm();
+    const nurseCoordinates = nurse?.location?.coordinates?.length === 2 ? nurse.location.coordinates : null;
+
+    const query: any = {
+      status: RequestStatus.PENDING,
+      scheduledDate: { $gt: new Date() },
+      patientId: { $ne: nurseId },
+      _id: { $nin: appliedRequestIds },
+    };
+    if (nurseCoordinates) {
+      query.$or = [
+        { location: { $geoWithin: { $centerSphere: [nurseCoordinates, maxDistanceKm / EARTH_RADIUS_KM] } } },
+        { 'invitations.nurseId': nurseId },
+      ];
+    }
+
+    const requests = await this.requestModel
+      .find(query)
+      .populate('patientId', 'name')
+      .sort({ scheduledDate: 1 })
+      .limit(MAX_CANDIDATES)
+      .exec();
+
+    const windows = requests.map(request => ({
+      request,
+      start: new Date(request.scheduledDate),
+      end: new Date(new Date(request.scheduledDate).getTime() + (request.estimatedDuration || 1) * HOUR_MS),
+    }));
+    const free = new Set(await this.nurseAvailabilityService.filterFreeWindows(profile, windows));
+
+    const recommended = windows
+      .map(window => {
+        const { request } = window;
+        const distanceKm = nurseCoordinates ? distanceInKm(nurseCoordinates, request.location.coordinates) : null;
+        const invitation = (request.invitations || []).find(entry => String(entry.nurseId) === String(nurseId));
+
+        return {
+          id: String(request._id),
+          title: request.title,
+          serviceType: request.serviceType,
+          address: request.address,
+          scheduledDate: request.scheduledDate,
+          estimatedDuration: request.estimatedDuration,
+          urgencyLevel: request.urgencyLevel,
+          requiredSpecialization: request.requiredSpecialization,
+          preferredLanguages: request.preferredLanguages || [],
+          budget: request.budget,
+          patient: request.patientId ? {
+            id: String((request.patientId as any)._id),
+            name: (request.patientId as any).name,
+          } : null,
+          distanceKm: distanceKm === null ? null : Math.round(distanceKm * 10) / 10,
+          available: free.has(window),
+          invited: Boolean(invitation),
+          invitedAt: invitation?.invitedAt,
+          ...scoreMatch(request, profile, distanceKm, free.has(window), maxDistanceKm),
+        };
+      })
+      .sort((a, b) => Number(b.invited) - Number(a.invited) || b.score - a.score)
+      .slice(0, limit);
+
+    return {
+      success: true,
+      message: 'Recommended requests retrieved successfully',
+      data: { requests: recommended },
+    };
+  }
+
+  /**
+   * Verified nurses near the request who take bookings and hold a valid
+   * license, scored and sorted best first.
+   */
+  private async rankNurses(request: PatientRequestDocument): Promise<NurseMatch[]> {
+    const maxDistanceKm = this.maxDistanceKm();
+    const requestCoordinates = request.location.coordinates;
+
+    const nurses = await this.userModel
+      .find({
+        role: UserRole.NURSE,
+        status: UserStatus.VERIFIED,
+        location: {
+          $near: {
+            $geometry: { type: 'Point', coordinates: requestCoordinates },
+            $maxDistance: maxDistanceKm * 1000,
+          },
+        },
+      })
+      .select('name location address profileImage')
+      .limit(MAX_CANDIDATES)
+      .exec();
+
+    if (nurses.length === 0) {
+      return [];
+    }
+
+    const profiles = await this.nurseProfileModel
+      .find({ userId: { $in: nurses.map(nurse => nurse._id) }, isAvailable: true, licenseExpiredAt: null })
+      .exec();
+
+    const start = new Date(request.scheduledDate);
+    const end = new Date(start.getTime() + (request.estimatedDuration || 1) * HOUR_MS);
+    const available = new Set(
+      (await this.nurseAvailabilityService.filterAvailable(profiles, start, end)).map(profile => String(profile.userId))
+    );
+    const nursesById = new Map(nurses.map(nurse => [String(nurse._id), nurse]));
+
+    return profiles
+      .map(profile => {
+        const nurseId = String(profile.userId);
+        const nurse = nursesById.get(nurseId)!;
+        const distanceKm = distanceInKm(nurse.location!.coordinates, requestCoordinates);
+
+        return {
+          nurse: {
+            id: nurseId,
+            name: nurse.name,
+            profileImage: nurse.profileImage,
+            address: nurse.address,
+            specializations: profile.specializations || [],
+            yearsOfExperience: profile.yearsOfExperience,
+            rating: profile.rating || 0,
+            totalReviews: profile.totalReviews || 0,
+            completedJobs: profile.completedJobs || 0,
+            hourlyRate: profile.hourlyRate,
+            languages: profile.languages || [],
+          },
+          distanceKm: Math.round(distanceKm * 10) / 10,
+          available: available.has(nurseId),
+          ...scoreMatch(request, profile, distanceKm, available.has(nurseId), maxDistanceKm),
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.distanceKm - b.distanceKm);
+  }
+
+  private async findOwnPendingRequest(requestId: string, user: UserDocument): Promise<PatientRequestDocument> {
+    const request = Types.ObjectId.isValid(requestId) ? await this.requestModel.findById(requestId).exec() : null;
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    if (user.role !== UserRole.PATIENT || String(request.patientId) !== String(user._id)) {
+      throw new ForbiddenException('You can only match nurses to your own requests');
+    }
+
+    if (request.status !== RequestStatus.PENDING) {
+      throw new BadRequestException('Only pending requests can be matched with nurses');
+    }
+
+    return request;
+  }
+
+  private invitedNurseIds(request: PatientRequestDocument): Set<string> {
+    return new Set((request.invitations || []).map(invitation => String(invitation.nurseId)));
+  }
+
+  private maxDistanceKm(): number {
+    return Number(this.configService.get('MATCHING_MAX_DISTANCE_KM')) || 30;
+  }
+}
@@ -1,13 +1,19 @@
 import { Controller, Post, Get, Patch, Put, Body, Param, Query, UseGuards, Request, ValidationPipe } from '@nestjs/common';
 import { RequestsService } from './requests.service';
+import { MatchingService } from './matching.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { CreateRequestDto, UpdateRequestStatusDto, UpdateRequestDto } from '../dto/request.dto';
+import { RolesGuard, Roles } from '../auth/roles.guard';
+import { CreateRequestDto, UpdateRequestStatusDto, UpdateRequestDto, VisitLocationDto, CheckOutDto, ReviewVisitFlagsDto, InviteNursesDto } from '../dto/request.dto';
 import { RequestStatus } from '../schemas/patient-request.schema';
+import { UserRole } from '../schemas/user.schema';
 
 @Controller('api/requests')
 @UseGuards(JwtAuthGuard)
 export class RequestsController {
-  constructor(private readonly requestsService: RequestsService) {}
+  constructor(
+    private readonly requestsService: RequestsService,
+    private readonly matchingService: MatchingService,
+  ) {}
 
   @Post()
   async createRequest(
@@ -42,11 +48,51 @@ export class RequestsController {
     return this.requestsService.getDashboardStats(req.user);
   }
 
+  @Get('flagged-visits')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async getFlaggedVisits(
+    @Query('reviewed') reviewed?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ) {
+    return this.requestsService.getFlaggedVisits(
+      reviewed === 'true',
+      Math.max(1, Number(page) || 1),
+      Math.min(100, Math.max(1, Number(limit) || 20))
+    );
+  }
+
+  @Get('recommended')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.NURSE)
+  async getRecommendedRequests(@Request() req : any, @Query('limit') limit?: string) {
+    return this.matchingService.getRecommendedRequests(req.user, Math.min(50, Math.max(1, Number(limit) || 20)));
+  }
+
   @Get(':id')
   async getRequestById(@Param('id') requestId: string, @Request() req : any) {
     return this.requestsService.getRequestById(requestId, req.user);
   }
 
+  @Get(':id/matches')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.PATIENT)
+  async getMatches(@Param('id') requestId: string, @Request() req : any, @Query('limit') limit?: string) {
+    return this.matchingService.getMatches(requestId, req.user, Math.min(50, Math.max(1, Number(limit) || 10)));
+  }
+
+  @Post(':id/invitations')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.PATIENT)
+  async inviteNurses(
+    @Param('id') requestId: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) inviteNursesDto: InviteNursesDto,
+    @Request() req : any
+  ) {
+    return this.matchingService.inviteNurses(requestId, inviteNursesDto, req.user);
+  }
+
   @Put(':id')
   async updateRequest(
     @Param('id') requestId: string,
@@ -104,4 +150,33 @@ export class RequestsController {
   ) {
     return this.requestsService.markCompletedByPatient(requestId, req.user);
   }
+
+  @Post(':id/check-in')
+  async checkIn(
+    @Param('id') requestId: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) visitLocationDto: VisitLocationDto,
+    @Request() req : any
+  ) {
+    return this.requestsService.checkIn(requestId, visitLocationDto, req.user);
+  }
+
+  @Post(':id/check-out')
+  async checkOut(
+    @Param('id') requestId: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true })) checkOutDto: CheckOutDto,
+    @Request() req : any
+  ) {
+    return this.requestsService.checkOut(requestId, checkOutDto, req.user);
+  }
+
+  @Patch(':id/visit-flags/review')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async reviewVisitFlags(
+    @Param('id') requestId: string,
+    @Body(new ValidationPipe({ whitelist: true })) reviewVisitFlagsDto: ReviewVisitFlagsDto,
+    @Request() req : any
+  ) {
+    return this.requestsService.reviewVisitFlags(requestId, reviewVisitFlagsDto, req.user);
+  }
 }
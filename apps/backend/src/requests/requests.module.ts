@@ -2,19 +2,28 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { RequestsService } from './requests.service';
 import { RequestsController } from './requests.controller';
+import { MatchingService } from './matching.service';
 import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
 import { User, UserSchema } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { Application, ApplicationSchema } from '../schemas/application.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { NursesModule } from '../nurses/nurses.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: PatientRequest.name, schema: PatientRequestSchema },
       { name: User.name, schema: UserSchema },
+      { name: NurseProfile.name, schema: NurseProfileSchema },
+      { name: Application.name, schema: ApplicationSchema },
     ]),
     NotificationsModule,
+    PaymentsModule,
+    NursesModule,
   ],
-  providers: [RequestsService],
+  providers: [RequestsService, MatchingService],
   controllers: [RequestsController],
   exports: [RequestsService],
 })
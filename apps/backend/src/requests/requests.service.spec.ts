@@ -0,0 +1,144 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RequestsService } from './requests.service';
+import { PatientRequest, RequestStatus, VisitFlag } from '../schemas/patient-request.schema';
+import { User, UserRole } from '../schemas/user.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+
+const MINUTE_MS = 60 * 1000;
+
+// Patient's address; 0.001° of latitude is about 111 m
+const HOME = { latitude: 30.0444, longitude: 31.2357 };
+
+describe('RequestsService', () => {
+  let service: RequestsService;
+  let requestModel: { findById: jest.Mock };
+  let userModel: { find: jest.Mock };
+  let notificationsService: Record<string, jest.Mock>;
+  let paymentsService: { confirmCashCollection: jest.Mock };
+
+  const nurse: any = { _id: new Types.ObjectId(), role: UserRole.NURSE, name: 'Nurse Mona' };
+  const admin = { _id: new Types.ObjectId() };
+
+  const visit = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    patientId: new Types.ObjectId(),
+    nurseId: nurse._id,
+    title: 'Wound dressing',
+    status: RequestStatus.ACCEPTED,
+    scheduledDate: new Date(Date.now() - 5 * MINUTE_MS),
+    location: { type: 'Point', coordinates: [HOME.longitude, HOME.latitude] },
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    requestModel = { findById: jest.fn() };
+    userModel = { find: jest.fn().mockReturnValue({ select: () => ({ exec: async () => [admin] }) }) };
+    notificationsService = {
+      notifyVisitCheckedIn: jest.fn().mockResolvedValue(undefined),
+      notifyVisitCheckedOut: jest.fn().mockResolvedValue(undefined),
+      notifyVisitFlagged: jest.fn().mockResolvedValue(undefined),
+    };
+    paymentsService = { confirmCashCollection: jest.fn().mockResolvedValue(undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RequestsService,
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: PaymentsService, useValue: paymentsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RequestsService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const load = (request: any) => requestModel.findById.mockReturnValue({ exec: async () => request });
+
+  describe('checkIn', () => {
+    it('starts the visit when the nurse is at the address on time', async () => {
+      const request = visit();
+      load(request);
+
+      const result = await service.checkIn('id', { ...HOME }, nurse);
+
+      expect(result.flags).toEqual([]);
+      expect(request.status).toBe(RequestStatus.IN_PROGRESS);
+      expect(request.checkIn.withinGeofence).toBe(true);
+      expect(notificationsService.notifyVisitFlagged).not.toHaveBeenCalled();
+    });
+
+    it('flags late and out-of-area check-ins and tells the admins', async () => {
+      load(visit({ scheduledDate: new Date(Date.now() - 40 * MINUTE_MS) }));
+
+      const result = await service.checkIn('id', { latitude: HOME.latitude + 0.01, longitude: HOME.longitude }, nurse);
+
+      expect(result.flags).toEqual([VisitFlag.LATE_CHECK_IN, VisitFlag.OUT_OF_AREA_CHECK_IN]);
+      expect(result.checkIn!.distanceMeters).toBeGreaterThan(1000);
+      expect(notificationsService.notifyVisitFlagged).toHaveBeenCalledWith(String(admin._id), expect.any(String), 'Wound dressing', result.flags);
+    });
+
+    it('gives poor GPS fixes the benefit of their accuracy', async () => {
+      // About 333 m away with a 200 m radius, but the fix is only good to 150 m
+      load(visit());
+
+      const result = await service.checkIn('id', { latitude: HOME.latitude + 0.003, longitude: HOME.longitude, accuracy: 150 }, nurse);
+
+      expect(result.flags).toEqual([]);
+    });
+
+    it('does not open check-in more than an hour early', async () => {
+      load(visit({ scheduledDate: new Date(Date.now() + 2 * 60 * MINUTE_MS) }));
+
+      await expect(service.checkIn('id', { ...HOME }, nurse)).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('only lets the assigned nurse check in', async () => {
+      load(visit());
+
+      await expect(service.checkIn('id', { ...HOME }, { ...nurse, _id: new Types.ObjectId() })).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('checkOut', () => {
+    it('records the time spent on site', async () => {
+      const request = visit({
+        status: RequestStatus.IN_PROGRESS,
+        checkIn: { at: new Date(Date.now() - 95 * MINUTE_MS), withinGeofence: true },
+      });
+      load(request);
+
+      const result = await service.checkOut('id', { ...HOME }, nurse);
+
+      expect(result.timeOnSiteMinutes).toBe(95);
+      expect(request.timeOnSiteMinutes).toBe(95);
+      expect(result.flags).toEqual([]);
+    });
+
+    it('needs a check-in first', async () => {
+      load(visit());
+
+      await expect(service.checkOut('id', { ...HOME }, nurse)).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('still checks out when recording the cash collection fails', async () => {
+      load(visit({ status: RequestStatus.IN_PROGRESS, checkIn: { at: new Date(), withinGeofence: true } }));
+      paymentsService.confirmCashCollection.mockRejectedValue(new Error('No cash payment'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await service.checkOut('id', { ...HOME, cashCollected: true }, nurse);
+
+      expect(result.cashCollected).toBe(false);
+      expect(result.message).toBe('Checked out successfully');
+    });
+  });
+});
@@ -1,10 +1,15 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
-import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus, VisitCheckpoint, VisitFlag } from '../schemas/patient-request.schema';
 import { User, UserDocument, UserRole } from '../schemas/user.schema';
-import { CreateRequestDto, UpdateRequestStatusDto, UpdateRequestDto } from '../dto/request.dto';
+import { CreateRequestDto, UpdateRequestStatusDto, UpdateRequestDto, VisitLocationDto, CheckOutDto, ReviewVisitFlagsDto } from '../dto/request.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+
+// Nurses can check in this long before the scheduled start
+const CHECK_IN_OPENS_MINUTES = 60;
 
 @Injectable()
 export class RequestsService {
@@ -12,6 +17,8 @@ export class RequestsService {
     @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private notificationsService: NotificationsService,
+    private configService: ConfigService,
+    private paymentsService: PaymentsService,
   ) {}
 
   /**
@@ -69,9 +76,12 @@ export class RequestsService {
       estimatedDuration: savedRequest.estimatedDuration,
       urgencyLevel: savedRequest.urgencyLevel,
       specialRequirements: savedRequest.specialRequirements,
+      requiredSpecialization: savedRequest.requiredSpecialization,
+      preferredLanguages: savedRequest.preferredLanguages,
       budget: savedRequest.budget,
       contactPhone: savedRequest.contactPhone,
       notes: savedRequest.notes,
+      paymentProvider: savedRequest.paymentProvider,
       createdAt: savedRequest.createdAt || new Date(),
       patient: {
         id: (savedRequest.patientId as any)._id,
@@ -124,6 +134,8 @@ export class RequestsService {
       estimatedDuration: request.estimatedDuration,
       urgencyLevel: request.urgencyLevel,
       specialRequirements: request.specialRequirements,
+      requiredSpecialization: request.requiredSpecialization,
+      preferredLanguages: request.preferredLanguages,
       budget: request.budget,
       contactPhone: request.contactPhone,
       notes: request.notes,
@@ -166,7 +178,8 @@ export class RequestsService {
     const canView =
       user.role === UserRole.ADMIN ||
       this.compareObjectIds((request.patientId as any)?._id || request.patientId, user._id) ||
-      (request.nurseId && this.compareObjectIds((request.nurseId as any)?._id || request.nurseId, user._id));
+      (request.nurseId && this.compareObjectIds((request.nurseId as any)?._id || request.nurseId, user._id)) ||
+      (request.invitations || []).some(invitation => this.compareObjectIds(invitation.nurseId, user._id));
 
     console.log('🔍 Can view:', canView);
 
@@ -186,6 +199,8 @@ export class RequestsService {
       estimatedDuration: request.estimatedDuration,
       urgencyLevel: request.urgencyLevel,
       specialRequirements: request.specialRequirements,
+      requiredSpecialization: request.requiredSpecialization,
+      preferredLanguages: request.preferredLanguages,
       budget: request.budget,
       contactPhone: request.contactPhone,
       notes: request.notes,
@@ -208,6 +223,13 @@ export class RequestsService {
       completedAt: request.completedAt,
       cancelledAt: request.cancelledAt,
       cancellationReason: request.cancellationReason,
+      cancellationRefundAmount: request.cancellationRefundAmount,
+      cancellationNurseCompensation: request.cancellationNurseCompensation,
+      checkIn: request.checkIn,
+      checkOut: request.checkOut,
+      timeOnSiteMinutes: request.timeOnSiteMinutes,
+      paymentProvider: request.paymentProvider,
+      paymentStatus: request.paymentStatus,
     };
   }
 
@@ -255,6 +277,9 @@ export class RequestsService {
     if (updateRequestDto.specialRequirements !== undefined) {
       updateData.specialRequirements = updateRequestDto.specialRequirements;
     }
+    if (updateRequestDto.preferredLanguages !== undefined) {
+      updateData.preferredLanguages = updateRequestDto.preferredLanguages;
+    }
     if (updateRequestDto.budget !== undefined) {
       updateData.budget = updateRequestDto.budget;
     }
@@ -305,6 +330,8 @@ export class RequestsService {
         estimatedDuration: updatedRequest.estimatedDuration,
         urgencyLevel: updatedRequest.urgencyLevel,
         specialRequirements: updatedRequest.specialRequirements,
+        requiredSpecialization: updatedRequest.requiredSpecialization,
+        preferredLanguages: updatedRequest.preferredLanguages,
         budget: updatedRequest.budget,
         contactPhone: updatedRequest.contactPhone,
         notes: updatedRequest.notes,
@@ -361,8 +388,12 @@ export class RequestsService {
       } else {
         throw new ForbiddenException('Only the patient or an admin can cancel requests');
       }
+      if (request.status === RequestStatus.COMPLETED || request.status === RequestStatus.CANCELLED) {
+        throw new BadRequestException('Completed or cancelled requests cannot be cancelled');
+      }
       request.cancelledAt = new Date();
       request.cancellationReason = cancellationReason || 'Cancelled by admin';
+      request.cancelledBy = user._id as any;
     } else if (status === RequestStatus.IN_PROGRESS) {
       if (user.role !== UserRole.NURSE || !this.compareObjectIds((request.nurseId as any)?._id || request.nurseId, user._id)) {
         throw new ForbiddenException('Only the assigned nurse can start requests');
@@ -378,6 +409,33 @@ export class RequestsService {
     request.status = status;
     await request.save();
 
+    if (status === RequestStatus.CANCELLED) {
+      try {
+        const settlement = await this.paymentsService.settleCancellation(
+          String(request._id), user.role!, request.cancellationReason || 'Request cancelled'
+        );
+        if (settlement) {
+          request.cancellationRefundAmount = settlement.refundAmount;
+          request.cancellationNurseCompensation = settlement.nurseCompensation;
+          await request.save();
+        }
+      } catch (paymentError) {
+        console.error('Failed to settle payment for cancelled request:', paymentError);
+        // Don't fail the cancellation if the payment cannot be settled; holds lapse on their own
+      }
+
+      if (request.nurseId) {
+        try {
+          await this.notificationsService.notifyRequestCancelled(
+            String(request.nurseId), String(request._id), request.title, request.cancellationReason || 'Request cancelled'
+          );
+        } catch (notificationError) {
+          console.error('Failed to send cancellation notification:', notificationError);
+          // Don't fail the cancellation if notification fails
+        }
+      }
+    }
+
     return {
       message: 'Request status updated successfully',
       request: {
@@ -386,6 +444,8 @@ export class RequestsService {
         acceptedAt: request.acceptedAt,
         completedAt: request.completedAt,
         cancelledAt: request.cancelledAt,
+        cancellationRefundAmount: request.cancellationRefundAmount,
+        cancellationNurseCompensation: request.cancellationNurseCompensation,
       },
     };
   }
@@ -525,6 +585,10 @@ export class RequestsService {
 
     await request.save();
 
+    if (request.status === RequestStatus.COMPLETED) {
+      await this.captureHeldPayment(request);
+    }
+
     return {
       success: true,
       message: 'Request marked as completed by nurse',
@@ -588,10 +652,269 @@ export class RequestsService {
 
     await request.save();
 
+    if (request.status === RequestStatus.COMPLETED) {
+      await this.captureHeldPayment(request);
+    }
+
     return {
       success: true,
       message: 'Request marked as completed by patient',
       request: request
     };
   }
+
+  async checkIn(requestId: string, visitLocationDto: VisitLocationDto, user: UserDocument) {
+    const request = await this.findVisitForNurse(requestId, user);
+
+    if (request.status !== RequestStatus.ACCEPTED && request.status !== RequestStatus.IN_PROGRESS) {
+      throw new BadRequestException('Only accepted visits can be checked in to');
+    }
+    if (request.checkIn) {
+      throw new BadRequestException('You have already checked in to this visit');
+    }
+
+    const now = new Date();
+    const opensAt = new Date(request.scheduledDate.getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000);
+    if (now < opensAt) {
+      throw new BadRequestException(`Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the scheduled time`);
+    }
+
+    const checkpoint = this.buildCheckpoint(request, visitLocationDto, now);
+    const flags: VisitFlag[] = [];
+
+    const lateAfter = new Date(request.scheduledDate.getTime() + this.lateCheckInMinutes() * 60 * 1000);
+    if (now > lateAfter) {
+      flags.push(VisitFlag.LATE_CHECK_IN);
+    }
+    if (!checkpoint.withinGeofence) {
+      flags.push(VisitFlag.OUT_OF_AREA_CHECK_IN);
+    }
+
+    request.checkIn = checkpoint;
+    request.status = RequestStatus.IN_PROGRESS;
+    request.visitFlags = [...(request.visitFlags || []), ...flags];
+    await request.save();
+
+    try {
+      await this.notificationsService.notifyVisitCheckedIn(
+        String(request.patientId),
+        user.name || 'Your nurse',
+        String(request._id),
+        request.title
+      );
+    } catch (notificationError) {
+      console.error('Failed to send check-in notification:', notificationError);
+      // Don't fail the check-in if notification fails
+    }
+
+    await this.notifyAdminsOfFlags(request, flags);
+
+    return {
+      message: 'Checked in successfully',
+      checkIn: request.checkIn,
+      flags,
+    };
+  }
+
+  async checkOut(requestId: string, checkOutDto: CheckOutDto, user: UserDocument) {
+    const request = await this.findVisitForNurse(requestId, user);
+
+    if (!request.checkIn) {
+      throw new BadRequestException('You need to check in before checking out');
+    }
+    if (request.checkOut) {
+      throw new BadRequestException('You have already checked out of this visit');
+    }
+
+    const now = new Date();
+    const checkpoint = this.buildCheckpoint(request, checkOutDto, now);
+    const flags: VisitFlag[] = checkpoint.withinGeofence ? [] : [VisitFlag.OUT_OF_AREA_CHECK_OUT];
+
+    request.checkOut = checkpoint;
+    request.timeOnSiteMinutes = Math.max(0, Math.round((now.getTime() - request.checkIn.at.getTime()) / 60000));
+    request.visitFlags = [...(request.visitFlags || []), ...flags];
+    await request.save();
+
+    try {
+      await this.notificationsService.notifyVisitCheckedOut(
+        String(request.patientId),
+        String(request._id),
+        request.title,
+        request.timeOnSiteMinutes
+      );
+    } catch (notificationError) {
+      console.error('Failed to send check-out notification:', notificationError);
+      // Don't fail the check-out if notification fails
+    }
+
+    await this.notifyAdminsOfFlags(request, flags);
+
+    let cashCollected = false;
+    if (checkOutDto.cashCollected) {
+      try {
+        await this.paymentsService.confirmCashCollection(String(request._id), user);
+        cashCollected = true;
+      } catch (paymentError) {
+        console.error('Failed to record cash collection at check-out:', paymentError);
+        // Don't fail the check-out; the nurse can confirm the collection from the payment card
+      }
+    }
+
+    return {
+      message: 'Checked out successfully',
+      checkOut: request.checkOut,
+      timeOnSiteMinutes: request.timeOnSiteMinutes,
+      flags,
+      cashCollected,
+    };
+  }
+
+  async getFlaggedVisits(reviewed = false, page = 1, limit = 20) {
+    const query: any = {
+      'visitFlags.0': { $exists: true },
+      visitFlagsReviewedAt: { $exists: reviewed },
+    };
+
+    const [visits, total] = await Promise.all([
+      this.requestModel
+        .find(query)
+        .populate('patientId', 'name email phone')
+        .populate('nurseId', 'name email phone')
+        .sort({ 'checkIn.at': -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.requestModel.countDocuments(query).exec(),
+    ]);
+
+    return {
+      visits: visits.map(visit => ({
+        id: visit._id,
+        title: visit.title,
+        address: visit.address,
+        status: visit.status,
+        scheduledDate: visit.scheduledDate,
+        checkIn: visit.checkIn,
+        checkOut: visit.checkOut,
+        timeOnSiteMinutes: visit.timeOnSiteMinutes,
+        visitFlags: visit.visitFlags,
+        visitFlagsReviewedAt: visit.visitFlagsReviewedAt,
+        visitFlagsReviewNote: visit.visitFlagsReviewNote,
+        patient: visit.patientId ? { id: (visit.patientId as any)._id, name: (visit.patientId as any).name } : null,
+        nurse: visit.nurseId ? {
+          id: (visit.nurseId as any)._id,
+          name: (visit.nurseId as any).name,
+          phone: (visit.nurseId as any).phone,
+        } : null,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async reviewVisitFlags(requestId: string, reviewVisitFlagsDto: ReviewVisitFlagsDto, adminUser: UserDocument) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+    if (!request.visitFlags || request.visitFlags.length === 0) {
+      throw new BadRequestException('This visit has no flags to review');
+    }
+
+    request.visitFlagsReviewedAt = new Date();
+    request.visitFlagsReviewedBy = adminUser._id as any;
+    request.visitFlagsReviewNote = reviewVisitFlagsDto.note;
+    await request.save();
+
+    return {
+      message: 'Visit flags reviewed',
+      id: request._id,
+      visitFlags: request.visitFlags,
+      visitFlagsReviewedAt: request.visitFlagsReviewedAt,
+      visitFlagsReviewNote: request.visitFlagsReviewNote,
+    };
+  }
+
+  private async findVisitForNurse(requestId: string, user: UserDocument): Promise<PatientRequestDocument> {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    if (user.role !== UserRole.NURSE || !this.compareObjectIds(request.nurseId, user._id)) {
+      throw new ForbiddenException('Only the assigned nurse can check in or out of a visit');
+    }
+
+    return request;
+  }
+
+  private buildCheckpoint(request: PatientRequestDocument, visitLocationDto: VisitLocationDto, at: Date): VisitCheckpoint {
+    const { latitude, longitude, accuracy } = visitLocationDto;
+    const [requestLongitude, requestLatitude] = request.location.coordinates;
+    const distanceMeters = Math.round(this.distanceInMeters(latitude, longitude, requestLatitude, requestLongitude));
+
+    // Give poor GPS fixes some benefit of the doubt, but never more than the radius itself
+    const radius = this.geofenceRadiusMeters();
+    const tolerance = Math.min(accuracy || 0, radius);
+
+    return {
+      at,
+      coordinates: [longitude, latitude],
+      accuracy,
+      distanceMeters,
+      withinGeofence: distanceMeters <= radius + tolerance,
+    };
+  }
+
+  private async notifyAdminsOfFlags(request: PatientRequestDocument, flags: VisitFlag[]) {
+    if (flags.length === 0) {
+      return;
+    }
+
+    try {
+      const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').exec();
+      await Promise.all(admins.map(admin =>
+        this.notificationsService.notifyVisitFlagged(String(admin._id), String(request._id), request.title, flags)
+      ));
+    } catch (notificationError) {
+      console.error('Failed to notify admins about flagged visit:', notificationError);
+      // Don't fail the check-in if notification fails
+    }
+  }
+
+  // Both sides confirmed the visit, so the escrowed funds can go to the nurse
+  private async captureHeldPayment(request: PatientRequestDocument) {
+    try {
+      await this.paymentsService.captureForRequest(String(request._id));
+    } catch (paymentError) {
+      console.error('Failed to capture payment for completed request:', paymentError);
+      // Don't fail the completion if capture fails; the escrow scheduler retries it
+    }
+  }
+
+  private geofenceRadiusMeters(): number {
+    return Number(this.configService.get('VISIT_GEOFENCE_RADIUS_METERS')) || 200;
+  }
+
+  private lateCheckInMinutes(): number {
+    const minutes = Number(this.configService.get('VISIT_LATE_CHECK_IN_MINUTES'));
+    return Number.isFinite(minutes) ? minutes : 15;
+  }
+
+  /**
+   * Great-circle distance between two points (haversine formula)
+   */
+  private distanceInMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const earthRadius = 6371000;
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * earthRadius * Math.asin(Math.sqrt(a));
+  }
 }
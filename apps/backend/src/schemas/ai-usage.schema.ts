@@ -0,0 +1,36 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AiUsageDocument = AiUsage & Document;
+
+// Tokens one user spent on the assistant during one UTC day
+@Schema({ timestamps: true })
+export class AiUsage {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId!: Types.ObjectId;
+
+  // YYYY-MM-DD, UTC
+  @Prop({ required: true })
+  day!: string;
+
+  // Messages the user sent; one message can take several model calls when tools are used
+  @Prop({ default: 0 })
+  messages!: number;
+
+  @Prop({ default: 0 })
+  promptTokens!: number;
+
+  @Prop({ default: 0 })
+  completionTokens!: number;
+
+  @Prop({ default: 0 })
+  totalTokens!: number;
+
+  // Total tokens per provider name, to see what the local model saved
+  @Prop({ type: Object, default: {} })
+  tokensByProvider!: Record<string, number>;
+}
+
+export const AiUsageSchema = SchemaFactory.createForClass(AiUsage);
+
+AiUsageSchema.index({ userId: 1, day: 1 }, { unique: true });
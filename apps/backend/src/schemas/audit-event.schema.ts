@@ -0,0 +1,135 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type AuditEventDocument = AuditEvent & Document;
+
+export enum AuditTargetType {
+  USER = 'user',
+  NURSE = 'nurse',
+  PAYMENT = 'payment',
+  WALLET = 'wallet',
+  WITHDRAWAL = 'withdrawal',
+  CANCELLATION_POLICY = 'cancellation_policy',
+  MODERATION_RULE = 'moderation_rule',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+@Schema({ _id: false })
+export class AuditChange {
+  @Prop({ required: true })
+  path!: string;
+
+  @Prop({ type: Object })
+  before?: any;
+
+  @Prop({ type: Object })
+  after?: any;
+}
+
+export const AuditChangeSchema = SchemaFactory.createForClass(AuditChange);
+
+// One admin or sensitive action. Events are only ever inserted; see the hooks below
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditEvent {
+  @ApiProperty({
+    description: 'User who performed the action; empty when the route had no authenticated user',
+    example: '507f1f77bcf86cd799439012',
+    required: false
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actorId?: Types.ObjectId;
+
+  @ApiProperty({ description: 'Name of the actor at the time of the action', example: 'Admin User', required: false })
+  @Prop()
+  actorName?: string;
+
+  @ApiProperty({ description: 'Role of the actor at the time of the action', example: 'admin', required: false })
+  @Prop()
+  actorRole?: string;
+
+  @ApiProperty({ description: 'What was done', example: 'user.suspend' })
+  @Prop({ required: true })
+  action!: string;
+
+  @ApiProperty({ description: 'Kind of record the action was applied to', enum: AuditTargetType })
+  @Prop({ type: String, enum: AuditTargetType, required: true })
+  targetType!: AuditTargetType;
+
+  @ApiProperty({ description: 'ID of the record the action was applied to', example: '507f1f77bcf86cd799439011', required: false })
+  @Prop()
+  targetId?: string;
+
+  @ApiProperty({ description: 'Whether the action went through', enum: AuditOutcome })
+  @Prop({ type: String, enum: AuditOutcome, required: true })
+  outcome!: AuditOutcome;
+
+  @ApiProperty({ description: 'Error message when the action failed', required: false })
+  @Prop()
+  error?: string;
+
+  @ApiProperty({ description: 'Target before the action, with secrets redacted', required: false })
+  @Prop({ type: Object })
+  before?: Record<string, any>;
+
+  @ApiProperty({ description: 'Target after the action, with secrets redacted', required: false })
+  @Prop({ type: Object })
+  after?: Record<string, any>;
+
+  @ApiProperty({ description: 'Fields that differ between before and after', type: [AuditChange] })
+  @Prop({ type: [AuditChangeSchema], default: [] })
+  changes?: AuditChange[];
+
+  @ApiProperty({ description: 'Request body, with secrets redacted', required: false })
+  @Prop({ type: Object })
+  payload?: Record<string, any>;
+
+  @ApiProperty({ description: 'HTTP method and path of the request', example: 'PATCH /api/users/507f1f77bcf86cd799439011/suspend', required: false })
+  @Prop()
+  request?: string;
+
+  @ApiProperty({ description: 'Client IP address', example: '203.0.113.7', required: false })
+  @Prop()
+  ip?: string;
+
+  @ApiProperty({ description: 'Client user agent', required: false })
+  @Prop()
+  userAgent?: string;
+
+  createdAt?: Date;
+}
+
+export const AuditEventSchema = SchemaFactory.createForClass(AuditEvent);
+
+AuditEventSchema.index({ createdAt: -1 });
+AuditEventSchema.index({ actorId: 1, createdAt: -1 });
+AuditEventSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+AuditEventSchema.index({ action: 1, createdAt: -1 });
+
+// The log is append-only: refuse every query that would change or remove events
+const MUTATING_QUERIES = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+] as const;
+
+for (const query of MUTATING_QUERIES) {
+  AuditEventSchema.pre(query, function () {
+    throw new Error('Audit events are append-only');
+  });
+}
+
+AuditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    throw new Error('Audit events are append-only');
+  }
+});
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AuthTokenDocument = AuthToken & Document;
+
+export enum AuthTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+}
+
+// Server-side record of a signed single-use token; the token itself is never stored
+@Schema({ timestamps: true })
+export class AuthToken {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: AuthTokenPurpose, required: true })
+  purpose?: AuthTokenPurpose;
+
+  // Matches the `jti` claim of the signed token
+  @Prop({ required: true, unique: true })
+  jti?: string;
+
+  @Prop({ type: Date, required: true })
+  expiresAt?: Date;
+
+  @Prop({ type: Date })
+  usedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const AuthTokenSchema = SchemaFactory.createForClass(AuthToken);
+
+AuthTokenSchema.index({ userId: 1, purpose: 1, createdAt: -1 });
+// Let MongoDB clean up records once the token can no longer be redeemed
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,58 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { UserRole } from './user.schema';
+
+export type CancellationPolicyDocument = CancellationPolicy & Document;
+
+// Outcome of cancelling at least `minHoursBefore` hours before the scheduled visit
+@Schema({ _id: false })
+export class CancellationTier {
+  @Prop({ required: true, min: 0 })
+  minHoursBefore!: number;
+
+  // Share of the paid amount that goes back to the patient
+  @Prop({ required: true, min: 0, max: 100 })
+  refundPercent!: number;
+
+  // Share of the paid amount the assigned nurse keeps for the lost visit
+  @Prop({ default: 0, min: 0, max: 100 })
+  nurseCompensationPercent!: number;
+}
+
+export const CancellationTierSchema = SchemaFactory.createForClass(CancellationTier);
+
+/**
+ * Decides how much of a visit payment is refunded when a request is
+ * cancelled after a nurse was assigned. Whatever is neither refunded nor paid
+ * to the nurse stays with the platform.
+ */
+@Schema({ timestamps: true })
+export class CancellationPolicy {
+  @Prop({ required: true, maxlength: 100 })
+  name!: string;
+
+  // Role of whoever cancels the request
+  @Prop({ type: String, enum: [UserRole.PATIENT, UserRole.ADMIN], required: true })
+  cancelledBy!: UserRole;
+
+  // Urgency levels the policy is limited to; empty applies to all of them
+  @Prop({ type: [String], default: [] })
+  urgencyLevels!: string[];
+
+  // Sorted from the longest notice to the shortest
+  @Prop({ type: [CancellationTierSchema], required: true })
+  tiers!: CancellationTier[];
+
+  @Prop({ default: true })
+  isActive!: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CancellationPolicySchema = SchemaFactory.createForClass(CancellationPolicy);
+
+CancellationPolicySchema.index({ cancelledBy: 1, isActive: 1 });
@@ -0,0 +1,123 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ServiceType } from './patient-request.schema';
+import { RecurrenceFrequency } from '../care-plans/recurrence';
+
+export type CarePlanDocument = CarePlan & Document;
+
+export enum CarePlanStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  ENDED = 'ended',
+}
+
+@Schema({ timestamps: true })
+export class CarePlan {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  patientId!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  preferredNurseId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  title!: string;
+
+  @Prop({ required: true })
+  description!: string;
+
+  @Prop({ required: true, enum: ServiceType })
+  serviceType!: ServiceType;
+
+  @Prop({ default: CarePlanStatus.ACTIVE, enum: CarePlanStatus })
+  status!: CarePlanStatus;
+
+  @Prop({
+    type: {
+      frequency: { type: String, enum: RecurrenceFrequency, required: true },
+      rrule: { type: String },
+    },
+    _id: false,
+    required: true,
+  })
+  recurrence!: {
+    frequency: RecurrenceFrequency;
+    rrule?: string;
+  };
+
+  // Calendar dates (YYYY-MM-DD) in the plan's time zone
+  @Prop({ required: true })
+  startDate!: string;
+
+  @Prop()
+  endDate?: string;
+
+  // Local start time of every visit (HH:mm)
+  @Prop({ required: true })
+  visitTime!: string;
+
+  @Prop({ default: 'Africa/Cairo' })
+  timezone!: string;
+
+  @Prop({ required: true })
+  estimatedDuration!: number; // in hours
+
+  @Prop({
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point',
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+    },
+  })
+  location!: {
+    type: string;
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+
+  @Prop({ required: true })
+  address!: string;
+
+  @Prop()
+  urgencyLevel?: string;
+
+  @Prop()
+  specialRequirements?: string;
+
+  @Prop()
+  budget?: number; // per visit
+
+  @Prop()
+  contactPhone?: string;
+
+  @Prop()
+  notes?: string;
+
+  // How many days ahead visits are generated
+  @Prop({ default: 14 })
+  lookaheadDays!: number;
+
+  @Prop({ type: [String], default: [] })
+  skippedDates!: string[];
+
+  // Visits have been generated up to and including this date
+  @Prop()
+  generatedUntil?: string;
+
+  @Prop()
+  pausedAt?: Date;
+
+  @Prop()
+  endedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CarePlanSchema = SchemaFactory.createForClass(CarePlan);
+
+CarePlanSchema.index({ patientId: 1, status: 1 });
+CarePlanSchema.index({ preferredNurseId: 1, status: 1 });
+CarePlanSchema.index({ status: 1, generatedUntil: 1 });
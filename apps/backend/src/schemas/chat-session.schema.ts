@@ -0,0 +1,101 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ChatSessionDocument = ChatSession & Document;
+
+export enum ChatRole {
+  USER = 'user',
+  ASSISTANT = 'assistant',
+  TOOL = 'tool',
+}
+
+export enum RequestDraftStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  DISCARDED = 'discarded',
+}
+
+// A function the assistant asked the platform to run on the user's behalf
+@Schema({ _id: false })
+export class ChatToolCall {
+  @Prop({ required: true })
+  id!: string;
+
+  @Prop({ required: true })
+  name!: string;
+
+  // JSON encoded, exactly as the model produced it
+  @Prop({ default: '{}' })
+  arguments!: string;
+}
+
+export const ChatToolCallSchema = SchemaFactory.createForClass(ChatToolCall);
+
+@Schema({ _id: false })
+export class ChatTurn {
+  @Prop({ required: true, enum: ChatRole })
+  role!: ChatRole;
+
+  @Prop({ default: '' })
+  content!: string;
+
+  @Prop({ type: [ChatToolCallSchema], default: undefined })
+  toolCalls?: ChatToolCall[];
+
+  // Set on tool turns: which call this is the result of
+  @Prop()
+  toolCallId?: string;
+
+  @Prop()
+  toolName?: string;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt!: Date;
+}
+
+export const ChatTurnSchema = SchemaFactory.createForClass(ChatTurn);
+
+// A request the assistant prepared; nothing is created until the patient confirms it
+@Schema({ _id: false })
+export class RequestDraft {
+  // Partial CreateRequestDto
+  @Prop({ type: Object, required: true })
+  fields!: Record<string, any>;
+
+  // Required fields the assistant could not fill in yet
+  @Prop({ type: [String], default: [] })
+  missingFields!: string[];
+
+  @Prop({ required: true, enum: RequestDraftStatus, default: RequestDraftStatus.PENDING })
+  status!: RequestDraftStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'PatientRequest' })
+  requestId?: Types.ObjectId;
+
+  @Prop({ type: Date, default: Date.now })
+  updatedAt!: Date;
+}
+
+export const RequestDraftSchema = SchemaFactory.createForClass(RequestDraft);
+
+@Schema({ timestamps: true })
+export class ChatSession {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId!: Types.ObjectId;
+
+  @Prop({ default: 'New conversation', maxlength: 100 })
+  title!: string;
+
+  @Prop({ type: [ChatTurnSchema], default: [] })
+  messages!: ChatTurn[];
+
+  @Prop({ type: RequestDraftSchema })
+  requestDraft?: RequestDraft;
+
+  @Prop({ type: Date, default: Date.now })
+  lastMessageAt!: Date;
+}
+
+export const ChatSessionSchema = SchemaFactory.createForClass(ChatSession);
+
+ChatSessionSchema.index({ userId: 1, lastMessageAt: -1 });
@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PaymentProviderName } from './payment.schema';
+import { ServiceType } from './patient-request.schema';
+
+export type InvoiceDocument = Invoice & Document;
+export type InvoiceCounterDocument = InvoiceCounter & Document;
+
+/**
+ * Invoice and receipt for a completed visit payment. The visit details are
+ * copied in when the invoice is issued, so later edits to the request or the
+ * nurse profile never change a document the patient already filed.
+ */
+@Schema({ timestamps: true })
+export class Invoice {
+  // Sequential per calendar year, e.g. "INV-2026-000123"
+  @Prop({ required: true })
+  number!: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment', required: true })
+  paymentId!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  patientId!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  nurseId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'PatientRequest', required: true })
+  requestId!: Types.ObjectId;
+
+  @Prop({ required: true })
+  issuedAt!: Date;
+
+  // When the payment went through; statements are grouped by this date
+  @Prop({ required: true })
+  paidAt!: Date;
+
+  @Prop({ required: true })
+  patientName!: string;
+
+  @Prop()
+  nurseName?: string;
+
+  @Prop({ required: true })
+  requestTitle!: string;
+
+  @Prop({ type: String, enum: ServiceType, required: true })
+  serviceType!: ServiceType;
+
+  @Prop()
+  visitDate?: Date;
+
+  // Time on site when the visit was checked out, otherwise the booked duration
+  @Prop()
+  durationMinutes?: number;
+
+  // Amounts are in the smallest currency unit
+  @Prop({ required: true, min: 0 })
+  amount!: number;
+
+  @Prop({ default: 0, min: 0 })
+  platformFee!: number;
+
+  @Prop({ default: 'egp' })
+  currency!: string;
+
+  @Prop({ type: String, enum: PaymentProviderName, default: PaymentProviderName.STRIPE })
+  paymentProvider!: PaymentProviderName;
+
+  @Prop({ default: 0, min: 0 })
+  refundedAmount!: number;
+
+  @Prop()
+  refundedAt?: Date;
+
+  // Set once the receipt email went out, so completing a payment twice never emails twice
+  @Prop()
+  emailedAt?: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
+
+InvoiceSchema.index({ number: 1 }, { unique: true });
+InvoiceSchema.index({ paymentId: 1 }, { unique: true });
+InvoiceSchema.index({ patientId: 1, paidAt: -1 });
+
+// Last invoice number handed out in a year
+@Schema()
+export class InvoiceCounter {
+  @Prop({ required: true })
+  year!: number;
+
+  @Prop({ default: 0 })
+  seq!: number;
+}
+
+export const InvoiceCounterSchema = SchemaFactory.createForClass(InvoiceCounter);
+
+InvoiceCounterSchema.index({ year: 1 }, { unique: true });
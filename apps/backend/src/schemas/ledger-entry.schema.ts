@@ -0,0 +1,87 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PaymentType } from './payment.schema';
+
+export type LedgerEntryDocument = LedgerEntry & Document;
+
+/**
+ * Accounts of the double-entry ledger. Nurse accounts are kept per nurse
+ * (nurseId is set on their entries); the others are platform-wide.
+ */
+export enum LedgerAccount {
+  PATIENT_FUNDS = 'patient_funds', // money collected from patients
+  NURSE_EARNINGS = 'nurse_earnings', // what the platform owes a nurse
+  NURSE_WITHDRAWALS = 'nurse_withdrawals', // earnings reserved for a requested withdrawal
+  PAYOUTS = 'payouts', // money paid out to nurses
+  PLATFORM_REVENUE = 'platform_revenue',
+  PLATFORM_EXPENSES = 'platform_expenses', // bonuses paid by the platform
+}
+
+export enum LedgerDirection {
+  DEBIT = 'debit',
+  CREDIT = 'credit',
+}
+
+/**
+ * One line of a ledger transaction. All lines sharing a transactionId are
+ * written together and their debits and credits always balance.
+ */
+@Schema({ timestamps: true })
+export class LedgerEntry {
+  // Deterministic key of the business event (e.g. "payment:<id>:capture"), so posting twice is a no-op
+  @Prop({ required: true })
+  transactionId!: string;
+
+  @Prop({ required: true })
+  line!: number;
+
+  @Prop({ type: String, enum: LedgerAccount, required: true })
+  account!: LedgerAccount;
+
+  @Prop({ type: String, enum: LedgerDirection, required: true })
+  direction!: LedgerDirection;
+
+  // Smallest currency unit, always positive; direction gives the sign
+  @Prop({ required: true, min: 1 })
+  amount!: number;
+
+  @Prop({ default: 'egp' })
+  currency!: string;
+
+  @Prop({ type: String, enum: PaymentType, required: true })
+  entryType!: PaymentType;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  nurseId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  paymentId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'PatientRequest' })
+  requestId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Withdrawal' })
+  withdrawalId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  description!: string;
+
+  // Nurse earnings credited before this date are still pending (not withdrawable)
+  @Prop({ required: true })
+  availableAt!: Date;
+
+  @Prop({ required: true })
+  postedAt!: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  postedBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const LedgerEntrySchema = SchemaFactory.createForClass(LedgerEntry);
+
+LedgerEntrySchema.index({ transactionId: 1, line: 1 }, { unique: true });
+LedgerEntrySchema.index({ nurseId: 1, account: 1, postedAt: -1 });
+LedgerEntrySchema.index({ paymentId: 1 });
@@ -29,10 +29,16 @@ export class Message {
   conversationId?: Types.ObjectId;
 
   @ApiProperty({
-    description: 'ID of the user who sent the message',
+    description: 'ID of the user who sent the message (not set on system messages)',
     example: '507f1f77bcf86cd799439012'
   })
-  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'User',
+    required: function (this: Message) {
+      return this.type !== MessageType.SYSTEM;
+    },
+  })
   senderId?: Types.ObjectId;
 
   @ApiProperty({
@@ -68,6 +74,17 @@ export class Message {
     mimeType: string;
   };
 
+  @ApiProperty({
+    description: 'Shared location (for location messages)',
+    example: { latitude: 30.033333, longitude: 31.233334, address: '15 Tahrir St, Cairo' }
+  })
+  @Prop({ type: Object })
+  location?: {
+    latitude: number;
+    longitude: number;
+    address?: string;
+  };
+
   @ApiProperty({
     description: 'Message status',
     enum: MessageStatus,
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ModerationFlagDocument = ModerationFlag & Document;
+
+export enum ModerationCategory {
+  EMERGENCY = 'emergency',
+  BLOCKED_CONTENT = 'blocked_content',
+  MEDICAL_ADVICE = 'medical_advice',
+  PROMPT_INJECTION = 'prompt_injection',
+}
+
+export enum ModerationStage {
+  // The user's message, before it reached the model
+  INPUT = 'input',
+  // The model's reply, before it reached the user
+  OUTPUT = 'output',
+}
+
+// One assistant message that moderation stopped or changed, kept for admin review
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ModerationFlag {
+  // Empty for visitors who are not signed in
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ChatSession' })
+  sessionId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: ModerationStage, required: true })
+  stage!: ModerationStage;
+
+  @Prop({ type: [String], enum: ModerationCategory, required: true })
+  categories!: ModerationCategory[];
+
+  // Phrases or patterns that matched
+  @Prop({ type: [String], default: [] })
+  matches!: string[];
+
+  // The flagged text with phone numbers and emails already redacted
+  @Prop({ required: true, maxlength: 2000 })
+  excerpt!: string;
+
+  // What the user was sent instead
+  @Prop({ maxlength: 2000 })
+  reply?: string;
+
+  @Prop()
+  reviewedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop({ maxlength: 500 })
+  reviewNote?: string;
+
+  createdAt?: Date;
+}
+
+export const ModerationFlagSchema = SchemaFactory.createForClass(ModerationFlag);
+
+ModerationFlagSchema.index({ reviewedAt: 1, createdAt: -1 });
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ModerationRuleDocument = ModerationRule & Document;
+
+export enum ModerationRuleKind {
+  // Abusive or off-limits phrases; the message is refused
+  BLOCKLIST = 'blocklist',
+  // Signs of a medical emergency; the user is sent to the emergency numbers instead of the model
+  EMERGENCY = 'emergency',
+}
+
+export enum ModerationLanguage {
+  EN = 'en',
+  AR = 'ar',
+}
+
+/**
+ * A phrase admins added to the assistant's moderation, on top of the
+ * built-in English and Arabic lists. Phrases match anywhere in a message,
+ * ignoring case.
+ */
+@Schema({ timestamps: true })
+export class ModerationRule {
+  @Prop({ type: String, enum: ModerationRuleKind, required: true })
+  kind!: ModerationRuleKind;
+
+  // Stored lowercased and trimmed
+  @Prop({ required: true, maxlength: 100 })
+  phrase!: string;
+
+  @Prop({ type: String, enum: ModerationLanguage, required: true })
+  language!: ModerationLanguage;
+
+  @Prop({ default: true })
+  isActive!: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ModerationRuleSchema = SchemaFactory.createForClass(ModerationRule);
+
+ModerationRuleSchema.index({ kind: 1, phrase: 1 }, { unique: true });
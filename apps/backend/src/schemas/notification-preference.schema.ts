@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type NotificationPreferenceDocument = NotificationPreference & Document;
+
+export enum NotificationChannel {
+  IN_APP = 'inApp',
+  EMAIL = 'email',
+  SMS = 'sms'
+}
+
+export interface ChannelToggles {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+  timezone: string; // IANA timezone, e.g. Africa/Cairo
+}
+
+@Schema({ timestamps: true })
+export class NotificationPreference {
+  @ApiProperty({
+    description: 'ID of the user these preferences belong to',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Master switch for in-app notifications',
+    example: true
+  })
+  @Prop({ type: Boolean, default: true })
+  inAppEnabled?: boolean;
+
+  @ApiProperty({
+    description: 'Master switch for email notifications',
+    example: true
+  })
+  @Prop({ type: Boolean, default: true })
+  emailEnabled?: boolean;
+
+  @ApiProperty({
+    description: 'Master switch for SMS notifications',
+    example: false
+  })
+  @Prop({ type: Boolean, default: false })
+  smsEnabled?: boolean;
+
+  @ApiProperty({
+    description: 'Per notification type channel overrides. Types that are not listed use the defaults.',
+    example: { request_accepted: { inApp: true, email: true, sms: true } }
+  })
+  @Prop({ type: Object, default: {} })
+  types?: Record<string, Partial<ChannelToggles>>;
+
+  @ApiProperty({
+    description: 'Period during which email and SMS are held back (urgent notifications still go out)',
+    example: { enabled: true, start: '22:00', end: '07:00', timezone: 'Africa/Cairo' }
+  })
+  @Prop({
+    type: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00' },
+      end: { type: String, default: '07:00' },
+      timezone: { type: String, default: 'Africa/Cairo' },
+    },
+    _id: false,
+    default: {},
+  })
+  quietHours?: QuietHours;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const NotificationPreferenceSchema = SchemaFactory.createForClass(NotificationPreference);
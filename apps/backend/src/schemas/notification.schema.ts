@@ -10,17 +10,39 @@ export enum NotificationType {
   NURSE_REJECTED = 'nurse_rejected',
   NURSE_VERIFIED = 'nurse_verified',
 
+  // License and certification expiry
+  CREDENTIAL_EXPIRING = 'credential_expiring',
+  CREDENTIAL_EXPIRED = 'credential_expired',
+  CREDENTIAL_RENEWAL_SUBMITTED = 'credential_renewal_submitted',
+  CREDENTIAL_RENEWAL_REVIEWED = 'credential_renewal_reviewed',
+
   // Request-related notifications
   REQUEST_CREATED = 'request_created',
   REQUEST_APPLICATION = 'request_application',
+  REQUEST_INVITATION = 'request_invitation',
   REQUEST_ACCEPTED = 'request_accepted',
   REQUEST_REJECTED = 'request_rejected',
   REQUEST_COMPLETED = 'request_completed',
   REQUEST_CANCELLED = 'request_cancelled',
+  REQUEST_REOPENED = 'request_reopened',
+
+  // Visit notifications
+  VISIT_CHECKED_IN = 'visit_checked_in',
+  VISIT_CHECKED_OUT = 'visit_checked_out',
+  VISIT_FLAGGED = 'visit_flagged',
 
   // Review and payment notifications
   REVIEW_RECEIVED = 'review_received',
   PAYMENT_RECEIVED = 'payment_received',
+  PAYMENT_FAILED = 'payment_failed',
+  PAYMENT_DISPUTED = 'payment_disputed',
+  PAYMENT_DISPUTE_RESOLVED = 'payment_dispute_resolved',
+  WITHDRAWAL_REQUESTED = 'withdrawal_requested',
+  WITHDRAWAL_PROCESSED = 'withdrawal_processed',
+
+  // Account notifications
+  ACCOUNT_SUSPENDED = 'account_suspended',
+  ACCOUNT_REACTIVATED = 'account_reactivated',
 
   // System notifications
   SYSTEM_ANNOUNCEMENT = 'system_announcement',
@@ -24,6 +24,17 @@ export enum ProfileCompletionStatus {
   REJECTED = 'rejected',
 }
 
+export enum CredentialType {
+  LICENSE = 'license',
+  CERTIFICATION = 'certification',
+}
+
+export enum CredentialRenewalStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
 // Document upload schema for file management
 @Schema({ timestamps: true })
 export class DocumentUpload {
@@ -51,6 +62,88 @@ export class DocumentUpload {
 
 export const DocumentUploadSchema = SchemaFactory.createForClass(DocumentUpload);
 
+// Recurring working hours for one day of the week, in the nurse's time zone
+@Schema({ _id: false })
+export class WorkingHours {
+  @Prop({ required: true, min: 0, max: 6 })
+  dayOfWeek!: number; // 0 = Sunday … 6 = Saturday
+
+  @Prop({ required: true })
+  startTime!: string; // HH:mm
+
+  @Prop({ required: true })
+  endTime!: string; // HH:mm
+}
+
+export const WorkingHoursSchema = SchemaFactory.createForClass(WorkingHours);
+
+// A date-specific block when the nurse cannot take visits
+@Schema()
+export class TimeOff {
+  @Prop({ required: true })
+  startsAt!: Date;
+
+  @Prop({ required: true })
+  endsAt!: Date;
+
+  @Prop()
+  reason?: string;
+}
+
+export const TimeOffSchema = SchemaFactory.createForClass(TimeOff);
+
+// An expiry reminder already sent, so each window fires once per expiry date
+@Schema({ _id: false })
+export class CredentialReminder {
+  @Prop({ type: String, enum: CredentialType, required: true })
+  credential!: CredentialType;
+
+  @Prop({ required: true })
+  daysBefore!: number;
+
+  @Prop({ required: true })
+  expiresAt!: Date;
+
+  @Prop({ default: Date.now })
+  sentAt?: Date;
+}
+
+export const CredentialReminderSchema = SchemaFactory.createForClass(CredentialReminder);
+
+// A renewed license or certification uploaded by the nurse, waiting for admin review
+@Schema()
+export class CredentialRenewal {
+  @Prop({ type: String, enum: CredentialType, required: true })
+  credential!: CredentialType;
+
+  @Prop({ type: DocumentUploadSchema, required: true })
+  document!: DocumentUpload;
+
+  @Prop({ required: true })
+  expirationDate!: Date;
+
+  // Only for licenses, when the renewed license carries a new number
+  @Prop()
+  licenseNumber?: string;
+
+  @Prop({ type: String, enum: CredentialRenewalStatus, default: CredentialRenewalStatus.PENDING })
+  status!: CredentialRenewalStatus;
+
+  @Prop({ default: Date.now })
+  submittedAt!: Date;
+
+  @Prop()
+  reviewedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop()
+  rejectionReason?: string;
+}
+
+export const CredentialRenewalSchema = SchemaFactory.createForClass(CredentialRenewal);
+
 @Schema({ timestamps: true })
 export class NurseProfile {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
@@ -133,6 +226,17 @@ export class NurseProfile {
   @Prop({ type: [DocumentUploadSchema] })
   additionalDocuments?: DocumentUpload[];
 
+  // Credential expiry monitoring. licenseExpiredAt is set when a lapsed license took the
+  // nurse off the marketplace, and cleared when a renewal is approved.
+  @Prop()
+  licenseExpiredAt?: Date;
+
+  @Prop({ type: [CredentialReminderSchema], default: [] })
+  expiryReminders?: CredentialReminder[];
+
+  @Prop({ type: [CredentialRenewalSchema], default: [] })
+  credentialRenewals?: (CredentialRenewal & { _id?: Types.ObjectId })[];
+
   @Prop({ default: false })
   step3Completed?: boolean;
 
@@ -167,6 +271,20 @@ export class NurseProfile {
   @Prop({ default: true })
   isAvailable?: boolean;
 
+  // Availability calendar. No working hours means the nurse hasn't set any and is bookable at any time.
+  @Prop({ type: [WorkingHoursSchema], default: [] })
+  workingHours?: WorkingHours[];
+
+  @Prop({ type: [TimeOffSchema], default: [] })
+  timeOff?: (TimeOff & { _id?: Types.ObjectId })[];
+
+  // Minimum gap kept free between two visits, for travel
+  @Prop({ default: 30, min: 0, max: 240 })
+  bufferMinutes?: number;
+
+  @Prop({ default: 'Africa/Cairo' })
+  availabilityTimezone?: string;
+
   @Prop()
   hourlyRate?: number;
 
@@ -200,3 +318,14 @@ export class NurseProfile {
 }
 
 export const NurseProfileSchema = SchemaFactory.createForClass(NurseProfile);
+
+// Text index backing nurse search (specializations and skills weigh more than free-text bio)
+NurseProfileSchema.index(
+  { fullName: 'text', specializations: 'text', skills: 'text', bio: 'text', education: 'text', languages: 'text' },
+  { weights: { fullName: 5, specializations: 4, skills: 3, bio: 1, education: 1, languages: 1 }, name: 'nurse_profile_text_search' },
+);
+NurseProfileSchema.index({ userId: 1 });
+NurseProfileSchema.index({ rating: -1, _id: -1 });
+NurseProfileSchema.index({ licenseExpirationDate: 1 });
+NurseProfileSchema.index({ certificationExpirationDate: 1 });
+NurseProfileSchema.index({ 'credentialRenewals.status': 1 });
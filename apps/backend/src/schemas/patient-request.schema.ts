@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { PaymentProviderName } from './payment.schema';
+import { SpecializationType } from './nurse-profile.schema';
 
 export type PatientRequestDocument = PatientRequest & Document;
 
@@ -22,6 +24,58 @@ export enum ServiceType {
   CHRONIC_DISEASE_MANAGEMENT = 'chronic_disease_management',
 }
 
+export enum VisitFlag {
+  LATE_CHECK_IN = 'late_check_in',
+  OUT_OF_AREA_CHECK_IN = 'out_of_area_check_in',
+  OUT_OF_AREA_CHECK_OUT = 'out_of_area_check_out',
+}
+
+// Payment state of the request as last reported by the payment provider
+export enum RequestPaymentStatus {
+  UNPAID = 'unpaid',
+  AUTHORIZED = 'authorized',
+  PAID = 'paid',
+  FAILED = 'failed',
+  REFUNDED = 'refunded',
+  DISPUTED = 'disputed',
+}
+
+// Where and when the nurse checked in or out of a visit
+@Schema({ _id: false })
+export class VisitCheckpoint {
+  @Prop({ required: true })
+  at!: Date;
+
+  @Prop({ type: [Number], required: true })
+  coordinates!: [number, number]; // [longitude, latitude]
+
+  @Prop()
+  accuracy?: number; // GPS accuracy reported by the device, in meters
+
+  @Prop({ required: true })
+  distanceMeters!: number; // from the request location
+
+  @Prop({ required: true })
+  withinGeofence!: boolean;
+}
+
+export const VisitCheckpointSchema = SchemaFactory.createForClass(VisitCheckpoint);
+
+// A nurse the patient invited to apply, picked from the request's matches
+@Schema({ _id: false })
+export class RequestInvitation {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  nurseId!: Types.ObjectId;
+
+  @Prop({ default: Date.now })
+  invitedAt!: Date;
+
+  @Prop()
+  matchScore?: number; // 0-100, when the nurse was invited
+}
+
+export const RequestInvitationSchema = SchemaFactory.createForClass(RequestInvitation);
+
 @Schema({ timestamps: true })
 export class PatientRequest {
   @Prop({ type: Types.ObjectId, ref: 'User', required: false }) // Temporarily remove required to debug
@@ -73,6 +127,14 @@ export class PatientRequest {
   @Prop()
   specialRequirements!: string;
 
+  // Specialization the nurse should have, when the care needs more than a general nurse
+  @Prop({ type: String, enum: SpecializationType })
+  requiredSpecialization?: SpecializationType;
+
+  // Languages the patient would like the nurse to speak, used when matching nurses
+  @Prop({ type: [String], default: [] })
+  preferredLanguages?: string[];
+
   @Prop()
   budget?: number;
 
@@ -109,6 +171,51 @@ export class PatientRequest {
   @Prop()
   cancellationReason?: string;
 
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy?: Types.ObjectId;
+
+  // Settlement decided by the cancellation policy, in the smallest currency unit
+  @Prop()
+  cancellationRefundAmount?: number;
+
+  @Prop()
+  cancellationNurseCompensation?: number;
+
+  // Nurses invited to apply while the request is pending
+  @Prop({ type: [RequestInvitationSchema], default: [] })
+  invitations?: RequestInvitation[];
+
+  // Set on visits generated from a recurring care plan
+  @Prop({ type: Types.ObjectId, ref: 'CarePlan' })
+  carePlanId?: Types.ObjectId;
+
+  // The plan occurrence (YYYY-MM-DD, plan time zone) this visit covers
+  @Prop()
+  occurrenceDate?: string;
+
+  // Visit verification
+  @Prop({ type: VisitCheckpointSchema })
+  checkIn?: VisitCheckpoint;
+
+  @Prop({ type: VisitCheckpointSchema })
+  checkOut?: VisitCheckpoint;
+
+  // Time between check-in and check-out, used for billing
+  @Prop()
+  timeOnSiteMinutes?: number;
+
+  @Prop({ type: [String], enum: VisitFlag, default: [] })
+  visitFlags?: VisitFlag[];
+
+  @Prop()
+  visitFlagsReviewedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  visitFlagsReviewedBy?: Types.ObjectId;
+
+  @Prop()
+  visitFlagsReviewNote?: string;
+
   // Completion tracking
   @Prop({ default: false })
   nurseCompleted?: boolean;
@@ -122,6 +229,19 @@ export class PatientRequest {
   @Prop()
   patientCompletedAt?: Date;
 
+  // Set when the patient never confirmed and the escrow timeout confirmed for them
+  @Prop({ default: false })
+  completionAutoConfirmed?: boolean;
+
+  @Prop({ type: String, enum: PaymentProviderName, default: PaymentProviderName.STRIPE })
+  paymentProvider?: PaymentProviderName;
+
+  @Prop({ type: String, enum: RequestPaymentStatus, default: RequestPaymentStatus.UNPAID })
+  paymentStatus?: RequestPaymentStatus;
+
+  @Prop()
+  paidAt?: Date;
+
   // Timestamps (automatically added by Mongoose)
   createdAt?: Date;
   updatedAt?: Date;
@@ -131,3 +251,12 @@ export const PatientRequestSchema = SchemaFactory.createForClass(PatientRequest)
 
 // Create geospatial index for location-based queries
 PatientRequestSchema.index({ location: '2dsphere' });
+
+// Text index backing request search
+PatientRequestSchema.index(
+  { title: 'text', description: 'text', address: 'text', specialRequirements: 'text' },
+  { weights: { title: 5, address: 3, description: 2, specialRequirements: 1 }, name: 'request_text_search' },
+);
+PatientRequestSchema.index({ status: 1, createdAt: -1 });
+PatientRequestSchema.index({ carePlanId: 1, occurrenceDate: 1 });
+PatientRequestSchema.index({ 'invitations.nurseId': 1, status: 1 });
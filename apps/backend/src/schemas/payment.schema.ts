@@ -7,6 +7,8 @@ export type PaymentDocument = Payment & Document;
 export enum PaymentStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
+  AUTHORIZED = 'authorized', // funds held on the card, waiting for capture
+  CAPTURING = 'capturing', // claimed by a capture that is talking to the provider
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
@@ -22,14 +24,85 @@ export enum PaymentMethod {
   WALLET = 'wallet'
 }
 
+// Who moves the money; chosen per request by the patient
+export enum PaymentProviderName {
+  STRIPE = 'stripe',
+  CASH = 'cash', // collected by the nurse at the visit
+  WALLET = 'wallet' // the patient's in-app wallet balance
+}
+
+export enum DisputeStatus {
+  OPEN = 'open',
+  RESOLVED = 'resolved'
+}
+
+// In-app disputes freeze an escrow hold; chargebacks are raised with the card issuer after capture
+export enum DisputeSource {
+  IN_APP = 'in_app',
+  CHARGEBACK = 'chargeback'
+}
+
+export enum DisputeResolution {
+  CAPTURE = 'capture',
+  PARTIAL_CAPTURE = 'partial_capture',
+  RELEASE = 'release'
+}
+
 export enum PaymentType {
   SERVICE_PAYMENT = 'service_payment',
   PLATFORM_FEE = 'platform_fee',
   REFUND = 'refund',
   BONUS = 'bonus',
-  WITHDRAWAL = 'withdrawal'
+  WITHDRAWAL = 'withdrawal',
+  CASH_COLLECTION = 'cash_collection' // visit money the nurse took in cash
+}
+
+@Schema({ _id: false })
+export class PaymentDispute {
+  @Prop({ type: String, enum: DisputeStatus, default: DisputeStatus.OPEN })
+  status!: DisputeStatus;
+
+  @Prop({ type: String, enum: DisputeSource, default: DisputeSource.IN_APP })
+  source?: DisputeSource;
+
+  // Chargebacks have no platform user behind them
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  openedBy?: Types.ObjectId;
+
+  @Prop({ required: true })
+  openedAt!: Date;
+
+  @Prop({ required: true, maxlength: 1000 })
+  reason!: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @Prop()
+  resolvedAt?: Date;
+
+  @Prop({ type: String, enum: DisputeResolution })
+  resolution?: DisputeResolution;
+
+  @Prop({ maxlength: 1000 })
+  resolutionNote?: string;
+
+  // Chargeback details reported by Stripe
+  @Prop()
+  externalDisputeId?: string;
+
+  @Prop()
+  providerStatus?: string;
+
+  @Prop()
+  disputedAmount?: number;
+
+  @Prop()
+  evidenceDueBy?: Date;
 }
 
+export const PaymentDisputeSchema = SchemaFactory.createForClass(PaymentDispute);
+
 @Schema({ timestamps: true })
 export class Payment {
   @ApiProperty({
@@ -99,11 +172,12 @@ export class Payment {
   externalTransactionId?: string;
 
   @ApiProperty({
-    description: 'Payment provider name',
-    example: 'stripe'
+    description: 'Payment provider that processes the payment',
+    enum: PaymentProviderName,
+    example: PaymentProviderName.STRIPE
   })
-  @Prop({ type: String })
-  paymentProvider?: string;
+  @Prop({ type: String, enum: PaymentProviderName, default: PaymentProviderName.STRIPE })
+  paymentProvider?: PaymentProviderName;
 
   @ApiProperty({
     description: 'Platform fee amount',
@@ -133,6 +207,40 @@ export class Payment {
   @Prop({ type: Object })
   metadata?: Record<string, any>;
 
+  @ApiProperty({
+    description: 'Accepted application the held funds belong to',
+    example: '507f1f77bcf86cd799439014'
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Application' })
+  applicationId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'When the funds were authorized (held) on the card',
+    example: '2024-01-14T09:00:00Z'
+  })
+  @Prop({ type: Date })
+  authorizedAt?: Date;
+
+  @ApiProperty({
+    description: 'When the held funds were released without capture',
+    example: '2024-01-14T12:00:00Z'
+  })
+  @Prop({ type: Date })
+  releasedAt?: Date;
+
+  @ApiProperty({
+    description: 'Why the held funds were released',
+    example: 'Request cancelled'
+  })
+  @Prop({ type: String })
+  releaseReason?: string;
+
+  @ApiProperty({
+    description: 'Dispute raised before capture; capture is frozen while it is open'
+  })
+  @Prop({ type: PaymentDisputeSchema })
+  dispute?: PaymentDispute;
+
   @ApiProperty({
     description: 'When the payment was processed',
     example: '2024-01-15T10:30:00Z'
@@ -197,6 +305,7 @@ PaymentSchema.index({ requestId: 1 });
 PaymentSchema.index({ status: 1 });
 PaymentSchema.index({ externalTransactionId: 1 });
 PaymentSchema.index({ createdAt: -1 });
+PaymentSchema.index({ 'dispute.status': 1 });
 
 // Virtual for populated fields
 PaymentSchema.virtual('patient', {
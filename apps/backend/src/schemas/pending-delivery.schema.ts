@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { NotificationType } from './notification.schema';
+
+export type PendingDeliveryDocument = PendingDelivery & Document;
+
+// Email and SMS held back during the recipient's quiet hours, sent once they are over
+@Schema({ timestamps: true })
+export class PendingDelivery {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId!: Types.ObjectId;
+
+  // Not set when the user has in-app notifications off for this type
+  @Prop({ type: Types.ObjectId, ref: 'Notification' })
+  notificationId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: NotificationType, required: true })
+  type!: NotificationType;
+
+  @Prop({ required: true })
+  title!: string;
+
+  @Prop({ required: true })
+  message!: string;
+
+  @Prop()
+  actionUrl?: string;
+
+  @Prop({ type: Boolean, default: false })
+  email!: boolean;
+
+  @Prop({ type: Boolean, default: false })
+  sms!: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PendingDeliverySchema = SchemaFactory.createForClass(PendingDelivery);
+
+PendingDeliverySchema.index({ createdAt: 1 });
@@ -38,6 +38,41 @@ export class AdminActionLog {
 
 export const AdminActionLogSchema = SchemaFactory.createForClass(AdminActionLog);
 
+// Profile fields an admin can flag when requesting changes, and that each submitted version records
+export const REVIEWABLE_PROFILE_FIELDS = [
+  'fullName',
+  'emailAddress',
+  'licenseNumber',
+  'licenseExpirationDate',
+  'licenseDocument',
+  'backgroundCheckDocument',
+  'resumeDocument',
+  'certificationName',
+  'issuingOrganization',
+  'certificationLicenseNumber',
+  'certificationExpirationDate',
+  'skills',
+  'workExperience',
+  'institutionName',
+  'degree',
+  'graduationDate',
+  'additionalDocuments',
+] as const;
+
+export type ReviewableProfileField = typeof REVIEWABLE_PROFILE_FIELDS[number];
+
+// Admin feedback on one field or document of a submission, e.g. "license scan unreadable"
+@Schema({ _id: false })
+export class SubmissionFeedback {
+  @Prop({ type: String, enum: REVIEWABLE_PROFILE_FIELDS, required: true })
+  field!: ReviewableProfileField;
+
+  @Prop({ required: true })
+  message!: string;
+}
+
+export const SubmissionFeedbackSchema = SchemaFactory.createForClass(SubmissionFeedback);
+
 @Schema({ timestamps: true })
 export class ProfileSubmission {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
@@ -46,6 +81,20 @@ export class ProfileSubmission {
   @Prop({ type: Types.ObjectId, ref: 'NurseProfile', required: true })
   nurseProfileId: Types.ObjectId;
 
+  // Versions count up from 1 per nurse; each one keeps the profile exactly as it was submitted
+  @Prop({ default: 1 })
+  version!: number;
+
+  @Prop({ type: Object, default: {} })
+  snapshot!: Partial<Record<ReviewableProfileField, any>>;
+
+  // Fields that differ from the previous version
+  @Prop({ type: [String], default: [] })
+  changedFields!: ReviewableProfileField[];
+
+  @Prop({ type: Types.ObjectId, ref: 'ProfileSubmission' })
+  previousSubmissionId?: Types.ObjectId;
+
   @Prop({ 
     type: String, 
     enum: SubmissionStatus, 
@@ -71,6 +120,10 @@ export class ProfileSubmission {
   @Prop({ type: [AdminActionLogSchema] })
   actionHistory: AdminActionLog[];
 
+  // Per-field feedback when the admin requested changes
+  @Prop({ type: [SubmissionFeedbackSchema], default: [] })
+  feedback!: SubmissionFeedback[];
+
   // Notification tracking
   @Prop({ default: false })
   nurseNotified: boolean;
@@ -99,3 +152,30 @@ ProfileSubmissionSchema.index({ userId: 1 });
 ProfileSubmissionSchema.index({ status: 1, submittedAt: -1 });
 ProfileSubmissionSchema.index({ reviewedBy: 1, reviewedAt: -1 });
 ProfileSubmissionSchema.index({ priority: 1, submittedAt: -1 });
+ProfileSubmissionSchema.index({ userId: 1, version: -1 });
+
+// What was submitted never changes; only the review outcome is written afterwards
+const IMMUTABLE_PATHS = ['userId', 'nurseProfileId', 'version', 'snapshot', 'changedFields', 'previousSubmissionId', 'submittedAt'];
+const IMMUTABLE_ERROR = 'Submitted profile versions are immutable';
+
+ProfileSubmissionSchema.pre('save', function () {
+  if (!this.isNew && IMMUTABLE_PATHS.some(path => this.isModified(path))) {
+    throw new Error(IMMUTABLE_ERROR);
+  }
+});
+
+for (const query of ['updateOne', 'updateMany', 'findOneAndUpdate'] as const) {
+  ProfileSubmissionSchema.pre(query, function () {
+    const update = (this.getUpdate() || {}) as Record<string, any>;
+    const touched = Object.keys(update).flatMap(key => key.startsWith('$') ? Object.keys(update[key] || {}) : [key]);
+    if (touched.some(path => IMMUTABLE_PATHS.includes(path.split('.')[0]))) {
+      throw new Error(IMMUTABLE_ERROR);
+    }
+  });
+}
+
+for (const query of ['replaceOne', 'findOneAndReplace'] as const) {
+  ProfileSubmissionSchema.pre(query, function () {
+    throw new Error(IMMUTABLE_ERROR);
+  });
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  REVOKED = 'revoked',
+  TOKEN_REUSE = 'token_reuse',
+  PASSWORD_RESET = 'password_reset',
+}
+
+// One login on one device. The refresh token rotates on every use; only hashes are stored.
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  tokenHash?: string;
+
+  // Hashes of already-rotated refresh tokens, kept to detect replays
+  @Prop({ type: [String], default: [] })
+  previousTokenHashes?: string[];
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop({ type: Date, default: Date.now })
+  lastUsedAt?: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt?: Date;
+
+  @Prop({ type: Date })
+  revokedAt?: Date;
+
+  @Prop({ type: String, enum: SessionRevokeReason })
+  revokedReason?: SessionRevokeReason;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Drop sessions once their refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
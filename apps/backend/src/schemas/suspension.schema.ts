@@ -0,0 +1,112 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserStatus } from './user.schema';
+
+export type SuspensionDocument = Suspension & Document;
+
+export enum SuspensionLiftReason {
+  EXPIRED = 'expired',
+  MANUAL = 'manual'
+}
+
+@Schema({ timestamps: true })
+export class Suspension {
+  @ApiProperty({
+    description: 'ID of the suspended user',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'ID of the admin who suspended the user',
+    example: '507f1f77bcf86cd799439012'
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  suspendedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Reason for the suspension',
+    example: 'Policy violation'
+  })
+  @Prop({ type: String, required: true, maxlength: 500 })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'When the suspension started',
+    example: '2024-01-15T10:30:00Z'
+  })
+  @Prop({ type: Date, required: true })
+  startsAt?: Date;
+
+  @ApiProperty({
+    description: 'When the suspension ends. Empty for indefinite suspensions.',
+    example: '2024-02-14T10:30:00Z',
+    required: false
+  })
+  @Prop({ type: Date })
+  endsAt?: Date;
+
+  @ApiProperty({
+    description: 'Account status to restore when the suspension is lifted',
+    enum: UserStatus,
+    example: UserStatus.VERIFIED
+  })
+  @Prop({ type: String, enum: UserStatus, required: true })
+  previousStatus?: UserStatus;
+
+  @ApiProperty({
+    description: 'Whether the suspension is currently in effect',
+    example: true
+  })
+  @Prop({ type: Boolean, default: true })
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: 'When the suspension was lifted',
+    example: '2024-02-14T10:31:00Z',
+    required: false
+  })
+  @Prop({ type: Date })
+  liftedAt?: Date;
+
+  @ApiProperty({
+    description: 'Admin who lifted the suspension (empty when it expired)',
+    example: '507f1f77bcf86cd799439012',
+    required: false
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  liftedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'How the suspension ended',
+    enum: SuspensionLiftReason,
+    required: false
+  })
+  @Prop({ type: String, enum: SuspensionLiftReason })
+  liftReason?: SuspensionLiftReason;
+
+  @ApiProperty({
+    description: 'Number of requests cancelled or reopened because of the suspension',
+    example: 2
+  })
+  @Prop({ type: Number, default: 0 })
+  affectedRequests?: number;
+
+  @ApiProperty({
+    description: 'Number of applications withdrawn because of the suspension',
+    example: 3
+  })
+  @Prop({ type: Number, default: 0 })
+  affectedApplications?: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SuspensionSchema = SchemaFactory.createForClass(Suspension);
+
+SuspensionSchema.index({ userId: 1, createdAt: -1 });
+// Used by the scheduler to find suspensions that have run out
+SuspensionSchema.index({ isActive: 1, endsAt: 1 });
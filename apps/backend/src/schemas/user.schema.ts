@@ -13,6 +13,7 @@ export enum UserStatus {
   PENDING = 'pending',
   VERIFIED = 'verified',
   REJECTED = 'rejected',
+  SUSPENDED = 'suspended',
 }
 
 @Schema({ timestamps: true })
@@ -35,6 +36,17 @@ export class User {
   @Prop({ default: UserStatus.PENDING, enum: UserStatus })
   status?: UserStatus;
 
+  // No default: accounts created before email verification existed are left unset and not gated
+  @Prop({ type: Boolean })
+  emailVerified?: boolean;
+
+  @Prop()
+  emailVerifiedAt?: Date;
+
+  // Access tokens issued before this moment are rejected
+  @Prop()
+  passwordChangedAt?: Date;
+
   @Prop({
     type: {
       type: String,
@@ -68,3 +80,6 @@ export const UserSchema = SchemaFactory.createForClass(User);
 
 // Create geospatial index for location-based queries
 UserSchema.index({ location: '2dsphere' });
+
+// Text index backing name/address search
+UserSchema.index({ name: 'text', address: 'text' }, { weights: { name: 5, address: 2 }, name: 'user_text_search' });
@@ -0,0 +1,101 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type VisitReportDocument = VisitReport & Document;
+
+@Schema({ _id: false })
+export class Vitals {
+  @Prop()
+  systolic?: number; // mmHg
+
+  @Prop()
+  diastolic?: number; // mmHg
+
+  @Prop()
+  heartRate?: number; // beats per minute
+
+  @Prop()
+  temperature?: number; // °C
+
+  @Prop()
+  spo2?: number; // %
+
+  @Prop()
+  glucose?: number; // mg/dL
+}
+
+export const VitalsSchema = SchemaFactory.createForClass(Vitals);
+
+@Schema({ _id: false })
+export class MedicationGiven {
+  @Prop({ required: true })
+  name!: string;
+
+  @Prop({ required: true })
+  dose!: string; // e.g. "500 mg", "10 units"
+
+  @Prop()
+  route?: string; // oral, IV, IM, subcutaneous, topical…
+
+  @Prop({ required: true })
+  givenAt!: Date;
+}
+
+export const MedicationGivenSchema = SchemaFactory.createForClass(MedicationGiven);
+
+@Schema({ _id: false })
+export class WoundPhoto {
+  @Prop({ required: true })
+  filename!: string;
+
+  @Prop({ required: true })
+  originalName!: string;
+
+  @Prop({ required: true })
+  fileType!: string;
+
+  @Prop({ required: true })
+  fileSize!: number;
+
+  @Prop({ default: Date.now })
+  uploadedAt!: Date;
+}
+
+export const WoundPhotoSchema = SchemaFactory.createForClass(WoundPhoto);
+
+@Schema({ timestamps: true })
+export class VisitReport {
+  @Prop({ type: Types.ObjectId, ref: 'PatientRequest', required: true })
+  requestId!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  nurseId!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  patientId!: Types.ObjectId;
+
+  // When the observations were taken, which may differ from when the report was written
+  @Prop({ required: true })
+  recordedAt!: Date;
+
+  @Prop({ type: VitalsSchema })
+  vitals?: Vitals;
+
+  @Prop({ type: [MedicationGivenSchema], default: [] })
+  medications!: MedicationGiven[];
+
+  @Prop({ type: [WoundPhotoSchema], default: [] })
+  woundPhotos!: WoundPhoto[];
+
+  @Prop()
+  notes?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const VisitReportSchema = SchemaFactory.createForClass(VisitReport);
+
+VisitReportSchema.index({ requestId: 1, recordedAt: -1 });
+VisitReportSchema.index({ patientId: 1, recordedAt: -1 });
+VisitReportSchema.index({ nurseId: 1, recordedAt: -1 });
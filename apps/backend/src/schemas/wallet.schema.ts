@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WalletDocument = Wallet & Document;
+export type WalletTransactionDocument = WalletTransaction & Document;
+
+export enum WalletTransactionType {
+  CREDIT = 'credit', // added by an admin, e.g. a top-up paid at the office
+  REFUND = 'refund', // money returned from a visit payment
+  HOLD = 'hold', // reserved for an accepted visit
+  RELEASE = 'release', // hold returned to the balance
+  CAPTURE = 'capture', // hold paid to the visit
+  PAYMENT = 'payment', // paid straight from the balance
+}
+
+// In-app wallet of a patient; amounts are in the smallest currency unit
+@Schema({ timestamps: true })
+export class Wallet {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId!: Types.ObjectId;
+
+  // Spendable balance
+  @Prop({ default: 0, min: 0 })
+  balance!: number;
+
+  // Reserved for visits that have not been paid yet
+  @Prop({ default: 0, min: 0 })
+  held!: number;
+
+  @Prop({ default: 'egp' })
+  currency!: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WalletSchema = SchemaFactory.createForClass(Wallet);
+
+WalletSchema.index({ userId: 1 }, { unique: true });
+
+@Schema({ timestamps: true })
+export class WalletTransaction {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId!: Types.ObjectId;
+
+  // Deterministic key of the movement (e.g. "payment:<id>:hold"), so applying it twice is a no-op
+  @Prop({ required: true })
+  reference!: string;
+
+  @Prop({ type: String, enum: WalletTransactionType, required: true })
+  type!: WalletTransactionType;
+
+  @Prop({ required: true, min: 0 })
+  amount!: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  paymentId?: Types.ObjectId;
+
+  @Prop({ maxlength: 500 })
+  description?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WalletTransactionSchema = SchemaFactory.createForClass(WalletTransaction);
+
+WalletTransactionSchema.index({ reference: 1 }, { unique: true });
+WalletTransactionSchema.index({ userId: 1, createdAt: -1 });
@@ -0,0 +1,29 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WebhookEventDocument = WebhookEvent & Document;
+
+// Provider events already handled, so redelivered events are acknowledged without running twice
+@Schema({ timestamps: true })
+export class WebhookEvent {
+  @Prop({ required: true })
+  provider!: string;
+
+  @Prop({ required: true })
+  eventId!: string;
+
+  @Prop({ required: true })
+  type!: string;
+
+  @Prop({ required: true })
+  expiresAt!: Date;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WebhookEventSchema = SchemaFactory.createForClass(WebhookEvent);
+
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+// Stripe stops retrying after three days; keep ids well past that
+WebhookEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WithdrawalDocument = Withdrawal & Document;
+
+export enum WithdrawalStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  REJECTED = 'rejected',
+}
+
+export enum PayoutMethod {
+  BANK_TRANSFER = 'bank_transfer',
+  MOBILE_WALLET = 'mobile_wallet',
+}
+
+@Schema({ timestamps: true })
+export class Withdrawal {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  nurseId!: Types.ObjectId;
+
+  // Smallest currency unit
+  @Prop({ required: true, min: 1 })
+  amount!: number;
+
+  @Prop({ default: 'egp' })
+  currency!: string;
+
+  @Prop({ type: String, enum: WithdrawalStatus, default: WithdrawalStatus.PENDING })
+  status!: WithdrawalStatus;
+
+  @Prop({ type: String, enum: PayoutMethod, required: true })
+  payoutMethod!: PayoutMethod;
+
+  // IBAN / account number or wallet phone number, as entered by the nurse
+  @Prop({ required: true, maxlength: 200 })
+  payoutDetails!: string;
+
+  @Prop({ maxlength: 500 })
+  note?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop()
+  reviewedAt?: Date;
+
+  // Bank or wallet transfer reference recorded by the admin who paid it
+  @Prop()
+  payoutReference?: string;
+
+  @Prop({ maxlength: 500 })
+  rejectionReason?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WithdrawalSchema = SchemaFactory.createForClass(Withdrawal);
+
+WithdrawalSchema.index({ nurseId: 1, createdAt: -1 });
+WithdrawalSchema.index({ status: 1, createdAt: 1 });
+
+// One withdrawal waiting for approval per nurse, also when two requests arrive at once
+WithdrawalSchema.index(
+  { nurseId: 1 },
+  { unique: true, partialFilterExpression: { status: WithdrawalStatus.PENDING } }
+);
@@ -4,7 +4,6 @@ import {
   Query,
   UseGuards,
   Request,
-  ValidationPipe,
   HttpStatus
 } from '@nestjs/common';
 import {
@@ -17,10 +16,6 @@ import {
 } from '@nestjs/swagger';
 import { SearchService } from './search.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { UserRole } from '../schemas/user.schema';
-import { ServiceType } from '../schemas/patient-request.schema';
-import { SpecializationType } from '../schemas/nurse-profile.schema';
-import { Transform } from 'class-transformer';
 
 @ApiTags('Search')
 @Controller('api/search')
@@ -112,6 +107,11 @@ export class SearchController {
     required: false,
     example: 10
   })
+  @ApiQuery({
+    name: 'cursor',
+    description: 'Cursor returned as pagination.nextCursor by the previous page (takes precedence over page)',
+    required: false
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Nurses search results retrieved successfully'
@@ -129,7 +129,8 @@ export class SearchController {
     @Query('sortBy') sortBy?: string,
     @Query('sortOrder') sortOrder?: 'asc' | 'desc',
     @Query('page') page?: number,
-    @Query('limit') limit?: number
+    @Query('limit') limit?: number,
+    @Query('cursor') cursor?: string
   ) {
     return this.searchService.searchNurses({
       query,
@@ -142,7 +143,8 @@ export class SearchController {
       sortBy: sortBy || 'rating',
       sortOrder: sortOrder || 'desc',
       page: page || 1,
-      limit: limit || 10
+      limit: limit || 10,
+      cursor
     });
   }
 
@@ -218,7 +220,7 @@ export class SearchController {
     name: 'sortBy',
     description: 'Sort by field',
     required: false,
-    enum: ['createdAt', 'scheduledDate', 'budget', 'urgencyLevel'],
+    enum: ['createdAt', 'scheduledDate', 'budget', 'urgencyLevel', 'distance'],
     example: 'createdAt'
   })
   @ApiQuery({
@@ -240,6 +242,11 @@ export class SearchController {
     required: false,
     example: 10
   })
+  @ApiQuery({
+    name: 'cursor',
+    description: 'Cursor returned as pagination.nextCursor by the previous page (takes precedence over page)',
+    required: false
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Requests search results retrieved successfully'
@@ -262,7 +269,8 @@ export class SearchController {
     @Query('sortBy') sortBy?: string,
     @Query('sortOrder') sortOrder?: 'asc' | 'desc',
     @Query('page') page?: number,
-    @Query('limit') limit?: number
+    @Query('limit') limit?: number,
+    @Query('cursor') cursor?: string
   ) {
     return this.searchService.searchRequests({
       query,
@@ -276,6 +284,7 @@ export class SearchController {
       sortOrder: sortOrder || 'desc',
       page: page || 1,
       limit: limit || 10,
+      cursor,
       userId: req.user._id,
       userRole: req.user.role
     });
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { User, UserSchema } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: NurseProfile.name, schema: NurseProfileSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+    ]),
+  ],
+  controllers: [SearchController],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
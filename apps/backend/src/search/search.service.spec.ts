@@ -0,0 +1,155 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SearchService } from './search.service';
+import { User, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile } from '../schemas/nurse-profile.schema';
+import { PatientRequest, RequestStatus } from '../schemas/patient-request.schema';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let userModel: { aggregate: jest.Mock; collection: { name: string } };
+  let requestModel: { aggregate: jest.Mock; find: jest.Mock };
+
+  const nurseParams = { sortBy: 'rating', sortOrder: 'desc' as const, page: 1, limit: 2 };
+
+  // What the $facet stage returns for the given result documents
+  const facetResult = (results: any[], total = results.length) => ({
+    results,
+    total: [{ count: total }],
+    specializations: [],
+    availability: [],
+    serviceTypes: [],
+    urgencyLevels: [],
+  });
+
+  const nurse = (rating: number) => ({
+    _id: new Types.ObjectId(),
+    name: `Nurse ${rating}`,
+    email: 'nurse@example.com',
+    phone: '+20100000000',
+    sortValue: rating,
+    profile: { rating, licenseNumber: 'LIC-1', specializations: ['icu'] },
+  });
+
+  // The pipeline of the last aggregate call
+  const pipelineOf = (model: { aggregate: jest.Mock }): any[] => model.aggregate.mock.calls.at(-1)[0];
+
+  beforeEach(async () => {
+    userModel = { aggregate: jest.fn(), collection: { name: 'users' } };
+    requestModel = { aggregate: jest.fn(), find: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(NurseProfile.name), useValue: { collection: { name: 'nurseprofiles' } } },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+      ],
+    }).compile();
+
+    service = moduleRef.get(SearchService);
+  });
+
+  describe('searchNurses', () => {
+    it('only searches verified nurses and hides those whose license lapsed', async () => {
+      userModel.aggregate.mockReturnValue({ exec: async () => [facetResult([])] });
+
+      await service.searchNurses(nurseParams);
+
+      const pipeline = pipelineOf(userModel);
+      expect(pipeline[0]).toEqual({ $match: { role: UserRole.NURSE, status: UserStatus.VERIFIED } });
+      expect(pipeline).toContainEqual({ $match: { 'profile.licenseExpiredAt': null } });
+    });
+
+    it('starts with a geo stage that converts the radius to meters', async () => {
+      userModel.aggregate.mockReturnValue({ exec: async () => [facetResult([])] });
+
+      await service.searchNurses({ ...nurseParams, location: { latitude: 30.04, longitude: 31.23, radius: 5 } });
+
+      expect(pipelineOf(userModel)[0].$geoNear).toEqual(expect.objectContaining({
+        near: { type: 'Point', coordinates: [31.23, 30.04] },
+        maxDistance: 5000,
+      }));
+    });
+
+    it('needs a location to sort by distance', async () => {
+      await expect(service.searchNurses({ ...nurseParams, sortBy: 'distance' })).rejects.toBeInstanceOf(BadRequestException);
+      expect(userModel.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('returns a cursor that continues after the last nurse of the page', async () => {
+      const nurses = [nurse(5), nurse(4), nurse(3)];
+      userModel.aggregate.mockReturnValue({ exec: async () => [facetResult(nurses, 3)] });
+
+      const first = await service.searchNurses(nurseParams);
+
+      expect(first.nurses).toHaveLength(2);
+      expect(first.pagination).toEqual(expect.objectContaining({ hasMore: true, total: 3 }));
+
+      await service.searchNurses({ ...nurseParams, cursor: first.pagination.nextCursor! });
+
+      const results = pipelineOf(userModel).at(-1).$facet.results;
+      expect(results[0].$match.$or).toEqual([
+        { sortValue: { $lt: 4 } },
+        { sortValue: 4, _id: { $lt: nurses[1]._id } },
+      ]);
+    });
+
+    it('rejects cursors it did not issue', async () => {
+      await expect(service.searchNurses({ ...nurseParams, cursor: 'garbage' })).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('leaves contact details and license numbers out of the results', async () => {
+      userModel.aggregate.mockReturnValue({ exec: async () => [facetResult([nurse(5)])] });
+
+      const { nurses } = await service.searchNurses(nurseParams);
+
+      expect(nurses[0]).not.toHaveProperty('email');
+      expect(nurses[0]).not.toHaveProperty('phone');
+      expect(nurses[0]).not.toHaveProperty('licenseNumber');
+      expect(nurses[0].rating).toBe(5);
+    });
+  });
+
+  describe('searchRequests', () => {
+    const requestParams = { sortBy: 'createdAt', sortOrder: 'desc' as const, page: 1, limit: 10 };
+
+    beforeEach(() => {
+      requestModel.aggregate.mockReturnValue({ exec: async () => [facetResult([])] });
+    });
+
+    it('shows patients only their own requests', async () => {
+      const patientId = String(new Types.ObjectId());
+
+      await service.searchRequests({ ...requestParams, userId: patientId, userRole: UserRole.PATIENT });
+
+      expect(pipelineOf(requestModel)[0].$match.patientId).toEqual(new Types.ObjectId(patientId));
+    });
+
+    it('shows nurses open requests and the ones assigned to them', async () => {
+      const nurseId = String(new Types.ObjectId());
+
+      await service.searchRequests({ ...requestParams, userId: nurseId, userRole: UserRole.NURSE });
+
+      expect(pipelineOf(requestModel)[0].$match.$or).toEqual([
+        { nurseId: new Types.ObjectId(nurseId) },
+        { status: RequestStatus.PENDING },
+      ]);
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    it('suggests specializations by their readable name', async () => {
+      const { suggestions } = await service.getSearchSuggestions({ query: 'pedi', type: 'specializations', limit: 5 });
+
+      expect(suggestions).toEqual([{ type: 'specialization', value: 'pediatric', label: 'Pediatric' }]);
+    });
+
+    it('returns nothing for a blank query', async () => {
+      await expect(service.getSearchSuggestions({ query: '  ', type: 'all', limit: 5 }))
+        .resolves.toEqual({ query: '', suggestions: [] });
+    });
+  });
+});
@@ -0,0 +1,615 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile, NurseProfileDocument, SpecializationType } from '../schemas/nurse-profile.schema';
+import {
+  PatientRequest,
+  PatientRequestDocument,
+  RequestStatus,
+  ServiceType
+} from '../schemas/patient-request.schema';
+
+export interface GeoFilter {
+  latitude: number;
+  longitude: number;
+  radius: number; // in kilometers
+}
+
+export interface NurseSearchParams {
+  query?: string;
+  location?: GeoFilter;
+  specializations?: string[];
+  minRating?: number;
+  maxHourlyRate?: number;
+  minExperience?: number;
+  availableOnly?: boolean;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  page: number;
+  limit: number;
+  cursor?: string;
+}
+
+export interface RequestSearchParams {
+  query?: string;
+  serviceTypes?: string[];
+  urgencyLevel?: string;
+  minBudget?: number;
+  maxBudget?: number;
+  dateRange?: { from: Date; to: Date };
+  location?: GeoFilter;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  page: number;
+  limit: number;
+  cursor?: string;
+  userId: string;
+  userRole: UserRole;
+}
+
+export interface GlobalSearchParams {
+  query: string;
+  type: 'nurses' | 'requests' | 'all';
+  page: number;
+  limit: number;
+  userId: string;
+  userRole: UserRole;
+}
+
+export interface SuggestionParams {
+  query: string;
+  type: 'specializations' | 'locations' | 'services' | 'all';
+  limit: number;
+}
+
+interface SearchCursor {
+  value: number | string;
+  isDate: boolean;
+  id: string;
+}
+
+const MAX_PAGE_SIZE = 50;
+const NURSE_SORT_FIELDS = ['rating', 'hourlyRate', 'experience', 'distance'];
+const REQUEST_SORT_FIELDS = ['createdAt', 'scheduledDate', 'budget', 'urgencyLevel', 'distance'];
+const URGENCY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+@Injectable()
+export class SearchService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+  ) {}
+
+  /**
+   * Search verified nurses. Filters on the nurse's user record (text, location)
+   * run first, the profile is joined in and the remaining filters, sorting,
+   * facets and pagination are applied in a single aggregation.
+   */
+  async searchNurses(params: NurseSearchParams) {
+    const limit = this.normalizeLimit(params.limit);
+    const page = Math.max(1, Number(params.page) || 1);
+    const direction = params.sortOrder === 'asc' ? 1 : -1;
+    const sortBy = NURSE_SORT_FIELDS.includes(params.sortBy) ? params.sortBy : 'rating';
+
+    if (sortBy === 'distance' && !params.location) {
+      throw new BadRequestException('Latitude and longitude are required to sort by distance');
+    }
+
+    const userMatch: any = { role: UserRole.NURSE, status: UserStatus.VERIFIED };
+
+    if (params.query?.trim()) {
+      userMatch._id = { $in: await this.findNurseIdsByText(params.query.trim()) };
+    }
+
+    const pipeline: PipelineStage[] = [
+      this.buildLocationStage(userMatch, params.location),
+      {
+        $lookup: {
+          from: this.nurseProfileModel.collection.name,
+          localField: '_id',
+          foreignField: 'userId',
+          as: 'profile',
+        },
+      },
+      { $unwind: '$profile' },
+    ];
+
+    // Nurses whose license lapsed stay hidden until a renewal is approved
+    const profileMatch: any = { 'profile.licenseExpiredAt': null };
+    if (params.minRating != null) {
+      profileMatch['profile.rating'] = { $gte: Number(params.minRating) };
+    }
+    if (params.maxHourlyRate != null) {
+      profileMatch['profile.hourlyRate'] = { $lte: Number(params.maxHourlyRate) };
+    }
+    if (params.minExperience != null) {
+      profileMatch['profile.yearsOfExperience'] = { $gte: Number(params.minExperience) };
+    }
+    if (params.availableOnly) {
+      profileMatch['profile.isAvailable'] = { $ne: false };
+    }
+    pipeline.push({ $match: profileMatch });
+
+    pipeline.push({ $addFields: { sortValue: this.getNurseSortExpression(sortBy) } });
+
+    // The specialization filter is kept out of the specialization facet so the
+    // counts still show how many nurses each other specialization would return
+    const specializationMatch = params.specializations?.length
+      ? { 'profile.specializations': { $in: params.specializations } }
+      : {};
+
+    pipeline.push({
+      $facet: {
+        results: this.buildPageStages(specializationMatch, params.cursor, direction, page, limit),
+        total: [{ $match: specializationMatch }, { $count: 'count' }],
+        specializations: [
+          { $unwind: '$profile.specializations' },
+          { $group: { _id: '$profile.specializations', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+        ],
+        availability: [
+          { $match: specializationMatch },
+          { $group: { _id: { $ne: ['$profile.isAvailable', false] }, count: { $sum: 1 } } },
+        ],
+      },
+    });
+
+    const [result] = await this.userModel.aggregate(pipeline).exec();
+    const { items, pagination } = this.buildPage(result, page, limit);
+
+    return {
+      nurses: items.map(nurse => this.formatNurse(nurse)),
+      facets: {
+        specializations: this.formatFacet(result.specializations),
+        availability: {
+          available: result.availability.find((bucket: any) => bucket._id === true)?.count || 0,
+          unavailable: result.availability.find((bucket: any) => bucket._id === false)?.count || 0,
+        },
+      },
+      pagination,
+    };
+  }
+
+  /**
+   * Search patient requests. Patients only see their own requests, nurses see
+   * open requests plus the ones assigned to them and admins see everything.
+   */
+  async searchRequests(params: RequestSearchParams) {
+    const limit = this.normalizeLimit(params.limit);
+    const page = Math.max(1, Number(params.page) || 1);
+    const direction = params.sortOrder === 'asc' ? 1 : -1;
+    const sortBy = REQUEST_SORT_FIELDS.includes(params.sortBy) ? params.sortBy : 'createdAt';
+
+    if (sortBy === 'distance' && !params.location) {
+      throw new BadRequestException('Latitude and longitude are required to sort by distance');
+    }
+
+    const match: any = {};
+
+    if (params.userRole === UserRole.PATIENT) {
+      match.patientId = this.toObjectId(params.userId);
+    } else if (params.userRole === UserRole.NURSE) {
+      match.$or = [
+        { nurseId: this.toObjectId(params.userId) },
+        { status: RequestStatus.PENDING },
+      ];
+    }
+
+    if (params.query?.trim()) {
+      const matches = await this.requestModel
+        .find({ $text: { $search: params.query.trim() } })
+        .select('_id')
+        .lean()
+        .exec();
+      match._id = { $in: matches.map(request => request._id) };
+    }
+
+    if (params.minBudget != null || params.maxBudget != null) {
+      match.budget = {};
+      if (params.minBudget != null) match.budget.$gte = Number(params.minBudget);
+      if (params.maxBudget != null) match.budget.$lte = Number(params.maxBudget);
+    }
+
+    if (params.dateRange) {
+      if (isNaN(params.dateRange.from.getTime()) || isNaN(params.dateRange.to.getTime())) {
+        throw new BadRequestException('dateFrom and dateTo must be valid ISO dates');
+      }
+      match.scheduledDate = { $gte: params.dateRange.from, $lte: params.dateRange.to };
+    }
+
+    const pipeline: PipelineStage[] = [
+      this.buildLocationStage(match, params.location),
+      { $addFields: { sortValue: this.getRequestSortExpression(sortBy) } },
+    ];
+
+    // Facetable filters are applied per facet branch, each facet ignoring its own filter
+    const serviceTypeMatch = params.serviceTypes?.length
+      ? { serviceType: { $in: params.serviceTypes } }
+      : {};
+    const urgencyMatch = params.urgencyLevel ? { urgencyLevel: params.urgencyLevel } : {};
+    const filteredMatch = { ...serviceTypeMatch, ...urgencyMatch };
+
+    pipeline.push({
+      $facet: {
+        results: [
+          ...this.buildPageStages(filteredMatch, params.cursor, direction, page, limit),
+          {
+            $lookup: {
+              from: this.userModel.collection.name,
+              localField: 'patientId',
+              foreignField: '_id',
+              as: 'patient',
+              pipeline: [{ $project: { name: 1, profileImage: 1 } }],
+            },
+          },
+        ],
+        total: [{ $match: filteredMatch }, { $count: 'count' }],
+        serviceTypes: [
+          { $match: urgencyMatch },
+          { $group: { _id: '$serviceType', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+        ],
+        urgencyLevels: [
+          { $match: serviceTypeMatch },
+          { $group: { _id: '$urgencyLevel', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+        ],
+      },
+    });
+
+    const [result] = await this.requestModel.aggregate(pipeline).exec();
+    const { items, pagination } = this.buildPage(result, page, limit);
+
+    return {
+      requests: items.map(request => this.formatRequest(request)),
+      facets: {
+        serviceTypes: this.formatFacet(result.serviceTypes),
+        urgencyLevels: this.formatFacet(result.urgencyLevels),
+      },
+      pagination,
+    };
+  }
+
+  async globalSearch(params: GlobalSearchParams) {
+    const query = params.query?.trim();
+    if (!query) {
+      throw new BadRequestException('Search query is required');
+    }
+
+    const [nurses, requests] = await Promise.all([
+      params.type === 'requests'
+        ? null
+        : this.searchNurses({
+            query,
+            sortBy: 'rating',
+            sortOrder: 'desc',
+            page: params.page,
+            limit: params.limit,
+          }),
+      params.type === 'nurses'
+        ? null
+        : this.searchRequests({
+            query,
+            sortBy: 'createdAt',
+            sortOrder: 'desc',
+            page: params.page,
+            limit: params.limit,
+            userId: params.userId,
+            userRole: params.userRole,
+          }),
+    ]);
+
+    return {
+      query,
+      type: params.type,
+      ...(nurses && { nurses: { results: nurses.nurses, pagination: nurses.pagination } }),
+      ...(requests && { requests: { results: requests.requests, pagination: requests.pagination } }),
+    };
+  }
+
+  /**
+   * Typeahead suggestions. Matches at the start of a word rank above matches
+   * in the middle of one.
+   */
+  async getSearchSuggestions(params: SuggestionParams) {
+    const term = params.query?.trim();
+    if (!term) {
+      return { query: '', suggestions: [] };
+    }
+
+    const limit = Math.min(Math.max(1, Number(params.limit) || 5), 20);
+    const pattern = new RegExp(this.escapeRegex(term), 'i');
+    const wordStart = new RegExp(`(^|[\\s_,-])${this.escapeRegex(term)}`, 'i');
+    const includes = (type: string) => params.type === 'all' || params.type === type;
+
+    const suggestions: Array<{ type: string; value: string; label: string }> = [];
+
+    if (includes('specializations')) {
+      Object.values(SpecializationType)
+        .filter(value => pattern.test(value) || pattern.test(this.humanize(value)))
+        .forEach(value => suggestions.push({ type: 'specialization', value, label: this.humanize(value) }));
+    }
+
+    if (includes('services')) {
+      Object.values(ServiceType)
+        .filter(value => pattern.test(value) || pattern.test(this.humanize(value)))
+        .forEach(value => suggestions.push({ type: 'service', value, label: this.humanize(value) }));
+    }
+
+    if (includes('locations')) {
+      const addresses: string[] = await this.userModel
+        .distinct('address', { role: UserRole.NURSE, status: UserStatus.VERIFIED, address: pattern })
+        .exec();
+      addresses
+        .filter(Boolean)
+        .slice(0, limit * 2)
+        .forEach(address => suggestions.push({ type: 'location', value: address, label: address }));
+    }
+
+    if (params.type === 'all') {
+      const nurses = await this.userModel
+        .find({ role: UserRole.NURSE, status: UserStatus.VERIFIED, name: wordStart })
+        .select('name')
+        .limit(limit)
+        .lean()
+        .exec();
+      nurses.forEach(nurse => suggestions.push({
+        type: 'nurse',
+        value: String(nurse._id),
+        label: nurse.name || '',
+      }));
+    }
+
+    const ranked = suggestions
+      .map(suggestion => ({ suggestion, rank: wordStart.test(suggestion.label) ? 0 : 1 }))
+      .sort((a, b) => a.rank - b.rank || a.suggestion.label.localeCompare(b.suggestion.label))
+      .slice(0, limit)
+      .map(({ suggestion }) => suggestion);
+
+    return { query: term, suggestions: ranked };
+  }
+
+  private async findNurseIdsByText(query: string): Promise<Types.ObjectId[]> {
+    const [users, profiles] = await Promise.all([
+      this.userModel
+        .find({ $text: { $search: query }, role: UserRole.NURSE })
+        .select('_id')
+        .lean()
+        .exec(),
+      this.nurseProfileModel
+        .find({ $text: { $search: query } })
+        .select('userId')
+        .lean()
+        .exec(),
+    ]);
+
+    const ids = new Map<string, Types.ObjectId>();
+    users.forEach(user => ids.set(String(user._id), user._id as Types.ObjectId));
+    profiles
+      .filter(profile => profile.userId)
+      .forEach(profile => ids.set(String(profile.userId), profile.userId as Types.ObjectId));
+
+    return Array.from(ids.values());
+  }
+
+  /**
+   * $geoNear has to be the first stage of the pipeline, so the base match is
+   * passed through as its query when a location filter is present.
+   */
+  private buildLocationStage(match: any, location?: GeoFilter): PipelineStage {
+    if (!location) {
+      return { $match: match };
+    }
+
+    return {
+      $geoNear: {
+        near: {
+          type: 'Point',
+          coordinates: [Number(location.longitude), Number(location.latitude)],
+        },
+        distanceField: 'distance',
+        maxDistance: Number(location.radius) * 1000, // Convert km to meters
+        spherical: true,
+        query: match,
+      },
+    };
+  }
+
+  private buildPageStages(
+    match: any,
+    cursor: string | undefined,
+    direction: 1 | -1,
+    page: number,
+    limit: number,
+  ): any[] {
+    const stages: any[] = [];
+
+    if (cursor) {
+      const { value, isDate, id } = this.decodeCursor(cursor);
+      const sortValue = isDate ? new Date(value) : value;
+      const comparator = direction === 1 ? '$gt' : '$lt';
+
+      stages.push({
+        $match: {
+          ...match,
+          $or: [
+            { sortValue: { [comparator]: sortValue } },
+            { sortValue, _id: { [comparator]: new Types.ObjectId(id) } },
+          ],
+        },
+      });
+    } else {
+      stages.push({ $match: match });
+    }
+
+    stages.push({ $sort: { sortValue: direction, _id: direction } });
+
+    if (!cursor && page > 1) {
+      stages.push({ $skip: (page - 1) * limit });
+    }
+
+    // Fetch one extra document to know whether another page exists
+    stages.push({ $limit: limit + 1 });
+
+    return stages;
+  }
+
+  private buildPage(result: any, page: number, limit: number) {
+    const total = result.total[0]?.count || 0;
+    const hasMore = result.results.length > limit;
+    const items: any[] = result.results.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor: hasMore && last ? this.encodeCursor(last.sortValue, last._id) : null,
+      },
+    };
+  }
+
+  private encodeCursor(sortValue: any, id: any): string {
+    const cursor: SearchCursor = {
+      value: sortValue instanceof Date ? sortValue.toISOString() : sortValue,
+      isDate: sortValue instanceof Date,
+      id: String(id),
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): SearchCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (!Types.ObjectId.isValid(decoded.id)) {
+        throw new Error('Invalid cursor id');
+      }
+      return decoded;
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+  }
+
+  private getNurseSortExpression(sortBy: string): any {
+    switch (sortBy) {
+      case 'hourlyRate':
+        return { $ifNull: ['$profile.hourlyRate', 0] };
+      case 'experience':
+        return { $ifNull: ['$profile.yearsOfExperience', 0] };
+      case 'distance':
+        return '$distance';
+      default:
+        return { $ifNull: ['$profile.rating', 0] };
+    }
+  }
+
+  private getRequestSortExpression(sortBy: string): any {
+    switch (sortBy) {
+      case 'scheduledDate':
+        return '$scheduledDate';
+      case 'budget':
+        return { $ifNull: ['$budget', 0] };
+      case 'urgencyLevel':
+        return {
+          $switch: {
+            branches: Object.entries(URGENCY_RANK).map(([level, rank]) => ({
+              case: { $eq: ['$urgencyLevel', level] },
+              then: rank,
+            })),
+            default: 0,
+          },
+        };
+      case 'distance':
+        return '$distance';
+      default:
+        return '$createdAt';
+    }
+  }
+
+  private normalizeLimit(limit: number): number {
+    return Math.min(Math.max(1, Number(limit) || 10), MAX_PAGE_SIZE);
+  }
+
+  private toObjectId(id: any): Types.ObjectId {
+    return new Types.ObjectId(id.toString());
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private humanize(value: string): string {
+    return value
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private toKilometers(meters?: number): number | undefined {
+    return meters == null ? undefined : Math.round(meters / 10) / 100;
+  }
+
+  private formatFacet(buckets: Array<{ _id: string; count: number }>) {
+    return buckets
+      .filter(bucket => bucket._id)
+      .map(bucket => ({ value: bucket._id, label: this.humanize(bucket._id), count: bucket.count }));
+  }
+
+  // Public shape: search needs no login, so no contact details or license numbers
+  private formatNurse(nurse: any) {
+    const profile = nurse.profile || {};
+
+    return {
+      id: nurse._id,
+      name: nurse.name,
+      location: nurse.location,
+      address: nurse.address,
+      profileImage: nurse.profileImage,
+      distance: this.toKilometers(nurse.distance),
+      yearsOfExperience: profile.yearsOfExperience,
+      specializations: profile.specializations || [],
+      education: profile.education,
+      certifications: profile.certifications,
+      rating: profile.rating || 0,
+      totalReviews: profile.totalReviews || 0,
+      completedJobs: profile.completedJobs || 0,
+      hourlyRate: profile.hourlyRate,
+      bio: profile.bio,
+      languages: profile.languages || [],
+      isAvailable: profile.isAvailable !== false,
+      createdAt: nurse.createdAt,
+    };
+  }
+
+  private formatRequest(request: any) {
+    const patient = request.patient?.[0];
+
+    return {
+      id: request._id,
+      title: request.title,
+      description: request.description,
+      serviceType: request.serviceType,
+      status: request.status,
+      location: request.location,
+      address: request.address,
+      distance: this.toKilometers(request.distance),
+      scheduledDate: request.scheduledDate,
+      estimatedDuration: request.estimatedDuration,
+      urgencyLevel: request.urgencyLevel,
+      specialRequirements: request.specialRequirements,
+      budget: request.budget,
+      createdAt: request.createdAt,
+      patient: patient ? {
+        id: patient._id,
+        name: patient.name,
+        profileImage: patient.profileImage,
+      } : null,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { NurseProfileCompletionService } from './nurse-profile-completion.service';
+import { User, UserStatus } from '../schemas/user.schema';
+import { NurseProfile, ProfileCompletionStatus } from '../schemas/nurse-profile.schema';
+import { ProfileSubmission, SubmissionStatus } from '../schemas/profile-submission.schema';
+import { AuthService } from '../auth/auth.service';
+
+describe('NurseProfileCompletionService', () => {
+  let service: NurseProfileCompletionService;
+  let profileSubmissionModel: jest.Mock & { findOne: jest.Mock };
+  let userModel: { findById: jest.Mock; exists: jest.Mock };
+  let authService: { sendEmailVerification: jest.Mock };
+  let profile: any;
+  let user: any;
+
+  const userId = String(new Types.ObjectId());
+
+  // Submission that came back from review with changes requested on the license scan
+  const reviewed = (feedback = [{ field: 'licenseDocument', message: 'License scan unreadable' }]) => ({
+    _id: new Types.ObjectId(),
+    version: 1,
+    status: SubmissionStatus.REQUIRES_CHANGES,
+    feedback,
+    snapshot: {
+      fullName: 'Mona Ali',
+      emailAddress: 'mona@example.com',
+      licenseNumber: 'EG-1',
+      licenseDocument: { fileName: 'blurry.jpg' },
+    },
+  });
+
+  const latest = (submission: any) =>
+    profileSubmissionModel.findOne.mockReturnValue({ sort: () => ({ exec: async () => submission }) });
+
+  const upload = (filename: string) => ({ filename, originalname: filename, mimetype: 'image/jpeg', size: 2048 }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    profile = {
+      _id: new Types.ObjectId(),
+      userId: new Types.ObjectId(userId),
+      fullName: 'Mona Ali',
+      emailAddress: 'mona@example.com',
+      licenseNumber: 'EG-1',
+      licenseDocument: { fileName: 'blurry.jpg' },
+      completionStatus: ProfileCompletionStatus.REJECTED,
+      rejectionReason: 'Fix the flagged items',
+      save: jest.fn().mockResolvedValue(undefined),
+      toObject() {
+        const { save, toObject, ...fields } = this;
+        return fields;
+      },
+    };
+    user = {
+      _id: new Types.ObjectId(userId),
+      email: 'mona@example.com',
+      emailVerified: true,
+      status: UserStatus.PENDING,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    // Used with `new`, so it hands back a document with a working save
+    profileSubmissionModel = Object.assign(
+      jest.fn().mockImplementation((data: any) => ({ _id: new Types.ObjectId(), ...data, save: async () => ({ _id: new Types.ObjectId(), ...data }) })),
+      { findOne: jest.fn() },
+    );
+    userModel = { findById: jest.fn().mockResolvedValue(user), exists: jest.fn().mockResolvedValue(null) };
+    authService = { sendEmailVerification: jest.fn().mockResolvedValue(undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NurseProfileCompletionService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(NurseProfile.name), useValue: { findOne: jest.fn().mockResolvedValue(profile) } },
+        { provide: getModelToken(ProfileSubmission.name), useValue: profileSubmissionModel },
+        { provide: AuthService, useValue: authService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NurseProfileCompletionService);
+  });
+
+  describe('resubmitProfile', () => {
+    it('stores the fixed profile as a new version that lists what changed', async () => {
+      const previous = reviewed();
+      latest(previous);
+
+      const result = await service.resubmitProfile(userId, {}, { licenseDocument: [upload('clear.jpg')] });
+
+      expect(result).toEqual({ submissionId: expect.any(String), version: 2, changedFields: ['licenseDocument'] });
+      expect(profileSubmissionModel).toHaveBeenCalledWith(expect.objectContaining({
+        version: 2,
+        previousSubmissionId: previous._id,
+        status: SubmissionStatus.PENDING,
+        snapshot: expect.objectContaining({ licenseDocument: expect.objectContaining({ fileUrl: '/uploads/nurse-documents/clear.jpg' }) }),
+      }));
+      expect(profile.completionStatus).toBe(ProfileCompletionStatus.SUBMITTED);
+      expect(profile.rejectionReason).toBeUndefined();
+    });
+
+    it('only accepts changes to the flagged items', async () => {
+      latest(reviewed());
+
+      await expect(service.resubmitProfile(userId, { licenseNumber: 'EG-2' }, { licenseDocument: [upload('clear.jpg')] }))
+        .rejects.toThrow('Only the flagged items can be changed, not: licenseNumber');
+      expect(profile.save).not.toHaveBeenCalled();
+    });
+
+    it('needs every flagged item to be updated', async () => {
+      latest(reviewed([
+        { field: 'licenseDocument', message: 'License scan unreadable' },
+        { field: 'licenseNumber', message: 'Does not match the scan' },
+      ]));
+
+      await expect(service.resubmitProfile(userId, { licenseNumber: 'EG-2' }))
+        .rejects.toThrow('Update every flagged item before resubmitting. Missing: licenseDocument');
+    });
+
+    it('refuses a resubmission nobody asked for', async () => {
+      latest({ ...reviewed(), status: SubmissionStatus.PENDING });
+
+      await expect(service.resubmitProfile(userId, { licenseNumber: 'EG-2' })).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('asks the nurse to verify a changed email address again', async () => {
+      latest(reviewed([{ field: 'emailAddress', message: 'Use your work address' }]));
+
+      await service.resubmitProfile(userId, { emailAddress: 'mona@hospital.example' });
+
+      expect(user.email).toBe('mona@hospital.example');
+      expect(user.emailVerified).toBe(false);
+      expect(authService.sendEmailVerification).toHaveBeenCalledWith(user);
+    });
+
+    it('refuses an email address another account uses', async () => {
+      latest(reviewed([{ field: 'emailAddress', message: 'Use your work address' }]));
+      userModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+      await expect(service.resubmitProfile(userId, { emailAddress: 'taken@example.com' }))
+        .rejects.toThrow('This email address is already in use');
+      expect(profile.save).not.toHaveBeenCalled();
+      expect(user.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRequestedChanges', () => {
+    it('pairs each flagged item with its current value', async () => {
+      latest(reviewed());
+
+      const changes = await service.getRequestedChanges(userId);
+
+      expect(changes.feedback).toEqual([
+        { field: 'licenseDocument', message: 'License scan unreadable', currentValue: { fileName: 'blurry.jpg' } },
+      ]);
+    });
+  });
+
+  it('keeps the regular profile steps closed while changes are requested', async () => {
+    latest(reviewed());
+
+    await expect(service.saveStep1(userId, { fullName: 'Mona', emailAddress: 'mona@example.com' } as any))
+      .rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
@@ -1,9 +1,17 @@
-import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
+import { isEmail } from 'class-validator';
 import { User, UserDocument, UserStatus } from '../schemas/user.schema';
-import { NurseProfile, NurseProfileDocument, ProfileCompletionStatus } from '../schemas/nurse-profile.schema';
-import { ProfileSubmission, ProfileSubmissionDocument, SubmissionStatus } from '../schemas/profile-submission.schema';
+import { NurseProfile, NurseProfileDocument, ProfileCompletionStatus, DocumentUpload } from '../schemas/nurse-profile.schema';
+import {
+  ProfileSubmission,
+  ProfileSubmissionDocument,
+  SubmissionStatus,
+  REVIEWABLE_PROFILE_FIELDS,
+  ReviewableProfileField,
+} from '../schemas/profile-submission.schema';
+import { AuthService } from '../auth/auth.service';
 import { 
   Step1BasicInfoDto, 
   Step2VerificationDto, 
@@ -12,12 +20,18 @@ import {
   AdminReviewDto 
 } from '../dto/nurse-profile-completion.dto';
 
+const DOCUMENT_FIELDS: ReviewableProfileField[] = ['licenseDocument', 'backgroundCheckDocument', 'resumeDocument', 'additionalDocuments'];
+const DATE_FIELDS: ReviewableProfileField[] = ['licenseExpirationDate', 'certificationExpirationDate', 'graduationDate'];
+
 @Injectable()
 export class NurseProfileCompletionService {
+  private readonly logger = new Logger(NurseProfileCompletionService.name);
+
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
     @InjectModel(ProfileSubmission.name) private profileSubmissionModel: Model<ProfileSubmissionDocument>,
+    private authService: AuthService,
   ) {}
 
   // Get current profile completion status
@@ -54,6 +68,8 @@ export class NurseProfileCompletionService {
 
   // Step 1: Save basic information
   async saveStep1(userId: string, data: Step1BasicInfoDto): Promise<void> {
+    await this.assertNoChangesRequested(userId);
+
     const user = await this.userModel.findById(userId);
     if (!user || user.role !== 'nurse') {
       throw new BadRequestException('User is not a nurse');
@@ -82,6 +98,8 @@ export class NurseProfileCompletionService {
 
   // Step 2: Save verification documents
   async saveStep2(userId: string, data: Step2VerificationDto): Promise<void> {
+    await this.assertNoChangesRequested(userId);
+
     // Use upsert so nurse profile is created if missing
     await this.nurseProfileModel.findOneAndUpdate(
       { userId },
@@ -102,6 +120,8 @@ export class NurseProfileCompletionService {
 
   // Step 3: Save complete profile
   async saveStep3(userId: string, data: Step3CompleteProfileDto): Promise<void> {
+    await this.assertNoChangesRequested(userId);
+
     const nurseProfile = await this.nurseProfileModel.findOne({ userId });
     if (!nurseProfile) {
       throw new NotFoundException('Nurse profile not found');
@@ -143,6 +163,8 @@ export class NurseProfileCompletionService {
       throw new BadRequestException('All steps must be completed before submission');
     }
 
+    await this.assertNoChangesRequested(userId);
+
     // Update profile status
     await this.nurseProfileModel.findOneAndUpdate(
       { userId },
@@ -159,9 +181,127 @@ export class NurseProfileCompletionService {
     });
 
     // Create submission record for admin review
+    await this.createSubmission(nurseProfile);
+  }
+
+  // The latest submission's requested changes, with the current values of the flagged items
+  async getRequestedChanges(userId: string) {
+    const submission = await this.findLatestSubmission(userId);
+    if (!submission || submission.status !== SubmissionStatus.REQUIRES_CHANGES) {
+      throw new NotFoundException('No changes have been requested on your profile');
+    }
+
+    const nurseProfile = await this.nurseProfileModel.findOne({ userId });
+    if (!nurseProfile) {
+      throw new NotFoundException('Nurse profile not found');
+    }
+
+    const current = this.snapshotProfile(nurseProfile);
+    return {
+      submissionId: String(submission._id),
+      version: submission.version,
+      reviewedAt: submission.reviewedAt,
+      rejectionReason: submission.rejectionReason,
+      feedback: submission.feedback.map(item => ({
+        field: item.field,
+        message: item.message,
+        currentValue: current[item.field],
+      })),
+    };
+  }
+
+  /**
+   * Resubmits a profile after the admin requested changes. Only the flagged
+   * items can be changed, and all of them must be. Files arrive under the
+   * document field names; everything else in the body.
+   */
+  async resubmitProfile(userId: string, body: Record<string, any>, files: { [field: string]: Express.Multer.File[] } = {}) {
+    const previous = await this.findLatestSubmission(userId);
+    if (!previous || previous.status !== SubmissionStatus.REQUIRES_CHANGES) {
+      throw new BadRequestException('No changes have been requested on your profile');
+    }
+
+    const nurseProfile = await this.nurseProfileModel.findOne({ userId });
+    if (!nurseProfile) {
+      throw new NotFoundException('Nurse profile not found');
+    }
+
+    const flagged = new Set(previous.feedback.map(item => item.field));
+    const provided = REVIEWABLE_PROFILE_FIELDS.filter(field => body[field] !== undefined || files[field]?.length);
+
+    const unexpected = provided.filter(field => !flagged.has(field));
+    if (unexpected.length > 0) {
+      throw new BadRequestException(`Only the flagged items can be changed, not: ${unexpected.join(', ')}`);
+    }
+
+    const missing = [...flagged].filter(field => !provided.includes(field));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Update every flagged item before resubmitting. Missing: ${missing.join(', ')}`);
+    }
+
+    const updates: Record<string, any> = {};
+    for (const field of flagged) {
+      updates[field] = this.parseResubmittedValue(field, body[field], files[field]);
+    }
+
+    // The profile email is also the login email, so a new one must be free before anything is saved
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    const emailChanged = updates.emailAddress !== undefined && updates.emailAddress !== user.email;
+    if (emailChanged && await this.userModel.exists({ email: updates.emailAddress, _id: { $ne: user._id } })) {
+      throw new BadRequestException('This email address is already in use');
+    }
+
+    Object.assign(nurseProfile, updates, {
+      completionStatus: ProfileCompletionStatus.SUBMITTED,
+      submittedAt: new Date(),
+      lastUpdated: new Date(),
+      rejectionReason: undefined,
+    });
+    await nurseProfile.save();
+
+    // Basic information is mirrored on the user, as in step 1
+    user.status = UserStatus.PENDING;
+    if (updates.fullName) user.name = updates.fullName;
+    if (emailChanged) {
+      // A new login email has to be verified again, like at registration
+      user.email = updates.emailAddress;
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+    await user.save();
+
+    if (emailChanged) {
+      try {
+        await this.authService.sendEmailVerification(user);
+      } catch (error) {
+        // Don't fail the resubmission if the email cannot be sent; a new link can be requested from the login page
+        this.logger.error(`Failed to send a verification email to nurse ${userId}:`, error);
+      }
+    }
+
+    const submission = await this.createSubmission(nurseProfile, previous);
+
+    return {
+      submissionId: String(submission._id),
+      version: submission.version,
+      changedFields: submission.changedFields,
+    };
+  }
+
+  private async createSubmission(nurseProfile: NurseProfileDocument, previous?: ProfileSubmissionDocument | null) {
+    const latest = previous ?? await this.findLatestSubmission(String(nurseProfile.userId));
+    const snapshot = this.snapshotProfile(nurseProfile);
+
     const submission = new this.profileSubmissionModel({
-      userId,
+      userId: nurseProfile.userId,
       nurseProfileId: nurseProfile._id,
+      version: (latest?.version ?? 0) + 1,
+      snapshot,
+      changedFields: latest ? this.diffSnapshots(latest.snapshot || {}, snapshot) : [],
+      previousSubmissionId: latest?._id,
       status: SubmissionStatus.PENDING,
       submittedAt: new Date(),
       adminNotified: false,
@@ -170,7 +310,81 @@ export class NurseProfileCompletionService {
       actionHistory: [],
     });
 
-    await submission.save();
+    return submission.save();
+  }
+
+  private findLatestSubmission(userId: string) {
+    return this.profileSubmissionModel.findOne({ userId }).sort({ version: -1, submittedAt: -1 }).exec();
+  }
+
+  // While changes are requested the profile is only edited through resubmission
+  private async assertNoChangesRequested(userId: string) {
+    const latest = await this.findLatestSubmission(userId);
+    if (latest?.status === SubmissionStatus.REQUIRES_CHANGES) {
+      throw new ForbiddenException('Changes were requested on your profile. Update the flagged items and resubmit.');
+    }
+  }
+
+  // Plain JSON copy of the reviewable fields, so versions compare and store as-is
+  private snapshotProfile(nurseProfile: NurseProfileDocument): Partial<Record<ReviewableProfileField, any>> {
+    const profile = nurseProfile.toObject();
+    const snapshot: Partial<Record<ReviewableProfileField, any>> = {};
+    for (const field of REVIEWABLE_PROFILE_FIELDS) {
+      if (profile[field] !== undefined && profile[field] !== null) {
+        snapshot[field] = JSON.parse(JSON.stringify(profile[field]));
+      }
+    }
+    return snapshot;
+  }
+
+  private diffSnapshots(before: Partial<Record<ReviewableProfileField, any>>, after: Partial<Record<ReviewableProfileField, any>>) {
+    return REVIEWABLE_PROFILE_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+  }
+
+  private parseResubmittedValue(field: ReviewableProfileField, value: any, files?: Express.Multer.File[]) {
+    if (DOCUMENT_FIELDS.includes(field)) {
+      if (!files?.length) {
+        throw new BadRequestException(`Upload a new file for ${field}`);
+      }
+      const documents: DocumentUpload[] = files.map(file => ({
+        fileName: file.filename,
+        originalName: file.originalname,
+        fileUrl: `/uploads/nurse-documents/${file.filename}`,
+        fileType: file.mimetype,
+        fileSize: file.size,
+        documentType: field,
+        uploadedAt: new Date(),
+      }));
+      return field === 'additionalDocuments' ? documents : documents[0];
+    }
+
+    if (DATE_FIELDS.includes(field)) {
+      const date = new Date(value);
+      if (typeof value !== 'string' || isNaN(date.getTime())) {
+        throw new BadRequestException(`${field} must be a valid date`);
+      }
+      return date;
+    }
+
+    if (field === 'skills') {
+      // Multipart sends either repeated fields or one comma-separated value
+      const skills = (Array.isArray(value) ? value : String(value).split(','))
+        .map(skill => String(skill).trim())
+        .filter(Boolean);
+      if (skills.length === 0) {
+        throw new BadRequestException('List at least one skill');
+      }
+      return skills;
+    }
+
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text) {
+      throw new BadRequestException(`${field} cannot be empty`);
+    }
+    if (field === 'emailAddress' && !isEmail(text)) {
+      throw new BadRequestException('emailAddress must be a valid email address');
+    }
+    return text;
   }
 
   // Get profile data for a specific step
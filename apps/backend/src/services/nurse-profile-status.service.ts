@@ -170,10 +170,11 @@ export class NurseProfileStatusService {
         };
 
       case ProfileCompletionStatus.REJECTED:
+        // Changes were requested; the rejection page lists them and links to resubmission
         return {
           ...baseStatus,
-          redirectTo: '/profile-rejected',
-          reason: 'Profile was rejected',
+          redirectTo: '/account-rejected',
+          reason: 'Changes requested on your profile',
           nextRequiredAction: 'resubmit_profile',
         };
 
@@ -27,44 +27,11 @@ import {
   ApiConsumes,
   ApiBody
 } from '@nestjs/swagger';
-import { diskStorage } from 'multer';
-import { extname, join } from 'path';
-import { existsSync, mkdirSync, unlinkSync } from 'fs';
 import { UploadsService } from './uploads.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard, Roles } from '../auth/roles.guard';
 import { UserRole } from '../schemas/user.schema';
-
-// File upload configuration
-const imageFileFilter = (req: any, file: any, callback: any) => {
-  if (!file.originalname.match(/\.(jpg|jpeg|png|gif|webp)$/)) {
-    return callback(new BadRequestException('Only image files are allowed!'), false);
-  }
-  callback(null, true);
-};
-
-const documentFileFilter = (req: any, file: any, callback: any) => {
-  if (!file.originalname.match(/\.(pdf|doc|docx|jpg|jpeg|png)$/)) {
-    return callback(new BadRequestException('Only PDF, DOC, DOCX, and image files are allowed!'), false);
-  }
-  callback(null, true);
-};
-
-const createStorage = (destination: string) => {
-  return diskStorage({
-    destination: (req, file, cb) => {
-      const uploadPath = join(process.cwd(), 'uploads', destination);
-      if (!existsSync(uploadPath)) {
-        mkdirSync(uploadPath, { recursive: true });
-      }
-      cb(null, uploadPath);
-    },
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      cb(null, `${file.fieldname}-${uniqueSuffix}${extname(file.originalname)}`);
-    }
-  });
-};
+import { createStorage, imageFileFilter, documentFileFilter } from './upload-storage';
 
 @ApiTags('File Uploads')
 @Controller('api/uploads')
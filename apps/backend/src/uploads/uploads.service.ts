@@ -2,10 +2,12 @@ import { Injectable, NotFoundException, BadRequestException } from '@nestjs/comm
 import { join } from 'path';
 import { existsSync, unlinkSync, createReadStream } from 'fs';
 import { Response } from 'express';
+import { PRIVATE_UPLOADS_DIR } from './upload-storage';
 
 @Injectable()
 export class UploadsService {
   private readonly uploadsPath = join(process.cwd(), 'uploads');
+  private readonly privateUploadsPath = join(process.cwd(), PRIVATE_UPLOADS_DIR);
 
   async handleProfileImageUpload(file: Express.Multer.File, user: any) {
     const fileUrl = `/uploads/profiles/${file.filename}`;
@@ -61,6 +63,25 @@ export class UploadsService {
     };
   }
 
+  async handleWoundPhotosUpload(files: Express.Multer.File[]) {
+    return files.map(file => ({
+      filename: file.filename,
+      originalName: file.originalname,
+      fileType: file.mimetype,
+      fileSize: file.size,
+      uploadedAt: new Date(),
+    }));
+  }
+
+  // Removes a file from private storage; a file that is already gone is not an error
+  async deletePrivateFile(directory: string, filename: string) {
+    const filePath = join(this.privateUploadsPath, directory, filename);
+
+    if (existsSync(filePath)) {
+      unlinkSync(filePath);
+    }
+  }
+
   async getFile(directory: string, filename: string, res?: Response) {
     const filePath = join(this.uploadsPath, directory, filename);
     
@@ -113,8 +134,8 @@ export class UploadsService {
   }
 
   // Helper method to serve files with proper headers
-  async serveFile(directory: string, filename: string, res: Response) {
-    const filePath = join(this.uploadsPath, directory, filename);
+  async serveFile(directory: string, filename: string, res: Response, isPrivate = false) {
+    const filePath = join(isPrivate ? this.privateUploadsPath : this.uploadsPath, directory, filename);
     
     if (!existsSync(filePath)) {
       throw new NotFoundException('File not found');
@@ -138,6 +159,9 @@ export class UploadsService {
       case 'gif':
         contentType = 'image/gif';
         break;
+      case 'webp':
+        contentType = 'image/webp';
+        break;
       case 'doc':
         contentType = 'application/msword';
         break;
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { UserManagementService } from './user-management.service';
+
+@Injectable()
+export class SuspensionScheduler {
+  private readonly logger = new Logger(SuspensionScheduler.name);
+
+  constructor(private readonly userManagementService: UserManagementService) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reactivateExpiredSuspensions() {
+    try {
+      const reactivated = await this.userManagementService.reactivateExpiredSuspensions();
+      if (reactivated > 0) {
+        this.logger.log(`Reactivated ${reactivated} user(s) whose suspension expired`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to reactivate expired suspensions', error);
+    }
+  }
+}
@@ -29,6 +29,9 @@ import { UserManagementService } from './user-management.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard, Roles } from '../auth/roles.guard';
 import { UserRole } from '../schemas/user.schema';
+import { SuspendUserDto } from '../dto/user-management.dto';
+import { Audit } from '../common/decorators/audit.decorator';
+import { AuditTargetType } from '../schemas/audit-event.schema';
 
 @ApiTags('User Management')
 @Controller('api/users')
@@ -132,6 +135,7 @@ export class UserManagementController {
   @Put(':id')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'user.update', targetType: AuditTargetType.USER, targetParam: 'id' })
   @ApiOperation({
     summary: 'Update user information',
     description: 'Update user profile and settings (Admin only)'
@@ -177,6 +181,7 @@ export class UserManagementController {
   @Delete(':id')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'user.delete', targetType: AuditTargetType.USER, targetParam: 'id' })
   @ApiOperation({
     summary: 'Delete user account',
     description: 'Permanently delete a user account (Admin only)'
@@ -206,6 +211,7 @@ export class UserManagementController {
   @Patch(':id/status')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'user.status.update', targetType: AuditTargetType.USER, targetParam: 'id' })
   @ApiOperation({
     summary: 'Update user status',
     description: 'Update user verification status (Admin only)'
@@ -249,9 +255,10 @@ export class UserManagementController {
   @Patch(':id/suspend')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'user.suspend', targetType: AuditTargetType.USER, targetParam: 'id' })
   @ApiOperation({
     summary: 'Suspend user account',
-    description: 'Temporarily suspend a user account (Admin only)'
+    description: 'Suspend a user account for a number of days or indefinitely. Open requests and applications are cancelled or reopened (Admin only)'
   })
   @ApiParam({
     name: 'id',
@@ -259,15 +266,8 @@ export class UserManagementController {
     example: '507f1f77bcf86cd799439011'
   })
   @ApiBody({
-    description: 'Suspension data',
-    schema: {
-      type: 'object',
-      properties: {
-        reason: { type: 'string', example: 'Policy violation' },
-        duration: { type: 'number', example: 30 }
-      },
-      required: ['reason']
-    }
+    description: 'Suspension data. Omit duration for an indefinite suspension.',
+    type: SuspendUserDto
   })
   @ApiResponse({
     status: 200,
@@ -282,16 +282,21 @@ export class UserManagementController {
   @ApiNotFoundResponse({
     description: 'User not found'
   })
+  @ApiBadRequestResponse({
+    description: 'User is an admin or the current user'
+  })
   async suspendUser(
     @Param('id') userId: string, 
-    @Body(ValidationPipe) suspensionData: { reason: string; duration?: number }
+    @Body(ValidationPipe) suspensionData: SuspendUserDto,
+    @Request() req: any
   ) {
-    return this.userManagementService.suspendUser(userId, suspensionData.reason, suspensionData.duration);
+    return this.userManagementService.suspendUser(userId, suspensionData.reason, suspensionData.duration, req.user._id);
   }
 
   @Patch(':id/reactivate')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
+  @Audit({ action: 'user.reactivate', targetType: AuditTargetType.USER, targetParam: 'id' })
   @ApiOperation({
     summary: 'Reactivate suspended user',
     description: 'Reactivate a suspended user account (Admin only)'
@@ -314,8 +319,37 @@ export class UserManagementController {
   @ApiNotFoundResponse({
     description: 'User not found'
   })
-  async reactivateUser(@Param('id') userId: string) {
-    return this.userManagementService.reactivateUser(userId);
+  async reactivateUser(@Param('id') userId: string, @Request() req: any) {
+    return this.userManagementService.reactivateUser(userId, req.user._id);
+  }
+
+  @Get(':id/suspensions')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get suspension history',
+    description: 'List all past and current suspensions of a user (Admin only)'
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Suspension history retrieved successfully'
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or missing JWT token'
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - Admin role required'
+  })
+  @ApiNotFoundResponse({
+    description: 'User not found'
+  })
+  async getUserSuspensions(@Param('id') userId: string) {
+    return this.userManagementService.getUserSuspensions(userId);
   }
 
   @Get('stats/overview')
@@ -5,6 +5,11 @@ import { UserManagementService } from './user-management.service';
 import { User, UserSchema } from '../schemas/user.schema';
 import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
 import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schema';
+import { Application, ApplicationSchema } from '../schemas/application.schema';
+import { Suspension, SuspensionSchema } from '../schemas/suspension.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { SuspensionScheduler } from './suspension.scheduler';
 
 @Module({
   imports: [
@@ -12,10 +17,14 @@ import { NurseProfile, NurseProfileSchema } from '../schemas/nurse-profile.schem
       { name: User.name, schema: UserSchema },
       { name: PatientRequest.name, schema: PatientRequestSchema },
       { name: NurseProfile.name, schema: NurseProfileSchema },
+      { name: Application.name, schema: ApplicationSchema },
+      { name: Suspension.name, schema: SuspensionSchema },
     ]),
+    NotificationsModule,
+    PaymentsModule,
   ],
   controllers: [UserManagementController],
-  providers: [UserManagementService],
+  providers: [UserManagementService, SuspensionScheduler],
   exports: [UserManagementService],
 })
 export class UserManagementModule {}
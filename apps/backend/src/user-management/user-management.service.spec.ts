@@ -0,0 +1,185 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { UserManagementService } from './user-management.service';
+import { User, UserRole, UserStatus } from '../schemas/user.schema';
+import { NurseProfile } from '../schemas/nurse-profile.schema';
+import { PatientRequest, RequestStatus } from '../schemas/patient-request.schema';
+import { Application, ApplicationStatus } from '../schemas/application.schema';
+import { Suspension, SuspensionLiftReason } from '../schemas/suspension.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  select: () => query(value),
+  sort: () => query(value),
+  populate: () => query(value),
+  exec: async () => value,
+});
+
+describe('UserManagementService', () => {
+  let service: UserManagementService;
+  let userModel: { findById: jest.Mock };
+  let requestModel: { find: jest.Mock; updateMany: jest.Mock };
+  let applicationModel: { find: jest.Mock; updateMany: jest.Mock };
+  let suspensionModel: { create: jest.Mock; find: jest.Mock; findOne: jest.Mock };
+  let notificationsService: Record<string, jest.Mock>;
+  let paymentsService: { releaseForRequest: jest.Mock };
+
+  const adminId = String(new Types.ObjectId());
+
+  const userDoc = (fields: Record<string, any>): any => ({
+    _id: new Types.ObjectId(),
+    name: 'Test User',
+    email: 'user@example.com',
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  const suspensionDoc = (fields: Record<string, any>): any => ({
+    _id: new Types.ObjectId(),
+    isActive: true,
+    save: jest.fn().mockResolvedValue(undefined),
+    set: jest.fn(),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    userModel = { findById: jest.fn() };
+    requestModel = { find: jest.fn().mockReturnValue(query([])), updateMany: jest.fn().mockReturnValue(query({ modifiedCount: 0 })) };
+    applicationModel = { find: jest.fn().mockReturnValue(query([])), updateMany: jest.fn().mockReturnValue(query({ modifiedCount: 0 })) };
+    suspensionModel = {
+      create: jest.fn().mockImplementation(async (data: any) => suspensionDoc(data)),
+      find: jest.fn(),
+      findOne: jest.fn(),
+    };
+    notificationsService = {
+      notifyAccountSuspended: jest.fn().mockResolvedValue(undefined),
+      notifyAccountReactivated: jest.fn().mockResolvedValue(undefined),
+      notifyRequestCancelled: jest.fn().mockResolvedValue(undefined),
+      notifyRequestReopened: jest.fn().mockResolvedValue(undefined),
+    };
+    paymentsService = { releaseForRequest: jest.fn().mockResolvedValue(1) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        UserManagementService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(NurseProfile.name), useValue: {} },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: getModelToken(Application.name), useValue: applicationModel },
+        { provide: getModelToken(Suspension.name), useValue: suspensionModel },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: PaymentsService, useValue: paymentsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(UserManagementService);
+  });
+
+  describe('suspendUser', () => {
+    it('records a suspension that ends after the given number of days', async () => {
+      const patient = userDoc({ role: UserRole.PATIENT, status: UserStatus.VERIFIED });
+      userModel.findById.mockReturnValue(query(patient));
+
+      const result = await service.suspendUser(String(patient._id), 'Abusive messages', 7, adminId);
+
+      const record = suspensionModel.create.mock.calls[0][0];
+      expect(record.endsAt.getTime() - record.startsAt.getTime()).toBe(7 * DAY_MS);
+      expect(record.previousStatus).toBe(UserStatus.VERIFIED);
+      expect(patient.status).toBe(UserStatus.SUSPENDED);
+      expect(result.suspension.endsAt).toEqual(record.endsAt);
+      expect(notificationsService.notifyAccountSuspended).toHaveBeenCalledWith(String(patient._id), 'Abusive messages', record.endsAt);
+    });
+
+    it('refuses to suspend admins, the acting admin or users already suspended', async () => {
+      userModel.findById.mockReturnValue(query(userDoc({ role: UserRole.ADMIN })));
+      await expect(service.suspendUser(String(new Types.ObjectId()), 'x', 1, adminId)).rejects.toBeInstanceOf(BadRequestException);
+
+      const self = userDoc({ _id: new Types.ObjectId(adminId), role: UserRole.NURSE });
+      userModel.findById.mockReturnValue(query(self));
+      await expect(service.suspendUser(adminId, 'x', 1, adminId)).rejects.toBeInstanceOf(BadRequestException);
+
+      userModel.findById.mockReturnValue(query(userDoc({ role: UserRole.NURSE, status: UserStatus.SUSPENDED })));
+      await expect(service.suspendUser(String(new Types.ObjectId()), 'x', 1, adminId)).rejects.toBeInstanceOf(ConflictException);
+
+      expect(suspensionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('reopens a suspended nurse\'s assigned requests and tells the patients', async () => {
+      const nurse = userDoc({ role: UserRole.NURSE, status: UserStatus.VERIFIED });
+      const assigned = { _id: new Types.ObjectId(), patientId: new Types.ObjectId(), title: 'Wound dressing' };
+      userModel.findById.mockReturnValue(query(nurse));
+      applicationModel.updateMany.mockReturnValue(query({ modifiedCount: 3 }));
+      requestModel.find.mockReturnValue(query([assigned]));
+
+      const result = await service.suspendUser(String(nurse._id), 'License under review', undefined, adminId);
+
+      expect(requestModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [assigned._id] } },
+        { $set: { status: RequestStatus.PENDING }, $unset: { nurseId: '', acceptedAt: '' } },
+      );
+      expect(paymentsService.releaseForRequest).toHaveBeenCalledWith(String(assigned._id), 'Nurse account suspended');
+      expect(notificationsService.notifyRequestReopened).toHaveBeenCalledWith(
+        String(assigned.patientId), String(assigned._id), 'Wound dressing', expect.any(String),
+      );
+      expect(result.suspension).toEqual(expect.objectContaining({ endsAt: null, affectedRequests: 1, affectedApplications: 3 }));
+    });
+
+    it('cancels a suspended patient\'s open requests and turns down the nurses who applied', async () => {
+      const patient = userDoc({ role: UserRole.PATIENT, status: UserStatus.VERIFIED });
+      const open = { _id: new Types.ObjectId(), title: 'Night care' };
+      const application = { _id: new Types.ObjectId(), requestId: open._id, nurseId: new Types.ObjectId() };
+      userModel.findById.mockReturnValue(query(patient));
+      requestModel.find.mockReturnValue(query([open]));
+      applicationModel.find.mockReturnValue(query([application]));
+
+      await service.suspendUser(String(patient._id), 'Fraud', 3, adminId);
+
+      expect(requestModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [open._id] } },
+        expect.objectContaining({ status: RequestStatus.CANCELLED }),
+      );
+      expect(applicationModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [application._id] } },
+        { status: ApplicationStatus.REJECTED },
+      );
+      expect(notificationsService.notifyRequestCancelled).toHaveBeenCalledWith(
+        String(application.nurseId), String(open._id), 'Night care', expect.any(String),
+      );
+    });
+  });
+
+  describe('reactivateExpiredSuspensions', () => {
+    it('restores the status the user had before the suspension', async () => {
+      const user = userDoc({ role: UserRole.NURSE, status: UserStatus.SUSPENDED });
+      const suspension = suspensionDoc({ userId: user._id, previousStatus: UserStatus.PENDING });
+      suspensionModel.find.mockReturnValue(query([suspension]));
+      userModel.findById.mockReturnValue(query(user));
+
+      await expect(service.reactivateExpiredSuspensions()).resolves.toBe(1);
+
+      expect(user.status).toBe(UserStatus.PENDING);
+      expect(suspension.isActive).toBe(false);
+      expect(suspension.liftReason).toBe(SuspensionLiftReason.EXPIRED);
+      expect(notificationsService.notifyAccountReactivated).toHaveBeenCalledWith(String(user._id));
+    });
+
+    it('closes the suspension without touching a user an admin already changed', async () => {
+      const user = userDoc({ role: UserRole.NURSE, status: UserStatus.REJECTED });
+      const suspension = suspensionDoc({ userId: user._id, previousStatus: UserStatus.VERIFIED });
+      suspensionModel.find.mockReturnValue(query([suspension]));
+      userModel.findById.mockReturnValue(query(user));
+
+      await expect(service.reactivateExpiredSuspensions()).resolves.toBe(0);
+
+      expect(user.status).toBe(UserStatus.REJECTED);
+      expect(user.save).not.toHaveBeenCalled();
+      expect(suspension.isActive).toBe(false);
+    });
+  });
+});
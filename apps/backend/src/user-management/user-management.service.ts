@@ -3,7 +3,13 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { User, UserDocument, UserRole, UserStatus } from '../schemas/user.schema';
 import { NurseProfile, NurseProfileDocument } from '../schemas/nurse-profile.schema';
-import { PatientRequest, PatientRequestDocument } from '../schemas/patient-request.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { Application, ApplicationDocument, ApplicationStatus } from '../schemas/application.schema';
+import { Suspension, SuspensionDocument, SuspensionLiftReason } from '../schemas/suspension.schema';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class UserManagementService {
@@ -11,6 +17,10 @@ export class UserManagementService {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(NurseProfile.name) private nurseProfileModel: Model<NurseProfileDocument>,
     @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    @InjectModel(Application.name) private applicationModel: Model<ApplicationDocument>,
+    @InjectModel(Suspension.name) private suspensionModel: Model<SuspensionDocument>,
+    private notificationsService: NotificationsService,
+    private paymentsService: PaymentsService,
   ) {}
 
   async getAllUsers(filters: {
@@ -143,6 +153,13 @@ export class UserManagementService {
       profile.statistics = stats;
     }
 
+    if (user.status === UserStatus.SUSPENDED) {
+      profile.activeSuspension = await this.suspensionModel
+        .findOne({ userId: user._id, isActive: true })
+        .populate('suspendedBy', 'name email')
+        .exec();
+    }
+
     // Get recent activity
     profile.recentActivity = await this.getUserRecentActivity(user._id, user.role);
 
@@ -252,6 +269,11 @@ export class UserManagementService {
       throw new BadRequestException('Invalid status');
     }
 
+    // Suspensions need a record so they can expire and be audited
+    if (status === UserStatus.SUSPENDED) {
+      throw new BadRequestException('Use the suspend endpoint to suspend a user');
+    }
+
     user.status = status as UserStatus;
     await user.save();
 
@@ -280,18 +302,55 @@ export class UserManagementService {
     };
   }
 
-  async suspendUser(userId: string, reason: string, duration?: number) {
+  async suspendUser(userId: string, reason: string, duration: number | undefined, adminId: string) {
     const user = await this.userModel.findById(userId).exec();
     
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
+    if (String(user._id) === adminId) {
+      throw new BadRequestException('You cannot suspend your own account');
+    }
+
+    if (user.role === UserRole.ADMIN) {
+      throw new BadRequestException('Admin accounts cannot be suspended');
+    }
+
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new ConflictException('User is already suspended');
+    }
+
+    const startsAt = new Date();
+    const endsAt = duration ? new Date(startsAt.getTime() + duration * DAY_MS) : undefined;
+
+    const suspension = await this.suspensionModel.create({
+      userId: user._id,
+      suspendedBy: adminId,
+      reason,
+      startsAt,
+      endsAt,
+      previousStatus: user.status,
+    });
+
     user.status = UserStatus.SUSPENDED;
     await user.save();
 
-    // TODO: Implement suspension duration logic
-    // TODO: Cancel active requests if necessary
+    // Free up the user's open work so the other party is not left waiting
+    const affected = user.role === UserRole.NURSE
+      ? await this.releaseNurseWork(user)
+      : await this.cancelPatientWork(user);
+
+    suspension.affectedRequests = affected.requests;
+    suspension.affectedApplications = affected.applications;
+    await suspension.save();
+
+    try {
+      await this.notificationsService.notifyAccountSuspended(String(user._id), reason, endsAt);
+    } catch (error) {
+      console.error('Failed to send suspension notification:', error);
+      // Don't fail the suspension if notification fails
+    }
 
     return {
       message: 'User suspended successfully',
@@ -302,14 +361,18 @@ export class UserManagementService {
         status: user.status,
       },
       suspension: {
+        id: suspension._id,
         reason,
-        duration,
-        suspendedAt: new Date(),
+        duration: duration ?? null,
+        suspendedAt: startsAt,
+        endsAt: endsAt ?? null,
+        affectedRequests: affected.requests,
+        affectedApplications: affected.applications,
       }
     };
   }
 
-  async reactivateUser(userId: string) {
+  async reactivateUser(userId: string, adminId?: string) {
     const user = await this.userModel.findById(userId).exec();
     
     if (!user) {
@@ -320,9 +383,25 @@ export class UserManagementService {
       throw new BadRequestException('User is not suspended');
     }
 
-    user.status = UserStatus.VERIFIED;
+    const suspension = await this.suspensionModel
+      .findOne({ userId: user._id, isActive: true })
+      .exec();
+
+    const reactivatedAt = new Date();
+    user.status = suspension?.previousStatus ?? UserStatus.VERIFIED;
     await user.save();
 
+    if (suspension) {
+      await this.closeSuspension(suspension, SuspensionLiftReason.MANUAL, reactivatedAt, adminId);
+    }
+
+    try {
+      await this.notificationsService.notifyAccountReactivated(String(user._id));
+    } catch (error) {
+      console.error('Failed to send reactivation notification:', error);
+      // Don't fail the reactivation if notification fails
+    }
+
     return {
       message: 'User reactivated successfully',
       user: {
@@ -331,10 +410,60 @@ export class UserManagementService {
         email: user.email,
         status: user.status,
       },
-      reactivatedAt: new Date(),
+      reactivatedAt,
     };
   }
 
+  async getUserSuspensions(userId: string) {
+    const user = await this.userModel.findById(userId).select('_id').exec();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.suspensionModel
+      .find({ userId: user._id })
+      .sort({ createdAt: -1 })
+      .populate('suspendedBy', 'name email')
+      .populate('liftedBy', 'name email')
+      .exec();
+  }
+
+  /**
+   * Lifts every active suspension whose end date has passed.
+   * Called periodically by SuspensionScheduler.
+   */
+  async reactivateExpiredSuspensions(): Promise<number> {
+    const now = new Date();
+    const expired = await this.suspensionModel
+      .find({ isActive: true, endsAt: { $lte: now } })
+      .exec();
+
+    let reactivated = 0;
+
+    for (const suspension of expired) {
+      const user = await this.userModel.findById(suspension.userId).exec();
+
+      // Only restore the status if an admin hasn't changed it in the meantime
+      if (user && user.status === UserStatus.SUSPENDED) {
+        user.status = suspension.previousStatus ?? UserStatus.VERIFIED;
+        await user.save();
+        reactivated++;
+
+        try {
+          await this.notificationsService.notifyAccountReactivated(String(user._id));
+        } catch (error) {
+          console.error('Failed to send reactivation notification:', error);
+          // Don't fail the reactivation if notification fails
+        }
+      }
+
+      await this.closeSuspension(suspension, SuspensionLiftReason.EXPIRED, now);
+    }
+
+    return reactivated;
+  }
+
   async getUserStats() {
     const totalUsers = await this.userModel.countDocuments().exec();
     
@@ -384,6 +513,126 @@ export class UserManagementService {
     };
   }
 
+  private async closeSuspension(
+    suspension: SuspensionDocument,
+    liftReason: SuspensionLiftReason,
+    liftedAt: Date,
+    adminId?: string,
+  ) {
+    suspension.isActive = false;
+    suspension.liftedAt = liftedAt;
+    suspension.liftReason = liftReason;
+    if (adminId) {
+      suspension.set('liftedBy', adminId);
+    }
+    await suspension.save();
+  }
+
+  // Cancels a suspended patient's open requests and turns down every application on them
+  private async cancelPatientWork(patient: UserDocument) {
+    const requests = await this.requestModel.find({
+      patientId: patient._id,
+      status: { $in: [RequestStatus.PENDING, RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS] }
+    }).exec();
+
+    if (requests.length === 0) {
+      return { requests: 0, applications: 0 };
+    }
+
+    const requestIds = requests.map(request => request._id);
+    const titles = new Map(requests.map(request => [String(request._id), request.title]));
+
+    await this.requestModel.updateMany(
+      { _id: { $in: requestIds } },
+      {
+        status: RequestStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancellationReason: 'Patient account suspended',
+      }
+    ).exec();
+
+    const applications = await this.applicationModel.find({
+      requestId: { $in: requestIds },
+      status: { $in: [ApplicationStatus.PENDING, ApplicationStatus.ACCEPTED] }
+    }).exec();
+
+    await this.applicationModel.updateMany(
+      { _id: { $in: applications.map(application => application._id) } },
+      { status: ApplicationStatus.REJECTED }
+    ).exec();
+
+    await this.releasePaymentHolds(requestIds.map(String), 'Patient account suspended');
+
+    for (const application of applications) {
+      const requestId = String(application.requestId);
+      try {
+        await this.notificationsService.notifyRequestCancelled(
+          String(application.nurseId),
+          requestId,
+          titles.get(requestId) || 'Care request',
+          'The patient account is no longer active'
+        );
+      } catch (error) {
+        console.error('Failed to send request cancellation notification:', error);
+        // Don't fail the suspension if notification fails
+      }
+    }
+
+    return { requests: requests.length, applications: applications.length };
+  }
+
+  // Withdraws a suspended nurse's applications and reopens the requests they were assigned to
+  private async releaseNurseWork(nurse: UserDocument) {
+    const withdrawn = await this.applicationModel.updateMany(
+      { nurseId: nurse._id, status: { $in: [ApplicationStatus.PENDING, ApplicationStatus.ACCEPTED] } },
+      { status: ApplicationStatus.REJECTED }
+    ).exec();
+
+    const requests = await this.requestModel.find({
+      nurseId: nurse._id,
+      status: { $in: [RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS] }
+    }).exec();
+
+    if (requests.length > 0) {
+      await this.requestModel.updateMany(
+        { _id: { $in: requests.map(request => request._id) } },
+        {
+          $set: { status: RequestStatus.PENDING },
+          $unset: { nurseId: '', acceptedAt: '' }
+        }
+      ).exec();
+
+      await this.releasePaymentHolds(requests.map(request => String(request._id)), 'Nurse account suspended');
+    }
+
+    for (const request of requests) {
+      try {
+        await this.notificationsService.notifyRequestReopened(
+          String(request.patientId),
+          String(request._id),
+          request.title,
+          'the nurse account is no longer active'
+        );
+      } catch (error) {
+        console.error('Failed to send request reopened notification:', error);
+        // Don't fail the suspension if notification fails
+      }
+    }
+
+    return { requests: requests.length, applications: withdrawn.modifiedCount };
+  }
+
+  private async releasePaymentHolds(requestIds: string[], reason: string) {
+    for (const requestId of requestIds) {
+      try {
+        await this.paymentsService.releaseForRequest(requestId, reason);
+      } catch (error) {
+        console.error('Failed to release payment hold:', error);
+        // Don't fail the suspension if the hold cannot be released
+      }
+    }
+  }
+
   private async getNurseStats(nurseId: any) {
     const totalJobs = await this.requestModel.countDocuments({ nurseId }).exec();
     const completedJobs = await this.requestModel.countDocuments({
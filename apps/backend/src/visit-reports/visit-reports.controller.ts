@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  Request,
+  Response,
+  ValidationPipe,
+  BadRequestException
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import type { Response as ExpressResponse } from 'express';
+import { VisitReportsService, WOUND_PHOTOS_DIR } from './visit-reports.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CreateVisitReportDto, UpdateVisitReportDto } from '../dto/visit-report.dto';
+import { createStorage, imageFileFilter, PRIVATE_UPLOADS_DIR } from '../uploads/upload-storage';
+
+@ApiTags('Visit Reports')
+@ApiBearerAuth('JWT-auth')
+@Controller('api/visit-reports')
+@UseGuards(JwtAuthGuard)
+export class VisitReportsController {
+  constructor(private readonly visitReportsService: VisitReportsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Write a clinical report for a visit (assigned nurse only)' })
+  async createReport(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) createVisitReportDto: CreateVisitReportDto,
+    @Request() req: any
+  ) {
+    return this.visitReportsService.createReport(createVisitReportDto, req.user);
+  }
+
+  @Get('timeline')
+  @ApiOperation({ summary: 'Visit reports of a patient across all visits, newest first' })
+  @ApiQuery({ name: 'patientId', required: false, description: 'Required for nurses and admins; patients always get their own' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date' })
+  async getPatientTimeline(
+    @Request() req: any,
+    @Query('patientId') patientId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string
+  ) {
+    return this.visitReportsService.getPatientTimeline(req.user, patientId, from, to);
+  }
+
+  @Get('request/:requestId')
+  @ApiOperation({ summary: 'Visit reports written for a request' })
+  async getReportsForRequest(@Param('requestId') requestId: string, @Request() req: any) {
+    return this.visitReportsService.getReportsForRequest(requestId, req.user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Correct a visit report within the edit window' })
+  async updateReport(
+    @Param('id') reportId: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true })) updateVisitReportDto: UpdateVisitReportDto,
+    @Request() req: any
+  ) {
+    return this.visitReportsService.updateReport(reportId, updateVisitReportDto, req.user);
+  }
+
+  @Post(':id/photos')
+  @UseInterceptors(FilesInterceptor('photos', 5, {
+    storage: createStorage(WOUND_PHOTOS_DIR, PRIVATE_UPLOADS_DIR),
+    fileFilter: imageFileFilter,
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB per file
+    }
+  }))
+  @ApiOperation({ summary: 'Attach wound photos to a visit report' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    description: 'Wound photos',
+    schema: {
+      type: 'object',
+      properties: {
+        photos: {
+          type: 'array',
+          items: {
+            type: 'string',
+            format: 'binary'
+          },
+          description: 'Images (max 5MB each, up to 5 files per upload)'
+        }
+      }
+    }
+  })
+  async addWoundPhotos(
+    @Param('id') reportId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Request() req: any
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files uploaded');
+    }
+
+    return this.visitReportsService.addWoundPhotos(reportId, files, req.user);
+  }
+
+  @Get(':id/photos/:filename')
+  @ApiOperation({ summary: 'Download a wound photo' })
+  async getWoundPhoto(
+    @Param('id') reportId: string,
+    @Param('filename') filename: string,
+    @Request() req: any,
+    @Response() res: ExpressResponse
+  ) {
+    return this.visitReportsService.serveWoundPhoto(reportId, filename, req.user, res);
+  }
+
+  @Delete(':id/photos/:filename')
+  @ApiOperation({ summary: 'Remove a wound photo from a visit report' })
+  async removeWoundPhoto(
+    @Param('id') reportId: string,
+    @Param('filename') filename: string,
+    @Request() req: any
+  ) {
+    return this.visitReportsService.removeWoundPhoto(reportId, filename, req.user);
+  }
+}
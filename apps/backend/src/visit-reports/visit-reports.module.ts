@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { VisitReportsController } from './visit-reports.controller';
+import { VisitReportsService } from './visit-reports.service';
+import { VisitReport, VisitReportSchema } from '../schemas/visit-report.schema';
+import { PatientRequest, PatientRequestSchema } from '../schemas/patient-request.schema';
+import { UploadsModule } from '../uploads/uploads.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: VisitReport.name, schema: VisitReportSchema },
+      { name: PatientRequest.name, schema: PatientRequestSchema },
+    ]),
+    UploadsModule,
+  ],
+  controllers: [VisitReportsController],
+  providers: [VisitReportsService],
+  exports: [VisitReportsService],
+})
+export class VisitReportsModule {}
@@ -0,0 +1,158 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { VisitReportsService, WOUND_PHOTOS_DIR } from './visit-reports.service';
+import { VisitReport } from '../schemas/visit-report.schema';
+import { PatientRequest, RequestStatus } from '../schemas/patient-request.schema';
+import { UserRole } from '../schemas/user.schema';
+import { UploadsService } from '../uploads/uploads.service';
+
+// Chainable stand-in for a mongoose query that resolves to the given value
+const query = (value: any): any => ({
+  populate: () => query(value),
+  sort: () => query(value),
+  limit: () => query(value),
+  exec: async () => value,
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('VisitReportsService', () => {
+  let service: VisitReportsService;
+  let visitReportModel: { create: jest.Mock; findById: jest.Mock; find: jest.Mock };
+  let requestModel: { findById: jest.Mock; exists: jest.Mock };
+  let uploadsService: { deletePrivateFile: jest.Mock; handleWoundPhotosUpload: jest.Mock };
+
+  const nurseId = String(new Types.ObjectId());
+  const patientId = String(new Types.ObjectId());
+  const nurse = { id: nurseId, role: UserRole.NURSE };
+  const patient = { id: patientId, role: UserRole.PATIENT };
+
+  const request = (fields: Record<string, any> = {}) => ({
+    _id: new Types.ObjectId(),
+    patientId: new Types.ObjectId(patientId),
+    nurseId: new Types.ObjectId(nurseId),
+    status: RequestStatus.IN_PROGRESS,
+    ...fields,
+  });
+
+  const reportDoc = (fields: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    nurseId: new Types.ObjectId(nurseId),
+    patientId: new Types.ObjectId(patientId),
+    notes: 'Dressing changed',
+    woundPhotos: [],
+    createdAt: new Date(),
+    save: jest.fn().mockResolvedValue(undefined),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    visitReportModel = {
+      create: jest.fn().mockImplementation(async (data: any) => reportDoc(data)),
+      findById: jest.fn(),
+      find: jest.fn().mockReturnValue(query([])),
+    };
+    requestModel = { findById: jest.fn(), exists: jest.fn() };
+    uploadsService = {
+      deletePrivateFile: jest.fn().mockResolvedValue(undefined),
+      handleWoundPhotosUpload: jest.fn(),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        VisitReportsService,
+        { provide: getModelToken(VisitReport.name), useValue: visitReportModel },
+        { provide: getModelToken(PatientRequest.name), useValue: requestModel },
+        { provide: UploadsService, useValue: uploadsService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(VisitReportsService);
+  });
+
+  describe('createReport', () => {
+    it('attaches the report to the visit and its patient', async () => {
+      const visit = request();
+      requestModel.findById.mockReturnValue(query(visit));
+
+      const report = await service.createReport({
+        requestId: String(visit._id),
+        vitals: { heartRate: 72, spo2: 98 },
+        medications: [{ name: 'Paracetamol', dose: '500 mg', givenAt: '2026-03-02T09:30:00Z' }],
+      } as any, nurse);
+
+      expect(report.patientId).toEqual(visit.patientId);
+      expect(report.medications[0].givenAt).toEqual(new Date('2026-03-02T09:30:00Z'));
+    });
+
+    it('only lets the assigned nurse report on a visit', async () => {
+      requestModel.findById.mockReturnValue(query(request({ nurseId: new Types.ObjectId() })));
+
+      await expect(service.createReport({ requestId: String(new Types.ObjectId()), notes: 'x' } as any, nurse))
+        .rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('refuses reports on visits that have not been accepted', async () => {
+      requestModel.findById.mockReturnValue(query(request({ status: RequestStatus.PENDING })));
+
+      await expect(service.createReport({ requestId: String(new Types.ObjectId()), notes: 'x' } as any, nurse))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('refuses empty reports', async () => {
+      requestModel.findById.mockReturnValue(query(request()));
+
+      await expect(service.createReport({ requestId: String(new Types.ObjectId()), vitals: {}, notes: '  ' } as any, nurse))
+        .rejects.toThrow('A report needs vitals, medications, notes or photos');
+      expect(visitReportModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateReport', () => {
+    it('locks reports 48 hours after they were written', async () => {
+      visitReportModel.findById.mockReturnValue(query(reportDoc({ createdAt: new Date(Date.now() - 49 * HOUR_MS) })));
+
+      await expect(service.updateReport(String(new Types.ObjectId()), { notes: 'Amended' }, nurse))
+        .rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('only lets the author change a report', async () => {
+      visitReportModel.findById.mockReturnValue(query(reportDoc()));
+
+      await expect(service.updateReport(String(new Types.ObjectId()), { notes: 'Amended' }, { id: String(new Types.ObjectId()), role: UserRole.NURSE }))
+        .rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('addWoundPhotos', () => {
+    it('deletes the uploaded files when the report would hold too many photos', async () => {
+      const existing = Array.from({ length: 9 }, (_, i) => ({ filename: `old-${i}.jpg` }));
+      visitReportModel.findById.mockReturnValue(query(reportDoc({ woundPhotos: existing })));
+      const files = [{ filename: 'new-1.jpg' }, { filename: 'new-2.jpg' }] as Express.Multer.File[];
+
+      await expect(service.addWoundPhotos(String(new Types.ObjectId()), files, nurse)).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(uploadsService.deletePrivateFile).toHaveBeenCalledWith(WOUND_PHOTOS_DIR, 'new-1.jpg');
+      expect(uploadsService.deletePrivateFile).toHaveBeenCalledWith(WOUND_PHOTOS_DIR, 'new-2.jpg');
+      expect(uploadsService.handleWoundPhotosUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPatientTimeline', () => {
+    it('shows patients their own reports whatever patientId they ask for', async () => {
+      await service.getPatientTimeline(patient, String(new Types.ObjectId()));
+
+      expect(visitReportModel.find).toHaveBeenCalledWith({ patientId: new Types.ObjectId(patientId) });
+    });
+
+    it('shows nurses the timeline only while they have an active visit with the patient', async () => {
+      requestModel.exists.mockResolvedValue(null);
+      await expect(service.getPatientTimeline(nurse, patientId)).rejects.toBeInstanceOf(ForbiddenException);
+
+      requestModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+      await expect(service.getPatientTimeline(nurse, patientId)).resolves.toEqual([]);
+    });
+  });
+});
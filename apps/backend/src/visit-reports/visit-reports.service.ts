@@ -0,0 +1,263 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Response } from 'express';
+import { VisitReport, VisitReportDocument } from '../schemas/visit-report.schema';
+import { PatientRequest, PatientRequestDocument, RequestStatus } from '../schemas/patient-request.schema';
+import { UserRole } from '../schemas/user.schema';
+import { CreateVisitReportDto, UpdateVisitReportDto } from '../dto/visit-report.dto';
+import { UploadsService } from '../uploads/uploads.service';
+
+export const WOUND_PHOTOS_DIR = 'wound-photos';
+const MAX_PHOTOS_PER_REPORT = 10;
+
+// Reports become read-only after this, so the clinical record can be trusted
+const EDIT_WINDOW_HOURS = 48;
+
+const REPORTABLE_STATUSES = [RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS, RequestStatus.COMPLETED];
+
+@Injectable()
+export class VisitReportsService {
+  constructor(
+    @InjectModel(VisitReport.name) private visitReportModel: Model<VisitReportDocument>,
+    @InjectModel(PatientRequest.name) private requestModel: Model<PatientRequestDocument>,
+    private uploadsService: UploadsService,
+  ) {}
+
+  /**
+   * Helper method to safely compare ObjectIds
+   */
+  private compareObjectIds(id1: any, id2: any): boolean {
+    if (!id1 || !id2) return false;
+    return id1.toString() === id2.toString();
+  }
+
+  async createReport(createVisitReportDto: CreateVisitReportDto, user: any) {
+    if (user.role !== UserRole.NURSE) {
+      throw new ForbiddenException('Only nurses can write visit reports');
+    }
+
+    const request = await this.requestModel.findById(createVisitReportDto.requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    if (!this.compareObjectIds(request.nurseId, user.id)) {
+      throw new ForbiddenException('Only the assigned nurse can report on this visit');
+    }
+
+    if (!REPORTABLE_STATUSES.includes(request.status)) {
+      throw new BadRequestException('Reports can only be added to accepted, in-progress or completed visits');
+    }
+
+    const { requestId, recordedAt, vitals, medications, notes } = createVisitReportDto;
+    this.ensureHasContent({ vitals, medications, notes });
+
+    const report = await this.visitReportModel.create({
+      requestId: new Types.ObjectId(requestId),
+      nurseId: new Types.ObjectId(user.id),
+      patientId: request.patientId,
+      recordedAt: recordedAt ? new Date(recordedAt) : new Date(),
+      vitals,
+      medications: (medications || []).map(medication => ({ ...medication, givenAt: new Date(medication.givenAt) })),
+      notes,
+    });
+
+    return this.formatReport(report);
+  }
+
+  async updateReport(reportId: string, updateVisitReportDto: UpdateVisitReportDto, user: any) {
+    const report = await this.findEditableReport(reportId, user);
+    const { recordedAt, vitals, medications, notes } = updateVisitReportDto;
+
+    if (recordedAt !== undefined) report.recordedAt = new Date(recordedAt);
+    if (vitals !== undefined) report.vitals = vitals;
+    if (medications !== undefined) {
+      report.medications = medications.map(medication => ({ ...medication, givenAt: new Date(medication.givenAt) }));
+    }
+    if (notes !== undefined) report.notes = notes;
+
+    this.ensureHasContent({ vitals: report.vitals, medications: report.medications, notes: report.notes, photos: report.woundPhotos.length });
+    await report.save();
+
+    return this.formatReport(report);
+  }
+
+  async addWoundPhotos(reportId: string, files: Express.Multer.File[], user: any) {
+    const report = await this.findEditableReport(reportId, user).catch(async error => {
+      // Don't leave orphaned files behind when the upload is rejected
+      await Promise.all(files.map(file => this.uploadsService.deletePrivateFile(WOUND_PHOTOS_DIR, file.filename)));
+      throw error;
+    });
+
+    if (report.woundPhotos.length + files.length > MAX_PHOTOS_PER_REPORT) {
+      await Promise.all(files.map(file => this.uploadsService.deletePrivateFile(WOUND_PHOTOS_DIR, file.filename)));
+      throw new BadRequestException(`A report can hold at most ${MAX_PHOTOS_PER_REPORT} photos`);
+    }
+
+    const photos = await this.uploadsService.handleWoundPhotosUpload(files);
+    report.woundPhotos.push(...photos);
+    await report.save();
+
+    return this.formatReport(report);
+  }
+
+  async removeWoundPhoto(reportId: string, filename: string, user: any) {
+    const report = await this.findEditableReport(reportId, user);
+
+    const remaining = report.woundPhotos.filter(photo => photo.filename !== filename);
+    if (remaining.length === report.woundPhotos.length) {
+      throw new NotFoundException('Photo not found');
+    }
+
+    report.woundPhotos = remaining;
+    await report.save();
+    await this.uploadsService.deletePrivateFile(WOUND_PHOTOS_DIR, filename);
+
+    return this.formatReport(report);
+  }
+
+  async serveWoundPhoto(reportId: string, filename: string, user: any, res: Response) {
+    const report = await this.findReport(reportId);
+    await this.ensureCanView(report.patientId, user, report.nurseId);
+
+    if (!report.woundPhotos.some(photo => photo.filename === filename)) {
+      throw new NotFoundException('Photo not found');
+    }
+
+    return this.uploadsService.serveFile(WOUND_PHOTOS_DIR, filename, res, true);
+  }
+
+  async getReportsForRequest(requestId: string, user: any) {
+    const request = await this.requestModel.findById(requestId).exec();
+    if (!request) {
+      throw new NotFoundException('Request not found');
+    }
+
+    const isParticipant = this.compareObjectIds(request.patientId, user.id) || this.compareObjectIds(request.nurseId, user.id);
+    if (user.role !== UserRole.ADMIN && !isParticipant) {
+      throw new ForbiddenException('You do not have permission to view these reports');
+    }
+
+    const reports = await this.visitReportModel
+      .find({ requestId: request._id })
+      .populate('nurseId', 'name')
+      .sort({ recordedAt: -1 })
+      .exec();
+
+    return reports.map(report => this.formatReport(report));
+  }
+
+  /**
+   * All reports for a patient across visits, newest first. Patients see their
+   * own; nurses only while they have an active visit with the patient.
+   */
+  async getPatientTimeline(user: any, patientId?: string, from?: string, to?: string) {
+    const targetPatientId = user.role === UserRole.PATIENT ? user.id : patientId;
+    if (!targetPatientId || !Types.ObjectId.isValid(targetPatientId)) {
+      throw new BadRequestException('A valid patientId is required');
+    }
+
+    await this.ensureCanView(targetPatientId, user);
+
+    const query: any = { patientId: new Types.ObjectId(targetPatientId) };
+    if (from || to) {
+      query.recordedAt = {};
+      if (from) query.recordedAt.$gte = new Date(from);
+      if (to) query.recordedAt.$lte = new Date(to);
+    }
+
+    const reports = await this.visitReportModel
+      .find(query)
+      .populate('nurseId', 'name')
+      .populate('requestId', 'title serviceType scheduledDate')
+      .sort({ recordedAt: -1 })
+      .limit(200)
+      .exec();
+
+    return reports.map(report => this.formatReport(report));
+  }
+
+  private async findReport(reportId: string): Promise<VisitReportDocument> {
+    if (!Types.ObjectId.isValid(reportId)) {
+      throw new NotFoundException('Visit report not found');
+    }
+
+    const report = await this.visitReportModel.findById(reportId).exec();
+    if (!report) {
+      throw new NotFoundException('Visit report not found');
+    }
+
+    return report;
+  }
+
+  private async findEditableReport(reportId: string, user: any): Promise<VisitReportDocument> {
+    const report = await this.findReport(reportId);
+
+    if (!this.compareObjectIds(report.nurseId, user.id)) {
+      throw new ForbiddenException('Only the nurse who wrote this report can change it');
+    }
+
+    const editableUntil = new Date((report.createdAt || new Date()).getTime() + EDIT_WINDOW_HOURS * 60 * 60 * 1000);
+    if (new Date() > editableUntil) {
+      throw new BadRequestException(`Reports can only be changed within ${EDIT_WINDOW_HOURS} hours of being written`);
+    }
+
+    return report;
+  }
+
+  private async ensureCanView(patientId: any, user: any, authorId?: any) {
+    if (user.role === UserRole.ADMIN) return;
+    if (this.compareObjectIds(patientId, user.id)) return;
+    if (authorId && this.compareObjectIds(authorId, user.id)) return;
+
+    if (user.role === UserRole.NURSE) {
+      const activeVisit = await this.requestModel.exists({
+        patientId: new Types.ObjectId(String(patientId)),
+        nurseId: new Types.ObjectId(user.id),
+        status: { $in: [RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS] },
+      });
+      if (activeVisit) return;
+    }
+
+    throw new ForbiddenException('You do not have permission to view these reports');
+  }
+
+  private ensureHasContent(content: { vitals?: object; medications?: unknown[]; notes?: string; photos?: number }) {
+    const hasVitals = content.vitals && Object.values(content.vitals).some(value => value !== undefined && value !== null);
+    if (!hasVitals && !content.medications?.length && !content.notes?.trim() && !content.photos) {
+      throw new BadRequestException('A report needs vitals, medications, notes or photos');
+    }
+  }
+
+  private formatReport(report: VisitReportDocument) {
+    const reportId = String(report._id);
+    const nurse: any = report.nurseId;
+    const request: any = report.requestId;
+
+    return {
+      id: reportId,
+      requestId: request?._id ?? request,
+      request: request?.title ? {
+        id: request._id,
+        title: request.title,
+        serviceType: request.serviceType,
+        scheduledDate: request.scheduledDate,
+      } : undefined,
+      nurse: nurse?.name ? { id: nurse._id, name: nurse.name } : { id: nurse },
+      patientId: report.patientId,
+      recordedAt: report.recordedAt,
+      vitals: report.vitals,
+      medications: report.medications,
+      woundPhotos: report.woundPhotos.map(photo => ({
+        filename: photo.filename,
+        originalName: photo.originalName,
+        uploadedAt: photo.uploadedAt,
+        url: `/api/visit-reports/${reportId}/photos/${photo.filename}`,
+      })),
+      notes: report.notes,
+      createdAt: report.createdAt,
+      updatedAt: report.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+interface Session {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+const unwrap = (response: any) => response?.data ?? response;
+
+// Rough device label from the user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+interface ActiveSessionsProps {
+  onClose?: () => void;
+}
+
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      const result = unwrap(await apiService.getSessions());
+      setSessions(Array.isArray(result) ? result : []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load active sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      setWorking(true);
+      setError('');
+      await apiService.revokeSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out the session');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    try {
+      setWorking(true);
+      await apiService.logoutAllDevices();
+      localStorage.removeItem('token');
+      localStorage.removeItem('refresh_token');
+      localStorage.removeItem('token_expiration');
+      localStorage.removeItem('user');
+      window.location.href = '/login';
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out of all devices');
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 p-4">Loading active sessions...</p>;
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <h4 className="font-medium text-gray-900">Devices signed in to your account</h4>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <span className="ml-2 text-xs text-green-600">(this device)</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session)}
+                  disabled={working}
+                  className="px-3 py-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Close
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSignOutEverywhere}
+          disabled={working}
+          className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          Sign out of all devices
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,111 @@
+import React from 'react';
+
+export interface CalendarVisit {
+  id: string;
+  title: string;
+  status: string;
+  scheduledDate: string;
+  estimatedDuration: number;
+  carePlanId?: string;
+  occurrenceDate?: string;
+  nurse?: { id: string; name: string } | null;
+  patient?: { id: string; name: string } | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500 line-through',
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Local YYYY-MM-DD key so visits land on the day the user sees them
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+interface CareCalendarProps {
+  month: Date;
+  visits: CalendarVisit[];
+  onPrevious: () => void;
+  onNext: () => void;
+  onVisitClick?: (visit: CalendarVisit) => void;
+}
+
+const CareCalendar: React.FC<CareCalendarProps> = ({ month, visits, onPrevious, onNext, onVisitClick }) => {
+  const firstOfMonth = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leadingBlanks = firstOfMonth.getDay();
+  const todayKey = dayKey(new Date());
+
+  const visitsByDay = visits.reduce<Record<string, CalendarVisit[]>>((acc, visit) => {
+    const key = dayKey(new Date(visit.scheduledDate));
+    (acc[key] = acc[key] || []).push(visit);
+    return acc;
+  }, {});
+
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: leadingBlanks }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)),
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <button onClick={onPrevious} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900">
+          &larr; Previous
+        </button>
+        <h2 className="text-lg font-semibold text-gray-900">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </h2>
+        <button onClick={onNext} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900">
+          Next &rarr;
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 text-center text-xs font-medium text-gray-500 border-b border-gray-200">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="py-2">{label}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {cells.map((date, index) => {
+          if (!date) {
+            return <div key={`blank-${index}`} className="min-h-[96px] border-b border-r border-gray-100 bg-gray-50" />;
+          }
+
+          const key = dayKey(date);
+          const dayVisits = visitsByDay[key] || [];
+
+          return (
+            <div key={key} className="min-h-[96px] border-b border-r border-gray-100 p-1">
+              <div className={`text-xs mb-1 ${key === todayKey ? 'font-bold text-blue-600' : 'text-gray-500'}`}>
+                {date.getDate()}
+              </div>
+              <div className="space-y-1">
+                {dayVisits.map(visit => (
+                  <button
+                    key={visit.id}
+                    type="button"
+                    onClick={() => onVisitClick?.(visit)}
+                    className={`w-full text-left truncate rounded px-1 py-0.5 text-xs ${STATUS_STYLES[visit.status] || 'bg-gray-100 text-gray-700'}`}
+                    title={`${visit.title}${visit.nurse ? ` · ${visit.nurse.name}` : ''}`}
+                  >
+                    {new Date(visit.scheduledDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{' '}
+                    {visit.carePlanId && <span aria-label="Recurring">&#8635; </span>}
+                    {visit.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CareCalendar;
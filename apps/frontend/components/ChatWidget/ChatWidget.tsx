@@ -11,6 +11,8 @@ import {
   ConversationHeader
 } from '@chatscope/chat-ui-kit-react';
 import '@chatscope/chat-ui-kit-styles/dist/default/styles.min.css';
+import { useAuth } from '../../lib/auth';
+import { apiService } from '../../lib/api';
 
 interface MessageType {
   message: string;
@@ -20,20 +22,88 @@ interface MessageType {
   sentTime?: string;
 }
 
+interface RequestDraft {
+  fields: Record<string, any>;
+  missingFields: string[];
+  status: 'pending' | 'confirmed' | 'discarded';
+  requestId?: string;
+}
+
+interface ChatSession {
+  id: string;
+  title: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string; createdAt: string }>;
+  requestDraft: RequestDraft | null;
+}
+
+const GREETING: MessageType = {
+  message: 'Hello! How can I help you today?',
+  sender: 'assistant',
+  direction: 'incoming',
+  position: 'single'
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const toMessages = (session: ChatSession): MessageType[] => [
+  GREETING,
+  ...session.messages.map(turn => ({
+    message: turn.content,
+    sender: turn.role,
+    direction: turn.role === 'user' ? 'outgoing' as const : 'incoming' as const,
+    position: 'single' as const,
+    sentTime: new Date(turn.createdAt).toLocaleTimeString()
+  }))
+];
+
 const ChatWidget: React.FC = () => {
+  const { user } = useAuth();
   const [isOpen, setIsOpen] = useState<boolean>(false);
-  const [messages, setMessages] = useState<MessageType[]>([
-    {
-      message: 'Hello! How can I help you today?',
-      sender: 'assistant',
-      direction: 'incoming',
-      position: 'single'
-    }
-  ]);
+  const [messages, setMessages] = useState<MessageType[]>([GREETING]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Signed-in users get a stored conversation; guests keep the history in this component only
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState<boolean>(false);
+  const [draftEdits, setDraftEdits] = useState<Record<string, string>>({});
   const messageListRef = useRef<HTMLDivElement>(null);
 
+  const showSession = (current: ChatSession | null) => {
+    setSession(current);
+    setMessages(current ? toMessages(current) : [GREETING]);
+  };
+
+  // Picks up the most recent conversation the first time a signed-in user opens the chat
+  useEffect(() => {
+    if (!isOpen || !user || sessionLoaded) return;
+
+    const loadLatestSession = async () => {
+      try {
+        const sessions = unwrap(await apiService.getChatSessions());
+        if (Array.isArray(sessions) && sessions.length > 0) {
+          showSession(unwrap(await apiService.getChatSession(sessions[0].id)));
+        }
+      } catch (err) {
+        console.error('Error loading chat history:', err);
+      } finally {
+        setSessionLoaded(true);
+      }
+    };
+    loadLatestSession();
+  }, [isOpen, user, sessionLoaded]);
+
+  // Forget the stored conversation when the user signs out or changes
+  useEffect(() => {
+    showSession(null);
+    setSessionLoaded(false);
+  }, [user?.id]);
+
+  const startNewConversation = () => {
+    showSession(null);
+    setDraftEdits({});
+    setError(null);
+  };
+
   const toggleChat = () => {
     setIsOpen(!isOpen);
     // Reset error when opening chat
@@ -58,72 +128,35 @@ const ChatWidget: React.FC = () => {
     setIsLoading(true);
     setError(null);
 
-    try {
-      console.log('Sending message to API:', message);
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/ai-chat/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message }),
-      });
-
-      console.log('Response status:', response.status);
-
-      const responseText = await response.text();
-      console.log('Response body:', responseText);
-
-      if (!response.ok) {
-        let errorMessage = `Error: ${response.status}`;
-        try {
-          const errorData = JSON.parse(responseText);
-          if (errorData.message) {
-            errorMessage = `Error: ${errorData.message}`;
-          }
-        } catch (e) {
-          // If we can't parse the error response, use the default message
-        }
-        throw new Error(errorMessage);
-      }
-
-      let data;
-      try {
-        data = JSON.parse(responseText);
-        console.log('Parsed response data:', data);
-      } catch (e) {
-        console.error('Failed to parse response as JSON:', e);
-        throw new Error('Invalid response format from server');
-      }
-      
-      // Handle both wrapped (data.data.response) and direct (data.response) response structures
-      let botResponse = '';
-      if (data.data && data.data.response) {
-        // Response is wrapped in a data property (NestJS standard response)
-        botResponse = data.data.response;
-        console.log('Using nested response:', botResponse);
-      } else if (data.response) {
-        // Direct response
-        botResponse = data.response;
-        console.log('Using direct response:', botResponse);
-      } else {
-        console.error('Unexpected response format:', data);
-        throw new Error('Unexpected response format from server');
-      }
-      
-      // Add assistant response to chat
-      const assistantMessage: MessageType = {
-        message: botResponse,
+    // The answer appears in its own bubble and grows as the server streams it
+    let streamed = '';
+    let bubbleShown = false;
+    const showStreamed = (content: string) => {
+      streamed += content;
+      const bubble: MessageType = {
+        message: streamed,
         sender: 'assistant',
         direction: 'incoming',
         position: 'single',
         sentTime: new Date().toLocaleTimeString()
       };
+      const replace = bubbleShown;
+      bubbleShown = true;
+      setMessages(prev => (replace ? [...prev.slice(0, -1), bubble] : [...prev, bubble]));
+    };
 
-      setMessages(prev => {
-        const updatedMessages = [...prev, assistantMessage];
-        console.log('Updated messages array:', updatedMessages);
-        return updatedMessages;
-      });
+    try {
+      if (user) {
+        const current: ChatSession = session || unwrap(await apiService.createChatSession());
+        showSession(await apiService.streamChatSessionMessage(current.id, message, showStreamed));
+      } else {
+        const result = await apiService.streamChatMessage(message, showStreamed);
+        // The final text wins over what was streamed: moderation may have redacted or replaced it
+        if (result.response !== streamed) {
+          streamed = '';
+          showStreamed(result.response);
+        }
+      }
     } catch (err) {
       console.error('Error sending message:', err);
       setError(err instanceof Error ? err.message : 'Failed to get a response. Please try again later.');
@@ -132,6 +165,58 @@ const ChatWidget: React.FC = () => {
     }
   };
 
+  const getCurrentCoordinates = () =>
+    new Promise<[number, number]>((resolve, reject) => {
+      if (!navigator.geolocation) {
+        reject(new Error('Your browser cannot share your location'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        position => resolve([position.coords.longitude, position.coords.latitude]),
+        () => reject(new Error('Allow location access so nurses can find the visit address'))
+      );
+    });
+
+  const handleConfirmDraft = async () => {
+    if (!session?.requestDraft) return;
+
+    const request: Record<string, any> = { ...session.requestDraft.fields };
+    Object.entries(draftEdits).forEach(([field, value]) => {
+      if (value.trim()) {
+        request[field] = field === 'scheduledDate' ? new Date(value).toISOString() : value.trim();
+      }
+    });
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (!request.coordinates) {
+        request.coordinates = await getCurrentCoordinates();
+      }
+      const result = unwrap(await apiService.confirmChatRequestDraft(session.id, request));
+      showSession(result.session);
+      setDraftEdits({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the request');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!session) return;
+    try {
+      showSession(unwrap(await apiService.discardChatRequestDraft(session.id)));
+      setDraftEdits({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard the draft');
+    }
+  };
+
+  const pendingDraft = session?.requestDraft?.status === 'pending' ? session.requestDraft : null;
+  // Fields the patient can fill in here; the rest come from the conversation or their profile
+  const editableMissing = (pendingDraft?.missingFields || []).filter(field => ['scheduledDate', 'address', 'title', 'description'].includes(field));
+
   // Scroll to bottom when messages update
   useEffect(() => {
     if (messageListRef.current) {
@@ -151,6 +236,15 @@ const ChatWidget: React.FC = () => {
                     <Avatar name="NA" />
                     <span>Nursing Assistant</span>
                   </div>
+                  {user && session && (
+                    <button
+                      onClick={startNewConversation}
+                      className={styles.newChatButton}
+                      disabled={isLoading}
+                    >
+                      New chat
+                    </button>
+                  )}
                   <button 
                     onClick={toggleChat} 
                     className={styles.closeButton}
@@ -176,6 +270,33 @@ const ChatWidget: React.FC = () => {
                     }}
                   />
                 ))}
+                {pendingDraft && (
+                  <div className={styles.draftCard}>
+                    <strong>Draft request</strong>
+                    <p>{pendingDraft.fields.title || 'Untitled request'}</p>
+                    {pendingDraft.fields.serviceType && <p>Service: {String(pendingDraft.fields.serviceType).replace(/_/g, ' ')}</p>}
+                    {pendingDraft.fields.scheduledDate && <p>When: {new Date(pendingDraft.fields.scheduledDate).toLocaleString()}</p>}
+                    {pendingDraft.fields.address && <p>Where: {pendingDraft.fields.address}</p>}
+                    {editableMissing.map(field => (
+                      <input
+                        key={field}
+                        type={field === 'scheduledDate' ? 'datetime-local' : 'text'}
+                        placeholder={field === 'scheduledDate' ? 'Visit date and time' : field}
+                        value={draftEdits[field] || ''}
+                        onChange={e => setDraftEdits({ ...draftEdits, [field]: e.target.value })}
+                        className={styles.draftInput}
+                      />
+                    ))}
+                    <div className={styles.draftActions}>
+                      <button onClick={handleConfirmDraft} disabled={isLoading} className={styles.draftConfirm}>
+                        Confirm and submit
+                      </button>
+                      <button onClick={handleDiscardDraft} disabled={isLoading} className={styles.draftDiscard}>
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
                 {error && (
                   <div className={styles.errorMessage}>
                     {error}
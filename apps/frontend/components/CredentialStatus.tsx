@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+type CredentialType = 'license' | 'certification';
+
+interface Renewal {
+  _id: string;
+  expirationDate: string;
+  status: 'pending' | 'approved' | 'rejected';
+  submittedAt: string;
+  rejectionReason?: string;
+}
+
+interface CredentialInfo {
+  expiresAt?: string;
+  daysLeft: number | null;
+  expired: boolean;
+  pendingRenewal: Renewal | null;
+  lastRenewal: Renewal | null;
+}
+
+interface Credentials {
+  license: CredentialInfo & { number?: string };
+  certification: CredentialInfo & { name?: string };
+  licenseExpiredAt?: string;
+}
+
+const LABELS: Record<CredentialType, string> = {
+  license: 'Nursing license',
+  certification: 'Certification',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const CredentialStatus: React.FC = () => {
+  const [credentials, setCredentials] = useState<Credentials | null>(null);
+  const [renewing, setRenewing] = useState<CredentialType | null>(null);
+  const [expirationDate, setExpirationDate] = useState('');
+  const [licenseNumber, setLicenseNumber] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadCredentials();
+  }, []);
+
+  const loadCredentials = async () => {
+    try {
+      setLoading(true);
+      setCredentials(unwrap(await apiService.getMyCredentials()));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your credentials');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRenewal = (credential: CredentialType) => {
+    setRenewing(renewing === credential ? null : credential);
+    setExpirationDate('');
+    setLicenseNumber('');
+    setFile(null);
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renewing || !file || !expirationDate) {
+      setError('Choose the renewed document and its new expiry date');
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('document', file);
+    formData.append('credential', renewing);
+    formData.append('expirationDate', expirationDate);
+    if (renewing === 'license' && licenseNumber.trim()) {
+      formData.append('licenseNumber', licenseNumber.trim());
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      setCredentials(unwrap(await apiService.submitCredentialRenewal(formData)));
+      setSuccess('Renewal submitted. An admin will review it shortly.');
+      setRenewing(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit the renewal');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describe = (info: CredentialInfo) => {
+    if (!info.expiresAt) return { text: 'No expiry date on file', className: 'text-gray-500' };
+    if (info.expired) return { text: `Expired on ${new Date(info.expiresAt).toLocaleDateString()}`, className: 'text-red-700' };
+    const days = info.daysLeft ?? 0;
+    return {
+      text: `Expires on ${new Date(info.expiresAt).toLocaleDateString()} (${days} day${days === 1 ? '' : 's'} left)`,
+      className: days <= 7 ? 'text-orange-700' : days <= 60 ? 'text-yellow-700' : 'text-gray-700',
+    };
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading credentials…</div>;
+  }
+
+  if (!credentials) {
+    return error ? <div className="text-sm text-red-700">{error}</div> : null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {credentials.licenseExpiredAt && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          Your license has expired, so patients can't find or book you. Upload your renewed license to get back on the platform.
+        </div>
+      )}
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+      {success && <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{success}</div>}
+
+      {(['license', 'certification'] as CredentialType[]).map(credential => {
+        const info = credentials[credential];
+        const status = describe(info);
+        return (
+          <div key={credential} className="border border-gray-200 rounded-md p-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {LABELS[credential]}
+                  {credential === 'license' && credentials.license.number && <span className="text-gray-500 font-normal"> · {credentials.license.number}</span>}
+                  {credential === 'certification' && credentials.certification.name && <span className="text-gray-500 font-normal"> · {credentials.certification.name}</span>}
+                </p>
+                <p className={`text-sm ${status.className}`}>{status.text}</p>
+                {info.pendingRenewal ? (
+                  <p className="text-sm text-blue-700 mt-1">
+                    Renewal until {new Date(info.pendingRenewal.expirationDate).toLocaleDateString()} is awaiting review
+                  </p>
+                ) : info.lastRenewal?.status === 'rejected' && (
+                  <p className="text-sm text-red-700 mt-1">
+                    Your last renewal was rejected{info.lastRenewal.rejectionReason ? `: ${info.lastRenewal.rejectionReason}` : ''}
+                  </p>
+                )}
+              </div>
+              {!info.pendingRenewal && (
+                <button
+                  onClick={() => openRenewal(credential)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50"
+                >
+                  Upload renewal
+                </button>
+              )}
+            </div>
+
+            {renewing === credential && (
+              <form onSubmit={handleSubmit} className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <label className="text-sm text-gray-700">
+                  Renewed document
+                  <input
+                    type="file"
+                    accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                    onChange={e => setFile(e.target.files?.[0] || null)}
+                    className="mt-1 block w-full text-sm"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  New expiry date
+                  <input
+                    type="date"
+                    value={expirationDate}
+                    onChange={e => setExpirationDate(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                </label>
+                {credential === 'license' && (
+                  <label className="text-sm text-gray-700">
+                    License number (if changed)
+                    <input
+                      value={licenseNumber}
+                      onChange={e => setLicenseNumber(e.target.value)}
+                      maxLength={100}
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    />
+                  </label>
+                )}
+                <div className="md:col-span-3">
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {submitting ? 'Submitting…' : 'Submit for review'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CredentialStatus;
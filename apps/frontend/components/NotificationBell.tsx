@@ -186,6 +186,8 @@ const NotificationBell: React.FC = () => {
         return '👩‍⚕️';
       case 'request_application':
         return '📝';
+      case 'request_invitation':
+        return '📨';
       case 'request_accepted':
         return '✅';
       case 'request_rejected':
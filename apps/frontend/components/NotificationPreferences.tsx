@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+type Channel = 'inApp' | 'email' | 'sms';
+
+interface ChannelToggles {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+}
+
+interface Preferences {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  smsNotifications: boolean;
+  notificationTypes: Record<string, ChannelToggles>;
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  nurse_approved: 'Application approved',
+  nurse_rejected: 'Application rejected',
+  nurse_verified: 'Account verified',
+  request_created: 'New request created',
+  request_application: 'New application on my request',
+  request_invitation: 'Invitations to apply',
+  request_accepted: 'Application accepted',
+  request_rejected: 'Application declined',
+  request_completed: 'Request completed',
+  request_cancelled: 'Request cancelled',
+  request_reopened: 'Request reopened',
+  visit_checked_in: 'Nurse checked in',
+  visit_checked_out: 'Nurse checked out',
+  visit_flagged: 'Flagged visits',
+  review_received: 'New review',
+  payment_received: 'Payment received',
+  payment_failed: 'Failed payments',
+  payment_disputed: 'Payment disputes',
+  payment_dispute_resolved: 'Dispute outcomes',
+  withdrawal_requested: 'Withdrawal requests',
+  withdrawal_processed: 'Withdrawal outcomes',
+  credential_expiring: 'License expiry reminders',
+  credential_expired: 'License expired',
+  credential_renewal_submitted: 'Credential renewals to review',
+  credential_renewal_reviewed: 'Credential renewal outcomes',
+  system_announcement: 'Announcements',
+  reminder: 'Reminders',
+  account_suspended: 'Account suspended',
+  account_reactivated: 'Account reactivated',
+};
+
+const CHANNELS: { key: Channel; label: string; master: keyof Preferences }[] = [
+  { key: 'inApp', label: 'In-app', master: 'pushNotifications' },
+  { key: 'email', label: 'Email', master: 'emailNotifications' },
+  { key: 'sms', label: 'SMS', master: 'smsNotifications' },
+];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+interface NotificationPreferencesProps {
+  onClose?: () => void;
+}
+
+const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ onClose }) => {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      setLoading(true);
+      setPreferences(unwrap(await apiService.getNotificationPreferences()));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMaster = (key: keyof Preferences) => {
+    setPreferences(prev => prev && { ...prev, [key]: !prev[key] });
+  };
+
+  const toggleChannel = (type: string, channel: Channel) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      notificationTypes: {
+        ...prev.notificationTypes,
+        [type]: { ...prev.notificationTypes[type], [channel]: !prev.notificationTypes[type][channel] },
+      },
+    });
+  };
+
+  const updateQuietHours = (changes: Partial<Preferences['quietHours']>) => {
+    setPreferences(prev => prev && { ...prev, quietHours: { ...prev.quietHours, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+      const updated = unwrap(await apiService.updateNotificationPreferences({
+        emailNotifications: preferences.emailNotifications,
+        pushNotifications: preferences.pushNotifications,
+        smsNotifications: preferences.smsNotifications,
+        notificationTypes: preferences.notificationTypes,
+        quietHours: preferences.quietHours,
+      }));
+      setPreferences(updated);
+      setSuccess('Notification preferences saved');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 p-4">Loading notification preferences...</p>;
+  }
+
+  if (!preferences) {
+    return <p className="text-sm text-red-600 p-4">{error || 'Notification preferences are unavailable'}</p>;
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-6">
+      {/* Channel master switches */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Channels</h4>
+        <div className="flex flex-wrap gap-6">
+          {CHANNELS.map(channel => (
+            <label key={channel.key} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={Boolean(preferences[channel.master])}
+                onChange={() => toggleMaster(channel.master)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>{channel.label} notifications</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-type toggles */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Notification types</h4>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Type</th>
+                {CHANNELS.map(channel => (
+                  <th key={channel.key} className="py-2 px-4 font-medium text-center">{channel.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(preferences.notificationTypes).map(([type, toggles]) => (
+                <tr key={type} className="border-t border-gray-200">
+                  <td className="py-2 pr-4 text-gray-900">{TYPE_LABELS[type] || type.replace(/_/g, ' ')}</td>
+                  {CHANNELS.map(channel => (
+                    <td key={channel.key} className="py-2 px-4 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${TYPE_LABELS[type] || type} via ${channel.label}`}
+                        checked={toggles[channel.key]}
+                        disabled={!preferences[channel.master]}
+                        onChange={() => toggleChannel(type, channel.key)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded disabled:opacity-40"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-1">Quiet hours</h4>
+        <p className="text-sm text-gray-500 mb-3">
+          Email and SMS are held back during quiet hours. Urgent notifications are always delivered.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mb-3">
+          <input
+            type="checkbox"
+            checked={preferences.quietHours.enabled}
+            onChange={() => updateQuietHours({ enabled: !preferences.quietHours.enabled })}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+          />
+          <span>Enable quiet hours</span>
+        </label>
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="quiet-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="quiet-start"
+              type="time"
+              value={preferences.quietHours.start}
+              disabled={!preferences.quietHours.enabled}
+              onChange={e => updateQuietHours({ start: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          <div>
+            <label htmlFor="quiet-end" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="quiet-end"
+              type="time"
+              value={preferences.quietHours.end}
+              disabled={!preferences.quietHours.enabled}
+              onChange={e => updateQuietHours({ end: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          <div>
+            <label htmlFor="quiet-timezone" className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+            <input
+              id="quiet-timezone"
+              type="text"
+              value={preferences.quietHours.timezone}
+              disabled={!preferences.quietHours.enabled}
+              onChange={e => updateQuietHours({ timezone: e.target.value })}
+              placeholder="Africa/Cairo"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {success && <p className="text-sm text-green-600">{success}</p>}
+
+      <div className="flex justify-end space-x-3">
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Close
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Preferences'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
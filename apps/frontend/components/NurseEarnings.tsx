@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+interface Balance {
+  available: number;
+  pending: number;
+  inWithdrawal: number;
+  paidOut: number;
+  lifetimeEarnings: number;
+  minWithdrawal: number;
+  clearingDays: number;
+}
+
+interface LedgerLine {
+  id: string;
+  entryType: 'service_payment' | 'bonus' | 'refund' | 'withdrawal' | 'platform_fee' | 'cash_collection';
+  description: string;
+  amount: number;
+  postedAt: string;
+  availableAt: string;
+  pending: boolean;
+  request?: { id: string; title: string; serviceType: string } | null;
+}
+
+interface Statement {
+  openingBalance: number;
+  visitEarnings: number;
+  bonuses: number;
+  refunds: number;
+  withdrawals: number;
+  platformFees: number;
+  closingBalance: number;
+  entries: LedgerLine[];
+}
+
+interface Withdrawal {
+  _id: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'rejected';
+  payoutMethod: 'bank_transfer' | 'mobile_wallet';
+  createdAt: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+}
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const egp = (piastres: number) => `EGP ${(piastres / 100).toFixed(2)}`;
+
+const ENTRY_LABELS: Record<string, string> = {
+  service_payment: 'Visit',
+  bonus: 'Bonus',
+  refund: 'Refund',
+  withdrawal: 'Withdrawal',
+  platform_fee: 'Platform fee',
+  cash_collection: 'Cash collected',
+};
+
+const WITHDRAWAL_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const NurseEarnings: React.FC = () => {
+  const now = new Date();
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [entries, setEntries] = useState<LedgerLine[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [month, setMonth] = useState(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showWithdrawForm, setShowWithdrawForm] = useState(false);
+  const [form, setForm] = useState({ amount: '', payoutMethod: 'bank_transfer', payoutDetails: '', note: '' });
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadOverview();
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [page]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [month]);
+
+  const loadOverview = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const [balanceResponse, withdrawalsResponse] = await Promise.all([
+        apiService.getLedgerBalance(),
+        apiService.getMyWithdrawals(),
+      ]);
+      setBalance(unwrap(balanceResponse));
+      setWithdrawals(unwrap(withdrawalsResponse)?.withdrawals || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your balance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadEntries = async () => {
+    try {
+      const result = unwrap(await apiService.getLedgerEntries(page));
+      setEntries(result?.entries || []);
+      setPages(result?.pagination?.pages || 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your ledger');
+    }
+  };
+
+  const loadStatement = async () => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    if (!year || !monthNumber) return;
+
+    try {
+      setStatement(unwrap(await apiService.getEarningsStatement(year, monthNumber)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the monthly statement');
+    }
+  };
+
+  const handleWithdraw = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Math.round(parseFloat(form.amount) * 100);
+    if (!amount || amount <= 0) {
+      setError('Enter the amount you want to withdraw');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      await apiService.requestWithdrawal({
+        amount,
+        payoutMethod: form.payoutMethod as 'bank_transfer' | 'mobile_wallet',
+        payoutDetails: form.payoutDetails,
+        note: form.note || undefined,
+      });
+      setShowWithdrawForm(false);
+      setForm({ amount: '', payoutMethod: 'bank_transfer', payoutDetails: '', note: '' });
+      await Promise.all([loadOverview(), loadEntries(), loadStatement()]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to request the withdrawal');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const hasPendingWithdrawal = withdrawals.some(withdrawal => withdrawal.status === 'pending');
+  const canWithdraw = !!balance && balance.available >= balance.minWithdrawal && !hasPendingWithdrawal;
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+      {/* Balance */}
+      {balance && (
+        <div className="grid md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+            <p className="text-sm font-medium text-gray-600">Available</p>
+            <p className="text-2xl font-bold text-green-700">{egp(balance.available)}</p>
+            <p className="text-xs text-gray-500 mt-1">Ready to withdraw</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+            <p className="text-sm font-medium text-gray-600">Pending</p>
+            <p className="text-2xl font-bold text-yellow-700">{egp(balance.pending)}</p>
+            <p className="text-xs text-gray-500 mt-1">Clears {balance.clearingDays} days after each visit is paid</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+            <p className="text-sm font-medium text-gray-600">Being paid out</p>
+            <p className="text-2xl font-bold text-blue-700">{egp(balance.inWithdrawal)}</p>
+            <p className="text-xs text-gray-500 mt-1">{egp(balance.paidOut)} paid out so far</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+            <p className="text-sm font-medium text-gray-600">Lifetime earnings</p>
+            <p className="text-2xl font-bold text-gray-900">{egp(balance.lifetimeEarnings)}</p>
+            <p className="text-xs text-gray-500 mt-1">After platform fees</p>
+          </div>
+        </div>
+      )}
+
+      {/* Withdrawals */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Withdrawals</h3>
+          <button
+            type="button"
+            onClick={() => setShowWithdrawForm(!showWithdrawForm)}
+            disabled={!canWithdraw}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Request withdrawal
+          </button>
+        </div>
+
+        {!canWithdraw && balance && (
+          <p className="text-sm text-gray-500 mb-4">
+            {hasPendingWithdrawal
+              ? 'Your last withdrawal is still waiting for approval.'
+              : `You can withdraw once at least ${egp(balance.minWithdrawal)} is available.`}
+          </p>
+        )}
+
+        {showWithdrawForm && balance && (
+          <form onSubmit={handleWithdraw} className="grid md:grid-cols-2 gap-4 mb-6 p-4 bg-gray-50 rounded-md">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount (EGP)</label>
+              <input
+                type="number"
+                min={balance.minWithdrawal / 100}
+                max={balance.available / 100}
+                step="0.01"
+                required
+                value={form.amount}
+                onChange={e => setForm({ ...form, amount: e.target.value })}
+                placeholder={`Up to ${(balance.available / 100).toFixed(2)}`}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Send to</label>
+              <select
+                value={form.payoutMethod}
+                onChange={e => setForm({ ...form, payoutMethod: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="bank_transfer">Bank account</option>
+                <option value="mobile_wallet">Mobile wallet</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {form.payoutMethod === 'bank_transfer' ? 'IBAN / account number' : 'Wallet phone number'}
+              </label>
+              <input
+                required
+                minLength={5}
+                maxLength={200}
+                value={form.payoutDetails}
+                onChange={e => setForm({ ...form, payoutDetails: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+              <input
+                maxLength={500}
+                value={form.note}
+                onChange={e => setForm({ ...form, note: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit request'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {withdrawals.length === 0 ? (
+          <p className="text-sm text-gray-500">No withdrawals yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {withdrawals.map(withdrawal => (
+              <div key={withdrawal._id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {egp(withdrawal.amount)} to {withdrawal.payoutMethod === 'bank_transfer' ? 'bank account' : 'mobile wallet'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Requested {new Date(withdrawal.createdAt).toLocaleDateString()}
+                    {withdrawal.rejectionReason && ` · ${withdrawal.rejectionReason}`}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${WITHDRAWAL_STYLES[withdrawal.status]}`}>
+                  {withdrawal.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Monthly statement */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Monthly statement</h3>
+          <input
+            type="month"
+            value={month}
+            onChange={e => setMonth(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+          />
+        </div>
+        {statement && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div><p className="text-gray-500">Opening balance</p><p className="font-semibold">{egp(statement.openingBalance)}</p></div>
+            <div><p className="text-gray-500">Visit earnings</p><p className="font-semibold text-green-700">{egp(statement.visitEarnings)}</p></div>
+            <div><p className="text-gray-500">Bonuses</p><p className="font-semibold text-green-700">{egp(statement.bonuses)}</p></div>
+            <div><p className="text-gray-500">Platform fees</p><p className="font-semibold text-gray-700">{egp(statement.platformFees)}</p></div>
+            <div><p className="text-gray-500">Refunds</p><p className="font-semibold text-red-700">{egp(statement.refunds)}</p></div>
+            <div><p className="text-gray-500">Withdrawals</p><p className="font-semibold text-red-700">{egp(statement.withdrawals)}</p></div>
+            <div className="md:col-span-2"><p className="text-gray-500">Closing balance</p><p className="font-semibold">{egp(statement.closingBalance)}</p></div>
+          </div>
+        )}
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Ledger</h3>
+        </div>
+        {entries.length === 0 ? (
+          <p className="px-6 py-8 text-center text-gray-500">No ledger entries yet. Earnings appear here once a visit is paid.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {entries.map(entry => (
+              <div key={entry.id} className="px-6 py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{ENTRY_LABELS[entry.entryType] || entry.entryType}</span>
+                    {entry.request?.title || entry.description}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.postedAt).toLocaleString()}
+                    {entry.pending && ` · available ${new Date(entry.availableAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <p className={`text-sm font-semibold ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {entry.amount >= 0 ? '+' : '-'}{egp(Math.abs(entry.amount))}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        {pages > 1 && (
+          <div className="flex justify-center items-center gap-4 py-3 text-sm border-t border-gray-200">
+            <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+              Previous
+            </button>
+            <span>Page {page} of {pages}</span>
+            <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NurseEarnings;
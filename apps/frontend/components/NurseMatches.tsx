@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+type Criterion = 'distance' | 'specialization' | 'rating' | 'budget' | 'language' | 'availability';
+
+interface NurseMatch {
+  nurse: {
+    id: string;
+    name?: string;
+    profileImage?: string;
+    specializations: string[];
+    yearsOfExperience?: number;
+    rating: number;
+    totalReviews: number;
+    completedJobs: number;
+    hourlyRate?: number;
+    languages: string[];
+  };
+  distanceKm: number | null;
+  available: boolean;
+  score: number;
+  breakdown: Record<Criterion, number | null>;
+  invited: boolean;
+}
+
+const CRITERIA: { key: Criterion; label: string }[] = [
+  { key: 'distance', label: 'Distance' },
+  { key: 'specialization', label: 'Specialization' },
+  { key: 'rating', label: 'Rating' },
+  { key: 'budget', label: 'Budget' },
+  { key: 'language', label: 'Language' },
+  { key: 'availability', label: 'Availability' },
+];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+interface NurseMatchesProps {
+  requestId: string;
+}
+
+// Best nurses for a pending request, which the patient can invite to apply
+const NurseMatches: React.FC<NurseMatchesProps> = ({ requestId }) => {
+  const [matches, setMatches] = useState<NurseMatch[]>([]);
+  const [invitedCount, setInvitedCount] = useState(0);
+  const [maxInvitations, setMaxInvitations] = useState(20);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadMatches();
+  }, [requestId]);
+
+  const loadMatches = async () => {
+    try {
+      setLoading(true);
+      const data = unwrap(await apiService.getRequestMatches(requestId));
+      setMatches(data.matches || []);
+      setInvitedCount(data.invitedCount || 0);
+      setMaxInvitations(data.maxInvitations || 20);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load matching nurses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (nurseId: string) => {
+    setSelected(selected.includes(nurseId) ? selected.filter(id => id !== nurseId) : [...selected, nurseId]);
+  };
+
+  const handleInvite = async (nurseIds?: string[]) => {
+    try {
+      setInviting(true);
+      setError('');
+      setSuccess('');
+      const result: any = await apiService.inviteNurses(requestId, nurseIds ? { nurseIds } : { limit: 5 });
+      setSuccess(result?.message || 'Nurses invited');
+      setSelected([]);
+      await loadMatches();
+    } catch (err: any) {
+      setError(err.message || 'Failed to invite nurses');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const uninvited = matches.filter(match => !match.invited);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Top Matching Nurses</h3>
+          <p className="text-sm text-gray-500">
+            Ranked by distance, specialization, rating, budget, language and availability.
+            {' '}{invitedCount} of {maxInvitations} invitations used.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={() => handleInvite(selected)}
+              disabled={inviting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Invite selected ({selected.length})
+            </button>
+          )}
+          {uninvited.length > 0 && (
+            <button
+              type="button"
+              onClick={() => handleInvite()}
+              disabled={inviting}
+              className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md text-sm hover:bg-blue-50 disabled:opacity-50"
+            >
+              {inviting ? 'Inviting...' : `Invite top ${Math.min(5, uninvited.length)}`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">{error}</div>}
+      {success && <div className="mb-4 p-3 bg-green-50 border border-green-200 text-green-700 rounded text-sm">{success}</div>}
+
+      {loading ? (
+        <p className="text-gray-500 text-sm">Finding nurses...</p>
+      ) : matches.length === 0 ? (
+        <p className="text-gray-500 text-sm">No verified nurses near this request yet. Nurses can still find it and apply.</p>
+      ) : (
+        <div className="space-y-3">
+          {matches.map(match => (
+            <div key={match.nurse.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <label className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={match.invited || selected.includes(match.nurse.id)}
+                    disabled={match.invited || inviting}
+                    onChange={() => toggleSelected(match.nurse.id)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {match.nurse.name}
+                      {match.invited && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Invited</span>
+                      )}
+                      {!match.available && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">May be busy</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {match.nurse.rating.toFixed(1)}⭐ ({match.nurse.totalReviews} reviews)
+                      {match.distanceKm !== null && ` · ${match.distanceKm} km away`}
+                      {match.nurse.hourlyRate !== undefined && ` · ${match.nurse.hourlyRate} EGP/hour`}
+                    </p>
+                    {(match.nurse.specializations.length > 0 || match.nurse.languages.length > 0) && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {[...match.nurse.specializations.map(s => s.replace('_', ' ')), ...match.nurse.languages].join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                </label>
+                <div className="text-right">
+                  <p className="text-2xl font-semibold text-blue-600">{match.score}</p>
+                  <p className="text-xs text-gray-500">match score</p>
+                </div>
+              </div>
+              <div className="mt-3 grid grid-cols-3 md:grid-cols-6 gap-2">
+                {CRITERIA.filter(({ key }) => match.breakdown[key] !== null).map(({ key, label }) => (
+                  <div key={key}>
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <div className="h-1.5 bg-gray-200 rounded">
+                      <div
+                        className="h-1.5 bg-blue-500 rounded"
+                        style={{ width: `${Math.round((match.breakdown[key] || 0) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NurseMatches;
@@ -11,6 +11,8 @@ interface PaymentFormProps {
   description: string;
   onSuccess: (paymentId: string) => void;
   onError: (error: string) => void;
+  // Escrow hold created by the backend; the card is only authorized, not charged
+  hold?: { clientSecret: string; paymentIntentId: string; platformFee: number };
 }
 
 const CheckoutForm: React.FC<PaymentFormProps> = ({
@@ -19,6 +21,7 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
   description,
   onSuccess,
   onError,
+  hold,
 }) => {
   const stripe = useStripe();
   const elements = useElements();
@@ -36,8 +39,8 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
     setError(null);
 
     try {
-      // Create payment intent
-      const paymentIntentResponse = await apiService.createPaymentIntent({
+      // Create payment intent unless an escrow hold already exists
+      const paymentIntentResponse: any = hold ? { data: hold } : await apiService.createPaymentIntent({
         requestId,
         amount,
         paymentMethod: 'credit_card',
@@ -59,7 +62,7 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
       if (stripeError) {
         setError(stripeError.message || 'Payment failed');
         onError(stripeError.message || 'Payment failed');
-      } else if (paymentIntent?.status === 'succeeded') {
+      } else if (paymentIntent?.status === 'succeeded' || paymentIntent?.status === 'requires_capture') {
         // Confirm payment on backend
         await apiService.confirmPayment({
           paymentIntentId,
@@ -115,8 +118,8 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
           <span className="text-sm font-medium">EGP {(amount / 100).toFixed(2)}</span>
         </div>
         <div className="flex justify-between items-center mb-2">
-          <span className="text-sm text-gray-600">Platform Fee (10%):</span>
-          <span className="text-sm font-medium">EGP {(amount * 0.1 / 100).toFixed(2)}</span>
+          <span className="text-sm text-gray-600">Platform Fee{hold ? '' : ' (10%)'}:</span>
+          <span className="text-sm font-medium">EGP {((hold ? hold.platformFee : amount * 0.1) / 100).toFixed(2)}</span>
         </div>
         <div className="border-t pt-2">
           <div className="flex justify-between items-center">
@@ -141,6 +144,8 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
             </svg>
             Processing...
           </div>
+        ) : hold ? (
+          `Authorize EGP ${(amount / 100).toFixed(2)}`
         ) : (
           `Pay EGP ${(amount / 100).toFixed(2)}`
         )}
@@ -148,6 +153,7 @@ const CheckoutForm: React.FC<PaymentFormProps> = ({
 
       <div className="text-xs text-gray-500 text-center">
         <p>Your payment is secured by Stripe. We never store your card details.</p>
+        {hold && <p className="mt-1">The amount is held on your card and only charged once the visit is confirmed.</p>}
       </div>
     </form>
   );
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../lib/api';
+
+interface RecommendedRequest {
+  id: string;
+  title: string;
+  serviceType: string;
+  address: string;
+  scheduledDate: string;
+  estimatedDuration?: number;
+  urgencyLevel?: string;
+  budget?: number;
+  patient: { id: string; name: string } | null;
+  distanceKm: number | null;
+  available: boolean;
+  invited: boolean;
+  score: number;
+}
+
+const unwrap = (response: any) => response?.data ?? response;
+
+// A nurse's "recommended for you" feed; each card jumps to the request in the list below to apply
+const RecommendedRequests: React.FC = () => {
+  const [requests, setRequests] = useState<RecommendedRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRecommendations();
+  }, []);
+
+  const loadRecommendations = async () => {
+    try {
+      setLoading(true);
+      setRequests(unwrap(await apiService.getRecommendedRequests(6)).requests || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load recommended requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showRequest = (requestId: string) => {
+    document.getElementById(`request-${requestId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  if (loading || (requests.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Recommended for You</h2>
+      <p className="text-sm text-gray-500 mb-4">Open requests that fit your location, specializations, rates, languages and schedule.</p>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {requests.map(request => (
+            <button
+              key={request.id}
+              type="button"
+              onClick={() => showRequest(request.id)}
+              className={`text-left p-4 rounded-lg border bg-white hover:shadow-md transition-shadow ${
+                request.invited ? 'border-blue-400' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <p className="font-medium text-gray-900 pr-2">{request.title}</p>
+                <span className="text-lg font-semibold text-blue-600">{request.score}</span>
+              </div>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {request.invited && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Invited by patient</span>
+                )}
+                {request.urgencyLevel && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{request.urgencyLevel}</span>
+                )}
+                {!request.available && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Outside your schedule</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600">
+                {new Date(request.scheduledDate).toLocaleString()}
+                {request.estimatedDuration ? ` · ${request.estimatedDuration}h` : ''}
+              </p>
+              <p className="text-sm text-gray-600">
+                {request.distanceKm !== null ? `${request.distanceKm} km away` : request.address}
+                {request.budget ? ` · ${request.budget} EGP` : ''}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecommendedRequests;
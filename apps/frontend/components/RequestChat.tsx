@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { apiService } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { connectMessagingSocket, releaseMessagingSocket } from '../lib/messagingSocket';
+import { Card } from './Layout';
+
+interface ChatMessage {
+  id: string;
+  conversationId: string;
+  senderId?: string;
+  type: 'text' | 'image' | 'file' | 'location' | 'system';
+  content: string;
+  attachmentUrl?: string;
+  attachmentMetadata?: { filename: string; size: number; mimeType: string };
+  location?: { latitude: number; longitude: number; address?: string };
+  status: 'sent' | 'delivered' | 'read';
+  deliveredAt?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+interface Conversation {
+  id: string;
+  title?: string;
+  otherParticipant: {
+    id: string;
+    name: string;
+    role: 'patient' | 'nurse';
+  } | null;
+  unreadCount: number;
+}
+
+interface RequestChatProps {
+  requestId: string;
+}
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const RequestChat: React.FC<RequestChatProps> = ({ requestId }) => {
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadConversation();
+  }, [requestId]);
+
+  // Subscribe to live updates once the conversation is known
+  useEffect(() => {
+    if (!conversation) return;
+
+    const socket = connectMessagingSocket();
+    if (!socket) return;
+
+    const handleNewMessage = (message: ChatMessage) => {
+      if (message.conversationId !== conversation.id) return;
+
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      if (message.senderId !== user?.id) {
+        apiService.markConversationRead(conversation.id).catch(() => undefined);
+      }
+    };
+
+    const handleReceipt = (status: 'delivered' | 'read') => (payload: { conversationId: string; deliveredAt?: string; readAt?: string }) => {
+      if (payload.conversationId !== conversation.id) return;
+
+      setMessages(prev => prev.map(m => {
+        if (m.senderId !== user?.id || m.status === 'read') return m;
+        return status === 'read'
+          ? { ...m, status: 'read', readAt: payload.readAt }
+          : { ...m, status: 'delivered', deliveredAt: payload.deliveredAt };
+      }));
+    };
+
+    const handleDelivered = handleReceipt('delivered');
+    const handleRead = handleReceipt('read');
+
+    socket.on('message:new', handleNewMessage);
+    socket.on('message:delivered', handleDelivered);
+    socket.on('message:read', handleRead);
+
+    return () => {
+      socket.off('message:new', handleNewMessage);
+      socket.off('message:delivered', handleDelivered);
+      socket.off('message:read', handleRead);
+      releaseMessagingSocket();
+    };
+  }, [conversation?.id, user?.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const loadConversation = async () => {
+    try {
+      setLoading(true);
+      const conversationData = unwrap(await apiService.getConversationByRequest(requestId));
+      if (!conversationData || !conversationData.id) {
+        setConversation(null);
+        return;
+      }
+
+      setConversation(conversationData);
+      await loadMessages(conversationData.id);
+      await apiService.markConversationRead(conversationData.id);
+    } catch (err: any) {
+      console.error('Failed to load conversation:', err);
+      setError(err.message || 'Failed to load conversation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMessages = async (conversationId: string, before?: string) => {
+    const page = unwrap(await apiService.getMessages(conversationId, before));
+    const pageMessages: ChatMessage[] = page?.messages || [];
+
+    setMessages(prev => before ? [...pageMessages, ...prev] : pageMessages);
+    setHasMore(!!page?.pagination?.hasMore);
+    setNextCursor(page?.pagination?.nextCursor || null);
+  };
+
+  const send = async (message: Parameters<typeof apiService.sendMessage>[1]) => {
+    if (!conversation) return;
+
+    try {
+      setSending(true);
+      setError('');
+      const sent: ChatMessage = unwrap(await apiService.sendMessage(conversation.id, message));
+      if (sent?.id) {
+        setMessages(prev => prev.some(m => m.id === sent.id) ? prev : [...prev, sent]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendText = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content) return;
+
+    setDraft('');
+    await send({ type: 'text', content });
+  };
+
+  const handleAttachment = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setSending(true);
+      const formData = new FormData();
+      formData.append('attachments', file);
+      const upload = unwrap(await apiService.uploadRequestAttachments(requestId, formData));
+      const uploaded = upload?.files?.[0] || upload?.data?.files?.[0];
+      if (!uploaded) {
+        throw new Error('Upload failed');
+      }
+
+      await send({
+        type: file.type.startsWith('image/') ? 'image' : 'file',
+        attachmentUrl: uploaded.fileUrl,
+        attachmentMetadata: { filename: file.name, size: file.size, mimeType: file.type },
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload attachment');
+      setSending(false);
+    }
+  };
+
+  const handleShareLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Location sharing is not supported by your browser');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => send({
+        type: 'location',
+        location: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+      }),
+      () => setError('Unable to get your current location')
+    );
+  };
+
+  const renderMessageBody = (message: ChatMessage) => {
+    switch (message.type) {
+      case 'image':
+        return (
+          <a href={apiService.getFileUrl(message.attachmentUrl || '')} target="_blank" rel="noopener noreferrer">
+            <img
+              src={apiService.getFileUrl(message.attachmentUrl || '')}
+              alt={message.attachmentMetadata?.filename || 'Image'}
+              className="max-w-xs rounded-md"
+            />
+          </a>
+        );
+      case 'file':
+        return (
+          <a
+            href={apiService.getFileUrl(message.attachmentUrl || '')}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+          >
+            {message.content}
+          </a>
+        );
+      case 'location':
+        return message.location ? (
+          <a
+            href={`https://www.google.com/maps?q=${message.location.latitude},${message.location.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+          >
+            {message.content}
+          </a>
+        ) : message.content;
+      default:
+        return <span className="whitespace-pre-wrap">{message.content}</span>;
+    }
+  };
+
+  const renderStatus = (message: ChatMessage) => {
+    if (message.senderId !== user?.id) return null;
+    if (message.status === 'read') return <span className="text-blue-200">✓✓</span>;
+    if (message.status === 'delivered') return <span>✓✓</span>;
+    return <span>✓</span>;
+  };
+
+  if (loading) {
+    return (
+      <Card className="p-6">
+        <p className="text-gray-500">Loading conversation...</p>
+      </Card>
+    );
+  }
+
+  if (!conversation) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Chat with {conversation.otherParticipant?.name || (user?.role === 'patient' ? 'your nurse' : 'the patient')}
+        </h3>
+      </div>
+
+      <div className="h-80 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-3 bg-gray-50">
+        {hasMore && (
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => nextCursor && loadMessages(conversation.id, nextCursor)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Load earlier messages
+            </button>
+          </div>
+        )}
+
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-gray-500">No messages yet. Say hello!</p>
+        )}
+
+        {messages.map(message => {
+          if (message.type === 'system') {
+            return (
+              <p key={message.id} className="text-center text-xs text-gray-500">{message.content}</p>
+            );
+          }
+
+          const isMine = message.senderId === user?.id;
+          return (
+            <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[75%] px-3 py-2 rounded-lg text-sm ${
+                isMine ? 'bg-blue-600 text-white' : 'bg-white text-gray-900 border border-gray-200'
+              }`}>
+                {renderMessageBody(message)}
+                <div className={`mt-1 text-xs flex justify-end space-x-1 ${isMine ? 'text-blue-100' : 'text-gray-400'}`}>
+                  <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                  {renderStatus(message)}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <form onSubmit={handleSendText} className="mt-3 flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sending}
+          title="Attach image or file"
+          className="px-3 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+        >
+          📎
+        </button>
+        <button
+          type="button"
+          onClick={handleShareLocation}
+          disabled={sending}
+          title="Share my location"
+          className="px-3 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+        >
+          📍
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.pdf,.doc,.docx"
+          className="hidden"
+          onChange={handleAttachment}
+        />
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Type a message..."
+          maxLength={2000}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={sending || !draft.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Send'}
+        </button>
+      </form>
+    </Card>
+  );
+};
+
+export default RequestChat;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import apiService from '../lib/api';
+
+interface MedicationRow {
+  name: string;
+  dose: string;
+  route: string;
+  givenAt: string;
+}
+
+interface VisitReportFormProps {
+  requestId: string;
+  requestTitle?: string;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const VITAL_FIELDS: { key: string; label: string; unit: string; step: string }[] = [
+  { key: 'systolic', label: 'Systolic BP', unit: 'mmHg', step: '1' },
+  { key: 'diastolic', label: 'Diastolic BP', unit: 'mmHg', step: '1' },
+  { key: 'heartRate', label: 'Heart rate', unit: 'bpm', step: '1' },
+  { key: 'temperature', label: 'Temperature', unit: '°C', step: '0.1' },
+  { key: 'spo2', label: 'SpO2', unit: '%', step: '1' },
+  { key: 'glucose', label: 'Glucose', unit: 'mg/dL', step: '1' },
+];
+
+// datetime-local wants local time without a zone suffix
+const nowForInput = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const VisitReportForm: React.FC<VisitReportFormProps> = ({ requestId, requestTitle, onClose, onSaved }) => {
+  const [recordedAt, setRecordedAt] = useState(nowForInput());
+  const [vitals, setVitals] = useState<Record<string, string>>({});
+  const [medications, setMedications] = useState<MedicationRow[]>([]);
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateMedication = (index: number, field: keyof MedicationRow, value: string) => {
+    setMedications(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const vitalValues = Object.fromEntries(
+      Object.entries(vitals)
+        .filter(([, value]) => value !== '')
+        .map(([key, value]) => [key, Number(value)])
+    );
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const report = unwrap(await apiService.createVisitReport({
+        requestId,
+        recordedAt: new Date(recordedAt).toISOString(),
+        ...(Object.keys(vitalValues).length > 0 && { vitals: vitalValues }),
+        ...(medications.length > 0 && {
+          medications: medications.map(row => ({
+            name: row.name,
+            dose: row.dose,
+            ...(row.route && { route: row.route }),
+            givenAt: new Date(row.givenAt).toISOString(),
+          })),
+        }),
+        ...(notes.trim() && { notes: notes.trim() }),
+      }));
+
+      if (photos.length > 0) {
+        const formData = new FormData();
+        photos.forEach(photo => formData.append('photos', photo));
+        await apiService.uploadVisitReportPhotos(report.id, formData);
+      }
+
+      onSaved?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the visit report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Visit report</h2>
+            {requestTitle && <p className="text-sm text-gray-500">{requestTitle}</p>}
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {error && <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        <label className="block text-sm font-medium text-gray-700">
+          Observations taken at
+          <input type="datetime-local" required value={recordedAt} onChange={e => setRecordedAt(e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Vitals</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {VITAL_FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-gray-600">
+                {field.label} ({field.unit})
+                <input
+                  type="number"
+                  step={field.step}
+                  value={vitals[field.key] || ''}
+                  onChange={e => setVitals({ ...vitals, [field.key]: e.target.value })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Medications given</h3>
+            <button
+              type="button"
+              onClick={() => setMedications([...medications, { name: '', dose: '', route: '', givenAt: nowForInput() }])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add medication
+            </button>
+          </div>
+          {medications.length === 0 ? (
+            <p className="text-sm text-gray-400">None recorded.</p>
+          ) : (
+            <div className="space-y-2">
+              {medications.map((row, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <input required placeholder="Name" value={row.name} onChange={e => updateMedication(index, 'name', e.target.value)} className={`${inputClass} col-span-3`} />
+                  <input required placeholder="Dose" value={row.dose} onChange={e => updateMedication(index, 'dose', e.target.value)} className={`${inputClass} col-span-2`} />
+                  <input placeholder="Route" value={row.route} onChange={e => updateMedication(index, 'route', e.target.value)} className={`${inputClass} col-span-2`} />
+                  <input type="datetime-local" required value={row.givenAt} onChange={e => updateMedication(index, 'givenAt', e.target.value)} className={`${inputClass} col-span-4`} />
+                  <button
+                    type="button"
+                    onClick={() => setMedications(medications.filter((_, i) => i !== index))}
+                    className="col-span-1 text-red-600 hover:text-red-800 text-sm"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700">
+          Notes
+          <textarea
+            rows={4}
+            maxLength={5000}
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            className={`${inputClass} mt-1`}
+            placeholder="Observations, care given, follow-up needed..."
+          />
+        </label>
+
+        <label className="block text-sm font-medium text-gray-700">
+          Wound photos (up to 5, max 5MB each)
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            multiple
+            onChange={e => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+            className="block mt-1 text-sm"
+          />
+        </label>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save report'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VisitReportForm;
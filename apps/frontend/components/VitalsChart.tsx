@@ -0,0 +1,118 @@
+import React from 'react';
+
+export interface VitalsPoint {
+  at: string;
+  value: number;
+}
+
+export interface VitalsSeries {
+  label: string;
+  color: string;
+  points: VitalsPoint[];
+}
+
+interface VitalsChartProps {
+  title: string;
+  unit: string;
+  series: VitalsSeries[];
+  // Shaded band for the usual adult range, purely as a visual guide
+  normalRange?: { min: number; max: number };
+}
+
+const WIDTH = 480;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+
+const VitalsChart: React.FC<VitalsChartProps> = ({ title, unit, series, normalRange }) => {
+  const allPoints = series.flatMap(line => line.points);
+
+  if (allPoints.length === 0) {
+    return null;
+  }
+
+  const times = allPoints.map(point => new Date(point.at).getTime());
+  const values = allPoints.map(point => point.value);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  let minValue = Math.min(...values, ...(normalRange ? [normalRange.min] : []));
+  let maxValue = Math.max(...values, ...(normalRange ? [normalRange.max] : []));
+  if (minValue === maxValue) {
+    minValue -= 1;
+    maxValue += 1;
+  }
+  const margin = (maxValue - minValue) * 0.1;
+  minValue -= margin;
+  maxValue += margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const yTicks = [0, 0.5, 1].map(fraction => minValue + fraction * (maxValue - minValue));
+  const formatDate = (time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900">{title} <span className="font-normal text-gray-500">({unit})</span></h3>
+        {series.length > 1 && (
+          <div className="flex space-x-3">
+            {series.map(line => (
+              <span key={line.label} className="flex items-center text-xs text-gray-600">
+                <span className="inline-block w-3 h-0.5 mr-1" style={{ backgroundColor: line.color }}></span>
+                {line.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${title} over time`}>
+        {normalRange && (
+          <rect
+            x={PADDING.left}
+            y={y(normalRange.max)}
+            width={plotWidth}
+            height={y(normalRange.min) - y(normalRange.max)}
+            fill="#dcfce7"
+          />
+        )}
+
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+              {Math.round(tick * 10) / 10}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="10" fill="#6b7280">{formatDate(minTime)}</text>
+        {maxTime !== minTime && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="10" fill="#6b7280">{formatDate(maxTime)}</text>
+        )}
+
+        {series.map(line => {
+          const sorted = [...line.points].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+          const path = sorted
+            .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(new Date(point.at).getTime())},${y(point.value)}`)
+            .join(' ');
+
+          return (
+            <g key={line.label}>
+              <path d={path} fill="none" stroke={line.color} strokeWidth="2" />
+              {sorted.map(point => (
+                <circle key={point.at} cx={x(new Date(point.at).getTime())} cy={y(point.value)} r="3" fill={line.color}>
+                  <title>{`${new Date(point.at).toLocaleString()}: ${point.value} ${unit}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default VitalsChart;
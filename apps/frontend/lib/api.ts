@@ -18,6 +18,16 @@ import { errorHandler } from './errorHandler';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  outcome?: string;
+  from?: string;
+  to?: string;
+}
+
 // Remove unused interface for now
 
 class ApiService {
@@ -98,6 +108,47 @@ class ApiService {
     }
   }
 
+  // Reads Server-Sent Events from a POST response: `delta` text goes to onDelta, `done` resolves, `error` rejects
+  private async readEventStream<T = any>(response: Response, onDelta: (content: string) => void): Promise<T> {
+    if (!response.ok || !response.body) {
+      return this.handleResponse<T>(response);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: T | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'delta') {
+          onDelta(payload.content);
+        } else if (event === 'done') {
+          result = payload;
+        } else if (event === 'error') {
+          throw new Error(payload.message || 'Failed to get a response');
+        }
+      }
+    }
+
+    if (result === undefined) {
+      throw new Error('The response ended before it was complete');
+    }
+    return result;
+  }
+
   private async handleResponse<T>(response: Response): Promise<T> {
     console.log('API Response status:', response.status, response.statusText);
 
@@ -214,26 +265,107 @@ class ApiService {
     }
   }
 
-  // Refresh token method (if backend supports it)
-  async refreshToken() {
+  // Exchange the stored refresh token for a new token pair.
+  // Concurrent callers share one request, since each refresh token can only be used once.
+  private refreshPromise: Promise<boolean> | null = null;
+
+  async refreshToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<boolean> {
+    const refreshToken = typeof window !== 'undefined' ? localStorage.getItem('refresh_token') : null;
+    if (!refreshToken) {
+      return false;
+    }
+
     try {
-      console.log('Attempting to refresh token');
       const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
         method: 'POST',
-        headers: this.getAuthHeaders(),
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
       });
 
-      if (response.ok) {
-        const result = await this.handleResponse(response);
-        console.log('Token refreshed successfully');
-        return result;
-      } else {
-        throw new Error('Token refresh failed');
+      if (!response.ok) {
+        console.warn('Token refresh rejected with status', response.status);
+        // The refresh token is dead (expired, revoked or reused); don't try it again
+        if (response.status === 401) {
+          localStorage.removeItem('refresh_token');
+        }
+        return false;
+      }
+
+      const result: any = await response.json();
+      const tokens = result?.data ?? result;
+      if (!tokens?.access_token || !tokens?.refresh_token) {
+        return false;
       }
+
+      this.storeTokens(tokens.access_token, tokens.refresh_token);
+      console.log('Token refreshed successfully');
+      return true;
     } catch (error) {
       console.error('Token refresh error:', error);
-      throw error;
+      return false;
+    }
+  }
+
+  storeTokens(accessToken: string, refreshToken?: string) {
+    localStorage.setItem('token', accessToken);
+    if (refreshToken) {
+      localStorage.setItem('refresh_token', refreshToken);
     }
+
+    try {
+      const payload = JSON.parse(atob(accessToken.split('.')[1]));
+      localStorage.setItem('token_expiration', (payload.exp * 1000).toString());
+    } catch (error) {
+      console.error('Error parsing token for expiration:', error);
+    }
+  }
+
+  async logout() {
+    const refreshToken = typeof window !== 'undefined' ? localStorage.getItem('refresh_token') : null;
+    if (!refreshToken) return;
+
+    try {
+      await fetch(`${API_BASE_URL}/api/auth/logout`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ refreshToken }),
+      });
+    } catch (error) {
+      // The session expires on its own; logging out locally is enough
+      console.error('Logout request failed:', error);
+    }
+  }
+
+  async logoutAllDevices() {
+    const response = await fetch(`${API_BASE_URL}/api/auth/logout-all`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getSessions() {
+    const response = await fetch(`${API_BASE_URL}/api/auth/sessions`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async revokeSession(sessionId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
   }
 
   async getProfile() {
@@ -268,6 +400,43 @@ class ApiService {
     }
   }
 
+  // Email verification and password reset
+  async verifyEmail(token: string) {
+    const response = await fetch(`${API_BASE_URL}/api/auth/verify-email`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ token }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async resendVerification(email: string) {
+    const response = await fetch(`${API_BASE_URL}/api/auth/resend-verification`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ email }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async forgotPassword(email: string) {
+    const response = await fetch(`${API_BASE_URL}/api/auth/forgot-password`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ email }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async resetPassword(token: string, password: string) {
+    const response = await fetch(`${API_BASE_URL}/api/auth/reset-password`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ token, password }),
+    });
+    return this.handleResponse(response);
+  }
+
 
   // Nurses endpoints
   async getNearbyNurses(params: {
@@ -275,12 +444,16 @@ class ApiService {
     longitude: number;
     radius?: number;
     specializations?: string[];
+    availableAt?: string;
+    duration?: number;
   }) {
     const queryParams = new URLSearchParams({
       latitude: params.latitude.toString(),
       longitude: params.longitude.toString(),
       ...(params.radius && { radius: params.radius.toString() }),
       ...(params.specializations && { specializations: params.specializations.join(',') }),
+      ...(params.availableAt && { availableAt: params.availableAt }),
+      ...(params.duration && { duration: params.duration.toString() }),
     });
 
     const response = await fetch(`${API_BASE_URL}/api/nurses/nearby?${queryParams}`, {
@@ -296,6 +469,60 @@ class ApiService {
     return result;
   }
 
+  // Search endpoints
+  async searchNurses(params: {
+    q?: string;
+    latitude?: number;
+    longitude?: number;
+    radius?: number;
+    specializations?: string[];
+    minRating?: number;
+    maxHourlyRate?: number;
+    minExperience?: number;
+    availableOnly?: boolean;
+    sortBy?: 'rating' | 'hourlyRate' | 'experience' | 'distance';
+    sortOrder?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+    cursor?: string;
+  }) {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return;
+      if (Array.isArray(value)) {
+        if (value.length > 0) queryParams.append(key, value.join(','));
+        return;
+      }
+      queryParams.append(key, value.toString());
+    });
+
+    const response = await fetch(`${API_BASE_URL}/api/search/nurses?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    const result = await this.handleResponse(response);
+
+    if (result && typeof result === 'object' && 'data' in result) {
+      return (result as { data: unknown }).data;
+    }
+
+    return result;
+  }
+
+  async getSearchSuggestions(q: string, type: 'specializations' | 'locations' | 'services' | 'all' = 'all', limit = 5) {
+    const queryParams = new URLSearchParams({ q, type, limit: limit.toString() });
+
+    const response = await fetch(`${API_BASE_URL}/api/search/suggestions?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    const result = await this.handleResponse(response);
+
+    if (result && typeof result === 'object' && 'data' in result) {
+      return (result as { data: unknown }).data;
+    }
+
+    return result;
+  }
+
   async getNurseById(nurseId: string) {
     const response = await fetch(`${API_BASE_URL}/api/nurses/${nurseId}`, {
       headers: this.getAuthHeaders(),
@@ -321,6 +548,97 @@ class ApiService {
     }
   }
 
+  async getMyAvailability() {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/availability`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async updateAvailabilitySchedule(schedule: {
+    workingHours?: { dayOfWeek: number; startTime: string; endTime: string }[];
+    bufferMinutes?: number;
+    timezone?: string;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/availability/schedule`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(schedule),
+    });
+    return this.handleResponse(response);
+  }
+
+  async addTimeOff(timeOff: { startsAt: string; endsAt: string; reason?: string }) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/availability/time-off`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(timeOff),
+    });
+    return this.handleResponse(response);
+  }
+
+  async removeTimeOff(timeOffId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/availability/time-off/${timeOffId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Credential expiry and renewals
+  async getMyCredentials() {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/credentials`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async submitCredentialRenewal(formData: FormData) {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}/api/nurses/credentials/renewals`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+    return this.handleResponse(response);
+  }
+
+  async getCredentialRenewals(status = 'pending') {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/credentials/renewals?status=${status}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getUpcomingCredentialExpirations(days = 60) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/credentials/expiring?days=${days}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async approveCredentialRenewal(nurseId: string, renewalId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/${nurseId}/credentials/renewals/${renewalId}/approve`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async rejectCredentialRenewal(nurseId: string, renewalId: string, reason: string) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/${nurseId}/credentials/renewals/${renewalId}/reject`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ reason }),
+    });
+    return this.handleResponse(response);
+  }
+
   async verifyNurseStatus(nurseId: string) {
     try {
       const response = await fetch(`${API_BASE_URL}/api/nurses/${nurseId}/verify`, {
@@ -500,6 +818,30 @@ class ApiService {
     return this.handleResponse(response);
   }
 
+  // Nurse matching
+  async getRecommendedRequests(limit = 20) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/recommended?limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getRequestMatches(requestId: string, limit = 10) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/matches?limit=${limit}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async inviteNurses(requestId: string, invitation: { nurseIds?: string[]; limit?: number }) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/invitations`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(invitation),
+    });
+    return this.handleResponse(response);
+  }
+
   async applyToRequest(applicationData: { requestId: string, price: number, estimatedTime: number }) {
     try {
       console.log(`Applying to request ${applicationData.requestId}`, applicationData);
@@ -726,46 +1068,157 @@ class ApiService {
     }
   }
 
-  // Mark request as completed by patient
-  async markRequestCompletedByPatient(requestId: string) {
-    try {
-      console.log(`Patient marking request ${requestId} as completed`);
-      const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/complete-patient`, {
-        method: 'PUT',
-        headers: this.getAuthHeaders(),
-      });
-
-      return this.handleResponse(response);
-    } catch (error) {
-      console.error('Mark request completed by patient error:', error);
-      throw error;
-    }
+  async checkInVisit(requestId: string, location: { latitude: number; longitude: number; accuracy?: number }) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/check-in`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(location),
+    });
+    return this.handleResponse(response);
   }
 
-  async cancelApplication(applicationId: string) {
-    try {
-      console.log(`Cancelling application ${applicationId}`);
-
-      if (!applicationId) {
-        throw new Error('Application ID is required');
-      }
+  async checkOutVisit(requestId: string, location: { latitude: number; longitude: number; accuracy?: number; cashCollected?: boolean }) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/check-out`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(location),
+    });
+    return this.handleResponse(response);
+  }
 
-      const response = await fetch(`${API_BASE_URL}/api/applications/${applicationId}`, {
-        method: 'DELETE',
-        headers: this.getAuthHeaders(),
-      });
+  async getFlaggedVisits(reviewed = false, page = 1, limit = 20) {
+    const queryParams = new URLSearchParams({
+      reviewed: reviewed.toString(),
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    const response = await fetch(`${API_BASE_URL}/api/requests/flagged-visits?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
 
-      console.log('Cancel application response status:', response.status);
+  async reviewVisitFlags(requestId: string, note?: string) {
+    const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/visit-flags/review`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ note }),
+    });
+    return this.handleResponse(response);
+  }
 
-      if (response.status === 401) {
-        return this.handleAuthError('application_cancel');
-      }
+  // Visit reports
+  async createVisitReport(reportData: any) {
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(reportData),
+    });
+    return this.handleResponse(response);
+  }
 
-      // Handle errors first
-      if (!response.ok) {
-        let errorMessage = 'Failed to cancel application';
+  async updateVisitReport(reportId: string, reportData: any) {
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports/${reportId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(reportData),
+    });
+    return this.handleResponse(response);
+  }
 
-        try {
+  async uploadVisitReportPhotos(reportId: string, formData: FormData) {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports/${reportId}/photos`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+    return this.handleResponse(response);
+  }
+
+  async deleteVisitReportPhoto(reportId: string, filename: string) {
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports/${reportId}/photos/${filename}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Wound photos are access-checked, so they can't be used as a plain <img src>
+  async getVisitReportPhotoUrl(path: string): Promise<string> {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error('Failed to load photo');
+    }
+    return URL.createObjectURL(await response.blob());
+  }
+
+  async getVisitReportsForRequest(requestId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports/request/${requestId}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getVisitTimeline(params: { patientId?: string; from?: string; to?: string } = {}) {
+    const queryParams = new URLSearchParams();
+    if (params.patientId) queryParams.append('patientId', params.patientId);
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+
+    const response = await fetch(`${API_BASE_URL}/api/visit-reports/timeline?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Mark request as completed by patient
+  async markRequestCompletedByPatient(requestId: string) {
+    try {
+      console.log(`Patient marking request ${requestId} as completed`);
+      const response = await fetch(`${API_BASE_URL}/api/requests/${requestId}/complete-patient`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+      });
+
+      return this.handleResponse(response);
+    } catch (error) {
+      console.error('Mark request completed by patient error:', error);
+      throw error;
+    }
+  }
+
+  async cancelApplication(applicationId: string) {
+    try {
+      console.log(`Cancelling application ${applicationId}`);
+
+      if (!applicationId) {
+        throw new Error('Application ID is required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/applications/${applicationId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      console.log('Cancel application response status:', response.status);
+
+      if (response.status === 401) {
+        return this.handleAuthError('application_cancel');
+      }
+
+      // Handle errors first
+      if (!response.ok) {
+        let errorMessage = 'Failed to cancel application';
+
+        try {
           const errorData = await response.json();
           errorMessage = errorData.message || errorMessage;
 
@@ -914,7 +1367,7 @@ class ApiService {
     }
   }
 
-  async rejectNurse(nurseId: string, rejectionReason?: string) {
+  async rejectNurse(nurseId: string, rejectionReason?: string, feedback: { field: string; message: string }[] = []) {
     try {
       console.log('Rejecting nurse:', nurseId, 'Reason:', rejectionReason);
 
@@ -928,7 +1381,8 @@ class ApiService {
         rejectionReason: rejectionReason || '', 
         reason: rejectionReason || '',         // Try alternative field name
         notes: rejectionReason || '',         // Try another alternative field name
-        message: rejectionReason || ''        // Try yet another field name
+        message: rejectionReason || '',       // Try yet another field name
+        feedback,                             // Per-field feedback turns the rejection into a request for changes
       };
 
       console.log('Sending reject nurse payload:', payload);
@@ -959,6 +1413,34 @@ class ApiService {
 
 
 
+  async getNurseSubmissions(nurseId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/nurses/${nurseId}/submissions`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getRequestedProfileChanges() {
+    const response = await fetch(`${API_BASE_URL}/api/nurse-profile/requested-changes`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async resubmitNurseProfile(formData: FormData) {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}/api/nurse-profile/resubmit`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+    return this.handleResponse(response);
+  }
+
   async getNurseDetails(nurseId: string) {
     try {
       console.log('🔍 Fetching nurse details for:', nurseId);
@@ -1051,6 +1533,14 @@ class ApiService {
     }
   }
 
+  async getSystemHealth(refresh = false) {
+    const response = await fetch(`${API_BASE_URL}/api/dashboard/admin/system-health${refresh ? '?refresh=true' : ''}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
   async getAdminStats() {
     try {
       console.log('Fetching admin stats from:', `${API_BASE_URL}/api/admin/stats`);
@@ -1245,6 +1735,211 @@ class ApiService {
     return this.handleResponse(response);
   }
 
+  async getRequestPayment(requestId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/requests/${requestId}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async authorizeRequestPayment(requestId: string, provider?: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/requests/${requestId}/authorize`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(provider ? { provider } : {}),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getCancellationQuote(requestId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/requests/${requestId}/cancellation-quote`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async confirmCashCollection(requestId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/requests/${requestId}/cash-collected`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getPaymentProviders() {
+    const response = await fetch(`${API_BASE_URL}/api/payments/providers`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getWallet(page = 1, limit = 20) {
+    const queryParams = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+
+    const response = await fetch(`${API_BASE_URL}/api/payments/wallet?${queryParams}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async openPaymentDispute(requestId: string, reason: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/requests/${requestId}/dispute`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ reason }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getPaymentDisputes(page = 1, limit = 20) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/disputes?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async resolvePaymentDispute(paymentId: string, data: {
+    resolution: 'capture' | 'partial_capture' | 'release';
+    amount?: number;
+    note?: string;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/disputes/${paymentId}/resolve`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Admin cancellation policies
+  async getCancellationPolicies() {
+    const response = await fetch(`${API_BASE_URL}/api/payments/admin/cancellation-policies`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async createCancellationPolicy(data: {
+    name: string;
+    cancelledBy: 'patient' | 'admin';
+    urgencyLevels?: string[];
+    tiers: { minHoursBefore: number; refundPercent: number; nurseCompensationPercent: number }[];
+    isActive?: boolean;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/admin/cancellation-policies`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  async updateCancellationPolicy(policyId: string, data: {
+    name?: string;
+    urgencyLevels?: string[];
+    tiers?: { minHoursBefore: number; refundPercent: number; nurseCompensationPercent: number }[];
+    isActive?: boolean;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/admin/cancellation-policies/${policyId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  async deleteCancellationPolicy(policyId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/payments/admin/cancellation-policies/${policyId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Nurse earnings ledger and withdrawals
+  async getLedgerBalance() {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/balance`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getLedgerEntries(page = 1, limit = 20) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/entries?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getEarningsStatement(year: number, month: number) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/statements/${year}/${month}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async requestWithdrawal(data: {
+    amount: number;
+    payoutMethod: 'bank_transfer' | 'mobile_wallet';
+    payoutDetails: string;
+    note?: string;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/withdrawals`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getMyWithdrawals(page = 1, limit = 20) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/withdrawals?page=${page}&limit=${limit}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getAdminWithdrawals(status?: string, page = 1, limit = 20) {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (status) params.append('status', status);
+    const response = await fetch(`${API_BASE_URL}/api/ledger/admin/withdrawals?${params.toString()}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async approveWithdrawal(withdrawalId: string, payoutReference?: string) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/admin/withdrawals/${withdrawalId}/approve`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ payoutReference }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async rejectWithdrawal(withdrawalId: string, reason: string) {
+    const response = await fetch(`${API_BASE_URL}/api/ledger/admin/withdrawals/${withdrawalId}/reject`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ reason }),
+    });
+    return this.handleResponse(response);
+  }
+
   async getPaymentHistory(page = 1, limit = 10) {
     const response = await fetch(`${API_BASE_URL}/api/payments?page=${page}&limit=${limit}`, {
       method: 'GET',
@@ -1261,6 +1956,49 @@ class ApiService {
     return this.handleResponse(response);
   }
 
+  // Invoices are access-checked PDFs, so they are fetched with the token and handed over as an object URL
+  async getInvoicePdfUrl(paymentId: string, lang: 'en' | 'ar' = 'en'): Promise<string> {
+    return this.getBlobUrl(`/api/payments/${paymentId}/invoice?lang=${lang}`);
+  }
+
+  async getYearlyStatementPdfUrl(year: number, lang: 'en' | 'ar' = 'en'): Promise<string> {
+    return this.getBlobUrl(`/api/payments/statements/${year}?lang=${lang}`);
+  }
+
+  // Admin audit log
+  async getAuditEvents(filters: AuditEventFilters = {}, page = 1, limit = 50) {
+    const params = new URLSearchParams({ ...this.auditFilterParams(filters), page: String(page), limit: String(limit) });
+    const response = await fetch(`${API_BASE_URL}/api/audit-events?${params}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getAuditExportUrl(filters: AuditEventFilters, format: 'csv' | 'json'): Promise<string> {
+    const params = new URLSearchParams({ ...this.auditFilterParams(filters), format });
+    return this.getBlobUrl(`/api/audit-events/export?${params}`);
+  }
+
+  private auditFilterParams(filters: AuditEventFilters): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+    ) as Record<string, string>;
+  }
+
+  private async getBlobUrl(path: string): Promise<string> {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw await errorHandler.handleApiError(response);
+    }
+    return URL.createObjectURL(await response.blob());
+  }
+
   async refundPayment(paymentId: string, data: {
     reason: string;
     amount?: number;
@@ -1397,6 +2135,358 @@ class ApiService {
     }
   }
 
+  // Notification preferences
+  async getNotificationPreferences() {
+    const response = await fetch(`${API_BASE_URL}/api/notifications/preferences`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async updateNotificationPreferences(preferences: {
+    emailNotifications?: boolean;
+    pushNotifications?: boolean;
+    smsNotifications?: boolean;
+    notificationTypes?: Record<string, boolean | { inApp?: boolean; email?: boolean; sms?: boolean }>;
+    quietHours?: { enabled?: boolean; start?: string; end?: string; timezone?: string };
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/notifications/preferences`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(preferences),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Messaging
+  async getConversations(archived = false) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations?archived=${archived}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getConversationByRequest(requestId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/request/${requestId}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    // No conversation is opened until an offer has been accepted
+    if (response.status === 404) {
+      return null;
+    }
+
+    return this.handleResponse(response);
+  }
+
+  async getMessages(conversationId: string, before?: string, limit = 30) {
+    const queryParams = new URLSearchParams({ limit: limit.toString() });
+    if (before) queryParams.append('before', before);
+
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/${conversationId}/messages?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async sendMessage(conversationId: string, message: {
+    type?: 'text' | 'image' | 'file' | 'location';
+    content?: string;
+    attachmentUrl?: string;
+    attachmentMetadata?: { filename: string; size: number; mimeType: string };
+    location?: { latitude: number; longitude: number; address?: string };
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/${conversationId}/messages`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(message),
+    });
+    return this.handleResponse(response);
+  }
+
+  async markConversationDelivered(conversationId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/${conversationId}/delivered`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async markConversationRead(conversationId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/${conversationId}/read`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async archiveConversation(conversationId: string, archived: boolean) {
+    const response = await fetch(`${API_BASE_URL}/api/messaging/conversations/${conversationId}/archive`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ archived }),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Care plans
+  async getCarePlans() {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getCarePlan(planId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async createCarePlan(plan: {
+    title: string;
+    description: string;
+    serviceType: string;
+    recurrence: { frequency: 'daily' | 'weekdays' | 'custom'; rrule?: string };
+    startDate: string;
+    endDate?: string;
+    visitTime: string;
+    timezone?: string;
+    estimatedDuration: number;
+    coordinates: [number, number];
+    address: string;
+    preferredNurseId?: string;
+    urgencyLevel?: string;
+    specialRequirements?: string;
+    budget?: number;
+    contactPhone?: string;
+    notes?: string;
+    lookaheadDays?: number;
+  }) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(plan),
+    });
+    return this.handleResponse(response);
+  }
+
+  async updateCarePlan(planId: string, changes: Record<string, any>) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(changes),
+    });
+    return this.handleResponse(response);
+  }
+
+  async pauseCarePlan(planId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}/pause`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async resumeCarePlan(planId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}/resume`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async skipCarePlanVisit(planId: string, date: string) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}/skip`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ date }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async endCarePlan(planId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/${planId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getCareCalendar(from: string, to: string) {
+    const queryParams = new URLSearchParams({ from, to });
+    const response = await fetch(`${API_BASE_URL}/api/care-plans/calendar?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  // AI assistant conversations
+  async getChatSessions() {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getChatSession(sessionId: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async createChatSession(title?: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(title ? { title } : {}),
+    });
+    return this.handleResponse(response);
+  }
+
+  async deleteChatSession(sessionId: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async sendChatSessionMessage(sessionId: string, message: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}/messages`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ message }),
+    });
+    return this.handleResponse(response);
+  }
+
+  // Streams the answer to a stored conversation; resolves with the updated conversation
+  async streamChatSessionMessage(sessionId: string, message: string, onDelta: (content: string) => void) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}/messages/stream`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ message }),
+    });
+    return this.readEventStream(response, onDelta);
+  }
+
+  // Streams the answer to a one-off question from a visitor who is not signed in
+  async streamChatMessage(message: string, onDelta: (content: string) => void) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/message/stream`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ message }),
+    });
+    return this.readEventStream<{ response: string }>(response, onDelta);
+  }
+
+  async triageRequest(description: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/triage`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ description }),
+    });
+    return this.handleResponse(response);
+  }
+
+  // AI assistant moderation (admin)
+  async getModerationFlags(reviewed = false, page = 1, limit = 20) {
+    const queryParams = new URLSearchParams({
+      reviewed: reviewed.toString(),
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/flags?${queryParams}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async reviewModerationFlag(flagId: string, note?: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/flags/${flagId}/review`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ note }),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getModerationRules() {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/rules`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async createModerationRule(data: { kind: 'blocklist' | 'emergency'; phrase: string; language: 'en' | 'ar' }) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/rules`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  async updateModerationRule(ruleId: string, data: { isActive: boolean }) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/rules/${ruleId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return this.handleResponse(response);
+  }
+
+  async deleteModerationRule(ruleId: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/moderation/rules/${ruleId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async getAiUsage() {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/usage`, {
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async confirmChatRequestDraft(sessionId: string, request: Record<string, any>) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}/draft/confirm`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(request),
+    });
+    return this.handleResponse(response);
+  }
+
+  async discardChatRequestDraft(sessionId: string) {
+    const response = await fetch(`${API_BASE_URL}/ai-chat/sessions/${sessionId}/draft/discard`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse(response);
+  }
+
+  async uploadRequestAttachments(requestId: string, formData: FormData) {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+    const response = await fetch(`${API_BASE_URL}/api/uploads/request-attachments/${requestId}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+    return this.handleResponse(response);
+  }
+
+  getFileUrl(path: string) {
+    return path.startsWith('http') ? path : `${API_BASE_URL}${path}`;
+  }
+
   // Image Upload
   async uploadImage(formData: FormData) {
     const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
@@ -113,6 +113,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const clearUserFromStorage = () => {
     localStorage.removeItem('user');
     localStorage.removeItem('token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('token_expiration');
     localStorage.removeItem('bypass_auth');
     console.log('User data cleared from localStorage');
@@ -244,6 +245,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // The backend returns: { success: true, data: { access_token: "...", user: {...} } }
       let token: string;
+      let refreshToken: string | undefined;
       let userData: User;
 
       // Type guard for expected response structure
@@ -256,6 +258,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         'access_token' in (response as any).data
       ) {
         token = (response as any).data.access_token;
+        refreshToken = (response as any).data.refresh_token;
         userData = (response as any).data.user;
       } else if (
         typeof response === 'object' &&
@@ -263,6 +266,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         'access_token' in response
       ) {
         token = (response as any).access_token;
+        refreshToken = (response as any).refresh_token;
         userData = (response as any).user;
       } else {
         throw { message: 'Invalid email or password.' };
@@ -272,17 +276,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error('No token received from server');
       }
 
-      localStorage.setItem('token', token);
-
-      // Set token expiration tracking
-      try {
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        const expirationTime = payload.exp * 1000; // Convert to milliseconds
-        localStorage.setItem('token_expiration', expirationTime.toString());
-        console.log('Token expires at:', new Date(expirationTime).toLocaleString());
-      } catch (error) {
-        console.error('Error parsing token for expiration:', error);
-      }
+      // Stores the access token, its expiration and the refresh token used to renew it
+      apiService.storeTokens(token, refreshToken);
 
       // Clean up application data if this is a nurse account
       if (userData.role === 'nurse') {
@@ -304,6 +299,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       // Clear any existing token on login failure
       localStorage.removeItem('token');
+      localStorage.removeItem('refresh_token');
       setUser(null);
 
       // If it's our custom error object with just a message
@@ -335,7 +331,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch (e) {
       console.error('Failed to clean up application data during logout:', e);
     }
-    
+
+    // End the server-side session; reads the refresh token before it is cleared below
+    apiService.logout();
     clearUserFromStorage();
     setUser(null);
     window.location.href = '/login';
@@ -7,6 +7,7 @@ export enum ErrorCode {
   UNAUTHORIZED = 'UNAUTHORIZED',
   ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
   ACCOUNT_PENDING = 'ACCOUNT_PENDING',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
   
   // Validation Errors
   VALIDATION_FAILED = 'VALIDATION_FAILED',
@@ -151,6 +152,18 @@ export class AccountPendingError extends CustomError {
   }
 }
 
+export class EmailNotVerifiedError extends CustomError {
+  constructor(details?: any) {
+    super(
+      ErrorCode.EMAIL_NOT_VERIFIED,
+      'Please verify your email address before logging in.',
+      'Please verify your email address before logging in. Check your inbox for the verification link.',
+      403,
+      details
+    );
+  }
+}
+
 // Validation Errors
 export class ValidationError extends CustomError {
   constructor(message: string, details?: any) {
@@ -351,6 +364,9 @@ export function createErrorFromResponse(response: Response, errorData?: any): Cu
       if (message.toLowerCase().includes('pending')) {
         return new AccountPendingError(errorData);
       }
+      if (message.toLowerCase().includes('verify your email')) {
+        return new EmailNotVerifiedError(errorData);
+      }
       return new UnauthorizedError(errorData);
     
     case 404:
@@ -0,0 +1,39 @@
+// Real-time messaging connection (Socket.IO)
+import { io, Socket } from 'socket.io-client';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+let socket: Socket | null = null;
+let subscribers = 0;
+
+// Share a single socket between all chat panes on the page
+export function connectMessagingSocket(): Socket | null {
+  if (typeof window === 'undefined') return null;
+
+  const token = localStorage.getItem('token');
+  if (!token) return null;
+
+  if (!socket) {
+    socket = io(`${API_BASE_URL}/messaging`, {
+      // Read the token on every (re)connect, since access tokens are renewed in the background
+      auth: (cb) => cb({ token: localStorage.getItem('token') }),
+      transports: ['websocket', 'polling'],
+    });
+
+    socket.on('connect_error', (error) => {
+      console.warn('Messaging socket connection failed:', error.message);
+    });
+  }
+
+  subscribers += 1;
+  return socket;
+}
+
+export function releaseMessagingSocket() {
+  subscribers = Math.max(0, subscribers - 1);
+
+  if (subscribers === 0 && socket) {
+    socket.disconnect();
+    socket = null;
+  }
+}
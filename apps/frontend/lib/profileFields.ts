@@ -0,0 +1,49 @@
+// Nurse profile fields an admin can flag for changes, mirroring REVIEWABLE_PROFILE_FIELDS on the backend
+export type ProfileFieldKind = 'text' | 'email' | 'date' | 'list' | 'document' | 'documents';
+
+export interface ProfileFieldInfo {
+  key: string;
+  label: string;
+  kind: ProfileFieldKind;
+}
+
+export const PROFILE_FIELDS: ProfileFieldInfo[] = [
+  { key: 'fullName', label: 'Full name', kind: 'text' },
+  { key: 'emailAddress', label: 'Email address', kind: 'email' },
+  { key: 'licenseNumber', label: 'License number', kind: 'text' },
+  { key: 'licenseExpirationDate', label: 'License expiration date', kind: 'date' },
+  { key: 'licenseDocument', label: 'License document', kind: 'document' },
+  { key: 'backgroundCheckDocument', label: 'Experience or recommendation letter', kind: 'document' },
+  { key: 'resumeDocument', label: 'Resume', kind: 'document' },
+  { key: 'certificationName', label: 'Certification name', kind: 'text' },
+  { key: 'issuingOrganization', label: 'Issuing organization', kind: 'text' },
+  { key: 'certificationLicenseNumber', label: 'Certification number', kind: 'text' },
+  { key: 'certificationExpirationDate', label: 'Certification expiration date', kind: 'date' },
+  { key: 'skills', label: 'Skills', kind: 'list' },
+  { key: 'workExperience', label: 'Work experience', kind: 'text' },
+  { key: 'institutionName', label: 'Institution', kind: 'text' },
+  { key: 'degree', label: 'Degree', kind: 'text' },
+  { key: 'graduationDate', label: 'Graduation date', kind: 'date' },
+  { key: 'additionalDocuments', label: 'Additional documents', kind: 'documents' },
+];
+
+export const getProfileField = (key: string): ProfileFieldInfo =>
+  PROFILE_FIELDS.find(field => field.key === key) || { key, label: key, kind: 'text' };
+
+// Readable form of a stored field value, for feedback and version diffs
+export const formatProfileValue = (key: string, value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+
+  switch (getProfileField(key).kind) {
+    case 'date':
+      return new Date(value).toLocaleDateString();
+    case 'list':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'document':
+      return value.originalName || value.fileName || 'Uploaded file';
+    case 'documents':
+      return Array.isArray(value) ? value.map((doc: any) => doc.originalName || doc.fileName).join(', ') : '—';
+    default:
+      return String(value);
+  }
+};
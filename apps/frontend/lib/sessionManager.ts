@@ -1,4 +1,8 @@
 // Session management utilities
+import { apiService } from './api';
+
+// Renew the access token when it has less than this long left
+const REFRESH_THRESHOLD_MS = 2 * 60 * 1000;
 
 export class SessionManager {
   private static instance: SessionManager;
@@ -18,6 +22,8 @@ export class SessionManager {
   init() {
     this.setupActivityTracking();
     this.setupSessionCheck();
+    // Renew straight away if the page was reopened after the access token ran out
+    this.checkSession();
   }
 
   // Setup activity tracking
@@ -52,11 +58,11 @@ export class SessionManager {
   private setupSessionCheck() {
     this.sessionCheckInterval = setInterval(() => {
       this.checkSession();
-    }, 10 * 60 * 1000); // Check every 10 minutes (less aggressive)
+    }, 60 * 1000); // Access tokens are short-lived, so check every minute
   }
 
   // Check session validity
-  private checkSession() {
+  private async checkSession() {
     const token = localStorage.getItem('token');
     const tokenExpiration = localStorage.getItem('token_expiration');
     const lastActivity = localStorage.getItem('last_activity');
@@ -69,13 +75,6 @@ export class SessionManager {
     const expTime = parseInt(tokenExpiration);
     const lastActTime = parseInt(lastActivity || '0');
 
-    // Check if token is expired (with 5 minute buffer)
-    if (now >= (expTime + 5 * 60 * 1000)) {
-      console.log('Token expired beyond buffer, logging out');
-      this.logout();
-      return;
-    }
-
     // Check for inactivity (45 minutes instead of 30)
     const inactiveTime = now - lastActTime;
     const maxInactiveTime = 45 * 60 * 1000; // 45 minutes
@@ -86,10 +85,9 @@ export class SessionManager {
       return;
     }
 
-    // Warn if token expires in 10 minutes (instead of 5)
-    const timeUntilExpiration = expTime - now;
-    if (timeUntilExpiration <= 10 * 60 * 1000 && timeUntilExpiration > 0) {
-      this.showExpirationWarning(Math.floor(timeUntilExpiration / 60000));
+    // Quietly renew the access token shortly before it expires
+    if (expTime - now <= REFRESH_THRESHOLD_MS) {
+      await this.refreshSession(now >= expTime);
     }
   }
 
@@ -106,44 +104,18 @@ export class SessionManager {
     // For now, we'll just silently extend the session
   }
 
-  // Show token expiration warning
-  private showExpirationWarning(minutesRemaining: number) {
-    console.warn(`Session will expire in ${minutesRemaining} minutes`);
-    
-    // You could show a toast notification here instead of alert
-    if (minutesRemaining <= 2) {
-      const shouldRefresh = confirm(
-        `Your session will expire in ${minutesRemaining} minutes. Click OK to refresh your session.`
-      );
-
-      if (shouldRefresh) {
-        // Attempt to refresh the session by making an API call
-        this.refreshSession();
-      }
+  // Renew the access token with the stored refresh token
+  private async refreshSession(alreadyExpired: boolean) {
+    const refreshed = await apiService.refreshToken();
+
+    if (refreshed) {
+      console.log('Session renewed');
+      return;
     }
-  }
 
-  // Refresh session by making an API call
-  private async refreshSession() {
-    try {
-      // Make a simple API call to refresh the session
-      const response = await fetch('/api/auth/profile', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        console.log('Session refreshed successfully');
-        // Update last activity
-        localStorage.setItem('last_activity', Date.now().toString());
-      } else {
-        console.log('Session refresh failed, logging out');
-        this.logout();
-      }
-    } catch (error) {
-      console.error('Error refreshing session:', error);
+    // Without a usable refresh token the session can't outlive the access token
+    if (alreadyExpired && !localStorage.getItem('refresh_token')) {
+      console.log('Session could not be renewed, logging out');
       this.logout();
     }
   }
@@ -153,7 +125,9 @@ export class SessionManager {
     console.log('Session manager initiating logout');
 
     try {
+      apiService.logout();
       localStorage.removeItem('token');
+      localStorage.removeItem('refresh_token');
       localStorage.removeItem('user');
       localStorage.removeItem('token_expiration');
       localStorage.removeItem('last_activity');
@@ -1,10 +1,27 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '../lib/auth';
+import { apiService } from '../lib/api';
 import ErrorDisplay from '../components/ErrorDisplay';
 import { CustomError, ErrorCode } from '../lib/errors';
+import { getProfileField } from '../lib/profileFields';
+
+interface RequestedChanges {
+  version: number;
+  rejectionReason?: string;
+  feedback: { field: string; message: string }[];
+}
 
 const AccountRejectedPage: React.FC = () => {
   const { user, logout } = useAuth();
+  const [requestedChanges, setRequestedChanges] = useState<RequestedChanges | null>(null);
+
+  useEffect(() => {
+    // Only nurses asked to fix specific items get a resubmission path; a final rejection has none
+    apiService.getRequestedProfileChanges()
+      .then((response: any) => setRequestedChanges(response?.data ?? response))
+      .catch(() => setRequestedChanges(null));
+  }, []);
 
   const rejectionError = new CustomError(
     ErrorCode.ACCOUNT_SUSPENDED,
@@ -42,22 +59,46 @@ const AccountRejectedPage: React.FC = () => {
             </svg>
           </div>
           <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
-            Account Rejected
+            {requestedChanges ? 'Changes Requested' : 'Account Rejected'}
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            We're sorry, but your nurse account application has been rejected.
+            {requestedChanges
+              ? 'Your application needs a few fixes before it can be approved.'
+              : "We're sorry, but your nurse account application has been rejected."}
           </p>
         </div>
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-          {/* Error Display */}
-          <ErrorDisplay 
-            error={rejectionError}
-            className="mb-6"
-            showDetails={false}
-          />
+          {requestedChanges ? (
+            <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <h3 className="text-sm font-medium text-orange-900 mb-2">Changes requested</h3>
+              {requestedChanges.rejectionReason && (
+                <p className="text-sm text-orange-800 mb-3">{requestedChanges.rejectionReason}</p>
+              )}
+              <ul className="text-sm text-orange-800 space-y-2 mb-4">
+                {requestedChanges.feedback.map(item => (
+                  <li key={item.field} className="flex items-start">
+                    <span className="text-orange-500 mr-2">•</span>
+                    <span><span className="font-medium">{getProfileField(item.field).label}:</span> {item.message}</span>
+                  </li>
+                ))}
+              </ul>
+              <Link
+                href="/profile-resubmit"
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700"
+              >
+                Fix These Items and Resubmit
+              </Link>
+            </div>
+          ) : (
+            <ErrorDisplay 
+              error={rejectionError}
+              className="mb-6"
+              showDetails={false}
+            />
+          )}
 
           {/* Account Information */}
           {user && (
@@ -66,7 +107,7 @@ const AccountRejectedPage: React.FC = () => {
               <div className="text-sm text-gray-600 space-y-1">
                 <p><span className="font-medium">Email:</span> {user.email}</p>
                 <p><span className="font-medium">Name:</span> {user.name || 'Not provided'}</p>
-                <p><span className="font-medium">Status:</span> <span className="text-red-600 font-medium">Rejected</span></p>
+                <p><span className="font-medium">Status:</span> <span className="text-red-600 font-medium">{requestedChanges ? 'Changes requested' : 'Rejected'}</span></p>
               </div>
             </div>
           )}
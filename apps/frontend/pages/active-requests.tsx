@@ -3,6 +3,7 @@ import { useRouter } from 'next/router';
 import { useAuth } from '../lib/auth';
 import apiService from '../lib/api';
 import Layout from '../components/Layout';
+import VisitReportForm from '../components/VisitReportForm';
 
 interface Request {
   id: string;
@@ -21,6 +22,10 @@ interface Request {
   patientCompletedAt?: string;
   nurseCompleted?: boolean;
   nurseCompletedAt?: string;
+  checkIn?: { at: string; withinGeofence: boolean; distanceMeters: number };
+  checkOut?: { at: string; withinGeofence: boolean; distanceMeters: number };
+  timeOnSiteMinutes?: number;
+  paymentProvider?: string;
   patient?: {
     id: string;
     name: string;
@@ -48,6 +53,8 @@ export default function ActiveRequests() {
   const [activeRequests, setActiveRequests] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [reportingRequest, setReportingRequest] = useState<Request | null>(null);
 
   useEffect(() => {
     // Check if user is a verified nurse before loading data
@@ -110,6 +117,47 @@ export default function ActiveRequests() {
     }
   };
 
+  const getCurrentPosition = () =>
+    new Promise<GeolocationPosition>((resolve, reject) => {
+      if (!navigator.geolocation) {
+        reject(new Error('Location is not available in this browser'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(resolve, reject, { enableHighAccuracy: true, timeout: 15000 });
+    });
+
+  const handleVisitCheck = async (requestId: string, action: 'in' | 'out', paidInCash = false) => {
+    // Cash visits are paid at the door; the nurse confirms the collection when leaving
+    const cashCollected = action === 'out' && paidInCash
+      ? window.confirm('This visit is paid in cash. Did you collect the payment from the patient?')
+      : undefined;
+
+    try {
+      setCheckingId(requestId);
+      const position = await getCurrentPosition();
+      const location = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      };
+
+      const result: any = action === 'in'
+        ? await apiService.checkInVisit(requestId, location)
+        : await apiService.checkOutVisit(requestId, { ...location, cashCollected });
+
+      if (result?.flags?.length) {
+        alert(`Recorded, but flagged for review: ${result.flags.map((flag: string) => flag.replace(/_/g, ' ')).join(', ')}`);
+      }
+
+      await loadActiveRequests();
+    } catch (err: any) {
+      console.error(`Error checking ${action}:`, err);
+      alert(err?.message || `Failed to check ${action}. Please allow location access and try again.`);
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusClasses = {
       'in_progress': 'bg-blue-100 text-blue-800',
@@ -316,6 +364,45 @@ export default function ActiveRequests() {
                           </div>
                         )}
 
+                        {/* Visit check-in / check-out */}
+                        {application.request?.checkIn && (
+                          <div className="mb-4 text-sm text-gray-600">
+                            <p>
+                              <span className="font-medium">Checked in:</span> {new Date(application.request.checkIn.at).toLocaleString()}
+                            </p>
+                            {application.request.checkOut && (
+                              <p>
+                                <span className="font-medium">Checked out:</span> {new Date(application.request.checkOut.at).toLocaleString()}
+                                {' '}({application.request.timeOnSiteMinutes} min on site)
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {!application.request?.checkIn ? (
+                          <button
+                            onClick={() => handleVisitCheck(application.request!.id, 'in')}
+                            disabled={checkingId === application.request?.id}
+                            className="w-full mb-2 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors duration-200 font-medium disabled:opacity-50"
+                          >
+                            {checkingId === application.request?.id ? 'Getting location...' : 'Check In'}
+                          </button>
+                        ) : !application.request.checkOut && (
+                          <button
+                            onClick={() => handleVisitCheck(application.request!.id, 'out', application.request!.paymentProvider === 'cash')}
+                            disabled={checkingId === application.request.id}
+                            className="w-full mb-2 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors duration-200 font-medium disabled:opacity-50"
+                          >
+                            {checkingId === application.request.id ? 'Getting location...' : 'Check Out'}
+                          </button>
+                        )}
+
+                        <button
+                          onClick={() => setReportingRequest(application.request!)}
+                          className="w-full mb-2 border border-blue-600 text-blue-600 py-2 px-4 rounded-lg hover:bg-blue-50 transition-colors duration-200 font-medium"
+                        >
+                          Add Visit Report
+                        </button>
+
                         {/* Complete Button */}
                         {application.request?.status === 'in_progress' && (
                           <button
@@ -334,6 +421,14 @@ export default function ActiveRequests() {
           )}
         </div>
       </div>
+
+      {reportingRequest && (
+        <VisitReportForm
+          requestId={reportingRequest.id}
+          requestTitle={reportingRequest.title}
+          onClose={() => setReportingRequest(null)}
+        />
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,373 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface ModerationFlag {
+  id: string;
+  user?: { id: string; name: string; email: string; role: string } | null;
+  sessionId?: string;
+  stage: 'input' | 'output';
+  categories: string[];
+  matches: string[];
+  excerpt: string;
+  reply?: string;
+  createdAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  reviewNote?: string;
+}
+
+type RuleKind = 'blocklist' | 'emergency';
+
+interface ModerationRule {
+  _id: string;
+  kind: RuleKind;
+  phrase: string;
+  language: 'en' | 'ar';
+  isActive: boolean;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  emergency: 'Emergency',
+  blocked_content: 'Blocked content',
+  medical_advice: 'Diagnosis or dosing',
+  prompt_injection: 'Prompt injection',
+};
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  blocklist: 'Blocklist',
+  emergency: 'Emergency phrases',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+function FlaggedConversations() {
+  const [flags, setFlags] = useState<ModerationFlag[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadFlags();
+  }, [showReviewed, page]);
+
+  const loadFlags = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getModerationFlags(showReviewed, page));
+      setFlags(result?.flags || []);
+      setPages(result?.pagination?.pages || 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load flagged conversations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (flagId: string) => {
+    try {
+      await apiService.reviewModerationFlag(flagId, notes[flagId] || undefined);
+      setFlags(prev => prev.filter(flag => flag.id !== flagId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark the conversation as reviewed');
+    }
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Flagged conversations</h2>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          <button
+            onClick={() => { setShowReviewed(false); setPage(1); }}
+            className={`px-4 py-2 ${!showReviewed ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+          >
+            Open
+          </button>
+          <button
+            onClick={() => { setShowReviewed(true); setPage(1); }}
+            className={`px-4 py-2 ${showReviewed ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+          >
+            Reviewed
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : flags.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+          {showReviewed ? 'No reviewed conversations yet.' : 'No conversations waiting for review.'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {flags.map(flag => (
+            <div key={flag.id} className="bg-white rounded-lg border border-gray-200 p-5">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">
+                    {flag.user ? `${flag.user.name} (${flag.user.role})` : 'Visitor, not signed in'}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {new Date(flag.createdAt).toLocaleString()} · {flag.stage === 'input' ? "User's message" : "Assistant's answer"}
+                    {flag.user?.email && ` · ${flag.user.email}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2 justify-end">
+                  {flag.categories.map(category => (
+                    <span
+                      key={category}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        category === 'emergency' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {CATEGORY_LABELS[category] || category}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-md p-3" dir="auto">{flag.excerpt}</p>
+              {flag.matches.length > 0 && (
+                <p className="mt-2 text-sm text-gray-600">
+                  <span className="font-medium">Matched:</span> <span dir="auto">{flag.matches.join(', ')}</span>
+                </p>
+              )}
+              {flag.reply && (
+                <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap" dir="auto">
+                  <span className="font-medium">Sent instead:</span> {flag.reply}
+                </p>
+              )}
+
+              {flag.reviewedAt ? (
+                <p className="mt-3 text-sm text-gray-500">
+                  Reviewed {new Date(flag.reviewedAt).toLocaleString()}
+                  {flag.reviewedBy && ` by ${flag.reviewedBy}`}
+                  {flag.reviewNote && ` — ${flag.reviewNote}`}
+                </p>
+              ) : (
+                <div className="mt-4 flex items-center gap-3">
+                  <input
+                    value={notes[flag.id] || ''}
+                    onChange={e => setNotes({ ...notes, [flag.id]: e.target.value })}
+                    maxLength={500}
+                    placeholder="Review note (optional)"
+                    className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleReview(flag.id)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+                  >
+                    Mark reviewed
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {pages > 1 && (
+            <div className="flex justify-center items-center gap-4 pt-4 text-sm">
+              <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                Previous
+              </button>
+              <span>Page {page} of {pages}</span>
+              <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function ModerationRules() {
+  const [rules, setRules] = useState<ModerationRule[]>([]);
+  const [defaults, setDefaults] = useState<Record<RuleKind, string[]>>({ blocklist: [], emergency: [] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [kind, setKind] = useState<RuleKind>('blocklist');
+  const [phrase, setPhrase] = useState('');
+  const [language, setLanguage] = useState<'en' | 'ar'>('en');
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getModerationRules());
+      setRules(result?.rules || []);
+      setDefaults(result?.defaults || { blocklist: [], emergency: [] });
+    } catch (err: any) {
+      setError(err.message || 'Failed to load moderation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError('');
+      await apiService.createModerationRule({ kind, phrase, language });
+      setPhrase('');
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add the phrase');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ModerationRule) => {
+    try {
+      setError('');
+      await apiService.updateModerationRule(rule._id, { isActive: !rule.isActive });
+      setRules(prev => prev.map(item => (item._id === rule._id ? { ...item, isActive: !rule.isActive } : item)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the phrase');
+    }
+  };
+
+  const handleDelete = async (rule: ModerationRule) => {
+    if (!confirm(`Delete the phrase "${rule.phrase}"?`)) return;
+
+    try {
+      setError('');
+      await apiService.deleteModerationRule(rule._id);
+      setRules(prev => prev.filter(item => item._id !== rule._id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the phrase');
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Phrase rules</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Blocklist phrases are refused; emergency phrases get the emergency numbers instead of an answer. They are added to the built-in lists.
+      </p>
+
+      {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {(Object.keys(KIND_LABELS) as RuleKind[]).map(ruleKind => (
+            <div key={ruleKind} className="bg-white rounded-lg border border-gray-200 p-5">
+              <h3 className="font-semibold text-gray-900 mb-3">{KIND_LABELS[ruleKind]}</h3>
+              {rules.filter(rule => rule.kind === ruleKind).length === 0 ? (
+                <p className="text-sm text-gray-500">No phrases added yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {rules.filter(rule => rule.kind === ruleKind).map(rule => (
+                    <li key={rule._id} className="flex items-center justify-between py-2">
+                      <span className="text-sm text-gray-800" dir="auto">
+                        {rule.phrase}
+                        <span className="ml-2 text-xs text-gray-400 uppercase">{rule.language}</span>
+                        {!rule.isActive && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                        )}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleToggle(rule)}
+                          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50"
+                        >
+                          {rule.isActive ? 'Deactivate' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          className="px-3 py-1.5 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <details className="mt-3 text-sm text-gray-500">
+                <summary className="cursor-pointer">Built-in phrases ({defaults[ruleKind]?.length || 0})</summary>
+                <p className="mt-2" dir="auto">{(defaults[ruleKind] || []).join(' · ')}</p>
+              </details>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 p-5">
+            <h3 className="font-semibold text-gray-900 mb-3">Add a phrase</h3>
+            <div className="flex flex-wrap gap-3">
+              <select
+                value={kind}
+                onChange={e => setKind(e.target.value as RuleKind)}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="blocklist">Blocklist</option>
+                <option value="emergency">Emergency</option>
+              </select>
+              <select
+                value={language}
+                onChange={e => setLanguage(e.target.value as 'en' | 'ar')}
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="en">English</option>
+                <option value="ar">Arabic</option>
+              </select>
+              <input
+                value={phrase}
+                onChange={e => setPhrase(e.target.value)}
+                required
+                minLength={2}
+                maxLength={100}
+                dir="auto"
+                placeholder="Word or phrase"
+                className="flex-1 min-w-[200px] border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Add phrase'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default function AiModeration() {
+  return (
+    <AdminLayout title="AI Moderation">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">AI Moderation</h1>
+          <p className="text-gray-600 mt-1">Assistant messages that were stopped or changed, and the phrases that trigger moderation</p>
+        </div>
+
+        <FlaggedConversations />
+        <ModerationRules />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,272 @@
+import { Fragment, useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService, { AuditEventFilters } from '../../lib/api';
+
+interface AuditChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+interface AuditEvent {
+  _id: string;
+  actorId?: string;
+  actorName?: string;
+  actorRole?: string;
+  action: string;
+  targetType: string;
+  targetId?: string;
+  outcome: 'success' | 'failure';
+  error?: string;
+  changes?: AuditChange[];
+  payload?: Record<string, any>;
+  request?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+const TARGET_TYPES = ['user', 'nurse', 'payment', 'wallet', 'withdrawal', 'cancellation_policy', 'moderation_rule'];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const formatValue = (value: any) => (value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+export default function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [applied, setApplied] = useState<AuditEventFilters>({});
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadEvents();
+  }, [page, applied]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getAuditEvents(applied, page));
+      setEvents(result?.events || []);
+      setActions(result?.actions || []);
+      setPages(result?.pagination?.pages || 1);
+      setTotal(result?.pagination?.total || 0);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (name: keyof AuditEventFilters, value: string) => {
+    setFilters({ ...filters, [name]: value || undefined });
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied({
+      ...filters,
+      // Date inputs give whole days; make the end date inclusive
+      from: filters.from ? new Date(filters.from).toISOString() : undefined,
+      to: filters.to ? new Date(new Date(filters.to).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined,
+    });
+  };
+
+  const handleReset = () => {
+    setFilters({});
+    setPage(1);
+    setApplied({});
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setExporting(true);
+      setError('');
+      const url = await apiService.getAuditExportUrl(applied, format);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export the audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClass = 'border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <AdminLayout title="Audit Log">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-gray-600 mt-1">Every admin and sensitive action, with what it changed</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={exporting}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={exporting}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleApply} className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap gap-3 items-end">
+          <select value={filters.action || ''} onChange={e => updateFilter('action', e.target.value)} className={inputClass}>
+            <option value="">All actions</option>
+            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+          <select value={filters.targetType || ''} onChange={e => updateFilter('targetType', e.target.value)} className={inputClass}>
+            <option value="">All targets</option>
+            {TARGET_TYPES.map(type => <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>)}
+          </select>
+          <input value={filters.targetId || ''} onChange={e => updateFilter('targetId', e.target.value)} placeholder="Target ID" className={`${inputClass} w-56`} />
+          <input value={filters.actorId || ''} onChange={e => updateFilter('actorId', e.target.value)} placeholder="Actor ID" className={`${inputClass} w-56`} />
+          <select value={filters.outcome || ''} onChange={e => updateFilter('outcome', e.target.value)} className={inputClass}>
+            <option value="">Any outcome</option>
+            <option value="success">Succeeded</option>
+            <option value="failure">Failed</option>
+          </select>
+          <label className="text-sm text-gray-600">
+            From <input type="date" value={filters.from || ''} onChange={e => updateFilter('from', e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-sm text-gray-600">
+            To <input type="date" value={filters.to || ''} onChange={e => updateFilter('to', e.target.value)} className={inputClass} />
+          </label>
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700">
+            Filter
+          </button>
+          <button type="button" onClick={handleReset} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Reset
+          </button>
+        </form>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+            No audit events match these filters.
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-2">{total} event{total === 1 ? '' : 's'}</p>
+            <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Time</th>
+                    <th className="px-4 py-2 font-medium">Actor</th>
+                    <th className="px-4 py-2 font-medium">Action</th>
+                    <th className="px-4 py-2 font-medium">Target</th>
+                    <th className="px-4 py-2 font-medium">Outcome</th>
+                    <th className="px-4 py-2 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map(event => (
+                    <Fragment key={event._id}>
+                      <tr
+                        onClick={() => setExpanded(expanded === event._id ? null : event._id)}
+                        className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-4 py-2 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                        <td className="px-4 py-2">
+                          {event.actorName || (event.actorId ? event.actorId : <span className="text-gray-400">Unauthenticated</span>)}
+                          {event.actorRole && <span className="text-gray-400"> ({event.actorRole})</span>}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs">{event.action}</td>
+                        <td className="px-4 py-2">
+                          {event.targetType.replace(/_/g, ' ')}
+                          {event.targetId && <span className="block font-mono text-xs text-gray-500">{event.targetId}</span>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${event.outcome === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                            {event.outcome}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{event.changes?.length || 0}</td>
+                      </tr>
+                      {expanded === event._id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-4 py-3 space-y-3">
+                            {event.error && <p className="text-red-700">{event.error}</p>}
+                            {event.changes && event.changes.length > 0 ? (
+                              <table className="w-full text-xs">
+                                <thead className="text-left text-gray-500">
+                                  <tr>
+                                    <th className="py-1 pr-4 font-medium">Field</th>
+                                    <th className="py-1 pr-4 font-medium">Before</th>
+                                    <th className="py-1 font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {event.changes.map(change => (
+                                    <tr key={change.path} className="align-top">
+                                      <td className="py-1 pr-4 font-mono">{change.path}</td>
+                                      <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <p className="text-gray-500">No recorded field changes.</p>
+                            )}
+                            {event.payload && (
+                              <p className="text-xs text-gray-600 break-all">
+                                <span className="font-medium">Payload:</span> {JSON.stringify(event.payload)}
+                              </p>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              {event.request} · {event.ip || 'unknown IP'} · {event.userAgent || 'unknown user agent'}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {pages > 1 && (
+              <div className="flex justify-center items-center gap-4 pt-4 text-sm">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Previous
+                </button>
+                <span>Page {page} of {pages}</span>
+                <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface CancellationTier {
+  minHoursBefore: number;
+  refundPercent: number;
+  nurseCompensationPercent: number;
+}
+
+interface CancellationPolicy {
+  _id?: string;
+  name: string;
+  cancelledBy: 'patient' | 'admin';
+  urgencyLevels: string[];
+  tiers: CancellationTier[];
+  isActive?: boolean;
+  updatedAt?: string;
+}
+
+const URGENCY_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+const EMPTY_TIER = { minHoursBefore: '', refundPercent: '', nurseCompensationPercent: '' };
+
+const unwrap = (response: any) => response?.data ?? response;
+
+function TierTable({ tiers }: { tiers: CancellationTier[] }) {
+  return (
+    <table className="w-full text-sm mt-3">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-medium py-1">Notice</th>
+          <th className="font-medium py-1">Refund to patient</th>
+          <th className="font-medium py-1">Nurse keeps</th>
+          <th className="font-medium py-1">Platform keeps</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tiers.map(tier => (
+          <tr key={tier.minHoursBefore} className="border-t border-gray-100">
+            <td className="py-1">{tier.minHoursBefore > 0 ? `${tier.minHoursBefore}h or more` : 'Any time'}</td>
+            <td className="py-1">{tier.refundPercent}%</td>
+            <td className="py-1">{tier.nurseCompensationPercent}%</td>
+            <td className="py-1">{100 - tier.refundPercent - tier.nurseCompensationPercent}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function CancellationPolicies() {
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [defaults, setDefaults] = useState<CancellationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [cancelledBy, setCancelledBy] = useState<'patient' | 'admin'>('patient');
+  const [urgencyLevels, setUrgencyLevels] = useState<string[]>([]);
+  const [tiers, setTiers] = useState([{ ...EMPTY_TIER }]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getCancellationPolicies());
+      setPolicies(result?.policies || []);
+      setDefaults(result?.defaults || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load cancellation policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTier = (index: number, field: keyof typeof EMPTY_TIER, value: string) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const toggleUrgency = (level: string) => {
+    setUrgencyLevels(urgencyLevels.includes(level)
+      ? urgencyLevels.filter(item => item !== level)
+      : [...urgencyLevels, level]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedTiers = tiers.map(tier => ({
+      minHoursBefore: Number(tier.minHoursBefore) || 0,
+      refundPercent: Number(tier.refundPercent) || 0,
+      nurseCompensationPercent: Number(tier.nurseCompensationPercent) || 0,
+    }));
+
+    try {
+      setSaving(true);
+      setError('');
+      await apiService.createCancellationPolicy({ name, cancelledBy, urgencyLevels, tiers: parsedTiers });
+      setName('');
+      setUrgencyLevels([]);
+      setTiers([{ ...EMPTY_TIER }]);
+      await loadPolicies();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create the policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (policy: CancellationPolicy) => {
+    try {
+      setError('');
+      await apiService.updateCancellationPolicy(policy._id!, { isActive: !policy.isActive });
+      setPolicies(prev => prev.map(item => (item._id === policy._id ? { ...item, isActive: !policy.isActive } : item)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the policy');
+    }
+  };
+
+  const handleDelete = async (policy: CancellationPolicy) => {
+    if (!confirm(`Delete the policy "${policy.name}"?`)) return;
+
+    try {
+      setError('');
+      await apiService.deleteCancellationPolicy(policy._id!);
+      setPolicies(prev => prev.filter(item => item._id !== policy._id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the policy');
+    }
+  };
+
+  const describeScope = (policy: CancellationPolicy) =>
+    `Cancelled by ${policy.cancelledBy} · ${policy.urgencyLevels.length ? `${policy.urgencyLevels.join(', ')} urgency` : 'all urgency levels'}`;
+
+  return (
+    <AdminLayout title="Cancellation Policies">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Cancellation Policies</h1>
+          <p className="text-gray-600 mt-1">How much of a visit payment is refunded when a request is cancelled</p>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {policies.length === 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+                No custom policies. The defaults below apply.
+              </div>
+            )}
+
+            {policies.map(policy => (
+              <div key={policy._id} className="bg-white rounded-lg border border-gray-200 p-5">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {policy.name}
+                      {!policy.isActive && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-500">{describeScope(policy)}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleToggle(policy)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50"
+                    >
+                      {policy.isActive ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      className="px-3 py-1.5 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <TierTable tiers={policy.tiers} />
+              </div>
+            ))}
+
+            {defaults.map(policy => (
+              <div key={policy.name} className="bg-gray-50 rounded-lg border border-gray-200 p-5">
+                <h3 className="font-semibold text-gray-700">{policy.name}</h3>
+                <p className="text-sm text-gray-500">{describeScope(policy)} · used when no active policy matches</p>
+                <TierTable tiers={policy.tiers} />
+              </div>
+            ))}
+
+            <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 p-5 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">New policy</h2>
+              <div className="flex flex-wrap gap-3">
+                <input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  required
+                  minLength={3}
+                  maxLength={100}
+                  placeholder="Policy name"
+                  className="flex-1 min-w-[200px] border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={cancelledBy}
+                  onChange={e => setCancelledBy(e.target.value as 'patient' | 'admin')}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="patient">Cancelled by patient</option>
+                  <option value="admin">Cancelled by admin</option>
+                </select>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="text-gray-600">Urgency (none = all):</span>
+                {URGENCY_LEVELS.map(level => (
+                  <label key={level} className="flex items-center gap-1 capitalize">
+                    <input type="checkbox" checked={urgencyLevels.includes(level)} onChange={() => toggleUrgency(level)} />
+                    {level}
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {tiers.map((tier, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-3 text-sm">
+                    <input
+                      type="number"
+                      min="0"
+                      max="720"
+                      value={tier.minHoursBefore}
+                      onChange={e => updateTier(index, 'minHoursBefore', e.target.value)}
+                      placeholder="Min hours notice"
+                      className="w-40 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={tier.refundPercent}
+                      onChange={e => updateTier(index, 'refundPercent', e.target.value)}
+                      placeholder="Refund %"
+                      className="w-32 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={tier.nurseCompensationPercent}
+                      onChange={e => updateTier(index, 'nurseCompensationPercent', e.target.value)}
+                      placeholder="Nurse keeps %"
+                      className="w-32 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {tiers.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {tiers.length < 10 && (
+                  <button
+                    type="button"
+                    onClick={() => setTiers([...tiers, { ...EMPTY_TIER }])}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Add tier
+                  </button>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Create policy'}
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface NurseSummary {
+  id: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+interface CredentialDocument {
+  originalName: string;
+  fileUrl: string;
+}
+
+interface Renewal {
+  id: string;
+  nurse: NurseSummary;
+  credential: 'license' | 'certification';
+  document: CredentialDocument;
+  expirationDate: string;
+  licenseNumber?: string;
+  submittedAt: string;
+  currentExpirationDate?: string;
+  licenseExpiredAt?: string;
+}
+
+interface Expiration {
+  nurse: NurseSummary;
+  credential: 'license' | 'certification';
+  expiresAt: string;
+  daysLeft: number;
+  expired: boolean;
+  isAvailable: boolean;
+  renewalPending: boolean;
+}
+
+interface ExpirySummary {
+  expired: number;
+  within7Days: number;
+  within30Days: number;
+  total: number;
+}
+
+const WINDOWS = [7, 30, 60, 90];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+export default function Credentials() {
+  const [renewals, setRenewals] = useState<Renewal[]>([]);
+  const [expirations, setExpirations] = useState<Expiration[]>([]);
+  const [summary, setSummary] = useState<ExpirySummary | null>(null);
+  const [days, setDays] = useState(60);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [days]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const [renewalsResult, expiringResult] = await Promise.all([
+        apiService.getCredentialRenewals(),
+        apiService.getUpcomingCredentialExpirations(days),
+      ]);
+      const renewalList = unwrap(renewalsResult);
+      const report = unwrap(expiringResult);
+      setRenewals(Array.isArray(renewalList) ? renewalList : []);
+      setExpirations(report?.expirations || []);
+      setSummary(report?.summary || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load credential data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (renewal: Renewal) => {
+    try {
+      setWorking(true);
+      setError('');
+      await apiService.approveCredentialRenewal(renewal.nurse.id, renewal.id);
+      setSuccess(`Approved the ${renewal.credential} renewal for ${renewal.nurse.name || 'the nurse'}`);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to approve the renewal');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReject = async (renewal: Renewal) => {
+    if (!rejectReason.trim()) {
+      setError('Give a reason for rejecting the renewal');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError('');
+      await apiService.rejectCredentialRenewal(renewal.nurse.id, renewal.id, rejectReason.trim());
+      setSuccess(`Rejected the ${renewal.credential} renewal for ${renewal.nurse.name || 'the nurse'}`);
+      setRejecting(null);
+      setRejectReason('');
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to reject the renewal');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const expiryBadge = (item: Expiration) => {
+    if (item.expired) return 'bg-red-100 text-red-800';
+    if (item.daysLeft <= 7) return 'bg-orange-100 text-orange-800';
+    if (item.daysLeft <= 30) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-gray-100 text-gray-700';
+  };
+
+  return (
+    <AdminLayout title="Credentials">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Credentials</h1>
+          <p className="text-gray-600 mt-1">Renewed licenses and certifications to review, and credentials about to expire</p>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+        {success && <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{success}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            <section className="mb-10">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Renewals awaiting review ({renewals.length})</h2>
+              {renewals.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+                  No renewals waiting for review.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {renewals.map(renewal => (
+                    <div key={renewal.id} className="bg-white rounded-lg border border-gray-200 p-4">
+                      <div className="flex flex-wrap items-start justify-between gap-4">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {renewal.nurse.name || renewal.nurse.id}
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">{renewal.credential}</span>
+                            {renewal.licenseExpiredAt && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">License expired</span>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-500">{renewal.nurse.email}</p>
+                          <p className="text-sm text-gray-600 mt-2">
+                            Expires {formatDate(renewal.currentExpirationDate)} → renewed until <span className="font-medium">{formatDate(renewal.expirationDate)}</span>
+                            {renewal.licenseNumber && <> · new number {renewal.licenseNumber}</>}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">Submitted {new Date(renewal.submittedAt).toLocaleString()}</p>
+                          <a
+                            href={apiService.getFileUrl(renewal.document.fileUrl)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-block mt-2 text-sm text-blue-600 hover:underline"
+                          >
+                            View {renewal.document.originalName}
+                          </a>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleApprove(renewal)}
+                            disabled={working}
+                            className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => { setRejecting(rejecting === renewal.id ? null : renewal.id); setRejectReason(''); }}
+                            disabled={working}
+                            className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                      {rejecting === renewal.id && (
+                        <div className="mt-3 flex gap-2">
+                          <input
+                            value={rejectReason}
+                            onChange={e => setRejectReason(e.target.value)}
+                            placeholder="Reason shown to the nurse"
+                            maxLength={500}
+                            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <button
+                            onClick={() => handleReject(renewal)}
+                            disabled={working}
+                            className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Confirm rejection
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-gray-900">Upcoming expirations</h2>
+                <select
+                  value={days}
+                  onChange={e => setDays(Number(e.target.value))}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {WINDOWS.map(window => <option key={window} value={window}>Next {window} days</option>)}
+                </select>
+              </div>
+
+              {summary && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm text-gray-500">Expired</p>
+                    <p className="text-2xl font-bold text-red-600">{summary.expired}</p>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm text-gray-500">Within 7 days</p>
+                    <p className="text-2xl font-bold text-orange-600">{summary.within7Days}</p>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm text-gray-500">Within 30 days</p>
+                    <p className="text-2xl font-bold text-yellow-600">{summary.within30Days}</p>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm text-gray-500">Total in window</p>
+                    <p className="text-2xl font-bold text-gray-900">{summary.total}</p>
+                  </div>
+                </div>
+              )}
+
+              {expirations.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+                  No credentials expire in the next {days} days.
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-500">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Nurse</th>
+                        <th className="px-4 py-2 font-medium">Credential</th>
+                        <th className="px-4 py-2 font-medium">Expires</th>
+                        <th className="px-4 py-2 font-medium">Status</th>
+                        <th className="px-4 py-2 font-medium">Available</th>
+                        <th className="px-4 py-2 font-medium">Renewal</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {expirations.map(item => (
+                        <tr key={`${item.nurse.id}-${item.credential}`} className="border-t border-gray-100">
+                          <td className="px-4 py-2">
+                            {item.nurse.name || item.nurse.id}
+                            <span className="block text-xs text-gray-500">{item.nurse.email}</span>
+                          </td>
+                          <td className="px-4 py-2 capitalize">{item.credential}</td>
+                          <td className="px-4 py-2 whitespace-nowrap">{formatDate(item.expiresAt)}</td>
+                          <td className="px-4 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${expiryBadge(item)}`}>
+                              {item.expired ? 'Expired' : `${item.daysLeft} day${item.daysLeft === 1 ? '' : 's'} left`}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2">{item.isAvailable ? 'Yes' : 'No'}</td>
+                          <td className="px-4 py-2">{item.renewalPending ? <span className="text-blue-700">Awaiting review</span> : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -14,6 +14,85 @@ interface AdminStats {
   completedRequests: number;
 }
 
+interface HealthCheck {
+  name: string;
+  status: 'up' | 'down' | 'disabled';
+  critical: boolean;
+  responseTime?: number;
+  details?: Record<string, any>;
+  error?: string;
+}
+
+interface RouteMetrics {
+  method: string;
+  route: string;
+  count: number;
+  clientErrors: number;
+  serverErrors: number;
+  errorRate: number;
+  averageMs: number;
+  p95Ms: number;
+  buckets: { le: string; count: number }[];
+}
+
+interface SystemHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  checkedAt: string;
+  uptime: { seconds: number; formatted: string };
+  memory: { used: number; total: number; external: number };
+  checks: HealthCheck[];
+  api: {
+    status: string;
+    responseTime: number;
+    requests: number;
+    serverErrors: number;
+    errorRate: number;
+    routes: RouteMetrics[];
+  };
+}
+
+const HEALTH_STYLES = {
+  healthy: { label: 'Operational', text: 'text-green-600', badge: 'bg-green-100' },
+  degraded: { label: 'Degraded', text: 'text-yellow-600', badge: 'bg-yellow-100' },
+  unhealthy: { label: 'Down', text: 'text-red-600', badge: 'bg-red-100' },
+};
+
+const CHECK_STYLES = {
+  up: 'bg-green-100 text-green-800',
+  down: 'bg-red-100 text-red-800',
+  disabled: 'bg-gray-100 text-gray-600',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.01 ? 2 : 1)}%`;
+
+// Latency distribution of every route together, one bar per histogram bucket
+function LatencyHistogram({ routes }: { routes: RouteMetrics[] }) {
+  const totals = (routes[0]?.buckets || []).map((bucket, index) => ({
+    le: bucket.le,
+    count: routes.reduce((sum, route) => sum + (route.buckets[index]?.count || 0), 0),
+  }));
+  const max = Math.max(1, ...totals.map(bucket => bucket.count));
+
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {totals.map(bucket => (
+        <div key={bucket.le} className="flex-1 flex flex-col items-center justify-end h-full">
+          <div
+            className="w-full bg-blue-500 rounded-t"
+            style={{ height: `${(bucket.count / max) * 100}%` }}
+            title={`${bucket.count} requests`}
+          ></div>
+          <span className="text-[10px] text-gray-500 mt-1">
+            {bucket.le === '+Inf' ? '>10s' : Number(bucket.le) < 1 ? `${Number(bucket.le) * 1000}ms` : `${bucket.le}s`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function AdminDashboard() {
   const [stats, setStats] = useState<AdminStats>({
     pendingNurses: 0,
@@ -26,6 +105,25 @@ export default function AdminDashboard() {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [health, setHealth] = useState<SystemHealth | null>(null);
+  const [healthError, setHealthError] = useState('');
+  const [refreshingHealth, setRefreshingHealth] = useState(false);
+
+  const loadHealth = async (refresh = false) => {
+    try {
+      setRefreshingHealth(refresh);
+      setHealthError('');
+      setHealth(unwrap(await apiService.getSystemHealth(refresh)));
+    } catch (err: any) {
+      setHealthError(err.message || 'Failed to load system health');
+    } finally {
+      setRefreshingHealth(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHealth();
+  }, []);
 
   useEffect(() => {
     const loadStats = async () => {
@@ -222,16 +320,24 @@ export default function AdminDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">System Status</p>
-                <p className="text-2xl font-bold text-gray-900">Operational</p>
+                <p className="text-2xl font-bold text-gray-900">{health ? HEALTH_STYLES[health.status].label : '—'}</p>
               </div>
-              <div className="bg-green-100 rounded-lg p-3">
-                <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <div className={`${health ? HEALTH_STYLES[health.status].badge : 'bg-gray-100'} rounded-lg p-3`}>
+                <svg className={`w-6 h-6 ${health ? HEALTH_STYLES[health.status].text : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
               </div>
             </div>
             <div className="mt-3">
-              <span className="text-green-600 text-sm font-medium">All services running</span>
+              {health ? (
+                <span className={`${HEALTH_STYLES[health.status].text} text-sm font-medium`}>
+                  {health.status === 'healthy'
+                    ? 'All services running'
+                    : `${health.checks.filter(check => check.status === 'down').length} check(s) failing`}
+                </span>
+              ) : (
+                <span className="text-gray-500 text-sm">{healthError || 'Checking...'}</span>
+              )}
             </div>
           </motion.div>
         </div>
@@ -314,6 +420,121 @@ export default function AdminDashboard() {
           ))}
         </div>
 
+        {/* System Health */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">System Health</h2>
+          <button
+            onClick={() => loadHealth(true)}
+            disabled={refreshingHealth}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+          >
+            {refreshingHealth ? 'Checking...' : 'Run checks again'}
+          </button>
+        </div>
+        {healthError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+            {healthError}
+          </div>
+        )}
+        {health && (
+          <div className="space-y-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {health.checks.map(check => (
+                <div key={check.name} className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-gray-900">{check.name}</p>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHECK_STYLES[check.status]}`}>
+                      {check.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {check.responseTime !== undefined && `${check.responseTime} ms`}
+                    {check.name === 'disk' && check.details && ` · ${check.details.freeMb} MB free (${check.details.freePercent}%)`}
+                    {check.critical && ' · critical'}
+                  </p>
+                  {check.error && <p className="text-sm text-red-600 mt-1">{check.error}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Requests</h3>
+                <p className="text-sm text-gray-500 mb-4">Since the API started {health.uptime.formatted} ago</p>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500">Handled</dt>
+                    <dd className="text-xl font-semibold text-gray-900">{health.api.requests}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Server errors</dt>
+                    <dd className={`text-xl font-semibold ${health.api.errorRate > 0.05 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatPercent(health.api.errorRate)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Avg response</dt>
+                    <dd className="text-xl font-semibold text-gray-900">{health.api.responseTime} ms</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Heap</dt>
+                    <dd className="text-xl font-semibold text-gray-900">{health.memory.used}/{health.memory.total} MB</dd>
+                  </div>
+                </dl>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200 lg:col-span-2">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Latency distribution</h3>
+                {health.api.requests > 0 ? (
+                  <LatencyHistogram routes={health.api.routes} />
+                ) : (
+                  <p className="text-sm text-gray-500">No requests recorded yet.</p>
+                )}
+              </div>
+            </div>
+
+            {health.api.routes.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-500">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Route</th>
+                      <th className="px-4 py-2 font-medium text-right">Requests</th>
+                      <th className="px-4 py-2 font-medium">Latency (avg / p95)</th>
+                      <th className="px-4 py-2 font-medium text-right">4xx</th>
+                      <th className="px-4 py-2 font-medium text-right">5xx rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {health.api.routes.slice(0, 15).map(route => {
+                      const slowest = Math.max(1, ...health.api.routes.slice(0, 15).map(item => item.p95Ms));
+                      return (
+                        <tr key={`${route.method} ${route.route}`} className="border-t border-gray-100">
+                          <td className="px-4 py-2 font-mono text-xs text-gray-700">{route.method} {route.route}</td>
+                          <td className="px-4 py-2 text-right">{route.count}</td>
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                              <div className="relative w-40 h-2 bg-gray-100 rounded">
+                                <div className="absolute h-2 bg-blue-200 rounded" style={{ width: `${(route.p95Ms / slowest) * 100}%` }}></div>
+                                <div className="absolute h-2 bg-blue-600 rounded" style={{ width: `${(route.averageMs / slowest) * 100}%` }}></div>
+                              </div>
+                              <span className="text-gray-600 whitespace-nowrap">{route.averageMs} / {route.p95Ms} ms</span>
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-right">{route.clientErrors}</td>
+                          <td className={`px-4 py-2 text-right ${route.errorRate > 0.05 ? 'text-red-600 font-medium' : ''}`}>
+                            {formatPercent(route.errorRate)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Recent Activity */}
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Recent Activity</h2>
         <motion.div
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface Checkpoint {
+  at: string;
+  coordinates: [number, number];
+  accuracy?: number;
+  distanceMeters: number;
+  withinGeofence: boolean;
+}
+
+interface FlaggedVisit {
+  id: string;
+  title: string;
+  address: string;
+  status: string;
+  scheduledDate: string;
+  checkIn?: Checkpoint;
+  checkOut?: Checkpoint;
+  timeOnSiteMinutes?: number;
+  visitFlags: string[];
+  visitFlagsReviewedAt?: string;
+  visitFlagsReviewNote?: string;
+  patient?: { id: string; name: string } | null;
+  nurse?: { id: string; name: string; phone?: string } | null;
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  late_check_in: 'Late check-in',
+  out_of_area_check_in: 'Checked in away from address',
+  out_of_area_check_out: 'Checked out away from address',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+function CheckpointLine({ label, checkpoint }: { label: string; checkpoint?: Checkpoint }) {
+  if (!checkpoint) {
+    return <p className="text-sm text-gray-400">{label}: not recorded</p>;
+  }
+
+  return (
+    <p className="text-sm text-gray-600">
+      <span className="font-medium">{label}:</span> {new Date(checkpoint.at).toLocaleString()} ·{' '}
+      <span className={checkpoint.withinGeofence ? 'text-green-700' : 'text-red-700'}>
+        {checkpoint.distanceMeters} m from address
+      </span>
+      {checkpoint.accuracy !== undefined && <span className="text-gray-400"> (±{Math.round(checkpoint.accuracy)} m)</span>}
+    </p>
+  );
+}
+
+export default function FlaggedVisits() {
+  const [visits, setVisits] = useState<FlaggedVisit[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadVisits();
+  }, [showReviewed, page]);
+
+  const loadVisits = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getFlaggedVisits(showReviewed, page));
+      setVisits(result?.visits || []);
+      setPages(result?.pagination?.pages || 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load flagged visits');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (visitId: string) => {
+    try {
+      await apiService.reviewVisitFlags(visitId, notes[visitId] || undefined);
+      setVisits(prev => prev.filter(visit => visit.id !== visitId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark the visit as reviewed');
+    }
+  };
+
+  return (
+    <AdminLayout title="Flagged Visits">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Flagged Visits</h1>
+            <p className="text-gray-600 mt-1">Late or out-of-area check-ins that need a look</p>
+          </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            <button
+              onClick={() => { setShowReviewed(false); setPage(1); }}
+              className={`px-4 py-2 ${!showReviewed ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+            >
+              Open
+            </button>
+            <button
+              onClick={() => { setShowReviewed(true); setPage(1); }}
+              className={`px-4 py-2 ${showReviewed ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+            >
+              Reviewed
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : visits.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+            {showReviewed ? 'No reviewed visits yet.' : 'No visits waiting for review.'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visits.map(visit => (
+              <div key={visit.id} className="bg-white rounded-lg border border-gray-200 p-5">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{visit.title}</h3>
+                    <p className="text-sm text-gray-500">
+                      {visit.nurse?.name || 'Unknown nurse'} → {visit.patient?.name || 'Unknown patient'} · {visit.address}
+                    </p>
+                    <p className="text-sm text-gray-500">Scheduled {new Date(visit.scheduledDate).toLocaleString()}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {visit.visitFlags.map(flag => (
+                      <span key={flag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        {FLAG_LABELS[flag] || flag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <CheckpointLine label="Check-in" checkpoint={visit.checkIn} />
+                <CheckpointLine label="Check-out" checkpoint={visit.checkOut} />
+                {visit.timeOnSiteMinutes !== undefined && (
+                  <p className="text-sm text-gray-600"><span className="font-medium">Time on site:</span> {visit.timeOnSiteMinutes} min</p>
+                )}
+
+                {visit.visitFlagsReviewedAt ? (
+                  <p className="mt-3 text-sm text-gray-500">
+                    Reviewed {new Date(visit.visitFlagsReviewedAt).toLocaleString()}
+                    {visit.visitFlagsReviewNote && ` — ${visit.visitFlagsReviewNote}`}
+                  </p>
+                ) : (
+                  <div className="mt-4 flex items-center gap-3">
+                    <input
+                      value={notes[visit.id] || ''}
+                      onChange={e => setNotes({ ...notes, [visit.id]: e.target.value })}
+                      maxLength={500}
+                      placeholder="Review note (optional)"
+                      className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => handleReview(visit.id)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+                    >
+                      Mark reviewed
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {pages > 1 && (
+              <div className="flex justify-center items-center gap-4 pt-4 text-sm">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Previous
+                </button>
+                <span>Page {page} of {pages}</span>
+                <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -6,6 +6,7 @@ import ErrorDisplay from '../../../components/ErrorDisplay';
 import { CustomError, InvalidCredentialsError, ValidationError } from '../../../lib/errors';
 import { errorHandler, formatErrorForUI } from '../../../lib/errorHandler';
 import { motion, AnimatePresence } from 'framer-motion';
+import { PROFILE_FIELDS, getProfileField, formatProfileValue } from '../../../lib/profileFields';
 
 const APPROVAL_CHECKLIST = [
   'Verify License',
@@ -23,6 +24,23 @@ interface Document {
   documentType?: string;
 }
 
+interface FieldFeedback {
+  field: string;
+  message: string;
+}
+
+interface Submission {
+  id: string;
+  version: number;
+  status: string;
+  submittedAt: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  feedback: FieldFeedback[];
+  changedFields: string[];
+  snapshot: Record<string, any>;
+}
+
 interface NurseProfile {
   id: string;
   name: string;
@@ -94,6 +112,10 @@ export default function NurseReviewDetail() {
   const [successMessage, setSuccessMessage] = useState<string>('');
   const [checklist, setChecklist] = useState<Record<string, boolean>>({});
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
+  const [feedback, setFeedback] = useState<FieldFeedback[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>('');
 
   // Get all nurse documents as an array
   const getAllDocuments = (nurse: NurseProfile): Document[] => {
@@ -148,7 +170,8 @@ export default function NurseReviewDetail() {
         initialChecklist[item] = false;
       });
       setChecklist(initialChecklist);
-      
+
+      await loadSubmissions(nurseId);
     } catch (err: any) {
       console.error('Failed to load nurse data:', err);
       setError(`Failed to load nurse data: ${err.message}`);
@@ -157,6 +180,19 @@ export default function NurseReviewDetail() {
     }
   };
 
+  const loadSubmissions = async (nurseId: string) => {
+    try {
+      const result: any = await apiService.getNurseSubmissions(nurseId);
+      const versions: Submission[] = result?.data ?? result ?? [];
+      setSubmissions(versions);
+      // Newest first: compare the latest version with the one before it
+      setCompareTo(versions[0]?.id || '');
+      setCompareFrom(versions[1]?.id || '');
+    } catch (err) {
+      console.error('Failed to load submission history:', err);
+    }
+  };
+
   const handleApprove = async () => {
     if (!nurse) return;
     
@@ -216,6 +252,52 @@ export default function NurseReviewDetail() {
     }
   };
 
+  const handleRequestChanges = async () => {
+    const items = feedback.filter(item => item.field && item.message.trim());
+    if (!nurse || items.length === 0) {
+      setError('Add at least one item for the nurse to fix.');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+      setError('');
+
+      await apiService.rejectNurse(nurse.id, rejectionReason, items.map(item => ({ ...item, message: item.message.trim() })));
+
+      if (adminNotes.trim()) {
+        await apiService.updateNurseNotes(nurse.id, adminNotes);
+      }
+
+      setSuccessMessage(`✏️ Changes requested from ${nurse.name || nurse.fullName}.`);
+
+      setTimeout(() => {
+        router.push('/admin/nurse-approvals');
+      }, 2000);
+
+    } catch (err: any) {
+      console.error('Failed to request changes:', err);
+      const customError = errorHandler.handleError(err);
+      setError(customError);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const updateFeedback = (index: number, changes: Partial<FieldFeedback>) => {
+    setFeedback(prev => prev.map((item, idx) => idx === index ? { ...item, ...changes } : item));
+  };
+
+  const flaggableFields = (index: number) =>
+    PROFILE_FIELDS.filter(field => !feedback.some((item, idx) => idx !== index && item.field === field.key));
+
+  const fromVersion = submissions.find(submission => submission.id === compareFrom);
+  const toVersion = submissions.find(submission => submission.id === compareTo);
+  const versionDiff = toVersion
+    ? PROFILE_FIELDS.filter(field =>
+        JSON.stringify(fromVersion?.snapshot?.[field.key]) !== JSON.stringify(toVersion.snapshot?.[field.key]))
+    : [];
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Not provided';
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -619,6 +701,101 @@ export default function NurseReviewDetail() {
           </div>
         </div>
 
+        {/* Submission History */}
+        {submissions.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8 mb-8">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Submission History</h3>
+
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Version</th>
+                    <th className="py-2 pr-4 font-medium">Submitted</th>
+                    <th className="py-2 pr-4 font-medium">Outcome</th>
+                    <th className="py-2 font-medium">Changed / flagged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {submissions.map(submission => (
+                    <tr key={submission.id} className="border-t border-gray-100 align-top">
+                      <td className="py-2 pr-4 font-medium">v{submission.version}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(submission.submittedAt)}</td>
+                      <td className="py-2 pr-4 capitalize">{submission.status.replace(/_/g, ' ')}</td>
+                      <td className="py-2 text-gray-600">
+                        {submission.changedFields.length > 0 && (
+                          <p>Changed: {submission.changedFields.map(field => getProfileField(field).label).join(', ')}</p>
+                        )}
+                        {submission.feedback.map(item => (
+                          <p key={item.field} className="text-red-700">
+                            {getProfileField(item.field).label}: {item.message}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {submissions.length > 1 && (
+              <>
+                <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                  <span className="font-medium text-gray-700">Compare</span>
+                  <select
+                    value={compareFrom}
+                    onChange={e => setCompareFrom(e.target.value)}
+                    className="border border-gray-300 rounded-lg px-3 py-2"
+                  >
+                    {submissions.map(submission => (
+                      <option key={submission.id} value={submission.id}>v{submission.version}</option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500">with</span>
+                  <select
+                    value={compareTo}
+                    onChange={e => setCompareTo(e.target.value)}
+                    className="border border-gray-300 rounded-lg px-3 py-2"
+                  >
+                    {submissions.map(submission => (
+                      <option key={submission.id} value={submission.id}>v{submission.version}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {versionDiff.length === 0 ? (
+                  <p className="text-sm text-gray-500">These versions are identical.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="py-2 pr-4 font-medium">Field</th>
+                        <th className="py-2 pr-4 font-medium">v{fromVersion?.version}</th>
+                        <th className="py-2 font-medium">v{toVersion?.version}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {versionDiff.map(field => {
+                        const flagged = fromVersion?.feedback.find(item => item.field === field.key);
+                        return (
+                          <tr key={field.key} className="border-t border-gray-100 align-top">
+                            <td className="py-2 pr-4 font-medium text-gray-700">
+                              {field.label}
+                              {flagged && <span className="block text-xs text-red-600 font-normal">Flagged: {flagged.message}</span>}
+                            </td>
+                            <td className="py-2 pr-4 text-red-700 break-all">{formatProfileValue(field.key, fromVersion?.snapshot?.[field.key])}</td>
+                            <td className="py-2 text-green-700 break-all">{formatProfileValue(field.key, toVersion?.snapshot?.[field.key])}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* Admin Notes & Actions */}
         <div className="bg-white rounded-2xl shadow-xl p-6 md:p-8">
           <h3 className="text-xl font-bold text-gray-900 mb-4">Decision</h3>
@@ -650,6 +827,51 @@ export default function NurseReviewDetail() {
               />
             </div>
             
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Items to Fix (request changes instead of a final rejection)
+              </label>
+              <div className="space-y-2">
+                {feedback.map((item, idx) => (
+                  <div key={idx} className="flex flex-col sm:flex-row gap-2">
+                    <select
+                      value={item.field}
+                      onChange={e => updateFeedback(idx, { field: e.target.value })}
+                      className="border border-gray-300 rounded-lg px-3 py-2 text-sm sm:w-64"
+                    >
+                      <option value="">Choose a field or document</option>
+                      {flaggableFields(idx).map(field => (
+                        <option key={field.key} value={field.key}>{field.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      value={item.message}
+                      onChange={e => updateFeedback(idx, { message: e.target.value })}
+                      placeholder="e.g. License scan is unreadable"
+                      maxLength={500}
+                      className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setFeedback(prev => prev.filter((_, i) => i !== idx))}
+                      className="text-sm text-gray-500 hover:text-red-600 px-2"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {feedback.length < PROFILE_FIELDS.length && (
+                <button
+                  type="button"
+                  onClick={() => setFeedback(prev => [...prev, { field: '', message: '' }])}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  + Add item
+                </button>
+              )}
+            </div>
+
             <div className="flex flex-col sm:flex-row gap-4">
               <button
                 className="bg-gray-200 text-gray-700 px-6 py-2 rounded-lg font-medium hover:bg-gray-300 transition-all duration-200"
@@ -681,6 +903,14 @@ export default function NurseReviewDetail() {
               >
                 {processing ? 'Processing...' : 'Reject Application'}
               </button>
+
+              <button
+                className="bg-gradient-to-r from-orange-500 to-orange-600 text-white px-6 py-2 rounded-lg font-medium hover:from-orange-600 hover:to-orange-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleRequestChanges}
+                disabled={processing || !feedback.some(item => item.field && item.message.trim())}
+              >
+                {processing ? 'Processing...' : 'Request Changes'}
+              </button>
             </div>
           </div>
         </div>
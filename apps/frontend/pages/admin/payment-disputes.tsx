@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface DisputedPayment {
+  _id: string;
+  amount: number;
+  platformFee: number;
+  authorizedAt?: string;
+  patientId?: { _id: string; name: string; email: string; phone?: string } | null;
+  nurseId?: { _id: string; name: string; email: string; phone?: string } | null;
+  requestId?: {
+    _id: string;
+    title: string;
+    serviceType: string;
+    scheduledDate: string;
+    nurseCompleted?: boolean;
+    patientCompleted?: boolean;
+  } | null;
+  dispute: {
+    status: string;
+    source?: 'in_app' | 'chargeback';
+    providerStatus?: string;
+    disputedAmount?: number;
+    evidenceDueBy?: string;
+    openedBy?: { _id: string; name: string; role: string } | null;
+    openedAt: string;
+    reason: string;
+  };
+}
+
+type Resolution = 'capture' | 'partial_capture' | 'release';
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function PaymentDisputes() {
+  const [payments, setPayments] = useState<DisputedPayment[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [page]);
+
+  const loadDisputes = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getPaymentDisputes(page));
+      setPayments(result?.payments || []);
+      setPages(result?.pagination?.pages || 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load payment disputes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (payment: DisputedPayment, resolution: Resolution) => {
+    let amount: number | undefined;
+    if (resolution === 'partial_capture') {
+      const egp = parseFloat(amounts[payment._id] || '');
+      if (!egp || egp <= 0) {
+        setError('Enter the amount to charge for a partial capture');
+        return;
+      }
+      amount = Math.round(egp * 100);
+    }
+
+    try {
+      setResolving(payment._id);
+      setError('');
+      await apiService.resolvePaymentDispute(payment._id, {
+        resolution,
+        amount,
+        note: notes[payment._id] || undefined,
+      });
+      setPayments(prev => prev.filter(item => item._id !== payment._id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to resolve the dispute');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Payment Disputes">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Payment Disputes</h1>
+          <p className="text-gray-600 mt-1">Escrowed payments frozen until you decide how to settle them</p>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : payments.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+            No open disputes.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {payments.map(payment => (
+              <div key={payment._id} className="bg-white rounded-lg border border-gray-200 p-5">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{payment.requestId?.title || 'Unknown request'}</h3>
+                    <p className="text-sm text-gray-500">
+                      {payment.patientId?.name || 'Unknown patient'} → {payment.nurseId?.name || 'Unknown nurse'}
+                      {payment.requestId?.scheduledDate && ` · ${new Date(payment.requestId.scheduledDate).toLocaleString()}`}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Completion: nurse {payment.requestId?.nurseCompleted ? 'confirmed' : 'not confirmed'}, patient{' '}
+                      {payment.requestId?.patientCompleted ? 'confirmed' : 'not confirmed'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-semibold text-gray-900">EGP {(payment.amount / 100).toFixed(2)}</p>
+                    <p className="text-xs text-gray-500">held since {payment.authorizedAt ? new Date(payment.authorizedAt).toLocaleDateString() : '—'}</p>
+                  </div>
+                </div>
+
+                <div className="bg-orange-50 border border-orange-200 rounded-md p-3 text-sm">
+                  <p className="text-orange-800">
+                    {payment.dispute.source === 'chargeback' && (
+                      <span className="mr-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Chargeback</span>
+                    )}
+                    <span className="font-medium">
+                      Reported by {payment.dispute.source === 'chargeback' ? 'the card holder\'s bank' : payment.dispute.openedBy?.name || 'unknown'}
+                      {payment.dispute.openedBy?.role && ` (${payment.dispute.openedBy.role})`}
+                    </span>{' '}
+                    on {new Date(payment.dispute.openedAt).toLocaleString()}
+                  </p>
+                  <p className="text-orange-900 mt-1">{payment.dispute.reason}</p>
+                </div>
+
+                {payment.dispute.source === 'chargeback' ? (
+                  <p className="mt-4 text-sm text-gray-600">
+                    EGP {((payment.dispute.disputedAmount ?? payment.amount) / 100).toFixed(2)} disputed · Stripe status:{' '}
+                    <span className="font-medium">{payment.dispute.providerStatus?.replace(/_/g, ' ') || 'unknown'}</span>
+                    {payment.dispute.evidenceDueBy && ` · evidence due ${new Date(payment.dispute.evidenceDueBy).toLocaleDateString()}`}.
+                    {' '}Submit evidence from the Stripe dashboard; the outcome is recorded here automatically.
+                  </p>
+                ) : (
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  <input
+                    value={notes[payment._id] || ''}
+                    onChange={e => setNotes({ ...notes, [payment._id]: e.target.value })}
+                    maxLength={500}
+                    placeholder="Resolution note (shared with both sides)"
+                    className="flex-1 min-w-[200px] border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amounts[payment._id] || ''}
+                    onChange={e => setAmounts({ ...amounts, [payment._id]: e.target.value })}
+                    placeholder="Partial EGP"
+                    className="w-32 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleResolve(payment, 'capture')}
+                    disabled={resolving === payment._id}
+                    className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Charge in full
+                  </button>
+                  <button
+                    onClick={() => handleResolve(payment, 'partial_capture')}
+                    disabled={resolving === payment._id}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Charge partially
+                  </button>
+                  <button
+                    onClick={() => handleResolve(payment, 'release')}
+                    disabled={resolving === payment._id}
+                    className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Release hold
+                  </button>
+                </div>
+                )}
+              </div>
+            ))}
+
+            {pages > 1 && (
+              <div className="flex justify-center items-center gap-4 pt-4 text-sm">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Previous
+                </button>
+                <span>Page {page} of {pages}</span>
+                <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
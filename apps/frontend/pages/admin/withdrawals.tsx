@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import apiService from '../../lib/api';
+
+interface Withdrawal {
+  _id: string;
+  amount: number;
+  status: 'pending' | 'paid' | 'rejected';
+  payoutMethod: 'bank_transfer' | 'mobile_wallet';
+  payoutDetails: string;
+  note?: string;
+  createdAt: string;
+  reviewedAt?: string;
+  payoutReference?: string;
+  rejectionReason?: string;
+  nurseId?: { _id: string; name: string; email: string; phone?: string } | null;
+  reviewedBy?: { _id: string; name: string } | null;
+}
+
+const STATUS_TABS = [
+  { key: 'pending', label: 'Pending' },
+  { key: 'paid', label: 'Paid' },
+  { key: 'rejected', label: 'Rejected' },
+];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function Withdrawals() {
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [status, setStatus] = useState('pending');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWithdrawals();
+  }, [status, page]);
+
+  const loadWithdrawals = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const result = unwrap(await apiService.getAdminWithdrawals(status, page));
+      setWithdrawals(result?.withdrawals || []);
+      setPages(result?.pagination?.pages || 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load withdrawals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (withdrawalId: string) => {
+    try {
+      setWorking(withdrawalId);
+      await apiService.approveWithdrawal(withdrawalId, inputs[withdrawalId] || undefined);
+      setWithdrawals(prev => prev.filter(withdrawal => withdrawal._id !== withdrawalId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark the withdrawal as paid');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleReject = async (withdrawalId: string) => {
+    const reason = inputs[withdrawalId];
+    if (!reason || reason.trim().length < 5) {
+      setError('Enter a reason (at least 5 characters) to reject a withdrawal');
+      return;
+    }
+
+    try {
+      setWorking(withdrawalId);
+      await apiService.rejectWithdrawal(withdrawalId, reason);
+      setWithdrawals(prev => prev.filter(withdrawal => withdrawal._id !== withdrawalId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to reject the withdrawal');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Withdrawals">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Withdrawals</h1>
+            <p className="text-gray-600 mt-1">Nurse payout requests waiting to be paid</p>
+          </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => { setStatus(tab.key); setPage(1); }}
+                className={`px-4 py-2 ${status === tab.key ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : withdrawals.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">
+            No {status} withdrawals.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {withdrawals.map(withdrawal => (
+              <div key={withdrawal._id} className="bg-white rounded-lg border border-gray-200 p-5">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{withdrawal.nurseId?.name || 'Unknown nurse'}</h3>
+                    <p className="text-sm text-gray-500">
+                      {withdrawal.nurseId?.email}{withdrawal.nurseId?.phone && ` · ${withdrawal.nurseId.phone}`}
+                    </p>
+                    <p className="text-sm text-gray-500">Requested {new Date(withdrawal.createdAt).toLocaleString()}</p>
+                  </div>
+                  <p className="text-lg font-semibold text-gray-900">EGP {(withdrawal.amount / 100).toFixed(2)}</p>
+                </div>
+
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">{withdrawal.payoutMethod === 'bank_transfer' ? 'Bank account' : 'Mobile wallet'}:</span>{' '}
+                  <span className="font-mono">{withdrawal.payoutDetails}</span>
+                </p>
+                {withdrawal.note && <p className="text-sm text-gray-600 mt-1">Note: {withdrawal.note}</p>}
+
+                {withdrawal.status === 'pending' ? (
+                  <div className="mt-4 flex items-center gap-3">
+                    <input
+                      value={inputs[withdrawal._id] || ''}
+                      onChange={e => setInputs({ ...inputs, [withdrawal._id]: e.target.value })}
+                      maxLength={500}
+                      placeholder="Transfer reference, or reason when rejecting"
+                      className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => handleApprove(withdrawal._id)}
+                      disabled={working === withdrawal._id}
+                      className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Mark paid
+                    </button>
+                    <button
+                      onClick={() => handleReject(withdrawal._id)}
+                      disabled={working === withdrawal._id}
+                      className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mt-3 text-sm text-gray-500">
+                    {withdrawal.status === 'paid' ? 'Paid' : 'Rejected'}
+                    {withdrawal.reviewedAt && ` ${new Date(withdrawal.reviewedAt).toLocaleString()}`}
+                    {withdrawal.reviewedBy?.name && ` by ${withdrawal.reviewedBy.name}`}
+                    {withdrawal.payoutReference && ` — ref ${withdrawal.payoutReference}`}
+                    {withdrawal.rejectionReason && ` — ${withdrawal.rejectionReason}`}
+                  </p>
+                )}
+              </div>
+            ))}
+
+            {pages > 1 && (
+              <div className="flex justify-center items-center gap-4 pt-4 text-sm">
+                <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Previous
+                </button>
+                <span>Page {page} of {pages}</span>
+                <button disabled={page >= pages} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
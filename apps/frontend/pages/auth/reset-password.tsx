@@ -0,0 +1,114 @@
+import Link from 'next/link';
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { apiService } from '../../lib/api';
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function ResetPassword() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = unwrap(await apiService.resetPassword(token, password));
+      setSuccess(result?.message || 'Password reset successfully. You can now log in with your new password.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-r from-blue-400 via-white-500 to-white-500 p-4">
+      <div className="w-full max-w-md bg-white/80 backdrop-blur-md rounded-xl shadow-2xl p-8">
+        <h2 className="text-3xl font-bold text-purple-700 text-center mb-6">Reset Password</h2>
+
+        {router.isReady && !token ? (
+          <div className="space-y-4 text-center">
+            <p className="text-red-700 text-sm font-medium">This reset link is missing its token.</p>
+            <Link href="/forgot-password" className="text-purple-600 hover:text-purple-800 font-medium">
+              Request a new link
+            </Link>
+          </div>
+        ) : success ? (
+          <div className="space-y-6 text-center">
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-green-700 text-sm font-medium">{success}</p>
+            </div>
+            <Link
+              href="/login"
+              className="inline-block w-full bg-gradient-to-r from-blue-600 to-purple-700 text-white py-2 px-4 rounded-full hover:bg-purple-800 text-lg font-semibold"
+            >
+              Go to Login
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">New Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1 block w-full border-b border-purple-300 focus:border-purple-500 focus:outline-none text-lg text-gray-800 placeholder-gray-400"
+                required
+                minLength={6}
+                placeholder="Enter a new password"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Confirm Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="mt-1 block w-full border-b border-purple-300 focus:border-purple-500 focus:outline-none text-lg text-gray-800 placeholder-gray-400"
+                required
+                placeholder="Repeat the new password"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-700 text-sm font-medium">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-700 text-white py-2 px-4 rounded-full hover:bg-purple-800 text-lg font-semibold disabled:opacity-50"
+            >
+              {loading ? 'Resetting...' : 'Reset Password'}
+            </button>
+
+            <p className="text-sm text-gray-600 text-center">
+              Link expired? <Link href="/forgot-password" className="text-purple-600 hover:text-purple-800 font-medium">Request a new one</Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
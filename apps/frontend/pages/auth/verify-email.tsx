@@ -0,0 +1,126 @@
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { apiService } from '../../lib/api';
+
+type VerifyState = 'idle' | 'verifying' | 'verified' | 'failed';
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function VerifyEmail() {
+  const router = useRouter();
+  const [state, setState] = useState<VerifyState>('idle');
+  const [message, setMessage] = useState('');
+  const [email, setEmail] = useState('');
+  const [resending, setResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState('');
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    const { token, email: emailParam } = router.query;
+    if (typeof emailParam === 'string') {
+      setEmail(emailParam);
+    }
+
+    // Tokens are single-use, so guard against double submission in dev strict mode
+    if (typeof token === 'string' && !attempted.current) {
+      attempted.current = true;
+      verify(token);
+    }
+  }, [router.isReady, router.query]);
+
+  const verify = async (token: string) => {
+    setState('verifying');
+    try {
+      const result = unwrap(await apiService.verifyEmail(token));
+      setMessage(result?.message || 'Email verified successfully. You can now log in.');
+      if (result?.email) setEmail(result.email);
+      setState('verified');
+    } catch (err: any) {
+      setMessage(err.message || 'This link is invalid');
+      setState('failed');
+    }
+  };
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setResending(true);
+    setResendMessage('');
+    try {
+      const result = unwrap(await apiService.resendVerification(email));
+      setResendMessage(result?.message || 'A new verification link has been sent.');
+    } catch (err: any) {
+      setResendMessage(err.message || 'Failed to resend verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-r from-blue-400 via-white-500 to-white-500 p-4">
+      <div className="w-full max-w-md bg-white/80 backdrop-blur-md rounded-xl shadow-2xl p-8">
+        <h2 className="text-3xl font-bold text-purple-700 text-center mb-6">Verify Your Email</h2>
+
+        {state === 'verifying' && (
+          <p className="text-center text-gray-600">Verifying your email address...</p>
+        )}
+
+        {state === 'verified' && (
+          <div className="space-y-6 text-center">
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-green-700 text-sm font-medium">{message}</p>
+            </div>
+            <Link
+              href="/login"
+              className="inline-block w-full bg-gradient-to-r from-blue-600 to-purple-700 text-white py-2 px-4 rounded-full hover:bg-purple-800 text-lg font-semibold"
+            >
+              Go to Login
+            </Link>
+          </div>
+        )}
+
+        {state === 'failed' && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-6">
+            <p className="text-red-700 text-sm font-medium">{message}</p>
+          </div>
+        )}
+
+        {state === 'idle' && (
+          <p className="text-gray-700 text-center mb-6">
+            We sent a verification link to {email ? <strong>{email}</strong> : 'your email address'}.
+            Click the link in the email to activate your account.
+          </p>
+        )}
+
+        {(state === 'idle' || state === 'failed') && (
+          <form onSubmit={handleResend} className="space-y-4">
+            <p className="text-sm text-gray-600">Didn't receive the email or the link expired? Request a new one.</p>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="block w-full border-b border-purple-300 focus:border-purple-500 focus:outline-none text-lg text-gray-800 placeholder-gray-400"
+              required
+              placeholder="Enter your email"
+            />
+            {resendMessage && <p className="text-sm text-gray-700">{resendMessage}</p>}
+            <button
+              type="submit"
+              disabled={resending}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-700 text-white py-2 px-4 rounded-full hover:bg-purple-800 text-lg font-semibold disabled:opacity-50"
+            >
+              {resending ? 'Sending...' : 'Resend Verification Email'}
+            </button>
+            <p className="text-sm text-gray-600 text-center">
+              Already verified? <Link href="/login" className="text-purple-600 hover:text-purple-800 font-medium">Login</Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
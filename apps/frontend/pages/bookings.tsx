@@ -1,8 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../lib/auth';
+import { apiService } from '../lib/api';
 import Layout from '../components/Layout';
+import CareCalendar, { CalendarVisit, dayKey } from '../components/CareCalendar';
+
+interface CarePlan {
+  id: string;
+  title: string;
+  serviceType: string;
+  status: 'active' | 'paused' | 'ended';
+  recurrence: { frequency: 'daily' | 'weekdays' | 'custom'; rrule?: string };
+  startDate: string;
+  endDate?: string;
+  visitTime: string;
+  estimatedDuration: number;
+  skippedDates: string[];
+}
+
+const SERVICE_TYPES = [
+  { value: 'home_care', label: 'Home Care' },
+  { value: 'medication_administration', label: 'Medication Administration' },
+  { value: 'wound_care', label: 'Wound Care' },
+  { value: 'vital_signs_monitoring', label: 'Vital Signs Monitoring' },
+  { value: 'post_surgical_care', label: 'Post-Surgical Care' },
+  { value: 'elderly_care', label: 'Elderly Care' },
+  { value: 'pediatric_care', label: 'Pediatric Care' },
+  { value: 'chronic_disease_management', label: 'Chronic Disease Management' },
+];
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  daily: 'Every day',
+  weekdays: 'Weekdays',
+  custom: 'Custom',
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  ended: 'bg-gray-100 text-gray-600',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const emptyPlanForm = () => ({
+  title: '',
+  description: '',
+  serviceType: '',
+  frequency: 'weekdays' as 'daily' | 'weekdays' | 'custom',
+  rrule: '',
+  startDate: dayKey(new Date()),
+  endDate: '',
+  visitTime: '09:00',
+  estimatedDuration: 2,
+  address: '',
+  preferredNurseId: '',
+  budget: '',
+});
 
 export default function Bookings() {
   const { user, loading } = useAuth();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [visits, setVisits] = useState<CalendarVisit[]>([]);
+  const [plans, setPlans] = useState<CarePlan[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState('');
+  const [working, setWorking] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyPlanForm);
+
+  const isPatient = user?.role === 'patient';
+
+  const loadCalendar = useCallback(async () => {
+    const from = new Date(month.getFullYear(), month.getMonth(), 1);
+    const to = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    const result = unwrap(await apiService.getCareCalendar(from.toISOString(), to.toISOString()));
+    setVisits(Array.isArray(result) ? result : []);
+  }, [month]);
+
+  const loadPlans = useCallback(async () => {
+    const result = unwrap(await apiService.getCarePlans());
+    setPlans(Array.isArray(result) ? result : []);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setLoadingData(true);
+    Promise.all([loadCalendar(), loadPlans()])
+      .catch((err: any) => setError(err.message || 'Failed to load bookings'))
+      .finally(() => setLoadingData(false));
+  }, [user, loadCalendar, loadPlans]);
+
+  const runAction = async (action: () => Promise<any>) => {
+    try {
+      setWorking(true);
+      setError('');
+      await action();
+      await Promise.all([loadCalendar(), loadPlans()]);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleVisitClick = (visit: CalendarVisit) => {
+    const canSkip = isPatient
+      && visit.carePlanId
+      && visit.occurrenceDate
+      && ['pending', 'accepted'].includes(visit.status)
+      && new Date(visit.scheduledDate) > new Date();
+
+    if (!canSkip) return;
+    if (!confirm(`Skip the visit on ${visit.occurrenceDate}? The rest of the plan is not affected.`)) return;
+
+    runAction(() => apiService.skipCarePlanVisit(visit.carePlanId!, visit.occurrenceDate!));
+  };
+
+  const handleEndPlan = (plan: CarePlan) => {
+    if (!confirm(`End "${plan.title}"? All upcoming visits will be cancelled.`)) return;
+    runAction(() => apiService.endCarePlan(plan.id));
+  };
+
+  const handleCreatePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await runAction(async () => {
+      await apiService.createCarePlan({
+        title: form.title,
+        description: form.description,
+        serviceType: form.serviceType,
+        recurrence: {
+          frequency: form.frequency,
+          ...(form.frequency === 'custom' && { rrule: form.rrule }),
+        },
+        startDate: form.startDate,
+        ...(form.endDate && { endDate: form.endDate }),
+        visitTime: form.visitTime,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        estimatedDuration: Number(form.estimatedDuration),
+        coordinates: user?.location?.coordinates || [31.233, 30.033],
+        address: form.address,
+        ...(form.preferredNurseId && { preferredNurseId: form.preferredNurseId }),
+        ...(form.budget && { budget: Number(form.budget) }),
+      });
+      setShowForm(false);
+      setForm(emptyPlanForm());
+    });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
 
   if (loading) {
     return (
@@ -30,32 +183,198 @@ export default function Bookings() {
     );
   }
 
+  const inputClass = 'w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
   return (
     <Layout title="Bookings">
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <div className="mb-8">
-            <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
-            <p className="text-gray-600 mt-2">Manage your nursing service bookings</p>
+          <div className="mb-8 flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
+              <p className="text-gray-600 mt-2">
+                {isPatient ? 'Your scheduled visits and recurring care plans' : 'Your upcoming visits'}
+              </p>
+            </div>
+            {isPatient && (
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+              >
+                {showForm ? 'Cancel' : 'New Care Plan'}
+              </button>
+            )}
           </div>
 
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
-            <div className="text-center">
-              <div className="w-16 h-16 bg-blue-100 rounded-full mx-auto mb-4 flex items-center justify-center">
-                <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+          )}
+
+          {showForm && (
+            <form onSubmit={handleCreatePlan} className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">New recurring care plan</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Title *</label>
+                  <input name="title" value={form.title} onChange={handleInputChange} required minLength={5} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Service Type *</label>
+                  <select name="serviceType" value={form.serviceType} onChange={handleInputChange} required className={inputClass}>
+                    <option value="">Select service type</option>
+                    {SERVICE_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
-              <h2 className="text-xl font-semibold text-gray-900 mb-2">Bookings Coming Soon</h2>
-              <p className="text-gray-600 mb-6">
-                This feature is currently under development. You'll be able to manage all your nursing service bookings here.
-              </p>
-              <a
-                href="/dashboard"
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-              >
-                Back to Dashboard
-              </a>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description *</label>
+                <textarea name="description" value={form.description} onChange={handleInputChange} required minLength={10} rows={3} className={inputClass} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Repeats *</label>
+                  <select name="frequency" value={form.frequency} onChange={handleInputChange} className={inputClass}>
+                    <option value="daily">Every day</option>
+                    <option value="weekdays">Weekdays (Mon–Fri)</option>
+                    <option value="custom">Custom (RRULE)</option>
+                  </select>
+                </div>
+                {form.frequency === 'custom' && (
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">RRULE *</label>
+                    <input name="rrule" value={form.rrule} onChange={handleInputChange} required placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR" className={inputClass} />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Start date *</label>
+                  <input type="date" name="startDate" value={form.startDate} onChange={handleInputChange} required className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">End date</label>
+                  <input type="date" name="endDate" value={form.endDate} onChange={handleInputChange} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Visit time *</label>
+                  <input type="time" name="visitTime" value={form.visitTime} onChange={handleInputChange} required className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Duration (hours) *</label>
+                  <input type="number" name="estimatedDuration" min={1} max={24} value={form.estimatedDuration} onChange={handleInputChange} required className={inputClass} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Address *</label>
+                  <input name="address" value={form.address} onChange={handleInputChange} required minLength={10} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Budget per visit (EGP)</label>
+                  <input type="number" name="budget" min={0} value={form.budget} onChange={handleInputChange} className={inputClass} />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Preferred nurse ID</label>
+                <input name="preferredNurseId" value={form.preferredNurseId} onChange={handleInputChange} className={inputClass} />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={working}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {working ? 'Creating...' : 'Create Care Plan'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              {loadingData ? (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+                  Loading calendar...
+                </div>
+              ) : (
+                <CareCalendar
+                  month={month}
+                  visits={visits}
+                  onPrevious={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                  onNext={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                  onVisitClick={handleVisitClick}
+                />
+              )}
+              {isPatient && (
+                <p className="mt-2 text-xs text-gray-500">Click an upcoming recurring visit to skip it.</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Care Plans</h2>
+
+              {plans.length === 0 ? (
+                <p className="text-sm text-gray-500">No care plans yet.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {plans.map(plan => (
+                    <li key={plan.id} className="border border-gray-200 rounded-md p-3">
+                      <div className="flex items-start justify-between">
+                        <p className="font-medium text-gray-900">{plan.title}</p>
+                        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[plan.status]}`}>
+                          {plan.status}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {plan.recurrence.frequency === 'custom' ? plan.recurrence.rrule : FREQUENCY_LABELS[plan.recurrence.frequency]}
+                        {' at '}{plan.visitTime} · {plan.estimatedDuration}h
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        From {plan.startDate}{plan.endDate ? ` to ${plan.endDate}` : ''}
+                        {plan.skippedDates.length > 0 && ` · ${plan.skippedDates.length} skipped`}
+                      </p>
+
+                      {isPatient && plan.status !== 'ended' && (
+                        <div className="flex space-x-3 mt-3 text-sm">
+                          {plan.status === 'active' ? (
+                            <button
+                              onClick={() => runAction(() => apiService.pauseCarePlan(plan.id))}
+                              disabled={working}
+                              className="text-yellow-700 hover:text-yellow-900 disabled:opacity-50"
+                            >
+                              Pause
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => runAction(() => apiService.resumeCarePlan(plan.id))}
+                              disabled={working}
+                              className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                            >
+                              Resume
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleEndPlan(plan)}
+                            disabled={working}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            End plan
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         </div>
@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../lib/auth';
 import { apiService } from '../lib/api';
-import { reviewApiService } from '../lib/reviewApi';
 import CommonLayout from '../components/CommonLayout';
 import ErrorDisplay from '../components/ErrorDisplay';
 import UserRatingDisplay from '../components/UserRatingDisplay';
@@ -9,79 +8,103 @@ import { StarRating } from '../components/RatingComponent';
 import { CustomError } from '../lib/errors';
 import { errorHandler } from '../lib/errorHandler';
 
+const SPECIALIZATIONS = [
+  { value: 'general', label: 'General Nursing' },
+  { value: 'pediatric', label: 'Pediatric Care' },
+  { value: 'geriatric', label: 'Geriatric Care' },
+  { value: 'icu', label: 'ICU Care' },
+  { value: 'emergency', label: 'Emergency Care' },
+  { value: 'surgical', label: 'Surgical Care' },
+  { value: 'psychiatric', label: 'Psychiatric Care' },
+  { value: 'oncology', label: 'Oncology Care' },
+];
+
+const PAGE_SIZE = 10;
+
 interface Nurse {
-  _id: string;
+  id: string;
   name: string;
-  email: string;
-  phone: string;
-  status: string;
-  profile?: {
-    specializations: string[];
-    experience: number;
-    bio: string;
-    hourlyRate: number;
-    availability: string[];
-    location: {
-      address: string;
-      city: string;
-      state: string;
-    };
-  };
-  rating?: number;
-  completedJobs?: number;
+  address?: string;
+  distance?: number;
+  yearsOfExperience?: number;
+  specializations: string[];
+  rating: number;
+  totalReviews: number;
+  completedJobs: number;
+  hourlyRate?: number;
+  bio?: string;
+  isAvailable: boolean;
   createdAt: string;
 }
 
+interface SearchFacet {
+  value: string;
+  label: string;
+  count: number;
+}
+
 const FindNursesPage = () => {
   const { user } = useAuth();
   const [nurses, setNurses] = useState<Nurse[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [specializationFacets, setSpecializationFacets] = useState<SearchFacet[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<CustomError | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterSpecialization, setFilterSpecialization] = useState('');
   const [filterLocation, setFilterLocation] = useState('');
   const [selectedNurse, setSelectedNurse] = useState<Nurse | null>(null);
 
+  // Debounce typing so every keystroke doesn't hit the search API
   useEffect(() => {
-    if (user?.role === 'patient') {
-      loadNurses();
-    }
-  }, [user]);
+    if (user?.role !== 'patient') return;
+
+    const timeout = setTimeout(() => loadNurses(), 300);
+    return () => clearTimeout(timeout);
+  }, [user, searchTerm, filterSpecialization, filterLocation]);
 
-  const loadNurses = async () => {
+  const loadNurses = async (cursor?: string) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
       setError(null);
-      
-      // Get all verified nurses
-      const response = await apiService.getNurses();
-      const verifiedNurses = response.filter((nurse: any) => nurse.status === 'verified');
-      
-      setNurses(verifiedNurses);
+
+      // Location terms are matched against the nurse's address by the text index
+      const query = [searchTerm, filterLocation].map(term => term.trim()).filter(Boolean).join(' ');
+      const result: any = await apiService.searchNurses({
+        q: query || undefined,
+        specializations: filterSpecialization ? [filterSpecialization] : undefined,
+        sortBy: 'rating',
+        sortOrder: 'desc',
+        limit: PAGE_SIZE,
+        cursor,
+      });
+
+      const page: Nurse[] = result?.nurses || [];
+      setNurses(prev => cursor ? [...prev, ...page] : page);
+      setTotal(result?.pagination?.total || 0);
+      setNextCursor(result?.pagination?.nextCursor || null);
+      setSpecializationFacets(result?.facets?.specializations || []);
     } catch (err: any) {
       console.error('Failed to load nurses:', err);
       const customError = errorHandler.handleError(err);
       setError(customError);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const filteredNurses = nurses.filter(nurse => {
-    const matchesSearch = nurse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         nurse.profile?.bio?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesSpecialization = !filterSpecialization || 
-                                 nurse.profile?.specializations?.includes(filterSpecialization);
-    
-    const matchesLocation = !filterLocation ||
-                           nurse.profile?.location?.city?.toLowerCase().includes(filterLocation.toLowerCase()) ||
-                           nurse.profile?.location?.state?.toLowerCase().includes(filterLocation.toLowerCase());
-
-    return matchesSearch && matchesSpecialization && matchesLocation;
-  });
-
+  const getSpecializationLabel = (spec: string) =>
+    SPECIALIZATIONS.find(s => s.value === spec)?.label || spec.replace('_', ' ');
 
+  const getFacetCount = (spec: string) =>
+    specializationFacets.find(facet => facet.value === spec)?.count || 0;
 
   if (user?.role !== 'patient') {
     return (
@@ -118,7 +141,7 @@ const FindNursesPage = () => {
                 id="search"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search by name or bio..."
+                placeholder="Search by name, skill or bio..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -133,12 +156,11 @@ const FindNursesPage = () => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">All Specializations</option>
-                <option value="elderly_care">Elderly Care</option>
-                <option value="pediatric">Pediatric</option>
-                <option value="wound_care">Wound Care</option>
-                <option value="medication_management">Medication Management</option>
-                <option value="post_surgical">Post-Surgical Care</option>
-                <option value="chronic_disease">Chronic Disease Management</option>
+                {SPECIALIZATIONS.map(spec => (
+                  <option key={spec.value} value={spec.value}>
+                    {spec.label} ({getFacetCount(spec.value)})
+                  </option>
+                ))}
               </select>
             </div>
             <div>
@@ -162,7 +184,7 @@ const FindNursesPage = () => {
             error={error}
             className="mb-6"
             onDismiss={() => setError(null)}
-            onRetry={loadNurses}
+            onRetry={() => loadNurses()}
           />
         )}
 
@@ -170,7 +192,7 @@ const FindNursesPage = () => {
           <div className="flex justify-center items-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
-        ) : filteredNurses.length === 0 ? (
+        ) : nurses.length === 0 ? (
           <div className="text-center py-12">
             <svg className="w-16 h-16 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -198,8 +220,8 @@ const FindNursesPage = () => {
           </div>
         ) : (
           <div className="grid gap-6">
-            {filteredNurses.map((nurse) => (
-              <div key={nurse._id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            {nurses.map((nurse) => (
+              <div key={nurse.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <div className="flex justify-between items-start mb-4">
                   <div className="flex items-start space-x-4">
                     <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
@@ -209,8 +231,8 @@ const FindNursesPage = () => {
                     </div>
                     <div>
                       <h3 className="text-lg font-semibold text-gray-900">{nurse.name}</h3>
-                      <p className="text-gray-600">{nurse.profile?.bio || 'Professional nurse'}</p>
-                      {nurse.rating && (
+                      <p className="text-gray-600">{nurse.bio || 'Professional nurse'}</p>
+                      {nurse.rating > 0 && (
                         <div className="flex items-center mt-1">
                           <StarRating rating={nurse.rating} readonly size="sm" />
                           <span className="text-sm text-gray-600 ml-2">
@@ -221,9 +243,9 @@ const FindNursesPage = () => {
                     </div>
                   </div>
                   <div className="text-right">
-                    {nurse.profile?.hourlyRate && (
+                    {nurse.hourlyRate && (
                       <div className="text-lg font-semibold text-green-600">
-                        ${nurse.profile.hourlyRate}/hr
+                        ${nurse.hourlyRate}/hr
                       </div>
                     )}
                     <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
@@ -236,25 +258,21 @@ const FindNursesPage = () => {
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Specializations</h4>
                     <div className="flex flex-wrap gap-2">
-                      {nurse.profile?.specializations?.map((spec, index) => (
+                      {nurse.specializations.length > 0 ? nurse.specializations.map((spec, index) => (
                         <span
                           key={index}
                           className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full"
                         >
-                          {spec.replace('_', ' ')}
+                          {getSpecializationLabel(spec)}
                         </span>
-                      )) || <span className="text-sm text-gray-500">Not specified</span>}
+                      )) : <span className="text-sm text-gray-500">Not specified</span>}
                     </div>
                   </div>
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Experience & Location</h4>
                     <div className="text-sm text-gray-600 space-y-1">
-                      <p><span className="font-medium">Experience:</span> {nurse.profile?.experience || 'Not specified'} years</p>
-                      <p><span className="font-medium">Location:</span> {
-                        nurse.profile?.location 
-                          ? `${nurse.profile.location.city}, ${nurse.profile.location.state}`
-                          : 'Not specified'
-                      }</p>
+                      <p><span className="font-medium">Experience:</span> {nurse.yearsOfExperience || 'Not specified'} years</p>
+                      <p><span className="font-medium">Location:</span> {nurse.address || 'Not specified'}</p>
                     </div>
                   </div>
                 </div>
@@ -275,16 +293,7 @@ const FindNursesPage = () => {
                       View Profile
                     </button>
                     <a
-                      href={`tel:${nurse.phone}`}
-                      className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-                    >
-                      <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-                      </svg>
-                      Contact
-                    </a>
-                    <a
-                      href={`/create-request?nurse=${nurse._id}`}
+                      href={`/create-request?nurse=${nurse.id}`}
                       className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
                     >
                       <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -300,9 +309,21 @@ const FindNursesPage = () => {
         )}
 
         {/* Results Summary */}
-        {!loading && filteredNurses.length > 0 && (
+        {!loading && nurses.length > 0 && (
           <div className="mt-6 text-center text-sm text-gray-600">
-            Showing {filteredNurses.length} of {nurses.length} available nurses
+            Showing {nurses.length} of {total} available nurses
+            {nextCursor && (
+              <div className="mt-3">
+                <button
+                  type="button"
+                  onClick={() => loadNurses(nextCursor)}
+                  disabled={loadingMore}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load More'}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -328,7 +349,7 @@ const FindNursesPage = () => {
 
               <div className="max-h-96 overflow-y-auto">
                 <UserRatingDisplay
-                  userId={selectedNurse._id}
+                  userId={selectedNurse.id}
                   userName={selectedNurse.name}
                   userRole="nurse"
                   showReviews={true}
@@ -338,16 +359,7 @@ const FindNursesPage = () => {
 
               <div className="mt-6 flex justify-end space-x-3">
                 <a
-                  href={`tel:${selectedNurse.phone}`}
-                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-                >
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-                  </svg>
-                  Contact
-                </a>
-                <a
-                  href={`/create-request?nurse=${selectedNurse._id}`}
+                  href={`/create-request?nurse=${selectedNurse.id}`}
                   className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
                 >
                   <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
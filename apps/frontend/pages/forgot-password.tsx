@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { useState } from 'react';
+import { apiService } from '../lib/api';
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const result = unwrap(await apiService.forgotPassword(email));
+      setMessage(result?.message || 'If an account exists for this email, a password reset link has been sent.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to request a password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-r from-blue-400 via-white-500 to-white-500 p-4">
+      <div className="w-full max-w-md bg-white/80 backdrop-blur-md rounded-xl shadow-2xl p-8">
+        <h2 className="text-3xl font-bold text-purple-700 text-center mb-2">Forgot Password</h2>
+        <p className="text-sm text-gray-600 text-center mb-6">
+          Enter the email you registered with and we'll send you a link to reset your password.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 block w-full border-b border-purple-300 focus:border-purple-500 focus:outline-none text-lg text-gray-800 placeholder-gray-400"
+              required
+              placeholder="Enter your email"
+            />
+          </div>
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3">
+              <p className="text-green-700 text-sm font-medium">{message}</p>
+            </div>
+          )}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-700 text-sm font-medium">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-blue-600 to-purple-700 text-white py-2 px-4 rounded-full hover:bg-purple-800 text-lg font-semibold disabled:opacity-50"
+          >
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+
+          <p className="text-sm text-gray-600 text-center">
+            Remembered it? <Link href="/login" className="text-purple-600 hover:text-purple-800 font-medium">Back to Login</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
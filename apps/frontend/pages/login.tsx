@@ -104,6 +104,14 @@ export default function Login() {
                   <p className="text-red-700 text-sm font-medium">{error}</p>
                 </div>
               )}
+              {error.toLowerCase().includes('verify your email') && (
+                <p className="text-sm text-gray-600 text-center">
+                  Didn't get the email?{' '}
+                  <Link href={`/auth/verify-email?email=${encodeURIComponent(email)}`} className="text-purple-600 hover:text-purple-800 font-medium">
+                    Resend verification link
+                  </Link>
+                </p>
+              )}
               <p className="text-sm text-gray-600 text-center">Don’t have an account? <Link href="/register" className="text-purple-600 hover:text-purple-800">Register</Link></p>
               <button
                 type="submit"
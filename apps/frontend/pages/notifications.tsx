@@ -174,6 +174,8 @@ export default function NotificationsPage() {
         return '❌';
       case 'request_application':
         return '👩‍⚕️';
+      case 'request_invitation':
+        return '📨';
       case 'request_accepted':
         return '✅';
       case 'request_rejected':
@@ -17,10 +17,10 @@ const SPECIALIZATIONS = [
 
 const EXPERIENCE_LEVELS = [
   { value: '', label: 'Any Experience' },
-  { value: '1-3', label: '1-3 years' },
-  { value: '4-7', label: '4-7 years' },
-  { value: '8-15', label: '8-15 years' },
-  { value: '15+', label: '15+ years' },
+  { value: '1', label: '1+ years' },
+  { value: '4', label: '4+ years' },
+  { value: '8', label: '8+ years' },
+  { value: '15', label: '15+ years' },
 ];
 
 const RATING_LEVELS = [
@@ -34,15 +34,12 @@ const RATING_LEVELS = [
 interface Nurse {
   id: string;
   name: string;
-  email: string;
-  phone: string;
   location: {
     type: string;
     coordinates: [number, number];
   };
   address: string;
   profileImage?: string;
-  licenseNumber: string;
   yearsOfExperience: number;
   specializations: string[];
   rating: number;
@@ -52,23 +49,30 @@ interface Nurse {
   bio: string;
   languages: string[];
   isAvailable: boolean;
+  distance?: number;
   education?: string;
   certifications?: string[];
 }
 
+interface SearchFacet {
+  value: string;
+  label: string;
+  count: number;
+}
+
 export default function FindNurses() {
   console.log('FindNurses component rendering...');
   const { user } = useAuth();
   const [nurses, setNurses] = useState<Nurse[]>([]);
-  const [filteredNurses, setFilteredNurses] = useState<Nurse[]>([]);
+  const [totalNurses, setTotalNurses] = useState(0);
+  const [specializationFacets, setSpecializationFacets] = useState<SearchFacet[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [debugInfo, setDebugInfo] = useState('Component initialized');
   const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
   const nursesPerPage = 8;
-  const totalPages = Math.ceil(filteredNurses.length / nursesPerPage);
-  const paginatedNurses = filteredNurses.slice((currentPage - 1) * nursesPerPage, currentPage * nursesPerPage);
 
   const [filters, setFilters] = useState({
     latitude: 30.033,
@@ -91,83 +95,36 @@ export default function FindNurses() {
     }
   }, [user]);
 
-  // Separate useEffect for initial search
+  // Filters and paging are applied by the search API; typing is debounced
   useEffect(() => {
-    console.log('Initial search triggered on component mount');
-    console.log('Current filters:', filters);
-    setDebugInfo('useEffect triggered, calling searchNurses...');
-    searchNurses();
-  }, []); // Only run once on mount
-
-  useEffect(() => {
-    // Apply client-side filtering
-    let filtered = nurses;
-    console.log('Applying filters to nurses:', nurses.length, 'nurses');
-
-    // Search by name
-    if (searchTerm) {
-      filtered = filtered.filter(nurse =>
-        nurse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        nurse.specializations.some(spec =>
-          spec.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      );
-      console.log('After search filter:', filtered.length, 'nurses');
-    }
-
-    // Filter by experience
-    if (filters.experience) {
-      filtered = filtered.filter(nurse => {
-        const exp = nurse.yearsOfExperience;
-        switch (filters.experience) {
-          case '1-3': return exp >= 1 && exp <= 3;
-          case '4-7': return exp >= 4 && exp <= 7;
-          case '8-15': return exp >= 8 && exp <= 15;
-          case '15+': return exp >= 15;
-          default: return true;
-        }
-      });
-      console.log('After experience filter:', filtered.length, 'nurses');
-    }
-
-    // Filter by rating
-    if (filters.rating) {
-      const minRating = parseFloat(filters.rating);
-      filtered = filtered.filter(nurse => nurse.rating >= minRating);
-      console.log('After rating filter:', filtered.length, 'nurses');
-    }
-
-    // Filter by availability
-    if (filters.availability !== 'all') {
-      filtered = filtered.filter(nurse =>
-        filters.availability === 'available' ? nurse.isAvailable : !nurse.isAvailable
-      );
-      console.log('After availability filter:', filtered.length, 'nurses');
-    }
-
-    console.log('Final filtered nurses:', filtered.length);
-    setFilteredNurses(filtered);
-  }, [nurses, searchTerm, filters.experience, filters.rating, filters.availability]);
-
-  useEffect(() => {
-    setCurrentPage(1); // Reset to first page on filter/search change
-  }, [filteredNurses.length]);
+    const timeout = setTimeout(() => searchNurses(), searchTerm ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, currentPage, filters]);
 
   const searchNurses = async () => {
     try {
       setLoading(true);
       setError('');
       setDebugInfo('Starting API call...');
-      console.log('Searching nurses with filters:', filters);
-      const data = await apiService.getNearbyNurses({
+      const data: any = await apiService.searchNurses({
+        q: searchTerm.trim() || undefined,
         latitude: filters.latitude,
         longitude: filters.longitude,
         radius: filters.radius,
         specializations: filters.specializations.length > 0 ? filters.specializations : undefined,
+        minExperience: filters.experience ? parseInt(filters.experience, 10) : undefined,
+        minRating: filters.rating ? parseFloat(filters.rating) : undefined,
+        availableOnly: filters.availability === 'available' || undefined,
+        sortBy: 'rating',
+        sortOrder: 'desc',
+        page: currentPage,
+        limit: nursesPerPage,
       });
-      console.log('Received nurse data:', data);
-      setDebugInfo(`Received ${Array.isArray(data) ? data.length : 'invalid'} nurses`);
-      setNurses(data as Nurse[]);
+      setDebugInfo(`Received ${data?.nurses?.length ?? 'invalid'} nurses`);
+      setNurses((data?.nurses || []) as Nurse[]);
+      setTotalNurses(data?.pagination?.total || 0);
+      setTotalPages(Math.max(1, data?.pagination?.totalPages || 1));
+      setSpecializationFacets(data?.facets?.specializations || []);
     } catch (err: any) {
       console.error('Error searching nurses:', err);
       setError(err.message || 'Failed to search nurses');
@@ -178,10 +135,12 @@ export default function FindNurses() {
   };
 
   const handleFilterChange = (key: string, value: any) => {
+    setCurrentPage(1); // Reset to first page on filter change
     setFilters(prev => ({ ...prev, [key]: value }));
   };
 
   const handleSpecializationToggle = (specialization: string) => {
+    setCurrentPage(1);
     setFilters(prev => ({
       ...prev,
       specializations: prev.specializations.includes(specialization)
@@ -230,7 +189,7 @@ export default function FindNurses() {
               Normally only patients can access this page.
             </p>
             <p className="text-sm text-gray-600 mt-2">Debug Info: {debugInfo}</p>
-            <p className="text-sm text-gray-600">Nurses: {nurses.length}, Filtered: {filteredNurses.length}</p>
+            <p className="text-sm text-gray-600">Nurses: {nurses.length}, Total: {totalNurses}</p>
             <button
               onClick={searchNurses}
               className="mt-2 bg-blue-600 text-white px-4 py-2 rounded-md text-sm"
@@ -253,7 +212,10 @@ export default function FindNurses() {
                       type="text"
                       placeholder="Search"
                       value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
+                      onChange={(e) => {
+                        setCurrentPage(1);
+                        setSearchTerm(e.target.value);
+                      }}
                       className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -287,7 +249,9 @@ export default function FindNurses() {
                     >
                       <option value="">Select</option>
                       {SPECIALIZATIONS.map(spec => (
-                        <option key={spec.value} value={spec.value}>{spec.label}</option>
+                        <option key={spec.value} value={spec.value}>
+                          {spec.label} ({specializationFacets.find(facet => facet.value === spec.value)?.count || 0})
+                        </option>
                       ))}
                     </select>
                   </div>
@@ -313,7 +277,6 @@ export default function FindNurses() {
                     >
                       <option value="all">Select</option>
                       <option value="available">Available</option>
-                      <option value="busy">Busy</option>
                     </select>
                   </div>
 
@@ -393,13 +356,13 @@ export default function FindNurses() {
                 <div className="flex justify-center items-center py-12">
                   <LoadingSpinner />
                 </div>
-              ) : paginatedNurses.length > 0 ? (
+              ) : nurses.length > 0 ? (
                 <div className="space-y-6">
                   <h3 className="text-lg font-semibold text-gray-900">
-                    Found {filteredNurses.length} nurse{filteredNurses.length !== 1 ? 's' : ''} nearby
+                    Found {totalNurses} nurse{totalNurses !== 1 ? 's' : ''} nearby
                   </h3>
                   <div className="space-y-4">
-                    {paginatedNurses.map(nurse => (
+                    {nurses.map(nurse => (
                       <NurseCard key={nurse.id} nurse={nurse} />
                     ))}
                   </div>
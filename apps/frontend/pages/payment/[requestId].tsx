@@ -26,6 +26,12 @@ interface Request {
   };
 }
 
+const PROVIDER_LABELS: Record<string, string> = {
+  stripe: 'Card',
+  cash: 'Cash on visit',
+  wallet: 'Wallet',
+};
+
 export default function PaymentPage() {
   const router = useRouter();
   const { requestId } = router.query;
@@ -34,6 +40,11 @@ export default function PaymentPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const [hold, setHold] = useState<any>(null);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [switching, setSwitching] = useState(false);
+  const [paying, setPaying] = useState(false);
 
   useEffect(() => {
     if (requestId && !authLoading) {
@@ -46,6 +57,18 @@ export default function PaymentPage() {
       setLoading(true);
       const response = await apiService.getRequestById(requestId as string);
       setRequest(response);
+
+      // Accepted visits are paid into escrow before they take place
+      if (['accepted', 'in_progress'].includes((response as any)?.status)) {
+        const [authorization, available, wallet]: any[] = await Promise.all([
+          apiService.authorizeRequestPayment(requestId as string),
+          apiService.getPaymentProviders(),
+          apiService.getWallet(1, 1),
+        ]);
+        setHold(authorization?.data || null);
+        setProviders((available?.data || []).map((provider: any) => provider.name));
+        setWalletBalance(wallet?.data?.balance ?? 0);
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to load request details');
     } finally {
@@ -53,6 +76,34 @@ export default function PaymentPage() {
     }
   };
 
+  const handleProviderChange = async (provider: string) => {
+    try {
+      setSwitching(true);
+      setError('');
+      const authorization: any = await apiService.authorizeRequestPayment(requestId as string, provider);
+      setHold(authorization?.data || null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the payment method');
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  const handleWalletPayment = async () => {
+    try {
+      setPaying(true);
+      await apiService.confirmPayment({ paymentIntentId: hold.paymentIntentId, requestId: requestId as string });
+      setPaymentSuccess(true);
+      setTimeout(() => {
+        router.push('/requests');
+      }, 3000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to pay from your wallet');
+    } finally {
+      setPaying(false);
+    }
+  };
+
   const handlePaymentSuccess = (paymentId: string) => {
     setPaymentSuccess(true);
     // Optionally redirect after a delay
@@ -138,9 +189,13 @@ export default function PaymentPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
             </div>
-            <h2 className="text-2xl font-semibold text-green-800 mb-2">Payment Successful!</h2>
+            <h2 className="text-2xl font-semibold text-green-800 mb-2">{hold ? 'Payment Authorized!' : 'Payment Successful!'}</h2>
             <p className="text-green-600 mb-4">
-              Your payment has been processed successfully. The nurse will receive their payment shortly.
+              {hold?.provider === 'wallet'
+                ? 'The amount is reserved in your wallet and will only be paid once you and the nurse confirm the visit.'
+                : hold
+                ? 'The amount is held on your card and will only be charged once you and the nurse confirm the visit.'
+                : 'Your payment has been processed successfully. The nurse will receive their payment shortly.'}
             </p>
             <p className="text-sm text-gray-600 mb-6">
               You will be redirected to your requests page in a few seconds...
@@ -157,8 +212,29 @@ export default function PaymentPage() {
     );
   }
 
-  // Convert budget to smallest currency unit (piastres)
-  const amountInPiastres = Math.round(request.budget * 100);
+  // Convert budget to smallest currency unit (piastres); escrow holds use the accepted offer price
+  const amountInPiastres = hold ? hold.amount : Math.round(request.budget * 100);
+
+  if (hold?.status === 'authorized') {
+    return (
+      <Layout title="Payment">
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-blue-50 border border-blue-200 rounded-md p-6 text-center">
+            <h2 className="text-xl font-semibold text-blue-800 mb-2">Payment already authorized</h2>
+            <p className="text-blue-700 mb-4">
+              EGP {(hold.amount / 100).toFixed(2)} is held {hold.provider === 'wallet' ? 'in your wallet' : 'on your card'} for this visit. It will be charged once the visit is confirmed.
+            </p>
+            <button
+              onClick={() => router.push(`/requests/${request.id}`)}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700"
+            >
+              Back to Request
+            </button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
 
   return (
     <Layout title="Payment">
@@ -192,12 +268,67 @@ export default function PaymentPage() {
             <div className="border-t pt-3">
               <div className="flex justify-between text-lg font-semibold">
                 <span>Total Amount:</span>
-                <span>EGP {request.budget.toFixed(2)}</span>
+                <span>EGP {(amountInPiastres / 100).toFixed(2)}</span>
               </div>
             </div>
           </div>
         </div>
 
+        {hold && providers.length > 1 && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">How would you like to pay?</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {providers.map(provider => (
+                <button
+                  key={provider}
+                  onClick={() => handleProviderChange(provider)}
+                  disabled={switching || hold.provider === provider}
+                  className={`px-4 py-3 rounded-md border text-sm font-medium ${
+                    hold.provider === provider
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                  }`}
+                >
+                  {PROVIDER_LABELS[provider] || provider}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {hold?.provider === 'cash' ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Cash on visit</h2>
+            <p className="text-gray-600 mb-6">
+              Please have EGP {(amountInPiastres / 100).toFixed(2)} ready for {request.nurse.name}. The nurse confirms the payment when they check out.
+            </p>
+            <button
+              onClick={() => router.push(`/requests/${request.id}`)}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700"
+            >
+              Back to Request
+            </button>
+          </div>
+        ) : hold?.provider === 'wallet' ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Pay from wallet</h2>
+            <p className="text-gray-600 mb-6">
+              Wallet balance: EGP {((walletBalance ?? 0) / 100).toFixed(2)}.
+              {' '}The amount is reserved now and only paid once the visit is confirmed.
+            </p>
+            {(walletBalance ?? 0) < amountInPiastres && (
+              <p className="text-sm text-red-600 mb-4">Your wallet balance is too low for this visit. Choose another payment method.</p>
+            )}
+            <button
+              onClick={handleWalletPayment}
+              disabled={paying || (walletBalance ?? 0) < amountInPiastres}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {paying ? 'Reserving...' : `Reserve EGP ${(amountInPiastres / 100).toFixed(2)}`}
+            </button>
+          </div>
+        ) : (
+        <>
         {/* Payment Form */}
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-6">Payment Information</h2>
@@ -208,6 +339,11 @@ export default function PaymentPage() {
             description={`Payment for ${request.title} - ${request.serviceType}`}
             onSuccess={handlePaymentSuccess}
             onError={handlePaymentError}
+            hold={hold?.clientSecret ? {
+              clientSecret: hold.clientSecret,
+              paymentIntentId: hold.paymentIntentId,
+              platformFee: hold.platformFee,
+            } : undefined}
           />
         </div>
 
@@ -225,6 +361,8 @@ export default function PaymentPage() {
             </div>
           </div>
         </div>
+        </>
+        )}
       </div>
     </Layout>
   );
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '../lib/auth';
 import { apiService } from '../lib/api';
 import CommonLayout from '../components/CommonLayout';
+import NurseEarnings from '../components/NurseEarnings';
 import ErrorDisplay from '../components/ErrorDisplay';
 import { CustomError } from '../lib/errors';
 import { errorHandler } from '../lib/errorHandler';
@@ -10,7 +11,7 @@ interface Payment {
   _id: string;
   requestId: string;
   amount: number;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
   type: 'payment' | 'payout';
   description: string;
   createdAt: string;
@@ -27,15 +28,30 @@ interface Payment {
   };
 }
 
+// Payment records use the API statuses; holds still waiting on the visit count as pending
+const PAYMENT_STATUSES: Record<string, Payment['status']> = {
+  pending: 'pending',
+  processing: 'pending',
+  authorized: 'pending',
+  completed: 'completed',
+  refunded: 'refunded',
+  failed: 'failed',
+};
+
+const unwrap = (response: any) => response?.data ?? response;
+
 const PaymentsPage = () => {
   const { user } = useAuth();
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<CustomError | null>(null);
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed' | 'failed'>('all');
+  const [statementYear, setStatementYear] = useState(new Date().getFullYear());
+  const [downloading, setDownloading] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user) {
+    // Nurses see their ledger instead (NurseEarnings loads its own data)
+    if (user && user.role !== 'nurse') {
       loadPayments();
     }
   }, [user]);
@@ -45,34 +61,23 @@ const PaymentsPage = () => {
       setLoading(true);
       setError(null);
 
-      // Get completed requests to simulate payment data
-      const requests = await apiService.getRequests();
-      const userRequests = requests.filter((request: any) => {
-        if (user?.role === 'patient') {
-          return request.patient?._id === user.id;
-        } else if (user?.role === 'nurse') {
-          return request.nurse?._id === user.id;
-        }
-        return false;
-      });
-
-      // Convert requests to payment records
-      const paymentRecords: Payment[] = userRequests
-        .filter((request: any) => request.status === 'completed')
-        .map((request: any) => ({
-          _id: `payment_${request._id}`,
-          requestId: request._id,
-          amount: request.budget,
-          status: 'completed' as const,
-          type: user?.role === 'patient' ? 'payment' as const : 'payout' as const,
-          description: `${user?.role === 'patient' ? 'Payment for' : 'Payout from'} "${request.title}"`,
-          createdAt: request.createdAt,
-          completedAt: request.completedAt || request.createdAt,
+      const history = unwrap(await apiService.getPaymentHistory(1, 100));
+      const paymentRecords: Payment[] = (history?.payments || [])
+        .filter((payment: any) => PAYMENT_STATUSES[payment.status])
+        .map((payment: any) => ({
+          _id: payment._id,
+          requestId: payment.requestId?._id || payment.requestId,
+          amount: (payment.amount || 0) / 100,
+          status: PAYMENT_STATUSES[payment.status],
+          type: 'payment' as const,
+          description: `Payment for "${payment.requestId?.title || 'a visit'}"`,
+          createdAt: payment.createdAt,
+          completedAt: payment.processedAt,
           request: {
-            _id: request._id,
-            title: request.title,
-            patient: request.patient,
-            nurse: request.nurse
+            _id: payment.requestId?._id || payment.requestId,
+            title: payment.requestId?.title || '',
+            patient: payment.patientId,
+            nurse: payment.nurseId
           }
         }));
 
@@ -86,6 +91,29 @@ const PaymentsPage = () => {
     }
   };
 
+  const downloadPdf = async (getUrl: () => Promise<string>, filename: string) => {
+    try {
+      setDownloading(filename);
+      const url = await getUrl();
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Failed to download PDF:', err);
+      setError(errorHandler.handleError(err));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadInvoice = (paymentId: string, lang: 'en' | 'ar') =>
+    downloadPdf(() => apiService.getInvoicePdfUrl(paymentId, lang), `invoice-${paymentId}${lang === 'ar' ? '-ar' : ''}.pdf`);
+
+  const handleDownloadStatement = (lang: 'en' | 'ar') =>
+    downloadPdf(() => apiService.getYearlyStatementPdfUrl(statementYear, lang), `statement-${statementYear}${lang === 'ar' ? '-ar' : ''}.pdf`);
+
   const filteredPayments = payments.filter(payment => {
     if (filter === 'all') return true;
     return payment.status === filter;
@@ -96,6 +124,7 @@ const PaymentsPage = () => {
       case 'completed': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'failed': return 'bg-red-100 text-red-800';
+      case 'refunded': return 'bg-blue-100 text-blue-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -139,6 +168,20 @@ const PaymentsPage = () => {
     });
   };
 
+  if (user?.role === 'nurse') {
+    return (
+      <CommonLayout activeItem="payments" allowedRoles={['patient', 'nurse']}>
+        <div className="p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Earnings & Payouts</h1>
+            <p className="text-gray-600 mt-2">Your balance, earnings ledger and withdrawals</p>
+          </div>
+          <NurseEarnings />
+        </div>
+      </CommonLayout>
+    );
+  }
+
   return (
     <CommonLayout activeItem="payments" allowedRoles={['patient', 'nurse']}>
       <div className="p-6">
@@ -167,7 +210,7 @@ const PaymentsPage = () => {
                 <p className="text-sm font-medium text-gray-600">
                   {user?.role === 'patient' ? 'Total Paid' : 'Total Earned'}
                 </p>
-                <p className="text-2xl font-bold text-gray-900">${completedAmount.toLocaleString()}</p>
+                <p className="text-2xl font-bold text-gray-900">EGP {completedAmount.toLocaleString()}</p>
               </div>
             </div>
           </div>
@@ -181,7 +224,7 @@ const PaymentsPage = () => {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Pending</p>
-                <p className="text-2xl font-bold text-gray-900">${pendingAmount.toLocaleString()}</p>
+                <p className="text-2xl font-bold text-gray-900">EGP {pendingAmount.toLocaleString()}</p>
               </div>
             </div>
           </div>
@@ -201,6 +244,45 @@ const PaymentsPage = () => {
           </div>
         </div>
 
+        {user?.role === 'patient' && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Yearly statement</h3>
+                <p className="text-sm text-gray-600">All invoices of a year in one PDF, for insurance claims</p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={statementYear}
+                  onChange={(e) => setStatementYear(Number(e.target.value))}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                >
+                  {[0, 1, 2, 3, 4].map((offset) => {
+                    const year = new Date().getFullYear() - offset;
+                    return <option key={year} value={year}>{year}</option>;
+                  })}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadStatement('en')}
+                  disabled={downloading !== null}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Download (EN)
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadStatement('ar')}
+                  disabled={downloading !== null}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-blue-600 border border-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                >
+                  تنزيل (AR)
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Filter Tabs */}
         <div className="mb-6">
           <div className="border-b border-gray-200">
@@ -299,8 +381,28 @@ const PaymentsPage = () => {
                         <p className={`text-lg font-semibold ${
                           payment.type === 'payment' ? 'text-red-600' : 'text-green-600'
                         }`}>
-                          {payment.type === 'payment' ? '-' : '+'}${payment.amount.toLocaleString()}
+                          {payment.type === 'payment' ? '-' : '+'}EGP {payment.amount.toLocaleString()}
                         </p>
+                        {(payment.status === 'completed' || payment.status === 'refunded') && (
+                          <p className="text-xs space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => handleDownloadInvoice(payment._id, 'en')}
+                              disabled={downloading !== null}
+                              className="text-blue-600 hover:underline disabled:opacity-50"
+                            >
+                              Invoice (EN)
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDownloadInvoice(payment._id, 'ar')}
+                              disabled={downloading !== null}
+                              className="text-blue-600 hover:underline disabled:opacity-50"
+                            >
+                              فاتورة (AR)
+                            </button>
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
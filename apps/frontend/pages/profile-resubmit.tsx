@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { useAuth } from '../lib/auth';
+import { apiService } from '../lib/api';
+import { getProfileField, formatProfileValue } from '../lib/profileFields';
+
+interface FlaggedItem {
+  field: string;
+  message: string;
+  currentValue?: any;
+}
+
+interface RequestedChanges {
+  version: number;
+  rejectionReason?: string;
+  feedback: FlaggedItem[];
+}
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function ProfileResubmit() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [changes, setChanges] = useState<RequestedChanges | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<Record<string, File[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    if (user.role !== 'nurse') {
+      router.replace('/dashboard');
+      return;
+    }
+    loadChanges();
+  }, [user]);
+
+  const loadChanges = async () => {
+    try {
+      setLoading(true);
+      const result: RequestedChanges = unwrap(await apiService.getRequestedProfileChanges());
+      setChanges(result);
+
+      // Start text fields from what was submitted, so small fixes don't need retyping
+      const initial: Record<string, string> = {};
+      result.feedback.forEach(item => {
+        const kind = getProfileField(item.field).kind;
+        if (kind === 'date' && item.currentValue) {
+          initial[item.field] = String(item.currentValue).slice(0, 10);
+        } else if (kind === 'list' && Array.isArray(item.currentValue)) {
+          initial[item.field] = item.currentValue.join(', ');
+        } else if (kind === 'text' || kind === 'email') {
+          initial[item.field] = item.currentValue || '';
+        }
+      });
+      setValues(initial);
+    } catch (err: any) {
+      setError(err.message || 'No changes have been requested on your profile');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changes) return;
+
+    const formData = new FormData();
+    for (const item of changes.feedback) {
+      const kind = getProfileField(item.field).kind;
+      if (kind === 'document' || kind === 'documents') {
+        const selected = files[item.field] || [];
+        if (selected.length === 0) {
+          setError(`Upload a new file for ${getProfileField(item.field).label}`);
+          return;
+        }
+        selected.forEach(file => formData.append(item.field, file));
+      } else {
+        if (!values[item.field]?.trim()) {
+          setError(`Fill in ${getProfileField(item.field).label}`);
+          return;
+        }
+        formData.append(item.field, values[item.field].trim());
+      }
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      await apiService.resubmitNurseProfile(formData);
+      router.push('/verification-pending');
+    } catch (err: any) {
+      setError(err.message || 'Failed to resubmit your profile');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-extrabold text-gray-900">Fix and Resubmit</h1>
+        <p className="mt-2 text-sm text-gray-600">
+          Update the items the reviewer flagged. The rest of your application stays as it is.
+        </p>
+
+        {error && <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !changes ? (
+          <p className="mt-6 text-sm text-gray-600">
+            <Link href="/account-rejected" className="text-blue-600 hover:text-blue-800">Back</Link>
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-6 bg-white shadow rounded-lg p-6 space-y-6">
+            {changes.rejectionReason && (
+              <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded-md">{changes.rejectionReason}</p>
+            )}
+
+            {changes.feedback.map(item => {
+              const info = getProfileField(item.field);
+              return (
+                <div key={item.field} className="border-l-4 border-orange-400 pl-4">
+                  <label className="block text-sm font-medium text-gray-900">{info.label}</label>
+                  <p className="text-sm text-orange-700">{item.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">Submitted: {formatProfileValue(item.field, item.currentValue)}</p>
+
+                  {info.kind === 'document' || info.kind === 'documents' ? (
+                    <input
+                      type="file"
+                      accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                      multiple={info.kind === 'documents'}
+                      onChange={e => setFiles({ ...files, [item.field]: Array.from(e.target.files || []) })}
+                      className="mt-2 block w-full text-sm"
+                    />
+                  ) : (
+                    <input
+                      type={info.kind === 'date' ? 'date' : info.kind === 'email' ? 'email' : 'text'}
+                      value={values[item.field] || ''}
+                      onChange={e => setValues({ ...values, [item.field]: e.target.value })}
+                      placeholder={info.kind === 'list' ? 'Comma-separated' : undefined}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? 'Resubmitting…' : 'Resubmit for Review'}
+              </button>
+              <Link href="/account-rejected" className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                Cancel
+              </Link>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useAuth, User } from '../lib/auth';
 import CommonLayout from '../components/CommonLayout';
 import UserRatingDisplay from '../components/UserRatingDisplay';
+import CredentialStatus from '../components/CredentialStatus';
 import { apiService } from '../lib/api';
 
 // Helper components
@@ -453,6 +454,13 @@ export default function Profile() {
                 </div>
               </Card>
             )}
+
+            {user.role === 'nurse' && (
+              <Card className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">License & Certification</h3>
+                <CredentialStatus />
+              </Card>
+            )}
           </div>
         )}
 
@@ -95,18 +95,8 @@ export default function Register() {
 			const response: any = await apiService.register(registerData);
 			console.log('Registration response:', response);
 
-			// The backend returns: { success: true, data: { access_token: "...", user: {...} } }
-			let token: string;
-			if (response.data && response.data.access_token) {
-				token = response.data.access_token;
-			} else if (response.access_token) {
-				token = response.access_token;
-			} else {
-				throw new Error('No token received from registration');
-			}
-
-			localStorage.setItem('token', token);
-			router.push('/dashboard');
+			// No token is issued until the email address is verified
+			router.push(`/auth/verify-email?email=${encodeURIComponent(email)}`);
 		} catch (err: any) {
 			setError(err.message || 'Registration failed');
 		} finally {
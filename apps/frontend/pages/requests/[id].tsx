@@ -5,6 +5,8 @@ import { Card, LoadingSpinner, StatusBadge } from '../../components/Layout';
 import PatientLayout from '../../components/PatientLayout';
 import { apiService } from '../../lib/api';
 import ImageGallery from '../../components/ImageGallery';
+import RequestChat from '../../components/RequestChat';
+import NurseMatches from '../../components/NurseMatches';
 
 interface RequestDetails {
   id: string;
@@ -21,10 +23,13 @@ interface RequestDetails {
   estimatedDuration: number;
   urgencyLevel: string;
   specialRequirements?: string;
+  preferredLanguages?: string[];
   budget: number;
   contactPhone: string;
   notes?: string;
   cancellationReason?: string;
+  cancellationRefundAmount?: number;
+  cancellationNurseCompensation?: number;
   createdAt: string;
   updatedAt: string;
   patient: {
@@ -43,6 +48,12 @@ interface RequestDetails {
   };
 }
 
+const PROVIDER_LABELS: Record<string, string> = {
+  stripe: 'Card',
+  cash: 'Cash on visit',
+  wallet: 'Wallet',
+};
+
 export default function RequestDetails() {
   const router = useRouter();
   const { id } = router.query;
@@ -51,6 +62,7 @@ export default function RequestDetails() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [updating, setUpdating] = useState(false);
+  const [payment, setPayment] = useState<any>(null);
 
   useEffect(() => {
     if (id && user) {
@@ -69,6 +81,7 @@ export default function RequestDetails() {
       console.log('🔍 Request data:', requestData);
 
       setRequest(requestData as RequestDetails);
+      loadPayment();
     } catch (err: any) {
       console.error('❌ Error loading request:', err);
       setError(err.message || 'Failed to load request details');
@@ -77,6 +90,45 @@ export default function RequestDetails() {
     }
   };
 
+  const loadPayment = async () => {
+    try {
+      const response: any = await apiService.getRequestPayment(id as string);
+      setPayment(response?.data || null);
+    } catch (err) {
+      // The payment card is informational; the page still works without it
+      console.error('❌ Error loading payment:', err);
+    }
+  };
+
+  const handleOpenDispute = async () => {
+    const reason = prompt('Describe the problem with this visit (at least 10 characters):');
+    if (!reason) return;
+
+    try {
+      setUpdating(true);
+      await apiService.openPaymentDispute(request!.id, reason);
+      await loadPayment();
+    } catch (err: any) {
+      setError(err.message || 'Failed to report the problem');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleConfirmCash = async () => {
+    if (!confirm(`Confirm that you collected EGP ${(payment.amount / 100).toFixed(2)} in cash from the patient?`)) return;
+
+    try {
+      setUpdating(true);
+      await apiService.confirmCashCollection(request!.id);
+      await loadPayment();
+    } catch (err: any) {
+      setError(err.message || 'Failed to confirm the cash payment');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   const handleStatusUpdate = async (newStatus: string, cancellationReason?: string) => {
     try {
       setUpdating(true);
@@ -89,6 +141,40 @@ export default function RequestDetails() {
     }
   };
 
+  // Shows what the cancellation policy does with the payment before the patient commits to it
+  const handleCancel = async () => {
+    const reason = prompt('Please provide a cancellation reason:');
+    if (!reason) return;
+
+    try {
+      setUpdating(true);
+      const response: any = await apiService.getCancellationQuote(request!.id);
+      const quote = response?.data ?? response;
+      const egp = (amount: number) => `EGP ${(amount / 100).toFixed(2)}`;
+
+      const message = quote?.paidAmount > 0
+        ? [
+          `Cancelling now (${quote.hoursBeforeVisit} hours before the visit) falls under "${quote.policy}".`,
+          '',
+          `Refunded to you: ${egp(quote.refundAmount)}`,
+          ...(quote.nurseCompensation > 0 ? [`Nurse compensation: ${egp(quote.nurseCompensation)}`] : []),
+          ...(quote.platformAmount > 0 ? [`Platform fee: ${egp(quote.platformAmount)}`] : []),
+          '',
+          'Cancel this request?',
+        ].join('\n')
+        : 'No payment has been taken for this request, so nothing will be charged. Cancel this request?';
+
+      if (!confirm(message)) return;
+
+      await apiService.updateRequestStatus(request!.id, 'cancelled', reason);
+      await loadRequestDetails();
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel the request');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   const getStatusActions = () => {
     if (!request || !user) return [];
 
@@ -124,10 +210,7 @@ export default function RequestDetails() {
       if (['pending', 'accepted'].includes(request.status)) {
         actions.push({
           label: 'Cancel Request',
-          action: () => {
-            const reason = prompt('Please provide a cancellation reason:');
-            if (reason) handleStatusUpdate('cancelled', reason);
-          },
+          action: handleCancel,
           className: 'bg-red-600 hover:bg-red-700',
         });
       }
@@ -241,6 +324,12 @@ export default function RequestDetails() {
                   <p className="text-gray-900">{request.specialRequirements}</p>
                 </div>
               )}
+              {request.preferredLanguages && request.preferredLanguages.length > 0 && (
+                <div>
+                  <span className="font-medium text-gray-500">Preferred Languages:</span>
+                  <p className="text-gray-900">{request.preferredLanguages.join(', ')}</p>
+                </div>
+              )}
               {request.notes && (
                 <div>
                   <span className="font-medium text-gray-500">Additional Notes:</span>
@@ -291,9 +380,86 @@ export default function RequestDetails() {
                 </div>
               </Card>
             )}
+
+            {/* Payment (escrow) */}
+            {request.nurse && (
+              <Card className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment</h3>
+                {!payment ? (
+                  <p className="text-sm text-gray-500">No payment has been set up for this visit yet.</p>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    <p><span className="font-medium text-gray-500">Amount:</span> EGP {(payment.amount / 100).toFixed(2)}</p>
+                    <p><span className="font-medium text-gray-500">Method:</span> {PROVIDER_LABELS[payment.provider] || 'Card'}</p>
+                    {payment.dispute?.status === 'open' ? (
+                      <p className="text-orange-700">
+                        On hold: a problem was reported on {new Date(payment.dispute.openedAt).toLocaleDateString()}. Our team is reviewing it.
+                      </p>
+                    ) : payment.status === 'authorized' ? (
+                      <p className="text-blue-700">
+                        Held in escrow. It is charged once both sides confirm the visit, or automatically {payment.autoConfirmHours} hours after the nurse completes it.
+                      </p>
+                    ) : payment.status === 'completed' ? (
+                      <p className="text-green-700">Paid{payment.processedAt ? ` on ${new Date(payment.processedAt).toLocaleDateString()}` : ''}.</p>
+                    ) : payment.status === 'cancelled' ? (
+                      <p className="text-gray-600">Released{payment.releaseReason ? `: ${payment.releaseReason}` : ''}.</p>
+                    ) : payment.provider === 'cash' ? (
+                      <p className="text-yellow-700">To be paid in cash to the nurse at the visit.</p>
+                    ) : (
+                      <p className="text-yellow-700">Awaiting payment authorization from the patient.</p>
+                    )}
+                    {payment.dispute?.status === 'resolved' && payment.dispute.resolutionNote && (
+                      <p><span className="font-medium text-gray-500">Dispute outcome:</span> {payment.dispute.resolutionNote}</p>
+                    )}
+
+                    {user?.role === 'nurse' && user.id === request.nurse.id && payment.provider === 'cash' && payment.status === 'pending' && (
+                      <button
+                        type="button"
+                        onClick={handleConfirmCash}
+                        disabled={updating}
+                        className="mt-2 w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Confirm cash collected
+                      </button>
+                    )}
+                    {user?.role === 'patient' && ['pending', 'processing'].includes(payment.status) &&
+                      ['accepted', 'in_progress'].includes(request.status) && (
+                      <button
+                        type="button"
+                        onClick={() => router.push(`/payment/${request.id}`)}
+                        className="mt-2 w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+                      >
+                        {payment.provider === 'cash' ? 'Change payment method' : 'Authorize payment'}
+                      </button>
+                    )}
+                    {payment.status === 'authorized' && payment.dispute?.status !== 'open' &&
+                      (user?.id === request.patient?.id || user?.id === request.nurse.id) && (
+                      <button
+                        type="button"
+                        onClick={handleOpenDispute}
+                        disabled={updating}
+                        className="mt-2 w-full px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Report a problem
+                      </button>
+                    )}
+                  </div>
+                )}
+              </Card>
+            )}
           </div>
         </div>
 
+        {/* Matching nurses the patient can invite while the request is open */}
+        {user?.role === 'patient' && user?.id === request.patient?.id && request.status === 'pending' && (
+          <NurseMatches requestId={request.id} />
+        )}
+
+        {/* Messaging (available once a nurse has been assigned) */}
+        {request.nurse && (user?.id === request.patient?.id || user?.id === request.nurse.id) && (
+          <RequestChat requestId={request.id} />
+        )}
+
         {/* Status History */}
         <Card className="p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Request Timeline</h3>
@@ -326,6 +492,12 @@ export default function RequestDetails() {
                 <div>
                   <p className="font-medium">Cancellation Reason</p>
                   <p className="text-sm text-gray-700">{request.cancellationReason}</p>
+                  {request.cancellationRefundAmount !== undefined && (
+                    <p className="text-sm text-gray-500">
+                      Refunded: EGP {(request.cancellationRefundAmount / 100).toFixed(2)}
+                      {!!request.cancellationNurseCompensation && ` · Nurse compensation: EGP ${(request.cancellationNurseCompensation / 100).toFixed(2)}`}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -343,7 +515,7 @@ export default function RequestDetails() {
           </button>
 
           {/* Pay Now Button for completed requests */}
-          {user?.role === 'patient' && request.status === 'completed' && (
+          {user?.role === 'patient' && request.status === 'completed' && (!payment || payment.status === 'failed') && (
             <button
               type="button"
               onClick={() => router.push(`/payment/${request.id}`)}
@@ -23,12 +23,33 @@ const URGENCY_LEVELS = [
   { value: 'critical', label: 'Critical' },
 ];
 
+const SPECIALIZATIONS = [
+  { value: '', label: 'Any qualified nurse' },
+  { value: 'general', label: 'General' },
+  { value: 'pediatric', label: 'Pediatric' },
+  { value: 'geriatric', label: 'Geriatric' },
+  { value: 'icu', label: 'ICU' },
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'surgical', label: 'Surgical' },
+  { value: 'psychiatric', label: 'Psychiatric' },
+  { value: 'oncology', label: 'Oncology' },
+];
+
+const PAYMENT_PROVIDERS = [
+  { value: 'stripe', label: 'Card' },
+  { value: 'cash', label: 'Cash on visit' },
+  { value: 'wallet', label: 'Wallet' },
+];
+
 export default function CreateRequest() {
   const { user } = useAuth();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState('');
+  const [symptoms, setSymptoms] = useState('');
+  const [triaging, setTriaging] = useState(false);
+  const [triage, setTriage] = useState<{ emergency: boolean; escalationMessage?: string; source: string } | null>(null);
 
   const [formData, setFormData] = useState({
     title: '',
@@ -38,8 +59,11 @@ export default function CreateRequest() {
     scheduledDate: '',
     estimatedDuration: '',
     urgencyLevel: 'medium',
+    requiredSpecialization: '',
     specialRequirements: '',
+    preferredLanguages: '',
     budget: '',
+    paymentProvider: 'stripe',
     contactPhone: '',
     notes: '',
     images: [] as Array<{
@@ -64,6 +88,39 @@ export default function CreateRequest() {
     setFormData(prev => ({ ...prev, images }));
   };
 
+  // Fills the form from the patient's own words; every suggested field stays editable
+  const handleSuggestDetails = async () => {
+    if (symptoms.trim().length < 10) {
+      setError('Please describe what you need in at least 10 characters');
+      return;
+    }
+
+    setTriaging(true);
+    setError('');
+    try {
+      const result: any = await apiService.triageRequest(symptoms.trim());
+      if (!result?.data) {
+        throw new Error('Could not suggest details. Please fill in the form yourself.');
+      }
+      const { draft, emergency, escalationMessage, source } = result.data;
+      setFormData(prev => ({
+        ...prev,
+        title: draft.title || prev.title,
+        description: draft.description || prev.description,
+        serviceType: draft.serviceType || prev.serviceType,
+        urgencyLevel: draft.urgencyLevel || prev.urgencyLevel,
+        estimatedDuration: draft.estimatedDuration ? String(draft.estimatedDuration) : prev.estimatedDuration,
+        requiredSpecialization: draft.requiredSpecialization === 'general' ? '' : draft.requiredSpecialization || '',
+        specialRequirements: draft.specialRequirements || prev.specialRequirements,
+      }));
+      setTriage({ emergency, escalationMessage, source });
+    } catch (err: any) {
+      setError(err.message || 'Could not suggest details. Please fill in the form yourself.');
+    } finally {
+      setTriaging(false);
+    }
+  };
+
   const validateForm = () => {
     const errors: string[] = [];
 
@@ -108,6 +165,8 @@ export default function CreateRequest() {
         scheduledDate: new Date(formData.scheduledDate).toISOString(),
         estimatedDuration: parseInt(formData.estimatedDuration) || 1,
         budget: formData.budget ? parseFloat(formData.budget) : undefined,
+        requiredSpecialization: formData.requiredSpecialization || undefined,
+        preferredLanguages: formData.preferredLanguages.split(',').map(language => language.trim()).filter(Boolean),
         contactPhone: formData.contactPhone.trim() || undefined, // Only include if not empty
       };
 
@@ -209,6 +268,47 @@ export default function CreateRequest() {
           </div>
         )}
 
+        {/* Triage: suggest the form fields from a free-text description */}
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Describe what you need (English or Arabic)
+          </label>
+          <textarea
+            value={symptoms}
+            onChange={e => setSymptoms(e.target.value)}
+            rows={3}
+            maxLength={1000}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="e.g., My father had knee surgery and needs his dressing changed every morning. He uses a wheelchair."
+          />
+          <div className="mt-2 flex items-center justify-between">
+            <p className="text-xs text-gray-600">
+              We will suggest the details below. Check and change anything before you submit.
+            </p>
+            <button
+              type="button"
+              onClick={handleSuggestDetails}
+              disabled={triaging}
+              className="px-4 py-2 rounded-md text-white text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {triaging ? 'Suggesting...' : 'Suggest details'}
+            </button>
+          </div>
+
+          {triage && !triage.emergency && (
+            <p className="mt-3 text-sm text-blue-800">
+              Details suggested{triage.source === 'rules' ? ' from keywords in your description' : ''}. Please review them below.
+            </p>
+          )}
+        </div>
+
+        {triage?.emergency && (
+          <div className="mb-6 p-4 bg-red-100 border-2 border-red-500 rounded-md" role="alert">
+            <h3 className="text-base font-bold text-red-800 mb-1">This may be a medical emergency</h3>
+            <p className="text-sm text-red-800">{triage.escalationMessage}</p>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Basic Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -351,6 +451,25 @@ export default function CreateRequest() {
 
           {/* Additional Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Payment Method *
+              </label>
+              <select
+                name="paymentProvider"
+                value={formData.paymentProvider}
+                onChange={handleInputChange}
+                required
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PAYMENT_PROVIDERS.map(provider => (
+                  <option key={provider.value} value={provider.value}>
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Contact Phone (Optional)
@@ -367,6 +486,24 @@ export default function CreateRequest() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Required Specialization
+              </label>
+              <select
+                name="requiredSpecialization"
+                value={formData.requiredSpecialization}
+                onChange={handleInputChange}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SPECIALIZATIONS.map(specialization => (
+                  <option key={specialization.value} value={specialization.value}>
+                    {specialization.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Special Requirements
@@ -382,6 +519,21 @@ export default function CreateRequest() {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Preferred Languages (Optional)
+            </label>
+            <input
+              type="text"
+              name="preferredLanguages"
+              value={formData.preferredLanguages}
+              onChange={handleInputChange}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Arabic, English"
+            />
+            <p className="text-xs text-gray-500 mt-1">Nurses who speak one of these languages are ranked higher in your matches.</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Additional Notes
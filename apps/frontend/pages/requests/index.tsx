@@ -6,6 +6,7 @@ import { apiService } from '../../lib/api';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import PatientLayout from '../../components/PatientLayout';
+import RecommendedRequests from '../../components/RecommendedRequests';
 
 interface Request {
   id: string;
@@ -762,6 +763,9 @@ function RequestsList() {
                   </div>
                 )}
 
+                {/* Nurse View - Recommended Requests */}
+                {user?.role === 'nurse' && user?.status === 'verified' && <RecommendedRequests />}
+
                 {/* Nurse View - Available Requests */}
                 {user?.role === 'nurse' && (
                   <div>
@@ -769,19 +773,20 @@ function RequestsList() {
                     <div className="space-y-4">
                       {availableRequests.length > 0 ? (
                         availableRequests.map(request => (
-                          <RequestCard
-                            key={request.id}
-                            request={request}
-                            onApply={handleApplyToRequest}
-                            onCancel={handleCancelApplication}
-                            formatDate={formatDate}
-                            getPatientImage={getPatientImage}
-                            myApplications={myApplications}
-                            setEditingApplication={setEditingApplication}
-                            onCompleteByNurse={handleCompleteByNurse}
-                            onUpdateApplication={handleUpdateApplication}
-                            user={user}
-                          />
+                          <div key={request.id} id={`request-${request.id}`}>
+                            <RequestCard
+                              request={request}
+                              onApply={handleApplyToRequest}
+                              onCancel={handleCancelApplication}
+                              formatDate={formatDate}
+                              getPatientImage={getPatientImage}
+                              myApplications={myApplications}
+                              setEditingApplication={setEditingApplication}
+                              onCompleteByNurse={handleCompleteByNurse}
+                              onUpdateApplication={handleUpdateApplication}
+                              user={user}
+                            />
+                          </div>
                         ))
                       ) : (
                         <div className="text-center py-8 text-gray-500">
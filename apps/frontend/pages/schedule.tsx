@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import CommonLayout from '../components/CommonLayout';
+import CareCalendar, { CalendarVisit } from '../components/CareCalendar';
+import { apiService } from '../lib/api';
+
+interface WorkingHours {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+interface TimeOff {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const unwrap = (response: any) => response?.data ?? response;
+
+export default function Schedule() {
+  const [workingHours, setWorkingHours] = useState<WorkingHours[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [bufferMinutes, setBufferMinutes] = useState(30);
+  const [timezone, setTimezone] = useState('Africa/Cairo');
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [visits, setVisits] = useState<CalendarVisit[]>([]);
+  const [newTimeOff, setNewTimeOff] = useState({ startsAt: '', endsAt: '', reason: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const applyAvailability = (availability: any) => {
+    setWorkingHours(availability?.workingHours || []);
+    setTimeOff(availability?.timeOff || []);
+    setBufferMinutes(availability?.bufferMinutes ?? 30);
+    setTimezone(availability?.timezone || 'Africa/Cairo');
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        applyAvailability(unwrap(await apiService.getMyAvailability()));
+      } catch (err: any) {
+        setError(err.message || 'Failed to load your schedule');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    const from = new Date(month.getFullYear(), month.getMonth(), 1);
+    const to = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    apiService.getCareCalendar(from.toISOString(), to.toISOString())
+      .then(result => {
+        const data = unwrap(result);
+        setVisits(Array.isArray(data) ? data.filter((visit: CalendarVisit) => visit.status !== 'cancelled') : []);
+      })
+      .catch(() => setVisits([]));
+  }, [month]);
+
+  const updateBlock = (index: number, field: 'startTime' | 'endTime', value: string) => {
+    setWorkingHours(prev => prev.map((block, i) => (i === index ? { ...block, [field]: value } : block)));
+  };
+
+  const addBlock = (dayOfWeek: number) => {
+    setWorkingHours(prev => [...prev, { dayOfWeek, startTime: '09:00', endTime: '17:00' }]);
+  };
+
+  const removeBlock = (index: number) => {
+    setWorkingHours(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSaveSchedule = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+      applyAvailability(unwrap(await apiService.updateAvailabilitySchedule({ workingHours, bufferMinutes, timezone })));
+      setSuccess('Working hours saved');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save working hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddTimeOff = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+      applyAvailability(unwrap(await apiService.addTimeOff({
+        startsAt: new Date(newTimeOff.startsAt).toISOString(),
+        endsAt: new Date(newTimeOff.endsAt).toISOString(),
+        ...(newTimeOff.reason && { reason: newTimeOff.reason }),
+      })));
+      setNewTimeOff({ startsAt: '', endsAt: '', reason: '' });
+      setSuccess('Time off added');
+    } catch (err: any) {
+      setError(err.message || 'Failed to add time off');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveTimeOff = async (id: string) => {
+    try {
+      setSaving(true);
+      setError('');
+      applyAvailability(unwrap(await apiService.removeTimeOff(id)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove time off');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <CommonLayout activeItem="schedule" allowedRoles={['nurse']}>
+      <div className="p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My Schedule</h1>
+            <p className="text-gray-600 mt-1">
+              Patients only find you for visits inside your working hours. Leave every day empty to be bookable at any time.
+            </p>
+          </div>
+
+          {error && <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+          {success && <div className="p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{success}</div>}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Weekly working hours</h2>
+
+                <div className="divide-y divide-gray-100">
+                  {DAY_NAMES.map((dayName, dayOfWeek) => (
+                    <div key={dayName} className="py-3 flex items-start">
+                      <span className="w-32 text-sm font-medium text-gray-700 pt-1">{dayName}</span>
+                      <div className="flex-1 space-y-2">
+                        {workingHours
+                          .map((block, index) => ({ block, index }))
+                          .filter(({ block }) => block.dayOfWeek === dayOfWeek)
+                          .map(({ block, index }) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <input type="time" value={block.startTime} onChange={e => updateBlock(index, 'startTime', e.target.value)} className={inputClass} />
+                              <span className="text-gray-500">–</span>
+                              <input type="time" value={block.endTime} onChange={e => updateBlock(index, 'endTime', e.target.value)} className={inputClass} />
+                              <button type="button" onClick={() => removeBlock(index)} className="text-sm text-red-600 hover:text-red-800">
+                                Remove
+                              </button>
+                            </div>
+                          ))}
+                        <button type="button" onClick={() => addBlock(dayOfWeek)} className="text-sm text-blue-600 hover:text-blue-800">
+                          + Add hours
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <label className="text-sm text-gray-700">
+                    Break between visits (minutes)
+                    <input
+                      type="number"
+                      min={0}
+                      max={240}
+                      value={bufferMinutes}
+                      onChange={e => setBufferMinutes(Number(e.target.value))}
+                      className={`${inputClass} ml-2 w-24`}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Time zone
+                    <input value={timezone} onChange={e => setTimezone(e.target.value)} className={`${inputClass} ml-2`} />
+                  </label>
+                </div>
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    onClick={handleSaveSchedule}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save working hours'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Time off</h2>
+
+                {timeOff.length === 0 ? (
+                  <p className="text-sm text-gray-500 mb-4">No upcoming time off.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 mb-4">
+                    {timeOff.map(block => (
+                      <li key={block.id} className="py-2 flex items-center justify-between">
+                        <span className="text-sm text-gray-700">
+                          {new Date(block.startsAt).toLocaleString()} – {new Date(block.endsAt).toLocaleString()}
+                          {block.reason && <span className="text-gray-500"> · {block.reason}</span>}
+                        </span>
+                        <button
+                          onClick={() => handleRemoveTimeOff(block.id)}
+                          disabled={saving}
+                          className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <form onSubmit={handleAddTimeOff} className="flex flex-wrap items-end gap-3">
+                  <label className="text-sm text-gray-700 flex flex-col">
+                    From
+                    <input type="datetime-local" required value={newTimeOff.startsAt} onChange={e => setNewTimeOff({ ...newTimeOff, startsAt: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-sm text-gray-700 flex flex-col">
+                    Until
+                    <input type="datetime-local" required value={newTimeOff.endsAt} onChange={e => setNewTimeOff({ ...newTimeOff, endsAt: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="text-sm text-gray-700 flex flex-col flex-1">
+                    Reason (optional)
+                    <input value={newTimeOff.reason} maxLength={200} onChange={e => setNewTimeOff({ ...newTimeOff, reason: e.target.value })} className={inputClass} />
+                  </label>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Add time off
+                  </button>
+                </form>
+              </div>
+
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Booked visits</h2>
+                <CareCalendar
+                  month={month}
+                  visits={visits}
+                  onPrevious={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                  onNext={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </CommonLayout>
+  );
+}
@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../lib/auth';
 import CommonLayout from '../components/CommonLayout';
+import NotificationPreferences from '../components/NotificationPreferences';
+import ActiveSessions from '../components/ActiveSessions';
 import Link from 'next/link';
 
 interface SettingsSection {
@@ -62,9 +64,9 @@ const securitySettings: SettingsSection[] = [
   },
   {
     id: 'security-settings',
-    title: 'Security Settings',
-    description: 'Manage your account security',
-    action: 'Edit',
+    title: 'Active Sessions',
+    description: 'See where you are signed in and sign out of other devices',
+    action: 'Manage',
     actionType: 'edit'
   }
 ];
@@ -90,6 +92,7 @@ const legalSettings: SettingsSection[] = [
 
 export default function Settings() {
   const { user } = useAuth();
+  const [expandedSetting, setExpandedSetting] = useState<string | null>(null);
 
   if (!user) {
     return (
@@ -114,7 +117,7 @@ export default function Settings() {
         window.location.href = '/profile';
         break;
       case 'notifications':
-        alert('Notification settings will be available soon!');
+        setExpandedSetting(expandedSetting === 'notifications' ? null : 'notifications');
         break;
       case 'payment':
         alert('Payment settings will be available soon!');
@@ -129,7 +132,7 @@ export default function Settings() {
         alert('Password change will be available soon!');
         break;
       case 'security-settings':
-        alert('Security settings will be available soon!');
+        setExpandedSetting(expandedSetting === 'security-settings' ? null : 'security-settings');
         break;
       case 'terms':
         alert('Terms of Service will be displayed here!');
@@ -147,20 +150,25 @@ export default function Settings() {
       <h3 className="text-xl font-semibold text-gray-900 mb-6">{title}</h3>
       <div className="space-y-1">
         {settings.map((setting) => (
-          <div
-            key={setting.id}
-            className="flex items-center justify-between p-4 hover:bg-gray-50 transition-colors border-b border-gray-100 last:border-b-0"
-          >
-            <div>
-              <h4 className="font-medium text-gray-900 mb-1">{setting.title}</h4>
-              <p className="text-sm text-gray-500">{setting.description}</p>
+          <div key={setting.id} className="border-b border-gray-100 last:border-b-0">
+            <div className="flex items-center justify-between p-4 hover:bg-gray-50 transition-colors">
+              <div>
+                <h4 className="font-medium text-gray-900 mb-1">{setting.title}</h4>
+                <p className="text-sm text-gray-500">{setting.description}</p>
+              </div>
+              <button
+                onClick={() => handleSettingClick(setting.id)}
+                className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                {expandedSetting === setting.id ? 'Close' : setting.action}
+              </button>
             </div>
-            <button
-              onClick={() => handleSettingClick(setting.id)}
-              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 transition-colors"
-            >
-              {setting.action}
-            </button>
+            {expandedSetting === 'notifications' && setting.id === 'notifications' && (
+              <NotificationPreferences onClose={() => setExpandedSetting(null)} />
+            )}
+            {expandedSetting === 'security-settings' && setting.id === 'security-settings' && (
+              <ActiveSessions onClose={() => setExpandedSetting(null)} />
+            )}
           </div>
         ))}
       </div>
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../lib/auth';
 import Layout, { LoadingSpinner } from '../components/Layout';
+import VitalsChart, { VitalsSeries } from '../components/VitalsChart';
 import { apiService } from '../lib/api';
 import Link from 'next/link';
 
@@ -29,6 +30,216 @@ interface CompletedVisit {
   };
 }
 
+interface VisitReport {
+  id: string;
+  recordedAt: string;
+  request?: { id: string; title: string; serviceType: string; scheduledDate: string };
+  nurse?: { id: string; name?: string };
+  vitals?: {
+    systolic?: number;
+    diastolic?: number;
+    heartRate?: number;
+    temperature?: number;
+    spo2?: number;
+    glucose?: number;
+  };
+  medications: { name: string; dose: string; route?: string; givenAt: string }[];
+  woundPhotos: { filename: string; originalName: string; url: string }[];
+  notes?: string;
+}
+
+type VitalKey = keyof NonNullable<VisitReport['vitals']>;
+
+const unwrap = (response: any) => response?.data ?? response;
+
+const seriesFor = (reports: VisitReport[], key: VitalKey, label: string, color: string): VitalsSeries => ({
+  label,
+  color,
+  points: reports
+    .filter(report => report.vitals?.[key] !== undefined && report.vitals?.[key] !== null)
+    .map(report => ({ at: report.recordedAt, value: report.vitals![key] as number })),
+});
+
+function ReportPhoto({ url, alt }: { url: string; alt: string }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    apiService.getVisitReportPhotoUrl(url)
+      .then(result => {
+        objectUrl = result;
+        setSrc(result);
+      })
+      .catch(() => setSrc(null));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  if (!src) {
+    return <div className="w-24 h-24 rounded-md bg-gray-100 animate-pulse" />;
+  }
+
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer">
+      <img src={src} alt={alt} className="w-24 h-24 object-cover rounded-md border border-gray-200" />
+    </a>
+  );
+}
+
+function PatientVisitHistory() {
+  const [reports, setReports] = useState<VisitReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const data = unwrap(await apiService.getVisitTimeline());
+        setReports(Array.isArray(data) ? data : []);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load your visit reports');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const charts: { title: string; unit: string; series: VitalsSeries[]; normalRange?: { min: number; max: number } }[] = [
+    {
+      title: 'Blood pressure',
+      unit: 'mmHg',
+      series: [seriesFor(reports, 'systolic', 'Systolic', '#dc2626'), seriesFor(reports, 'diastolic', 'Diastolic', '#2563eb')],
+    },
+    { title: 'Heart rate', unit: 'bpm', series: [seriesFor(reports, 'heartRate', 'Heart rate', '#db2777')], normalRange: { min: 60, max: 100 } },
+    { title: 'Temperature', unit: '°C', series: [seriesFor(reports, 'temperature', 'Temperature', '#ea580c')], normalRange: { min: 36.1, max: 37.2 } },
+    { title: 'SpO2', unit: '%', series: [seriesFor(reports, 'spo2', 'SpO2', '#0891b2')], normalRange: { min: 95, max: 100 } },
+    { title: 'Glucose', unit: 'mg/dL', series: [seriesFor(reports, 'glucose', 'Glucose', '#7c3aed')], normalRange: { min: 70, max: 140 } },
+  ].map(chart => ({ ...chart, series: chart.series.filter(line => line.points.length > 0) }))
+    .filter(chart => chart.series.length > 0);
+
+  return (
+    <Layout title="Visit History">
+      <div className="min-h-screen bg-gray-50">
+        <div className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="py-6">
+              <h1 className="text-3xl font-bold text-gray-900">Visit History</h1>
+              <p className="text-gray-600 mt-2">Reports your nurses wrote during your visits.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : reports.length === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 text-center py-12">
+              <p className="text-gray-500 text-lg">No visit reports yet</p>
+              <p className="text-gray-400 text-sm mt-2">Your nurse's notes and vitals will appear here after each visit.</p>
+            </div>
+          ) : (
+            <>
+              {charts.length > 0 && (
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Vitals over time</h2>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    {charts.map(chart => (
+                      <VitalsChart key={chart.title} {...chart} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Reports</h2>
+                <ol className="relative border-l-2 border-blue-100 ml-3 space-y-6">
+                  {reports.map(report => (
+                    <li key={report.id} className="ml-6">
+                      <span className="absolute -left-2 mt-1.5 w-3.5 h-3.5 rounded-full bg-blue-600 border-2 border-white"></span>
+                      <div className="bg-white rounded-lg border border-gray-200 p-5">
+                        <div className="flex items-start justify-between mb-3">
+                          <div>
+                            <h3 className="font-semibold text-gray-900">{report.request?.title || 'Visit'}</h3>
+                            <p className="text-sm text-gray-500">
+                              {new Date(report.recordedAt).toLocaleString()}
+                              {report.nurse?.name && ` · ${report.nurse.name}`}
+                            </p>
+                          </div>
+                          {report.request && (
+                            <Link href={`/requests/${report.request.id}`} className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+                              View visit
+                            </Link>
+                          )}
+                        </div>
+
+                        {report.vitals && (
+                          <div className="flex flex-wrap gap-2 mb-3">
+                            {report.vitals.systolic !== undefined && report.vitals.diastolic !== undefined && (
+                              <span className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">BP {report.vitals.systolic}/{report.vitals.diastolic} mmHg</span>
+                            )}
+                            {report.vitals.heartRate !== undefined && (
+                              <span className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">HR {report.vitals.heartRate} bpm</span>
+                            )}
+                            {report.vitals.temperature !== undefined && (
+                              <span className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">Temp {report.vitals.temperature} °C</span>
+                            )}
+                            {report.vitals.spo2 !== undefined && (
+                              <span className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">SpO2 {report.vitals.spo2}%</span>
+                            )}
+                            {report.vitals.glucose !== undefined && (
+                              <span className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">Glucose {report.vitals.glucose} mg/dL</span>
+                            )}
+                          </div>
+                        )}
+
+                        {report.medications.length > 0 && (
+                          <div className="mb-3">
+                            <p className="text-sm font-medium text-gray-700">Medications given</p>
+                            <ul className="text-sm text-gray-600 list-disc list-inside">
+                              {report.medications.map((medication, index) => (
+                                <li key={index}>
+                                  {medication.name} {medication.dose}
+                                  {medication.route && ` (${medication.route})`} at{' '}
+                                  {new Date(medication.givenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {report.notes && <p className="text-sm text-gray-700 whitespace-pre-line mb-3">{report.notes}</p>}
+
+                        {report.woundPhotos.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {report.woundPhotos.map(photo => (
+                              <ReportPhoto key={photo.filename} url={photo.url} alt={photo.originalName} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
+
 function VisitHistory() {
   const { user } = useAuth();
   const [visits, setVisits] = useState<CompletedVisit[]>([]);
@@ -97,12 +308,16 @@ function VisitHistory() {
     );
   }
 
-  // Only nurses should access this page
+  if (user.role === 'patient') {
+    return <PatientVisitHistory />;
+  }
+
+  // Only nurses and patients should access this page
   if (user.role !== 'nurse') {
     return (
       <Layout>
         <div className="text-center py-8">
-          <p className="text-red-600">Access denied. Only nurses can view visit history.</p>
+          <p className="text-red-600">Access denied. Only nurses and patients can view visit history.</p>
         </div>
       </Layout>
     );